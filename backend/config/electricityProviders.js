@@ -0,0 +1,175 @@
+// config/electricityProviders.js - Electricity distribution companies (discos)
+// `serviceId` is the VTpass serviceID used for meter verification and vending.
+const ELECTRICITY_PROVIDERS = {
+  aedc: {
+    id: 'aedc',
+    name: 'Abuja Electric',
+    fullName: 'Abuja Electricity Distribution Company',
+    acronym: 'AEDC',
+    serviceId: 'abuja-electric',
+    status: 'active',
+    minAmount: 100,
+    maxAmount: 100000,
+    fee: 0,
+    meterTypes: ['prepaid', 'postpaid'],
+    lastUpdated: new Date('2024-01-01')
+  },
+  bedc: {
+    id: 'bedc',
+    name: 'Benin Electric',
+    fullName: 'Benin Electricity Distribution Company',
+    acronym: 'BEDC',
+    serviceId: 'benin-electric',
+    status: 'active',
+    minAmount: 100,
+    maxAmount: 100000,
+    fee: 0,
+    meterTypes: ['prepaid', 'postpaid'],
+    lastUpdated: new Date('2024-01-01')
+  },
+  eedc: {
+    id: 'eedc',
+    name: 'Enugu Electric',
+    fullName: 'Enugu Electricity Distribution Company',
+    acronym: 'EEDC',
+    serviceId: 'enugu-electric',
+    status: 'active',
+    minAmount: 100,
+    maxAmount: 100000,
+    fee: 0,
+    meterTypes: ['prepaid', 'postpaid'],
+    lastUpdated: new Date('2024-01-01')
+  },
+  ekedc: {
+    id: 'ekedc',
+    name: 'Eko Electric',
+    fullName: 'Eko Electricity Distribution Company',
+    acronym: 'EKEDC',
+    serviceId: 'eko-electric',
+    status: 'active',
+    minAmount: 100,
+    maxAmount: 100000,
+    fee: 0,
+    meterTypes: ['prepaid', 'postpaid'],
+    lastUpdated: new Date('2024-01-01')
+  },
+  ibedc: {
+    id: 'ibedc',
+    name: 'Ibadan Electric',
+    fullName: 'Ibadan Electricity Distribution Company',
+    acronym: 'IBEDC',
+    serviceId: 'ibadan-electric',
+    status: 'active',
+    minAmount: 100,
+    maxAmount: 100000,
+    fee: 0,
+    meterTypes: ['prepaid', 'postpaid'],
+    lastUpdated: new Date('2024-01-01')
+  },
+  ikedc: {
+    id: 'ikedc',
+    name: 'Ikeja Electric',
+    fullName: 'Ikeja Electric Distribution Company',
+    acronym: 'IKEDC',
+    serviceId: 'ikeja-electric',
+    status: 'active',
+    minAmount: 100,
+    maxAmount: 100000,
+    fee: 0,
+    meterTypes: ['prepaid', 'postpaid'],
+    lastUpdated: new Date('2024-01-01')
+  },
+  jedc: {
+    id: 'jedc',
+    name: 'Jos Electric',
+    fullName: 'Jos Electricity Distribution Company',
+    acronym: 'JEDC',
+    serviceId: 'jos-electric',
+    status: 'active',
+    minAmount: 100,
+    maxAmount: 100000,
+    fee: 0,
+    meterTypes: ['prepaid', 'postpaid'],
+    lastUpdated: new Date('2024-01-01')
+  },
+  kaedc: {
+    id: 'kaedc',
+    name: 'Kaduna Electric',
+    fullName: 'Kaduna Electric Distribution Company',
+    acronym: 'KAEDC',
+    serviceId: 'kaduna-electric',
+    status: 'active',
+    minAmount: 100,
+    maxAmount: 100000,
+    fee: 0,
+    meterTypes: ['prepaid', 'postpaid'],
+    lastUpdated: new Date('2024-01-01')
+  },
+  kedc: {
+    id: 'kedc',
+    name: 'Kano Electric',
+    fullName: 'Kano Electricity Distribution Company',
+    acronym: 'KEDC',
+    serviceId: 'kano-electric',
+    status: 'active',
+    minAmount: 100,
+    maxAmount: 100000,
+    fee: 0,
+    meterTypes: ['prepaid', 'postpaid'],
+    lastUpdated: new Date('2024-01-01')
+  },
+  phedc: {
+    id: 'phedc',
+    name: 'Port Harcourt Electric',
+    fullName: 'Port Harcourt Electric Distribution Company',
+    acronym: 'PHEDC',
+    serviceId: 'portharcourt-electric',
+    status: 'active',
+    minAmount: 100,
+    maxAmount: 100000,
+    fee: 0,
+    meterTypes: ['prepaid', 'postpaid'],
+    lastUpdated: new Date('2024-01-01')
+  },
+  yedc: {
+    id: 'yedc',
+    name: 'Yola Electric',
+    fullName: 'Yola Electricity Distribution Company',
+    acronym: 'YEDC',
+    serviceId: 'yola-electric',
+    status: 'inactive',
+    minAmount: 100,
+    maxAmount: 100000,
+    fee: 0,
+    meterTypes: ['prepaid', 'postpaid'],
+    lastUpdated: new Date('2024-01-01')
+  }
+};
+
+const METER_TYPES = ['prepaid', 'postpaid'];
+
+// Helper functions
+const getProvider = (id) => {
+  if (!id) return null;
+  return ELECTRICITY_PROVIDERS[id.toLowerCase()] || null;
+};
+
+const getAllProviders = () => Object.values(ELECTRICITY_PROVIDERS);
+
+const isProviderActive = (id) => {
+  const provider = getProvider(id);
+  return !!provider && provider.status === 'active';
+};
+
+const getLastModified = () => {
+  return new Date(Math.max(...getAllProviders().map(p => p.lastUpdated.getTime())));
+};
+
+module.exports = {
+  ELECTRICITY_PROVIDERS,
+  METER_TYPES,
+  getProvider,
+  getAllProviders,
+  isProviderActive,
+  getLastModified
+};
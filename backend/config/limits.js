@@ -0,0 +1,23 @@
+// config/limits.js - Spending limits per KYC tier
+// `perTransaction` caps a single debit; `daily` and `monthly` cap the total
+// debited over a rolling 24 hours and 30 days. A wallet's own dailyLimit and
+// monthlyLimit apply on top, so the lower of the two wins.
+const KYC_TIER_LIMITS = {
+  0: { perTransaction: 50000, daily: 100000, monthly: 500000 },
+  1: { perTransaction: 200000, daily: 500000, monthly: 2000000 },
+  2: { perTransaction: 1000000, daily: 5000000, monthly: 20000000 },
+  3: { perTransaction: 10000000, daily: 25000000, monthly: 100000000 }
+};
+
+const LIMIT_WINDOWS = {
+  daily: 24 * 60 * 60 * 1000,
+  monthly: 30 * 24 * 60 * 60 * 1000
+};
+
+const getTierLimits = (kycLevel) => KYC_TIER_LIMITS[kycLevel] || KYC_TIER_LIMITS[0];
+
+module.exports = {
+  KYC_TIER_LIMITS,
+  LIMIT_WINDOWS,
+  getTierLimits
+};
@@ -1,5 +1,6 @@
 const jwt = require('jsonwebtoken');
 const User = require('../models/User');
+const { isSessionActive } = require('../services/sessionService');
 
 const authenticate = async (req, res, next) => {
   try {
@@ -19,6 +20,17 @@ const authenticate = async (req, res, next) => {
     // Verify token
     const decoded = jwt.verify(token, process.env.JWT_SECRET || 'your_secret_key');
     console.log('✅ Token decoded successfully:', decoded);
+
+    // Access tokens are tied to a session so logout and password changes
+    // take effect before the token expires
+    if (!decoded.sessionId || !(await isSessionActive(decoded.sessionId, decoded.userId))) {
+      console.log('❌ Session missing or revoked');
+      return res.status(401).json({
+        success: false,
+        message: 'Session expired. Please log in again.',
+        error_code: 'SESSION_REVOKED'
+      });
+    }
     
     // Check if user exists
     const user = await User.findById(decoded.userId);
@@ -43,7 +55,7 @@ const authenticate = async (req, res, next) => {
     }
 
     console.log('✅ Authentication successful');
-    req.user = decoded;
+    req.user = { ...decoded, role: user.role, isPhoneVerified: user.isPhoneVerified };
     next();
   } catch (error) {
     console.log('❌ Authentication error:', error.message);
@@ -51,14 +63,16 @@ const authenticate = async (req, res, next) => {
     if (error.name === 'JsonWebTokenError') {
       return res.status(401).json({
         success: false,
-        message: 'Invalid token.'
+        message: 'Invalid token.',
+        error_code: 'INVALID_TOKEN'
       });
     }
     
     if (error.name === 'TokenExpiredError') {
       return res.status(401).json({
         success: false,
-        message: 'Token expired.'
+        message: 'Token expired.',
+        error_code: 'TOKEN_EXPIRED'
       });
     }
 
@@ -70,4 +84,31 @@ const authenticate = async (req, res, next) => {
   }
 };
 
-module.exports = { authenticate };
\ No newline at end of file
+// Use after authenticate. The role is read from the database on every
+// request, so revoking admin access takes effect immediately.
+const requireAdmin = (req, res, next) => {
+  if (req.user?.role !== 'admin') {
+    return res.status(403).json({
+      success: false,
+      message: 'Admin access required.',
+      error_code: 'ADMIN_REQUIRED'
+    });
+  }
+  next();
+};
+
+// Use after authenticate on endpoints that move money out of the wallet to
+// someone else (transfers, withdrawals). The app sends the user to the phone
+// verification screen when it sees PHONE_NOT_VERIFIED.
+const requireVerifiedPhone = (req, res, next) => {
+  if (!req.user?.isPhoneVerified) {
+    return res.status(403).json({
+      success: false,
+      message: 'Please verify your phone number before sending money.',
+      error_code: 'PHONE_NOT_VERIFIED'
+    });
+  }
+  next();
+};
+
+module.exports = { authenticate, requireAdmin, requireVerifiedPhone };
\ No newline at end of file
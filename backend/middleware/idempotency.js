@@ -0,0 +1,98 @@
+const crypto = require('crypto');
+const IdempotencyKey = require('../models/IdempotencyKey');
+
+// Body fields left out of the request hash, so secrets are never stored. A
+// retry re-signs a fresh biometric challenge, so the signature would also
+// make the same purchase look like a different request.
+const UNHASHED_FIELDS = ['pin', 'transactionPin', 'biometric'];
+
+// Replays the stored response when a client repeats a request with the same
+// Idempotency-Key header. Must run after `authenticate`.
+//
+// Every final response is kept, including 5xx ones: a server error may come
+// after money has moved, and running the request again could charge twice.
+// Only a 4xx sent before the route called markSideEffects(res) releases the
+// key, so the client can retry the same confirm step, e.g. after mistyping
+// the PIN.
+const idempotency = async (req, res, next) => {
+  const key = req.get('Idempotency-Key');
+  if (!key) {
+    return next();
+  }
+
+  if (key.length > 255) {
+    return res.status(400).json({
+      success: false,
+      message: 'Idempotency-Key header must be at most 255 characters',
+      error_code: 'INVALID_IDEMPOTENCY_KEY'
+    });
+  }
+
+  const endpoint = `${req.method} ${req.baseUrl}${req.path}`;
+  const hashedBody = { ...(req.body || {}) };
+  UNHASHED_FIELDS.forEach(field => delete hashedBody[field]);
+  const requestHash = crypto.createHash('sha256').update(JSON.stringify(hashedBody)).digest('hex');
+
+  let record;
+  try {
+    record = await IdempotencyKey.create({ key, userId: req.user.userId, endpoint, requestHash });
+  } catch (error) {
+    if (error.code !== 11000) {
+      console.error('Idempotency key error:', error);
+      return res.status(500).json({
+        success: false,
+        message: 'Server error processing request'
+      });
+    }
+
+    const existing = await IdempotencyKey.findOne({ key, userId: req.user.userId, endpoint });
+
+    // Released or expired between the insert and the lookup
+    if (!existing) {
+      return idempotency(req, res, next);
+    }
+
+    if (existing.requestHash !== requestHash) {
+      return res.status(409).json({
+        success: false,
+        message: 'This Idempotency-Key was already used with a different request',
+        error_code: 'IDEMPOTENCY_KEY_REUSED'
+      });
+    }
+
+    if (existing.status === 'processing') {
+      return res.status(409).json({
+        success: false,
+        message: 'A request with this Idempotency-Key is still being processed',
+        error_code: 'REQUEST_IN_PROGRESS'
+      });
+    }
+
+    res.set('Idempotent-Replayed', 'true');
+    return res.status(existing.responseStatus).json(existing.responseBody);
+  }
+
+  const originalJson = res.json.bind(res);
+  res.json = (body) => {
+    const release = res.statusCode >= 400 && res.statusCode < 500 && !res.locals.idempotencySideEffects;
+    const settle = release
+      ? IdempotencyKey.deleteOne({ _id: record._id })
+      : IdempotencyKey.updateOne(
+          { _id: record._id },
+          { status: 'completed', responseStatus: res.statusCode, responseBody: body, completedAt: new Date() }
+        );
+
+    settle.catch(error => console.error('Failed to store idempotent response:', error));
+    return originalJson(body);
+  };
+
+  next();
+};
+
+// Called by a route once it has moved money or written a record the request
+// must not repeat; from then on even a 4xx response is kept and replayed
+const markSideEffects = (res) => {
+  res.locals.idempotencySideEffects = true;
+};
+
+module.exports = { idempotency, markSideEffects };
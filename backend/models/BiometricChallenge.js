@@ -0,0 +1,45 @@
+const mongoose = require('mongoose');
+
+// A one-time nonce issued for a single transaction. The app signs it with the
+// enrolled device key; it is bound to the action and amount it was issued for
+// and can only be used once.
+const biometricChallengeSchema = new mongoose.Schema({
+  userId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  deviceKeyId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'BiometricDevice',
+    required: true
+  },
+  nonce: {
+    type: String,
+    required: true
+  },
+  // What the challenge authorizes, e.g. 'purchase' for ₦2,000
+  action: {
+    type: String,
+    required: true
+  },
+  amount: {
+    type: Number,
+    required: true
+  },
+  expiresAt: {
+    type: Date,
+    required: true
+  },
+  usedAt: {
+    type: Date,
+    default: null
+  }
+}, {
+  timestamps: { createdAt: true, updatedAt: false }
+});
+
+// Expired challenges are cleaned up by MongoDB
+biometricChallengeSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+module.exports = mongoose.model('BiometricChallenge', biometricChallengeSchema);
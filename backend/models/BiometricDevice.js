@@ -0,0 +1,61 @@
+const mongoose = require('mongoose');
+
+// A device enrolled for biometric transaction confirmation. The app keeps the
+// Ed25519 private key behind the device's biometric prompt; only the public
+// key is stored here. Re-enrolling the same device replaces its key.
+const biometricDeviceSchema = new mongoose.Schema({
+  userId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  // Same identifier the app sends with login (see Session.deviceId)
+  deviceId: {
+    type: String,
+    required: true,
+    trim: true,
+    maxlength: [128, 'Device ID cannot exceed 128 characters']
+  },
+  deviceName: {
+    type: String,
+    trim: true,
+    maxlength: [100, 'Device name cannot exceed 100 characters']
+  },
+  platform: {
+    type: String,
+    trim: true
+  },
+  // Raw 32-byte Ed25519 public key, base64
+  publicKey: {
+    type: String,
+    required: true
+  },
+  algorithm: {
+    type: String,
+    enum: ['ed25519'],
+    default: 'ed25519'
+  },
+  lastUsedAt: {
+    type: Date,
+    default: null
+  },
+  revokedAt: {
+    type: Date,
+    default: null
+  },
+  revokedReason: {
+    type: String,
+    enum: ['user', 'replaced', 'pin_reset', null],
+    default: null
+  }
+}, {
+  timestamps: true
+});
+
+// At most one active key per device
+biometricDeviceSchema.index(
+  { userId: 1, deviceId: 1 },
+  { unique: true, partialFilterExpression: { revokedAt: null }, name: 'one_active_key_per_device' }
+);
+
+module.exports = mongoose.model('BiometricDevice', biometricDeviceSchema);
@@ -0,0 +1,54 @@
+const mongoose = require('mongoose');
+
+// A hosted card checkout started from the app. The wallet is only credited
+// (with a ledger row under the same reference) once the gateway confirms the
+// charge, so an abandoned or declined checkout never touches the balance.
+const cardPaymentSchema = new mongoose.Schema({
+  userId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true,
+    index: true
+  },
+  walletId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Wallet',
+    required: true
+  },
+  reference: {
+    type: String,
+    required: true,
+    unique: true
+  },
+  amount: {
+    type: Number,
+    required: true,
+    min: [0, 'Amount cannot be negative']
+  },
+  provider: {
+    type: String,
+    required: true
+  },
+  providerReference: String,
+  authorizationUrl: String,
+  callbackUrl: String,
+  status: {
+    type: String,
+    enum: ['pending', 'success', 'failed'],
+    default: 'pending',
+    index: true
+  },
+  // Normalized verify response from the gateway
+  gatewayResponse: mongoose.Schema.Types.Mixed,
+  failureReason: String,
+  transactionId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Transaction'
+  },
+  paidAt: Date,
+  verifiedAt: Date
+}, {
+  timestamps: true
+});
+
+module.exports = mongoose.model('CardPayment', cardPaymentSchema);
@@ -0,0 +1,47 @@
+const mongoose = require("mongoose");
+
+// How long a key is remembered; repeats after this are treated as new requests
+const IDEMPOTENCY_WINDOW_SECONDS = 24 * 60 * 60;
+
+const idempotencyKeySchema = new mongoose.Schema({
+  key: {
+    type: String,
+    required: true,
+    trim: true,
+    maxlength: [255, "Idempotency key cannot exceed 255 characters"]
+  },
+  userId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: "User",
+    required: true
+  },
+  endpoint: {
+    type: String,
+    required: true
+  },
+  // SHA-256 of the request body without the PIN, used to reject a key reused
+  // for another payload
+  requestHash: {
+    type: String,
+    required: true
+  },
+  status: {
+    type: String,
+    enum: ["processing", "completed"],
+    default: "processing"
+  },
+  responseStatus: Number,
+  responseBody: mongoose.Schema.Types.Mixed,
+  completedAt: Date,
+  createdAt: {
+    type: Date,
+    default: Date.now,
+    expires: IDEMPOTENCY_WINDOW_SECONDS
+  }
+});
+
+// Keys are scoped per user and endpoint
+idempotencyKeySchema.index({ userId: 1, endpoint: 1, key: 1 }, { unique: true });
+
+module.exports = mongoose.model("IdempotencyKey", idempotencyKeySchema);
+module.exports.IDEMPOTENCY_WINDOW_SECONDS = IDEMPOTENCY_WINDOW_SECONDS;
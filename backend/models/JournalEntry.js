@@ -0,0 +1,80 @@
+const mongoose = require('mongoose');
+
+// One balanced double-entry posting set. Every wallet balance change writes
+// an entry against the wallet's account and a contra account (provider
+// float, fee income, suspense, ...); settling a hold writes a second entry
+// that moves it out of suspense. See services/journalService for the chart
+// of accounts.
+const postingSchema = new mongoose.Schema({
+  account: {
+    type: String,
+    required: true
+  },
+  // Set on postings to a customer wallet account
+  walletId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Wallet'
+  },
+  debit: {
+    type: Number,
+    default: 0,
+    min: 0
+  },
+  credit: {
+    type: Number,
+    default: 0,
+    min: 0
+  }
+}, { _id: false });
+
+const journalEntrySchema = new mongoose.Schema({
+  // Ledger reference of the wallet movement, or `<reference>_SETTLE` /
+  // `OPEN_<walletId>` for settlement and opening-balance entries
+  reference: {
+    type: String,
+    required: true,
+    unique: true
+  },
+  kind: {
+    type: String,
+    enum: ['wallet_movement', 'settlement', 'opening_balance'],
+    required: true
+  },
+  transactionId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Transaction'
+  },
+  description: String,
+  postings: {
+    type: [postingSchema],
+    validate: {
+      validator: (postings) => postings.length >= 2,
+      message: 'A journal entry needs at least two postings'
+    }
+  },
+  postedAt: {
+    type: Date,
+    default: Date.now
+  }
+});
+
+journalEntrySchema.index({ 'postings.account': 1 });
+journalEntrySchema.index({ 'postings.walletId': 1 });
+
+// Work in kobo so float noise cannot hide or invent an imbalance
+const toKobo = (amount) => Math.round((amount || 0) * 100);
+
+journalEntrySchema.pre('validate', function(next) {
+  const debits = this.postings.reduce((sum, p) => sum + toKobo(p.debit), 0);
+  const credits = this.postings.reduce((sum, p) => sum + toKobo(p.credit), 0);
+
+  if (debits !== credits) {
+    return next(new Error(`Journal entry ${this.reference} is unbalanced: debits ${debits / 100}, credits ${credits / 100}`));
+  }
+  if (this.postings.some(p => (toKobo(p.debit) > 0) === (toKobo(p.credit) > 0))) {
+    return next(new Error(`Journal entry ${this.reference} has a posting without exactly one side`));
+  }
+  next();
+});
+
+module.exports = mongoose.model('JournalEntry', journalEntrySchema);
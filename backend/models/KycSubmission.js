@@ -0,0 +1,108 @@
+const mongoose = require('mongoose');
+
+// An uploaded ID photo, selfie or proof of address. The bytes are only
+// loaded when an admin opens the document.
+const kycDocumentSchema = new mongoose.Schema({
+  kind: {
+    type: String,
+    enum: ['id_front', 'id_back', 'selfie', 'address_proof'],
+    required: true
+  },
+  contentType: {
+    type: String,
+    enum: ['image/jpeg', 'image/png', 'application/pdf'],
+    required: true
+  },
+  size: {
+    type: Number,
+    required: true
+  },
+  data: {
+    type: Buffer,
+    required: true,
+    select: false
+  }
+});
+
+// One request to move a user up a KYC tier. Tier 1 (BVN/NIN) and tier 2 (ID
+// document and selfie) are checked by the identity provider and approved
+// automatically when it verifies them; anything it can't settle, and every
+// tier 3 proof of address, waits in `pending_review` for an admin. The user's
+// kycLevel only changes once a submission is approved.
+const kycSubmissionSchema = new mongoose.Schema({
+  userId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true,
+    index: true
+  },
+  reference: {
+    type: String,
+    required: true,
+    unique: true
+  },
+  tier: {
+    type: Number,
+    enum: [1, 2, 3],
+    required: true
+  },
+  status: {
+    type: String,
+    enum: ['pending_review', 'approved', 'rejected'],
+    required: true,
+    index: true
+  },
+
+  // What the user submitted for this tier; copied to User.kycData on approval
+  details: {
+    bvn: String,
+    nin: String,
+    dateOfBirth: Date,
+    idType: {
+      type: String,
+      enum: ['national_id', 'drivers_license', 'voters_card', 'passport']
+    },
+    idNumber: String,
+    idExpiryDate: Date,
+    address: {
+      street: String,
+      city: String,
+      state: String
+    },
+    proofType: {
+      type: String,
+      enum: ['utility_bill', 'bank_statement', 'tenancy_agreement']
+    }
+  },
+  documents: [kycDocumentSchema],
+
+  // The identity provider's answer, kept for the reviewer and the audit trail
+  verification: {
+    provider: String,
+    providerReference: String,
+    status: String,
+    message: String,
+    faceMatchScore: Number,
+    advisory: Boolean,
+    checkedAt: Date
+  },
+
+  reviewedBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User'
+  },
+  reviewNote: String,
+  rejectionReason: String,
+  decidedAt: Date
+}, {
+  timestamps: true
+});
+
+// At most one submission per user can be waiting for review
+kycSubmissionSchema.index(
+  { userId: 1, status: 1 },
+  { unique: true, partialFilterExpression: { status: 'pending_review' }, name: 'one_pending_per_user' }
+);
+kycSubmissionSchema.index({ status: 1, createdAt: 1 });
+
+module.exports = mongoose.model('KycSubmission', kycSubmissionSchema);
@@ -0,0 +1,78 @@
+const mongoose = require('mongoose');
+
+// An admin's request to credit or debit a user's wallet outside the normal
+// flows. Small adjustments are applied straight away; larger ones wait for a
+// second admin to approve them (maker-checker). Once applied, transactionId
+// points at the ledger row that moved the balance.
+const ledgerAdjustmentSchema = new mongoose.Schema({
+  userId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true,
+    index: true
+  },
+  walletId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Wallet',
+    required: true
+  },
+  direction: {
+    type: String,
+    enum: ['credit', 'debit'],
+    required: true
+  },
+  amount: {
+    type: Number,
+    required: true,
+    min: [0.01, 'Amount must be positive']
+  },
+  category: {
+    type: String,
+    enum: ['bonus', 'refund'],
+    required: true
+  },
+  reason: {
+    type: String,
+    required: [true, 'A reason is required'],
+    trim: true,
+    minlength: [10, 'Reason must be at least 10 characters'],
+    maxlength: [500, 'Reason cannot exceed 500 characters']
+  },
+  reference: {
+    type: String,
+    required: true,
+    unique: true
+  },
+  status: {
+    type: String,
+    enum: ['pending_approval', 'approved', 'applied', 'rejected', 'failed'],
+    required: true,
+    index: true
+  },
+  requestedBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  // Set only for adjustments that went through approval
+  approvedBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User'
+  },
+  rejectedBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User'
+  },
+  rejectionReason: String,
+  failureReason: String,
+  transactionId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Transaction'
+  },
+  decidedAt: Date,
+  appliedAt: Date
+}, {
+  timestamps: true
+});
+
+module.exports = mongoose.model('LedgerAdjustment', ledgerAdjustmentSchema);
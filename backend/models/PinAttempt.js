@@ -0,0 +1,31 @@
+const mongoose = require('mongoose');
+
+// Audit trail of failed transaction PIN attempts
+const pinAttemptSchema = new mongoose.Schema({
+  userId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  // Endpoint that checked the PIN, e.g. 'purchase', 'recharge_generate'
+  source: {
+    type: String,
+    required: true
+  },
+  attemptNumber: {
+    type: Number,
+    required: true
+  },
+  lockedUntil: {
+    type: Date,
+    default: null
+  },
+  ipAddress: String,
+  userAgent: String
+}, {
+  timestamps: { createdAt: true, updatedAt: false }
+});
+
+pinAttemptSchema.index({ userId: 1, createdAt: -1 });
+
+module.exports = mongoose.model('PinAttempt', pinAttemptSchema);
@@ -1,4 +1,5 @@
 const mongoose = require("mongoose");
+const { postHoldSettlement } = require("../services/journalService");
 
 const transactionSchema = new mongoose.Schema({
   walletId: {
@@ -71,7 +72,9 @@ const transactionSchema = new mongoose.Schema({
   gateway: {
     provider: String, // "paystack", "flutterwave", "manual", etc.
     gatewayReference: String,
-    gatewayResponse: mongoose.Schema.Types.Mixed
+    gatewayResponse: mongoose.Schema.Types.Mixed,
+    // Last time a requery found a pending hold still unsettled
+    lastCheckedAt: Date
   },
 
   // Additional metadata (✅ now has defaults)
@@ -93,6 +96,72 @@ const transactionSchema = new mongoose.Schema({
     retryCount: { type: Number, default: 0 },
     lastRetryAt: Date,
     providerResponse: mongoose.Schema.Types.Mixed
+  },
+  // Both sides of a wallet-to-wallet transfer, copied onto each ledger row for receipts
+  transfer: {
+    senderId: { type: mongoose.Schema.Types.ObjectId, ref: 'User' },
+    senderName: String,
+    senderUsername: String,
+    recipientId: { type: mongoose.Schema.Types.ObjectId, ref: 'User' },
+    recipientName: String,
+    recipientUsername: String,
+    narration: String
+  },
+  // Bank payout details; the fee is a separate `fee` row referenced by feeReference
+  withdrawal: {
+    bankCode: String,
+    bankName: String,
+    accountNumber: String,
+    accountName: String,
+    narration: String,
+    fee: Number,
+    feeReference: String,
+    settledAt: Date
+  },
+  // The order behind a recharge PIN hold, so a requery can check and record
+  // the PINs the provider delivered
+  recharge: {
+    network: String,
+    cardType: String,
+    denomination: Number,
+    quantity: Number
+  },
+  // What a purchase was for, in one shape for every service, so history can
+  // filter and search without parsing descriptions (see services/historyService)
+  service: {
+    type: { type: String },
+    provider: String,
+    phone: String,
+    meterNumber: String,
+    smartCardNumber: String,
+    customerId: String,
+    plan: String
+  },
+  // Customer-reported problem with this row, forwarded to support
+  issue: {
+    message: String,
+    reportedAt: Date
+  },
+  // Manual balance correction by an admin (see models/LedgerAdjustment)
+  adjustment: {
+    adjustmentId: { type: mongoose.Schema.Types.ObjectId, ref: 'LedgerAdjustment' },
+    reason: String,
+    requestedBy: { type: mongoose.Schema.Types.ObjectId, ref: 'User' },
+    approvedBy: { type: mongoose.Schema.Types.ObjectId, ref: 'User' }
+  },
+  electricity: {
+    provider: String,
+    meterNumber: String,
+    meterType: {
+      type: String,
+      enum: ['prepaid', 'postpaid']
+    },
+    customerName: String,
+    customerAddress: String,
+    token: String,
+    units: String,
+    tariffClass: String,
+    providerReference: String
   }
 },
 
@@ -112,6 +181,8 @@ const transactionSchema = new mongoose.Schema({
 // Indexes
 transactionSchema.index({ walletId: 1, createdAt: -1 });
 transactionSchema.index({ userId: 1, createdAt: -1 });
+// History cursors page on (createdAt, _id)
+transactionSchema.index({ userId: 1, createdAt: -1, _id: -1 });
 transactionSchema.index({ type: 1, status: 1 });
 transactionSchema.index({ "gateway.gatewayReference": 1 });
 
@@ -135,10 +206,35 @@ transactionSchema.virtual("age").get(function () {
 });
 
 // Instance methods
-transactionSchema.methods.complete = function () {
-  this.status = "completed";
-  this.completedAt = new Date();
-  return this.save();
+// Completing a hold (a pending debit) also moves it out of suspense in the journal.
+// A pending transaction is claimed with a conditional update, so it settles once
+// even when a requery and a late provider answer race; the loser gets
+// HOLD_NOT_PENDING.
+transactionSchema.methods.complete = async function () {
+  if (this.status !== "pending") {
+    this.status = "completed";
+    this.completedAt = new Date();
+    return this.save();
+  }
+
+  // Keep what the caller recorded first, e.g. the description and gateway
+  if (this.isModified()) await this.save();
+
+  const completed = await this.constructor.findOneAndUpdate(
+    { _id: this._id, status: "pending" },
+    { $set: { status: "completed", completedAt: new Date() } },
+    { new: true }
+  );
+  if (!completed) {
+    const error = new Error(`Cannot complete transaction ${this.reference}: it is no longer pending`);
+    error.errorCode = "HOLD_NOT_PENDING";
+    error.status = 409;
+    throw error;
+  }
+
+  this.init(completed.toObject({ depopulate: true }));
+  if (this.type === "debit") await postHoldSettlement(this);
+  return this;
 };
 
 transactionSchema.methods.fail = function (reason) {
@@ -298,8 +394,6 @@ transactionSchema.methods.canRetryBetting = function() {
 
 // Instance method to mark betting transaction as successful
 transactionSchema.methods.markBettingSuccess = function(successMessage, providerResponse = null) {
-  this.status = 'completed';
-  this.completedAt = new Date();
   if (!this.metadata) this.metadata = {};
   
   this.metadata.notes = successMessage;
@@ -307,7 +401,8 @@ transactionSchema.methods.markBettingSuccess = function(successMessage, provider
     this.metadata.betting.providerResponse = providerResponse;
   }
   
-  return this.save();
+  // Settles the hold, including its journal entry
+  return this.complete();
 };
 
 // Instance method to mark betting transaction as failed
@@ -331,7 +426,6 @@ transactionSchema.methods.incrementBettingRetry = function() {
   
   this.metadata.betting.retryCount = (this.metadata.betting.retryCount || 0) + 1;
   this.metadata.betting.lastRetryAt = new Date();
-  this.status = 'pending';
   
   return this.save();
 };
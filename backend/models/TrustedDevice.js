@@ -0,0 +1,62 @@
+const mongoose = require('mongoose');
+
+// A device the user has signed in from, registered at login. Sessions come
+// and go (each login replaces the device's previous one); this record is what
+// makes a device "known" for login alerts and the optional login code.
+// Revoking it signs the device out and makes its next login count as new.
+const trustedDeviceSchema = new mongoose.Schema({
+  userId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  // Generated by the app on first launch (see Session.deviceId)
+  deviceId: {
+    type: String,
+    required: true,
+    trim: true,
+    maxlength: [128, 'Device ID cannot exceed 128 characters']
+  },
+  deviceName: {
+    type: String,
+    trim: true,
+    maxlength: [100, 'Device name cannot exceed 100 characters']
+  },
+  platform: {
+    type: String,
+    trim: true
+  },
+  appVersion: {
+    type: String,
+    trim: true,
+    maxlength: [32, 'App version cannot exceed 32 characters']
+  },
+  // Hash of the device token handed to the app at its last login. The app
+  // sends it back with later logins; a matching deviceId alone isn't proof.
+  deviceTokenHash: {
+    type: String,
+    select: false
+  },
+  firstIpAddress: String,
+  lastIpAddress: String,
+  lastUserAgent: String,
+  lastLoginAt: {
+    type: Date,
+    default: Date.now
+  },
+  revokedAt: {
+    type: Date,
+    default: null
+  },
+  revokedReason: {
+    type: String,
+    enum: ['user', null],
+    default: null
+  }
+}, {
+  timestamps: true
+});
+
+trustedDeviceSchema.index({ userId: 1, deviceId: 1 }, { unique: true });
+
+module.exports = mongoose.model('TrustedDevice', trustedDeviceSchema);
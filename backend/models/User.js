@@ -1,5 +1,6 @@
 const mongoose = require('mongoose');
 const bcrypt = require('bcryptjs');
+const { getTierLimits } = require('../config/limits');
 
 const userSchema = new mongoose.Schema({
   name: {
@@ -45,15 +46,45 @@ const userSchema = new mongoose.Schema({
     match: [/^\d{4}$/, 'PIN must be exactly 4 digits']
   },
   isPinSetup: { type: Boolean, default: false },
+  // Failed PIN attempts and lockouts, shared by every endpoint that checks the PIN
+  pinSecurity: {
+    failedAttempts: { type: Number, default: 0 },
+    lockCount: { type: Number, default: 0 },
+    lockedUntil: { type: Date, default: null },
+    lastFailedAt: { type: Date, default: null }
+  },
   isEmailVerified: { type: Boolean, default: false },
   isPhoneVerified: { type: Boolean, default: false },
   isActive: { type: Boolean, default: true },
+  // Admins can adjust wallet balances through /api/admin; never set from request bodies
+  role: { type: String, enum: ['user', 'admin'], default: 'user' },
   lastLogin: { type: Date },
 
+  // Hashed one-time code for password reset (see services/otpService)
   resetPasswordToken: String,
   resetPasswordExpires: Date,
+  resetPasswordAttempts: { type: Number, default: 0 },
+  resetPinToken: String,
+  resetPinExpires: Date,
+  resetPinAttempts: { type: Number, default: 0 },
+  // Hashed email and phone verification codes (see services/contactVerificationService)
   emailVerificationToken: String,
   emailVerificationExpires: Date,
+  emailVerificationAttempts: { type: Number, default: 0 },
+  emailVerificationSentAt: Date,
+  phoneVerificationToken: String,
+  phoneVerificationExpires: Date,
+  phoneVerificationAttempts: { type: Number, default: 0 },
+  phoneVerificationSentAt: Date,
+
+  // Optional step-up: logins from an unknown device need a one-time code
+  // (see services/deviceService)
+  requireLoginOtpOnNewDevice: { type: Boolean, default: false },
+  loginOtpToken: String,
+  loginOtpExpires: Date,
+  loginOtpAttempts: { type: Number, default: 0 },
+  loginOtpSentAt: Date,
+  loginOtpDeviceId: String,
 
   avatar: { type: String, default: null },
   dateOfBirth: { type: Date },
@@ -95,7 +126,15 @@ const userSchema = new mongoose.Schema({
       delete ret.password;
       delete ret.pin;
       delete ret.resetPasswordToken;
+      delete ret.resetPinToken;
       delete ret.emailVerificationToken;
+      delete ret.phoneVerificationToken;
+      delete ret.loginOtpToken;
+      if (ret.kycData) {
+        delete ret.kycData.bvn;
+        delete ret.kycData.nin;
+        delete ret.kycData.idNumber;
+      }
       delete ret.__v;
       return ret;
     }
@@ -176,12 +215,10 @@ userSchema.methods.getTransactions = async function(options = {}) {
   return await Transaction.getUserTransactions(this._id, options);
 };
 userSchema.methods.canTransact = function(amount) {
-  const limits = { 0: 50000, 1: 200000, 2: 1000000, 3: 10000000 };
-  return amount <= limits[this.kycLevel];
+  return amount <= this.getTransactionLimit();
 };
 userSchema.methods.getTransactionLimit = function() {
-  const limits = { 0: 50000, 1: 200000, 2: 1000000, 3: 10000000 };
-  return limits[this.kycLevel] || 50000;
+  return getTierLimits(this.kycLevel).perTransaction;
 };
 
 // Static methods
@@ -195,6 +232,13 @@ userSchema.statics.findByEmailOrPhone = function(emailOrPhone) {
   }
   return null;
 };
+// Resolves a transfer recipient from a username (with or without "@"), email or phone
+userSchema.statics.findByTransferHandle = function(handle) {
+  const value = String(handle || '').trim();
+  if (!value) return null;
+  if (value.startsWith('@')) return this.findOne({ username: value.slice(1).toLowerCase() });
+  return this.findByEmailOrPhone(value) || this.findOne({ username: value.toLowerCase() });
+};
 userSchema.statics.findActiveUsers = function() { return this.find({ isActive: true }); };
 userSchema.statics.findByKycLevel = function(level) { return this.find({ kycLevel: level }); };
 
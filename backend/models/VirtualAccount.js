@@ -0,0 +1,54 @@
+const mongoose = require('mongoose');
+
+// A bank account number reserved for one user. Transfers into it arrive as
+// webhooks from the collection provider and are credited to the user's wallet.
+const virtualAccountSchema = new mongoose.Schema({
+  userId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true,
+    index: true
+  },
+  walletId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Wallet',
+    required: true
+  },
+  provider: {
+    type: String,
+    required: true
+  },
+  // Our bank key, e.g. "wema" or "palmpay"
+  bank: {
+    type: String,
+    required: true,
+    lowercase: true
+  },
+  bankName: {
+    type: String,
+    required: true
+  },
+  accountNumber: {
+    type: String,
+    required: true,
+    unique: true,
+    match: [/^\d{10}$/, 'Account number must be 10 digits']
+  },
+  accountName: {
+    type: String,
+    required: true
+  },
+  // Provider's id for the account or customer
+  providerReference: String,
+  isActive: {
+    type: Boolean,
+    default: true
+  },
+  lastPaymentAt: Date
+}, {
+  timestamps: true
+});
+
+virtualAccountSchema.index({ userId: 1, bank: 1 }, { unique: true });
+
+module.exports = mongoose.model('VirtualAccount', virtualAccountSchema);
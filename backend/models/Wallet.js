@@ -1,4 +1,6 @@
 const mongoose = require('mongoose');
+const { postWalletMovement } = require('../services/journalService');
+const { countsTowardsLimits, assertDebitWithinLimits } = require('../services/limitsService');
 
 const walletSchema = new mongoose.Schema({
   userId: {
@@ -91,91 +93,284 @@ walletSchema.virtual('formattedBalance').get(function() {
 });
 
 // Methods
-walletSchema.methods.credit = async function(amount, description, reference) {
-  if (amount <= 0) throw new Error('Credit amount must be positive');
-  
+// Multi-document transactions need a replica set. On a standalone server
+// (typical local setup) we fall back to the conditional balance updates
+// below plus compensating writes, which still rule out double-spends.
+let transactionsSupported = true;
+
+const isTransactionUnsupportedError = (error) => {
+  return error && (
+    error.code === 20 ||
+    /Transaction numbers are only allowed|replica set/i.test(error.message || '')
+  );
+};
+
+const runAtomically = async (session, work) => {
+  if (session) return work(session);
+  if (!transactionsSupported) return work(null);
+
+  const ownSession = await mongoose.startSession();
+  try {
+    let result;
+    await ownSession.withTransaction(async () => {
+      result = await work(ownSession);
+    });
+    return result;
+  } catch (error) {
+    if (!isTransactionUnsupportedError(error)) throw error;
+    transactionsSupported = false;
+    return work(null);
+  } finally {
+    await ownSession.endSession();
+  }
+};
+
+const balanceError = (message) => {
+  const error = new Error(message);
+  error.errorCode = 'INSUFFICIENT_BALANCE';
+  error.status = 400;
+  return error;
+};
+
+// Moves `delta` on the wallet and writes the ledger row. The balance check and
+// the stats are evaluated inside a single update, so concurrent callers can
+// never both spend the same naira.
+const applyBalanceChange = async (wallet, delta, entry, session) => {
+  const Wallet = wallet.constructor;
   const Transaction = mongoose.model('Transaction');
-  const previousBalance = this.balance;
-  
-  // Update balance
-  this.balance += amount;
-  this.lastTransactionDate = new Date();
-  
-  // Update stats
-  this.stats.totalCredits += amount;
-  this.stats.transactionCount += 1;
-  this.stats.averageTransactionAmount = 
-    (this.stats.totalCredits + this.stats.totalDebits) / this.stats.transactionCount;
-  
-  // Create transaction record
-  const transaction = new Transaction({
-    walletId: this._id,
-    userId: this.userId,
-    type: 'credit',
-    amount,
-    previousBalance,
-    newBalance: this.balance,
+  const amount = Math.abs(delta);
+  const statField = delta > 0 ? 'stats.totalCredits' : 'stats.totalDebits';
+
+  const filter = { _id: wallet._id };
+  if (delta < 0) {
+    filter.isActive = true;
+    filter.balance = { $gte: amount };
+  }
+
+  const updated = await Wallet.findOneAndUpdate(filter, [
+    {
+      $set: {
+        balance: { $add: ['$balance', delta] },
+        lastTransactionDate: '$$NOW',
+        [statField]: { $add: [{ $ifNull: [`$${statField}`, 0] }, amount] },
+        'stats.transactionCount': { $add: [{ $ifNull: ['$stats.transactionCount', 0] }, 1] }
+      }
+    },
+    {
+      $set: {
+        'stats.averageTransactionAmount': {
+          $divide: [
+            { $add: [{ $ifNull: ['$stats.totalCredits', 0] }, { $ifNull: ['$stats.totalDebits', 0] }] },
+            '$stats.transactionCount'
+          ]
+        }
+      }
+    }
+  ], { new: true, session });
+
+  if (!updated) {
+    throw balanceError(wallet.isActive === false ? 'Wallet is frozen' : 'Insufficient wallet balance');
+  }
+
+  let transaction;
+  try {
+    [transaction] = await Transaction.create([{
+      walletId: wallet._id,
+      userId: wallet.userId?._id || wallet.userId,
+      amount,
+      previousBalance: updated.balance - delta,
+      newBalance: updated.balance,
+      status: 'completed',
+      ...entry
+    }], { session });
+  } catch (error) {
+    // Without a session nothing rolls the balance back for us
+    if (!session) {
+      await Wallet.updateOne({ _id: wallet._id }, {
+        $inc: { balance: -delta, [statField]: -amount, 'stats.transactionCount': -1 }
+      });
+    }
+    throw error;
+  }
+
+  // KYC and wallet spending limits, checked once the row exists so that
+  // concurrent debits see each other; a debit over a limit is undone
+  if (delta < 0 && countsTowardsLimits(transaction)) {
+    try {
+      await assertDebitWithinLimits(updated, transaction, session);
+    } catch (error) {
+      if (!session) {
+        await Transaction.deleteOne({ _id: transaction._id });
+        await Wallet.updateOne({ _id: wallet._id }, {
+          $inc: { balance: -delta, [statField]: -amount, 'stats.transactionCount': -1 }
+        });
+      }
+      throw error;
+    }
+  }
+
+  // Balanced journal entry for the movement. Inside a transaction a failure
+  // rolls everything back; without one the reconciliation job reports the gap.
+  try {
+    await postWalletMovement(transaction, delta, session);
+  } catch (error) {
+    if (session) throw error;
+    console.error(`Journal posting failed for ${transaction.reference}:`, error.message);
+  }
+
+  // Refresh the caller's copy without marking it dirty, so a later save()
+  // cannot overwrite the balance with a stale value.
+  wallet.init(updated.toObject({ depopulate: true }));
+
+  return { wallet, transaction };
+};
+
+// Optional ledger fields callers may set on the generated Transaction
+const LEDGER_OPTIONS = ['status', 'category', 'relatedWalletId', 'relatedTransactionId', 'metadata', 'gateway'];
+
+const ledgerFields = (options) => {
+  return LEDGER_OPTIONS.reduce((fields, key) => {
+    if (options[key] !== undefined) fields[key] = options[key];
+    return fields;
+  }, {});
+};
+
+walletSchema.methods.credit = async function(amount, description, reference, options = {}) {
+  if (amount <= 0) throw new Error('Credit amount must be positive');
+
+  return runAtomically(options.session, (session) => applyBalanceChange(this, amount, {
+    type: options.type || 'credit',
     description: description || `Wallet credited with ₦${amount.toLocaleString()}`,
     reference: reference || `TXN_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-    status: 'completed'
-  });
-  
-  // Save both wallet and transaction
-  await this.save();
-  await transaction.save();
-  
-  return { wallet: this, transaction };
+    ...ledgerFields(options)
+  }, session));
 };
 
-walletSchema.methods.debit = async function(amount, description, reference) {
+walletSchema.methods.debit = async function(amount, description, reference, options = {}) {
   if (amount <= 0) throw new Error('Debit amount must be positive');
-  if (this.balance < amount) throw new Error('Insufficient wallet balance');
-  
-  const Transaction = mongoose.model('Transaction');
-  const previousBalance = this.balance;
-  
-  // Update balance
-  this.balance -= amount;
-  this.lastTransactionDate = new Date();
-  
-  // Update stats
-  this.stats.totalDebits += amount;
-  this.stats.transactionCount += 1;
-  this.stats.averageTransactionAmount = 
-    (this.stats.totalCredits + this.stats.totalDebits) / this.stats.transactionCount;
-  
-  // Create transaction record
-  const transaction = new Transaction({
-    walletId: this._id,
-    userId: this.userId,
-    type: 'debit',
-    amount,
-    previousBalance,
-    newBalance: this.balance,
+
+  return runAtomically(options.session, (session) => applyBalanceChange(this, -amount, {
+    type: options.type || 'debit',
     description: description || `Wallet debited with ₦${amount.toLocaleString()}`,
     reference: reference || `TXN_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-    status: 'completed'
+    ...ledgerFields(options)
+  }, session));
+};
+
+// Reserve funds for a purchase: the balance is taken now and the ledger row
+// stays `pending` until the provider answers. Finish with transaction.complete()
+// on success or releaseHold() on failure.
+walletSchema.methods.hold = function(amount, description, reference, options = {}) {
+  return this.debit(amount, description, reference, {
+    category: 'payment',
+    ...options,
+    status: 'pending'
   });
-  
-  // Save both wallet and transaction
-  await this.save();
-  await transaction.save();
-  
-  return { wallet: this, transaction };
 };
 
-walletSchema.methods.transfer = async function(recipientWallet, amount, description) {
-  if (this.balance < amount) throw new Error('Insufficient balance for transfer');
-  
+// Fail a pending hold and return the funds with a `refund` ledger row. The
+// status flip is conditional on the hold still being `pending`, so when two
+// callers race (e.g. concurrent requeries) exactly one of them refunds.
+walletSchema.methods.releaseHold = async function(holdTransaction, reason) {
+  const Transaction = mongoose.model('Transaction');
+
+  return runAtomically(null, async (session) => {
+    // Keep anything the caller recorded on the hold, e.g. the provider's response
+    if (holdTransaction.isModified()) await holdTransaction.save({ session });
+
+    const set = { status: 'failed', failedAt: new Date() };
+    if (reason) set['metadata.failureReason'] = reason;
+
+    const failed = await Transaction.findOneAndUpdate(
+      { _id: holdTransaction._id, status: 'pending' },
+      { $set: set },
+      { new: true, session }
+    );
+    if (!failed) {
+      const error = new Error(`Cannot release transaction ${holdTransaction.reference}: it is no longer pending`);
+      error.errorCode = 'HOLD_NOT_PENDING';
+      error.status = 409;
+      throw error;
+    }
+
+    let refund;
+    try {
+      refund = await this.credit(
+        holdTransaction.amount,
+        `Refund: ${holdTransaction.description || holdTransaction.reference}`,
+        `${holdTransaction.reference}_REFUND`,
+        {
+          session,
+          category: 'refund',
+          relatedTransactionId: holdTransaction._id,
+          metadata: { notes: reason }
+        }
+      );
+    } catch (error) {
+      // Without a session the hold is already marked failed; put it back
+      if (!session) {
+        await Transaction.updateOne(
+          { _id: holdTransaction._id, status: 'failed' },
+          { $set: { status: 'pending' }, $unset: { failedAt: 1, 'metadata.failureReason': 1 } }
+        );
+      }
+      throw error;
+    }
+
+    holdTransaction.init(failed.toObject({ depopulate: true }));
+    return refund;
+  });
+};
+
+// Moves funds between two wallets as a transfer_out/transfer_in pair linked by
+// relatedTransactionId. options.recipientDescription and options.metadata are
+// applied to the recipient's row (metadata to both).
+walletSchema.methods.transfer = async function(recipientWallet, amount, description, options = {}) {
+  if (amount <= 0) throw new Error('Transfer amount must be positive');
+
   const transferReference = `TRF_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-  
-  // Debit sender
-  await this.debit(amount, `Transfer to wallet ${recipientWallet._id}`, transferReference);
-  
-  // Credit recipient
-  await recipientWallet.credit(amount, `Transfer from wallet ${this._id}`, transferReference);
-  
-  return { reference: transferReference, amount };
+
+  return runAtomically(null, async (session) => {
+    const debitResult = await this.debit(amount, description || `Transfer to wallet ${recipientWallet._id}`, transferReference, {
+      session,
+      type: 'transfer_out',
+      category: 'transfer',
+      relatedWalletId: recipientWallet._id,
+      metadata: options.metadata
+    });
+
+    let creditResult;
+    try {
+      creditResult = await recipientWallet.credit(amount, options.recipientDescription || `Transfer from wallet ${this._id}`, `${transferReference}_IN`, {
+        session,
+        type: 'transfer_in',
+        category: 'transfer',
+        relatedWalletId: this._id,
+        metadata: options.metadata
+      });
+    } catch (error) {
+      // Outside a transaction the sender has already been debited; pay them back
+      if (!session) {
+        await this.credit(amount, `Reversal of failed transfer ${transferReference}`, `${transferReference}_REV`, {
+          category: 'refund',
+          relatedWalletId: recipientWallet._id
+        });
+      }
+      throw error;
+    }
+
+    debitResult.transaction.relatedTransactionId = creditResult.transaction._id;
+    creditResult.transaction.relatedTransactionId = debitResult.transaction._id;
+    await debitResult.transaction.save({ session });
+    await creditResult.transaction.save({ session });
+
+    return {
+      reference: transferReference,
+      amount,
+      debitTransaction: debitResult.transaction,
+      creditTransaction: creditResult.transaction
+    };
+  });
 };
 
 walletSchema.methods.freeze = function() {
@@ -0,0 +1,45 @@
+// Grants (or with --revoke, removes) admin access for a user by email.
+// Admins adjust balances through POST /api/admin/adjustments; this script
+// never touches wallets.
+//
+//   node promoteAdmin.js ops@example.com
+//   node promoteAdmin.js ops@example.com --revoke
+require('dotenv').config();
+const mongoose = require('mongoose');
+const User = require('./models/User');
+
+async function promoteAdmin() {
+  const email = process.argv[2];
+  const revoke = process.argv.includes('--revoke');
+
+  if (!email) {
+    console.error('Usage: node promoteAdmin.js <email> [--revoke]');
+    process.exitCode = 1;
+    return;
+  }
+
+  await mongoose.connect(process.env.MONGO_URI);
+
+  try {
+    const user = await User.findOneAndUpdate(
+      { email: email.toLowerCase().trim() },
+      { role: revoke ? 'user' : 'admin' },
+      { new: true }
+    );
+
+    if (!user) {
+      console.error(`No user with email ${email}`);
+      process.exitCode = 1;
+      return;
+    }
+
+    console.log(`${user.email} is now ${user.role === 'admin' ? 'an admin' : 'a regular user'}`);
+  } finally {
+    await mongoose.disconnect();
+  }
+}
+
+promoteAdmin().catch((error) => {
+  console.error(error);
+  process.exitCode = 1;
+});
@@ -0,0 +1,43 @@
+// Reports wallets whose stored balance disagrees with the double-entry
+// journal. Exits with code 2 when drift is found, so it can run from cron.
+//
+//   node reconcileLedger.js
+//   node reconcileLedger.js --post-opening-balances   (once, when adopting the journal)
+require('dotenv').config();
+const mongoose = require('mongoose');
+const { reconcileLedger } = require('./services/reconciliationService');
+
+async function run() {
+  await mongoose.connect(process.env.MONGO_URI);
+
+  try {
+    const report = await reconcileLedger({
+      postOpeningBalances: process.argv.includes('--post-opening-balances')
+    });
+
+    console.log(`Checked ${report.walletsChecked} wallets at ${report.checkedAt.toISOString()}`);
+
+    for (const row of report.drift) {
+      console.log(`DRIFT wallet ${row.walletId} (user ${row.userId}): wallet ₦${row.walletBalance}, journal ₦${row.journalBalance}, drift ₦${row.drift}`);
+    }
+    if (report.holds.drift !== 0) {
+      console.log(`DRIFT suspense:holds ₦${report.holds.journalBalance} vs ${report.holds.pendingHoldsCount} pending holds totalling ₦${report.holds.pendingHoldsTotal}`);
+    }
+    for (const entry of report.unbalancedEntries) {
+      console.log(`UNBALANCED journal entry ${entry.reference}: debits ₦${entry.debits}, credits ₦${entry.credits}`);
+    }
+    if (report.unclassifiedBalance) {
+      console.log(`suspense:unclassified holds ₦${report.unclassifiedBalance}; classify these movements`);
+    }
+
+    console.log(report.clean ? 'Ledger is in balance' : `${report.walletsWithDrift} wallet(s) drifted`);
+    if (!report.clean) process.exitCode = 2;
+  } finally {
+    await mongoose.disconnect();
+  }
+}
+
+run().catch((error) => {
+  console.error(error);
+  process.exitCode = 1;
+});
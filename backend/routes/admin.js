@@ -0,0 +1,301 @@
+// routes/admin.js - Admin-only operations
+const express = require('express');
+const router = express.Router();
+const { authenticate, requireAdmin } = require('../middleware/auth');
+const { idempotency, markSideEffects } = require('../middleware/idempotency');
+const LedgerAdjustment = require('../models/LedgerAdjustment');
+const { reconcileLedger } = require('../services/reconciliationService');
+const {
+  APPROVAL_THRESHOLD,
+  requestAdjustment,
+  approveAdjustment,
+  rejectAdjustment,
+  adjustmentSummary
+} = require('../services/ledgerAdjustmentService');
+const {
+  listSubmissions,
+  findSubmission,
+  getSubmissionDocument,
+  approveSubmission,
+  rejectSubmission,
+  submissionSummary
+} = require('../services/kycService');
+
+router.use(authenticate, requireAdmin);
+
+const sendServiceError = (res, error) => res.status(error.status || 400).json({
+  success: false,
+  message: error.message,
+  error_code: error.errorCode
+});
+
+const adjustmentMessages = {
+  applied: 'Adjustment applied',
+  pending_approval: `Adjustments above ₦${APPROVAL_THRESHOLD.toLocaleString()} need approval from another admin`,
+  failed: 'Adjustment could not be applied'
+};
+
+// @route   POST /api/admin/adjustments
+// @desc    Credit or debit a user's wallet with a reason; large amounts wait for approval
+// @access  Admin
+router.post('/adjustments', idempotency, async (req, res) => {
+  try {
+    const { userId, direction, category, reason } = req.body;
+    const adjustment = await requestAdjustment({
+      adminId: req.user.userId,
+      userId,
+      direction,
+      amount: Number(req.body.amount),
+      category,
+      reason
+    });
+    markSideEffects(res);
+
+    console.log(`Ledger adjustment ${adjustment.reference} (${adjustment.direction} ₦${adjustment.amount}) by admin ${req.user.userId}: ${adjustment.status}`);
+
+    res.status(adjustment.status === 'pending_approval' ? 202 : adjustment.status === 'failed' ? 400 : 201).json({
+      success: adjustment.status !== 'failed',
+      message: adjustment.failureReason || adjustmentMessages[adjustment.status],
+      adjustment: adjustmentSummary(adjustment)
+    });
+
+  } catch (error) {
+    if (error.errorCode) return sendServiceError(res, error);
+
+    console.error('Ledger adjustment error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error creating adjustment'
+    });
+  }
+});
+
+// @route   GET /api/admin/adjustments?status=&userId=
+// @desc    Adjustments, newest first; filter by status to see the approval queue
+// @access  Admin
+router.get('/adjustments', async (req, res) => {
+  try {
+    const filter = {};
+    if (req.query.status) filter.status = String(req.query.status);
+    if (req.query.userId) filter.userId = String(req.query.userId);
+    const limit = Math.min(parseInt(req.query.limit, 10) || 50, 200);
+
+    const adjustments = await LedgerAdjustment.find(filter)
+      .sort({ createdAt: -1 })
+      .limit(limit);
+
+    res.json({
+      success: true,
+      approvalThreshold: APPROVAL_THRESHOLD,
+      adjustments: adjustments.map(adjustmentSummary)
+    });
+
+  } catch (error) {
+    console.error('Ledger adjustment list error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error fetching adjustments'
+    });
+  }
+});
+
+// @route   POST /api/admin/adjustments/:id/approve
+// @desc    Approve and apply a pending adjustment requested by another admin
+// @access  Admin
+router.post('/adjustments/:id/approve', async (req, res) => {
+  try {
+    const adjustment = await approveAdjustment(req.params.id, req.user.userId);
+
+    console.log(`Ledger adjustment ${adjustment.reference} approved by admin ${req.user.userId}: ${adjustment.status}`);
+
+    res.status(adjustment.status === 'failed' ? 400 : 200).json({
+      success: adjustment.status !== 'failed',
+      message: adjustment.failureReason || adjustmentMessages[adjustment.status],
+      adjustment: adjustmentSummary(adjustment)
+    });
+
+  } catch (error) {
+    if (error.errorCode) return sendServiceError(res, error);
+
+    console.error('Ledger adjustment approve error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error approving adjustment'
+    });
+  }
+});
+
+// @route   POST /api/admin/adjustments/:id/reject
+// @desc    Reject a pending adjustment requested by another admin
+// @access  Admin
+router.post('/adjustments/:id/reject', async (req, res) => {
+  try {
+    const adjustment = await rejectAdjustment(req.params.id, req.user.userId, req.body.reason);
+
+    res.json({
+      success: true,
+      message: 'Adjustment rejected',
+      adjustment: adjustmentSummary(adjustment)
+    });
+
+  } catch (error) {
+    if (error.errorCode) return sendServiceError(res, error);
+
+    console.error('Ledger adjustment reject error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error rejecting adjustment'
+    });
+  }
+});
+
+// @route   GET /api/admin/ledger/reconciliation?walletId=
+// @desc    Wallet balances checked against the double-entry journal
+// @access  Admin
+router.get('/ledger/reconciliation', async (req, res) => {
+  try {
+    const report = await reconcileLedger({
+      walletIds: req.query.walletId ? [String(req.query.walletId)] : undefined
+    });
+
+    res.json({
+      success: true,
+      message: report.clean ? 'Ledger is in balance' : `${report.walletsWithDrift} wallet(s) drifted`,
+      report
+    });
+
+  } catch (error) {
+    console.error('Ledger reconciliation error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error running reconciliation'
+    });
+  }
+});
+
+// @route   GET /api/admin/kyc?status=pending_review|approved|rejected|all&tier=
+// @desc    KYC submissions; the default is the manual review queue, oldest first
+// @access  Admin
+router.get('/kyc', async (req, res) => {
+  try {
+    const submissions = await listSubmissions({
+      status: req.query.status ? String(req.query.status) : undefined,
+      tier: req.query.tier,
+      limit: req.query.limit
+    });
+
+    res.json({
+      success: true,
+      submissions
+    });
+
+  } catch (error) {
+    console.error('KYC queue error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error fetching KYC submissions'
+    });
+  }
+});
+
+// @route   GET /api/admin/kyc/:id
+// @desc    One submission with the identity provider's result and its documents
+// @access  Admin
+router.get('/kyc/:id', async (req, res) => {
+  try {
+    const submission = await findSubmission(req.params.id);
+
+    res.json({
+      success: true,
+      submission: submissionSummary(submission, { forAdmin: true })
+    });
+
+  } catch (error) {
+    if (error.errorCode) return sendServiceError(res, error);
+
+    console.error('KYC submission error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error fetching KYC submission'
+    });
+  }
+});
+
+// @route   GET /api/admin/kyc/:id/documents/:documentId
+// @desc    The uploaded image or PDF for review
+// @access  Admin
+router.get('/kyc/:id/documents/:documentId', async (req, res) => {
+  try {
+    const document = await getSubmissionDocument(req.params.id, req.params.documentId);
+
+    res.set({
+      'Content-Type': document.contentType,
+      'Content-Length': document.data.length,
+      'Cache-Control': 'private, no-store'
+    });
+    res.send(document.data);
+
+  } catch (error) {
+    if (error.errorCode) return sendServiceError(res, error);
+
+    console.error('KYC document error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error fetching KYC document'
+    });
+  }
+});
+
+// @route   POST /api/admin/kyc/:id/approve
+// @desc    Approve a submission under review and raise the user's tier
+// @access  Admin
+router.post('/kyc/:id/approve', async (req, res) => {
+  try {
+    const submission = await approveSubmission(req.params.id, req.user.userId, req.body.note);
+
+    console.log(`KYC ${submission.reference} approved by admin ${req.user.userId}`);
+
+    res.json({
+      success: true,
+      message: `Tier ${submission.tier} approved`,
+      submission: submissionSummary(submission, { forAdmin: true })
+    });
+
+  } catch (error) {
+    if (error.errorCode) return sendServiceError(res, error);
+
+    console.error('KYC approve error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error approving KYC submission'
+    });
+  }
+});
+
+// @route   POST /api/admin/kyc/:id/reject
+// @desc    Reject a submission under review; the reason is emailed to the user
+// @access  Admin
+router.post('/kyc/:id/reject', async (req, res) => {
+  try {
+    const submission = await rejectSubmission(req.params.id, req.user.userId, req.body.reason);
+
+    console.log(`KYC ${submission.reference} rejected by admin ${req.user.userId}`);
+
+    res.json({
+      success: true,
+      message: 'Submission rejected',
+      submission: submissionSummary(submission, { forAdmin: true })
+    });
+
+  } catch (error) {
+    if (error.errorCode) return sendServiceError(res, error);
+
+    console.error('KYC reject error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error rejecting KYC submission'
+    });
+  }
+});
+
+module.exports = router;
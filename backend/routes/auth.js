@@ -1,10 +1,34 @@
 const express = require('express');
-const jwt = require('jsonwebtoken');
 const { body, validationResult } = require('express-validator');
 const rateLimit = require('express-rate-limit');
 
 const User = require('../models/User');
 const { authenticate } = require('../middleware/auth');
+const { WEAK_PINS, clearPinLockout, verifyTransactionPin, pinAuditContext } = require('../services/pinService');
+const { OTP_LENGTH, generateOtp, hashOtp, checkOtpAttempt } = require('../services/otpService');
+const { getNotificationSender } = require('../services/notifications');
+const {
+  VERIFICATION_CHANNELS,
+  sendVerificationCode,
+  sendInitialVerificationCodes,
+  confirmVerificationCode,
+  resetVerificationForChanges
+} = require('../services/contactVerificationService');
+const { revokeAllDevices } = require('../services/biometricService');
+const {
+  isKnownDevice,
+  recordLogin,
+  issueLoginChallenge,
+  resolveLoginChallenge,
+  verifyLoginChallenge
+} = require('../services/deviceService');
+const {
+  sessionContext,
+  createSession,
+  rotateRefreshToken,
+  revokeSession,
+  revokeAllSessions
+} = require('../services/sessionService');
 
 const router = express.Router();
 
@@ -20,14 +44,25 @@ const authLimiter = rateLimit({
   legacyHeaders: false,
 });
 
-// Generate JWT token
-const generateToken = (userId) => {
-  return jwt.sign(
-    { userId }, 
-    process.env.JWT_SECRET || 'your_secret_key',
-    { expiresIn: process.env.JWT_EXPIRES_IN || '7d' }
-  );
-};
+// Email/phone verification codes; the service also spaces codes a minute apart
+const verificationLimiter = rateLimit({
+  windowMs: 15 * 60 * 1000, // 15 minutes
+  max: 20,
+  message: {
+    success: false,
+    message: 'Too many verification requests, please try again later.'
+  },
+  standardHeaders: true,
+  legacyHeaders: false,
+});
+
+// Token fields returned by signup, login and refresh
+const sessionResponse = ({ accessToken, refreshToken, expiresIn, sessionId }) => ({
+  token: accessToken,
+  refreshToken,
+  expiresIn,
+  sessionId
+});
 
 // Validation middleware
 const signupValidation = [
@@ -71,6 +106,64 @@ const loginValidation = [
     .withMessage('Password is required')
 ];
 
+const forgotPasswordValidation = [
+  body('emailOrPhone')
+    .trim()
+    .notEmpty()
+    .withMessage('Email or phone is required')
+];
+
+const resetPasswordValidation = [
+  body('emailOrPhone')
+    .trim()
+    .notEmpty()
+    .withMessage('Email or phone is required'),
+
+  body('otp')
+    .matches(new RegExp(`^\\d{${OTP_LENGTH}}$`))
+    .withMessage(`Reset code must be ${OTP_LENGTH} digits`),
+
+  body('newPassword')
+    .isLength({ min: 6 })
+    .withMessage('Password must be at least 6 characters long')
+];
+
+const changePinValidation = [
+  body('currentPin')
+    .matches(/^\d{4}$/)
+    .withMessage('Current PIN must be exactly 4 digits'),
+
+  body('newPin')
+    .matches(/^\d{4}$/)
+    .withMessage('New PIN must be exactly 4 digits'),
+
+  body('confirmPin')
+    .custom((value, { req }) => {
+      if (value !== req.body.newPin) {
+        throw new Error('PIN confirmation does not match');
+      }
+      return true;
+    })
+];
+
+const resetPinValidation = [
+  body('otp')
+    .matches(new RegExp(`^\\d{${OTP_LENGTH}}$`))
+    .withMessage(`Reset code must be ${OTP_LENGTH} digits`),
+
+  body('newPin')
+    .matches(/^\d{4}$/)
+    .withMessage('New PIN must be exactly 4 digits'),
+
+  body('confirmPin')
+    .custom((value, { req }) => {
+      if (value !== req.body.newPin) {
+        throw new Error('PIN confirmation does not match');
+      }
+      return true;
+    })
+];
+
 const pinValidation = [
   body('pin')
     .matches(/^\d{4}$/)
@@ -138,8 +231,13 @@ const handleSignup = async (req, res) => {
 
     await user.save();
 
-    // Generate token
-    const token = generateToken(user._id);
+    // Start a session for this device and remember it as the account's first
+    const context = sessionContext(req);
+    const session = await createSession(user._id, context);
+    const { deviceToken } = await recordLogin(user, context);
+
+    // Codes for the OTP screen that follows signup in the app
+    const verification = await sendInitialVerificationCodes(user);
 
     // Log successful registration
     console.log(`✅ New user registered: ${email}`);
@@ -147,7 +245,8 @@ const handleSignup = async (req, res) => {
     res.status(201).json({
       success: true,
       message: 'User registered successfully',
-      token,
+      ...sessionResponse(session),
+      deviceToken,
       user: {
         id: user._id,
         name: user.name,
@@ -155,8 +254,11 @@ const handleSignup = async (req, res) => {
         email: user.email,
         phone: user.phone,
         isPinSetup: user.isPinSetup,
+        isEmailVerified: user.isEmailVerified,
+        isPhoneVerified: user.isPhoneVerified,
         createdAt: user.createdAt
-      }
+      },
+      verification
     });
 
   } catch (error) {
@@ -188,6 +290,56 @@ router.post('/signup', authLimiter, signupValidation, handleSignup);
 // @access  Public
 router.post('/register', authLimiter, signupValidation, handleSignup);
 
+// Starts the session for a checked login, records the device (alerting the
+// user when it's new) and sends the login response
+const completeLogin = async (req, res, user, context) => {
+  // Update last login
+  await user.updateLastLogin();
+
+  // Start a session for this device
+  const session = await createSession(user._id, context);
+  const { deviceToken } = await recordLogin(user, context);
+
+  // Log successful login
+  console.log(`✅ User logged in: ${user.email}`);
+
+  res.status(200).json({
+    success: true,
+    message: 'Login successful',
+    ...sessionResponse(session),
+    deviceToken,
+    user: {
+      id: user._id,
+      name: user.name,
+      username: user.username,
+      email: user.email,
+      phone: user.phone,
+      isPinSetup: user.isPinSetup,
+      isEmailVerified: user.isEmailVerified,
+      isPhoneVerified: user.isPhoneVerified,
+      lastLogin: user.lastLogin
+    }
+  });
+};
+
+// Errors from deviceService's login challenge
+const sendLoginChallengeError = (res, error) => res.status(error.status).json({
+  success: false,
+  message: error.message,
+  error_code: error.errorCode,
+  retryAfterSeconds: error.retryAfterSeconds
+});
+
+const loginOtpValidation = [
+  body('challengeToken')
+    .notEmpty()
+    .withMessage('Login challenge is required'),
+
+  body('otp')
+    .matches(new RegExp(`^\\d{${OTP_LENGTH}}$`))
+    .withMessage(`Login code must be ${OTP_LENGTH} digits`)
+];
+
 // @route   POST /api/auth/login
 // @desc    Login user
 // @access  Public
@@ -232,32 +384,54 @@ router.post('/login', authLimiter, loginValidation, async (req, res) => {
       });
     }
 
-    // Update last login
-    await user.updateLastLogin();
+    // Logins from an unknown device need a code first when the user asked for it
+    const context = sessionContext(req);
+    if (user.requireLoginOtpOnNewDevice && !(await isKnownDevice(user._id, context.deviceId, context.deviceToken))) {
+      const challenge = await issueLoginChallenge(user, context.deviceId);
+      console.log(`🔑 Login code required for new device: ${user.email}`);
 
-    // Generate token
-    const token = generateToken(user._id);
+      return res.status(202).json({
+        success: true,
+        requiresOtp: true,
+        message: 'Enter the code we sent to confirm this new device',
+        ...challenge
+      });
+    }
 
-    // Log successful login
-    console.log(`✅ User logged in: ${user.email}`);
+    await completeLogin(req, res, user, context);
 
-    res.status(200).json({
-      success: true,
-      message: 'Login successful',
-      token,
-      user: {
-        id: user._id,
-        name: user.name,
-        username: user.username,
-        email: user.email,
-        phone: user.phone,
-        isPinSetup: user.isPinSetup,
-        lastLogin: user.lastLogin
-      }
+  } catch (error) {
+    console.error('Login error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error during login'
     });
+  }
+});
+
+// @route   POST /api/auth/login/verify-otp
+// @desc    Finish a login from a new device with the emailed or texted code.
+//          Body: { challengeToken, otp } plus the device fields sent to /login
+// @access  Public
+router.post('/login/verify-otp', authLimiter, loginOtpValidation, async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors: errors.array()
+      });
+    }
+
+    const context = sessionContext(req);
+    const user = await verifyLoginChallenge(req.body.challengeToken, req.body.otp, context.deviceId);
+
+    await completeLogin(req, res, user, context);
 
   } catch (error) {
-    console.error('Login error:', error);
+    if (error.errorCode) return sendLoginChallengeError(res, error);
+    console.error('Login code verification error:', error);
     res.status(500).json({
       success: false,
       message: 'Server error during login'
@@ -265,6 +439,239 @@ router.post('/login', authLimiter, loginValidation, async (req, res) => {
   }
 });
 
+// @route   POST /api/auth/login/resend-otp
+// @desc    Send a new login code. Body: { challengeToken, deviceId }
+// @access  Public
+router.post('/login/resend-otp', verificationLimiter, async (req, res) => {
+  try {
+    const { deviceId } = sessionContext(req);
+    const user = await resolveLoginChallenge(req.body.challengeToken, deviceId);
+    const challenge = await issueLoginChallenge(user, deviceId, { isResend: true });
+
+    res.json({
+      success: true,
+      message: 'A new login code has been sent',
+      ...challenge
+    });
+
+  } catch (error) {
+    if (error.errorCode) return sendLoginChallengeError(res, error);
+    console.error('Resend login code error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error sending login code'
+    });
+  }
+});
+
+// Password and PIN reset codes
+const RESET_OTP_TTL_MS = 10 * 60 * 1000; // 10 minutes
+
+const OTP_ERRORS = {
+  OTP_INVALID: { status: 400, message: 'Invalid or expired reset code' },
+  OTP_EXPIRED: { status: 400, message: 'This reset code has expired. Please request a new one.' },
+  OTP_ATTEMPTS_EXCEEDED: { status: 429, message: 'Too many incorrect codes. Please request a new one.' }
+};
+
+const sendOtpError = (res, errorCode) => res.status(OTP_ERRORS[errorCode].status).json({
+  success: false,
+  message: OTP_ERRORS[errorCode].message,
+  error_code: errorCode
+});
+
+// @route   POST /api/auth/forgot-password
+// @desc    Send a password reset code by email or SMS
+// @access  Public
+router.post('/forgot-password', authLimiter, forgotPasswordValidation, async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors: errors.array()
+      });
+    }
+
+    const { emailOrPhone } = req.body;
+    const channel = emailOrPhone.includes('@') ? 'email' : 'sms';
+
+    // Same response whether or not the account exists, so this endpoint
+    // can't be used to discover registered emails and phone numbers
+    const response = {
+      success: true,
+      message: `If an account matches, a ${OTP_LENGTH}-digit reset code has been sent by ${channel === 'email' ? 'email' : 'SMS'}.`,
+      channel,
+      expiresInMinutes: RESET_OTP_TTL_MS / (60 * 1000)
+    };
+
+    const user = await User.findByEmailOrPhone(emailOrPhone);
+    if (!user || !user.isActive) {
+      return res.json(response);
+    }
+
+    const otp = generateOtp();
+    user.resetPasswordToken = hashOtp(otp);
+    user.resetPasswordExpires = new Date(Date.now() + RESET_OTP_TTL_MS);
+    user.resetPasswordAttempts = 0;
+    await user.save();
+
+    const text = `Your ConnectPay password reset code is ${otp}. It expires in ${response.expiresInMinutes} minutes. If you didn't request this, ignore this message.`;
+    const sender = getNotificationSender();
+    if (channel === 'email') {
+      await sender.sendEmail({ to: user.email, subject: 'Reset your ConnectPay password', text });
+    } else {
+      await sender.sendSms({ to: user.phone, text });
+    }
+
+    console.log(`🔑 Password reset code issued for user: ${user._id}`);
+    res.json(response);
+
+  } catch (error) {
+    console.error('Forgot password error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error sending reset code'
+    });
+  }
+});
+
+// @route   POST /api/auth/reset-password
+// @desc    Set a new password using the emailed/SMS reset code
+// @access  Public
+router.post('/reset-password', authLimiter, resetPasswordValidation, async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors: errors.array()
+      });
+    }
+
+    const { emailOrPhone, otp, newPassword } = req.body;
+
+    const user = await User.findByEmailOrPhone(emailOrPhone);
+    const otpError = await checkOtpAttempt(User, user, otp, {
+      hash: 'resetPasswordToken',
+      expires: 'resetPasswordExpires',
+      attempts: 'resetPasswordAttempts'
+    });
+
+    if (otpError) {
+      return sendOtpError(res, otpError);
+    }
+
+    user.password = newPassword;
+    user.resetPasswordToken = undefined;
+    user.resetPasswordExpires = undefined;
+    user.resetPasswordAttempts = undefined;
+    await user.save();
+
+    // Whoever knew the old password may still be signed in somewhere
+    await revokeAllSessions(user._id, 'password_reset');
+
+    console.log(`✅ Password reset completed for user: ${user._id}`);
+
+    res.json({
+      success: true,
+      message: 'Password reset successfully. Please log in with your new password.'
+    });
+
+  } catch (error) {
+    console.error('Reset password error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error resetting password'
+    });
+  }
+});
+
+const sendVerificationError = (res, error) => res.status(error.status).json({
+  success: false,
+  message: error.message,
+  error_code: error.errorCode,
+  ...(error.retryAfterSeconds && { retryAfterSeconds: error.retryAfterSeconds })
+});
+
+const verificationChannelValidation = (req, res, next) => {
+  if (!VERIFICATION_CHANNELS.includes(req.params.channel)) {
+    return res.status(400).json({
+      success: false,
+      message: 'Channel must be email or phone',
+      error_code: 'INVALID_CHANNEL'
+    });
+  }
+  next();
+};
+
+// @route   POST /api/auth/verify/:channel/send
+// @desc    Send (or resend) an email or SMS verification code
+// @access  Private
+router.post('/verify/:channel/send', authenticate, verificationLimiter, verificationChannelValidation, async (req, res) => {
+  try {
+    const user = await User.findById(req.user.userId);
+    if (!user) {
+      return res.status(404).json({
+        success: false,
+        message: 'User not found'
+      });
+    }
+
+    const sent = await sendVerificationCode(user, req.params.channel);
+
+    res.json({
+      success: true,
+      message: `A ${OTP_LENGTH}-digit code has been sent to ${sent.destination}.`,
+      ...sent
+    });
+
+  } catch (error) {
+    if (error.errorCode) {
+      return sendVerificationError(res, error);
+    }
+    console.error('Send verification code error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error sending verification code'
+    });
+  }
+});
+
+// @route   POST /api/auth/verify/:channel/confirm
+// @desc    Confirm an email or phone number with the code sent to it
+// @access  Private
+router.post('/verify/:channel/confirm', authenticate, verificationLimiter, verificationChannelValidation, async (req, res) => {
+  try {
+    const user = await User.findById(req.user.userId);
+    if (!user) {
+      return res.status(404).json({
+        success: false,
+        message: 'User not found'
+      });
+    }
+
+    const verification = await confirmVerificationCode(user, req.params.channel, req.body.otp);
+
+    res.json({
+      success: true,
+      message: req.params.channel === 'email' ? 'Email address verified' : 'Phone number verified',
+      ...verification
+    });
+
+  } catch (error) {
+    if (error.errorCode) {
+      return sendVerificationError(res, error);
+    }
+    console.error('Confirm verification code error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error verifying code'
+    });
+  }
+});
+
 // @route   POST /api/auth/setup-pin
 // @desc    Setup user transaction PIN
 // @access  Private
@@ -301,8 +708,7 @@ router.post('/setup-pin', authenticate, pinValidation, async (req, res) => {
     }
 
     // Check for weak PINs
-    const weakPins = ['0000', '1234', '1111', '2222', '3333', '4444', '5555', '6666', '7777', '8888', '9999', '4321'];
-    if (weakPins.includes(pin)) {
+    if (WEAK_PINS.includes(pin)) {
       return res.status(400).json({
         success: false,
         message: 'Please choose a stronger PIN. Avoid sequential numbers or repeated digits.'
@@ -360,32 +766,234 @@ router.post('/verify-pin', authenticate, async (req, res) => {
       });
     }
 
-    if (!user.isPinSetup || !user.pin) {
+    // Verify PIN; failed attempts count towards the same lockout as purchases
+    try {
+      await verifyTransactionPin(user, pin, pinAuditContext(req, 'auth_verify_pin'));
+    } catch (pinCheckError) {
+      if (!pinCheckError.errorCode) throw pinCheckError;
+      return res.status(pinCheckError.status).json({
+        success: false,
+        message: pinCheckError.message,
+        error_code: pinCheckError.errorCode,
+        attemptsRemaining: pinCheckError.attemptsRemaining
+      });
+    }
+
+    res.status(200).json({
+      success: true,
+      message: 'PIN verified successfully'
+    });
+
+  } catch (error) {
+    console.error('PIN verification error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error during PIN verification'
+    });
+  }
+});
+
+// @route   PUT /api/auth/change-pin
+// @desc    Change the transaction PIN using the current PIN
+// @access  Private
+router.put('/change-pin', authenticate, changePinValidation, async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors: errors.array()
+      });
+    }
+
+    const { currentPin, newPin } = req.body;
+
+    const user = await User.findById(req.user.userId).select('+pin');
+    if (!user) {
+      return res.status(404).json({
+        success: false,
+        message: 'User not found'
+      });
+    }
+
+    // A wrong current PIN counts towards the lockout like any other PIN check
+    try {
+      await verifyTransactionPin(user, currentPin, pinAuditContext(req, 'auth_change_pin'));
+    } catch (pinCheckError) {
+      if (!pinCheckError.errorCode) throw pinCheckError;
+      return res.status(pinCheckError.status).json({
+        success: false,
+        message: pinCheckError.message,
+        error_code: pinCheckError.errorCode,
+        attemptsRemaining: pinCheckError.attemptsRemaining
+      });
+    }
+
+    if (newPin === currentPin) {
+      return res.status(400).json({
+        success: false,
+        message: 'New PIN must be different from your current PIN'
+      });
+    }
+
+    if (WEAK_PINS.includes(newPin)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Please choose a stronger PIN. Avoid sequential numbers or repeated digits.'
+      });
+    }
+
+    user.pin = newPin;
+    await user.save();
+    await clearPinLockout(user._id);
+
+    console.log(`✅ PIN changed for user: ${user._id}`);
+
+    res.json({
+      success: true,
+      message: 'Transaction PIN changed successfully'
+    });
+
+  } catch (error) {
+    console.error('PIN change error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error changing PIN'
+    });
+  }
+});
+
+// @route   POST /api/auth/forgot-pin
+// @desc    Confirm the account password and send a PIN reset code
+// @access  Private
+router.post('/forgot-pin', authenticate, authLimiter, async (req, res) => {
+  try {
+    const { password } = req.body;
+
+    if (!password) {
+      return res.status(400).json({
+        success: false,
+        message: 'Password is required'
+      });
+    }
+
+    const user = await User.findById(req.user.userId).select('+password');
+    if (!user) {
+      return res.status(404).json({
+        success: false,
+        message: 'User not found'
+      });
+    }
+
+    if (!user.isPinSetup) {
       return res.status(400).json({
         success: false,
         message: 'PIN has not been set up yet'
       });
     }
 
-    // Verify PIN
-    const isPinValid = await user.comparePin(pin);
-    if (!isPinValid) {
-      return res.status(401).json({
+    if (!(await user.comparePassword(password))) {
+      return res.status(400).json({
         success: false,
-        message: 'Invalid PIN'
+        message: 'Incorrect password',
+        error_code: 'INVALID_PASSWORD'
       });
     }
 
-    res.status(200).json({
+    const otp = generateOtp();
+    user.resetPinToken = hashOtp(otp);
+    user.resetPinExpires = new Date(Date.now() + RESET_OTP_TTL_MS);
+    user.resetPinAttempts = 0;
+    await user.save();
+
+    const expiresInMinutes = RESET_OTP_TTL_MS / (60 * 1000);
+    await getNotificationSender().sendEmail({
+      to: user.email,
+      subject: 'Reset your ConnectPay transaction PIN',
+      text: `Your ConnectPay PIN reset code is ${otp}. It expires in ${expiresInMinutes} minutes. If you didn't request this, change your password immediately.`
+    });
+
+    res.json({
       success: true,
-      message: 'PIN verified successfully'
+      message: `A ${OTP_LENGTH}-digit reset code has been sent to your email.`,
+      channel: 'email',
+      expiresInMinutes
     });
 
   } catch (error) {
-    console.error('PIN verification error:', error);
+    console.error('Forgot PIN error:', error);
     res.status(500).json({
       success: false,
-      message: 'Server error during PIN verification'
+      message: 'Server error sending PIN reset code'
+    });
+  }
+});
+
+// @route   POST /api/auth/reset-pin
+// @desc    Set a new transaction PIN using the emailed reset code
+// @access  Private
+router.post('/reset-pin', authenticate, resetPinValidation, async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors: errors.array()
+      });
+    }
+
+    const { otp, newPin } = req.body;
+
+    const user = await User.findById(req.user.userId);
+    if (!user) {
+      return res.status(404).json({
+        success: false,
+        message: 'User not found'
+      });
+    }
+
+    const otpError = await checkOtpAttempt(User, user, otp, {
+      hash: 'resetPinToken',
+      expires: 'resetPinExpires',
+      attempts: 'resetPinAttempts'
+    });
+
+    if (otpError) {
+      return sendOtpError(res, otpError);
+    }
+
+    if (WEAK_PINS.includes(newPin)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Please choose a stronger PIN. Avoid sequential numbers or repeated digits.'
+      });
+    }
+
+    user.pin = newPin;
+    user.isPinSetup = true;
+    user.resetPinToken = undefined;
+    user.resetPinExpires = undefined;
+    user.resetPinAttempts = undefined;
+    await user.save();
+    await clearPinLockout(user._id);
+
+    // Keys enrolled as a PIN alternative must be set up again with the new PIN
+    await revokeAllDevices(user._id, 'pin_reset');
+
+    console.log(`✅ PIN reset completed for user: ${user._id}`);
+
+    res.json({
+      success: true,
+      message: 'Transaction PIN reset successfully'
+    });
+
+  } catch (error) {
+    console.error('PIN reset error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error resetting PIN'
     });
   }
 });
@@ -496,13 +1104,23 @@ router.put('/profile', authenticate, async (req, res) => {
       });
     }
 
+    const currentUser = await User.findById(req.user.userId);
+    if (!currentUser) {
+      return res.status(404).json({
+        success: false,
+        message: 'User not found'
+      });
+    }
+
     const updatedUser = await User.findByIdAndUpdate(
       req.user.userId,
       { 
         name, 
         username, 
         email, 
-        phone 
+        phone,
+        // A changed email or phone number has to be verified again
+        ...resetVerificationForChanges(currentUser, { email, phone })
       },
       { new: true, runValidators: true }
     );
@@ -552,14 +1170,73 @@ router.put('/profile', authenticate, async (req, res) => {
   }
 });
 
+// @route   POST /api/auth/refresh
+// @desc    Exchange a refresh token for a new access token (rotates the refresh token)
+// @access  Public
+router.post('/refresh', [
+  body('refreshToken')
+    .isString()
+    .notEmpty()
+    .withMessage('Refresh token is required')
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors: errors.array()
+      });
+    }
+
+    const session = await rotateRefreshToken(req.body.refreshToken, sessionContext(req));
+
+    res.json({
+      success: true,
+      message: 'Session refreshed',
+      ...sessionResponse(session)
+    });
+
+  } catch (error) {
+    if (error.errorCode) {
+      return res.status(error.status).json({
+        success: false,
+        message: error.message,
+        error_code: error.errorCode
+      });
+    }
+
+    console.error('Refresh session error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error refreshing session'
+    });
+  }
+});
+
 // @route   POST /api/auth/logout
-// @desc    Logout user (client-side token removal)
+// @desc    Logout user by revoking the current session (or every session with allDevices)
 // @access  Private
-router.post('/logout', authenticate, (req, res) => {
-  res.status(200).json({
-    success: true,
-    message: 'Logged out successfully'
-  });
+router.post('/logout', authenticate, async (req, res) => {
+  try {
+    if (req.body?.allDevices === true) {
+      await revokeAllSessions(req.user.userId, 'logout_all');
+    } else {
+      await revokeSession(req.user.sessionId, 'logout');
+    }
+
+    res.status(200).json({
+      success: true,
+      message: 'Logged out successfully'
+    });
+
+  } catch (error) {
+    console.error('Logout error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error during logout'
+    });
+  }
 });
 
 module.exports = router;
\ No newline at end of file
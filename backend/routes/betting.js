@@ -1,12 +1,33 @@
 const express = require('express');
 const rateLimit = require('express-rate-limit');
 const Transaction = require('../models/Transaction');
+const Wallet = require('../models/Wallet');
 const User = require('../models/User');
 const { authenticate } = require('../middleware/auth');
 const { processFundBettingPurchase } = require('../services/bettingService');
+const { getVtuProvider } = require('../services/vtu');
+const { verifyTransactionPin, pinAuditContext } = require('../services/pinService');
+const { serviceMetadataFor } = require('../services/historyService');
+const { assertWithinLimits } = require('../services/limitsService');
 
 const router = express.Router();
 
+// Fails a betting hold and returns the stake to the wallet
+const refundBettingHold = async (wallet, transaction, reason, providerResponse) => {
+  if (providerResponse) transaction.set('metadata.betting.providerResponse', providerResponse);
+  await wallet.releaseHold(transaction, reason);
+};
+
+// Responds to LIMIT_EXCEEDED from limitsService with the remaining headroom
+const sendLimitError = (res, error, user) => res.status(error.status).json({
+  error: error.message,
+  error_code: error.errorCode,
+  limit: error.limit,
+  usage: error.usage,
+  transactionLimit: user.getTransactionLimit(),
+  currentKycLevel: user.kycLevel
+});
+
 // Rate limiting for betting endpoints
 const bettingRateLimit = rateLimit({
   windowMs: 15 * 60 * 1000, // 15 minutes
@@ -22,13 +43,19 @@ const bettingRateLimit = rateLimit({
 // Fund betting account
 router.post('/fund', authenticate, bettingRateLimit, async (req, res) => {
   try {
-    const { provider, customerId, customerName, amount } = req.body;
-    const userId = req.user.id;
+    const { provider, customerId, customerName, amount, pin } = req.body;
+    const userId = req.user.userId;
 
     // Input validation
-    if (!provider || !customerId || !amount) {
+    if (!provider || !customerId || !amount || !pin) {
+      return res.status(400).json({
+        error: 'Missing required fields: provider, customerId, amount, pin'
+      });
+    }
+
+    if (!/^\d{4}$/.test(pin)) {
       return res.status(400).json({
-        error: 'Missing required fields: provider, customerId, amount'
+        error: 'PIN must be exactly 4 digits'
       });
     }
 
@@ -53,26 +80,37 @@ router.post('/fund', authenticate, bettingRateLimit, async (req, res) => {
     }
 
     // Get user and check transaction limits
-    const user = await User.findById(userId).populate('wallet');
+    const user = await User.findById(userId).select('+pin').populate('wallet');
     if (!user) {
       return res.status(404).json({ error: 'User not found' });
     }
 
-    // Check if user can transact this amount based on KYC level
-    if (!user.canTransact(numAmount)) {
-      return res.status(403).json({
-        error: `Transaction amount exceeds your limit of ₦${user.getTransactionLimit().toLocaleString()}. Please upgrade your KYC level.`,
-        transactionLimit: user.getTransactionLimit(),
-        currentKycLevel: user.kycLevel
+    try {
+      await verifyTransactionPin(user, pin, pinAuditContext(req, 'betting_fund'));
+    } catch (pinCheckError) {
+      if (!pinCheckError.errorCode) throw pinCheckError;
+      return res.status(pinCheckError.status).json({
+        error: pinCheckError.message,
+        error_code: pinCheckError.errorCode,
+        attemptsRemaining: pinCheckError.attemptsRemaining
       });
     }
 
-    // Check wallet balance
     const wallet = user.wallet || await user.getWallet();
     if (!wallet) {
       return res.status(500).json({ error: 'Wallet not found' });
     }
 
+    // KYC tier and wallet spending limits
+    try {
+      await assertWithinLimits(user, wallet, numAmount);
+    } catch (limitError) {
+      if (!limitError.errorCode) throw limitError;
+      return sendLimitError(res, limitError, user);
+    }
+
+    // Check wallet balance
+
     if (wallet.balance < numAmount) {
       return res.status(400).json({
         error: 'Insufficient balance',
@@ -95,42 +133,33 @@ router.post('/fund', authenticate, bettingRateLimit, async (req, res) => {
       });
     }
 
-    // Generate reference
+    // Hold the stake before calling the provider; a failure refunds it
     const reference = Transaction.generateReference('BET');
-    const previousBalance = wallet.balance;
-    const newBalance = wallet.balance - numAmount;
-
-    // Create pending betting transaction
-    const transaction = new Transaction({
-      walletId: wallet._id,
-      userId,
-      type: 'debit',
-      amount: numAmount,
-      previousBalance,
-      newBalance,
-      description: `Betting Fund - ${provider.toUpperCase()} - ${customerId}`,
+    const { transaction } = await wallet.hold(
+      numAmount,
+      `Betting Fund - ${provider.toUpperCase()} - ${customerId}`,
       reference,
-      status: 'pending',
-      category: 'betting',
-      gateway: {
-        provider: 'betting_service',
-        gatewayReference: reference
-      },
-      metadata: {
-        ip_address: req.ip,
-        user_agent: req.get('User-Agent'),
-        source: 'web',
-        notes: `Betting account funding for ${provider.toUpperCase()}`,
-        betting: {
-          provider: provider.toUpperCase(),
-          customerId: customerId.trim(),
-          customerName: customerName?.trim() || '',
-          retryCount: 0
+      {
+        category: 'betting',
+        gateway: {
+          provider: getVtuProvider().name,
+          gatewayReference: reference
+        },
+        metadata: {
+          ip_address: req.ip,
+          user_agent: req.get('User-Agent'),
+          source: 'web',
+          notes: `Betting account funding for ${provider.toUpperCase()}`,
+          service: serviceMetadataFor('betting', { provider: provider.toUpperCase(), customerId: customerId.trim() }),
+          betting: {
+            provider: provider.toUpperCase(),
+            customerId: customerId.trim(),
+            customerName: customerName?.trim() || '',
+            retryCount: 0
+          }
         }
       }
-    });
-
-    await transaction.save();
+    );
 
     try {
       // Process the betting purchase
@@ -139,16 +168,29 @@ router.post('/fund', authenticate, bettingRateLimit, async (req, res) => {
         customerId,
         customerName,
         amount: numAmount,
-        userId
+        reference
       });
 
-      if (result.success) {
-        // Update wallet balance
-        wallet.balance = newBalance;
-        wallet.lastTransactionAt = new Date();
-        await wallet.save();
+      if (result.pending) {
+        // The provider accepted the request but hasn't confirmed delivery yet;
+        // the pending purchase sweep (or /api/purchase/:reference/requery) settles the hold
+        return res.status(202).json({
+          success: true,
+          data: {
+            reference: transaction.reference,
+            provider: transaction.metadata.betting.provider,
+            customerId: transaction.metadata.betting.customerId,
+            amount: numAmount,
+            description: transaction.description,
+            status: 'pending',
+            timestamp: transaction.createdAt,
+            balanceAfter: wallet.balance
+          },
+          message: 'Betting account funding is processing'
+        });
+      }
 
-        // Mark transaction as successful
+      if (result.success) {
         await transaction.markBettingSuccess(
           result.successMessage,
           result.transactionData
@@ -170,11 +212,7 @@ router.post('/fund', authenticate, bettingRateLimit, async (req, res) => {
         });
 
       } else {
-        // Mark transaction as failed
-        await transaction.markBettingFailed(
-          result.errorMessage,
-          result.transactionData
-        );
+        await refundBettingHold(wallet, transaction, result.errorMessage, result.transactionData);
 
         return res.status(400).json({
           error: result.errorMessage,
@@ -184,18 +222,40 @@ router.post('/fund', authenticate, bettingRateLimit, async (req, res) => {
       }
 
     } catch (processingError) {
-      // Mark transaction as failed
-      await transaction.markBettingFailed(
-        'Transaction processing failed. Please try again.',
-        { error: processingError.message }
-      );
-
       console.error('Betting processing error:', processingError);
-      
-      return res.status(500).json({
-        error: 'Transaction processing failed. Please try again.',
-        reference: transaction.reference,
-        canRetry: true
+
+      // Input rejected before the provider was asked is a definite failure
+      if (processingError.errorCode) {
+        await refundBettingHold(
+          wallet,
+          transaction,
+          processingError.message,
+          { error: processingError.message }
+        );
+
+        return res.status(processingError.status || 400).json({
+          error: processingError.message,
+          error_code: processingError.errorCode,
+          reference: transaction.reference,
+          canRetry: transaction.canRetryBetting()
+        });
+      }
+
+      // A timeout or transport error is not: the provider may already have
+      // funded the account, so the hold stays pending for the requery sweep
+      return res.status(202).json({
+        success: true,
+        data: {
+          reference: transaction.reference,
+          provider: transaction.metadata.betting.provider,
+          customerId: transaction.metadata.betting.customerId,
+          amount: numAmount,
+          description: transaction.description,
+          status: 'pending',
+          timestamp: transaction.createdAt,
+          balanceAfter: wallet.balance
+        },
+        message: 'Betting account funding is processing'
       });
     }
 
@@ -210,7 +270,7 @@ router.post('/fund', authenticate, bettingRateLimit, async (req, res) => {
 // Get user's betting transaction history
 router.get('/transactions', authenticate, async (req, res) => {
   try {
-    const userId = req.user.id;
+    const userId = req.user.userId;
     const {
       page = 1,
       limit = 20,
@@ -274,7 +334,7 @@ router.get('/transactions', authenticate, async (req, res) => {
 // Get betting statistics
 router.get('/stats', authenticate, async (req, res) => {
   try {
-    const userId = req.user.id;
+    const userId = req.user.userId;
     const { period = '30d' } = req.query;
 
     const stats = await Transaction.getBettingStats(userId, period);
@@ -322,7 +382,7 @@ router.get('/stats', authenticate, async (req, res) => {
 router.post('/retry/:reference', authenticate, async (req, res) => {
   try {
     const { reference } = req.params;
-    const userId = req.user.id;
+    const userId = req.user.userId;
 
     const transaction = await Transaction.findOne({
       reference,
@@ -342,20 +402,100 @@ router.post('/retry/:reference', authenticate, async (req, res) => {
       });
     }
 
-    // Increment retry count
+    // The failed attempt was refunded, so each retry holds the stake again
+    // under its own reference and request id
+    const inFlight = await Transaction.exists({
+      relatedTransactionId: transaction._id,
+      category: 'betting',
+      status: { $in: ['pending', 'completed'] }
+    });
+    if (inFlight) {
+      return res.status(409).json({ error: 'This transaction has already been retried' });
+    }
+
+    const betting = transaction.metadata.betting;
+    const attempt = (betting.retryCount || 0) + 1;
+    const retryReference = `${transaction.reference}_R${attempt}`;
+    const wallet = await Wallet.findById(transaction.walletId);
+    const user = await User.findById(userId);
+
+    try {
+      await assertWithinLimits(user, wallet, transaction.amount);
+    } catch (limitError) {
+      if (!limitError.errorCode) throw limitError;
+      return sendLimitError(res, limitError, user);
+    }
+
+    let retryTransaction;
+    try {
+      ({ transaction: retryTransaction } = await wallet.hold(
+        transaction.amount,
+        `${transaction.description} (retry ${attempt})`,
+        retryReference,
+        {
+          category: 'betting',
+          relatedTransactionId: transaction._id,
+          gateway: {
+            provider: getVtuProvider().name,
+            gatewayReference: retryReference
+          },
+          metadata: {
+            source: transaction.metadata.source,
+            notes: `Retry ${attempt} of ${transaction.reference}`,
+            service: serviceMetadataFor('betting', betting),
+            betting: {
+              provider: betting.provider,
+              customerId: betting.customerId,
+              customerName: betting.customerName,
+              retryCount: attempt
+            }
+          }
+        }
+      ));
+    } catch (holdError) {
+      if (holdError.errorCode !== 'INSUFFICIENT_BALANCE') throw holdError;
+      return res.status(400).json({
+        error: 'Insufficient balance',
+        currentBalance: wallet.balance,
+        requiredAmount: transaction.amount
+      });
+    }
+
     await transaction.incrementBettingRetry();
 
-    // Retry the transaction
-    const result = await processFundBettingPurchase({
-      provider: transaction.metadata.betting.provider.toLowerCase(),
-      customerId: transaction.metadata.betting.customerId,
-      customerName: transaction.metadata.betting.customerName,
-      amount: transaction.amount,
-      userId
-    });
+    let result;
+    try {
+      result = await processFundBettingPurchase({
+        provider: betting.provider.toLowerCase(),
+        customerId: betting.customerId,
+        customerName: betting.customerName,
+        amount: transaction.amount,
+        reference: retryReference
+      });
+    } catch (processingError) {
+      console.error('Betting retry processing error:', processingError);
+      // As for /fund: only rejected input is a definite failure, a timeout
+      // leaves the retry hold pending
+      result = processingError.errorCode
+        ? { success: false, errorMessage: processingError.message, transactionData: { error: processingError.message } }
+        : { success: false, pending: true };
+    }
+
+    if (result.pending) {
+      // The pending purchase sweep (or /api/purchase/:reference/requery) settles the retry hold
+      return res.status(202).json({
+        success: true,
+        message: 'Transaction retry is processing',
+        data: {
+          reference: retryTransaction.reference,
+          originalReference: transaction.reference,
+          status: 'pending'
+        }
+      });
+    }
 
     if (result.success) {
-      await transaction.markBettingSuccess(
+      await retryTransaction.markBettingSuccess(
         result.successMessage,
         result.transactionData
       );
@@ -364,19 +504,18 @@ router.post('/retry/:reference', authenticate, async (req, res) => {
         success: true,
         message: 'Transaction retry successful',
         data: {
-          reference: transaction.reference,
+          reference: retryTransaction.reference,
+          originalReference: transaction.reference,
           status: 'completed'
         }
       });
     } else {
-      await transaction.markBettingFailed(
-        result.errorMessage,
-        result.transactionData
-      );
+      await refundBettingHold(wallet, retryTransaction, result.errorMessage, result.transactionData);
 
       res.status(400).json({
         error: result.errorMessage,
-        canRetry: transaction.canRetryBetting()
+        reference: retryTransaction.reference,
+        canRetry: retryTransaction.canRetryBetting()
       });
     }
 
@@ -0,0 +1,142 @@
+// routes/biometrics.js - Biometric confirmation as an alternative to the transaction PIN
+const express = require('express');
+const router = express.Router();
+const { authenticate } = require('../middleware/auth');
+const User = require('../models/User');
+const { pinAuditContext } = require('../services/pinService');
+const {
+  deviceSummary,
+  listDevices,
+  enrollDevice,
+  revokeDevice,
+  issueChallenge
+} = require('../services/biometricService');
+
+// Errors from biometricService, plus PIN errors raised while enrolling
+const sendBiometricError = (res, error) => res.status(error.status).json({
+  success: false,
+  message: error.message,
+  error_code: error.errorCode,
+  attemptsRemaining: error.attemptsRemaining,
+  lockedUntil: error.lockedUntil
+});
+
+// @route   GET /api/biometrics/devices
+// @desc    Devices enrolled for biometric confirmation
+// @access  Private
+router.get('/devices', authenticate, async (req, res) => {
+  try {
+    const devices = await listDevices(req.user.userId);
+    res.json({
+      success: true,
+      devices: devices.map(deviceSummary)
+    });
+  } catch (error) {
+    console.error('List biometric devices error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error fetching biometric devices'
+    });
+  }
+});
+
+// @route   POST /api/biometrics/enroll
+// @desc    Enroll this device's public key; requires the transaction PIN
+// @access  Private
+router.post('/enroll', authenticate, async (req, res) => {
+  try {
+    const { deviceId, deviceName, platform, publicKey, pin } = req.body;
+
+    if (!pin || !/^\d{4}$/.test(String(pin))) {
+      return res.status(400).json({
+        success: false,
+        message: 'Transaction PIN must be exactly 4 digits'
+      });
+    }
+
+    const user = await User.findById(req.user.userId).select('+pin');
+    if (!user) {
+      return res.status(404).json({
+        success: false,
+        message: 'User not found'
+      });
+    }
+
+    const device = await enrollDevice(
+      user,
+      { deviceId, deviceName, platform, publicKey, pin: String(pin) },
+      pinAuditContext(req, 'biometric_enroll')
+    );
+
+    res.status(201).json({
+      success: true,
+      message: 'Biometric confirmation enabled on this device',
+      device: deviceSummary(device)
+    });
+
+  } catch (error) {
+    if (error.errorCode) return sendBiometricError(res, error);
+    console.error('Biometric enroll error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error enabling biometrics'
+    });
+  }
+});
+
+// @route   POST /api/biometrics/devices/:id/revoke
+// @desc    Turn off biometric confirmation for an enrolled device
+// @access  Private
+router.post('/devices/:id/revoke', authenticate, async (req, res) => {
+  try {
+    if (!/^[a-f0-9]{24}$/i.test(req.params.id)) {
+      return res.status(404).json({
+        success: false,
+        message: 'Device not found',
+        error_code: 'DEVICE_NOT_FOUND'
+      });
+    }
+
+    const device = await revokeDevice(req.user.userId, req.params.id);
+
+    res.json({
+      success: true,
+      message: 'Biometric confirmation turned off for this device',
+      device: deviceSummary(device)
+    });
+
+  } catch (error) {
+    if (error.errorCode) return sendBiometricError(res, error);
+    console.error('Biometric revoke error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error removing device'
+    });
+  }
+});
+
+// @route   POST /api/biometrics/challenge
+// @desc    One-time challenge for the app to sign after the biometric prompt.
+//          Body: { deviceId, action: 'purchase', amount }
+// @access  Private
+router.post('/challenge', authenticate, async (req, res) => {
+  try {
+    const { deviceId, action, amount } = req.body;
+    const challenge = await issueChallenge(req.user.userId, { deviceId, action, amount });
+
+    res.json({
+      success: true,
+      ...challenge
+    });
+
+  } catch (error) {
+    if (error.errorCode) return sendBiometricError(res, error);
+    console.error('Biometric challenge error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error creating biometric challenge'
+    });
+  }
+});
+
+module.exports = router;
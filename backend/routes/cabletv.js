@@ -1,11 +1,11 @@
 const express = require('express');
-const axios = require('axios');
 const jwt = require('jsonwebtoken');
-const bcrypt = require('bcrypt');
 const rateLimit = require('express-rate-limit');
 const validator = require('validator');
 const { body, validationResult, param } = require('express-validator');
 const winston = require('winston');
+const { getVtuProvider } = require('../services/vtu');
+const { isSessionActive } = require('../services/sessionService');
 const router = express.Router();
 
 // Configure logging
@@ -30,18 +30,9 @@ const cableRateLimit = rateLimit({
   legacyHeaders: false,
 });
 
-// VTU Provider Configuration
-const VTU_CONFIG = {
-  baseUrl: process.env.VTPASS_BASE_URL || 'https://vtpass.com/api',
-  username: process.env.VTPASS_USERNAME,
-  password: process.env.VTPASS_PASSWORD,
-  apiKey: process.env.VTPASS_API_KEY,
-  secretKey: process.env.VTPASS_SECRET_KEY
-};
-
 // Validate environment variables on startup
 function validateEnvironment() {
-  const required = ['VTPASS_USERNAME', 'VTPASS_PASSWORD', 'VTPASS_API_KEY', 'VTPASS_SECRET_KEY', 'JWT_SECRET'];
+  const required = ['JWT_SECRET'];
   const missing = required.filter(key => !process.env[key]);
   
   if (missing.length > 0) {
@@ -71,9 +62,9 @@ const authenticateToken = async (req, res, next) => {
 
     const decoded = jwt.verify(token, process.env.JWT_SECRET);
     
-    // Check if user exists and is active
+    // Check if user exists, is active and the session hasn't been revoked
     const user = await getUserById(decoded.userId);
-    if (!user || !user.isActive) {
+    if (!user || !user.isActive || !decoded.sessionId || !(await isSessionActive(decoded.sessionId, decoded.userId))) {
       return res.status(401).json({ 
         success: false, 
         message: 'Invalid or expired session' 
@@ -89,6 +80,15 @@ const authenticateToken = async (req, res, next) => {
       ip: req.ip,
       endpoint: req.path 
     });
+
+    // Expired access tokens get a 401 so the app can refresh its session
+    if (error.name === 'TokenExpiredError') {
+      return res.status(401).json({
+        success: false,
+        message: 'Token expired.',
+        error_code: 'TOKEN_EXPIRED'
+      });
+    }
     
     return res.status(403).json({ 
       success: false, 
@@ -118,16 +118,6 @@ const validateSmartCardRequest = [
     .withMessage('Invalid operator'),
 ];
 
-const validatePurchaseRequest = [
-  body('type').equals('cable_tv').withMessage('Invalid purchase type'),
-  body('operator').isAlpha().isLength({ min: 2, max: 20 }).withMessage('Invalid operator'),
-  body('packageId').isAlphanumeric().isLength({ min: 1, max: 50 }).withMessage('Invalid package ID'),
-  body('smartCardNumber').isNumeric().isLength({ min: 10, max: 15 }).withMessage('Invalid smart card'),
-  body('phone').isMobilePhone('en-NG').withMessage('Invalid Nigerian phone number'),
-  body('amount').isFloat({ min: 100, max: 50000 }).withMessage('Amount must be between 100 and 50,000'),
-  body('pin').isNumeric().isLength({ min: 4, max: 4 }).withMessage('PIN must be 4 digits'),
-];
-
 // ENDPOINT 1: Get Cable TV Packages
 router.get('/cable/packages/:operator', 
   cableRateLimit,
@@ -183,48 +173,24 @@ router.get('/cable/packages/:operator',
         });
       }
 
-      // Call VTU provider API
-      const response = await axios.post(`${VTU_CONFIG.baseUrl}/service-variations`, {
-        serviceID: serviceId
-      }, {
-        auth: {
-          username: VTU_CONFIG.username,
-          password: VTU_CONFIG.password
-        },
-        headers: {
-          'api-key': VTU_CONFIG.apiKey,
-          'secret-key': VTU_CONFIG.secretKey
-        },
-        timeout: 15000
-      });
+      // Call VTU provider
+      const packages = await getVtuProvider().getCablePackages({ operator });
 
-      if (response.data && response.data.response_description === '000') {
-        const packages = response.data.content.varations.map(variation => ({
-          variation_id: variation.variation_code,
-          name: variation.name,
-          amount: parseFloat(variation.variation_amount),
-          duration: '30 days',
-          description: variation.name
-        }));
-
-        // Cache the packages
-        await cachePackages(operator, packages, 3600);
-
-        logger.info('Packages fetched successfully', { 
-          requestId, 
-          operator, 
-          count: packages.length 
-        });
+      // Cache the packages
+      await cachePackages(operator, packages, 3600);
 
-        return res.json({
-          success: true,
-          data: packages,
-          operator: operator,
-          count: packages.length
-        });
-      } else {
-        throw new Error(`VTPass API error: ${response.data.response_description}`);
-      }
+      logger.info('Packages fetched successfully', { 
+        requestId, 
+        operator, 
+        count: packages.length 
+      });
+
+      return res.json({
+        success: true,
+        data: packages,
+        operator: operator,
+        count: packages.length
+      });
 
     } catch (error) {
       logger.error('Error fetching cable packages', { 
@@ -272,15 +238,6 @@ router.post('/cable/validate-smartcard',
       const { smartCardNumber, operator } = req.body;
       const cleanedCardNumber = smartCardNumber.trim();
 
-      const operatorMap = {
-        'dstv': 'dstv',
-        'gotv': 'gotv',
-        'startime': 'startimes',
-        'showmax': 'showmax'
-      };
-
-      const serviceId = operatorMap[operator];
-
       logger.info('Validating smart card', { 
         requestId, 
         operator, 
@@ -288,49 +245,30 @@ router.post('/cable/validate-smartcard',
         userId: req.user.id 
       });
 
-      const response = await axios.post(`${VTU_CONFIG.baseUrl}/merchant-verify`, {
-        serviceID: serviceId,
-        billersCode: cleanedCardNumber
-      }, {
-        auth: {
-          username: VTU_CONFIG.username,
-          password: VTU_CONFIG.password
-        },
-        headers: {
-          'api-key': VTU_CONFIG.apiKey,
-          'secret-key': VTU_CONFIG.secretKey
-        },
-        timeout: 10000
+      const result = await getVtuProvider().verifySmartCard({
+        operator,
+        smartCardNumber: cleanedCardNumber
       });
 
-      if (response.data && response.data.response_description === '000') {
-        const customerData = response.data.content.Customer_Name;
-        
-        logger.info('Smart card validated successfully', { requestId, operator });
-        
-        return res.json({
-          success: true,
-          customerName: customerData || 'Verified Customer',
-          smartCardNumber: cleanedCardNumber,
-          operator: operator,
-          status: 'active'
-        });
-      } else if (response.data && response.data.response_description === '013') {
-        logger.warn('Smart card not found', { requestId, operator });
-        return res.status(400).json({
-          success: false,
-          message: 'Smart card not found for this operator',
-          error_code: 'SMARTCARD_NOT_FOUND'
-        });
-      } else {
-        logger.warn('Invalid smart card', { requestId, operator, responseCode: response.data.response_description });
+      if (!result.valid) {
+        logger.warn('Invalid smart card', { requestId, operator, reason: result.message });
         return res.status(400).json({
           success: false,
-          message: 'Invalid smart card number',
+          message: result.message || 'Invalid smart card number',
           error_code: 'INVALID_SMARTCARD'
         });
       }
 
+      logger.info('Smart card validated successfully', { requestId, operator });
+
+      return res.json({
+        success: true,
+        customerName: result.customerName,
+        smartCardNumber: cleanedCardNumber,
+        operator: operator,
+        status: 'active'
+      });
+
     } catch (error) {
       logger.error('Smart card validation error', { 
         requestId, 
@@ -355,193 +293,6 @@ router.post('/cable/validate-smartcard',
   }
 );
 
-// ENDPOINT 3: Cable TV Purchase
-router.post('/purchase', 
-  cableRateLimit,
-  validatePurchaseRequest,
-  authenticateToken, 
-  async (req, res) => {
-    const transactionId = `tx_${Date.now()}_${req.user.id}`;
-    
-    try {
-      const errors = validationResult(req);
-      if (!errors.isEmpty()) {
-        return res.status(400).json({
-          success: false,
-          message: 'Invalid input',
-          errors: errors.array()
-        });
-      }
-
-      const { type, operator, packageId, smartCardNumber, phone, amount, pin } = req.body;
-
-      // Only handle cable TV purchases
-      if (type !== 'cable_tv') {
-        return next();
-      }
-
-      const userId = req.user.id;
-
-      logger.info('Starting cable TV purchase', { 
-        transactionId, 
-        operator, 
-        amount, 
-        userId,
-        phone: phone.slice(0, 4) + '***'
-      });
-
-      // Verify PIN with attempt tracking
-      const pinVerificationResult = await verifyUserPinWithAttempts(userId, pin);
-      if (!pinVerificationResult.success) {
-        logger.warn('PIN verification failed', { 
-          transactionId, 
-          userId, 
-          attemptsRemaining: pinVerificationResult.attemptsRemaining 
-        });
-        
-        return res.status(400).json({
-          success: false,
-          message: pinVerificationResult.message,
-          error_code: 'INVALID_PIN',
-          attemptsRemaining: pinVerificationResult.attemptsRemaining
-        });
-      }
-
-      // Check and reserve balance atomically
-      const balanceResult = await checkAndReserveBalance(userId, amount, transactionId);
-      if (!balanceResult.success) {
-        logger.warn('Insufficient balance', { transactionId, userId, amount });
-        return res.status(400).json({
-          success: false,
-          message: 'Insufficient balance',
-          error_code: 'INSUFFICIENT_BALANCE'
-        });
-      }
-
-      const operatorMap = {
-        'dstv': 'dstv',
-        'gotv': 'gotv',
-        'startime': 'startimes',
-        'showmax': 'showmax'
-      };
-
-      const serviceId = operatorMap[operator];
-      const requestId = `cable_${Date.now()}_${userId}`;
-
-      try {
-        // Call VTU provider
-        const purchaseResponse = await axios.post(`${VTU_CONFIG.baseUrl}/pay`, {
-          request_id: requestId,
-          serviceID: serviceId,
-          amount: amount,
-          phone: phone,
-          billersCode: smartCardNumber,
-          variation_code: packageId
-        }, {
-          auth: {
-            username: VTU_CONFIG.username,
-            password: VTU_CONFIG.password
-          },
-          headers: {
-            'api-key': VTU_CONFIG.apiKey,
-            'secret-key': VTU_CONFIG.secretKey
-          },
-          timeout: 30000
-        });
-
-        if (purchaseResponse.data && purchaseResponse.data.response_description === '000') {
-          // Success - commit the transaction
-          const newBalance = await commitBalanceDeduction(userId, transactionId);
-          
-          const transaction = {
-            id: transactionId,
-            userId: userId,
-            type: 'cable_tv',
-            operator: operator,
-            packageId: packageId,
-            smartCardNumber: smartCardNumber,
-            phone: phone,
-            amount: amount,
-            status: 'successful',
-            externalReference: purchaseResponse.data.requestId,
-            providerResponse: purchaseResponse.data,
-            createdAt: new Date()
-          };
-          
-          await saveTransaction(transaction);
-
-          logger.info('Cable TV purchase successful', { 
-            transactionId, 
-            operator, 
-            amount,
-            newBalance 
-          });
-
-          return res.json({
-            success: true,
-            message: 'Cable TV subscription successful',
-            transaction: {
-              id: transactionId,
-              type: 'cable_tv',
-              operator: operator,
-              amount: amount,
-              status: 'successful',
-              createdAt: transaction.createdAt
-            },
-            newBalance: {
-              amount: newBalance,
-              currency: 'NGN',
-              lastUpdated: new Date().toISOString()
-            }
-          });
-
-        } else {
-          // Provider transaction failed - release reserved balance
-          await releaseReservedBalance(userId, transactionId);
-          
-          logger.error('VTU provider transaction failed', { 
-            transactionId, 
-            response: purchaseResponse.data 
-          });
-          
-          return res.status(400).json({
-            success: false,
-            message: purchaseResponse.data.response_description || 'Transaction failed',
-            error_code: 'TRANSACTION_FAILED'
-          });
-        }
-
-      } catch (providerError) {
-        // Provider API error - release reserved balance
-        await releaseReservedBalance(userId, transactionId);
-        throw providerError;
-      }
-
-    } catch (error) {
-      logger.error('Cable TV purchase error', { 
-        transactionId, 
-        error: error.message,
-        stack: error.stack,
-        userId: req.user?.id 
-      });
-      
-      if (error.code === 'ECONNABORTED') {
-        return res.status(408).json({
-          success: false,
-          message: 'Transaction timeout. Please check your subscription status.',
-          error_code: 'TIMEOUT'
-        });
-      }
-
-      return res.status(500).json({
-        success: false,
-        message: 'Transaction failed. Please try again.',
-        error_code: 'PURCHASE_FAILED'
-      });
-    }
-  }
-);
-
 // Health check endpoint
 router.get('/cable/health', (req, res) => {
   res.json({
@@ -570,134 +321,6 @@ async function getUserById(userId) {
   }
 }
 
-async function verifyUserPinWithAttempts(userId, pin) {
-  try {
-    // Check if account is locked
-    const lockStatus = await getPinLockStatus(userId);
-    if (lockStatus.isLocked) {
-      return {
-        success: false,
-        message: `Account locked. Try again in ${lockStatus.minutesRemaining} minutes.`,
-        attemptsRemaining: 0
-      };
-    }
-
-    // Get stored PIN hash
-    const storedPinHash = await getUserPinHash(userId);
-    if (!storedPinHash) {
-      return {
-        success: false,
-        message: 'PIN not set. Please set up your transaction PIN.',
-        attemptsRemaining: 3
-      };
-    }
-
-    // Verify PIN
-    const isValid = await bcrypt.compare(pin, storedPinHash);
-    
-    if (isValid) {
-      // Reset failed attempts on success
-      await resetPinAttempts(userId);
-      return { success: true };
-    } else {
-      // Increment failed attempts
-      const attemptsRemaining = await incrementPinAttempts(userId);
-      
-      return {
-        success: false,
-        message: `Invalid PIN. ${attemptsRemaining} attempts remaining.`,
-        attemptsRemaining
-      };
-    }
-
-  } catch (error) {
-    logger.error('PIN verification error', { userId, error: error.message });
-    return {
-      success: false,
-      message: 'PIN verification failed. Please try again.',
-      attemptsRemaining: 3
-    };
-  }
-}
-
-async function checkAndReserveBalance(userId, amount, transactionId) {
-  try {
-    // Start database transaction
-    // This should be atomic - check balance and reserve in one operation
-    
-    const currentBalance = await getUserBalance(userId);
-    if (currentBalance < amount) {
-      return { success: false, message: 'Insufficient balance' };
-    }
-
-    // Reserve the amount (mark as pending)
-    const reserved = await reserveBalance(userId, amount, transactionId);
-    if (!reserved) {
-      return { success: false, message: 'Failed to reserve balance' };
-    }
-
-    return { success: true, reservedAmount: amount };
-
-  } catch (error) {
-    logger.error('Balance reservation error', { userId, amount, error: error.message });
-    return { success: false, message: 'Balance check failed' };
-  }
-}
-
-async function commitBalanceDeduction(userId, transactionId) {
-  try {
-    // Convert reserved balance to actual deduction
-    const newBalance = await finalizeBalanceDeduction(userId, transactionId);
-    return newBalance;
-  } catch (error) {
-    logger.error('Balance commit error', { userId, transactionId, error: error.message });
-    throw error;
-  }
-}
-
-async function releaseReservedBalance(userId, transactionId) {
-  try {
-    // Release the reserved balance back to available balance
-    await releaseBalanceReservation(userId, transactionId);
-    logger.info('Reserved balance released', { userId, transactionId });
-  } catch (error) {
-    logger.error('Failed to release reserved balance', { userId, transactionId, error: error.message });
-  }
-}
-
-async function saveTransaction(transaction) {
-  try {
-    // Save transaction to database with proper error handling
-    // Example structure - adjust for your database:
-    /*
-    await Transaction.create({
-      id: transaction.id,
-      userId: transaction.userId,
-      type: transaction.type,
-      operator: transaction.operator,
-      amount: transaction.amount,
-      status: transaction.status,
-      metadata: {
-        packageId: transaction.packageId,
-        smartCardNumber: transaction.smartCardNumber,
-        phone: transaction.phone,
-        externalReference: transaction.externalReference
-      },
-      providerResponse: transaction.providerResponse,
-      createdAt: transaction.createdAt
-    });
-    */
-    
-    logger.info('Transaction saved', { transactionId: transaction.id });
-  } catch (error) {
-    logger.error('Failed to save transaction', { 
-      transactionId: transaction.id, 
-      error: error.message 
-    });
-    throw error;
-  }
-}
-
 // Cache functions (implement with Redis)
 async function getCachedPackages(operator) {
   // Implement Redis cache retrieval
@@ -709,48 +332,6 @@ async function cachePackages(operator, packages, ttlSeconds) {
   // IMPLEMENT THIS
 }
 
-// PIN management functions (implement with your database)
-async function getPinLockStatus(userId) {
-  // IMPLEMENT: Check if user is locked due to failed PIN attempts
-  return { isLocked: false, minutesRemaining: 0 }; // IMPLEMENT THIS
-}
-
-async function getUserPinHash(userId) {
-  // IMPLEMENT: Get user's hashed PIN from database
-  return null; // IMPLEMENT THIS
-}
-
-async function resetPinAttempts(userId) {
-  // IMPLEMENT: Reset failed PIN attempts counter
-}
-
-async function incrementPinAttempts(userId) {
-  // IMPLEMENT: Increment failed attempts, return remaining attempts
-  return 3; // IMPLEMENT THIS
-}
-
-// Balance management functions (implement with your database)
-async function getUserBalance(userId) {
-  // IMPLEMENT: Get user's current available balance
-  return 0; // IMPLEMENT THIS
-}
-
-async function reserveBalance(userId, amount, transactionId) {
-  // IMPLEMENT: Atomically reserve balance for transaction
-  return true; // IMPLEMENT THIS
-}
-
-async function finalizeBalanceDeduction(userId, transactionId) {
-  // IMPLEMENT: Convert reservation to actual deduction
-  return 0; // IMPLEMENT THIS - return new balance
-}
-
-async function releaseBalanceReservation(userId, transactionId) {
-  // IMPLEMENT: Release reserved balance back to available
-}
-
-
-
 // Add this endpoint to your existing routes/cabletv.js file
 // Insert this before the module.exports = router; line
 
@@ -0,0 +1,166 @@
+// routes/cardPayments.js - Wallet funding by card through a hosted checkout
+const express = require('express');
+const router = express.Router();
+const { authenticate } = require('../middleware/auth');
+const { idempotency, markSideEffects } = require('../middleware/idempotency');
+const Wallet = require('../models/Wallet');
+const { getCheckoutProvider, isStubCheckoutEnabled } = require('../services/checkout');
+const {
+  CARD_FUNDING_LIMITS,
+  initializeCardFunding,
+  verifyCardFunding,
+  cardPaymentSummary
+} = require('../services/cardFundingService');
+
+// Where the gateway sends the customer after checkout. The app watches for
+// this URL in its webview; the page itself only needs to say "done". It comes
+// from PUBLIC_API_URL, never from the request's Host header.
+const callbackUrl = () =>
+  process.env.PUBLIC_API_URL && `${process.env.PUBLIC_API_URL.replace(/\/+$/, '')}/api/card-payments/callback`;
+
+const escapeHtml = (value) => String(value).replace(/[&<>"']/g, (c) => `&#${c.charCodeAt(0)};`);
+
+const page = (title, body) => `<!DOCTYPE html>
+<html>
+<head>
+  <meta name="viewport" content="width=device-width, initial-scale=1">
+  <title>${escapeHtml(title)}</title>
+  <style>
+    body { font-family: -apple-system, Roboto, sans-serif; background: #f2f2f7; margin: 0; padding: 32px 20px; text-align: center; color: #1c1c1e; }
+    .card { background: #fff; border-radius: 16px; padding: 24px; max-width: 360px; margin: 0 auto; }
+    button { width: 100%; padding: 14px; border: 0; border-radius: 10px; font-size: 16px; margin-top: 12px; }
+    .pay { background: #ff3b30; color: #fff; }
+    .decline { background: #e5e5ea; color: #1c1c1e; }
+  </style>
+</head>
+<body><div class="card">${body}</div></body>
+</html>`;
+
+// @route   POST /api/card-payments/initialize
+// @desc    Start a hosted card checkout for wallet funding
+// @access  Private
+router.post('/initialize', authenticate, idempotency, async (req, res) => {
+  try {
+    if (!callbackUrl()) {
+      console.error('Card checkout initialize error: PUBLIC_API_URL is not set');
+      return res.status(503).json({
+        success: false,
+        message: 'Card payments are not available right now',
+        error_code: 'CHECKOUT_NOT_CONFIGURED'
+      });
+    }
+
+    const amount = Number(req.body.amount);
+    const payment = await initializeCardFunding({
+      userId: req.user.userId,
+      amount,
+      callbackUrl: callbackUrl()
+    });
+    markSideEffects(res);
+
+    res.status(201).json({
+      success: true,
+      message: 'Complete your payment on the secure checkout page',
+      payment: cardPaymentSummary(payment),
+      limits: { min: CARD_FUNDING_LIMITS.MIN, max: CARD_FUNDING_LIMITS.MAX }
+    });
+
+  } catch (error) {
+    if (error.errorCode) {
+      return res.status(error.status).json({
+        success: false,
+        message: error.message,
+        error_code: error.errorCode
+      });
+    }
+
+    console.error('Card checkout initialize error:', error.message);
+    res.status(502).json({
+      success: false,
+      message: 'Unable to start card payment right now. Please try again.'
+    });
+  }
+});
+
+// @route   GET /api/card-payments/callback
+// @desc    Landing page after checkout; the app verifies the payment itself
+// @access  Public
+router.get('/callback', (req, res) => {
+  res.send(page('Payment complete', `
+    <h2>Payment submitted</h2>
+    <p>Return to ConnectPay to see your updated balance.</p>`));
+});
+
+if (isStubCheckoutEnabled()) {
+  // @route   GET /api/card-payments/stub-checkout/:reference
+  // @desc    Fake hosted checkout page, mounted only when CHECKOUT_PROVIDER=stub
+  //          outside production
+  // @access  Public
+  router.get('/stub-checkout/:reference', (req, res) => {
+    const provider = getCheckoutProvider();
+    const session = provider.getCheckout?.(req.params.reference);
+    if (!session) return res.status(404).send(page('Not found', '<p>Checkout not found.</p>'));
+
+    const action = `${req.baseUrl}/stub-checkout/${encodeURIComponent(req.params.reference)}`;
+    res.send(page('Test checkout', `
+      <h3>Test checkout</h3>
+      <p>No card will be charged.</p>
+      <h1>&#8358;${escapeHtml(session.amount.toLocaleString())}</h1>
+      <form method="POST" action="${escapeHtml(action)}">
+        <button class="pay" name="outcome" value="success">Pay</button>
+        <button class="decline" name="outcome" value="failed">Decline</button>
+      </form>`));
+  });
+
+  router.post('/stub-checkout/:reference', express.urlencoded({ extended: false }), (req, res) => {
+    const provider = getCheckoutProvider();
+    const session = provider.completeCheckout?.(req.params.reference, req.body.outcome);
+    if (!session) return res.status(404).send(page('Not found', '<p>Checkout not found.</p>'));
+
+    res.redirect(`${session.callbackUrl}?reference=${encodeURIComponent(req.params.reference)}`);
+  });
+}
+
+// @route   GET /api/card-payments/:reference
+// @desc    Verify a card payment with the gateway and credit the wallet once
+// @access  Private
+router.get('/:reference', authenticate, async (req, res) => {
+  try {
+    const payment = await verifyCardFunding(req.params.reference, req.user.userId);
+    const wallet = await Wallet.findById(payment.walletId);
+
+    const messages = {
+      success: `₦${payment.amount.toLocaleString()} added to your wallet`,
+      pending: 'We are still waiting for your bank to confirm this payment',
+      failed: payment.failureReason || 'Card payment failed'
+    };
+
+    res.json({
+      success: true,
+      message: messages[payment.status],
+      payment: cardPaymentSummary(payment),
+      newBalance: wallet && {
+        mainBalance: wallet.balance,
+        bonusBalance: 0,
+        totalBalance: wallet.balance
+      }
+    });
+
+  } catch (error) {
+    if (error.errorCode) {
+      return res.status(error.status).json({
+        success: false,
+        message: error.message,
+        error_code: error.errorCode
+      });
+    }
+
+    console.error('Card payment verify error:', error.message);
+    res.status(502).json({
+      success: false,
+      message: 'Unable to confirm your payment right now. Please try again.'
+    });
+  }
+});
+
+module.exports = router;
@@ -0,0 +1,110 @@
+// routes/devices.js - Devices signed in to the account and login alert settings
+const express = require('express');
+const router = express.Router();
+const { authenticate } = require('../middleware/auth');
+const User = require('../models/User');
+const { listDevices, revokeDevice, trustCurrentDevice } = require('../services/deviceService');
+
+const sendDeviceError = (res, error) => res.status(error.status).json({
+  success: false,
+  message: error.message,
+  error_code: error.errorCode
+});
+
+// @route   GET /api/devices
+// @desc    Devices the user has signed in from, newest login first
+// @access  Private
+router.get('/', authenticate, async (req, res) => {
+  try {
+    const [devices, user] = await Promise.all([
+      listDevices(req.user.userId, req.user.sessionId),
+      User.findById(req.user.userId).select('requireLoginOtpOnNewDevice')
+    ]);
+
+    res.json({
+      success: true,
+      devices,
+      settings: {
+        requireLoginOtpOnNewDevice: Boolean(user && user.requireLoginOtpOnNewDevice)
+      }
+    });
+  } catch (error) {
+    console.error('List devices error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error fetching devices'
+    });
+  }
+});
+
+// @route   PUT /api/devices/settings
+// @desc    Require a one-time code for logins from new devices.
+//          Body: { requireLoginOtpOnNewDevice: boolean }. Turning it on
+//          trusts this device and returns a new deviceToken for it.
+// @access  Private
+router.put('/settings', authenticate, async (req, res) => {
+  try {
+    const { requireLoginOtpOnNewDevice } = req.body;
+    if (typeof requireLoginOtpOnNewDevice !== 'boolean') {
+      return res.status(400).json({
+        success: false,
+        message: 'requireLoginOtpOnNewDevice must be true or false'
+      });
+    }
+
+    let deviceToken;
+    if (requireLoginOtpOnNewDevice) {
+      ({ deviceToken } = await trustCurrentDevice(req.user.userId, req.user.sessionId));
+    }
+
+    await User.updateOne({ _id: req.user.userId }, { $set: { requireLoginOtpOnNewDevice } });
+
+    res.json({
+      success: true,
+      message: requireLoginOtpOnNewDevice
+        ? 'New devices will need a code to sign in'
+        : 'New devices can sign in with your password',
+      settings: { requireLoginOtpOnNewDevice },
+      ...(deviceToken && { deviceToken })
+    });
+
+  } catch (error) {
+    console.error('Update device settings error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error updating login settings'
+    });
+  }
+});
+
+// @route   POST /api/devices/:id/revoke
+// @desc    Sign a device out and forget it; its next login counts as new
+// @access  Private
+router.post('/:id/revoke', authenticate, async (req, res) => {
+  try {
+    if (!/^[a-f0-9]{24}$/i.test(req.params.id)) {
+      return res.status(404).json({
+        success: false,
+        message: 'Device not found',
+        error_code: 'DEVICE_NOT_FOUND'
+      });
+    }
+
+    await revokeDevice(req.user.userId, req.params.id, req.user.sessionId);
+
+    res.json({
+      success: true,
+      message: 'Device removed and signed out'
+    });
+
+  } catch (error) {
+    if (error.errorCode) return sendDeviceError(res, error);
+    console.error('Revoke device error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error removing device'
+    });
+  }
+});
+
+module.exports = router;
@@ -0,0 +1,117 @@
+// routes/electricity.js - Electricity providers and meter validation
+const express = require('express');
+const rateLimit = require('express-rate-limit');
+const router = express.Router();
+const { authenticate } = require('../middleware/auth');
+const { getAllProviders, METER_TYPES, getLastModified } = require('../config/electricityProviders');
+const { verifyMeter } = require('../services/electricityService');
+
+// Meter lookups hit the disco, so keep them bounded per client
+const meterValidationLimit = rateLimit({
+  windowMs: 15 * 60 * 1000, // 15 minutes
+  max: 30,
+  message: { success: false, message: 'Too many meter validation requests, please try again later' },
+  standardHeaders: true,
+  legacyHeaders: false,
+});
+
+// @route   GET /api/electricity/providers
+// @desc    List distribution companies with status and amount limits
+// @access  Private
+router.get('/providers', authenticate, async (req, res) => {
+  try {
+    res.set({
+      'Cache-Control': 'public, max-age=3600',
+      'Last-Modified': getLastModified().toUTCString()
+    });
+
+    const providers = getAllProviders().map(provider => ({
+      id: provider.id,
+      name: provider.name,
+      fullName: provider.fullName,
+      acronym: provider.acronym,
+      isActive: provider.status === 'active',
+      minAmount: provider.minAmount,
+      maxAmount: provider.maxAmount,
+      fee: provider.fee,
+      meterTypes: provider.meterTypes
+    }));
+
+    res.json({
+      success: true,
+      message: 'Electricity providers retrieved',
+      data: providers,
+      count: providers.length
+    });
+
+  } catch (error) {
+    console.error('Electricity providers error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error retrieving electricity providers'
+    });
+  }
+});
+
+// @route   POST /api/electricity/validate-meter
+// @desc    Validate a prepaid/postpaid meter and return the customer details
+// @access  Private
+router.post('/validate-meter', authenticate, meterValidationLimit, async (req, res) => {
+  try {
+    const { meterNumber, provider, meterType } = req.body;
+
+    if (!meterNumber || !provider || !meterType) {
+      return res.status(400).json({
+        success: false,
+        message: 'Missing required fields: meterNumber, provider, meterType'
+      });
+    }
+
+    if (!METER_TYPES.includes(meterType)) {
+      return res.status(400).json({
+        success: false,
+        message: `Invalid meter type. Must be one of: ${METER_TYPES.join(', ')}`,
+        error_code: 'INVALID_METER_TYPE'
+      });
+    }
+
+    const customer = await verifyMeter({
+      provider,
+      meterNumber: String(meterNumber).trim(),
+      meterType
+    });
+
+    res.json({
+      success: true,
+      message: 'Meter validated successfully',
+      data: customer
+    });
+
+  } catch (error) {
+    console.error('Meter validation error:', error.message);
+
+    if (error.errorCode) {
+      return res.status(error.status || 400).json({
+        success: false,
+        message: error.message,
+        error_code: error.errorCode
+      });
+    }
+
+    if (error.code === 'ECONNABORTED') {
+      return res.status(408).json({
+        success: false,
+        message: 'Meter validation timed out. Please try again.',
+        error_code: 'TIMEOUT'
+      });
+    }
+
+    res.status(500).json({
+      success: false,
+      message: 'Unable to validate meter. Please try again.',
+      error_code: 'VALIDATION_FAILED'
+    });
+  }
+});
+
+module.exports = router;
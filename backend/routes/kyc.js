@@ -0,0 +1,121 @@
+// routes/kyc.js - Identity verification and KYC tier upgrades
+const express = require('express');
+const rateLimit = require('express-rate-limit');
+const router = express.Router();
+const { authenticate } = require('../middleware/auth');
+const User = require('../models/User');
+const {
+  getKycStatus,
+  submitTier1,
+  submitTier2,
+  submitTier3,
+  submissionSummary
+} = require('../services/kycService');
+
+// Every submission costs an identity-provider lookup
+const kycSubmitLimit = rateLimit({
+  windowMs: 60 * 60 * 1000, // 1 hour
+  max: 10,
+  message: { success: false, message: 'Too many verification attempts, please try again later' },
+  standardHeaders: true,
+  legacyHeaders: false,
+});
+
+const SUBMITTERS = {
+  1: submitTier1,
+  2: submitTier2,
+  3: submitTier3
+};
+
+const submissionMessages = {
+  approved: 'Verification successful. Your limits have been raised.',
+  pending_review: 'Thanks! Your documents are being reviewed. We will email you once they are checked.',
+  rejected: 'We could not verify your details.'
+};
+
+// @route   GET /api/kyc
+// @desc    Current tier and limits, every tier's requirements and any submission under review
+// @access  Private
+router.get('/', authenticate, async (req, res) => {
+  try {
+    const user = await User.findById(req.user.userId);
+    if (!user) {
+      return res.status(404).json({
+        success: false,
+        message: 'User not found'
+      });
+    }
+
+    res.json({
+      success: true,
+      kyc: await getKycStatus(user)
+    });
+
+  } catch (error) {
+    console.error('KYC status error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error fetching verification status'
+    });
+  }
+});
+
+// @route   POST /api/kyc/tier/:tier
+// @desc    Submit details for the next tier.
+//          1: { bvn?, nin?, dateOfBirth }
+//          2: { idType, idNumber, idExpiryDate?, idFront, idBack?, selfie }
+//          3: { address: { street, city, state }, proofType, proof }
+//          Files are { data: base64, contentType }. Responds 200 when approved
+//          straight away, 202 when queued for review and 422 when rejected.
+// @access  Private
+router.post('/tier/:tier', authenticate, kycSubmitLimit, async (req, res) => {
+  try {
+    const submit = SUBMITTERS[req.params.tier];
+    if (!submit) {
+      return res.status(404).json({
+        success: false,
+        message: 'Unknown KYC tier'
+      });
+    }
+
+    const user = await User.findById(req.user.userId);
+    if (!user) {
+      return res.status(404).json({
+        success: false,
+        message: 'User not found'
+      });
+    }
+
+    const submission = await submit(user, req.body);
+
+    console.log(`KYC ${submission.reference} tier ${submission.tier} for user ${user._id}: ${submission.status}`);
+
+    const httpStatus = { approved: 200, pending_review: 202, rejected: 422 }[submission.status];
+    res.status(httpStatus).json({
+      success: submission.status !== 'rejected',
+      message: submission.status === 'rejected' && submission.rejectionReason
+        ? `${submissionMessages.rejected} ${submission.rejectionReason.replace(/\.?$/, '.')}`
+        : submissionMessages[submission.status],
+      error_code: submission.status === 'rejected' ? 'KYC_REJECTED' : undefined,
+      submission: submissionSummary(submission),
+      kyc: await getKycStatus(await User.findById(user._id))
+    });
+
+  } catch (error) {
+    if (error.errorCode) {
+      return res.status(error.status).json({
+        success: false,
+        message: error.message,
+        error_code: error.errorCode
+      });
+    }
+
+    console.error('KYC submission error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error submitting verification'
+    });
+  }
+});
+
+module.exports = router;
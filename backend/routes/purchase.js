@@ -3,45 +3,97 @@ const express = require('express');
 const router = express.Router();
 const bcrypt = require('bcryptjs');
 const { authenticate } = require('../middleware/auth');
+const { idempotency, markSideEffects } = require('../middleware/idempotency');
 const User = require('../models/User');
 const Wallet = require('../models/Wallet');
 const Transaction = require('../models/Transaction');
-const { DATA_PLANS } = require('../config/dataPlans');
-
-// PIN attempt tracking (in-memory storage for simplicity)
-const pinAttempts = new Map();
+const { getActivePlansForNetwork } = require('../config/dataPlans');
+const { vendElectricity } = require('../services/electricityService');
+const { processFundBettingPurchase } = require('../services/bettingService');
+const { getVtuProvider, toPurchaseResult } = require('../services/vtu');
+const { getPinLockState, verifyTransactionPin, pinAuditContext } = require('../services/pinService');
+const { authorizeTransaction } = require('../services/biometricService');
+const { serviceMetadataFor, rechargePinDescription } = require('../services/historyService');
+const { assertWithinLimits } = require('../services/limitsService');
+const { settlePendingPurchase } = require('../services/purchaseSettlementService');
+const { refreshWithdrawal } = require('../services/withdrawalService');
+
+// How long a provider call may take before the purchase is reported as
+// pending. The hold stays in place and a requery settles it, because the
+// provider may still deliver.
+const PROVIDER_TIMEOUT_MS = 60 * 1000;
+
+// Service processors, keyed by purchase type
+const PURCHASE_PROCESSORS = {
+  airtime: processAirtimePurchase,
+  data: processDataPurchase,
+  electricity: processElectricityPurchase,
+  cable_tv: processCableTvPurchase,
+  education: processEducationPurchase,
+  print_recharge: processPrintRechargePurchase,
+  internet: processInternetPurchase,
+  fund_betting: processFundBettingPurchase
+};
 
-// PIN configuration
-const PIN_CONFIG = {
-  MAX_ATTEMPTS: 3,
-  LOCK_DURATION: 15 * 60 * 1000, // 15 minutes in milliseconds
-  PIN_EXPIRY: 24 * 60 * 60 * 1000 // 24 hours for PIN reset
+// Rejects a purchase request before the provider is contacted
+const purchaseInputError = (message, errorCode = 'INVALID_PURCHASE', status = 400) => {
+  const error = new Error(message);
+  error.errorCode = errorCode;
+  error.status = status;
+  return error;
 };
 
-// Data plans for validation (should match the data.js route)
-// 
+// Finds the variation the client asked for in the provider's price list and
+// checks the client's amount against its price, so the hold is for the price
+// the provider charges. Matches on the variation code, or on the name when
+// the client sends no code.
+async function pricedVariation(loadVariations, { code, name, amount, label, kind = 'plan', serviceName }) {
+  let variations;
+  try {
+    variations = await loadVariations();
+  } catch (error) {
+    if (error.errorCode) throw error;
+    throw purchaseInputError(`${serviceName} service temporarily unavailable. Please try again.`, 'PROVIDER_UNAVAILABLE', 503);
+  }
 
-// Helper function to get PIN attempt data
-const getPinAttemptData = (userId) => {
-  if (!pinAttempts.has(userId)) {
-    pinAttempts.set(userId, {
-      attempts: 0,
-      lockedUntil: null,
-      lastAttempt: null
-    });
+  const selected = code ?
+    variations.find(v => v.variation_id === code) :
+    variations.find(v => v.name === name);
+  if (!selected) {
+    throw purchaseInputError(`Invalid ${kind} ${code || name} for ${label}`);
   }
-  return pinAttempts.get(userId);
-};
+  if (selected.amount !== amount) {
+    throw purchaseInputError(`Amount mismatch: expected ₦${selected.amount}, received ₦${amount}`);
+  }
+  return selected;
+}
 
-// Helper function to reset PIN attempts
-const resetPinAttempts = (userId) => {
-  pinAttempts.set(userId, {
-    attempts: 0,
-    lockedUntil: null,
-    lastAttempt: null
+const withProviderTimeout = (promise) => {
+  let timer;
+  const timeout = new Promise((_, reject) => {
+    timer = setTimeout(() => reject(new Error('Service provider did not respond in time')), PROVIDER_TIMEOUT_MS);
   });
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
 };
 
+// Responds to a failed PIN check raised by pinService
+const sendPinError = (res, error) => res.status(error.status).json({
+  success: false,
+  message: error.message,
+  error_code: error.errorCode,
+  attemptsRemaining: error.attemptsRemaining,
+  lockedUntil: error.lockedUntil
+});
+
+// Responds to LIMIT_EXCEEDED from limitsService with the remaining headroom
+const sendLimitError = (res, error) => res.status(error.status).json({
+  success: false,
+  message: error.message,
+  error_code: error.errorCode,
+  limit: error.limit,
+  usage: error.usage
+});
+
 // GET /api/purchase/pin-status - Check PIN setup and lock status
 router.get('/pin-status', authenticate, async (req, res) => {
   try {
@@ -55,18 +107,7 @@ router.get('/pin-status', authenticate, async (req, res) => {
 
     const isPinSet = Boolean(user.pin && user.isPinSetup);
 
-    const attemptData = getPinAttemptData(req.user.userId);
-    const now = new Date();
-
-    let isLocked = false;
-    let lockTimeRemaining = 0;
-
-    if (attemptData.lockedUntil && now < attemptData.lockedUntil) {
-      isLocked = true;
-      lockTimeRemaining = Math.ceil((attemptData.lockedUntil - now) / (1000 * 60));
-    } else if (attemptData.lockedUntil && now >= attemptData.lockedUntil) {
-      resetPinAttempts(req.user.userId);
-    }
+    const { isLocked, lockTimeRemaining, attemptsRemaining } = getPinLockState(user);
 
     res.json({
       success: true,
@@ -74,7 +115,7 @@ router.get('/pin-status', authenticate, async (req, res) => {
       hasPinSet: isPinSet,
       isLocked,
       lockTimeRemaining,
-      attemptsRemaining: Math.max(0, PIN_CONFIG.MAX_ATTEMPTS - attemptData.attempts)
+      attemptsRemaining
     });
 
   } catch (error) {
@@ -106,61 +147,17 @@ router.post('/validate-pin', authenticate, async (req, res) => {
       });
     }
 
-    if (!user.pin || !user.isPinSetup) {
-      return res.status(400).json({
-        success: false,
-        message: 'PIN not set. Please set up your transaction PIN first.'
-      });
-    }
-
-    const attemptData = getPinAttemptData(req.user.userId);
-    const now = new Date();
-
-    // Check if account is locked
-    if (attemptData.lockedUntil && now < attemptData.lockedUntil) {
-      const remainingMinutes = Math.ceil((attemptData.lockedUntil - now) / (1000 * 60));
-      return res.status(423).json({
-        success: false,
-        message: `Account locked due to too many failed attempts. Try again in ${remainingMinutes} minutes.`
-      });
-    }
-
-    let isPinValid;
     try {
-      isPinValid = await user.comparePin(pin);
-    } catch (error) {
-      return res.status(400).json({
-        success: false,
-        message: 'PIN not set. Please set up your transaction PIN first.'
-      });
+      await verifyTransactionPin(user, pin, pinAuditContext(req, 'validate_pin'));
+    } catch (pinCheckError) {
+      if (pinCheckError.errorCode) return sendPinError(res, pinCheckError);
+      throw pinCheckError;
     }
 
-    if (isPinValid) {
-      resetPinAttempts(req.user.userId);
-      
-      res.json({
-        success: true,
-        message: 'PIN validated successfully'
-      });
-    } else {
-      attemptData.attempts += 1;
-      attemptData.lastAttempt = now;
-
-      if (attemptData.attempts >= PIN_CONFIG.MAX_ATTEMPTS) {
-        attemptData.lockedUntil = new Date(now.getTime() + PIN_CONFIG.LOCK_DURATION);
-        
-        res.status(423).json({
-          success: false,
-          message: `Invalid PIN. Account locked for ${PIN_CONFIG.LOCK_DURATION / (1000 * 60)} minutes due to too many failed attempts.`
-        });
-      } else {
-        const remainingAttempts = PIN_CONFIG.MAX_ATTEMPTS - attemptData.attempts;
-        res.status(400).json({
-          success: false,
-          message: `Invalid PIN. ${remainingAttempts} attempts remaining.`
-        });
-      }
-    }
+    res.json({
+      success: true,
+      message: 'PIN validated successfully'
+    });
 
   } catch (error) {
     console.error('PIN validation error:', error);
@@ -172,21 +169,23 @@ router.post('/validate-pin', authenticate, async (req, res) => {
 });
 
 // POST /api/purchase - Process any service purchase
-router.post('/', authenticate, async (req, res) => {
+// Authorized with either `pin` or `biometric: { challengeId, signature }`
+// (a challenge from POST /api/biometrics/challenge signed on an enrolled device)
+router.post('/', authenticate, idempotency, async (req, res) => {
   try {
-    const { type, amount, pin, ...serviceData } = req.body;
+    const { type, amount, pin, biometric, ...serviceData } = req.body;
 
     console.log('Purchase request received:', { type, amount, serviceData });
 
     // Basic validation
-    if (!type || !amount || !pin) {
+    if (!type || !amount || (!pin && !biometric)) {
       return res.status(400).json({
         success: false,
         message: 'Missing required fields: type, amount, pin'
       });
     }
 
-    if (!/^\d{4}$/.test(pin)) {
+    if (!biometric && !/^\d{4}$/.test(pin)) {
       return res.status(400).json({
         success: false,
         message: 'PIN must be exactly 4 digits'
@@ -198,14 +197,22 @@ router.post('/', authenticate, async (req, res) => {
       airtime: { min: 50, max: 500000 },
       data: { min: 50, max: 500000 },
       electricity: { min: 100, max: 100000 },
+      cable_tv: { min: 100, max: 100000 },
       education: { min: 500, max: 1000000 },
       print_recharge: { min: 100, max: 50000 },
-      transfer: { min: 100, max: 1000000 },
       internet: { min: 500, max: 200000 },
       fund_betting: { min: 100, max: 500000 }
     };
 
-   const validTypes = ['airtime', 'data', 'electricity', 'education', 'print_recharge', 'transfer', 'internet', 'fund_betting'];
+    // Bank and wallet transfers have their own endpoints with recipient checks
+    if (type === 'transfer') {
+      return res.status(400).json({
+        success: false,
+        message: 'Transfers are no longer made through /purchase. Use /api/withdrawals for bank payouts or /api/wallet/transfer for wallet transfers.'
+      });
+    }
+
+   const validTypes = ['airtime', 'data', 'electricity', 'cable_tv', 'education', 'print_recharge', 'internet', 'fund_betting'];
     if (!validTypes.includes(type)) {
       return res.status(400).json({
         success: false,
@@ -232,179 +239,169 @@ router.post('/', authenticate, async (req, res) => {
       });
     }
 
-    if (!user.pin || !user.isPinSetup) {
-      return res.status(400).json({
-        success: false,
-        message: 'Transaction PIN not set. Please set up your PIN first.'
-      });
+    // Validate PIN or biometric confirmation
+    try {
+      await authorizeTransaction(user, { pin, biometric }, { action: 'purchase', amount }, pinAuditContext(req, 'purchase'));
+    } catch (pinCheckError) {
+      if (pinCheckError.errorCode) return sendPinError(res, pinCheckError);
+      throw pinCheckError;
     }
 
-    // Check account lock status
-    const attemptData = getPinAttemptData(req.user.userId);
-    const now = new Date();
-
-    if (attemptData.lockedUntil && now < attemptData.lockedUntil) {
-      const remainingMinutes = Math.ceil((attemptData.lockedUntil - now) / (1000 * 60));
-      return res.status(423).json({
-        success: false,
-        message: `Account locked. Try again in ${remainingMinutes} minutes.`
-      });
+    try {
+      await assertWithinLimits(user, wallet, amount);
+    } catch (limitCheckError) {
+      if (limitCheckError.errorCode) return sendLimitError(res, limitCheckError);
+      throw limitCheckError;
     }
 
-    // Validate PIN
-    let isPinValid;
-    try {
-      isPinValid = await user.comparePin(pin);
-    } catch (error) {
+    // Check sufficient balance
+    if (wallet.balance < amount) {
       return res.status(400).json({
         success: false,
-        message: 'PIN not set. Please set up your transaction PIN first.'
+        message: `Insufficient balance. Available: ₦${wallet.balance.toLocaleString()}, Required: ₦${amount.toLocaleString()}`
       });
     }
 
-    if (!isPinValid) {
-      attemptData.attempts += 1;
-      attemptData.lastAttempt = now;
-
-      if (attemptData.attempts >= PIN_CONFIG.MAX_ATTEMPTS) {
-        attemptData.lockedUntil = new Date(now.getTime() + PIN_CONFIG.LOCK_DURATION);
-        return res.status(423).json({
-          success: false,
-          message: 'Invalid PIN. Account locked due to too many failed attempts.'
-        });
+    // Hold the funds before the provider is contacted so value is never
+    // delivered without the wallet having paid for it
+    const reference = Transaction.generateReference(type.toUpperCase());
+    const { transaction: holdTransaction } = await wallet.hold(
+      amount,
+      `${type.replace(/_/g, ' ').toUpperCase()} purchase - awaiting provider`,
+      reference,
+      {
+        // Marks the hold as a VTU purchase, which is what may be requeried
+        gateway: { provider: getVtuProvider().name, gatewayReference: reference },
+        metadata: { service: serviceMetadataFor(type, serviceData) }
       }
+    );
+    markSideEffects(res);
 
-      return res.status(400).json({
-        success: false,
-        message: `Invalid PIN. ${PIN_CONFIG.MAX_ATTEMPTS - attemptData.attempts} attempts remaining.`
-      });
+    let purchaseResult;
+    try {
+      purchaseResult = await withProviderTimeout(PURCHASE_PROCESSORS[type]({
+        ...serviceData,
+        amount,
+        reference,
+        userId: req.user.userId
+      }));
+    } catch (providerError) {
+      console.error(`Purchase ${reference} provider error:`, providerError.message);
+      // Input rejected before the provider was asked is a definite failure;
+      // a timeout or transport error is not, so the hold waits for a requery
+      purchaseResult = providerError.errorCode
+        ? { success: false, errorMessage: providerError.message, transactionData: {} }
+        : { success: false, pending: true, reference, transactionData: {} };
     }
 
-    // Check sufficient balance
-    if (wallet.balance < amount) {
-      return res.status(400).json({
-        success: false,
-        message: `Insufficient balance. Available: ₦${wallet.balance.toLocaleString()}, Required: ₦${amount.toLocaleString()}`
+    if (purchaseResult.success || purchaseResult.pending) {
+      if (purchaseResult.description) holdTransaction.description = purchaseResult.description;
+      holdTransaction.set('gateway', {
+        provider: getVtuProvider().name,
+        gatewayReference: purchaseResult.reference
       });
+      if (purchaseResult.metadata) {
+        Object.entries(purchaseResult.metadata).forEach(([key, value]) => {
+          holdTransaction.set(`metadata.${key}`, value);
+        });
+      }
     }
 
-    // Reset PIN attempts on successful validation
-    resetPinAttempts(req.user.userId);
+    if (purchaseResult.pending) {
+      // Provider accepted but has not settled: keep the hold until a requery
+      await holdTransaction.save();
 
-    // Process purchase based on type
-    let purchaseResult;
-    switch (type) {
-      case 'airtime':
-        purchaseResult = await processAirtimePurchase({
-          ...serviceData,
-          amount,
-          userId: req.user.userId
-        });
-        break;
-      case 'data':
-        // FIXED: Enhanced data purchase processing
-        purchaseResult = await processDataPurchase({
-          ...serviceData,
-          amount,
-          userId: req.user.userId
-        });
-        break;
-      case 'electricity':
-        purchaseResult = await processElectricityPurchase({
-          ...serviceData,
-          amount,
-          userId: req.user.userId
-        });
-        break;
-      case 'education':
-        purchaseResult = await processEducationPurchase({
-          ...serviceData,
-          amount,
-          userId: req.user.userId
-        });
-        break;
-      case 'print_recharge':
-        purchaseResult = await processPrintRechargePurchase({
-          ...serviceData,
-          amount,
-          userId: req.user.userId
-        });
-        break;
-      case 'transfer':
-        purchaseResult = await processTransferPurchase({
-          ...serviceData,
-          amount,
-          userId: req.user.userId
-        });
-        break;
-      case 'internet':
-        purchaseResult = await processInternetPurchase({
-          ...serviceData,
-          amount,
-          userId: req.user.userId
-        });
-        break;
-      case 'fund_betting':
-        purchaseResult = await processFundBettingPurchase({
-          ...serviceData,
+      return res.status(202).json({
+        success: true,
+        message: 'Your purchase is being processed. We will confirm it shortly.',
+        transaction: {
+          _id: holdTransaction._id,
+          type,
           amount,
-          userId: req.user.userId
-        });
-        break;
-      default:
-        return res.status(400).json({
-          success: false,
-          message: 'Unsupported service type'
-        });
+          ...purchaseResult.transactionData,
+          status: 'pending',
+          reference,
+          providerReference: purchaseResult.reference,
+          responseMessage: 'Transaction is processing',
+          timestamp: new Date()
+        },
+        newBalance: {
+          mainBalance: wallet.balance,
+          bonusBalance: 0,
+          totalBalance: wallet.balance
+        }
+      });
     }
 
     if (purchaseResult.success) {
-      // Debit wallet using the model method
-      const transactionResult = await wallet.debit(
-        amount,
-        purchaseResult.description,
-        purchaseResult.reference
-      );
+      // Capture: the held debit becomes the final ledger row
+      await holdTransaction.complete();
 
       res.json({
         success: true,
         message: purchaseResult.successMessage,
         transaction: {
-          _id: purchaseResult.reference,
+          _id: holdTransaction._id,
           type,
           amount,
           ...purchaseResult.transactionData,
           status: 'completed',
-          reference: purchaseResult.reference,
+          reference,
+          providerReference: purchaseResult.reference,
           responseMessage: 'Transaction completed successfully',
-          timestamp: new Date()
+          timestamp: holdTransaction.completedAt
         },
         newBalance: {
-          mainBalance: transactionResult.wallet.balance,
+          mainBalance: wallet.balance,
           bonusBalance: 0,
-          totalBalance: transactionResult.wallet.balance
+          totalBalance: wallet.balance
         }
       });
     } else {
-      // Return failure response
+      // Release: mark the hold failed and refund it in the same step
+      const failureMessage = purchaseResult.errorMessage || 'Purchase failed';
+      const refund = await wallet.releaseHold(holdTransaction, failureMessage);
+
       res.status(400).json({
         success: false,
-        message: purchaseResult.errorMessage || 'Purchase failed',
+        message: `${failureMessage.replace(/\.?$/, '.')} Your wallet has been refunded.`,
         transaction: {
-          _id: purchaseResult.reference,
+          _id: holdTransaction._id,
           type,
           amount,
           ...purchaseResult.transactionData,
           status: 'failed',
-          reference: purchaseResult.reference,
-          responseMessage: purchaseResult.errorMessage || 'Purchase failed',
+          reference,
+          responseMessage: failureMessage,
+          refund: {
+            reference: refund.transaction.reference,
+            amount: refund.transaction.amount
+          },
           timestamp: new Date()
+        },
+        newBalance: {
+          mainBalance: wallet.balance,
+          bonusBalance: 0,
+          totalBalance: wallet.balance
         }
       });
     }
 
   } catch (error) {
     console.error('Purchase error:', error);
+
+    // Raised by the wallet when concurrent debits would break a limit
+    if (error.errorCode === 'LIMIT_EXCEEDED') return sendLimitError(res, error);
+
+    // Validation errors raised by service modules (e.g. electricityService)
+    if (error.errorCode) {
+      return res.status(error.status || 400).json({
+        success: false,
+        message: error.message,
+        error_code: error.errorCode
+      });
+    }
+
     res.status(500).json({
       success: false,
       message: 'Server error processing purchase'
@@ -412,516 +409,391 @@ router.post('/', authenticate, async (req, res) => {
   }
 });
 
-// ENHANCED Data purchase processing function
-async function processDataPurchase({ network, phone, planId, plan, amount, userId }) {
-  try {
-    console.log('Processing data purchase:', { network, phone, planId, plan, amount });
-
-    // Validate data-specific fields
-    if (!network || !phone) {
-      throw new Error('Missing required fields: network, phone');
-    }
+// The withdrawal a pending row belongs to: the row itself, or the withdrawal
+// its fee was charged for. Null for anything else.
+const withdrawalFor = async (transaction) => {
+  if (transaction.category === 'withdrawal') return transaction;
+  if (transaction.category !== 'fee' || !transaction.relatedTransactionId) return null;
+  return Transaction.findOne({ _id: transaction.relatedTransactionId, category: 'withdrawal' });
+};
 
-    if (!/^0[789][01]\d{8}$/.test(phone)) {
-      throw new Error('Invalid phone number format');
-    }
+// POST /api/purchase/:reference/requery - Settle a pending purchase with the provider.
+// Withdrawals (and their fees) are checked with the payout provider instead.
+router.post('/:reference/requery', authenticate, async (req, res) => {
+  try {
+    let transaction = await Transaction.findOne({
+      reference: req.params.reference,
+      userId: req.user.userId
+    });
 
-    const validNetworks = ['mtn', 'airtel', 'glo', '9mobile'];
-    if (!validNetworks.includes(network)) {
-      throw new Error('Invalid network');
+    if (!transaction) {
+      return res.status(404).json({
+        success: false,
+        message: 'Transaction not found'
+      });
     }
 
-    // FIXED: Validate data plan if planId is provided
-    let validatedPlan = null;
-    if (planId) {
-      // Find the plan in our data plans
-      const networkPlans = DATA_PLANS[network];
-      if (networkPlans) {
-        validatedPlan = networkPlans.find(p => p.id === planId);
-        if (!validatedPlan) {
-          throw new Error(`Invalid plan ID ${planId} for network ${network}`);
-        }
-        
-        // Validate amount matches the plan
-        if (validatedPlan.amount !== amount) {
-          throw new Error(`Amount mismatch: expected ₦${validatedPlan.amount}, received ₦${amount}`);
+    if (transaction.status === 'pending') {
+      const withdrawal = await withdrawalFor(transaction);
+      if (withdrawal) {
+        const wallet = await Wallet.findById(withdrawal.walletId);
+        await refreshWithdrawal(wallet, withdrawal);
+        if (!withdrawal._id.equals(transaction._id)) {
+          transaction = await Transaction.findById(transaction._id);
         }
+      } else {
+        await settlePendingPurchase(transaction);
       }
     }
 
-    // If no planId provided but plan name is given, try to find by name
-    if (!validatedPlan && plan) {
-      const networkPlans = DATA_PLANS[network];
-      if (networkPlans) {
-        validatedPlan = networkPlans.find(p => p.name === plan);
+    res.json({
+      success: true,
+      message: `Transaction is ${transaction.status}`,
+      transaction: {
+        _id: transaction._id,
+        reference: transaction.reference,
+        amount: transaction.amount,
+        status: transaction.status,
+        description: transaction.description,
+        completedAt: transaction.completedAt,
+        failedAt: transaction.failedAt
       }
-    }
-
-    // Simulate API call delay
-    await new Promise(resolve => setTimeout(resolve, 1500));
-
-    const reference = `DATA_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-    const isSuccessful = Math.random() > 0.15; // 85% success rate
-
-    if (isSuccessful) {
-      const description = validatedPlan ? 
-        `Data purchase - ${network.toUpperCase()} ${validatedPlan.name} (${validatedPlan.dataSize}) - ${phone}` :
-        `Data purchase - ${network.toUpperCase()} ${plan || 'Data Plan'} - ${phone}`;
+    });
 
-      return {
-        success: true,
-        reference,
-        description,
-        successMessage: 'Data purchase successful',
-        transactionData: {
-          network: network.toUpperCase(),
-          phone,
-          plan: validatedPlan ? validatedPlan.name : plan,
-          planId: validatedPlan ? validatedPlan.id : planId,
-          dataSize: validatedPlan ? validatedPlan.dataSize : 'N/A',
-          validity: validatedPlan ? validatedPlan.validity : 'N/A',
-          serviceType: 'data'
-        }
-      };
-    } else {
-      return {
+  } catch (error) {
+    // NOT_REQUERYABLE, or WITHDRAWALS_UNAVAILABLE from the payout provider
+    if (error.errorCode) {
+      return res.status(error.status || 400).json({
         success: false,
-        reference,
-        errorMessage: 'Data service temporarily unavailable. Please try again.',
-        transactionData: {
-          network: network.toUpperCase(),
-          phone,
-          plan: validatedPlan ? validatedPlan.name : plan,
-          planId: validatedPlan ? validatedPlan.id : planId,
-          serviceType: 'data'
-        }
-      };
+        message: error.message,
+        error_code: error.errorCode
+      });
     }
-  } catch (error) {
-    console.error('Data purchase processing error:', error);
-    
-    const reference = `DATA_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-    return {
+
+    console.error('Requery error:', error);
+    res.status(500).json({
       success: false,
-      reference,
-      errorMessage: error.message,
-      transactionData: {
-        network: network?.toUpperCase(),
-        phone,
-        plan,
-        planId,
-        serviceType: 'data'
-      }
-    };
+      message: 'Unable to check transaction status. Please try again.'
+    });
   }
-}
+});
 
-// Airtime purchase
-async function processAirtimePurchase({ network, phone, amount, userId }) {
-  // Validate airtime-specific data
-  if (!network || !phone) {
-    throw new Error('Missing required fields: network, phone');
+// ENHANCED Data purchase processing function
+async function processDataPurchase({ network, phone, planId, plan, amount, reference }) {
+  console.log('Processing data purchase:', { network, phone, planId, plan, amount });
+
+  // Validate data-specific fields
+  if (!network || !phone || !(planId || plan)) {
+    throw purchaseInputError('Missing required fields: network, phone, planId');
   }
 
   if (!/^0[789][01]\d{8}$/.test(phone)) {
-    throw new Error('Invalid phone number format');
+    throw purchaseInputError('Invalid phone number format');
   }
 
   const validNetworks = ['mtn', 'airtel', 'glo', '9mobile'];
   if (!validNetworks.includes(network)) {
-    throw new Error('Invalid network');
+    throw purchaseInputError('Invalid network');
   }
 
-  // Simulate API call delay
-  await new Promise(resolve => setTimeout(resolve, 1000));
+  // The price comes from our active plan list, never from the client. Plans
+  // are looked up by ID, or by name for clients that send only the name.
+  const networkPlans = getActivePlansForNetwork(network);
+  const validatedPlan = planId ?
+    networkPlans.find(p => p.id === planId) :
+    networkPlans.find(p => p.name === plan);
+  if (!validatedPlan) {
+    throw purchaseInputError(`Invalid plan ${planId || plan} for network ${network}`);
+  }
+  if (validatedPlan.amount !== amount) {
+    throw purchaseInputError(`Amount mismatch: expected ₦${validatedPlan.amount}, received ₦${amount}`);
+  }
 
-  const reference = `AIR_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-  const isSuccessful = Math.random() > 0.1; // 90% success rate
+  const vend = await getVtuProvider().purchaseData({
+    network,
+    phone,
+    planCode: validatedPlan.variationCode || validatedPlan.id,
+    amount,
+    reference
+  });
 
-  if (isSuccessful) {
-    return {
-      success: true,
-      reference,
-      description: `Airtime purchase - ${network.toUpperCase()} - ${phone}`,
-      successMessage: 'Airtime purchase successful',
-      transactionData: {
-        network: network.toUpperCase(),
-        phone,
-        serviceType: 'airtime'
-      }
-    };
-  } else {
-    return {
-      success: false,
-      reference,
-      errorMessage: 'Network service temporarily unavailable. Please try again.',
-      transactionData: {
-        network: network.toUpperCase(),
-        phone,
-        serviceType: 'airtime'
-      }
-    };
-  }
+  const description = `Data purchase - ${network.toUpperCase()} ${validatedPlan.name} (${validatedPlan.dataSize}) - ${phone}`;
+
+  return toPurchaseResult(vend, {
+    reference,
+    description,
+    successMessage: 'Data purchase successful',
+    failureMessage: 'Data service temporarily unavailable. Please try again.',
+    transactionData: {
+      network: network.toUpperCase(),
+      phone,
+      plan: validatedPlan.name,
+      planId: validatedPlan.id,
+      dataSize: validatedPlan.dataSize,
+      validity: validatedPlan.validity,
+      serviceType: 'data'
+    }
+  });
 }
 
-
-// Electricity purchase
-async function processElectricityPurchase({ provider, meterNumber, meterType, amount, userId }) {
-  // Validate electricity-specific fields
-  if (!provider || !meterNumber || !meterType) {
-    throw new Error('Missing required fields: provider, meterNumber, meterType');
+// Airtime purchase
+async function processAirtimePurchase({ network, phone, amount, reference }) {
+  // Validate airtime-specific data
+  if (!network || !phone) {
+    throw purchaseInputError('Missing required fields: network, phone');
   }
 
-  const validProviders = ['eko', 'ikeja', 'abuja', 'kano', 'portharcourt'];
-  if (!validProviders.includes(provider)) {
-    throw new Error('Invalid electricity provider');
+  if (!/^0[789][01]\d{8}$/.test(phone)) {
+    throw purchaseInputError('Invalid phone number format');
   }
 
-  const validMeterTypes = ['prepaid', 'postpaid'];
-  if (!validMeterTypes.includes(meterType)) {
-    throw new Error('Invalid meter type');
+  const validNetworks = ['mtn', 'airtel', 'glo', '9mobile'];
+  if (!validNetworks.includes(network)) {
+    throw purchaseInputError('Invalid network');
   }
 
-  // Simulate API call
-  await new Promise(resolve => setTimeout(resolve, 2500));
+  const vend = await getVtuProvider().purchaseAirtime({ network, phone, amount, reference });
+
+  return toPurchaseResult(vend, {
+    reference,
+    description: `Airtime purchase - ${network.toUpperCase()} - ${phone}`,
+    successMessage: 'Airtime purchase successful',
+    failureMessage: 'Network service temporarily unavailable. Please try again.',
+    transactionData: {
+      network: network.toUpperCase(),
+      phone,
+      serviceType: 'airtime'
+    }
+  });
+}
 
-  const reference = `ELEC_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-  const isSuccessful = Math.random() > 0.25; // 75% success rate
 
-  if (isSuccessful) {
-    // Generate mock token for prepaid
-    const token = meterType === 'prepaid' ? 
-      `${Math.random().toString().substr(2, 4)}-${Math.random().toString().substr(2, 4)}-${Math.random().toString().substr(2, 4)}-${Math.random().toString().substr(2, 4)}` : 
-      null;
+// Electricity purchase
+async function processElectricityPurchase({ provider, meterNumber, meterType, phone, customerName, customerAddress, amount, reference }) {
+  // Validate electricity-specific fields
+  if (!provider || !meterNumber || !meterType) {
+    throw purchaseInputError('Missing required fields: provider, meterNumber, meterType');
+  }
 
-    return {
-      success: true,
-      reference,
-      description: `Electricity - ${provider.toUpperCase()} ${meterType} - ${meterNumber}`,
-      successMessage: `Electricity ${meterType === 'prepaid' ? 'token' : 'payment'} successful`,
-      transactionData: {
-        provider: provider.toUpperCase(),
-        meterNumber,
-        meterType,
-        token,
-        serviceType: 'electricity'
-      }
-    };
-  } else {
-    return {
-      success: false,
-      reference,
-      errorMessage: 'Electricity service temporarily unavailable. Please try again.',
-      transactionData: {
-        provider: provider.toUpperCase(),
+  const vend = await vendElectricity({ provider, meterNumber, meterType, amount, phone, reference });
+  const details = vend.details || {};
+
+  return toPurchaseResult(vend, {
+    reference,
+    description: `Electricity - ${provider.toUpperCase()} ${meterType} - ${meterNumber}`,
+    successMessage: `Electricity ${meterType === 'prepaid' ? 'token' : 'payment'} successful`,
+    failureMessage: 'Electricity service temporarily unavailable. Please try again.',
+    transactionData: {
+      provider: provider.toUpperCase(),
+      meterNumber,
+      meterType,
+      customerName,
+      token: details.token,
+      units: details.units,
+      tariffClass: details.tariffClass,
+      fee: 0,
+      serviceType: 'electricity'
+    },
+    // Persisted on the wallet transaction so receipts can be re-rendered later
+    metadata: {
+      electricity: {
+        provider,
         meterNumber,
         meterType,
-        serviceType: 'electricity'
+        customerName,
+        customerAddress,
+        token: details.token,
+        units: details.units,
+        tariffClass: details.tariffClass,
+        providerReference: vend.providerReference
       }
-    };
-  }
+    }
+  });
 }
 
-// Education purchase (School fees, WAEC, JAMB, etc.)
-async function processEducationPurchase({ provider, studentId, examType, candidateName, amount, userId }) {
+// Education purchase (WAEC, JAMB, NECO, NABTEB result checkers and registration)
+async function processEducationPurchase({ provider, studentId, examType, candidateName, phone, amount, reference }) {
   // Validate education-specific fields
   if (!provider) {
-    throw new Error('Missing required field: provider');
+    throw purchaseInputError('Missing required field: provider');
   }
 
-  const validProviders = ['waec', 'jamb', 'neco', 'nabteb', 'school_fees'];
+  const validProviders = ['waec', 'jamb', 'neco', 'nabteb'];
   if (!validProviders.includes(provider)) {
-    throw new Error('Invalid education provider');
+    throw purchaseInputError('Invalid education provider');
+  }
+
+  if (!examType) {
+    throw purchaseInputError('Exam type is required for examination payments');
   }
 
-  // Validate based on provider type
-  if (['waec', 'jamb', 'neco', 'nabteb'].includes(provider)) {
-    if (!examType) {
-      throw new Error('Exam type is required for examination payments');
+  // The price comes from the provider's product list, never from the client
+  const product = await pricedVariation(() => getVtuProvider().getEducationProducts({ provider }), {
+    code: examType,
+    amount,
+    label: provider.toUpperCase(),
+    kind: 'exam type',
+    serviceName: 'Education'
+  });
+
+  const vend = await getVtuProvider().purchaseEducation({
+    provider,
+    examType,
+    candidateId: studentId,
+    amount,
+    phone,
+    reference
+  });
+
+  return toPurchaseResult(vend, {
+    reference,
+    description: `${provider.toUpperCase()} ${product.name} - ${candidateName || 'Candidate'}`,
+    successMessage: 'Examination payment successful',
+    failureMessage: 'Education service temporarily unavailable. Please try again.',
+    transactionData: {
+      provider: provider.toUpperCase(),
+      studentId,
+      examType,
+      productName: product.name,
+      candidateName,
+      pin: vend.details?.pin,
+      serviceType: 'education'
     }
+  });
+}
+
+// Cable TV subscription (DStv, GOtv, StarTimes, Showmax)
+async function processCableTvPurchase({ operator, packageId, smartCardNumber, phone, amount, reference }) {
+  // Validate cable-specific fields
+  if (!operator || !packageId || !smartCardNumber) {
+    throw purchaseInputError('Missing required fields: operator, packageId, smartCardNumber');
   }
 
-  if (provider === 'school_fees' && !studentId) {
-    throw new Error('Student ID is required for school fees payment');
+  if (!/^\d{10,15}$/.test(String(smartCardNumber))) {
+    throw purchaseInputError('Smart card number must be 10-15 digits');
   }
 
-  // Simulate API call
-  await new Promise(resolve => setTimeout(resolve, 2000));
+  // The price comes from the provider's package list, never from the client
+  const selectedPackage = await pricedVariation(() => getVtuProvider().getCablePackages({ operator }), {
+    code: packageId,
+    amount,
+    label: operator.toUpperCase(),
+    kind: 'package',
+    serviceName: 'Cable TV'
+  });
 
-  const reference = `EDU_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-  const isSuccessful = Math.random() > 0.15; // 85% success rate
+  const vend = await getVtuProvider().purchaseCable({
+    operator,
+    packageCode: packageId,
+    smartCardNumber: String(smartCardNumber),
+    phone,
+    amount,
+    reference
+  });
 
-  if (isSuccessful) {
-    let description;
-    if (provider === 'school_fees') {
-      description = `School Fees Payment - ${studentId}`;
-    } else {
-      description = `${provider.toUpperCase()} ${examType || ''} - ${candidateName || 'Candidate'}`.trim();
+  return toPurchaseResult(vend, {
+    reference,
+    description: `Cable TV - ${operator.toUpperCase()} ${selectedPackage.name} - ${smartCardNumber}`,
+    successMessage: 'Cable TV subscription successful',
+    failureMessage: 'Cable TV service temporarily unavailable. Please try again.',
+    transactionData: {
+      operator: operator.toUpperCase(),
+      packageId,
+      packageName: selectedPackage.name,
+      smartCardNumber: String(smartCardNumber),
+      phone,
+      serviceType: 'cable_tv'
     }
-
-    return {
-      success: true,
-      reference,
-      description,
-      successMessage: `${provider === 'school_fees' ? 'School fees' : 'Examination'} payment successful`,
-      transactionData: {
-        provider: provider.toUpperCase(),
-        studentId,
-        examType,
-        candidateName,
-        serviceType: 'education'
-      }
-    };
-  } else {
-    return {
-      success: false,
-      reference,
-      errorMessage: 'Education service temporarily unavailable. Please try again.',
-      transactionData: {
-        provider: provider.toUpperCase(),
-        studentId,
-        examType,
-        candidateName,
-        serviceType: 'education'
-      }
-    };
-  }
+  });
 }
 
 // Print recharge purchase
-async function processPrintRechargePurchase({ provider, printerId, printerType, amount, userId }) {
+async function processPrintRechargePurchase({ provider, printerId, printerType, phone, amount, reference }) {
   // Validate print recharge fields
   if (!provider || !printerId) {
-    throw new Error('Missing required fields: provider, printerId');
+    throw purchaseInputError('Missing required fields: provider, printerId');
   }
 
   const validProviders = ['epins', 'printivo', 'campus_print', 'quickprint'];
   if (!validProviders.includes(provider)) {
-    throw new Error('Invalid print provider');
+    throw purchaseInputError('Invalid print provider');
   }
 
   const validPrinterTypes = ['laser', 'inkjet', 'photo', '3d'];
   if (printerType && !validPrinterTypes.includes(printerType)) {
-    throw new Error('Invalid printer type');
-  }
-
-  // Simulate API call
-  await new Promise(resolve => setTimeout(resolve, 1500));
-
-  const reference = `PRINT_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-  const isSuccessful = Math.random() > 0.1; // 90% success rate
-
-  if (isSuccessful) {
-    // Generate print credit code
-    const creditCode = `PC${Math.random().toString(36).substr(2, 8).toUpperCase()}`;
-
-    return {
-      success: true,
-      reference,
-      description: `Print Recharge - ${provider.toUpperCase()} - ${printerId}`,
-      successMessage: 'Print recharge successful',
-      transactionData: {
-        provider: provider.toUpperCase(),
-        printerId,
-        printerType,
-        creditCode,
-        serviceType: 'print_recharge'
-      }
-    };
-  } else {
-    return {
-      success: false,
-      reference,
-      errorMessage: 'Print service temporarily unavailable. Please try again.',
-      transactionData: {
-        provider: provider.toUpperCase(),
-        printerId,
-        printerType,
-        serviceType: 'print_recharge'
-      }
-    };
-  }
-}
-
-// Transfer purchase (Bank transfer, wallet transfer)
-async function processTransferPurchase({ transferType, bankCode, accountNumber, accountName, walletId, amount, userId }) {
-  // Validate transfer fields
-  if (!transferType) {
-    throw new Error('Missing required field: transferType');
-  }
-
-  const validTransferTypes = ['bank_transfer', 'wallet_transfer'];
-  if (!validTransferTypes.includes(transferType)) {
-    throw new Error('Invalid transfer type');
-  }
-
-  if (transferType === 'bank_transfer') {
-    if (!bankCode || !accountNumber || !accountName) {
-      throw new Error('Missing required fields for bank transfer: bankCode, accountNumber, accountName');
-    }
-
-    // Validate account number format (10 digits for Nigerian banks)
-    if (!/^\d{10}$/.test(accountNumber)) {
-      throw new Error('Invalid account number format');
-    }
-  }
-
-  if (transferType === 'wallet_transfer') {
-    if (!walletId) {
-      throw new Error('Missing required field for wallet transfer: walletId');
-    }
+    throw purchaseInputError('Invalid printer type');
   }
 
-  // Simulate API call
-  await new Promise(resolve => setTimeout(resolve, 3000));
-
-  const reference = `TRANS_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-  const isSuccessful = Math.random() > 0.05; // 95% success rate
-
-  if (isSuccessful) {
-    let description;
-    if (transferType === 'bank_transfer') {
-      description = `Bank Transfer to ${accountName} - ${accountNumber}`;
-    } else {
-      description = `Wallet Transfer to ${walletId}`;
+  const vend = await getVtuProvider().purchasePrintRecharge({ provider, printerId, amount, phone, reference });
+
+  return toPurchaseResult(vend, {
+    reference,
+    description: `Print Recharge - ${provider.toUpperCase()} - ${printerId}`,
+    successMessage: 'Print recharge successful',
+    failureMessage: 'Print service temporarily unavailable. Please try again.',
+    transactionData: {
+      provider: provider.toUpperCase(),
+      printerId,
+      printerType,
+      creditCode: vend.details?.creditCode,
+      serviceType: 'print_recharge'
     }
-
-    return {
-      success: true,
-      reference,
-      description,
-      successMessage: 'Transfer completed successfully',
-      transactionData: {
-        transferType,
-        bankCode,
-        accountNumber,
-        accountName,
-        walletId,
-        serviceType: 'transfer'
-      }
-    };
-  } else {
-    return {
-      success: false,
-      reference,
-      errorMessage: 'Transfer failed. Please check recipient details and try again.',
-      transactionData: {
-        transferType,
-        bankCode,
-        accountNumber,
-        accountName,
-        walletId,
-        serviceType: 'transfer'
-      }
-    };
-  }
+  });
 }
 
 // Internet purchase (ISP services)
-async function processInternetPurchase({ provider, plan, customerNumber, planType, amount, userId }) {
+async function processInternetPurchase({ provider, plan, planId, customerNumber, planType, phone, amount, reference }) {
   // Validate internet fields
   if (!provider || !plan || !customerNumber) {
-    throw new Error('Missing required fields: provider, plan, customerNumber');
+    throw purchaseInputError('Missing required fields: provider, plan, customerNumber');
   }
 
   const validProviders = ['spectranet', 'smile', 'swift', 'ipnx', 'coollink'];
   if (!validProviders.includes(provider)) {
-    throw new Error('Invalid internet provider');
+    throw purchaseInputError('Invalid internet provider');
   }
 
   const validPlanTypes = ['monthly', 'weekly', 'daily', 'yearly'];
   if (planType && !validPlanTypes.includes(planType)) {
-    throw new Error('Invalid plan type');
+    throw purchaseInputError('Invalid plan type');
   }
 
-  // Simulate API call
-  await new Promise(resolve => setTimeout(resolve, 2500));
-
-  const reference = `NET_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-  const isSuccessful = Math.random() > 0.2; // 80% success rate
-
-  if (isSuccessful) {
-    return {
-      success: true,
-      reference,
-      description: `Internet - ${provider.toUpperCase()} ${plan} - ${customerNumber}`,
-      successMessage: 'Internet subscription successful',
-      transactionData: {
-        provider: provider.toUpperCase(),
-        plan,
-        customerNumber,
-        planType,
-        serviceType: 'internet'
-      }
-    };
-  } else {
-    return {
-      success: false,
-      reference,
-      errorMessage: 'Internet service temporarily unavailable. Please try again.',
-      transactionData: {
-        provider: provider.toUpperCase(),
-        plan,
-        customerNumber,
-        planType,
-        serviceType: 'internet'
-      }
-    };
-  }
-}
-
-// Fund betting purchase
-async function processFundBettingPurchase({ provider, customerId, customerName, amount, userId }) {
-  // Validate betting fields
-  if (!provider || !customerId) {
-    throw new Error('Missing required fields: provider, customerId');
-  }
-
-  const validProviders = ['bet9ja', 'sportybet', 'nairabet', 'betway', '1xbet', 'betking', 'merrybet'];
-  if (!validProviders.includes(provider)) {
-    throw new Error('Invalid betting provider');
-  }
-
-  // Simulate API call
-  await new Promise(resolve => setTimeout(resolve, 2000));
+  // The price comes from the provider's plan list, never from the client
+  const selectedPlan = await pricedVariation(() => getVtuProvider().getInternetPlans({ provider }), {
+    code: planId,
+    name: plan,
+    amount,
+    label: provider.toUpperCase(),
+    serviceName: 'Internet'
+  });
 
-  const reference = `BET_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-  const isSuccessful = Math.random() > 0.1; // 90% success rate
+  const vend = await getVtuProvider().purchaseInternet({
+    provider,
+    planCode: selectedPlan.variation_id,
+    customerNumber,
+    amount,
+    phone,
+    reference
+  });
 
-  if (isSuccessful) {
-    return {
-      success: true,
-      reference,
-      description: `Betting Fund - ${provider.toUpperCase()} - ${customerId}`,
-      successMessage: 'Betting account funded successfully',
-      transactionData: {
-        provider: provider.toUpperCase(),
-        customerId,
-        customerName,
-        serviceType: 'fund_betting'
-      }
-    };
-  } else {
-    return {
-      success: false,
-      reference,
-      errorMessage: 'Betting service temporarily unavailable. Please try again.',
-      transactionData: {
-        provider: provider.toUpperCase(),
-        customerId,
-        customerName,
-        serviceType: 'fund_betting'
-      }
-    };
-  }
+  return toPurchaseResult(vend, {
+    reference,
+    description: `Internet - ${provider.toUpperCase()} ${selectedPlan.name} - ${customerNumber}`,
+    successMessage: 'Internet subscription successful',
+    failureMessage: 'Internet service temporarily unavailable. Please try again.',
+    transactionData: {
+      provider: provider.toUpperCase(),
+      plan: selectedPlan.name,
+      planId: selectedPlan.variation_id,
+      customerNumber,
+      planType,
+      serviceType: 'internet'
+    }
+  });
 }
 
-
-
-
-
 // POST /api/purchase/generate - Generate recharge PINs (Updated to save transactions)
-router.post('/generate', authenticate, async (req, res) => {
+router.post('/generate', authenticate, idempotency, async (req, res) => {
   try {
     const { network, type, denomination, quantity, pin } = req.body;
 
@@ -993,65 +865,25 @@ router.post('/generate', authenticate, async (req, res) => {
       });
     }
 
-    if (!user.pin || !user.isPinSetup) {
-      console.log('❌ PIN not set up');
-      return res.status(400).json({
-        success: false,
-        message: 'Transaction PIN not set. Please set up your PIN first.'
-      });
-    }
-
-    // Check account lock status
-    console.log('🔒 Checking account lock status...');
-    const attemptData = getPinAttemptData(req.user.userId);
-    const now = new Date();
-
-    if (attemptData.lockedUntil && now < attemptData.lockedUntil) {
-      const remainingMinutes = Math.ceil((attemptData.lockedUntil - now) / (1000 * 60));
-      console.log('❌ Account is locked for', remainingMinutes, 'minutes');
-      return res.status(423).json({
-        success: false,
-        message: `Account locked. Try again in ${remainingMinutes} minutes.`
-      });
-    }
-
-    console.log('✅ Account is not locked');
-
-    // Validate PIN
     console.log('🔑 Validating PIN...');
-    let isPinValid;
     try {
-      isPinValid = await user.comparePin(pin);
-      console.log('PIN validation result:', isPinValid);
-    } catch (error) {
-      console.log('❌ PIN validation error:', error.message);
-      return res.status(400).json({
-        success: false,
-        message: 'PIN not set. Please set up your transaction PIN first.'
-      });
+      await verifyTransactionPin(user, pin, pinAuditContext(req, 'recharge_generate'));
+    } catch (pinCheckError) {
+      console.log('❌ PIN check failed:', pinCheckError.message);
+      if (pinCheckError.errorCode) return sendPinError(res, pinCheckError);
+      throw pinCheckError;
     }
 
-    if (!isPinValid) {
-      console.log('❌ Invalid PIN provided');
-      attemptData.attempts += 1;
-      attemptData.lastAttempt = now;
-
-      if (attemptData.attempts >= PIN_CONFIG.MAX_ATTEMPTS) {
-        attemptData.lockedUntil = new Date(now.getTime() + PIN_CONFIG.LOCK_DURATION);
-        return res.status(423).json({
-          success: false,
-          message: 'Invalid PIN. Account locked due to too many failed attempts.'
-        });
-      }
+    console.log('✅ PIN validated successfully');
 
-      return res.status(400).json({
-        success: false,
-        message: `Invalid PIN. ${PIN_CONFIG.MAX_ATTEMPTS - attemptData.attempts} attempts remaining.`
-      });
+    try {
+      await assertWithinLimits(user, wallet, totalAmount);
+    } catch (limitCheckError) {
+      console.log('❌ Spending limit check failed:', limitCheckError.message);
+      if (limitCheckError.errorCode) return sendLimitError(res, limitCheckError);
+      throw limitCheckError;
     }
 
-    console.log('✅ PIN validated successfully');
-
     // Check balance
     console.log('💳 Current wallet balance:', wallet.balance);
     console.log('💳 Required amount:', totalAmount);
@@ -1066,57 +898,115 @@ router.post('/generate', authenticate, async (req, res) => {
 
     console.log('✅ Sufficient balance available');
 
-    // Reset PIN attempts on success
-    resetPinAttempts(req.user.userId);
-    console.log('✅ PIN attempts reset');
-
-    // Generate recharge PINs
-    console.log('🎯 Generating recharge PINs...');
-    const pins = [];
-    for (let i = 0; i < qty; i++) {
-   const generatedPin = {
-  pin: Math.random().toString().substr(2, 15), // Just the number, no prefix
-  serial: Math.random().toString().substr(2, 12) // Keep serial as is
-};
-      pins.push(generatedPin);
-      console.log(`Generated PIN ${i + 1}:`, { pin: generatedPin.pin, serial: generatedPin.serial });
-    }
-
     // Create unique transaction reference
     const timestamp = Date.now();
     const random = Math.random().toString(36).substr(2, 12).toUpperCase();
     const reference = `RECHARGE_${timestamp}_${random}`;
     console.log('📋 Transaction reference:', reference);
 
-    // Store previous balance
-    const previousBalance = wallet.balance;
-
-    // Create the PIN description with actual PINs included
-    const pinList = pins.map(p => `PIN: ${p.pin} (Serial: ${p.serial})`).join(' | ');
-    const description = `${network.toUpperCase()} ${type.toUpperCase()} Recharge - ${qty} card(s) x ₦${denomination} = ₦${totalAmount} | ${pinList}`;
-    // Debit wallet with the PIN-inclusive description
-    console.log('💸 Debiting wallet...');
+    // Hold the funds before asking the provider for PINs
+    console.log('💸 Holding wallet funds...');
     let transactionResult;
     try {
-      transactionResult = await wallet.debit(
+      transactionResult = await wallet.hold(
         totalAmount,
-        description,
-        reference
+        `${network.toUpperCase()} ${type.toUpperCase()} Recharge - ${qty} card(s) x ₦${denomination} - awaiting provider`,
+        reference,
+        {
+          gateway: { provider: getVtuProvider().name, gatewayReference: reference },
+          metadata: {
+            service: serviceMetadataFor('print_recharge', { network, plan: `${qty} x ₦${denomination}` }),
+            recharge: { network, cardType: type, denomination, quantity: qty }
+          }
+        }
       );
-      console.log('✅ Wallet debited successfully');
-      console.log('New balance:', transactionResult.wallet.balance);
     } catch (debitError) {
       console.log('❌ Wallet debit failed:', debitError.message);
+      if (debitError.errorCode === 'LIMIT_EXCEEDED') return sendLimitError(res, debitError);
+      if (debitError.errorCode === 'INSUFFICIENT_BALANCE') {
+        return res.status(400).json({
+          success: false,
+          message: debitError.message,
+          error_code: debitError.errorCode
+        });
+      }
       return res.status(500).json({
         success: false,
         message: 'Failed to process payment. Please try again.'
       });
     }
+    const holdTransaction = transactionResult.transaction;
+    markSideEffects(res);
 
-    console.log('✅ Transaction completed successfully');
+    // Generate recharge PINs
+    console.log('🎯 Requesting recharge PINs from provider...');
+    let vend;
+    try {
+      vend = await withProviderTimeout(getVtuProvider().generateRechargePins({
+        network,
+        denomination,
+        quantity: qty,
+        reference
+      }));
+    } catch (providerError) {
+      // Rejected input is a definite failure; a timeout may still deliver PINs
+      vend = providerError.errorCode
+        ? { status: 'failed', message: providerError.message }
+        : { status: 'pending', providerReference: reference, message: providerError.message };
+    }
+
+    if (vend.status !== 'success' && vend.status !== 'failed') {
+      console.log('⏳ PIN generation pending:', vend.message);
+      holdTransaction.set('gateway', {
+        provider: getVtuProvider().name,
+        gatewayReference: vend.providerReference || reference
+      });
+      await holdTransaction.save();
+      return res.status(202).json({
+        success: true,
+        message: 'Your recharge PINs are being generated. We will confirm them shortly.',
+        transaction: {
+          _id: reference,
+          network: network.toUpperCase(),
+          type: type.toUpperCase(),
+          amount: totalAmount,
+          quantity: qty,
+          denomination,
+          status: 'pending',
+          createdAt: new Date(),
+          balanceAfter: transactionResult.wallet.balance
+        },
+        newBalance: {
+          amount: transactionResult.wallet.balance,
+          currency: 'NGN',
+          lastUpdated: new Date().toISOString()
+        }
+      });
+    }
+
+    const pins = vend.details?.pins || [];
+    if (vend.status === 'failed' || pins.length !== qty) {
+      const failureMessage = vend.status === 'success'
+        ? 'Provider returned an incomplete set of PINs'
+        : vend.message || 'Recharge PIN generation failed';
+      console.log('❌ PIN generation failed:', failureMessage);
+      await wallet.releaseHold(holdTransaction, failureMessage);
+      return res.status(400).json({
+        success: false,
+        message: `${failureMessage.replace(/\.?$/, '.')} Your wallet has been refunded.`,
+        reference
+      });
+    }
 
-    // The wallet.debit() method should have already created a transaction
-    // So we don't need to create another one to avoid duplicates
+    // Store the PINs on the ledger row; history parses them from the description
+    holdTransaction.description = rechargePinDescription({ network, cardType: type, denomination, quantity: qty }, pins);
+    holdTransaction.set('gateway', {
+      provider: getVtuProvider().name,
+      gatewayReference: vend.providerReference
+    });
+    await holdTransaction.complete();
+
+    console.log('✅ Transaction completed successfully');
 
     // Prepare response
     const response = {
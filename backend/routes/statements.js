@@ -0,0 +1,146 @@
+// routes/statements.js - Account statements over a date range
+const express = require('express');
+const rateLimit = require('express-rate-limit');
+const router = express.Router();
+const { authenticate } = require('../middleware/auth');
+const { getNotificationSender } = require('../services/notifications');
+const {
+  buildStatement,
+  renderStatementCsv,
+  renderStatementPdf,
+  statementFilename
+} = require('../services/statementService');
+
+// Each email renders the full statement and goes out through the mailer
+const statementEmailLimit = rateLimit({
+  windowMs: 60 * 60 * 1000, // 1 hour
+  max: 5,
+  message: { success: false, message: 'Too many statement requests, please try again later' },
+  standardHeaders: true,
+  legacyHeaders: false,
+});
+
+const FILE_FORMATS = {
+  pdf: { contentType: 'application/pdf', render: renderStatementPdf },
+  csv: { contentType: 'text/csv; charset=utf-8', render: async (statement) => renderStatementCsv(statement) }
+};
+
+// Responds to errors raised by statementService
+const sendStatementError = (res, error, logLabel) => {
+  if (error.errorCode) {
+    return res.status(error.status).json({
+      success: false,
+      message: error.message,
+      error_code: error.errorCode
+    });
+  }
+
+  console.error(`${logLabel}:`, error);
+  res.status(500).json({
+    success: false,
+    message: 'Server error generating statement'
+  });
+};
+
+// @route   GET /api/statements?from=YYYY-MM-DD&to=YYYY-MM-DD&format=json|pdf|csv
+// @desc    Statement with opening balance, every ledger line with its running
+//          balance, closing balance and totals per category. pdf and csv
+//          download as files.
+// @access  Private
+router.get('/', authenticate, async (req, res) => {
+  try {
+    const format = String(req.query.format || 'json').toLowerCase();
+    if (format !== 'json' && !FILE_FORMATS[format]) {
+      return res.status(400).json({
+        success: false,
+        message: 'Statement format must be json, pdf or csv'
+      });
+    }
+
+    const statement = await buildStatement({
+      userId: req.user.userId,
+      from: req.query.from,
+      to: req.query.to
+    });
+
+    if (format === 'json') {
+      return res.json({ success: true, statement });
+    }
+
+    const file = await FILE_FORMATS[format].render(statement);
+    res.set({
+      'Content-Type': FILE_FORMATS[format].contentType,
+      'Content-Length': file.length,
+      'Content-Disposition': `attachment; filename="${statementFilename(statement, format)}"`,
+      'Cache-Control': 'private, no-store'
+    });
+    res.send(file);
+
+  } catch (error) {
+    sendStatementError(res, error, 'Statement error');
+  }
+});
+
+// @route   POST /api/statements/email
+// @desc    Email the statement to the account's address as a PDF or CSV attachment
+// @access  Private
+router.post('/email', authenticate, statementEmailLimit, async (req, res) => {
+  try {
+    const format = String(req.body.format || 'pdf').toLowerCase();
+    if (!FILE_FORMATS[format]) {
+      return res.status(400).json({
+        success: false,
+        message: 'Statement format must be pdf or csv'
+      });
+    }
+
+    const statement = await buildStatement({
+      userId: req.user.userId,
+      from: req.body.from,
+      to: req.body.to
+    });
+
+    const email = statement.account.email;
+    if (!email) {
+      return res.status(400).json({
+        success: false,
+        message: 'Add an email address to your profile to receive statements',
+        error_code: 'EMAIL_REQUIRED'
+      });
+    }
+
+    const from = statement.period.from.toISOString().slice(0, 10);
+    const to = statement.period.to.toISOString().slice(0, 10);
+    const file = await FILE_FORMATS[format].render(statement);
+
+    await getNotificationSender().sendEmail({
+      to: email,
+      subject: `Your ConnectPay statement: ${from} to ${to}`,
+      text: [
+        `Hello ${statement.account.name},`,
+        '',
+        `Your account statement for ${from} to ${to} is attached.`,
+        `Opening balance: ₦${statement.openingBalance.toLocaleString()}`,
+        `Closing balance: ₦${statement.closingBalance.toLocaleString()}`,
+        `Transactions: ${statement.totals.count}`,
+        '',
+        'If you did not request this statement, please contact support.'
+      ].join('\n'),
+      attachments: [{
+        filename: statementFilename(statement, format),
+        content: file,
+        contentType: FILE_FORMATS[format].contentType
+      }]
+    });
+
+    res.json({
+      success: true,
+      message: `Statement sent to ${email}`
+    });
+
+  } catch (error) {
+    sendStatementError(res, error, 'Statement email error');
+  }
+});
+
+module.exports = router;
@@ -0,0 +1,230 @@
+// routes/transactions.js - Unified transaction history across every service
+const express = require('express');
+const router = express.Router();
+const { authenticate } = require('../middleware/auth');
+const User = require('../models/User');
+const Transaction = require('../models/Transaction');
+const { getNotificationSender } = require('../services/notifications');
+const { buildReceipt, renderReceiptPdf } = require('../services/receiptService');
+const {
+  SERVICE_TYPES,
+  HISTORY_LIMITS,
+  historyItem,
+  historyDetail,
+  encodeCursor,
+  buildHistoryQuery
+} = require('../services/historyService');
+
+// @route   GET /api/transactions?serviceType=&category=&status=&from=&to=&minAmount=&maxAmount=&q=&cursor=&limit=
+// @desc    Wallet history, newest first. List filters take comma-separated
+//          values; q searches reference, phone, meter, smartcard and
+//          customer numbers. Pass pageInfo.nextCursor back to get the next page.
+// @access  Private
+router.get('/', authenticate, async (req, res) => {
+  try {
+    const { filter, limit } = buildHistoryQuery(req.user.userId, req.query);
+
+    // One extra row tells us whether another page exists
+    const rows = await Transaction.find(filter)
+      .sort({ createdAt: -1, _id: -1 })
+      .limit(limit + 1);
+
+    const hasMore = rows.length > limit;
+    const page = hasMore ? rows.slice(0, limit) : rows;
+
+    res.json({
+      success: true,
+      transactions: page.map(historyItem),
+      pageInfo: {
+        nextCursor: hasMore ? encodeCursor(page[page.length - 1]) : null,
+        hasMore,
+        limit
+      }
+    });
+
+  } catch (error) {
+    if (error.errorCode) {
+      return res.status(error.status).json({
+        success: false,
+        message: error.message,
+        error_code: error.errorCode
+      });
+    }
+
+    console.error('Transaction history error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error fetching transactions'
+    });
+  }
+});
+
+// @route   GET /api/transactions/filters
+// @desc    Service types the history can be filtered by, for building filter chips
+// @access  Private
+router.get('/filters', authenticate, (req, res) => {
+  res.json({
+    success: true,
+    serviceTypes: Object.entries(SERVICE_TYPES).map(([type, { label }]) => ({ type, label })),
+    limits: HISTORY_LIMITS
+  });
+});
+
+// @route   GET /api/transactions/:reference
+// @desc    A single transaction with recipient, provider response and any tokens or PINs
+// @access  Private
+router.get('/:reference', authenticate, async (req, res) => {
+  try {
+    const transaction = await Transaction.findOne({
+      reference: req.params.reference,
+      userId: req.user.userId
+    });
+
+    if (!transaction) {
+      return res.status(404).json({
+        success: false,
+        message: 'Transaction not found'
+      });
+    }
+
+    res.json({
+      success: true,
+      transaction: historyDetail(transaction)
+    });
+
+  } catch (error) {
+    console.error('Transaction lookup error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error fetching transaction'
+    });
+  }
+});
+
+// @route   GET /api/transactions/:reference/receipt?format=json|pdf
+// @desc    Branded receipt; format=pdf downloads it for sharing as proof of payment
+// @access  Private
+router.get('/:reference/receipt', authenticate, async (req, res) => {
+  try {
+    const format = String(req.query.format || 'json').toLowerCase();
+    if (!['json', 'pdf'].includes(format)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Receipt format must be json or pdf'
+      });
+    }
+
+    const transaction = await Transaction.findOne({
+      reference: req.params.reference,
+      userId: req.user.userId
+    });
+
+    if (!transaction) {
+      return res.status(404).json({
+        success: false,
+        message: 'Transaction not found'
+      });
+    }
+
+    const user = await User.findById(req.user.userId).select('name username email');
+    const receipt = buildReceipt(transaction, user);
+
+    if (format === 'json') {
+      return res.json({ success: true, receipt });
+    }
+
+    const pdf = await renderReceiptPdf(receipt);
+    res.set({
+      'Content-Type': 'application/pdf',
+      'Content-Length': pdf.length,
+      'Content-Disposition': `attachment; filename="ConnectPay-Receipt-${transaction.reference}.pdf"`,
+      'Cache-Control': 'private, no-store'
+    });
+    res.send(pdf);
+
+  } catch (error) {
+    console.error('Transaction receipt error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error generating receipt'
+    });
+  }
+});
+
+// @route   POST /api/transactions/:reference/report
+// @desc    Report a problem with a transaction; support is emailed the details
+// @access  Private
+router.post('/:reference/report', authenticate, async (req, res) => {
+  try {
+    const message = String(req.body.message || '').trim();
+    if (message.length < 10 || message.length > 1000) {
+      return res.status(400).json({
+        success: false,
+        message: 'Please describe the problem in 10 to 1000 characters'
+      });
+    }
+
+    const transaction = await Transaction.findOne({
+      reference: req.params.reference,
+      userId: req.user.userId
+    });
+
+    if (!transaction) {
+      return res.status(404).json({
+        success: false,
+        message: 'Transaction not found'
+      });
+    }
+
+    if (transaction.metadata?.issue?.reportedAt) {
+      return res.status(409).json({
+        success: false,
+        message: 'You have already reported this transaction. Support will contact you.',
+        error_code: 'ISSUE_ALREADY_REPORTED'
+      });
+    }
+
+    const supportEmail = process.env.SUPPORT_EMAIL;
+    if (!supportEmail) {
+      console.error('Transaction issue report: SUPPORT_EMAIL is not configured');
+      return res.status(503).json({
+        success: false,
+        message: 'Issue reporting is unavailable right now. Please try again later.'
+      });
+    }
+
+    const user = await User.findById(req.user.userId).select('email username');
+    const item = historyItem(transaction);
+    await getNotificationSender().sendEmail({
+      to: supportEmail,
+      subject: `Transaction issue: ${transaction.reference}`,
+      text: [
+        `User: ${user?.username || req.user.userId} <${user?.email || 'unknown'}>`,
+        `Reference: ${transaction.reference}`,
+        `Service: ${item.service.label}${item.service.provider ? ` (${item.service.provider})` : ''}`,
+        `Amount: ₦${transaction.amount} ${item.direction}, status ${transaction.status}`,
+        `Date: ${transaction.createdAt.toISOString()}`,
+        '',
+        message
+      ].join('\n')
+    });
+
+    transaction.set('metadata.issue', { message, reportedAt: new Date() });
+    await transaction.save();
+
+    res.json({
+      success: true,
+      message: 'Thanks, support has your report and will get back to you.',
+      transaction: historyDetail(transaction)
+    });
+
+  } catch (error) {
+    console.error('Transaction issue report error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error reporting issue'
+    });
+  }
+});
+
+module.exports = router;
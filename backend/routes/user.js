@@ -2,6 +2,7 @@ const express = require("express");
 const bcrypt = require("bcryptjs");
 const User = require("../models/User");
 const { authenticate } = require("../middleware/auth"); // your JWT auth middleware
+const { revokeAllSessions } = require("../services/sessionService");
 
 const router = express.Router();
 
@@ -32,6 +33,9 @@ router.put("/change-password", authenticate, async (req, res) => {
     user.password = newPassword;
     await user.save();
 
+    // Sign out every other device; this one keeps its session
+    await revokeAllSessions(user._id, "password_changed", { exceptSessionId: req.user.sessionId });
+
     console.log(`✅ Password updated for user: ${user.email}`);
 
     res.status(200).json({ success: true, message: "Password updated successfully" });
@@ -0,0 +1,61 @@
+// routes/virtualAccounts.js - Reserved bank accounts for wallet funding
+const express = require('express');
+const router = express.Router();
+const { authenticate } = require('../middleware/auth');
+const VirtualAccount = require('../models/VirtualAccount');
+const { getCollectionProvider } = require('../services/collections');
+const { getOrReserveAccount, virtualAccountSummary } = require('../services/virtualAccountService');
+
+// @route   GET /api/virtual-accounts
+// @desc    The user's reserved accounts and the banks one can be reserved at
+// @access  Private
+router.get('/', authenticate, async (req, res) => {
+  try {
+    const accounts = await VirtualAccount.find({ userId: req.user.userId, isActive: true });
+
+    res.json({
+      success: true,
+      accounts: accounts.map(virtualAccountSummary),
+      supportedBanks: getCollectionProvider().supportedBanks
+    });
+
+  } catch (error) {
+    console.error('Virtual account list error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error fetching virtual accounts'
+    });
+  }
+});
+
+// @route   POST /api/virtual-accounts
+// @desc    Get (reserving on first use) the user's account at a bank
+// @access  Private
+router.post('/', authenticate, async (req, res) => {
+  try {
+    const account = await getOrReserveAccount(req.user.userId, req.body.bank);
+
+    res.json({
+      success: true,
+      message: 'Transfer any amount to this account to fund your wallet',
+      account: virtualAccountSummary(account)
+    });
+
+  } catch (error) {
+    if (error.errorCode) {
+      return res.status(error.status).json({
+        success: false,
+        message: error.message,
+        error_code: error.errorCode
+      });
+    }
+
+    console.error('Virtual account reserve error:', error.message);
+    res.status(502).json({
+      success: false,
+      message: 'Unable to set up your funding account right now. Please try again.'
+    });
+  }
+});
+
+module.exports = router;
@@ -3,7 +3,50 @@ const router = express.Router();
 const User = require('../models/User');
 const Wallet = require('../models/Wallet');
 const Transaction = require('../models/Transaction');
-const { authenticate } = require('../middleware/auth');
+const { authenticate, requireVerifiedPhone } = require('../middleware/auth');
+const { idempotency, markSideEffects } = require('../middleware/idempotency');
+const { verifyTransactionPin, pinAuditContext } = require('../services/pinService');
+const { assertWithinLimits, getLimitUsage } = require('../services/limitsService');
+
+const MAX_TRANSFER_AMOUNT = 500000;
+
+// Responds to LIMIT_EXCEEDED from limitsService with the remaining headroom
+const sendLimitError = (res, error) => res.status(error.status).json({
+  success: false,
+  message: error.message,
+  error_code: error.errorCode,
+  limit: error.limit,
+  usage: error.usage
+});
+
+// Public details shown to the sender before they confirm a transfer
+const recipientSummary = (user) => ({
+  id: user._id,
+  name: user.name,
+  username: user.username,
+  phone: user.phone ? `${user.phone.slice(0, 4)}****${user.phone.slice(-3)}` : undefined
+});
+
+// Receipt for one side of a transfer, built from its ledger row
+const transferReceipt = (transaction) => {
+  const details = transaction.metadata?.transfer || {};
+  const isSender = transaction.type === 'transfer_out';
+
+  return {
+    reference: transaction.reference.replace(/_IN$/, ''),
+    direction: isSender ? 'sent' : 'received',
+    amount: transaction.amount,
+    narration: details.narration,
+    status: transaction.status,
+    counterparty: isSender
+      ? { name: details.recipientName, username: details.recipientUsername }
+      : { name: details.senderName, username: details.senderUsername },
+    transactionId: transaction._id,
+    relatedTransactionId: transaction.relatedTransactionId,
+    balanceAfter: transaction.newBalance,
+    createdAt: transaction.createdAt
+  };
+};
 
 // GET /api/wallet/balance - Get current wallet balance
 router.get('/wallet/balance', authenticate, async (req, res) => {
@@ -43,57 +86,6 @@ router.get('/wallet/balance', authenticate, async (req, res) => {
   }
 });
 
-// POST /api/wallet/fund - Manual wallet funding
-router.post('/wallet/fund', authenticate, async (req, res) => {
-  try {
-    const { amount, description } = req.body;
-
-    // Validate amount
-    if (!amount || isNaN(amount) || amount <= 0) {
-      return res.status(400).json({ 
-        success: false, 
-        message: 'Invalid amount. Please enter a valid positive number.' 
-      });
-    }
-
-    if (amount > 1000000) {
-      return res.status(400).json({ 
-        success: false, 
-        message: 'Amount cannot exceed ₦1,000,000' 
-      });
-    }
-
-    // Find or create wallet
-    let wallet = await Wallet.findByUserId(req.user.userId);
-    if (!wallet) {
-      wallet = await Wallet.createForUser(req.user.userId);
-    }
-
-    // Credit wallet using wallet method
-    const result = await wallet.credit(
-      Number(amount), 
-      description || `Manual wallet funding: ₦${Number(amount).toLocaleString()}`
-    );
-
-    console.log(`Wallet funded: ${wallet.userId} - ₦${amount}`);
-
-    res.json({
-      success: true,
-      message: `Wallet funded successfully! ₦${Number(amount).toLocaleString()} added to your account.`,
-      balance: result.wallet.balance,
-      formattedBalance: result.wallet.formattedBalance,
-      transaction: result.transaction
-    });
-
-  } catch (error) {
-    console.error('Fund wallet error:', error);
-    res.status(500).json({ 
-      success: false, 
-      message: error.message || 'Server error occurred while funding wallet' 
-    });
-  }
-});
-
 // POST /api/wallet/debit - Debit from wallet
 router.post('/wallet/debit', authenticate, async (req, res) => {
   try {
@@ -115,6 +107,14 @@ router.post('/wallet/debit', authenticate, async (req, res) => {
       });
     }
 
+    const user = await User.findById(req.user.userId);
+    try {
+      await assertWithinLimits(user, wallet, Number(amount));
+    } catch (limitError) {
+      if (!limitError.errorCode) throw limitError;
+      return sendLimitError(res, limitError);
+    }
+
     // Debit wallet using wallet method
     const result = await wallet.debit(
       Number(amount), 
@@ -209,40 +209,107 @@ router.get('/wallet/transactions', authenticate, async (req, res) => {
   }
 });
 
+// GET /api/wallet/recipient?query= - Look up a transfer recipient by username, phone or email
+router.get('/wallet/recipient', authenticate, async (req, res) => {
+  try {
+    const query = String(req.query.query || '').trim();
+    if (!query) {
+      return res.status(400).json({
+        success: false,
+        message: 'Enter a username, phone number or email'
+      });
+    }
+
+    const recipient = await User.findByTransferHandle(query);
+
+    if (!recipient || !recipient.isActive) {
+      return res.status(404).json({
+        success: false,
+        message: 'No ConnectPay user found with that username, phone or email',
+        error_code: 'RECIPIENT_NOT_FOUND'
+      });
+    }
+
+    if (recipient._id.toString() === req.user.userId) {
+      return res.status(400).json({
+        success: false,
+        message: 'Cannot transfer to yourself',
+        error_code: 'SELF_TRANSFER'
+      });
+    }
+
+    res.json({
+      success: true,
+      recipient: recipientSummary(recipient)
+    });
+
+  } catch (error) {
+    console.error('Recipient lookup error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error looking up recipient'
+    });
+  }
+});
+
 // POST /api/wallet/transfer - Transfer to another user
-router.post('/wallet/transfer', authenticate, async (req, res) => {
+// Body: { recipient (username, phone or email) | recipientEmail, amount, description?, pin }
+// Requires a verified phone number
+router.post('/wallet/transfer', authenticate, requireVerifiedPhone, idempotency, async (req, res) => {
   try {
-    const { recipientEmail, amount, description } = req.body;
+    const { recipientEmail, description, pin } = req.body;
+    const recipientHandle = req.body.recipient || recipientEmail;
+    const amount = Number(req.body.amount);
 
     // Validation
-    if (!recipientEmail || !amount || isNaN(amount) || amount <= 0) {
+    if (!recipientHandle || !Number.isFinite(amount) || amount <= 0) {
       return res.status(400).json({ 
         success: false, 
-        message: 'Please provide valid recipient email and amount' 
+        message: 'Please provide a valid recipient and amount' 
       });
     }
 
-    if (amount > 500000) {
+    if (amount > MAX_TRANSFER_AMOUNT) {
       return res.status(400).json({ 
         success: false, 
-        message: 'Transfer amount cannot exceed ₦500,000' 
+        message: `Transfer amount cannot exceed ₦${MAX_TRANSFER_AMOUNT.toLocaleString()}` 
+      });
+    }
+
+    if (!pin || !/^\d{4}$/.test(String(pin))) {
+      return res.status(400).json({
+        success: false,
+        message: 'Transaction PIN must be exactly 4 digits'
       });
     }
 
     // Find sender and recipient
-    const sender = await User.findById(req.user.userId);
-    const recipient = await User.findOne({ email: recipientEmail.toLowerCase() });
+    const sender = await User.findById(req.user.userId).select('+pin');
+    const recipient = await User.findByTransferHandle(recipientHandle);
 
     if (!sender) {
       return res.status(404).json({ success: false, message: 'Sender not found' });
     }
 
-    if (!recipient) {
-      return res.status(404).json({ success: false, message: 'Recipient not found' });
+    if (!recipient || !recipient.isActive) {
+      return res.status(404).json({ success: false, message: 'Recipient not found', error_code: 'RECIPIENT_NOT_FOUND' });
     }
 
     if (sender._id.toString() === recipient._id.toString()) {
-      return res.status(400).json({ success: false, message: 'Cannot transfer to yourself' });
+      return res.status(400).json({ success: false, message: 'Cannot transfer to yourself', error_code: 'SELF_TRANSFER' });
+    }
+
+    try {
+      await verifyTransactionPin(sender, pin, pinAuditContext(req, 'transfer'));
+    } catch (pinError) {
+      if (!pinError.errorCode) throw pinError;
+      return res.status(pinError.status).json({
+        success: false,
+        message: pinError.message,
+        error_code: pinError.errorCode,
+        attemptsRemaining: pinError.attemptsRemaining,
+        lockedUntil: pinError.lockedUntil
+      });
     }
 
     // Get wallets
@@ -253,40 +320,99 @@ router.post('/wallet/transfer', authenticate, async (req, res) => {
       return res.status(404).json({ success: false, message: 'Sender wallet not found' });
     }
 
+    try {
+      await assertWithinLimits(sender, senderWallet, amount);
+    } catch (limitError) {
+      if (!limitError.errorCode) throw limitError;
+      return sendLimitError(res, limitError);
+    }
+
     // Create recipient wallet if doesn't exist
     if (!recipientWallet) {
       recipientWallet = await Wallet.createForUser(recipient._id);
     }
 
+    const narration = description ? String(description).trim().slice(0, 100) : undefined;
+
     // Perform transfer using wallet method
     const result = await senderWallet.transfer(
       recipientWallet, 
-      Number(amount),
-      description || `Transfer to ${recipient.name}`
+      amount,
+      `Transfer to ${recipient.name}${narration ? ` - ${narration}` : ''}`,
+      {
+        recipientDescription: `Transfer from ${sender.name}${narration ? ` - ${narration}` : ''}`,
+        metadata: {
+          source: 'p2p_transfer',
+          transfer: {
+            senderId: sender._id,
+            senderName: sender.name,
+            senderUsername: sender.username,
+            recipientId: recipient._id,
+            recipientName: recipient.name,
+            recipientUsername: recipient.username,
+            narration
+          }
+        }
+      }
     );
 
+    markSideEffects(res);
     console.log(`Transfer: ${sender.name} → ${recipient.name}: ₦${amount}`);
 
     res.json({
       success: true,
-      message: `₦${Number(amount).toLocaleString()} transferred successfully to ${recipient.name}`,
+      message: `₦${amount.toLocaleString()} transferred successfully to ${recipient.name}`,
       transfer: {
-        amount: Number(amount),
+        amount,
         recipient: {
           name: recipient.name,
+          username: recipient.username,
           email: recipient.email
         },
         reference: result.reference,
         newBalance: senderWallet.balance,
         formattedBalance: senderWallet.formattedBalance
-      }
+      },
+      receipt: transferReceipt(result.debitTransaction)
     });
 
   } catch (error) {
     console.error('Transfer error:', error);
-    res.status(400).json({ 
+    res.status(error.status || 400).json({ 
       success: false, 
-      message: error.message || 'Server error occurred during transfer' 
+      message: error.message || 'Server error occurred during transfer',
+      error_code: error.errorCode
+    });
+  }
+});
+
+// GET /api/wallet/transfers/:reference - Transfer receipt for the sender or the recipient
+router.get('/wallet/transfers/:reference', authenticate, async (req, res) => {
+  try {
+    const reference = req.params.reference.replace(/_IN$/, '');
+    const transaction = await Transaction.findOne({
+      userId: req.user.userId,
+      reference: { $in: [reference, `${reference}_IN`] },
+      type: { $in: ['transfer_out', 'transfer_in'] }
+    });
+
+    if (!transaction) {
+      return res.status(404).json({
+        success: false,
+        message: 'Transfer not found'
+      });
+    }
+
+    res.json({
+      success: true,
+      receipt: transferReceipt(transaction)
+    });
+
+  } catch (error) {
+    console.error('Get transfer receipt error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error fetching transfer receipt'
     });
   }
 });
@@ -340,6 +466,36 @@ router.get('/wallet/stats', authenticate, async (req, res) => {
   }
 });
 
+// GET /api/wallet/limits - Per-transaction, daily and monthly limits with what's left of each
+router.get('/wallet/limits', authenticate, async (req, res) => {
+  try {
+    const [user, wallet] = await Promise.all([
+      User.findById(req.user.userId),
+      Wallet.findByUserId(req.user.userId)
+    ]);
+
+    if (!user || !wallet) {
+      return res.status(404).json({
+        success: false,
+        message: 'Wallet not found'
+      });
+    }
+
+    res.set('Cache-Control', 'private, no-store');
+    res.json({
+      success: true,
+      limits: await getLimitUsage(user, wallet)
+    });
+
+  } catch (error) {
+    console.error('Get wallet limits error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error fetching wallet limits'
+    });
+  }
+});
+
 // POST /api/wallet/create - Create wallet for user (if needed)
 router.post('/wallet/create', authenticate, async (req, res) => {
   try {
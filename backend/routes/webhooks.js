@@ -0,0 +1,67 @@
+// routes/webhooks.js - Provider callbacks (no user auth; requests are signed)
+const express = require('express');
+const router = express.Router();
+const { getCollectionProvider } = require('../services/collections');
+const { creditInboundPayment } = require('../services/virtualAccountService');
+
+// @route   POST /api/webhooks/virtual-account
+// @desc    Inbound transfer to a reserved account; credits the owner's wallet
+// @access  Provider (signature checked)
+router.post('/virtual-account', async (req, res) => {
+  let provider;
+  try {
+    provider = getCollectionProvider();
+  } catch (error) {
+    console.error('Virtual account webhook rejected:', error.message);
+    return res.status(503).json({
+      success: false,
+      message: 'Collections are not configured'
+    });
+  }
+
+  if (!provider.verifyWebhook(req)) {
+    console.warn('Rejected virtual account webhook with invalid signature');
+    return res.status(401).json({
+      success: false,
+      message: 'Invalid signature'
+    });
+  }
+
+  const payment = provider.parseWebhook(req.body);
+  if (!payment) {
+    return res.json({ success: true, message: 'Event ignored' });
+  }
+
+  if (!payment.providerReference || !Number.isFinite(payment.amount) || payment.amount <= 0) {
+    return res.status(400).json({
+      success: false,
+      message: 'Invalid payment payload'
+    });
+  }
+
+  try {
+    const result = await creditInboundPayment(payment, provider.name);
+
+    if (result.status === 'unknown_account') {
+      // Acknowledge so the provider stops retrying; this needs manual follow-up
+      console.error(`Inbound payment ${payment.providerReference} for unknown account ${payment.accountNumber}`);
+    } else {
+      console.log(`Virtual account payment ${payment.providerReference}: ${result.status}`);
+    }
+
+    res.json({
+      success: true,
+      message: `Payment ${result.status.replace('_', ' ')}`
+    });
+
+  } catch (error) {
+    // A non-2xx makes the provider retry, which is safe thanks to the dedupe
+    console.error('Virtual account webhook error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error processing payment'
+    });
+  }
+});
+
+module.exports = router;
@@ -0,0 +1,265 @@
+// routes/withdrawals.js - Bank payouts from the wallet
+const express = require('express');
+const rateLimit = require('express-rate-limit');
+const router = express.Router();
+const { authenticate, requireVerifiedPhone } = require('../middleware/auth');
+const { idempotency, markSideEffects } = require('../middleware/idempotency');
+const User = require('../models/User');
+const Wallet = require('../models/Wallet');
+const Transaction = require('../models/Transaction');
+const { verifyTransactionPin, pinAuditContext } = require('../services/pinService');
+const { assertWithinLimits } = require('../services/limitsService');
+const {
+  WITHDRAWAL_LIMITS,
+  payoutProvider,
+  calculateWithdrawalFee,
+  resolveBankAccount,
+  createWithdrawal,
+  refreshWithdrawal,
+  withdrawalSummary
+} = require('../services/withdrawalService');
+
+// Account enquiries hit the bank network, so keep them bounded per client
+const accountLookupLimit = rateLimit({
+  windowMs: 15 * 60 * 1000, // 15 minutes
+  max: 30,
+  message: { success: false, message: 'Too many account lookups, please try again later' },
+  standardHeaders: true,
+  legacyHeaders: false,
+});
+
+// Responds to errors raised by withdrawalService / pinService / limitsService
+const sendServiceError = (res, error) => res.status(error.status || 400).json({
+  success: false,
+  message: error.message,
+  error_code: error.errorCode,
+  attemptsRemaining: error.attemptsRemaining,
+  lockedUntil: error.lockedUntil,
+  limit: error.limit,
+  usage: error.usage
+});
+
+const balanceSummary = (wallet) => ({
+  mainBalance: wallet.balance,
+  bonusBalance: 0,
+  totalBalance: wallet.balance
+});
+
+// @route   GET /api/withdrawals/banks
+// @desc    List banks that can receive payouts
+// @access  Private
+router.get('/banks', authenticate, async (req, res) => {
+  try {
+    const banks = await payoutProvider().listBanks();
+
+    res.set('Cache-Control', 'private, max-age=3600');
+    res.json({
+      success: true,
+      message: 'Banks retrieved',
+      data: banks,
+      count: banks.length
+    });
+
+  } catch (error) {
+    if (error.errorCode) return sendServiceError(res, error);
+
+    console.error('Bank list error:', error.message);
+    res.status(502).json({
+      success: false,
+      message: 'Unable to load banks right now. Please try again.'
+    });
+  }
+});
+
+// @route   POST /api/withdrawals/resolve-account
+// @desc    Look up the account name for a NUBAN account number
+// @access  Private
+router.post('/resolve-account', authenticate, accountLookupLimit, async (req, res) => {
+  try {
+    const { bankCode, accountNumber } = req.body;
+    const account = await resolveBankAccount(bankCode, accountNumber);
+
+    res.json({
+      success: true,
+      message: 'Account verified',
+      data: account
+    });
+
+  } catch (error) {
+    if (error.errorCode) return sendServiceError(res, error);
+
+    console.error('Account resolve error:', error.message);
+    res.status(502).json({
+      success: false,
+      message: 'Unable to verify account right now. Please try again.'
+    });
+  }
+});
+
+// @route   GET /api/withdrawals/fee?amount=
+// @desc    Fee and total debit for a withdrawal amount
+// @access  Private
+router.get('/fee', authenticate, (req, res) => {
+  const amount = Number(req.query.amount);
+  if (!Number.isFinite(amount) || amount <= 0) {
+    return res.status(400).json({
+      success: false,
+      message: 'Provide a valid amount'
+    });
+  }
+
+  const fee = calculateWithdrawalFee(amount);
+  res.json({
+    success: true,
+    amount,
+    fee,
+    totalDebit: amount + fee,
+    limits: { min: WITHDRAWAL_LIMITS.MIN, max: WITHDRAWAL_LIMITS.MAX }
+  });
+});
+
+// @route   POST /api/withdrawals
+// @desc    Withdraw from the wallet to a bank account
+// @access  Private (verified phone)
+router.post('/', authenticate, requireVerifiedPhone, idempotency, async (req, res) => {
+  try {
+    const { bankCode, accountNumber, narration, pin } = req.body;
+    const amount = Number(req.body.amount);
+
+    if (!bankCode || !accountNumber || !amount) {
+      return res.status(400).json({
+        success: false,
+        message: 'Missing required fields: bankCode, accountNumber, amount'
+      });
+    }
+
+    if (!pin || !/^\d{4}$/.test(String(pin))) {
+      return res.status(400).json({
+        success: false,
+        message: 'Transaction PIN must be exactly 4 digits'
+      });
+    }
+
+    // Refuse before the PIN or the wallet is touched when payouts are not configured
+    payoutProvider();
+
+    const user = await User.findById(req.user.userId).select('+pin');
+    const wallet = await Wallet.findOne({ userId: req.user.userId });
+
+    if (!user || !wallet) {
+      return res.status(404).json({
+        success: false,
+        message: 'User or wallet not found'
+      });
+    }
+
+    await verifyTransactionPin(user, pin, pinAuditContext(req, 'withdrawal'));
+    await assertWithinLimits(user, wallet, amount);
+
+    const { transaction, message } = await createWithdrawal({ wallet, amount, bankCode, accountNumber, narration });
+    markSideEffects(res);
+    const withdrawal = withdrawalSummary(transaction);
+
+    if (transaction.status === 'pending') {
+      return res.status(202).json({
+        success: true,
+        message: 'Your withdrawal is being processed. We will confirm it shortly.',
+        withdrawal,
+        newBalance: balanceSummary(wallet)
+      });
+    }
+
+    if (transaction.status === 'completed') {
+      return res.json({
+        success: true,
+        message: `₦${amount.toLocaleString()} sent to ${withdrawal.bank.accountName}`,
+        withdrawal,
+        newBalance: balanceSummary(wallet)
+      });
+    }
+
+    res.status(400).json({
+      success: false,
+      message: `${(message || 'Withdrawal failed').replace(/\.?$/, '.')} Your wallet has been refunded.`,
+      withdrawal,
+      newBalance: balanceSummary(wallet)
+    });
+
+  } catch (error) {
+    if (error.errorCode) return sendServiceError(res, error);
+
+    console.error('Withdrawal error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error processing withdrawal'
+    });
+  }
+});
+
+// @route   GET /api/withdrawals
+// @desc    Recent withdrawals for the current user
+// @access  Private
+router.get('/', authenticate, async (req, res) => {
+  try {
+    const limit = Math.min(parseInt(req.query.limit, 10) || 20, 100);
+    const transactions = await Transaction.find({ userId: req.user.userId, category: 'withdrawal' })
+      .sort({ createdAt: -1 })
+      .limit(limit);
+
+    res.json({
+      success: true,
+      withdrawals: transactions.map(withdrawalSummary)
+    });
+
+  } catch (error) {
+    console.error('Withdrawal list error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error fetching withdrawals'
+    });
+  }
+});
+
+// @route   GET /api/withdrawals/:reference
+// @desc    Withdrawal status; pending payouts are requeried with the provider
+// @access  Private
+router.get('/:reference', authenticate, async (req, res) => {
+  try {
+    const transaction = await Transaction.findOne({
+      reference: req.params.reference,
+      userId: req.user.userId,
+      category: 'withdrawal'
+    });
+
+    if (!transaction) {
+      return res.status(404).json({
+        success: false,
+        message: 'Withdrawal not found'
+      });
+    }
+
+    if (transaction.status === 'pending') {
+      try {
+        const wallet = await Wallet.findById(transaction.walletId);
+        await refreshWithdrawal(wallet, transaction);
+      } catch (providerError) {
+        // Report the stored status; the next poll will try the provider again
+        console.error(`Withdrawal ${transaction.reference} status check failed:`, providerError.message);
+      }
+    }
+
+    res.json({
+      success: true,
+      withdrawal: withdrawalSummary(transaction)
+    });
+
+  } catch (error) {
+    console.error('Withdrawal status error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error fetching withdrawal'
+    });
+  }
+});
+
+module.exports = router;
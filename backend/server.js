@@ -11,6 +11,7 @@ const walletRoutes = require('./routes/wallet');
 const purchaseRoutes = require('./routes/purchase');
 const dataRoutes = require('./routes/dataplan'); 
 const cableRoutes = require('./routes/cabletv')
+const { startPendingPurchaseSweep } = require('./services/purchaseSettlementService');
 
 
 const app = express();
@@ -33,12 +34,16 @@ app.use(limiter);
 app.use(cors({
   origin: ['http://localhost:3000', 'http://localhost:8081', 'exp://localhost:19000', 'http://localhost:19006'],
   methods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
-  allowedHeaders: ['Content-Type', 'Authorization'],
+  allowedHeaders: ['Content-Type', 'Authorization', 'Idempotency-Key'],
   credentials: true
 }));
 
 // Body parsing middleware
-app.use(express.json({ limit: '10mb' }));
+app.use(express.json({
+  limit: '10mb',
+  // Webhook signatures are computed over the exact bytes received
+  verify: (req, res, buf) => { req.rawBody = buf; }
+}));
 app.use(express.urlencoded({ extended: true }));
 
 // Connect to MongoDB
@@ -46,7 +51,11 @@ mongoose.connect(process.env.MONGO_URI, {
   useNewUrlParser: true,
   useUnifiedTopology: true,
 })
-.then(() => console.log('Connected to MongoDB'))
+.then(() => {
+  console.log('Connected to MongoDB');
+  // Settles purchases left pending by provider timeouts
+  startPendingPurchaseSweep();
+})
 .catch(err => {
   console.error('MongoDB connection error:', err.message);
   process.exit(1);
@@ -72,6 +81,17 @@ app.use('/api', cableRoutes);
 app.use('/api/recharge', purchaseRoutes);
 app.use('/api/airtime', require('./routes/airtime'));
 app.use('/api/betting', require('./routes/betting'));
+app.use('/api/electricity', require('./routes/electricity'));
+app.use('/api/transactions', require('./routes/transactions'));
+app.use('/api/statements', require('./routes/statements'));
+app.use('/api/kyc', require('./routes/kyc'));
+app.use('/api/biometrics', require('./routes/biometrics'));
+app.use('/api/devices', require('./routes/devices'));
+app.use('/api/withdrawals', require('./routes/withdrawals'));
+app.use('/api/virtual-accounts', require('./routes/virtualAccounts'));
+app.use('/api/card-payments', require('./routes/cardPayments'));
+app.use('/api/webhooks', require('./routes/webhooks'));
+app.use('/api/admin', require('./routes/admin'));
 
 // Health check endpoint
 app.get('/api/health', (req, res) => {
@@ -1,49 +1,41 @@
-// Copy your existing processFundBettingPurchase function here
-async function processFundBettingPurchase({ provider, customerId, customerName, amount, userId }) {
+const { getVtuProvider, toPurchaseResult } = require('./vtu');
+
+// Rejects a request before the provider is contacted
+const bettingInputError = (message) => {
+  const error = new Error(message);
+  error.errorCode = 'INVALID_PURCHASE';
+  error.status = 400;
+  return error;
+};
+
+async function processFundBettingPurchase({ provider, customerId, customerName, amount, reference }) {
   // Validate betting fields
   if (!provider || !customerId) {
-    throw new Error('Missing required fields: provider, customerId');
+    throw bettingInputError('Missing required fields: provider, customerId');
   }
 
   const validProviders = ['bet9ja', 'sportybet', 'nairabet', 'betway', '1xbet', 'betking', 'merrybet'];
   if (!validProviders.includes(provider)) {
-    throw new Error('Invalid betting provider');
+    throw bettingInputError('Invalid betting provider');
   }
 
-  // Simulate API call
-  await new Promise(resolve => setTimeout(resolve, 2000));
+  const requestId = reference || `BET_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+  const vend = await getVtuProvider().fundBetting({ provider, customerId, amount, reference: requestId });
 
-  const reference = `BET_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-  const isSuccessful = Math.random() > 0.1; // 90% success rate
-
-  if (isSuccessful) {
-    return {
-      success: true,
-      reference,
-      description: `Betting Fund - ${provider.toUpperCase()} - ${customerId}`,
-      successMessage: 'Betting account funded successfully',
-      transactionData: {
-        provider: provider.toUpperCase(),
-        customerId,
-        customerName,
-        serviceType: 'fund_betting'
-      }
-    };
-  } else {
-    return {
-      success: false,
-      reference,
-      errorMessage: 'Betting service temporarily unavailable. Please try again.',
-      transactionData: {
-        provider: provider.toUpperCase(),
-        customerId,
-        customerName,
-        serviceType: 'fund_betting'
-      }
-    };
-  }
+  return toPurchaseResult(vend, {
+    reference: requestId,
+    description: `Betting Fund - ${provider.toUpperCase()} - ${customerId}`,
+    successMessage: 'Betting account funded successfully',
+    failureMessage: 'Betting service temporarily unavailable. Please try again.',
+    transactionData: {
+      provider: provider.toUpperCase(),
+      customerId,
+      customerName,
+      serviceType: 'fund_betting'
+    }
+  });
 }
 
 module.exports = {
   processFundBettingPurchase
-};
\ No newline at end of file
+};
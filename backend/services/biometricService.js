@@ -0,0 +1,207 @@
+const crypto = require('crypto');
+const BiometricDevice = require('../models/BiometricDevice');
+const BiometricChallenge = require('../models/BiometricChallenge');
+const { verifyTransactionPin } = require('./pinService');
+
+const MAX_ACTIVE_DEVICES = 5;
+// Debits that accept a signed challenge instead of the PIN
+const BIOMETRIC_ACTIONS = ['purchase'];
+const CHALLENGE_TTL_MS = 2 * 60 * 1000; // 2 minutes
+const ED25519_KEY_BYTES = 32;
+const ED25519_SIGNATURE_BYTES = 64;
+
+const biometricError = (message, errorCode, status = 400) => {
+  const error = new Error(message);
+  error.errorCode = errorCode;
+  error.status = status;
+  return error;
+};
+
+// The exact bytes the app signs: everything the server will check, so a
+// signature can't be replayed for a different transaction
+const challengePayload = (challenge) =>
+  ['connectpay-biometric', 'v1', challenge._id, challenge.nonce, challenge.action, challenge.amount].join(':');
+
+const decodeBase64 = (value, expectedBytes) => {
+  if (typeof value !== 'string' || !/^[A-Za-z0-9+/]+={0,2}$/.test(value)) return null;
+  const bytes = Buffer.from(value, 'base64');
+  return bytes.length === expectedBytes ? bytes : null;
+};
+
+const toPublicKeyObject = (rawKey) =>
+  crypto.createPublicKey({ key: { kty: 'OKP', crv: 'Ed25519', x: rawKey.toString('base64url') }, format: 'jwk' });
+
+const deviceSummary = (device) => ({
+  id: device._id,
+  deviceId: device.deviceId,
+  deviceName: device.deviceName,
+  platform: device.platform,
+  enrolledAt: device.createdAt,
+  lastUsedAt: device.lastUsedAt
+});
+
+function listDevices(userId) {
+  return BiometricDevice.find({ userId, revokedAt: null }).sort({ createdAt: -1 });
+}
+
+// Registers (or re-registers) this device's public key. The transaction PIN
+// is required so a stolen session alone can't enroll a new device.
+// `user` must be loaded with .select('+pin').
+async function enrollDevice(user, { deviceId, deviceName, platform, publicKey, pin }, context) {
+  if (!deviceId || typeof deviceId !== 'string') {
+    throw biometricError('Device ID is required', 'DEVICE_ID_REQUIRED');
+  }
+
+  const rawKey = decodeBase64(publicKey, ED25519_KEY_BYTES);
+  if (!rawKey) {
+    throw biometricError('Public key must be a base64 Ed25519 key', 'INVALID_PUBLIC_KEY');
+  }
+
+  await verifyTransactionPin(user, pin, context);
+
+  const existing = await BiometricDevice.findOne({ userId: user._id, deviceId, revokedAt: null });
+  if (existing) {
+    existing.revokedAt = new Date();
+    existing.revokedReason = 'replaced';
+    await existing.save();
+  } else if (await BiometricDevice.countDocuments({ userId: user._id, revokedAt: null }) >= MAX_ACTIVE_DEVICES) {
+    throw biometricError(
+      `You can use biometrics on up to ${MAX_ACTIVE_DEVICES} devices. Remove one in Security settings first.`,
+      'DEVICE_LIMIT_REACHED',
+      409
+    );
+  }
+
+  const device = await BiometricDevice.create({
+    userId: user._id,
+    deviceId,
+    deviceName,
+    platform,
+    publicKey: rawKey.toString('base64')
+  });
+
+  console.log(`🔐 Biometric device enrolled for user ${user._id}: ${device._id}`);
+  return device;
+}
+
+async function revokeDevice(userId, id, reason = 'user') {
+  const device = await BiometricDevice.findOneAndUpdate(
+    { _id: id, userId, revokedAt: null },
+    { $set: { revokedAt: new Date(), revokedReason: reason } },
+    { new: true }
+  );
+  if (!device) {
+    throw biometricError('Device not found', 'DEVICE_NOT_FOUND', 404);
+  }
+  return device;
+}
+
+// Revokes every key, e.g. after the PIN has been reset
+function revokeAllDevices(userId, reason) {
+  return BiometricDevice.updateMany(
+    { userId, revokedAt: null },
+    { $set: { revokedAt: new Date(), revokedReason: reason } }
+  );
+}
+
+// Revokes the key enrolled on one device, e.g. when the device is removed
+// from the account
+function revokeDeviceKeys(userId, deviceId, reason) {
+  return BiometricDevice.updateMany(
+    { userId, deviceId, revokedAt: null },
+    { $set: { revokedAt: new Date(), revokedReason: reason } }
+  );
+}
+
+// Issues a nonce for one transaction on an enrolled device
+async function issueChallenge(userId, { deviceId, action, amount }) {
+  const device = await BiometricDevice.findOne({ userId, deviceId, revokedAt: null });
+  if (!device) {
+    throw biometricError('Biometrics are not enabled on this device', 'BIOMETRIC_NOT_ENROLLED', 404);
+  }
+
+  const numericAmount = Number(amount);
+  if (!BIOMETRIC_ACTIONS.includes(action) || !Number.isFinite(numericAmount) || numericAmount <= 0) {
+    throw biometricError('A valid action and amount are required', 'INVALID_CHALLENGE_REQUEST');
+  }
+
+  const challenge = await BiometricChallenge.create({
+    userId,
+    deviceKeyId: device._id,
+    nonce: crypto.randomBytes(32).toString('base64url'),
+    action,
+    amount: numericAmount,
+    expiresAt: new Date(Date.now() + CHALLENGE_TTL_MS)
+  });
+
+  return {
+    challengeId: challenge._id,
+    payload: challengePayload(challenge),
+    expiresAt: challenge.expiresAt
+  };
+}
+
+// Checks a signed challenge for { action, amount }. The challenge is used up
+// before the signature is checked, so every attempt needs a fresh one.
+async function verifySignedChallenge(userId, { challengeId, signature }, { action, amount }) {
+  if (!challengeId || !/^[a-f0-9]{24}$/i.test(String(challengeId))) {
+    throw biometricError('Biometric challenge is missing or invalid', 'BIOMETRIC_CHALLENGE_INVALID');
+  }
+
+  const challenge = await BiometricChallenge.findOneAndUpdate(
+    { _id: challengeId, userId, usedAt: null, expiresAt: { $gt: new Date() } },
+    { $set: { usedAt: new Date() } },
+    { new: true }
+  );
+  if (!challenge) {
+    throw biometricError('Biometric confirmation expired. Please try again.', 'BIOMETRIC_CHALLENGE_INVALID');
+  }
+
+  if (challenge.action !== action || challenge.amount !== Number(amount)) {
+    throw biometricError('Biometric confirmation does not match this transaction', 'BIOMETRIC_CHALLENGE_MISMATCH');
+  }
+
+  const device = await BiometricDevice.findOne({ _id: challenge.deviceKeyId, revokedAt: null });
+  if (!device) {
+    throw biometricError('Biometrics have been turned off for this device. Please use your PIN.', 'BIOMETRIC_NOT_ENROLLED', 403);
+  }
+
+  const signatureBytes = decodeBase64(signature, ED25519_SIGNATURE_BYTES);
+  const isValid = Boolean(signatureBytes) && crypto.verify(
+    null,
+    Buffer.from(challengePayload(challenge)),
+    toPublicKeyObject(Buffer.from(device.publicKey, 'base64')),
+    signatureBytes
+  );
+  if (!isValid) {
+    throw biometricError('Biometric confirmation failed. Please use your PIN.', 'BIOMETRIC_SIGNATURE_INVALID', 403);
+  }
+
+  await BiometricDevice.updateOne({ _id: device._id }, { $set: { lastUsedAt: new Date() } });
+  return device;
+}
+
+// Authorizes a debit with either the transaction PIN or a signed biometric
+// challenge ({ challengeId, signature }). Errors carry errorCode and status
+// like verifyTransactionPin's. `user` must be loaded with .select('+pin').
+async function authorizeTransaction(user, { pin, biometric }, transaction, context) {
+  if (biometric) {
+    await verifySignedChallenge(user._id, biometric, transaction);
+    return 'biometric';
+  }
+  await verifyTransactionPin(user, pin, context);
+  return 'pin';
+}
+
+module.exports = {
+  MAX_ACTIVE_DEVICES,
+  deviceSummary,
+  listDevices,
+  enrollDevice,
+  revokeDevice,
+  revokeAllDevices,
+  revokeDeviceKeys,
+  issueChallenge,
+  verifySignedChallenge,
+  authorizeTransaction
+};
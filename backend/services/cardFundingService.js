@@ -0,0 +1,133 @@
+const User = require('../models/User');
+const Wallet = require('../models/Wallet');
+const Transaction = require('../models/Transaction');
+const CardPayment = require('../models/CardPayment');
+const { getCheckoutProvider } = require('./checkout');
+
+const CARD_FUNDING_LIMITS = {
+  MIN: 100,
+  MAX: 500000
+};
+
+const cardFundingError = (message, errorCode, status = 400) => {
+  const error = new Error(message);
+  error.errorCode = errorCode;
+  error.status = status;
+  return error;
+};
+
+// Starts a hosted checkout for `amount` and records it as a pending
+// CardPayment. Nothing is credited here.
+async function initializeCardFunding({ userId, amount, callbackUrl }) {
+  if (!Number.isFinite(amount) || amount < CARD_FUNDING_LIMITS.MIN || amount > CARD_FUNDING_LIMITS.MAX) {
+    throw cardFundingError(
+      `Amount must be between ₦${CARD_FUNDING_LIMITS.MIN.toLocaleString()} and ₦${CARD_FUNDING_LIMITS.MAX.toLocaleString()}`,
+      'INVALID_AMOUNT'
+    );
+  }
+
+  const user = await User.findById(userId);
+  if (!user) throw cardFundingError('User not found', 'USER_NOT_FOUND', 404);
+
+  const wallet = await Wallet.findByUserId(userId) || await Wallet.createForUser(userId);
+  if (!wallet.isActive) throw cardFundingError('Wallet is frozen', 'WALLET_FROZEN', 403);
+
+  const provider = getCheckoutProvider();
+  const reference = Transaction.generateReference('CARD');
+
+  const checkout = await provider.initializePayment({
+    reference,
+    amount,
+    email: user.email,
+    callbackUrl,
+    metadata: { userId: String(user._id), purpose: 'wallet_funding' }
+  });
+
+  return CardPayment.create({
+    userId,
+    walletId: wallet._id,
+    reference,
+    amount,
+    provider: provider.name,
+    providerReference: checkout.providerReference,
+    authorizationUrl: checkout.authorizationUrl,
+    callbackUrl
+  });
+}
+
+// Asks the gateway about a pending card payment and credits the wallet once
+// the charge is confirmed for the full amount. The CardPayment reference is
+// also the ledger reference, so concurrent verifies credit once.
+async function verifyCardFunding(reference, userId) {
+  const payment = await CardPayment.findOne({ reference, userId });
+  if (!payment) throw cardFundingError('Card payment not found', 'PAYMENT_NOT_FOUND', 404);
+  if (payment.status !== 'pending') return payment;
+
+  const result = await getCheckoutProvider().verifyPayment(reference);
+  if (result.status === 'pending') return payment;
+
+  payment.gatewayResponse = result.gatewayResponse;
+  payment.verifiedAt = new Date();
+
+  if (result.status === 'failed') {
+    payment.status = 'failed';
+    payment.failureReason = result.message || 'Card payment failed';
+    return payment.save();
+  }
+
+  if (result.amount !== payment.amount || result.currency !== 'NGN') {
+    console.error(`Card payment ${reference} amount mismatch: expected NGN ${payment.amount}, got ${result.currency} ${result.amount}`);
+    payment.status = 'failed';
+    payment.failureReason = 'Amount charged does not match the amount requested';
+    return payment.save();
+  }
+
+  const wallet = await Wallet.findById(payment.walletId);
+  const card = result.gatewayResponse?.card;
+  let transaction;
+
+  try {
+    ({ transaction } = await wallet.credit(
+      payment.amount,
+      `Wallet funding via card${card?.last4 ? ` ending ${card.last4}` : ''}`,
+      reference,
+      {
+        category: 'funding',
+        gateway: {
+          provider: payment.provider,
+          gatewayReference: payment.providerReference || reference,
+          gatewayResponse: result.gatewayResponse
+        },
+        metadata: { source: 'card' }
+      }
+    ));
+  } catch (error) {
+    if (error.code !== 11000) throw error;
+    // Credited by a concurrent verify
+    transaction = await Transaction.findOne({ reference });
+  }
+
+  payment.status = 'success';
+  payment.paidAt = result.paidAt || new Date();
+  payment.transactionId = transaction?._id;
+  return payment.save();
+}
+
+const cardPaymentSummary = (payment) => ({
+  reference: payment.reference,
+  amount: payment.amount,
+  status: payment.status,
+  authorizationUrl: payment.status === 'pending' ? payment.authorizationUrl : undefined,
+  callbackUrl: payment.callbackUrl,
+  card: payment.gatewayResponse?.card,
+  failureReason: payment.failureReason,
+  createdAt: payment.createdAt,
+  paidAt: payment.paidAt
+});
+
+module.exports = {
+  CARD_FUNDING_LIMITS,
+  initializeCardFunding,
+  verifyCardFunding,
+  cardPaymentSummary
+};
@@ -0,0 +1,68 @@
+// services/checkout - Pluggable hosted card checkout gateways
+//
+// Every adapter exposes:
+//   initializePayment({ reference, amount, email, callbackUrl, metadata })
+//       -> { authorizationUrl, providerReference }
+//   verifyPayment(reference)
+//       -> { status: 'success' | 'failed' | 'pending', amount, currency, paidAt?,
+//            message, gatewayResponse }
+//
+// Amounts are in naira. The customer enters card details on the gateway's own
+// page, which redirects to callbackUrl when done; the redirect proves nothing,
+// so the wallet is only credited after verifyPayment() confirms the charge.
+//
+// Select the adapter with CHECKOUT_PROVIDER=paystack|stub; with a Paystack
+// secret key and no CHECKOUT_PROVIDER, Paystack is used. The stub serves a fake
+// checkout page whose "Pay" button funds the wallet for free, so it must be
+// chosen explicitly and is never available when NODE_ENV=production.
+const { createPaystackCheckoutAdapter } = require('./paystackAdapter');
+const { createStubCheckoutAdapter } = require('./stubCheckoutAdapter');
+
+const adapters = {
+  paystack: () => createPaystackCheckoutAdapter({
+    secretKey: process.env.PAYSTACK_SECRET_KEY,
+    baseUrl: process.env.PAYSTACK_BASE_URL
+  }),
+  stub: () => createStubCheckoutAdapter()
+};
+
+let activeAdapter = null;
+
+const resolveAdapterName = () => {
+  if (process.env.CHECKOUT_PROVIDER) return process.env.CHECKOUT_PROVIDER;
+  return process.env.PAYSTACK_SECRET_KEY ? 'paystack' : null;
+};
+
+// True when the fake checkout page may be served
+const isStubCheckoutEnabled = () =>
+  process.env.CHECKOUT_PROVIDER === 'stub' && process.env.NODE_ENV !== 'production';
+
+const getCheckoutProvider = () => {
+  if (!activeAdapter) {
+    const name = resolveAdapterName();
+    if (!name) {
+      throw new Error('Card checkout is not configured. Set PAYSTACK_SECRET_KEY or CHECKOUT_PROVIDER.');
+    }
+    if (!adapters[name]) {
+      throw new Error(`Unknown CHECKOUT_PROVIDER "${name}". Expected one of: ${Object.keys(adapters).join(', ')}`);
+    }
+    if (name === 'stub' && !isStubCheckoutEnabled()) {
+      throw new Error('The stub checkout provider is disabled in production');
+    }
+    activeAdapter = adapters[name]();
+    console.log(`Checkout provider: ${activeAdapter.name}`);
+  }
+  return activeAdapter;
+};
+
+// Register an additional adapter factory, e.g. for Flutterwave
+const registerCheckoutProvider = (name, factory) => {
+  adapters[name] = factory;
+  activeAdapter = null;
+};
+
+module.exports = {
+  getCheckoutProvider,
+  registerCheckoutProvider,
+  isStubCheckoutEnabled
+};
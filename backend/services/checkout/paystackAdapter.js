@@ -0,0 +1,74 @@
+const axios = require('axios');
+
+// Paystack Standard: /transaction/initialize returns a hosted checkout URL and
+// /transaction/verify reports the charge. Paystack amounts are in kobo.
+function createPaystackCheckoutAdapter(config) {
+  const { secretKey, baseUrl = 'https://api.paystack.co', timeoutMs = 30000 } = config;
+
+  const client = axios.create({
+    baseURL: baseUrl,
+    headers: { Authorization: `Bearer ${secretKey}` },
+    timeout: timeoutMs
+  });
+
+  return {
+    name: 'paystack',
+
+    async initializePayment({ reference, amount, email, callbackUrl, metadata }) {
+      const { data } = await client.post('/transaction/initialize', {
+        reference,
+        email,
+        amount: Math.round(amount * 100),
+        currency: 'NGN',
+        channels: ['card'],
+        callback_url: callbackUrl,
+        metadata
+      });
+
+      return {
+        authorizationUrl: data.data.authorization_url,
+        providerReference: data.data.reference
+      };
+    },
+
+    async verifyPayment(reference) {
+      let data;
+      try {
+        ({ data } = await client.get(`/transaction/verify/${encodeURIComponent(reference)}`));
+      } catch (error) {
+        // Paystack answers 400 until the customer has opened the checkout
+        if (error.response?.status === 400) {
+          return { status: 'pending', message: error.response.data?.message || 'Payment not started' };
+        }
+        throw error;
+      }
+
+      const charge = data.data;
+      const status = charge.status === 'success' ? 'success'
+        : ['failed', 'reversed'].includes(charge.status) ? 'failed'
+        : 'pending';
+
+      return {
+        status,
+        amount: charge.amount / 100,
+        currency: charge.currency,
+        paidAt: charge.paid_at ? new Date(charge.paid_at) : undefined,
+        message: charge.gateway_response,
+        gatewayResponse: {
+          id: charge.id,
+          status: charge.status,
+          message: charge.gateway_response,
+          channel: charge.channel,
+          fees: charge.fees != null ? charge.fees / 100 : undefined,
+          card: charge.authorization && {
+            last4: charge.authorization.last4,
+            brand: charge.authorization.brand,
+            bank: charge.authorization.bank
+          }
+        }
+      };
+    }
+  };
+}
+
+module.exports = { createPaystackCheckoutAdapter };
@@ -0,0 +1,59 @@
+// Local checkout gateway for development: no card is charged. The hosted page
+// is served by routes/cardPayments.js (only with CHECKOUT_PROVIDER=stub outside
+// production) and offers "Pay" and "Decline" buttons; the chosen outcome is
+// what verifyPayment() reports afterwards. Sessions live in memory, so a
+// restart turns open checkouts into abandoned ones.
+
+function createStubCheckoutAdapter() {
+  const sessions = new Map();
+
+  return {
+    name: 'stub',
+
+    async initializePayment({ reference, amount, callbackUrl }) {
+      sessions.set(reference, { amount, callbackUrl, outcome: null });
+      const origin = new URL(callbackUrl).origin;
+      return {
+        authorizationUrl: `${origin}/api/card-payments/stub-checkout/${encodeURIComponent(reference)}`,
+        providerReference: `STUB_${reference}`
+      };
+    },
+
+    async verifyPayment(reference) {
+      const session = sessions.get(reference);
+      if (!session?.outcome) {
+        return { status: 'pending', message: 'Customer has not completed checkout' };
+      }
+
+      const paid = session.outcome === 'success';
+      return {
+        status: paid ? 'success' : 'failed',
+        amount: session.amount,
+        currency: 'NGN',
+        paidAt: paid ? session.completedAt : undefined,
+        message: paid ? 'Approved' : 'Declined by issuer',
+        gatewayResponse: {
+          status: session.outcome,
+          message: paid ? 'Approved' : 'Declined by issuer',
+          channel: 'card',
+          card: { last4: '4081', brand: 'visa', bank: 'Stub Bank' }
+        }
+      };
+    },
+
+    // Used by the stub checkout page only
+    getCheckout(reference) {
+      return sessions.get(reference) || null;
+    },
+
+    completeCheckout(reference, outcome) {
+      const session = sessions.get(reference);
+      if (!session || session.outcome) return session || null;
+      session.outcome = outcome === 'success' ? 'success' : 'failed';
+      session.completedAt = new Date();
+      return session;
+    }
+  };
+}
+
+module.exports = { createStubCheckoutAdapter };
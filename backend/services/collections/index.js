@@ -0,0 +1,61 @@
+// services/collections - Pluggable providers for inbound bank transfers
+//
+// Every adapter exposes:
+//   supportedBanks                 -> [{ bank, bankName }]
+//   reserveAccount({ user, bank }) -> { accountNumber, accountName, bankName, providerReference }
+//   verifyWebhook(req)             -> true when the request carries a valid signature
+//                                     (req.rawBody is the unparsed body)
+//   parseWebhook(body)             -> { accountNumber, amount, providerReference, senderName?,
+//                                       senderBank?, narration?, paidAt } or null for events
+//                                     that are not inbound payments
+//
+// Select the adapter with COLLECTION_PROVIDER=paystack|stub. Without a
+// Paystack secret key the stub is used, which accepts webhooks signed with
+// VIRTUAL_ACCOUNT_WEBHOOK_SECRET (required). The stub is refused when
+// NODE_ENV=production unless ALLOW_STUB_COLLECTIONS=true.
+const { createPaystackCollectionAdapter } = require('./paystackAdapter');
+const { createStubCollectionAdapter } = require('./stubCollectionAdapter');
+
+const adapters = {
+  paystack: () => createPaystackCollectionAdapter({
+    secretKey: process.env.PAYSTACK_SECRET_KEY,
+    baseUrl: process.env.PAYSTACK_BASE_URL
+  }),
+  stub: () => createStubCollectionAdapter({
+    webhookSecret: process.env.VIRTUAL_ACCOUNT_WEBHOOK_SECRET
+  })
+};
+
+let activeAdapter = null;
+
+const resolveAdapterName = () => {
+  if (process.env.COLLECTION_PROVIDER) return process.env.COLLECTION_PROVIDER;
+  return process.env.PAYSTACK_SECRET_KEY ? 'paystack' : 'stub';
+};
+
+const getCollectionProvider = () => {
+  if (!activeAdapter) {
+    const name = resolveAdapterName();
+    if (!adapters[name]) {
+      throw new Error(`Unknown COLLECTION_PROVIDER "${name}". Expected one of: ${Object.keys(adapters).join(', ')}`);
+    }
+    // Anyone holding the stub's secret can mint inbound payments
+    if (name === 'stub' && process.env.NODE_ENV === 'production' && process.env.ALLOW_STUB_COLLECTIONS !== 'true') {
+      throw new Error('The stub collection provider is disabled in production. Configure PAYSTACK_SECRET_KEY or set ALLOW_STUB_COLLECTIONS=true.');
+    }
+    activeAdapter = adapters[name]();
+    console.log(`Collection provider: ${activeAdapter.name}`);
+  }
+  return activeAdapter;
+};
+
+// Register an additional adapter factory, e.g. for another bank partner
+const registerCollectionProvider = (name, factory) => {
+  adapters[name] = factory;
+  activeAdapter = null;
+};
+
+module.exports = {
+  getCollectionProvider,
+  registerCollectionProvider
+};
@@ -0,0 +1,73 @@
+const crypto = require('crypto');
+const axios = require('axios');
+
+// Paystack preferred_bank slugs for dedicated virtual accounts
+const BANKS = [
+  { bank: 'wema', bankName: 'Wema Bank', slug: 'wema-bank' },
+  { bank: 'titan', bankName: 'Titan Trust Bank', slug: 'titan-paystack' }
+];
+
+// Paystack Dedicated Virtual Accounts. Transfers into an account arrive as a
+// `charge.success` webhook on the dedicated_nuban channel, signed with the
+// secret key (HMAC-SHA512 in X-Paystack-Signature).
+function createPaystackCollectionAdapter(config) {
+  const { secretKey, baseUrl = 'https://api.paystack.co', timeoutMs = 30000 } = config;
+
+  const client = axios.create({
+    baseURL: baseUrl,
+    headers: { Authorization: `Bearer ${secretKey}` },
+    timeout: timeoutMs
+  });
+
+  return {
+    name: 'paystack',
+    supportedBanks: BANKS.map(({ bank, bankName }) => ({ bank, bankName })),
+
+    async reserveAccount({ user, bank }) {
+      const match = BANKS.find(b => b.bank === bank);
+      const [firstName, ...rest] = user.name.split(' ');
+
+      const { data: customer } = await client.post('/customer', {
+        email: user.email,
+        first_name: firstName,
+        last_name: rest.join(' ') || firstName,
+        phone: user.phone
+      });
+
+      const { data } = await client.post('/dedicated_account', {
+        customer: customer.data.customer_code,
+        preferred_bank: match.slug
+      });
+
+      return {
+        accountNumber: data.data.account_number,
+        accountName: data.data.account_name,
+        bankName: data.data.bank?.name || match.bankName,
+        providerReference: String(data.data.id)
+      };
+    },
+
+    verifyWebhook(req) {
+      const signature = req.get('X-Paystack-Signature') || '';
+      const expected = crypto.createHmac('sha512', secretKey).update(req.rawBody || '').digest('hex');
+      return signature.length === expected.length &&
+        crypto.timingSafeEqual(Buffer.from(signature), Buffer.from(expected));
+    },
+
+    parseWebhook(body) {
+      const data = body?.data;
+      if (body?.event !== 'charge.success' || data?.channel !== 'dedicated_nuban') return null;
+      return {
+        accountNumber: String(data.authorization?.receiver_bank_account_number || ''),
+        amount: Number(data.amount) / 100,
+        providerReference: String(data.reference),
+        senderName: data.authorization?.sender_name,
+        senderBank: data.authorization?.sender_bank,
+        narration: data.authorization?.narration,
+        paidAt: data.paid_at ? new Date(data.paid_at) : new Date()
+      };
+    }
+  };
+}
+
+module.exports = { createPaystackCollectionAdapter };
@@ -0,0 +1,65 @@
+const crypto = require('crypto');
+
+// Local collection provider for development. Account numbers are derived from
+// the user and bank so they are stable across restarts, and inbound payments
+// are simulated by POSTing a signed webhook:
+//
+//   body:   { "event": "payment.received", "data": { "accountNumber", "amount",
+//             "reference", "senderName"?, "senderBank"?, "narration"?, "paidAt"? } }
+//   header: X-ConnectPay-Signature: hex HMAC-SHA256 of the raw body with
+//           VIRTUAL_ACCOUNT_WEBHOOK_SECRET
+
+const BANKS = [
+  { bank: 'palmpay', bankName: 'PalmPay' },
+  { bank: 'wema', bankName: 'Wema Bank' },
+  { bank: 'sterling', bankName: 'Sterling Bank' }
+];
+
+const accountNumberFor = (userId, bank) => {
+  const digest = crypto.createHash('sha256').update(`${userId}:${bank}`).digest();
+  return `7${String(digest.readUIntBE(0, 6) % 10 ** 9).padStart(9, '0')}`;
+};
+
+function createStubCollectionAdapter({ webhookSecret }) {
+  if (!webhookSecret) {
+    throw new Error('VIRTUAL_ACCOUNT_WEBHOOK_SECRET is required for the stub collection provider');
+  }
+
+  return {
+    name: 'stub',
+    supportedBanks: BANKS,
+
+    async reserveAccount({ user, bank }) {
+      const match = BANKS.find(b => b.bank === bank);
+      return {
+        accountNumber: accountNumberFor(user._id, bank),
+        accountName: `CONNECTPAY - ${user.name}`.toUpperCase(),
+        bankName: match.bankName,
+        providerReference: `STUB_VA_${user._id}_${bank}`
+      };
+    },
+
+    verifyWebhook(req) {
+      const signature = req.get('X-ConnectPay-Signature') || '';
+      const expected = crypto.createHmac('sha256', webhookSecret).update(req.rawBody || '').digest('hex');
+      return signature.length === expected.length &&
+        crypto.timingSafeEqual(Buffer.from(signature), Buffer.from(expected));
+    },
+
+    parseWebhook(body) {
+      if (body?.event !== 'payment.received' || !body.data) return null;
+      const { accountNumber, amount, reference, senderName, senderBank, narration, paidAt } = body.data;
+      return {
+        accountNumber: String(accountNumber),
+        amount: Number(amount),
+        providerReference: String(reference),
+        senderName,
+        senderBank,
+        narration,
+        paidAt: paidAt ? new Date(paidAt) : new Date()
+      };
+    }
+  };
+}
+
+module.exports = { createStubCollectionAdapter };
@@ -0,0 +1,195 @@
+const User = require('../models/User');
+const { OTP_LENGTH, generateOtp, hashOtp, checkOtpAttempt } = require('./otpService');
+const { getNotificationSender } = require('./notifications');
+
+const VERIFICATION_OTP_TTL_MS = 10 * 60 * 1000; // 10 minutes
+const RESEND_COOLDOWN_MS = 60 * 1000; // 1 minute between codes per channel
+
+// User fields holding each channel's verified flag and pending code
+const CHANNELS = {
+  email: {
+    flag: 'isEmailVerified',
+    token: 'emailVerificationToken',
+    expires: 'emailVerificationExpires',
+    attempts: 'emailVerificationAttempts',
+    sentAt: 'emailVerificationSentAt',
+    label: 'email address'
+  },
+  phone: {
+    flag: 'isPhoneVerified',
+    token: 'phoneVerificationToken',
+    expires: 'phoneVerificationExpires',
+    attempts: 'phoneVerificationAttempts',
+    sentAt: 'phoneVerificationSentAt',
+    label: 'phone number'
+  }
+};
+
+const OTP_MESSAGES = {
+  OTP_INVALID: 'Invalid verification code',
+  OTP_EXPIRED: 'This verification code has expired. Please request a new one.',
+  OTP_ATTEMPTS_EXCEEDED: 'Too many incorrect codes. Please request a new one.'
+};
+
+const verificationError = (message, errorCode, status = 400, extra = {}) => {
+  const error = new Error(message);
+  error.errorCode = errorCode;
+  error.status = status;
+  Object.assign(error, extra);
+  return error;
+};
+
+const maskEmail = (email) => {
+  const [name, domain] = String(email).split('@');
+  return `${name.slice(0, 2)}${'*'.repeat(Math.max(name.length - 2, 1))}@${domain}`;
+};
+
+const maskPhone = (phone) => `${String(phone).slice(0, 4)}****${String(phone).slice(-3)}`;
+
+const getChannel = (channel) => {
+  const fields = CHANNELS[channel];
+  if (!fields) {
+    throw verificationError('Channel must be email or phone', 'INVALID_CHANNEL');
+  }
+  return fields;
+};
+
+// Verified flags for profile and login responses
+const verificationState = (user) => ({
+  isEmailVerified: Boolean(user.isEmailVerified),
+  isPhoneVerified: Boolean(user.isPhoneVerified)
+});
+
+// Emails or texts a fresh code for `channel`, replacing any earlier one.
+// Codes for the same channel are at least RESEND_COOLDOWN_MS apart.
+async function sendVerificationCode(user, channel) {
+  const fields = getChannel(channel);
+
+  if (user[fields.flag]) {
+    throw verificationError(`Your ${fields.label} is already verified`, 'ALREADY_VERIFIED', 409);
+  }
+
+  const now = Date.now();
+  const lastSentAt = user[fields.sentAt] ? user[fields.sentAt].getTime() : 0;
+  if (now - lastSentAt < RESEND_COOLDOWN_MS) {
+    const retryAfterSeconds = Math.ceil((lastSentAt + RESEND_COOLDOWN_MS - now) / 1000);
+    throw verificationError(
+      `Please wait ${retryAfterSeconds} seconds before requesting another code`,
+      'OTP_RESEND_TOO_SOON',
+      429,
+      { retryAfterSeconds }
+    );
+  }
+
+  const otp = generateOtp();
+  await User.updateOne(
+    { _id: user._id },
+    {
+      $set: {
+        [fields.token]: hashOtp(otp),
+        [fields.expires]: new Date(now + VERIFICATION_OTP_TTL_MS),
+        [fields.attempts]: 0,
+        [fields.sentAt]: new Date(now)
+      }
+    }
+  );
+
+  const expiresInMinutes = VERIFICATION_OTP_TTL_MS / (60 * 1000);
+  const text = `Your ConnectPay verification code is ${otp}. It expires in ${expiresInMinutes} minutes. Never share this code with anyone.`;
+  const sender = getNotificationSender();
+  if (channel === 'email') {
+    await sender.sendEmail({ to: user.email, subject: 'Verify your ConnectPay email address', text });
+  } else {
+    await sender.sendSms({ to: user.phone, text });
+  }
+
+  return {
+    channel,
+    destination: channel === 'email' ? maskEmail(user.email) : maskPhone(user.phone),
+    expiresInMinutes,
+    resendAfterSeconds: RESEND_COOLDOWN_MS / 1000
+  };
+}
+
+// Used right after signup: sends codes for every unverified channel and
+// never throws, so a delivery failure doesn't fail the registration
+async function sendInitialVerificationCodes(user) {
+  const sent = {};
+  for (const channel of Object.keys(CHANNELS)) {
+    try {
+      sent[channel] = await sendVerificationCode(user, channel);
+    } catch (error) {
+      console.error(`Failed to send ${channel} verification code to user ${user._id}:`, error.message);
+    }
+  }
+  return sent;
+}
+
+// Checks the code and marks the channel verified. Wrong codes count towards
+// the attempt limit; the code is cleared once it's used.
+async function confirmVerificationCode(user, channel, otp) {
+  const fields = getChannel(channel);
+
+  if (user[fields.flag]) {
+    return verificationState(user);
+  }
+
+  if (!new RegExp(`^\\d{${OTP_LENGTH}}$`).test(String(otp || ''))) {
+    throw verificationError(`Verification code must be ${OTP_LENGTH} digits`, 'OTP_INVALID');
+  }
+
+  const otpError = await checkOtpAttempt(User, user, otp, {
+    hash: fields.token,
+    expires: fields.expires,
+    attempts: fields.attempts
+  });
+
+  if (otpError) {
+    throw verificationError(OTP_MESSAGES[otpError], otpError, otpError === 'OTP_ATTEMPTS_EXCEEDED' ? 429 : 400);
+  }
+
+  const updated = await User.findOneAndUpdate(
+    { _id: user._id },
+    {
+      $set: { [fields.flag]: true },
+      $unset: { [fields.token]: 1, [fields.expires]: 1, [fields.attempts]: 1, [fields.sentAt]: 1 }
+    },
+    { new: true }
+  );
+
+  console.log(`✅ ${channel === 'email' ? 'Email' : 'Phone'} verified for user: ${user._id}`);
+  return verificationState(updated);
+}
+
+// Update for a profile change: a new email or phone has to be verified again
+function resetVerificationForChanges(user, { email, phone }) {
+  const update = {};
+  if (email && email.toLowerCase() !== user.email) {
+    Object.assign(update, {
+      isEmailVerified: false,
+      emailVerificationToken: null,
+      emailVerificationExpires: null,
+      emailVerificationSentAt: null
+    });
+  }
+  if (phone && phone !== user.phone) {
+    Object.assign(update, {
+      isPhoneVerified: false,
+      phoneVerificationToken: null,
+      phoneVerificationExpires: null,
+      phoneVerificationSentAt: null
+    });
+  }
+  return update;
+}
+
+module.exports = {
+  VERIFICATION_CHANNELS: Object.keys(CHANNELS),
+  maskEmail,
+  maskPhone,
+  verificationState,
+  sendVerificationCode,
+  sendInitialVerificationCodes,
+  confirmVerificationCode,
+  resetVerificationForChanges
+};
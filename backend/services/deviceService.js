@@ -0,0 +1,300 @@
+const crypto = require('crypto');
+const jwt = require('jsonwebtoken');
+const User = require('../models/User');
+const Session = require('../models/Session');
+const TrustedDevice = require('../models/TrustedDevice');
+const { OTP_LENGTH, generateOtp, hashOtp, checkOtpAttempt } = require('./otpService');
+const { getNotificationSender } = require('./notifications');
+const { maskEmail, maskPhone } = require('./contactVerificationService');
+const { revokeDeviceSessions } = require('./sessionService');
+const { revokeDeviceKeys } = require('./biometricService');
+
+const LOGIN_OTP_TTL_MS = 10 * 60 * 1000; // 10 minutes
+const RESEND_COOLDOWN_MS = 60 * 1000; // 1 minute between login codes
+
+const jwtSecret = () => process.env.JWT_SECRET || 'your_secret_key';
+
+const OTP_MESSAGES = {
+  OTP_INVALID: 'Invalid login code',
+  OTP_EXPIRED: 'This login code has expired. Please sign in again.',
+  OTP_ATTEMPTS_EXCEEDED: 'Too many incorrect codes. Please sign in again.'
+};
+
+const hashDeviceToken = (token) => crypto.createHash('sha256').update(String(token)).digest('hex');
+
+const deviceError = (message, errorCode, status = 400, extra = {}) => {
+  const error = new Error(message);
+  error.errorCode = errorCode;
+  error.status = status;
+  Object.assign(error, extra);
+  return error;
+};
+
+const deviceSummary = (device, { currentDeviceId, signedInDeviceIds = [] } = {}) => ({
+  id: device._id,
+  deviceId: device.deviceId,
+  deviceName: device.deviceName,
+  platform: device.platform,
+  appVersion: device.appVersion,
+  lastIpAddress: device.lastIpAddress,
+  firstSeenAt: device.createdAt,
+  lastLoginAt: device.lastLoginAt,
+  isCurrent: device.deviceId === currentDeviceId,
+  isSignedIn: signedInDeviceIds.includes(device.deviceId)
+});
+
+// The deviceId is chosen by the app, so a device is only recognised when the
+// login also carries the device token issued with its last session. Logins
+// without one (older app builds, web) always count as unknown.
+async function isKnownDevice(userId, deviceId, deviceToken) {
+  if (!deviceId || !deviceToken) return false;
+  const device = await TrustedDevice.findOne({
+    userId,
+    deviceId,
+    deviceTokenHash: hashDeviceToken(deviceToken),
+    revokedAt: null
+  }).select('_id');
+  return Boolean(device);
+}
+
+// Records a login from this device. Resolves to { device, isNew, deviceToken },
+// where isNew is true for a device never seen before or one the user removed.
+// With issueToken a new device token replaces the previous one; deviceToken
+// is only set then.
+async function registerDevice(userId, context = {}, { issueToken = false } = {}) {
+  const { deviceId, deviceName, platform, appVersion, ipAddress, userAgent } = context;
+  if (!deviceId) return { device: null, isNew: false };
+
+  const update = {
+    deviceName,
+    platform,
+    appVersion,
+    lastIpAddress: ipAddress,
+    lastUserAgent: userAgent,
+    lastLoginAt: new Date(),
+    revokedAt: null,
+    revokedReason: null
+  };
+  const deviceToken = issueToken ? crypto.randomBytes(32).toString('base64url') : undefined;
+  if (deviceToken) update.deviceTokenHash = hashDeviceToken(deviceToken);
+
+  const existing = await TrustedDevice.findOne({ userId, deviceId }).select('revokedAt');
+  const device = await TrustedDevice.findOneAndUpdate(
+    { userId, deviceId },
+    {
+      $set: update,
+      $setOnInsert: { firstIpAddress: ipAddress }
+    },
+    { new: true, upsert: true, setDefaultsOnInsert: true }
+  );
+
+  return { device, isNew: !existing || Boolean(existing.revokedAt), deviceToken };
+}
+
+// Emails the user about a login from a new device. Never throws, so a
+// delivery failure doesn't fail the login.
+async function sendNewDeviceAlert(user, device) {
+  try {
+    const when = device.lastLoginAt.toUTCString();
+    const where = [device.deviceName || 'Unknown device', device.platform].filter(Boolean).join(', ');
+    const text = `Your ConnectPay account was just signed in to from a new device: ${where} on ${when}` +
+      `${device.lastIpAddress ? ` (IP address ${device.lastIpAddress})` : ''}.\n\n` +
+      'If this was you, there is nothing to do. If not, remove the device under Profile > Devices & Login Alerts ' +
+      'and change your password right away.';
+
+    await getNotificationSender().sendEmail({ to: user.email, subject: 'New sign-in to your ConnectPay account', text });
+  } catch (error) {
+    console.error(`Failed to send new device alert to user ${user._id}:`, error.message);
+  }
+}
+
+// Registers the device for a completed login, binding it to a new device
+// token, and alerts the user when it's new. The very first device on an
+// account (signup, or the first login since devices were tracked) is
+// registered without an alert. Resolves to { device, deviceToken }.
+async function recordLogin(user, context) {
+  const hadDevices = await TrustedDevice.exists({ userId: user._id });
+  const { device, isNew, deviceToken } = await registerDevice(user._id, context, { issueToken: true });
+  if (device && isNew && hadDevices) {
+    await sendNewDeviceAlert(user, device);
+  }
+  return { device, deviceToken };
+}
+
+async function listDevices(userId, currentSessionId) {
+  const [devices, currentSession, signedInDeviceIds] = await Promise.all([
+    TrustedDevice.find({ userId, revokedAt: null }).sort({ lastLoginAt: -1 }),
+    currentSessionId ? Session.findById(currentSessionId).select('deviceId') : null,
+    Session.distinct('deviceId', { userId, revokedAt: null, expiresAt: { $gt: new Date() } })
+  ]);
+
+  const currentDeviceId = currentSession ? currentSession.deviceId : undefined;
+  return devices.map((device) => deviceSummary(device, { currentDeviceId, signedInDeviceIds }));
+}
+
+// Removes a device: signs it out, turns off its biometric key and makes its
+// next login count as a new device. The current device signs out instead.
+async function revokeDevice(userId, id, currentSessionId) {
+  const device = await TrustedDevice.findOne({ _id: id, userId, revokedAt: null });
+  if (!device) {
+    throw deviceError('Device not found', 'DEVICE_NOT_FOUND', 404);
+  }
+
+  const currentSession = currentSessionId ? await Session.findById(currentSessionId).select('deviceId') : null;
+  if (currentSession && currentSession.deviceId === device.deviceId) {
+    throw deviceError('This is the device you are using. Log out instead.', 'CANNOT_REVOKE_CURRENT_DEVICE');
+  }
+
+  device.revokedAt = new Date();
+  device.revokedReason = 'user';
+  await device.save();
+
+  await Promise.all([
+    revokeDeviceSessions(userId, device.deviceId),
+    revokeDeviceKeys(userId, device.deviceId, 'user')
+  ]);
+
+  console.log(`📵 Device revoked for user ${userId}: ${device.deviceId}`);
+  return device;
+}
+
+// Trusts the device behind the current session, so turning on login codes
+// doesn't lock out a device that signed in before devices were tracked.
+// Resolves to { device, deviceToken }; the app must store the new token, as
+// it does after login, for the device to count as known.
+async function trustCurrentDevice(userId, currentSessionId) {
+  const session = currentSessionId ? await Session.findById(currentSessionId) : null;
+  if (!session || !session.deviceId) return { device: null };
+
+  const { device, deviceToken } = await registerDevice(userId, {
+    deviceId: session.deviceId,
+    deviceName: session.deviceName,
+    platform: session.platform,
+    appVersion: session.appVersion,
+    ipAddress: session.ipAddress,
+    userAgent: session.userAgent
+  }, { issueToken: true });
+  return { device, deviceToken };
+}
+
+// Sends a login code for a login from an unknown device and returns the
+// challenge the app sends back with the code. Codes go to the phone when it
+// is verified, otherwise to the email address. Logging in again within the
+// cooldown reuses the code already sent; an explicit resend is refused.
+async function issueLoginChallenge(user, deviceId, { isResend = false } = {}) {
+  const now = Date.now();
+  const channel = user.isPhoneVerified ? 'phone' : 'email';
+  const lastSentAt = user.loginOtpSentAt ? user.loginOtpSentAt.getTime() : 0;
+  const hasPendingCode = Boolean(user.loginOtpToken) && user.loginOtpDeviceId === (deviceId || null) &&
+    user.loginOtpExpires > new Date(now);
+
+  const withinCooldown = now - lastSentAt < RESEND_COOLDOWN_MS;
+
+  if (withinCooldown && isResend) {
+    const retryAfterSeconds = Math.ceil((lastSentAt + RESEND_COOLDOWN_MS - now) / 1000);
+    throw deviceError(
+      `Please wait ${retryAfterSeconds} seconds before requesting another code`,
+      'OTP_RESEND_TOO_SOON',
+      429,
+      { retryAfterSeconds }
+    );
+  }
+
+  if (!withinCooldown || !hasPendingCode) {
+    const otp = generateOtp();
+    await User.updateOne(
+      { _id: user._id },
+      {
+        $set: {
+          loginOtpToken: hashOtp(otp),
+          loginOtpExpires: new Date(now + LOGIN_OTP_TTL_MS),
+          loginOtpAttempts: 0,
+          loginOtpSentAt: new Date(now),
+          loginOtpDeviceId: deviceId || null
+        }
+      }
+    );
+
+    const text = `Your ConnectPay login code is ${otp}. It expires in ${LOGIN_OTP_TTL_MS / (60 * 1000)} minutes. ` +
+      'If you did not just try to sign in, change your password right away.';
+    const sender = getNotificationSender();
+    if (channel === 'phone') {
+      await sender.sendSms({ to: user.phone, text });
+    } else {
+      await sender.sendEmail({ to: user.email, subject: 'Your ConnectPay login code', text });
+    }
+  }
+
+  const challengeToken = jwt.sign(
+    { userId: String(user._id), deviceId: deviceId || null, purpose: 'login_otp' },
+    jwtSecret(),
+    { expiresIn: Math.floor(LOGIN_OTP_TTL_MS / 1000) }
+  );
+
+  return {
+    challengeToken,
+    channel,
+    destination: channel === 'phone' ? maskPhone(user.phone) : maskEmail(user.email),
+    expiresInMinutes: LOGIN_OTP_TTL_MS / (60 * 1000),
+    resendAfterSeconds: RESEND_COOLDOWN_MS / 1000
+  };
+}
+
+// Resolves the user a challenge token was issued to, for this device
+async function resolveLoginChallenge(challengeToken, deviceId) {
+  let decoded;
+  try {
+    decoded = jwt.verify(String(challengeToken || ''), jwtSecret());
+  } catch (error) {
+    decoded = null;
+  }
+
+  if (!decoded || decoded.purpose !== 'login_otp' || decoded.deviceId !== (deviceId || null)) {
+    throw deviceError('Your login has expired. Please sign in again.', 'LOGIN_CHALLENGE_INVALID');
+  }
+
+  const user = await User.findById(decoded.userId);
+  if (!user || !user.isActive || user.loginOtpDeviceId !== decoded.deviceId) {
+    throw deviceError('Your login has expired. Please sign in again.', 'LOGIN_CHALLENGE_INVALID');
+  }
+  return user;
+}
+
+// Checks the login code. Wrong codes count towards the attempt limit; the
+// code is cleared once it's used. Resolves to the user to sign in.
+async function verifyLoginChallenge(challengeToken, otp, deviceId) {
+  const user = await resolveLoginChallenge(challengeToken, deviceId);
+
+  if (!new RegExp(`^\\d{${OTP_LENGTH}}$`).test(String(otp || ''))) {
+    throw deviceError(`Login code must be ${OTP_LENGTH} digits`, 'OTP_INVALID');
+  }
+
+  const otpError = await checkOtpAttempt(User, user, otp, {
+    hash: 'loginOtpToken',
+    expires: 'loginOtpExpires',
+    attempts: 'loginOtpAttempts'
+  });
+
+  if (otpError) {
+    throw deviceError(OTP_MESSAGES[otpError], otpError, otpError === 'OTP_ATTEMPTS_EXCEEDED' ? 429 : 400);
+  }
+
+  await User.updateOne(
+    { _id: user._id },
+    { $unset: { loginOtpToken: 1, loginOtpExpires: 1, loginOtpAttempts: 1, loginOtpSentAt: 1, loginOtpDeviceId: 1 } }
+  );
+
+  return user;
+}
+
+module.exports = {
+  isKnownDevice,
+  registerDevice,
+  recordLogin,
+  listDevices,
+  revokeDevice,
+  trustCurrentDevice,
+  issueLoginChallenge,
+  resolveLoginChallenge,
+  verifyLoginChallenge
+};
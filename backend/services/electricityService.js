@@ -0,0 +1,79 @@
+const { getProvider } = require('../config/electricityProviders');
+const { getVtuProvider } = require('./vtu');
+
+const serviceError = (message, errorCode, status = 400) => {
+  const error = new Error(message);
+  error.errorCode = errorCode;
+  error.status = status;
+  return error;
+};
+
+const resolveProvider = (providerId, meterType) => {
+  const provider = getProvider(providerId);
+  if (!provider) {
+    throw serviceError('Invalid electricity provider', 'INVALID_PROVIDER');
+  }
+  if (provider.status !== 'active') {
+    throw serviceError(`${provider.name} is temporarily unavailable`, 'PROVIDER_UNAVAILABLE', 503);
+  }
+  if (!provider.meterTypes.includes(meterType)) {
+    throw serviceError('Invalid meter type', 'INVALID_METER_TYPE');
+  }
+  return provider;
+};
+
+// Look up the customer registered to a meter
+async function verifyMeter({ provider: providerId, meterNumber, meterType }) {
+  const provider = resolveProvider(providerId, meterType);
+
+  if (!/^\d{10,13}$/.test(meterNumber || '')) {
+    throw serviceError('Meter number must be 10-13 digits', 'INVALID_METER');
+  }
+
+  const result = await getVtuProvider().verifyMeter({
+    serviceId: provider.serviceId,
+    meterNumber,
+    meterType
+  });
+
+  if (!result.valid) {
+    throw serviceError(result.message || 'Meter number not found for this provider', 'INVALID_METER');
+  }
+
+  return {
+    customerName: result.customerName,
+    customerAddress: result.customerAddress,
+    accountNumber: result.accountNumber,
+    meterNumber: result.meterNumber,
+    meterType,
+    provider: provider.id,
+    tariffClass: result.tariffClass
+  };
+}
+
+// Vend a prepaid token or settle a postpaid bill. Resolves to the adapter
+// vend result; `details` carries token, units and tariffClass.
+async function vendElectricity({ provider: providerId, meterNumber, meterType, amount, phone, reference }) {
+  const provider = resolveProvider(providerId, meterType);
+
+  if (amount < provider.minAmount || amount > provider.maxAmount) {
+    throw serviceError(
+      `Amount must be between ₦${provider.minAmount.toLocaleString()} and ₦${provider.maxAmount.toLocaleString()} for ${provider.name}`,
+      'INVALID_AMOUNT'
+    );
+  }
+
+  return getVtuProvider().purchaseElectricity({
+    serviceId: provider.serviceId,
+    meterNumber,
+    meterType,
+    amount,
+    phone,
+    reference
+  });
+}
+
+module.exports = {
+  verifyMeter,
+  vendElectricity
+};
@@ -0,0 +1,305 @@
+const mongoose = require('mongoose');
+
+// Service types shown in history. Rows written since metadata.service was
+// added carry the type; older rows are recognised by their reference prefix
+// or ledger category.
+const SERVICE_TYPES = {
+  airtime: { label: 'Airtime', legacy: { reference: /^AIR(TIME)?_/ } },
+  data: { label: 'Data', legacy: { reference: /^DATA_/ } },
+  electricity: { label: 'Electricity', legacy: { reference: /^ELECTRICITY_/ } },
+  cable_tv: { label: 'Cable TV', legacy: { reference: /^CABLE(_TV)?_/ } },
+  education: { label: 'Education', legacy: { reference: /^EDUCATION_/ } },
+  internet: { label: 'Internet', legacy: { reference: /^INTERNET_/ } },
+  print_recharge: { label: 'Recharge Cards', legacy: { reference: /^(RECHARGE|RC|PRINT_RECHARGE)_/ } },
+  betting: { label: 'Betting', legacy: { category: 'betting' } },
+  transfer: { label: 'Transfer', legacy: { category: 'transfer' } },
+  withdrawal: { label: 'Withdrawal', legacy: { category: 'withdrawal' } },
+  funding: { label: 'Wallet Funding', legacy: { category: 'funding' } },
+  fee: { label: 'Fee', legacy: { category: 'fee' } },
+  adjustment: { label: 'Adjustment', legacy: { 'metadata.source': 'admin_adjustment' } }
+};
+
+const HISTORY_LIMITS = {
+  DEFAULT: 20,
+  MAX: 100
+};
+
+const STATUSES = ['pending', 'completed', 'failed', 'cancelled'];
+const CATEGORIES = ['funding', 'withdrawal', 'transfer', 'payment', 'refund', 'fee', 'bonus', 'betting'];
+
+const historyError = (message, errorCode, status = 400) => {
+  const error = new Error(message);
+  error.errorCode = errorCode;
+  error.status = status;
+  return error;
+};
+
+// metadata.service for a purchase of `type` (the /purchase type names)
+function serviceMetadataFor(type, data = {}) {
+  switch (type) {
+    case 'airtime':
+    case 'data':
+      return { type, provider: data.network, phone: data.phone, plan: data.plan };
+    case 'electricity':
+      return { type, provider: data.provider, meterNumber: data.meterNumber, phone: data.phone };
+    case 'cable_tv':
+      return { type, provider: data.operator || data.provider, smartCardNumber: data.smartCardNumber, plan: data.packageName || data.plan };
+    case 'education':
+      return { type, provider: data.provider, customerId: data.studentId, phone: data.phone, plan: data.examType };
+    case 'internet':
+      return { type, provider: data.provider, customerId: data.customerNumber, phone: data.phone, plan: data.plan };
+    case 'print_recharge':
+      return { type, provider: data.provider || data.network, customerId: data.printerId, plan: data.plan };
+    case 'fund_betting':
+    case 'betting':
+      return { type: 'betting', provider: data.provider, customerId: data.customerId };
+    default:
+      return { type };
+  }
+}
+
+// Best-effort service type for a row, including rows that predate metadata.service
+function serviceTypeOf(transaction) {
+  const stored = transaction.metadata?.service?.type;
+  if (stored) return stored;
+
+  if (transaction.metadata?.source === 'admin_adjustment') return 'adjustment';
+  if (transaction.metadata?.electricity?.meterNumber) return 'electricity';
+
+  const byReference = Object.entries(SERVICE_TYPES)
+    .find(([, config]) => config.legacy.reference?.test(transaction.reference));
+  if (byReference) return byReference[0];
+
+  const byCategory = Object.entries(SERVICE_TYPES)
+    .find(([, config]) => config.legacy.category === transaction.category);
+  return byCategory ? byCategory[0] : 'wallet';
+}
+
+// Who or what the row was for: phone, meter, smartcard, bank account or user
+function counterpartyOf(transaction) {
+  const metadata = transaction.metadata || {};
+  const service = metadata.service || {};
+
+  if (metadata.transfer?.recipientId) {
+    const incoming = transaction.type === 'transfer_in';
+    return {
+      name: incoming ? metadata.transfer.senderName : metadata.transfer.recipientName,
+      identifier: incoming ? metadata.transfer.senderUsername : metadata.transfer.recipientUsername
+    };
+  }
+  if (metadata.withdrawal?.accountNumber) {
+    return {
+      name: metadata.withdrawal.accountName,
+      identifier: `${metadata.withdrawal.bankName} ${metadata.withdrawal.accountNumber}`
+    };
+  }
+  if (metadata.electricity?.meterNumber) {
+    return { name: metadata.electricity.customerName, identifier: metadata.electricity.meterNumber };
+  }
+  if (metadata.betting?.customerId) {
+    return { name: metadata.betting.customerName, identifier: metadata.betting.customerId };
+  }
+
+  const identifier = service.phone || service.meterNumber || service.smartCardNumber || service.customerId;
+  return identifier ? { identifier } : null;
+}
+
+// The row shape returned by the history endpoints
+function historyItem(transaction) {
+  const serviceType = serviceTypeOf(transaction);
+  const service = transaction.metadata?.service || {};
+
+  return {
+    _id: transaction._id,
+    reference: transaction.reference,
+    type: transaction.type,
+    direction: ['credit', 'transfer_in'].includes(transaction.type) ? 'credit' : 'debit',
+    category: transaction.category,
+    status: transaction.status,
+    amount: transaction.amount,
+    description: transaction.description,
+    balanceBefore: transaction.previousBalance,
+    balanceAfter: transaction.newBalance,
+    service: {
+      type: serviceType,
+      label: SERVICE_TYPES[serviceType]?.label || 'Wallet',
+      provider: service.provider || transaction.metadata?.betting?.provider || transaction.metadata?.electricity?.provider,
+      plan: service.plan,
+      counterparty: counterpartyOf(transaction)
+    },
+    failureReason: transaction.metadata?.failureReason,
+    createdAt: transaction.createdAt,
+    completedAt: transaction.completedAt,
+    failedAt: transaction.failedAt
+  };
+}
+
+// Recharge PINs are stored in the description as "PIN: x (Serial: y) | ..."
+function rechargePinsOf(transaction) {
+  const matches = [...(transaction.description || '').matchAll(/PIN:\s*(\S+)\s*\(Serial:\s*([^)]+)\)/g)];
+  return matches.map(([, pin, serial]) => ({ pin, serial: serial.trim() }));
+}
+
+// The description a delivered recharge PIN order is stored with; the inverse
+// of rechargePinsOf
+function rechargePinDescription({ network, cardType, denomination, quantity }, pins) {
+  const pinList = pins.map(p => `PIN: ${p.pin} (Serial: ${p.serial})`).join(' | ');
+  return `${network.toUpperCase()} ${cardType.toUpperCase()} Recharge - ${quantity} card(s) x ₦${denomination} = ₦${denomination * quantity} | ${pinList}`;
+}
+
+// historyItem plus everything the detail screen shows: the full recipient,
+// what the provider said, and any tokens or PINs that were delivered
+function historyDetail(transaction) {
+  const metadata = transaction.metadata || {};
+  const service = metadata.service || {};
+  const electricity = metadata.electricity || {};
+  const betting = metadata.betting || {};
+  const pins = rechargePinsOf(transaction);
+
+  return {
+    ...historyItem(transaction),
+    details: {
+      recipient: {
+        phone: service.phone,
+        meterNumber: service.meterNumber || electricity.meterNumber,
+        meterType: electricity.meterType,
+        smartCardNumber: service.smartCardNumber,
+        customerId: service.customerId || betting.customerId,
+        customerName: electricity.customerName || betting.customerName,
+        address: electricity.customerAddress
+      },
+      provider: {
+        name: transaction.gateway?.provider,
+        reference: transaction.gateway?.gatewayReference,
+        message: betting.providerResponse?.message || transaction.gateway?.gatewayResponse?.message
+      },
+      token: electricity.token,
+      units: electricity.units,
+      pins: pins.length ? pins : undefined,
+      narration: metadata.transfer?.narration || metadata.withdrawal?.narration,
+      issue: metadata.issue?.reportedAt ? metadata.issue : undefined
+    }
+  };
+}
+
+// Cursors are opaque to clients: the (createdAt, _id) of the last row seen
+const encodeCursor = (transaction) =>
+  Buffer.from(`${transaction.createdAt.toISOString()}|${transaction._id}`).toString('base64url');
+
+function decodeCursor(cursor) {
+  const [createdAt, id] = Buffer.from(String(cursor), 'base64url').toString().split('|');
+  const date = new Date(createdAt);
+  if (Number.isNaN(date.getTime()) || !mongoose.isValidObjectId(id)) {
+    throw historyError('Invalid cursor', 'INVALID_CURSOR');
+  }
+  return { createdAt: date, _id: new mongoose.Types.ObjectId(id) };
+}
+
+const listParam = (value) => (value ? String(value).split(',').map(v => v.trim()).filter(Boolean) : []);
+
+const escapeRegex = (value) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Query filter and page size for GET /api/transactions. Throws
+// INVALID_FILTER / INVALID_CURSOR errors for bad parameters.
+function buildHistoryQuery(userId, params = {}) {
+  const clauses = [{ userId: new mongoose.Types.ObjectId(String(userId)) }];
+
+  const serviceTypes = listParam(params.serviceType);
+  const unknownService = serviceTypes.find(type => !SERVICE_TYPES[type]);
+  if (unknownService) {
+    throw historyError(`Unknown service type "${unknownService}". Use one of: ${Object.keys(SERVICE_TYPES).join(', ')}`, 'INVALID_FILTER');
+  }
+  if (serviceTypes.length) {
+    clauses.push({
+      $or: serviceTypes.flatMap(type => [
+        { 'metadata.service.type': type },
+        { 'metadata.service.type': { $exists: false }, ...SERVICE_TYPES[type].legacy }
+      ])
+    });
+  }
+
+  const categories = listParam(params.category);
+  if (categories.some(category => !CATEGORIES.includes(category))) {
+    throw historyError(`Category must be one of: ${CATEGORIES.join(', ')}`, 'INVALID_FILTER');
+  }
+  if (categories.length) clauses.push({ category: { $in: categories } });
+
+  const statuses = listParam(params.status);
+  if (statuses.some(status => !STATUSES.includes(status))) {
+    throw historyError(`Status must be one of: ${STATUSES.join(', ')}`, 'INVALID_FILTER');
+  }
+  if (statuses.length) clauses.push({ status: { $in: statuses } });
+
+  const createdAt = {};
+  for (const [param, operator] of [['from', '$gte'], ['to', '$lte']]) {
+    if (!params[param]) continue;
+    const date = new Date(params[param]);
+    if (Number.isNaN(date.getTime())) {
+      throw historyError(`"${param}" must be a date, e.g. 2025-01-31`, 'INVALID_FILTER');
+    }
+    // A bare date for "to" includes the whole day
+    if (param === 'to' && /^\d{4}-\d{2}-\d{2}$/.test(params.to)) date.setUTCHours(23, 59, 59, 999);
+    createdAt[operator] = date;
+  }
+  if (Object.keys(createdAt).length) clauses.push({ createdAt });
+
+  const amount = {};
+  for (const [param, operator] of [['minAmount', '$gte'], ['maxAmount', '$lte']]) {
+    if (params[param] === undefined || params[param] === '') continue;
+    const value = Number(params[param]);
+    if (!Number.isFinite(value) || value < 0) {
+      throw historyError(`"${param}" must be a non-negative number`, 'INVALID_FILTER');
+    }
+    amount[operator] = value;
+  }
+  if (Object.keys(amount).length) clauses.push({ amount });
+
+  const search = String(params.q || '').trim();
+  if (search) {
+    if (search.length < 3) {
+      throw historyError('Search needs at least 3 characters', 'INVALID_FILTER');
+    }
+    const pattern = new RegExp(escapeRegex(search.slice(0, 100)), 'i');
+    clauses.push({
+      $or: [
+        { reference: pattern },
+        { description: pattern },
+        { 'metadata.service.phone': pattern },
+        { 'metadata.service.meterNumber': pattern },
+        { 'metadata.service.smartCardNumber': pattern },
+        { 'metadata.service.customerId': pattern },
+        { 'metadata.electricity.meterNumber': pattern },
+        { 'metadata.betting.customerId': pattern },
+        { 'metadata.withdrawal.accountNumber': pattern },
+        { 'metadata.transfer.recipientUsername': pattern },
+        { 'metadata.transfer.senderUsername': pattern }
+      ]
+    });
+  }
+
+  if (params.cursor) {
+    const after = decodeCursor(params.cursor);
+    clauses.push({
+      $or: [
+        { createdAt: { $lt: after.createdAt } },
+        { createdAt: after.createdAt, _id: { $lt: after._id } }
+      ]
+    });
+  }
+
+  const limit = Math.min(Math.max(parseInt(params.limit, 10) || HISTORY_LIMITS.DEFAULT, 1), HISTORY_LIMITS.MAX);
+
+  return { filter: { $and: clauses }, limit };
+}
+
+module.exports = {
+  SERVICE_TYPES,
+  HISTORY_LIMITS,
+  serviceMetadataFor,
+  serviceTypeOf,
+  historyItem,
+  historyDetail,
+  rechargePinDescription,
+  encodeCursor,
+  buildHistoryQuery
+};
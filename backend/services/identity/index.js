@@ -0,0 +1,55 @@
+// services/identity - Pluggable identity verification (BVN, NIN, ID documents)
+//
+// Every adapter exposes:
+//   verifyBvn({ bvn, firstName, lastName, dateOfBirth, phone })
+//   verifyNin({ nin, firstName, lastName, dateOfBirth })
+//       -> { status: 'verified' | 'mismatch' | 'not_found', providerReference, message }
+//   verifyDocument({ idType, idNumber, expiryDate, fullName, document, selfie })
+//       -> { status: 'verified' | 'review' | 'rejected', providerReference, message, faceMatchScore? }
+//
+// document and selfie are { contentType, content: Buffer }. Methods reject
+// only on transport errors; a lookup that finds nothing resolves normally.
+//
+// An adapter that sets `advisory: true` only informs the admin reviewer; its
+// answers never approve or reject a submission on their own.
+//
+// Select the adapter with IDENTITY_PROVIDER. Only the local stub ships here;
+// real bureaus are added with registerIdentityProvider(). Outside production
+// the stub is the default; in production nothing is, and getIdentityProvider()
+// returns null so every submission goes to manual review.
+const { createStubIdentityAdapter } = require('./stubIdentityAdapter');
+
+const adapters = {
+  stub: () => createStubIdentityAdapter()
+};
+
+let activeAdapter = null;
+
+const resolveAdapterName = () => {
+  if (process.env.IDENTITY_PROVIDER) return process.env.IDENTITY_PROVIDER;
+  return process.env.NODE_ENV === 'production' ? null : 'stub';
+};
+
+const getIdentityProvider = () => {
+  if (!activeAdapter) {
+    const name = resolveAdapterName();
+    if (!name) return null;
+    if (!adapters[name]) {
+      throw new Error(`Unknown IDENTITY_PROVIDER "${name}". Expected one of: ${Object.keys(adapters).join(', ')}`);
+    }
+    activeAdapter = adapters[name]();
+    console.log(`Identity provider: ${activeAdapter.name}`);
+  }
+  return activeAdapter;
+};
+
+// Register an additional adapter factory, e.g. for a BVN/NIN bureau
+const registerIdentityProvider = (name, factory) => {
+  adapters[name] = factory;
+  activeAdapter = null;
+};
+
+module.exports = {
+  getIdentityProvider,
+  registerIdentityProvider
+};
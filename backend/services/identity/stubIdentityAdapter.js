@@ -0,0 +1,49 @@
+// Local identity provider for development: no bureau is contacted. Outcomes
+// are driven by the number submitted so every path can be exercised:
+//   BVN/NIN ...0000   not found
+//   BVN/NIN ...1111   found, but the name or date of birth does not match
+//   ID number ...0000 document rejected
+//   ID number ...1111 selfie match too weak, sent for manual review
+//   anything else     verified
+// The stub is advisory: its verdicts are stored for the reviewer, but every
+// submission checked with it waits in the admin review queue.
+
+const reference = (prefix) => `STUB_${prefix}_${Date.now()}_${Math.random().toString(36).slice(2, 8).toUpperCase()}`;
+
+const lookupResult = (number, label) => {
+  if (number.endsWith('0000')) {
+    return { status: 'not_found', providerReference: reference(label), message: `No record found for this ${label}` };
+  }
+  if (number.endsWith('1111')) {
+    return { status: 'mismatch', providerReference: reference(label), message: `${label} details do not match your profile` };
+  }
+  return { status: 'verified', providerReference: reference(label), message: `${label} verified` };
+};
+
+function createStubIdentityAdapter() {
+  return {
+    name: 'stub',
+    advisory: true,
+
+    async verifyBvn({ bvn }) {
+      return lookupResult(bvn, 'BVN');
+    },
+
+    async verifyNin({ nin }) {
+      return lookupResult(nin, 'NIN');
+    },
+
+    async verifyDocument({ idNumber }) {
+      const providerReference = reference('DOC');
+      if (idNumber.endsWith('0000')) {
+        return { status: 'rejected', providerReference, message: 'The ID document could not be read' };
+      }
+      if (idNumber.endsWith('1111')) {
+        return { status: 'review', providerReference, message: 'Selfie match below threshold', faceMatchScore: 0.62 };
+      }
+      return { status: 'verified', providerReference, message: 'Document and selfie verified', faceMatchScore: 0.97 };
+    }
+  };
+}
+
+module.exports = { createStubIdentityAdapter };
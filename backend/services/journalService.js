@@ -0,0 +1,174 @@
+const JournalEntry = require('../models/JournalEntry');
+
+// Chart of accounts. Customer wallets are liabilities (credit-normal: a
+// credit increases what we owe the customer); floats and clearing accounts
+// are assets. Provider-specific accounts are suffixed with the provider name.
+const ACCOUNTS = {
+  WALLET: 'wallet',                      // wallet:<walletId>
+  HOLDS: 'suspense:holds',               // funds held for pending purchases and payouts
+  TRANSFERS: 'suspense:transfers',       // wallet-to-wallet transfers in flight
+  UNCLASSIFIED: 'suspense:unclassified', // movements no rule below recognises
+  PROVIDER_FLOAT: 'provider_float',      // provider_float:<vtu provider>
+  PAYOUT_FLOAT: 'payout_float',          // payout_float:<payout provider>
+  COLLECTIONS: 'collections',            // collections:<gateway>, money received from banks/cards
+  FEE_INCOME: 'fee_income',
+  BONUS_EXPENSE: 'expense:bonus',
+  REFUND_ADJUSTMENTS: 'adjustments:refunds',
+  OPENING_BALANCES: 'equity:opening_balances'
+};
+
+const walletAccount = (walletId) => `${ACCOUNTS.WALLET}:${walletId}`;
+const providerAccount = (base, provider) => `${base}:${provider || 'unknown'}`;
+
+const isAdminAdjustment = (transaction) => transaction.metadata?.source === 'admin_adjustment';
+
+// Where a completed debit ends up: the provider that delivered the purchase,
+// the bank that received the payout, or our fee income
+function settlementAccountFor(transaction) {
+  if (transaction.type === 'transfer_out') return ACCOUNTS.TRANSFERS;
+  if (isAdminAdjustment(transaction)) {
+    return transaction.category === 'bonus' ? ACCOUNTS.BONUS_EXPENSE : ACCOUNTS.REFUND_ADJUSTMENTS;
+  }
+
+  switch (transaction.category) {
+    case 'payment':
+    case 'betting':
+      return providerAccount(ACCOUNTS.PROVIDER_FLOAT, transaction.gateway?.provider);
+    case 'withdrawal':
+      return providerAccount(ACCOUNTS.PAYOUT_FLOAT, transaction.gateway?.provider);
+    case 'fee':
+      return ACCOUNTS.FEE_INCOME;
+    default:
+      return ACCOUNTS.UNCLASSIFIED;
+  }
+}
+
+// The other side of a wallet credit: where the money came from
+function sourceAccountFor(transaction) {
+  if (transaction.type === 'transfer_in') return ACCOUNTS.TRANSFERS;
+
+  switch (transaction.category) {
+    case 'funding':
+      return providerAccount(ACCOUNTS.COLLECTIONS, transaction.gateway?.provider);
+    case 'bonus':
+      return ACCOUNTS.BONUS_EXPENSE;
+    case 'refund':
+      if (isAdminAdjustment(transaction)) return ACCOUNTS.REFUND_ADJUSTMENTS;
+      // A hold being released, or a failed transfer being reversed
+      return transaction.relatedTransactionId ? ACCOUNTS.HOLDS : ACCOUNTS.TRANSFERS;
+    default:
+      return ACCOUNTS.UNCLASSIFIED;
+  }
+}
+
+const isUniqueViolation = (error) => error && error.code === 11000;
+
+// Posts the journal entry for a ledger row that moved a wallet by `delta`.
+// Holds (pending debits) park the money in suspense until settled.
+async function postWalletMovement(transaction, delta, session) {
+  const amount = Math.abs(delta);
+  const wallet = { account: walletAccount(transaction.walletId), walletId: transaction.walletId };
+
+  let postings;
+  if (delta > 0) {
+    postings = [
+      { account: sourceAccountFor(transaction), debit: amount },
+      { ...wallet, credit: amount }
+    ];
+  } else {
+    const contra = transaction.status === 'pending' ? ACCOUNTS.HOLDS : settlementAccountFor(transaction);
+    postings = [
+      { ...wallet, debit: amount },
+      { account: contra, credit: amount }
+    ];
+  }
+
+  const [entry] = await JournalEntry.create([{
+    reference: transaction.reference,
+    kind: 'wallet_movement',
+    transactionId: transaction._id,
+    description: transaction.description,
+    postings
+  }], { session });
+  return entry;
+}
+
+// Moves a completed hold out of suspense to its settlement account. Safe to
+// call twice: the second call finds the entry already posted.
+async function postHoldSettlement(transaction, session) {
+  try {
+    const [entry] = await JournalEntry.create([{
+      reference: `${transaction.reference}_SETTLE`,
+      kind: 'settlement',
+      transactionId: transaction._id,
+      description: `Settlement: ${transaction.description || transaction.reference}`,
+      postings: [
+        { account: ACCOUNTS.HOLDS, debit: transaction.amount },
+        { account: settlementAccountFor(transaction), credit: transaction.amount }
+      ]
+    }], { session });
+    return entry;
+  } catch (error) {
+    if (isUniqueViolation(error)) return null;
+    throw error;
+  }
+}
+
+// Brings a wallet that predates the journal onto it. `journalBalance` is what
+// the journal already holds for the wallet (movements since adoption), so the
+// opening entry covers only the balance it had before.
+async function postOpeningBalance(wallet, journalBalance = 0) {
+  const amount = Math.round((wallet.balance - journalBalance) * 100) / 100;
+  if (!amount) return null;
+
+  const walletSide = { account: walletAccount(wallet._id), walletId: wallet._id };
+  const postings = amount > 0
+    ? [{ account: ACCOUNTS.OPENING_BALANCES, debit: amount }, { ...walletSide, credit: amount }]
+    : [{ ...walletSide, debit: -amount }, { account: ACCOUNTS.OPENING_BALANCES, credit: -amount }];
+
+  try {
+    return await JournalEntry.create({
+      reference: `OPEN_${wallet._id}`,
+      kind: 'opening_balance',
+      description: 'Opening balance on journal adoption',
+      postings
+    });
+  } catch (error) {
+    if (isUniqueViolation(error)) return null;
+    throw error;
+  }
+}
+
+// Net balance of accounts matching `match`, credit-normal (credits - debits)
+async function accountBalances(match = {}) {
+  return JournalEntry.aggregate([
+    { $unwind: '$postings' },
+    { $match: match },
+    {
+      $group: {
+        _id: { account: '$postings.account', walletId: '$postings.walletId' },
+        credits: { $sum: '$postings.credit' },
+        debits: { $sum: '$postings.debit' },
+        entries: { $sum: 1 }
+      }
+    },
+    {
+      $project: {
+        _id: 0,
+        account: '$_id.account',
+        walletId: '$_id.walletId',
+        balance: { $round: [{ $subtract: ['$credits', '$debits'] }, 2] },
+        entries: 1
+      }
+    }
+  ]);
+}
+
+module.exports = {
+  ACCOUNTS,
+  walletAccount,
+  postWalletMovement,
+  postHoldSettlement,
+  postOpeningBalance,
+  accountBalances
+};
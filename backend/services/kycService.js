@@ -0,0 +1,488 @@
+const mongoose = require('mongoose');
+const User = require('../models/User');
+const KycSubmission = require('../models/KycSubmission');
+const Transaction = require('../models/Transaction');
+const { getIdentityProvider } = require('./identity');
+const { getNotificationSender } = require('./notifications');
+const { KYC_TIER_LIMITS } = require('../config/limits');
+
+const KYC_TIERS = {
+  1: { name: 'Tier 1', requirements: ['BVN or NIN', 'Date of birth'] },
+  2: { name: 'Tier 2', requirements: ['Government-issued ID', 'Selfie'] },
+  3: { name: 'Tier 3', requirements: ['Proof of address (utility bill, bank statement or tenancy agreement)'] }
+};
+
+const ID_TYPES = ['national_id', 'drivers_license', 'voters_card', 'passport'];
+const PROOF_TYPES = ['utility_bill', 'bank_statement', 'tenancy_agreement'];
+
+// Uploads arrive base64-encoded in the JSON body
+const MAX_DOCUMENT_BYTES = 2 * 1024 * 1024;
+const IMAGE_TYPES = ['image/jpeg', 'image/png'];
+
+// Leading bytes of each accepted file type, so a mislabelled upload is refused
+const FILE_SIGNATURES = {
+  'image/jpeg': [0xff, 0xd8, 0xff],
+  'image/png': [0x89, 0x50, 0x4e, 0x47],
+  'application/pdf': [0x25, 0x50, 0x44, 0x46]
+};
+
+const kycError = (message, errorCode, status = 400) => {
+  const error = new Error(message);
+  error.errorCode = errorCode;
+  error.status = status;
+  return error;
+};
+
+const maskNumber = (value) => (value ? `*******${value.slice(-4)}` : undefined);
+
+const parseDate = (value, label) => {
+  const date = new Date(value);
+  if (!value || !/^\d{4}-\d{2}-\d{2}$/.test(String(value)) || Number.isNaN(date.getTime())) {
+    throw kycError(`${label} must be a date in YYYY-MM-DD format`, 'INVALID_DATE');
+  }
+  return date;
+};
+
+// Decodes an upload of the form { data: base64 (or a data: URL), contentType }
+function parseDocument(upload, kind, allowedTypes, label) {
+  if (!upload || !upload.data) {
+    throw kycError(`${label} is required`, 'DOCUMENT_REQUIRED');
+  }
+
+  const contentType = String(upload.contentType || '').toLowerCase();
+  if (!allowedTypes.includes(contentType)) {
+    throw kycError(`${label} must be ${allowedTypes.map(t => t.split('/')[1].toUpperCase()).join(' or ')}`, 'INVALID_DOCUMENT');
+  }
+
+  const data = Buffer.from(String(upload.data).replace(/^data:[^;]+;base64,/, ''), 'base64');
+  if (!data.length) {
+    throw kycError(`${label} is empty`, 'INVALID_DOCUMENT');
+  }
+  if (data.length > MAX_DOCUMENT_BYTES) {
+    throw kycError(`${label} must be smaller than ${MAX_DOCUMENT_BYTES / (1024 * 1024)}MB`, 'DOCUMENT_TOO_LARGE', 413);
+  }
+  if (!FILE_SIGNATURES[contentType].every((byte, index) => data[index] === byte)) {
+    throw kycError(`${label} is not a valid ${contentType.split('/')[1].toUpperCase()} file`, 'INVALID_DOCUMENT');
+  }
+
+  return { kind, contentType, size: data.length, data };
+}
+
+// A user moves up one tier at a time, with nothing else waiting for review
+async function assertCanSubmit(user, tier) {
+  const level = user.kycLevel || 0;
+  if (tier <= level) {
+    throw kycError(`You are already verified for ${KYC_TIERS[tier].name}`, 'TIER_ALREADY_VERIFIED', 409);
+  }
+  if (tier > level + 1) {
+    throw kycError(`Complete ${KYC_TIERS[level + 1].name} first`, 'PREVIOUS_TIER_REQUIRED');
+  }
+  if (await KycSubmission.exists({ userId: user._id, status: 'pending_review' })) {
+    throw kycError('Your last submission is still being reviewed', 'KYC_SUBMISSION_PENDING', 409);
+  }
+}
+
+// Copies an approved submission onto the user and raises their tier
+async function applyApprovedSubmission(submission) {
+  const { details } = submission;
+  const set = {
+    kycLevel: submission.tier,
+    'kycData.verificationStatus': 'verified'
+  };
+
+  if (submission.tier === 1) {
+    if (details.bvn) set['kycData.bvn'] = details.bvn;
+    if (details.nin) set['kycData.nin'] = details.nin;
+    if (details.dateOfBirth) set.dateOfBirth = details.dateOfBirth;
+  } else if (submission.tier === 2) {
+    set['kycData.idType'] = details.idType;
+    set['kycData.idNumber'] = details.idNumber;
+    if (details.idExpiryDate) set['kycData.idExpiryDate'] = details.idExpiryDate;
+  } else if (submission.tier === 3) {
+    set['address.street'] = details.address.street;
+    set['address.city'] = details.address.city;
+    set['address.state'] = details.address.state;
+  }
+
+  // Never lower a tier, e.g. if an admin raised it by other means meanwhile
+  await User.updateOne({ _id: submission.userId, kycLevel: { $lt: submission.tier } }, { $set: set });
+}
+
+async function notifyDecision(submission) {
+  try {
+    const user = await User.findById(submission.userId).select('email name');
+    if (!user?.email) return;
+
+    const tierName = KYC_TIERS[submission.tier].name;
+    const limits = KYC_TIER_LIMITS[submission.tier];
+    await getNotificationSender().sendEmail({
+      to: user.email,
+      subject: submission.status === 'approved'
+        ? `You're verified for ${tierName}`
+        : `We couldn't verify your ${tierName} details`,
+      text: submission.status === 'approved'
+        ? [
+          `Hello ${user.name},`,
+          '',
+          `Your account has been upgraded to ${tierName}.`,
+          `You can now spend up to ₦${limits.perTransaction.toLocaleString()} per transaction and ₦${limits.daily.toLocaleString()} a day.`
+        ].join('\n')
+        : [
+          `Hello ${user.name},`,
+          '',
+          `We couldn't approve your ${tierName} verification (${submission.reference}).`,
+          `Reason: ${submission.rejectionReason || 'The details could not be verified'}`,
+          '',
+          'You can submit again from the Account Verification screen in the app.'
+        ].join('\n')
+    });
+  } catch (error) {
+    console.error(`KYC decision email for ${submission.reference} failed:`, error.message);
+  }
+}
+
+// Saves a new submission with the state the provider's answer puts it in.
+// The partial unique index turns a concurrent second submission into
+// KYC_SUBMISSION_PENDING.
+async function recordSubmission(user, fields) {
+  let submission;
+  try {
+    submission = await KycSubmission.create({
+      userId: user._id,
+      reference: Transaction.generateReference('KYC'),
+      ...fields,
+      decidedAt: fields.status === 'pending_review' ? undefined : new Date()
+    });
+  } catch (error) {
+    if (error.code === 11000) {
+      throw kycError('Your last submission is still being reviewed', 'KYC_SUBMISSION_PENDING', 409);
+    }
+    throw error;
+  }
+
+  if (submission.status === 'approved') {
+    await applyApprovedSubmission(submission);
+  } else {
+    const verificationStatus = submission.status === 'rejected' ? 'rejected' : 'pending';
+    await User.updateOne({ _id: user._id }, { $set: { 'kycData.verificationStatus': verificationStatus } });
+  }
+  return submission;
+}
+
+// Calls the identity provider; a transport failure, a missing provider or an
+// advisory (stub) answer sends the submission to manual review instead of
+// deciding it
+async function checkWithProvider(method, input) {
+  const provider = getIdentityProvider();
+  if (!provider) {
+    return { provider: 'none', status: 'unavailable', message: 'No identity provider configured', checkedAt: new Date() };
+  }
+
+  try {
+    const result = await provider[method](input);
+    return { provider: provider.name, ...result, advisory: Boolean(provider.advisory), checkedAt: new Date() };
+  } catch (error) {
+    console.error(`Identity provider ${method} failed:`, error.message);
+    return { provider: provider.name, status: 'error', message: 'Provider unavailable', checkedAt: new Date() };
+  }
+}
+
+const splitName = (name = '') => {
+  const [firstName, ...rest] = name.trim().split(/\s+/);
+  return { firstName, lastName: rest.join(' ') };
+};
+
+// Tier 1: BVN and/or NIN checked against the user's name and date of birth
+async function submitTier1(user, { bvn, nin, dateOfBirth }) {
+  await assertCanSubmit(user, 1);
+
+  const cleanBvn = bvn ? String(bvn).trim() : '';
+  const cleanNin = nin ? String(nin).trim() : '';
+  if (!cleanBvn && !cleanNin) {
+    throw kycError('Provide your BVN or NIN', 'IDENTITY_NUMBER_REQUIRED');
+  }
+  if (cleanBvn && !/^\d{11}$/.test(cleanBvn)) {
+    throw kycError('BVN must be 11 digits', 'INVALID_BVN');
+  }
+  if (cleanNin && !/^\d{11}$/.test(cleanNin)) {
+    throw kycError('NIN must be 11 digits', 'INVALID_NIN');
+  }
+  const dob = parseDate(dateOfBirth, 'Date of birth');
+
+  // One identity, one account
+  const clauses = [];
+  if (cleanBvn) clauses.push({ 'kycData.bvn': cleanBvn });
+  if (cleanNin) clauses.push({ 'kycData.nin': cleanNin });
+  if (await User.exists({ _id: { $ne: user._id }, $or: clauses })) {
+    throw kycError('This BVN or NIN is already linked to another account', 'IDENTITY_IN_USE', 409);
+  }
+
+  const person = { ...splitName(user.name), dateOfBirth: dob, phone: user.phone };
+  const verification = cleanBvn
+    ? await checkWithProvider('verifyBvn', { bvn: cleanBvn, ...person })
+    : await checkWithProvider('verifyNin', { nin: cleanNin, ...person });
+
+  const status = verification.advisory ? 'pending_review'
+    : verification.status === 'verified' ? 'approved'
+      : verification.status === 'not_found' ? 'rejected'
+        : 'pending_review';
+
+  const submission = await recordSubmission(user, {
+    tier: 1,
+    status,
+    details: { bvn: cleanBvn || undefined, nin: cleanNin || undefined, dateOfBirth: dob },
+    verification,
+    rejectionReason: status === 'rejected' ? verification.message : undefined
+  });
+
+  if (status !== 'pending_review') await notifyDecision(submission);
+  return submission;
+}
+
+// Tier 2: a government ID photo and a selfie for a face match
+async function submitTier2(user, { idType, idNumber, idExpiryDate, idFront, idBack, selfie }) {
+  await assertCanSubmit(user, 2);
+
+  if (!ID_TYPES.includes(idType)) {
+    throw kycError(`ID type must be one of: ${ID_TYPES.join(', ')}`, 'INVALID_ID_TYPE');
+  }
+  const cleanIdNumber = String(idNumber || '').trim().toUpperCase();
+  if (!/^[A-Z0-9-]{5,20}$/.test(cleanIdNumber)) {
+    throw kycError('Enter the ID number as printed on the document', 'INVALID_ID_NUMBER');
+  }
+  let expiry;
+  if (idExpiryDate) {
+    expiry = parseDate(idExpiryDate, 'Expiry date');
+    if (expiry < new Date()) {
+      throw kycError('This ID has expired', 'ID_EXPIRED');
+    }
+  }
+
+  const documents = [
+    parseDocument(idFront, 'id_front', IMAGE_TYPES, 'Photo of the front of your ID'),
+    ...(idBack ? [parseDocument(idBack, 'id_back', IMAGE_TYPES, 'Photo of the back of your ID')] : []),
+    parseDocument(selfie, 'selfie', IMAGE_TYPES, 'Selfie')
+  ];
+
+  const verification = await checkWithProvider('verifyDocument', {
+    idType,
+    idNumber: cleanIdNumber,
+    expiryDate: expiry,
+    fullName: user.name,
+    document: { contentType: documents[0].contentType, content: documents[0].data },
+    selfie: { contentType: documents[documents.length - 1].contentType, content: documents[documents.length - 1].data }
+  });
+
+  const status = verification.advisory ? 'pending_review'
+    : verification.status === 'verified' ? 'approved'
+      : verification.status === 'rejected' ? 'rejected'
+        : 'pending_review';
+
+  const submission = await recordSubmission(user, {
+    tier: 2,
+    status,
+    details: { idType, idNumber: cleanIdNumber, idExpiryDate: expiry },
+    documents,
+    verification,
+    rejectionReason: status === 'rejected' ? verification.message : undefined
+  });
+
+  if (status !== 'pending_review') await notifyDecision(submission);
+  return submission;
+}
+
+// Tier 3: proof of address, always checked by an admin
+async function submitTier3(user, { address, proofType, proof }) {
+  await assertCanSubmit(user, 3);
+
+  const street = String(address?.street || '').trim();
+  const city = String(address?.city || '').trim();
+  const state = String(address?.state || '').trim();
+  if (street.length < 5 || !city || !state) {
+    throw kycError('Enter your street address, city and state', 'INVALID_ADDRESS');
+  }
+  if (!PROOF_TYPES.includes(proofType)) {
+    throw kycError(`Proof type must be one of: ${PROOF_TYPES.join(', ')}`, 'INVALID_PROOF_TYPE');
+  }
+
+  return recordSubmission(user, {
+    tier: 3,
+    status: 'pending_review',
+    details: {
+      address: { street: street.slice(0, 200), city: city.slice(0, 100), state: state.slice(0, 100) },
+      proofType
+    },
+    documents: [parseDocument(proof, 'address_proof', [...IMAGE_TYPES, 'application/pdf'], 'Proof of address')]
+  });
+}
+
+// What the app shows on the verification screen
+async function getKycStatus(user) {
+  const level = user.kycLevel || 0;
+  const [pending, lastRejected] = await Promise.all([
+    KycSubmission.findOne({ userId: user._id, status: 'pending_review' }),
+    KycSubmission.findOne({ userId: user._id, status: 'rejected', tier: level + 1 }).sort({ decidedAt: -1 })
+  ]);
+
+  const tierStatus = (tier) => {
+    if (tier <= level) return 'verified';
+    if (pending && pending.tier === tier) return 'pending_review';
+    if (tier === level + 1) return 'available';
+    return 'locked';
+  };
+
+  return {
+    kycLevel: level,
+    limits: KYC_TIER_LIMITS[level],
+    tiers: Object.entries(KYC_TIERS).map(([key, tier]) => ({
+      level: Number(key),
+      name: tier.name,
+      requirements: tier.requirements,
+      limits: KYC_TIER_LIMITS[key],
+      status: tierStatus(Number(key))
+    })),
+    pendingSubmission: pending ? submissionSummary(pending) : null,
+    lastRejection: lastRejected && !pending ? {
+      tier: lastRejected.tier,
+      reason: lastRejected.rejectionReason,
+      decidedAt: lastRejected.decidedAt
+    } : null
+  };
+}
+
+// ---------- Admin review ----------
+
+async function listSubmissions({ status = 'pending_review', tier, limit } = {}) {
+  const filter = {};
+  if (status !== 'all') filter.status = status;
+  if (tier) filter.tier = Number(tier);
+
+  // The review queue is worked oldest first; history is read newest first
+  const submissions = await KycSubmission.find(filter)
+    .sort({ createdAt: status === 'pending_review' ? 1 : -1 })
+    .limit(Math.min(parseInt(limit, 10) || 50, 200))
+    .populate('userId', 'name username email phone kycLevel');
+
+  return submissions.map(s => submissionSummary(s, { forAdmin: true }));
+}
+
+async function findSubmission(submissionId) {
+  if (!mongoose.isValidObjectId(submissionId)) {
+    throw kycError('Submission not found', 'SUBMISSION_NOT_FOUND', 404);
+  }
+  const submission = await KycSubmission.findById(submissionId)
+    .populate('userId', 'name username email phone kycLevel dateOfBirth');
+  if (!submission) throw kycError('Submission not found', 'SUBMISSION_NOT_FOUND', 404);
+  return submission;
+}
+
+async function getSubmissionDocument(submissionId, documentId) {
+  if (!mongoose.isValidObjectId(submissionId) || !mongoose.isValidObjectId(documentId)) {
+    throw kycError('Document not found', 'DOCUMENT_NOT_FOUND', 404);
+  }
+  const submission = await KycSubmission.findById(submissionId).select('+documents.data');
+  const document = submission?.documents.id(documentId);
+  if (!document) throw kycError('Document not found', 'DOCUMENT_NOT_FOUND', 404);
+  return document;
+}
+
+// Claims a pending submission for a decision so two reviewers can't both decide it
+async function decideSubmission(submissionId, adminId, update) {
+  const existing = await findSubmission(submissionId);
+  if (existing.status !== 'pending_review') {
+    throw kycError(`Submission is already ${existing.status.replace('_', ' ')}`, 'SUBMISSION_NOT_PENDING', 409);
+  }
+  if (String(existing.userId._id) === String(adminId)) {
+    throw kycError('Another admin must review your own submission', 'SELF_REVIEW_NOT_ALLOWED', 403);
+  }
+
+  const submission = await KycSubmission.findOneAndUpdate(
+    { _id: existing._id, status: 'pending_review' },
+    { $set: { ...update, reviewedBy: adminId, decidedAt: new Date() } },
+    { new: true }
+  );
+  if (!submission) {
+    throw kycError('Submission was decided by another admin', 'SUBMISSION_NOT_PENDING', 409);
+  }
+  return submission;
+}
+
+async function approveSubmission(submissionId, adminId, note) {
+  const submission = await decideSubmission(submissionId, adminId, {
+    status: 'approved',
+    reviewNote: note ? String(note).trim().slice(0, 500) : undefined
+  });
+  await applyApprovedSubmission(submission);
+  await notifyDecision(submission);
+  return submission;
+}
+
+async function rejectSubmission(submissionId, adminId, reason) {
+  const cleanReason = String(reason || '').trim();
+  if (cleanReason.length < 5) {
+    throw kycError('Give the customer a reason so they can fix their submission', 'REASON_REQUIRED');
+  }
+
+  const submission = await decideSubmission(submissionId, adminId, {
+    status: 'rejected',
+    rejectionReason: cleanReason.slice(0, 500)
+  });
+  await User.updateOne({ _id: submission.userId }, { $set: { 'kycData.verificationStatus': 'rejected' } });
+  await notifyDecision(submission);
+  return submission;
+}
+
+// BVN and NIN are masked everywhere, including for admins
+const submissionSummary = (submission, { forAdmin = false } = {}) => {
+  const { details = {} } = submission;
+  const user = submission.populated('userId') ? submission.userId : null;
+
+  return {
+    _id: submission._id,
+    reference: submission.reference,
+    tier: submission.tier,
+    status: submission.status,
+    details: {
+      bvn: maskNumber(details.bvn),
+      nin: maskNumber(details.nin),
+      dateOfBirth: forAdmin ? details.dateOfBirth : undefined,
+      idType: details.idType,
+      idNumber: forAdmin ? details.idNumber : maskNumber(details.idNumber),
+      idExpiryDate: details.idExpiryDate,
+      address: details.address?.street ? details.address : undefined,
+      proofType: details.proofType
+    },
+    documents: submission.documents.map(d => ({ _id: d._id, kind: d.kind, contentType: d.contentType, size: d.size })),
+    verification: forAdmin ? submission.verification : undefined,
+    user: forAdmin && user ? {
+      _id: user._id,
+      name: user.name,
+      username: user.username,
+      email: user.email,
+      phone: user.phone,
+      kycLevel: user.kycLevel
+    } : undefined,
+    rejectionReason: submission.rejectionReason,
+    reviewNote: forAdmin ? submission.reviewNote : undefined,
+    reviewedBy: forAdmin ? submission.reviewedBy : undefined,
+    createdAt: submission.createdAt,
+    decidedAt: submission.decidedAt
+  };
+};
+
+module.exports = {
+  KYC_TIERS,
+  ID_TYPES,
+  PROOF_TYPES,
+  MAX_DOCUMENT_BYTES,
+  submitTier1,
+  submitTier2,
+  submitTier3,
+  getKycStatus,
+  listSubmissions,
+  findSubmission,
+  getSubmissionDocument,
+  approveSubmission,
+  rejectSubmission,
+  submissionSummary
+};
@@ -0,0 +1,187 @@
+const mongoose = require('mongoose');
+const User = require('../models/User');
+const Wallet = require('../models/Wallet');
+const Transaction = require('../models/Transaction');
+const LedgerAdjustment = require('../models/LedgerAdjustment');
+
+// Adjustments above this amount need a second admin to approve them
+const APPROVAL_THRESHOLD = Number(process.env.ADJUSTMENT_APPROVAL_THRESHOLD) || 50000;
+
+const DIRECTIONS = ['credit', 'debit'];
+const CATEGORIES = ['bonus', 'refund'];
+
+const adjustmentError = (message, errorCode, status = 400) => {
+  const error = new Error(message);
+  error.errorCode = errorCode;
+  error.status = status;
+  return error;
+};
+
+// Writes the ledger row for an approved (or auto-approved) adjustment. The
+// adjustment reference is the ledger reference, so it can only apply once.
+async function applyAdjustment(adjustment) {
+  const wallet = await Wallet.findById(adjustment.walletId);
+  const move = adjustment.direction === 'credit' ? 'credit' : 'debit';
+
+  try {
+    const { transaction } = await wallet[move](
+      adjustment.amount,
+      `Balance adjustment: ${adjustment.reason}`,
+      adjustment.reference,
+      {
+        category: adjustment.category,
+        metadata: {
+          source: 'admin_adjustment',
+          notes: adjustment.reason,
+          adjustment: {
+            adjustmentId: adjustment._id,
+            reason: adjustment.reason,
+            requestedBy: adjustment.requestedBy,
+            approvedBy: adjustment.approvedBy
+          }
+        }
+      }
+    );
+
+    adjustment.status = 'applied';
+    adjustment.transactionId = transaction._id;
+    adjustment.appliedAt = new Date();
+  } catch (error) {
+    if (error.code === 11000) {
+      const existing = await Transaction.findOne({ reference: adjustment.reference });
+      adjustment.status = 'applied';
+      adjustment.transactionId = existing?._id;
+    } else if (error.errorCode === 'INSUFFICIENT_BALANCE') {
+      adjustment.status = 'failed';
+      adjustment.failureReason = error.message;
+    } else {
+      throw error;
+    }
+  }
+
+  return adjustment.save();
+}
+
+// Records an adjustment by `adminId` and applies it unless it is above the
+// approval threshold, in which case it waits in `pending_approval`.
+async function requestAdjustment({ adminId, userId, direction, amount, category, reason }) {
+  if (!DIRECTIONS.includes(direction)) {
+    throw adjustmentError('Direction must be credit or debit', 'INVALID_DIRECTION');
+  }
+  if (!CATEGORIES.includes(category)) {
+    throw adjustmentError('Category must be bonus or refund', 'INVALID_CATEGORY');
+  }
+  if (!Number.isFinite(amount) || amount <= 0 || Math.abs(Math.round(amount * 100) - amount * 100) > 1e-6) {
+    throw adjustmentError('Amount must be a positive naira amount with at most 2 decimal places', 'INVALID_AMOUNT');
+  }
+  const cleanReason = String(reason || '').trim();
+  if (cleanReason.length < 10) {
+    throw adjustmentError('Give a reason of at least 10 characters for the audit trail', 'REASON_REQUIRED');
+  }
+  if (!mongoose.isValidObjectId(userId)) {
+    throw adjustmentError('Provide a valid userId', 'INVALID_USER');
+  }
+
+  const user = await User.findById(userId);
+  if (!user) throw adjustmentError('User not found', 'USER_NOT_FOUND', 404);
+
+  const wallet = await Wallet.findByUserId(user._id) || await Wallet.createForUser(user._id);
+  const needsApproval = amount > APPROVAL_THRESHOLD;
+
+  const adjustment = await LedgerAdjustment.create({
+    userId: user._id,
+    walletId: wallet._id,
+    direction,
+    amount,
+    category,
+    reason: cleanReason,
+    reference: Transaction.generateReference('ADJ'),
+    status: needsApproval ? 'pending_approval' : 'approved',
+    requestedBy: adminId
+  });
+
+  return needsApproval ? adjustment : applyAdjustment(adjustment);
+}
+
+// Loads a pending adjustment for a decision by `adminId`, who must not be
+// the admin that requested it
+async function pendingAdjustmentFor(adjustmentId, adminId) {
+  if (!mongoose.isValidObjectId(adjustmentId)) {
+    throw adjustmentError('Adjustment not found', 'ADJUSTMENT_NOT_FOUND', 404);
+  }
+
+  const adjustment = await LedgerAdjustment.findById(adjustmentId);
+  if (!adjustment) throw adjustmentError('Adjustment not found', 'ADJUSTMENT_NOT_FOUND', 404);
+  if (adjustment.status !== 'pending_approval') {
+    throw adjustmentError(`Adjustment is already ${adjustment.status.replace('_', ' ')}`, 'ADJUSTMENT_NOT_PENDING', 409);
+  }
+  if (String(adjustment.requestedBy) === String(adminId)) {
+    throw adjustmentError('Another admin must review this adjustment', 'SELF_APPROVAL_NOT_ALLOWED', 403);
+  }
+  return adjustment;
+}
+
+async function approveAdjustment(adjustmentId, adminId) {
+  await pendingAdjustmentFor(adjustmentId, adminId);
+
+  // Claim it atomically so two approvers cannot both apply it
+  const adjustment = await LedgerAdjustment.findOneAndUpdate(
+    { _id: adjustmentId, status: 'pending_approval' },
+    { $set: { status: 'approved', approvedBy: adminId, decidedAt: new Date() } },
+    { new: true }
+  );
+  if (!adjustment) {
+    throw adjustmentError('Adjustment was decided by another admin', 'ADJUSTMENT_NOT_PENDING', 409);
+  }
+
+  return applyAdjustment(adjustment);
+}
+
+async function rejectAdjustment(adjustmentId, adminId, reason) {
+  await pendingAdjustmentFor(adjustmentId, adminId);
+
+  const adjustment = await LedgerAdjustment.findOneAndUpdate(
+    { _id: adjustmentId, status: 'pending_approval' },
+    {
+      $set: {
+        status: 'rejected',
+        rejectedBy: adminId,
+        rejectionReason: reason ? String(reason).trim().slice(0, 500) : undefined,
+        decidedAt: new Date()
+      }
+    },
+    { new: true }
+  );
+  if (!adjustment) {
+    throw adjustmentError('Adjustment was decided by another admin', 'ADJUSTMENT_NOT_PENDING', 409);
+  }
+  return adjustment;
+}
+
+const adjustmentSummary = (adjustment) => ({
+  _id: adjustment._id,
+  reference: adjustment.reference,
+  userId: adjustment.userId,
+  direction: adjustment.direction,
+  amount: adjustment.amount,
+  category: adjustment.category,
+  reason: adjustment.reason,
+  status: adjustment.status,
+  requestedBy: adjustment.requestedBy,
+  approvedBy: adjustment.approvedBy,
+  rejectedBy: adjustment.rejectedBy,
+  rejectionReason: adjustment.rejectionReason,
+  failureReason: adjustment.failureReason,
+  transactionId: adjustment.transactionId,
+  createdAt: adjustment.createdAt,
+  decidedAt: adjustment.decidedAt,
+  appliedAt: adjustment.appliedAt
+});
+
+module.exports = {
+  APPROVAL_THRESHOLD,
+  requestAdjustment,
+  approveAdjustment,
+  rejectAdjustment,
+  adjustmentSummary
+};
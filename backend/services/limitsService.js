@@ -0,0 +1,145 @@
+const mongoose = require('mongoose');
+const Transaction = require('../models/Transaction');
+const { KYC_TIER_LIMITS, LIMIT_WINDOWS, getTierLimits } = require('../config/limits');
+
+// Debits that count towards spend. Fees ride along with the withdrawal they
+// belong to, and admin corrections are not the customer's spending.
+const SPEND_TYPES = ['debit', 'transfer_out'];
+const SPEND_STATUSES = ['pending', 'completed'];
+
+const limitError = (message, errorCode, status = 403, extra = {}) => {
+  const error = new Error(message);
+  error.errorCode = errorCode;
+  error.status = status;
+  Object.assign(error, extra);
+  return error;
+};
+
+const roundNaira = (amount) => Math.round(amount * 100) / 100;
+
+// Whether a ledger row counts towards the spending limits
+const countsTowardsLimits = (transaction) =>
+  SPEND_TYPES.includes(transaction.type) &&
+  transaction.category !== 'fee' &&
+  transaction.metadata?.source !== 'admin_adjustment';
+
+// Total debited from the wallet over the rolling daily and monthly windows.
+// Pending holds count, so a purchase still waiting on its provider cannot be
+// used to slip past the limit. `excludeTransactionId` leaves out the debit
+// being checked; `session` reads inside the caller's transaction.
+async function getSpend(walletId, { now = new Date(), excludeTransactionId, session } = {}) {
+  const dayStart = new Date(now.getTime() - LIMIT_WINDOWS.daily);
+  const monthStart = new Date(now.getTime() - LIMIT_WINDOWS.monthly);
+
+  const match = {
+    walletId,
+    type: { $in: SPEND_TYPES },
+    status: { $in: SPEND_STATUSES },
+    category: { $ne: 'fee' },
+    'metadata.source': { $ne: 'admin_adjustment' },
+    createdAt: { $gte: monthStart }
+  };
+  if (excludeTransactionId) match._id = { $ne: excludeTransactionId };
+
+  const [totals] = await Transaction.aggregate([
+    { $match: match },
+    {
+      $group: {
+        _id: null,
+        monthly: { $sum: '$amount' },
+        daily: { $sum: { $cond: [{ $gte: ['$createdAt', dayStart] }, '$amount', 0] } }
+      }
+    }
+  ]).session(session || null);
+
+  return {
+    daily: roundNaira(totals?.daily || 0),
+    monthly: roundNaira(totals?.monthly || 0)
+  };
+}
+
+// The lower of the KYC tier cap and the wallet's own cap wins
+const windowLimit = (tierLimit, walletLimit, used) => {
+  const fromWallet = Number.isFinite(walletLimit) && walletLimit < tierLimit;
+  const limit = fromWallet ? walletLimit : tierLimit;
+  return {
+    limit,
+    used,
+    remaining: Math.max(0, roundNaira(limit - used)),
+    source: fromWallet ? 'wallet' : 'kyc'
+  };
+};
+
+// Current limits and how much of each the user has used. Shown by the app
+// before checkout and attached to every LIMIT_EXCEEDED error.
+async function getLimitUsage(user, wallet, options = {}) {
+  const tier = getTierLimits(user.kycLevel);
+  const spend = await getSpend(wallet._id, options);
+  const nextTier = KYC_TIER_LIMITS[(user.kycLevel || 0) + 1];
+
+  return {
+    kycLevel: user.kycLevel || 0,
+    perTransaction: tier.perTransaction,
+    daily: windowLimit(tier.daily, wallet.dailyLimit, spend.daily),
+    monthly: windowLimit(tier.monthly, wallet.monthlyLimit, spend.monthly),
+    nextTier: nextTier ? { kycLevel: (user.kycLevel || 0) + 1, ...nextTier } : null
+  };
+}
+
+// Throws LIMIT_EXCEEDED when `amount` would break the per-transaction,
+// daily or monthly limit. error.limit names the limit that was hit and its
+// remaining headroom; error.usage has the full picture. Resolves to the
+// usage before this debit otherwise.
+async function assertWithinLimits(user, wallet, amount, options = {}) {
+  const usage = await getLimitUsage(user, wallet, options);
+  const upgradeHint = usage.nextTier ? ' Upgrade your KYC level to raise your limits.' : '';
+
+  if (amount > usage.perTransaction) {
+    throw limitError(
+      `The most you can spend in one transaction is ₦${usage.perTransaction.toLocaleString()}.${upgradeHint}`,
+      'LIMIT_EXCEEDED',
+      403,
+      {
+        limit: { period: 'transaction', limit: usage.perTransaction, remaining: usage.perTransaction, requested: amount, source: 'kyc' },
+        usage
+      }
+    );
+  }
+
+  for (const period of ['daily', 'monthly']) {
+    const window = usage[period];
+    if (amount > window.remaining) {
+      const hint = window.source === 'kyc' ? upgradeHint : '';
+      const label = period === 'daily' ? '24-hour' : '30-day';
+      throw limitError(
+        window.remaining > 0
+          ? `This would exceed your ${label} limit of ₦${window.limit.toLocaleString()}. You can spend up to ₦${window.remaining.toLocaleString()} more.${hint}`
+          : `You have reached your ${label} limit of ₦${window.limit.toLocaleString()}.${hint}`,
+        'LIMIT_EXCEEDED',
+        403,
+        { limit: { period, ...window, requested: amount }, usage }
+      );
+    }
+  }
+
+  return usage;
+}
+
+// Enforced by Wallet for every spending debit, after its ledger row is
+// written. Inside a transaction the wallet update has already serialized
+// concurrent debits; without one, each debit's check sees every row written
+// before it, so the rows that survive can never add up past a limit.
+async function assertDebitWithinLimits(wallet, transaction, session) {
+  const user = await mongoose.model('User').findById(transaction.userId).select('kycLevel').session(session || null);
+  return assertWithinLimits(user || {}, wallet, transaction.amount, {
+    excludeTransactionId: transaction._id,
+    session
+  });
+}
+
+module.exports = {
+  countsTowardsLimits,
+  getLimitUsage,
+  assertWithinLimits,
+  assertDebitWithinLimits
+};
@@ -0,0 +1,44 @@
+// services/notifications - Pluggable email/SMS delivery
+//
+// Every sender exposes:
+//   sendEmail({ to, subject, text, attachments }) and sendSms({ to, text })
+// Both resolve once the message has been handed off and reject on failure.
+// attachments is optional: [{ filename, content: Buffer, contentType }].
+//
+// Select the sender with NOTIFICATION_SENDER=console|file. The file sender
+// writes JSON lines to NOTIFICATION_LOG_FILE (default logs/notifications.log).
+// Real gateways are added with registerNotificationSender().
+const path = require('path');
+const { createConsoleSender, createFileSender } = require('./localSenders');
+
+const senders = {
+  console: () => createConsoleSender(),
+  file: () => createFileSender({
+    filePath: process.env.NOTIFICATION_LOG_FILE || path.join(__dirname, '..', '..', 'logs', 'notifications.log')
+  })
+};
+
+let activeSender = null;
+
+const getNotificationSender = () => {
+  if (!activeSender) {
+    const name = process.env.NOTIFICATION_SENDER || 'console';
+    if (!senders[name]) {
+      throw new Error(`Unknown NOTIFICATION_SENDER "${name}". Expected one of: ${Object.keys(senders).join(', ')}`);
+    }
+    activeSender = senders[name]();
+    console.log(`Notification sender: ${activeSender.name}`);
+  }
+  return activeSender;
+};
+
+// Register an additional sender factory, e.g. for an SMS gateway
+const registerNotificationSender = (name, factory) => {
+  senders[name] = factory;
+  activeSender = null;
+};
+
+module.exports = {
+  getNotificationSender,
+  registerNotificationSender
+};
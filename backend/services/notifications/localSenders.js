@@ -0,0 +1,53 @@
+const fs = require('fs');
+const path = require('path');
+
+// Attachments are described rather than stored by the local senders
+const describeAttachments = (attachments = []) =>
+  attachments.map(({ filename, contentType, content }) => ({ filename, contentType, size: content ? content.length : 0 }));
+
+// Prints messages to the server log instead of delivering them
+function createConsoleSender() {
+  return {
+    name: 'console',
+
+    async sendEmail({ to, subject, text, attachments }) {
+      const attached = describeAttachments(attachments)
+        .map(a => `\n📎 ${a.filename} (${a.contentType}, ${a.size} bytes)`)
+        .join('');
+      console.log(`📧 [email to ${to}] ${subject}\n${text}${attached}`);
+      return { delivered: true };
+    },
+
+    async sendSms({ to, text }) {
+      console.log(`📱 [sms to ${to}] ${text}`);
+      return { delivered: true };
+    }
+  };
+}
+
+// Appends messages as JSON lines to a file, handy for reading OTPs in local
+// testing and automated flows
+function createFileSender({ filePath }) {
+  const append = async (entry) => {
+    await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.promises.appendFile(filePath, `${JSON.stringify({ ...entry, sentAt: new Date().toISOString() })}\n`);
+    return { delivered: true };
+  };
+
+  return {
+    name: 'file',
+
+    sendEmail({ to, subject, text, attachments }) {
+      return append({ channel: 'email', to, subject, text, attachments: describeAttachments(attachments) });
+    },
+
+    sendSms({ to, text }) {
+      return append({ channel: 'sms', to, text });
+    }
+  };
+}
+
+module.exports = {
+  createConsoleSender,
+  createFileSender
+};
@@ -0,0 +1,61 @@
+const crypto = require('crypto');
+
+const OTP_LENGTH = 6;
+const OTP_MAX_ATTEMPTS = 5;
+
+const otpSecret = () => process.env.OTP_SECRET || process.env.JWT_SECRET || 'your_secret_key';
+
+// Random numeric one-time code, zero-padded to OTP_LENGTH digits
+function generateOtp() {
+  return String(crypto.randomInt(0, 10 ** OTP_LENGTH)).padStart(OTP_LENGTH, '0');
+}
+
+// Codes are stored as keyed hashes so a database leak doesn't reveal them
+function hashOtp(code) {
+  return crypto.createHmac('sha256', otpSecret()).update(String(code)).digest('hex');
+}
+
+function otpMatches(code, storedHash) {
+  if (!storedHash || !/^\d+$/.test(String(code || ''))) return false;
+  const candidate = Buffer.from(hashOtp(code), 'hex');
+  const stored = Buffer.from(storedHash, 'hex');
+  return candidate.length === stored.length && crypto.timingSafeEqual(candidate, stored);
+}
+
+// Checks a code against a stored challenge ({ hash, expiresAt, attempts }).
+// Returns null when it matches, otherwise OTP_INVALID, OTP_EXPIRED or
+// OTP_ATTEMPTS_EXCEEDED. Doesn't count the attempt; see checkOtpAttempt.
+function checkOtp(code, { hash, expiresAt, attempts = 0 }) {
+  if (!hash) return 'OTP_INVALID';
+  if (!expiresAt || expiresAt < new Date()) return 'OTP_EXPIRED';
+  if (attempts >= OTP_MAX_ATTEMPTS) return 'OTP_ATTEMPTS_EXCEEDED';
+  return otpMatches(code, hash) ? null : 'OTP_INVALID';
+}
+
+// checkOtp for a code stored on a document, counting the attempt. The
+// attempt is claimed with one conditional increment before the code is
+// compared, so parallel guesses can't get past OTP_MAX_ATTEMPTS. `fields`
+// names the document's { hash, expires, attempts } paths. Every claim counts,
+// so callers reset the counter when the code is used.
+async function checkOtpAttempt(Model, doc, code, fields) {
+  if (!doc?.[fields.hash]) return 'OTP_INVALID';
+
+  const claimed = await Model.findOneAndUpdate(
+    { _id: doc._id, [fields.attempts]: { $not: { $gte: OTP_MAX_ATTEMPTS } } },
+    { $inc: { [fields.attempts]: 1 } },
+    { new: true }
+  );
+  if (!claimed) return 'OTP_ATTEMPTS_EXCEEDED';
+
+  return checkOtp(code, { hash: claimed[fields.hash], expiresAt: claimed[fields.expires] });
+}
+
+module.exports = {
+  OTP_LENGTH,
+  OTP_MAX_ATTEMPTS,
+  generateOtp,
+  hashOtp,
+  otpMatches,
+  checkOtp,
+  checkOtpAttempt
+};
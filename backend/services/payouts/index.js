@@ -0,0 +1,63 @@
+// services/payouts - Pluggable bank payout providers
+//
+// Every adapter exposes:
+//   listBanks()                         -> [{ code, name }]
+//   resolveAccount({ bankCode, accountNumber })
+//                                       -> { accountName, accountNumber, bankCode } or null
+//   initiatePayout({ reference, amount, bankCode, accountNumber, accountName, narration })
+//   getPayoutStatus(providerReference)
+//
+// Payout methods resolve to { status: 'success' | 'failed' | 'pending',
+// providerReference, message, raw? } and reject only on transport errors.
+//
+// Select the adapter with PAYOUT_PROVIDER=paystack|stub. Without a Paystack
+// secret key the stub is used outside production; it never moves real money,
+// so when NODE_ENV=production it is refused and withdrawals are unavailable
+// until a real provider is configured.
+const { createPaystackPayoutAdapter } = require('./paystackAdapter');
+const { createStubPayoutAdapter } = require('./stubPayoutAdapter');
+
+const adapters = {
+  paystack: () => createPaystackPayoutAdapter({
+    secretKey: process.env.PAYSTACK_SECRET_KEY,
+    baseUrl: process.env.PAYSTACK_BASE_URL
+  }),
+  stub: () => createStubPayoutAdapter()
+};
+
+let activeAdapter = null;
+
+const resolveAdapterName = () => {
+  if (process.env.PAYOUT_PROVIDER) return process.env.PAYOUT_PROVIDER;
+  if (process.env.PAYSTACK_SECRET_KEY) return 'paystack';
+  return process.env.NODE_ENV === 'production' ? null : 'stub';
+};
+
+const getPayoutProvider = () => {
+  if (!activeAdapter) {
+    const name = resolveAdapterName();
+    if (!name) {
+      throw new Error('No payout provider configured. Set PAYSTACK_SECRET_KEY or PAYOUT_PROVIDER.');
+    }
+    if (!adapters[name]) {
+      throw new Error(`Unknown PAYOUT_PROVIDER "${name}". Expected one of: ${Object.keys(adapters).join(', ')}`);
+    }
+    if (name === 'stub' && process.env.NODE_ENV === 'production') {
+      throw new Error('The stub payout provider is disabled in production');
+    }
+    activeAdapter = adapters[name]();
+    console.log(`Payout provider: ${activeAdapter.name}`);
+  }
+  return activeAdapter;
+};
+
+// Register an additional adapter factory, e.g. for a second payout partner
+const registerPayoutProvider = (name, factory) => {
+  adapters[name] = factory;
+  activeAdapter = null;
+};
+
+module.exports = {
+  getPayoutProvider,
+  registerPayoutProvider
+};
@@ -0,0 +1,91 @@
+const axios = require('axios');
+
+// Maps a Paystack transfer status onto the adapter result shape
+const normalizeTransfer = (data, reference) => {
+  const transfer = data?.data || {};
+  const providerReference = transfer.reference || reference;
+
+  if (transfer.status === 'success') {
+    return { status: 'success', providerReference, message: data.message, raw: data };
+  }
+  if (['failed', 'reversed', 'abandoned', 'rejected'].includes(transfer.status)) {
+    return { status: 'failed', providerReference, message: transfer.failures || data.message || 'Transfer failed', raw: data };
+  }
+  return { status: 'pending', providerReference, message: data?.message || 'Transfer is processing', raw: data };
+};
+
+// Paystack Transfers API. Requires a secret key with transfers enabled and
+// OTP confirmation turned off on the integration.
+function createPaystackPayoutAdapter(config) {
+  const { secretKey, baseUrl = 'https://api.paystack.co', timeoutMs = 30000 } = config;
+
+  const client = axios.create({
+    baseURL: baseUrl,
+    headers: { Authorization: `Bearer ${secretKey}` },
+    timeout: timeoutMs
+  });
+
+  let bankCache = null;
+
+  return {
+    name: 'paystack',
+
+    async listBanks() {
+      if (!bankCache) {
+        const { data } = await client.get('/bank', { params: { country: 'nigeria', perPage: 100 } });
+        bankCache = (data?.data || [])
+          .filter(bank => bank.active !== false)
+          .map(bank => ({ code: bank.code, name: bank.name }));
+      }
+      return bankCache;
+    },
+
+    async resolveAccount({ bankCode, accountNumber }) {
+      try {
+        const { data } = await client.get('/bank/resolve', {
+          params: { account_number: accountNumber, bank_code: bankCode }
+        });
+        if (!data?.status || !data.data?.account_name) return null;
+        return { accountName: data.data.account_name, accountNumber, bankCode };
+      } catch (error) {
+        // 422: no account with that number at that bank
+        if (error.response?.status === 422 || error.response?.status === 400) return null;
+        throw error;
+      }
+    },
+
+    async initiatePayout({ reference, amount, bankCode, accountNumber, accountName, narration }) {
+      const { data: recipient } = await client.post('/transferrecipient', {
+        type: 'nuban',
+        name: accountName,
+        account_number: accountNumber,
+        bank_code: bankCode,
+        currency: 'NGN'
+      });
+
+      try {
+        const { data } = await client.post('/transfer', {
+          source: 'balance',
+          amount: Math.round(amount * 100),
+          recipient: recipient.data.recipient_code,
+          reference,
+          reason: narration
+        });
+        return normalizeTransfer(data, reference);
+      } catch (error) {
+        // Paystack answered and refused; anything else is a transport error
+        if (error.response?.data) {
+          return { status: 'failed', providerReference: reference, message: error.response.data.message, raw: error.response.data };
+        }
+        throw error;
+      }
+    },
+
+    async getPayoutStatus(reference) {
+      const { data } = await client.get(`/transfer/verify/${encodeURIComponent(reference)}`);
+      return normalizeTransfer(data, reference);
+    }
+  };
+}
+
+module.exports = { createPaystackPayoutAdapter, normalizeTransfer };
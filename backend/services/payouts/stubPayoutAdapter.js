@@ -0,0 +1,76 @@
+// Local payout provider for development: no money moves and no network calls
+// are made. Behaviour is driven by the account number so every path can be
+// exercised from the app:
+//   ...0000  account not found on enquiry
+//   ...9999  payout rejected by the bank
+//   ...8888  payout stays pending until requeried
+//   anything else settles immediately
+
+const BANKS = [
+  { code: '044', name: 'Access Bank' },
+  { code: '023', name: 'Citibank Nigeria' },
+  { code: '050', name: 'Ecobank Nigeria' },
+  { code: '070', name: 'Fidelity Bank' },
+  { code: '011', name: 'First Bank of Nigeria' },
+  { code: '214', name: 'First City Monument Bank' },
+  { code: '058', name: 'Guaranty Trust Bank' },
+  { code: '030', name: 'Heritage Bank' },
+  { code: '082', name: 'Keystone Bank' },
+  { code: '50211', name: 'Kuda Bank' },
+  { code: '999992', name: 'OPay' },
+  { code: '999991', name: 'PalmPay' },
+  { code: '076', name: 'Polaris Bank' },
+  { code: '221', name: 'Stanbic IBTC Bank' },
+  { code: '068', name: 'Standard Chartered Bank' },
+  { code: '232', name: 'Sterling Bank' },
+  { code: '032', name: 'Union Bank of Nigeria' },
+  { code: '033', name: 'United Bank For Africa' },
+  { code: '215', name: 'Unity Bank' },
+  { code: '035', name: 'Wema Bank' },
+  { code: '057', name: 'Zenith Bank' }
+];
+
+const FIRST_NAMES = ['Adaeze', 'Babatunde', 'Chinedu', 'Funmilayo', 'Ibrahim', 'Ngozi', 'Olumide', 'Zainab'];
+const LAST_NAMES = ['Okafor', 'Adeyemi', 'Bello', 'Eze', 'Ogunleye', 'Usman', 'Nwosu', 'Lawal'];
+
+// Same account number always resolves to the same name
+const nameForAccount = (accountNumber) => {
+  const digits = accountNumber.split('').map(Number);
+  const first = FIRST_NAMES[digits.slice(0, 5).reduce((a, b) => a + b, 0) % FIRST_NAMES.length];
+  const last = LAST_NAMES[digits.slice(5).reduce((a, b) => a + b, 0) % LAST_NAMES.length];
+  return `${first} ${last}`.toUpperCase();
+};
+
+function createStubPayoutAdapter() {
+  return {
+    name: 'stub',
+
+    async listBanks() {
+      return BANKS;
+    },
+
+    async resolveAccount({ bankCode, accountNumber }) {
+      const bank = BANKS.find(b => b.code === bankCode);
+      if (!bank || accountNumber.endsWith('0000')) return null;
+      return { accountName: nameForAccount(accountNumber), accountNumber, bankCode };
+    },
+
+    async initiatePayout({ reference, accountNumber }) {
+      const providerReference = `STUB_${reference}`;
+
+      if (accountNumber.endsWith('9999')) {
+        return { status: 'failed', providerReference, message: 'Beneficiary bank rejected the transfer' };
+      }
+
+      const status = accountNumber.endsWith('8888') ? 'pending' : 'success';
+      return { status, providerReference, message: status === 'pending' ? 'Transfer queued' : 'Transfer successful' };
+    },
+
+    // Pending stub payouts settle on the first requery
+    async getPayoutStatus(providerReference) {
+      return { status: 'success', providerReference, message: 'Transfer successful' };
+    }
+  };
+}
+
+module.exports = { createStubPayoutAdapter };
@@ -0,0 +1,173 @@
+const User = require('../models/User');
+const PinAttempt = require('../models/PinAttempt');
+
+const PIN_POLICY = {
+  MAX_ATTEMPTS: 3,
+  // Each consecutive lockout lasts longer; the last entry repeats
+  LOCK_DURATIONS: [
+    15 * 60 * 1000,      // 15 minutes
+    60 * 60 * 1000,      // 1 hour
+    24 * 60 * 60 * 1000  // 24 hours
+  ]
+};
+
+// Rejected by /auth/setup-pin, /auth/change-pin and /auth/reset-pin
+const WEAK_PINS = ['0000', '1234', '1111', '2222', '3333', '4444', '5555', '6666', '7777', '8888', '9999', '4321'];
+
+const pinError = (message, errorCode, status = 400, extra = {}) => {
+  const error = new Error(message);
+  error.errorCode = errorCode;
+  error.status = status;
+  Object.assign(error, extra);
+  return error;
+};
+
+const formatDuration = (ms) => {
+  const minutes = Math.ceil(ms / (60 * 1000));
+  if (minutes < 60) return `${minutes} minute${minutes === 1 ? '' : 's'}`;
+  const hours = Math.ceil(minutes / 60);
+  return `${hours} hour${hours === 1 ? '' : 's'}`;
+};
+
+// Current lock state for a user document
+function getPinLockState(user, now = new Date()) {
+  const security = user.pinSecurity || {};
+  const lockedUntil = security.lockedUntil && security.lockedUntil > now ? security.lockedUntil : null;
+
+  return {
+    isLocked: Boolean(lockedUntil),
+    lockedUntil,
+    lockTimeRemaining: lockedUntil ? Math.ceil((lockedUntil - now) / (60 * 1000)) : 0,
+    attemptsRemaining: lockedUntil ? 0 : Math.max(0, PIN_POLICY.MAX_ATTEMPTS - (security.failedAttempts || 0))
+  };
+}
+
+// Clears failed attempts and any active lockout, e.g. after a correct PIN or a PIN change
+function clearPinLockout(userId) {
+  return User.updateOne(
+    { _id: userId },
+    { $set: { 'pinSecurity.failedAttempts': 0, 'pinSecurity.lockCount': 0, 'pinSecurity.lockedUntil': null } }
+  );
+}
+
+// Counts an attempt before the PIN is compared. The lock check and the
+// increment are one conditional update, so parallel requests cannot all slip
+// past the limit: once MAX_ATTEMPTS attempts are claimed (or a lock is active)
+// further claims fail until the counter is reset. Resolves to the updated
+// user, or null when no attempt is available.
+function claimPinAttempt(user, now = new Date()) {
+  return User.findOneAndUpdate(
+    {
+      _id: user._id,
+      $or: [{ 'pinSecurity.lockedUntil': null }, { 'pinSecurity.lockedUntil': { $lte: now } }],
+      'pinSecurity.failedAttempts': { $not: { $gte: PIN_POLICY.MAX_ATTEMPTS } }
+    },
+    {
+      $inc: { 'pinSecurity.failedAttempts': 1 },
+      $set: { 'pinSecurity.lockedUntil': null }
+    },
+    { new: true }
+  );
+}
+
+// Records a claimed attempt that turned out wrong, and locks the PIN when it
+// was the last one. Only one claim can reach MAX_ATTEMPTS, so only one locks.
+async function recordFailedAttempt(user, failedAttempts, { source, ipAddress, userAgent }) {
+  const now = new Date();
+  const lockCount = user.pinSecurity?.lockCount || 0;
+  let lockedUntil = null;
+
+  if (failedAttempts >= PIN_POLICY.MAX_ATTEMPTS) {
+    const duration = PIN_POLICY.LOCK_DURATIONS[Math.min(lockCount, PIN_POLICY.LOCK_DURATIONS.length - 1)];
+    lockedUntil = new Date(now.getTime() + duration);
+
+    await User.updateOne(
+      { _id: user._id },
+      {
+        $set: { 'pinSecurity.lockedUntil': lockedUntil, 'pinSecurity.failedAttempts': 0, 'pinSecurity.lastFailedAt': now },
+        $inc: { 'pinSecurity.lockCount': 1 }
+      }
+    );
+  } else {
+    await User.updateOne({ _id: user._id }, { $set: { 'pinSecurity.lastFailedAt': now } });
+  }
+
+  await PinAttempt.create({
+    userId: user._id,
+    source,
+    attemptNumber: failedAttempts,
+    lockedUntil,
+    ipAddress,
+    userAgent
+  });
+
+  return { lockedUntil };
+}
+
+const lockedError = (lockedUntil) => pinError(
+  lockedUntil
+    ? `PIN locked due to too many failed attempts. Try again in ${formatDuration(lockedUntil - Date.now())}.`
+    : 'PIN locked due to too many failed attempts. Try again shortly.',
+  'PIN_LOCKED',
+  423,
+  { lockedUntil }
+);
+
+// Checks a transaction PIN against the lock state. Resolves when the PIN is
+// correct; otherwise rejects with errorCode PIN_NOT_SET, PIN_LOCKED or
+// INVALID_PIN (INVALID_PIN also carries attemptsRemaining).
+// `user` must be loaded with .select('+pin').
+async function verifyTransactionPin(user, pin, context = {}) {
+  if (!user.pin || !user.isPinSetup) {
+    throw pinError('Transaction PIN not set. Please set up your PIN first.', 'PIN_NOT_SET');
+  }
+
+  const claimed = await claimPinAttempt(user);
+  if (!claimed) {
+    // Locked, or the remaining attempts are taken by requests still in flight
+    const current = await User.findById(user._id).select('pinSecurity');
+    throw lockedError(current ? getPinLockState(current).lockedUntil : null);
+  }
+
+  const { failedAttempts } = claimed.pinSecurity;
+
+  if (await user.comparePin(pin)) {
+    await clearPinLockout(user._id);
+    return true;
+  }
+
+  const { lockedUntil } = await recordFailedAttempt(claimed, failedAttempts, context);
+
+  if (lockedUntil) {
+    throw pinError(
+      `Invalid PIN. Your PIN has been locked for ${formatDuration(lockedUntil - Date.now())} due to too many failed attempts.`,
+      'PIN_LOCKED',
+      423,
+      { lockedUntil }
+    );
+  }
+
+  const attemptsRemaining = PIN_POLICY.MAX_ATTEMPTS - failedAttempts;
+  throw pinError(
+    `Invalid PIN. ${attemptsRemaining} attempt${attemptsRemaining === 1 ? '' : 's'} remaining.`,
+    'INVALID_PIN',
+    400,
+    { attemptsRemaining }
+  );
+}
+
+// Audit context for an Express request
+const pinAuditContext = (req, source) => ({
+  source,
+  ipAddress: req.ip,
+  userAgent: req.get('User-Agent')
+});
+
+module.exports = {
+  PIN_POLICY,
+  WEAK_PINS,
+  getPinLockState,
+  clearPinLockout,
+  verifyTransactionPin,
+  pinAuditContext
+};
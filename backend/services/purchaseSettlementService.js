@@ -0,0 +1,149 @@
+const Transaction = require('../models/Transaction');
+const Wallet = require('../models/Wallet');
+const { getVtuProvider } = require('./vtu');
+const { rechargePinDescription } = require('./historyService');
+
+// Holds placed by VTU purchases: `payment` for /purchase and recharge PINs,
+// `betting` for /betting/fund. Withdrawals and their fees settle with the
+// payout provider (see withdrawalService.refreshWithdrawal).
+const VTU_HOLD_CATEGORIES = ['payment', 'betting'];
+
+// The sweep leaves holds younger than this to the request that placed them,
+// which waits up to 60 seconds for the provider (routes/purchase.js)
+const SWEEP_MIN_AGE_MS = 2 * 60 * 1000;
+const SWEEP_BATCH_SIZE = 50;
+const SWEEP_INTERVAL_MS = 60 * 1000;
+
+const settlementError = (message, errorCode, status = 400) => {
+  const error = new Error(message);
+  error.errorCode = errorCode;
+  error.status = status;
+  return error;
+};
+
+// True for a hold placed by a VTU purchase through the active adapter. Only
+// these may be requeried: the provider answers "unknown reference" for
+// anything else, which must never be taken as a failure to refund.
+const isVtuPurchaseHold = (transaction) =>
+  transaction.type === 'debit' &&
+  VTU_HOLD_CATEGORIES.includes(transaction.category) &&
+  transaction.gateway?.provider === getVtuProvider().name;
+
+// Recharge PIN holds (routes/purchase.js /generate) are only worth completing
+// with the PINs the customer paid for, so a success without the full set of
+// PINs is treated as not final
+const rechargePinsDelivered = (transaction, result) => {
+  const recharge = transaction.metadata?.recharge;
+  const pins = result.details?.pins || [];
+  return recharge?.quantity > 0 && pins.length === recharge.quantity;
+};
+
+const isRechargeHold = (transaction) => transaction.reference.startsWith('RECHARGE_');
+
+// Asks the provider for the final status of a pending VTU purchase, then
+// completes or refunds the hold. Answers that aren't final (still processing,
+// or a reference the provider has no record of) leave it pending. A delivered
+// recharge PIN order is completed only once its PINs are recorded.
+// complete() and releaseHold() only move a still-pending row, so when
+// settlements race one settles the hold and the others report its result.
+// Resolves to the transaction's status.
+async function settlePendingPurchase(transaction) {
+  if (transaction.status !== 'pending') return transaction.status;
+
+  if (!isVtuPurchaseHold(transaction)) {
+    throw settlementError('This transaction cannot be checked with the service provider', 'NOT_REQUERYABLE');
+  }
+
+  const result = await getVtuProvider().requery(transaction.gateway?.gatewayReference || transaction.reference);
+  const missingPins = result.status === 'success' && isRechargeHold(transaction) && !rechargePinsDelivered(transaction, result);
+  if (missingPins) {
+    console.error(`Requery of ${transaction.reference} succeeded without the ordered recharge PINs; leaving it pending`);
+  }
+
+  if ((result.status !== 'success' && result.status !== 'failed') || missingPins) {
+    // Not final yet; the sweep checks the least recently checked holds first
+    await Transaction.updateOne(
+      { _id: transaction._id, status: 'pending' },
+      { $set: { 'gateway.lastCheckedAt': new Date() } }
+    );
+    return transaction.status;
+  }
+
+  try {
+    if (result.status === 'success') {
+      if (isRechargeHold(transaction)) {
+        transaction.description = rechargePinDescription(transaction.metadata.recharge, result.details.pins);
+      }
+      await transaction.complete();
+    } else if (result.status === 'failed') {
+      const wallet = await Wallet.findById(transaction.walletId);
+      await wallet.releaseHold(transaction, result.message || 'Transaction failed at provider');
+    }
+  } catch (settleError) {
+    if (settleError.errorCode !== 'HOLD_NOT_PENDING') throw settleError;
+    const settled = await Transaction.findById(transaction._id);
+    transaction.init(settled.toObject({ depopulate: true }));
+  }
+
+  return transaction.status;
+}
+
+// Requeries pending VTU purchase holds older than minAgeMs, those checked
+// least recently first, so a purchase whose provider call timed out is
+// completed or refunded without the app asking. Resolves to counts by outcome.
+async function sweepPendingPurchases({ minAgeMs = SWEEP_MIN_AGE_MS, limit = SWEEP_BATCH_SIZE } = {}) {
+  const holds = await Transaction.find({
+    type: 'debit',
+    status: 'pending',
+    category: { $in: VTU_HOLD_CATEGORIES },
+    'gateway.provider': getVtuProvider().name,
+    createdAt: { $lte: new Date(Date.now() - minAgeMs) }
+  })
+    .sort({ 'gateway.lastCheckedAt': 1, createdAt: 1 })
+    .limit(limit);
+
+  const report = { checked: 0, completed: 0, failed: 0, pending: 0, errors: 0 };
+  for (const hold of holds) {
+    report.checked += 1;
+    try {
+      const status = await settlePendingPurchase(hold);
+      report[status === 'completed' || status === 'failed' ? status : 'pending'] += 1;
+    } catch (error) {
+      report.errors += 1;
+      console.error(`Requery of ${hold.reference} failed:`, error.message);
+    }
+  }
+  return report;
+}
+
+// Runs the sweep on a timer in this process. Set PURCHASE_SWEEP_INTERVAL_MS=0
+// to turn it off. Several servers may sweep at once: each hold still settles
+// exactly once.
+function startPendingPurchaseSweep(intervalMs = Number(process.env.PURCHASE_SWEEP_INTERVAL_MS ?? SWEEP_INTERVAL_MS)) {
+  if (!intervalMs) return null;
+
+  let running = false;
+  const timer = setInterval(async () => {
+    if (running) return;
+    running = true;
+    try {
+      const report = await sweepPendingPurchases();
+      if (report.checked) {
+        console.log(`Pending purchase sweep: ${report.checked} checked, ${report.completed} completed, ${report.failed} refunded, ${report.pending} still pending, ${report.errors} errors`);
+      }
+    } catch (error) {
+      console.error('Pending purchase sweep failed:', error.message);
+    } finally {
+      running = false;
+    }
+  }, intervalMs);
+  timer.unref();
+  return timer;
+}
+
+module.exports = {
+  isVtuPurchaseHold,
+  settlePendingPurchase,
+  sweepPendingPurchases,
+  startPendingPurchaseSweep
+};
@@ -0,0 +1,142 @@
+const PDFDocument = require('pdfkit');
+const { historyDetail } = require('./historyService');
+
+const BRAND = {
+  name: 'ConnectPay',
+  color: '#ff2b2b',
+  text: '#1a1a1a',
+  muted: '#666666'
+};
+
+const STATUS_TITLES = {
+  completed: 'Successful',
+  pending: 'Processing',
+  failed: 'Failed',
+  cancelled: 'Cancelled'
+};
+
+const formatNaira = (amount) =>
+  `NGN ${Number(amount || 0).toLocaleString('en-NG', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+const formatDate = (date) => (date ? new Date(date).toLocaleString('en-NG', { timeZone: 'Africa/Lagos' }) : undefined);
+
+// The receipt for a transaction as labelled rows, shared by the JSON and PDF
+// renderings so both always show the same facts
+function buildReceipt(transaction, user) {
+  const item = historyDetail(transaction);
+  const { details, service } = item;
+  const counterparty = service.counterparty;
+
+  const rows = [
+    ['Reference', item.reference],
+    ['Date', formatDate(item.createdAt)],
+    ['Status', STATUS_TITLES[item.status] || item.status],
+    ['Service', service.label],
+    ['Provider', service.provider?.toUpperCase()],
+    ['Plan', service.plan],
+    [item.direction === 'credit' ? 'From' : 'To', counterparty?.name],
+    ['Account', !details.recipient.phone && !details.recipient.meterNumber ? counterparty?.identifier : undefined],
+    ['Phone', details.recipient.phone],
+    ['Meter Number', details.recipient.meterNumber],
+    ['Meter Type', details.recipient.meterType],
+    ['Smartcard', details.recipient.smartCardNumber],
+    ['Customer ID', details.recipient.customerId],
+    ['Customer Name', details.recipient.customerName],
+    ['Address', details.recipient.address],
+    ['Units', details.units],
+    ['Narration', details.narration],
+    ['Provider Reference', details.provider.reference],
+    ['Description', item.description],
+    ['Reason', item.failureReason]
+  ]
+    .filter(([, value]) => value !== undefined && value !== null && value !== '')
+    .map(([label, value]) => ({ label, value: String(value) }));
+
+  let highlight = null;
+  if (details.token) {
+    highlight = { label: 'Electricity Token', values: [details.token] };
+  } else if (details.pins) {
+    highlight = { label: 'Recharge PINs', values: details.pins.map(p => `${p.pin}  (Serial ${p.serial})`) };
+  }
+
+  return {
+    reference: item.reference,
+    title: `${service.label} Receipt`,
+    status: item.status,
+    statusTitle: STATUS_TITLES[item.status] || item.status,
+    direction: item.direction,
+    amount: item.amount,
+    formattedAmount: formatNaira(item.amount),
+    customer: user ? { name: user.name || user.username, email: user.email } : undefined,
+    rows,
+    highlight,
+    issuedAt: new Date()
+  };
+}
+
+// Renders a one-page branded A5 PDF. Resolves to a Buffer.
+function renderReceiptPdf(receipt) {
+  return new Promise((resolve, reject) => {
+    const doc = new PDFDocument({
+      size: 'A5',
+      margin: 36,
+      info: { Title: receipt.title, Author: BRAND.name, Subject: receipt.reference }
+    });
+    const chunks = [];
+    doc.on('data', chunk => chunks.push(chunk));
+    doc.on('end', () => resolve(Buffer.concat(chunks)));
+    doc.on('error', reject);
+
+    const left = doc.page.margins.left;
+    const width = doc.page.width - left - doc.page.margins.right;
+
+    // Header band
+    doc.rect(0, 0, doc.page.width, 80).fill(BRAND.color);
+    doc.fillColor('#ffffff').font('Helvetica-Bold').fontSize(20).text(BRAND.name, left, 24);
+    doc.font('Helvetica').fontSize(10).text(receipt.title, left, 50);
+
+    // Amount and status
+    doc.fillColor(BRAND.text).font('Helvetica-Bold').fontSize(22)
+      .text(`${receipt.direction === 'credit' ? '+' : '-'}${receipt.formattedAmount}`, left, 104, { width, align: 'center' });
+    doc.fillColor(receipt.status === 'failed' ? BRAND.color : BRAND.muted).font('Helvetica').fontSize(11)
+      .text(receipt.statusTitle.toUpperCase(), { width, align: 'center' });
+    doc.moveDown(1.2);
+
+    if (receipt.highlight) {
+      const boxTop = doc.y;
+      const boxHeight = 28 + receipt.highlight.values.length * 16;
+      doc.roundedRect(left, boxTop, width, boxHeight, 6).lineWidth(1).stroke(BRAND.color);
+      doc.fillColor(BRAND.muted).font('Helvetica').fontSize(9).text(receipt.highlight.label, left + 10, boxTop + 8);
+      doc.fillColor(BRAND.text).font('Courier-Bold').fontSize(12);
+      receipt.highlight.values.forEach((value, index) => {
+        doc.text(value, left + 10, boxTop + 22 + index * 16, { width: width - 20 });
+      });
+      doc.y = boxTop + boxHeight + 12;
+    }
+
+    // Detail rows: label on the left, value right-aligned
+    const labelWidth = width * 0.38;
+    for (const row of receipt.rows) {
+      const y = doc.y;
+      doc.fillColor(BRAND.muted).font('Helvetica').fontSize(9).text(row.label, left, y, { width: labelWidth });
+      doc.fillColor(BRAND.text).font('Helvetica-Bold').fontSize(9)
+        .text(row.value, left + labelWidth, y, { width: width - labelWidth, align: 'right' });
+      doc.y = Math.max(doc.y, y + 12) + 4;
+      doc.moveTo(left, doc.y - 2).lineTo(left + width, doc.y - 2).lineWidth(0.5).stroke('#eeeeee');
+    }
+
+    doc.moveDown(1.5);
+    doc.fillColor(BRAND.muted).font('Helvetica').fontSize(8);
+    if (receipt.customer) {
+      doc.text(`Issued to ${receipt.customer.name}${receipt.customer.email ? ` <${receipt.customer.email}>` : ''}`, left, doc.y, { width, align: 'center' });
+    }
+    doc.text(`Generated ${formatDate(receipt.issuedAt)}. Quote reference ${receipt.reference} in any enquiry.`, { width, align: 'center' });
+
+    doc.end();
+  });
+}
+
+module.exports = {
+  buildReceipt,
+  renderReceiptPdf
+};
@@ -0,0 +1,92 @@
+const Wallet = require('../models/Wallet');
+const Transaction = require('../models/Transaction');
+const JournalEntry = require('../models/JournalEntry');
+const { ACCOUNTS, accountBalances, postOpeningBalance } = require('./journalService');
+
+const toKobo = (amount) => Math.round((amount || 0) * 100);
+
+// Compares every wallet's stored balance with its journal balance, checks
+// that suspense:holds equals the pending holds it stands for, and lists any
+// journal entry whose postings do not balance. Resolves to a report.
+//
+// With postOpeningBalances, wallets that have no opening-balance entry yet
+// get one for whatever the journal does not already explain. Run that once
+// when adopting the journal; afterwards any difference is real drift.
+async function reconcileLedger({ walletIds, postOpeningBalances = false } = {}) {
+  const walletFilter = walletIds ? { _id: { $in: walletIds } } : {};
+  const wallets = await Wallet.find(walletFilter).select('userId balance');
+
+  const loadJournalBalances = async () => {
+    const rows = await accountBalances({ 'postings.walletId': { $in: wallets.map(w => w._id) } });
+    return new Map(rows.map(row => [String(row.walletId), row]));
+  };
+
+  let journalByWallet = await loadJournalBalances();
+
+  if (postOpeningBalances) {
+    const opened = new Set(await JournalEntry.distinct('reference', { kind: 'opening_balance' }));
+    for (const wallet of wallets) {
+      if (opened.has(`OPEN_${wallet._id}`)) continue;
+      await postOpeningBalance(wallet, journalByWallet.get(String(wallet._id))?.balance || 0);
+    }
+    journalByWallet = await loadJournalBalances();
+  }
+
+  const drift = [];
+  for (const wallet of wallets) {
+    const journal = journalByWallet.get(String(wallet._id));
+    const journalBalance = journal ? journal.balance : 0;
+    if (toKobo(journalBalance) !== toKobo(wallet.balance)) {
+      drift.push({
+        walletId: wallet._id,
+        userId: wallet.userId,
+        walletBalance: wallet.balance,
+        journalBalance,
+        drift: (toKobo(wallet.balance) - toKobo(journalBalance)) / 100,
+        journalEntries: journal ? journal.entries : 0
+      });
+    }
+  }
+
+  // Money parked in suspense:holds must match the holds still pending
+  const [heldRow] = await accountBalances({ 'postings.account': ACCOUNTS.HOLDS });
+  const [pendingHolds] = await Transaction.aggregate([
+    { $match: { type: 'debit', status: 'pending' } },
+    { $group: { _id: null, total: { $sum: '$amount' }, count: { $sum: 1 } } }
+  ]);
+  const holds = {
+    journalBalance: heldRow ? heldRow.balance : 0,
+    pendingHoldsTotal: pendingHolds ? pendingHolds.total : 0,
+    pendingHoldsCount: pendingHolds ? pendingHolds.count : 0
+  };
+  holds.drift = (toKobo(holds.journalBalance) - toKobo(holds.pendingHoldsTotal)) / 100;
+
+  const unbalancedEntries = await JournalEntry.aggregate([
+    { $unwind: '$postings' },
+    {
+      $group: {
+        _id: '$_id',
+        reference: { $first: '$reference' },
+        debits: { $sum: '$postings.debit' },
+        credits: { $sum: '$postings.credit' }
+      }
+    },
+    { $match: { $expr: { $gte: [{ $abs: { $subtract: ['$debits', '$credits'] } }, 0.005] } } },
+    { $project: { _id: 0, reference: 1, debits: 1, credits: 1 } }
+  ]);
+
+  const [unclassified] = await accountBalances({ 'postings.account': ACCOUNTS.UNCLASSIFIED });
+
+  return {
+    checkedAt: new Date(),
+    walletsChecked: wallets.length,
+    walletsWithDrift: drift.length,
+    drift,
+    holds,
+    unclassifiedBalance: unclassified ? unclassified.balance : 0,
+    unbalancedEntries,
+    clean: drift.length === 0 && holds.drift === 0 && unbalancedEntries.length === 0
+  };
+}
+
+module.exports = { reconcileLedger };
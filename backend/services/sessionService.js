@@ -0,0 +1,176 @@
+const crypto = require('crypto');
+const jwt = require('jsonwebtoken');
+const Session = require('../models/Session');
+
+const ACCESS_TOKEN_TTL = process.env.ACCESS_TOKEN_EXPIRES_IN || '15m';
+const REFRESH_TOKEN_TTL_MS = (parseInt(process.env.REFRESH_TOKEN_TTL_DAYS, 10) || 30) * 24 * 60 * 60 * 1000;
+
+const jwtSecret = () => process.env.JWT_SECRET || 'your_secret_key';
+
+const sessionError = (message, errorCode, status = 401) => {
+  const error = new Error(message);
+  error.errorCode = errorCode;
+  error.status = status;
+  return error;
+};
+
+const hashToken = (secret) => crypto.createHash('sha256').update(secret).digest('hex');
+
+// Refresh tokens are opaque: "<sessionId>.<random secret>". Only the hash of
+// the secret is stored.
+const newRefreshSecret = () => crypto.randomBytes(48).toString('base64url');
+
+function parseRefreshToken(refreshToken) {
+  const [sessionId, secret] = String(refreshToken || '').split('.');
+  if (!secret || !/^[a-f0-9]{24}$/.test(sessionId)) return null;
+  return { sessionId, secret };
+}
+
+function signAccessToken(userId, sessionId) {
+  return jwt.sign(
+    { userId: String(userId), sessionId: String(sessionId) },
+    jwtSecret(),
+    { expiresIn: ACCESS_TOKEN_TTL }
+  );
+}
+
+function issueTokens(session, secret) {
+  const accessToken = signAccessToken(session.userId, session._id);
+  const { exp, iat } = jwt.decode(accessToken);
+
+  return {
+    accessToken,
+    refreshToken: `${session._id}.${secret}`,
+    expiresIn: exp - iat,
+    sessionId: String(session._id)
+  };
+}
+
+// Device and request details recorded on a session
+const sessionContext = (req) => ({
+  deviceId: req.body?.deviceId,
+  deviceToken: req.body?.deviceToken,
+  deviceName: req.body?.deviceName,
+  platform: req.body?.platform,
+  appVersion: req.body?.appVersion,
+  ipAddress: req.ip,
+  userAgent: req.get('User-Agent')
+});
+
+// Starts a session for a fresh login. A previous session from the same device
+// is revoked so each device holds one refresh token at a time.
+async function createSession(userId, context = {}) {
+  const { deviceId, deviceName, platform, appVersion, ipAddress, userAgent } = context;
+
+  if (deviceId) {
+    await Session.updateMany(
+      { userId, deviceId, revokedAt: null },
+      { $set: { revokedAt: new Date(), revokedReason: 'replaced' } }
+    );
+  }
+
+  const secret = newRefreshSecret();
+  const session = await Session.create({
+    userId,
+    deviceId,
+    deviceName,
+    platform,
+    appVersion,
+    refreshTokenHash: hashToken(secret),
+    expiresAt: new Date(Date.now() + REFRESH_TOKEN_TTL_MS),
+    ipAddress,
+    userAgent
+  });
+
+  return issueTokens(session, secret);
+}
+
+// Exchanges a refresh token for a new access/refresh pair. Presenting the
+// token that was already rotated out means it leaked, so the whole session
+// is revoked.
+async function rotateRefreshToken(refreshToken, context = {}) {
+  const parsed = parseRefreshToken(refreshToken);
+  if (!parsed) {
+    throw sessionError('Invalid refresh token.', 'INVALID_REFRESH_TOKEN');
+  }
+
+  const presentedHash = hashToken(parsed.secret);
+  const nextSecret = newRefreshSecret();
+  const now = new Date();
+
+  const session = await Session.findOneAndUpdate(
+    {
+      _id: parsed.sessionId,
+      refreshTokenHash: presentedHash,
+      revokedAt: null,
+      expiresAt: { $gt: now }
+    },
+    {
+      $set: {
+        refreshTokenHash: hashToken(nextSecret),
+        previousRefreshTokenHash: presentedHash,
+        lastUsedAt: now,
+        ipAddress: context.ipAddress,
+        userAgent: context.userAgent
+      }
+    },
+    { new: true }
+  );
+
+  if (session) {
+    return issueTokens(session, nextSecret);
+  }
+
+  const existing = await Session.findById(parsed.sessionId);
+  if (existing && !existing.revokedAt && existing.previousRefreshTokenHash === presentedHash) {
+    await revokeSession(existing._id, 'refresh_token_reuse');
+    console.warn(`Refresh token reuse detected for session ${existing._id}; session revoked`);
+  }
+
+  throw sessionError('Session expired. Please log in again.', 'SESSION_REVOKED');
+}
+
+// Used by the auth middleware on every request
+async function isSessionActive(sessionId, userId) {
+  const session = await Session.findOne({
+    _id: sessionId,
+    userId,
+    revokedAt: null,
+    expiresAt: { $gt: new Date() }
+  }).select('_id');
+
+  return Boolean(session);
+}
+
+function revokeSession(sessionId, reason = 'logout') {
+  return Session.updateOne(
+    { _id: sessionId, revokedAt: null },
+    { $set: { revokedAt: new Date(), revokedReason: reason } }
+  );
+}
+
+// Revokes every active session of a user, optionally keeping the current one
+function revokeAllSessions(userId, reason, { exceptSessionId } = {}) {
+  const filter = { userId, revokedAt: null };
+  if (exceptSessionId) filter._id = { $ne: exceptSessionId };
+
+  return Session.updateMany(filter, { $set: { revokedAt: new Date(), revokedReason: reason } });
+}
+
+// Signs a device out, e.g. when the user removes it from their device list
+function revokeDeviceSessions(userId, deviceId, reason = 'device_revoked') {
+  return Session.updateMany(
+    { userId, deviceId, revokedAt: null },
+    { $set: { revokedAt: new Date(), revokedReason: reason } }
+  );
+}
+
+module.exports = {
+  sessionContext,
+  createSession,
+  rotateRefreshToken,
+  isSessionActive,
+  revokeSession,
+  revokeAllSessions,
+  revokeDeviceSessions
+};
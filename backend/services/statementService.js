@@ -0,0 +1,330 @@
+const PDFDocument = require('pdfkit');
+const mongoose = require('mongoose');
+const Wallet = require('../models/Wallet');
+const Transaction = require('../models/Transaction');
+
+const STATEMENT_LIMITS = {
+  MAX_DAYS: 366,
+  MAX_LINES: 10000
+};
+
+const CATEGORY_LABELS = {
+  funding: 'Wallet funding',
+  withdrawal: 'Withdrawals',
+  transfer: 'Transfers',
+  payment: 'Purchases',
+  refund: 'Refunds',
+  fee: 'Fees',
+  bonus: 'Bonuses',
+  betting: 'Betting'
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const statementError = (message, errorCode, status = 400) => {
+  const error = new Error(message);
+  error.errorCode = errorCode;
+  error.status = status;
+  return error;
+};
+
+const toKobo = (amount) => Math.round((amount || 0) * 100);
+const fromKobo = (kobo) => kobo / 100;
+
+// Accepts YYYY-MM-DD (or any date string); a bare `to` date covers the whole day
+function parsePeriod(from, to) {
+  const start = new Date(from);
+  const end = new Date(to);
+  if (!from || !to || Number.isNaN(start.getTime()) || Number.isNaN(end.getTime())) {
+    throw statementError('Provide "from" and "to" dates, e.g. 2025-01-01', 'INVALID_PERIOD');
+  }
+  if (/^\d{4}-\d{2}-\d{2}$/.test(to)) end.setUTCHours(23, 59, 59, 999);
+
+  if (start > end) {
+    throw statementError('"from" must be on or before "to"', 'INVALID_PERIOD');
+  }
+  if (end - start > STATEMENT_LIMITS.MAX_DAYS * DAY_MS) {
+    throw statementError(`Statements cover at most ${STATEMENT_LIMITS.MAX_DAYS} days`, 'PERIOD_TOO_LONG');
+  }
+  if (start > new Date()) {
+    throw statementError('The statement period has not started yet', 'INVALID_PERIOD');
+  }
+  return { from: start, to: end };
+}
+
+const isCredit = (transaction) => ['credit', 'transfer_in'].includes(transaction.type);
+
+// Every ledger row for the user's wallet in the period, oldest first, with
+// the balance after each line. Opening and closing balances come from the
+// rows' stored balances so the statement agrees with the ledger line by line.
+async function buildStatement({ userId, from, to }) {
+  const period = parsePeriod(from, to);
+
+  const wallet = await Wallet.findOne({ userId }).populate('userId', 'name username email');
+  if (!wallet) {
+    throw statementError('Wallet not found', 'WALLET_NOT_FOUND', 404);
+  }
+
+  const userObjectId = new mongoose.Types.ObjectId(String(userId));
+  const rows = await Transaction.find({
+    userId: userObjectId,
+    walletId: wallet._id,
+    createdAt: { $gte: period.from, $lte: period.to }
+  })
+    .sort({ createdAt: 1, _id: 1 })
+    .limit(STATEMENT_LIMITS.MAX_LINES + 1)
+    .lean();
+
+  if (rows.length > STATEMENT_LIMITS.MAX_LINES) {
+    throw statementError(
+      `This period has more than ${STATEMENT_LIMITS.MAX_LINES.toLocaleString()} transactions. Please choose a shorter range.`,
+      'STATEMENT_TOO_LARGE'
+    );
+  }
+
+  let openingBalance;
+  if (rows.length) {
+    openingBalance = rows[0].previousBalance;
+  } else {
+    // A quiet period: the balance is whatever the nearest row either side left it at
+    const previous = await Transaction.findOne({ walletId: wallet._id, createdAt: { $lt: period.from } })
+      .sort({ createdAt: -1, _id: -1 })
+      .select('newBalance')
+      .lean();
+    const next = previous ? null : await Transaction.findOne({ walletId: wallet._id, createdAt: { $gt: period.to } })
+      .sort({ createdAt: 1, _id: 1 })
+      .select('previousBalance')
+      .lean();
+    openingBalance = previous ? previous.newBalance : next ? next.previousBalance : wallet.balance;
+  }
+
+  const byCategory = new Map();
+  let creditKobo = 0;
+  let debitKobo = 0;
+
+  const lines = rows.map((row) => {
+    const credit = isCredit(row);
+    const amountKobo = toKobo(row.amount);
+    if (credit) creditKobo += amountKobo;
+    else debitKobo += amountKobo;
+
+    const category = row.category || 'other';
+    const totals = byCategory.get(category) || { category, label: CATEGORY_LABELS[category] || category, credits: 0, debits: 0, count: 0 };
+    totals[credit ? 'credits' : 'debits'] += amountKobo;
+    totals.count += 1;
+    byCategory.set(category, totals);
+
+    return {
+      date: row.createdAt,
+      reference: row.reference,
+      description: row.description,
+      category,
+      status: row.status,
+      debit: credit ? 0 : row.amount,
+      credit: credit ? row.amount : 0,
+      balance: row.newBalance
+    };
+  });
+
+  const closingBalance = lines.length ? lines[lines.length - 1].balance : openingBalance;
+  const user = wallet.userId;
+
+  return {
+    account: {
+      name: user?.name || user?.username,
+      username: user?.username,
+      email: user?.email,
+      walletId: wallet._id,
+      currency: wallet.currency || 'NGN'
+    },
+    period,
+    openingBalance,
+    closingBalance,
+    lines,
+    totals: {
+      credits: fromKobo(creditKobo),
+      debits: fromKobo(debitKobo),
+      count: lines.length,
+      byCategory: [...byCategory.values()].map(t => ({ ...t, credits: fromKobo(t.credits), debits: fromKobo(t.debits) }))
+    },
+    generatedAt: new Date()
+  };
+}
+
+const isoDate = (date) => new Date(date).toISOString().slice(0, 10);
+const money = (amount) => Number(amount || 0).toLocaleString('en-NG', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+const statementFilename = (statement, extension) =>
+  `ConnectPay-Statement-${isoDate(statement.period.from)}-to-${isoDate(statement.period.to)}.${extension}`;
+
+const csvField = (value) => {
+  const text = value === undefined || value === null ? '' : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// One row per ledger line between an opening and a closing balance row, so
+// spreadsheets can re-add the running balance
+function renderStatementCsv(statement) {
+  const rows = [
+    ['Date', 'Reference', 'Description', 'Category', 'Status', 'Debit', 'Credit', 'Balance'],
+    [isoDate(statement.period.from), '', 'Opening balance', '', '', '', '', statement.openingBalance.toFixed(2)],
+    ...statement.lines.map(line => [
+      new Date(line.date).toISOString(),
+      line.reference,
+      line.description,
+      line.category,
+      line.status,
+      line.debit ? line.debit.toFixed(2) : '',
+      line.credit ? line.credit.toFixed(2) : '',
+      line.balance.toFixed(2)
+    ]),
+    [isoDate(statement.period.to), '', 'Closing balance', '', '', statement.totals.debits.toFixed(2), statement.totals.credits.toFixed(2), statement.closingBalance.toFixed(2)]
+  ];
+  return Buffer.from(`${rows.map(row => row.map(csvField).join(',')).join('\r\n')}\r\n`, 'utf8');
+}
+
+const PDF_COLUMNS = [
+  { key: 'date', title: 'Date', width: 62 },
+  { key: 'description', title: 'Description', width: 168 },
+  { key: 'reference', title: 'Reference', width: 100 },
+  { key: 'debit', title: 'Debit', width: 60, align: 'right' },
+  { key: 'credit', title: 'Credit', width: 60, align: 'right' },
+  { key: 'balance', title: 'Balance', width: 73, align: 'right' }
+];
+
+// A4 statement: account header, summary, every line with running balance
+// (repeating the column header on each page), then totals per category.
+// Resolves to a Buffer.
+function renderStatementPdf(statement) {
+  return new Promise((resolve, reject) => {
+    const doc = new PDFDocument({
+      size: 'A4',
+      margin: 36,
+      bufferPages: true,
+      info: { Title: 'Account Statement', Author: 'ConnectPay' }
+    });
+    const chunks = [];
+    doc.on('data', chunk => chunks.push(chunk));
+    doc.on('end', () => resolve(Buffer.concat(chunks)));
+    doc.on('error', reject);
+
+    const left = doc.page.margins.left;
+    const width = doc.page.width - left - doc.page.margins.right;
+    const bottom = () => doc.page.height - doc.page.margins.bottom - 20;
+
+    doc.rect(0, 0, doc.page.width, 70).fill('#ff2b2b');
+    doc.fillColor('#ffffff').font('Helvetica-Bold').fontSize(18).text('ConnectPay', left, 20);
+    doc.font('Helvetica').fontSize(10).text('Account Statement', left, 44);
+
+    doc.fillColor('#1a1a1a').font('Helvetica-Bold').fontSize(11).text(statement.account.name || '', left, 90);
+    doc.font('Helvetica').fontSize(9).fillColor('#666666')
+      .text([statement.account.username && `@${statement.account.username}`, statement.account.email].filter(Boolean).join('  •  '))
+      .text(`Period: ${isoDate(statement.period.from)} to ${isoDate(statement.period.to)}`)
+      .text(`Currency: ${statement.account.currency}`);
+    doc.moveDown();
+
+    // Summary
+    const summary = [
+      ['Opening balance', statement.openingBalance],
+      ['Total credits', statement.totals.credits],
+      ['Total debits', statement.totals.debits],
+      ['Closing balance', statement.closingBalance]
+    ];
+    const boxWidth = width / summary.length;
+    const boxTop = doc.y;
+    summary.forEach(([label, amount], index) => {
+      const x = left + index * boxWidth;
+      doc.rect(x + 2, boxTop, boxWidth - 4, 40).fill('#fff3f3');
+      doc.fillColor('#666666').font('Helvetica').fontSize(8).text(label, x + 8, boxTop + 7, { width: boxWidth - 16 });
+      doc.fillColor('#1a1a1a').font('Helvetica-Bold').fontSize(10).text(money(amount), x + 8, boxTop + 20, { width: boxWidth - 16 });
+    });
+    doc.y = boxTop + 52;
+
+    const drawHeader = () => {
+      const y = doc.y;
+      doc.rect(left, y, width, 16).fill('#1a1a1a');
+      let x = left;
+      doc.fillColor('#ffffff').font('Helvetica-Bold').fontSize(8);
+      for (const column of PDF_COLUMNS) {
+        doc.text(column.title, x + 3, y + 4, { width: column.width - 6, align: column.align || 'left' });
+        x += column.width;
+      }
+      doc.y = y + 18;
+    };
+
+    const drawRow = (cells, shaded) => {
+      doc.font('Helvetica').fontSize(7.5);
+      const height = Math.max(...PDF_COLUMNS.map(column =>
+        doc.heightOfString(cells[column.key], { width: column.width - 6 }))) + 6;
+
+      if (doc.y + height > bottom()) {
+        doc.addPage();
+        drawHeader();
+      }
+
+      const y = doc.y;
+      if (shaded) doc.rect(left, y, width, height).fill('#f7f7f7');
+      let x = left;
+      doc.fillColor('#1a1a1a').font('Helvetica').fontSize(7.5);
+      for (const column of PDF_COLUMNS) {
+        doc.text(cells[column.key], x + 3, y + 3, { width: column.width - 6, align: column.align || 'left' });
+        x += column.width;
+      }
+      doc.y = y + height;
+    };
+
+    drawHeader();
+    drawRow({ date: isoDate(statement.period.from), description: 'Opening balance', reference: '', debit: '', credit: '', balance: money(statement.openingBalance) }, false);
+    statement.lines.forEach((line, index) => {
+      drawRow({
+        date: isoDate(line.date),
+        description: line.status === 'completed' ? line.description : `${line.description} (${line.status})`,
+        reference: line.reference,
+        debit: line.debit ? money(line.debit) : '',
+        credit: line.credit ? money(line.credit) : '',
+        balance: money(line.balance)
+      }, index % 2 === 0);
+    });
+    drawRow({ date: isoDate(statement.period.to), description: 'Closing balance', reference: '', debit: money(statement.totals.debits), credit: money(statement.totals.credits), balance: money(statement.closingBalance) }, false);
+
+    // Totals per category
+    if (statement.totals.byCategory.length) {
+      if (doc.y + 40 + statement.totals.byCategory.length * 14 > bottom()) doc.addPage();
+      doc.moveDown();
+      doc.fillColor('#1a1a1a').font('Helvetica-Bold').fontSize(10).text('Totals by category', left);
+      doc.moveDown(0.3);
+      for (const total of statement.totals.byCategory) {
+        const y = doc.y;
+        doc.font('Helvetica').fontSize(8.5).fillColor('#1a1a1a')
+          .text(`${total.label} (${total.count})`, left, y, { width: width / 2 });
+        doc.text(`Debits ${money(total.debits)}    Credits ${money(total.credits)}`, left + width / 2, y, { width: width / 2, align: 'right' });
+        doc.y = y + 14;
+      }
+    }
+
+    // Page footers, written into the bottom margin (so no margin while writing
+    // them, or pdfkit would start a new page)
+    const range = doc.bufferedPageRange();
+    for (let i = range.start; i < range.start + range.count; i++) {
+      doc.switchToPage(i);
+      doc.page.margins.bottom = 0;
+      doc.fillColor('#999999').font('Helvetica').fontSize(7)
+        .text(
+          `Generated ${statement.generatedAt.toISOString()}  •  Page ${i + 1} of ${range.count}`,
+          left,
+          doc.page.height - doc.page.margins.bottom - 10,
+          { width, align: 'center', lineBreak: false }
+        );
+    }
+
+    doc.end();
+  });
+}
+
+module.exports = {
+  STATEMENT_LIMITS,
+  buildStatement,
+  renderStatementCsv,
+  renderStatementPdf,
+  statementFilename
+};
@@ -0,0 +1,113 @@
+const User = require('../models/User');
+const Wallet = require('../models/Wallet');
+const Transaction = require('../models/Transaction');
+const VirtualAccount = require('../models/VirtualAccount');
+const { getCollectionProvider } = require('./collections');
+
+const virtualAccountError = (message, errorCode, status = 400) => {
+  const error = new Error(message);
+  error.errorCode = errorCode;
+  error.status = status;
+  return error;
+};
+
+// Returns the user's reserved account at `bank`, reserving one with the
+// provider the first time it is asked for
+async function getOrReserveAccount(userId, bank) {
+  const provider = getCollectionProvider();
+  const bankKey = String(bank || '').toLowerCase();
+
+  if (!provider.supportedBanks.some(b => b.bank === bankKey)) {
+    throw virtualAccountError(
+      `Virtual accounts are available at: ${provider.supportedBanks.map(b => b.bankName).join(', ')}`,
+      'UNSUPPORTED_BANK'
+    );
+  }
+
+  const existing = await VirtualAccount.findOne({ userId, bank: bankKey, isActive: true });
+  if (existing) return existing;
+
+  const user = await User.findById(userId);
+  if (!user) throw virtualAccountError('User not found', 'USER_NOT_FOUND', 404);
+
+  const wallet = await Wallet.findByUserId(userId) || await Wallet.createForUser(userId);
+  const reserved = await provider.reserveAccount({ user, bank: bankKey });
+
+  try {
+    return await VirtualAccount.create({
+      userId,
+      walletId: wallet._id,
+      provider: provider.name,
+      bank: bankKey,
+      ...reserved
+    });
+  } catch (error) {
+    // A concurrent request reserved it first
+    if (error.code === 11000) return VirtualAccount.findOne({ userId, bank: bankKey });
+    throw error;
+  }
+}
+
+// Credits the wallet behind a virtual account for one inbound payment.
+// The provider's reference is stored as gateway.gatewayReference and is also
+// the ledger reference, so a webhook delivered twice credits once.
+// Resolves to { status: 'credited' | 'duplicate' | 'unknown_account', transaction? }.
+async function creditInboundPayment(payment, providerName) {
+  const existing = await Transaction.findOne({
+    'gateway.provider': providerName,
+    'gateway.gatewayReference': payment.providerReference
+  });
+  if (existing) return { status: 'duplicate', transaction: existing };
+
+  const account = await VirtualAccount.findOne({ accountNumber: payment.accountNumber, provider: providerName });
+  if (!account) return { status: 'unknown_account' };
+
+  const wallet = await Wallet.findById(account.walletId);
+  const from = payment.senderName ? ` from ${payment.senderName}` : '';
+
+  try {
+    const { transaction } = await wallet.credit(
+      payment.amount,
+      `Wallet funding via ${account.bankName} transfer${from}`,
+      `VA_${providerName.toUpperCase()}_${payment.providerReference}`,
+      {
+        category: 'funding',
+        gateway: {
+          provider: providerName,
+          gatewayReference: payment.providerReference,
+          gatewayResponse: {
+            accountNumber: payment.accountNumber,
+            senderName: payment.senderName,
+            senderBank: payment.senderBank,
+            narration: payment.narration,
+            paidAt: payment.paidAt
+          }
+        },
+        metadata: { source: 'virtual_account', notes: payment.narration }
+      }
+    );
+
+    account.lastPaymentAt = payment.paidAt;
+    await account.save();
+
+    return { status: 'credited', transaction };
+  } catch (error) {
+    // Same reference inserted by a concurrent delivery
+    if (error.code === 11000) return { status: 'duplicate' };
+    throw error;
+  }
+}
+
+const virtualAccountSummary = (account) => ({
+  bank: account.bank,
+  bankName: account.bankName,
+  accountNumber: account.accountNumber,
+  accountName: account.accountName,
+  lastPaymentAt: account.lastPaymentAt
+});
+
+module.exports = {
+  getOrReserveAccount,
+  creditInboundPayment,
+  virtualAccountSummary
+};
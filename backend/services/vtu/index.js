@@ -0,0 +1,91 @@
+// services/vtu - Pluggable VTU provider adapters
+//
+// Every adapter exposes the same methods, so routes never talk to a vendor
+// API directly:
+//   purchaseAirtime, purchaseData, getCablePackages, verifySmartCard,
+//   purchaseCable, verifyMeter, purchaseElectricity, getInternetPlans,
+//   purchaseInternet, fundBetting, getEducationProducts, purchaseEducation,
+//   purchasePrintRecharge, generateRechargePins, requery
+//
+// Vend methods resolve to { status: 'success' | 'failed' | 'pending',
+// providerReference, message, details?, raw } and reject only on transport
+// errors (timeouts, connection failures) or unsupported input. requery()
+// answers `pending` with unknownReference: true when the provider has no
+// record of the reference; that is never a final answer. Its details.pins
+// carries the recharge PINs of a delivered generateRechargePins order.
+//
+// Select the adapter with VTU_PROVIDER=vtpass|simulator. Without VTpass
+// credentials the simulator is used (start it with `npm run simulator`).
+const { createVtpassAdapter } = require('./vtpassAdapter');
+
+const adapters = {
+  vtpass: () => createVtpassAdapter({
+    name: 'vtpass',
+    baseUrl: process.env.VTPASS_BASE_URL || 'https://vtpass.com/api',
+    username: process.env.VTPASS_USERNAME,
+    password: process.env.VTPASS_PASSWORD,
+    apiKey: process.env.VTPASS_API_KEY,
+    secretKey: process.env.VTPASS_SECRET_KEY
+  }),
+  simulator: () => createVtpassAdapter({
+    name: 'simulator',
+    baseUrl: process.env.VTU_SIMULATOR_URL || `http://localhost:${process.env.VTU_SIMULATOR_PORT || 5055}/api`,
+    apiKey: 'simulator',
+    secretKey: 'simulator',
+    timeoutMs: Number(process.env.VTU_SIMULATOR_TIMEOUT_MS) || 10000
+  })
+};
+
+let activeAdapter = null;
+
+const resolveAdapterName = () => {
+  if (process.env.VTU_PROVIDER) return process.env.VTU_PROVIDER;
+  return process.env.VTPASS_API_KEY && process.env.VTPASS_SECRET_KEY ? 'vtpass' : 'simulator';
+};
+
+const getVtuProvider = () => {
+  if (!activeAdapter) {
+    const name = resolveAdapterName();
+    if (!adapters[name]) {
+      throw new Error(`Unknown VTU_PROVIDER "${name}". Expected one of: ${Object.keys(adapters).join(', ')}`);
+    }
+    activeAdapter = adapters[name]();
+    console.log(`VTU provider: ${activeAdapter.name}`);
+  }
+  return activeAdapter;
+};
+
+// Register an additional adapter factory, e.g. for a second aggregator
+const registerVtuProvider = (name, factory) => {
+  adapters[name] = factory;
+  activeAdapter = null;
+};
+
+// Turns an adapter vend result into the shape purchase processors return:
+// { success, pending?, reference, description, successMessage, errorMessage, transactionData, metadata }
+const toPurchaseResult = (vend, { reference, description, successMessage, failureMessage, transactionData, metadata }) => {
+  const providerReference = vend.providerReference || reference;
+
+  if (vend.status === 'success') {
+    return { success: true, reference: providerReference, description, successMessage, transactionData, metadata };
+  }
+
+  // Only an explicit failure refunds; anything else may still be delivered,
+  // so the hold waits for a requery
+  if (vend.status !== 'failed') {
+    return { success: false, pending: true, reference: providerReference, description, transactionData, metadata };
+  }
+
+  return {
+    success: false,
+    reference: providerReference,
+    errorMessage: vend.message || failureMessage,
+    transactionData
+  };
+};
+
+module.exports = {
+  getVtuProvider,
+  registerVtuProvider,
+  toPurchaseResult
+};
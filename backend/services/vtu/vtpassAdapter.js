@@ -0,0 +1,302 @@
+const axios = require('axios');
+
+// VTpass serviceIDs for the services we sell
+const AIRTIME_SERVICE_IDS = {
+  mtn: 'mtn',
+  airtel: 'airtel',
+  glo: 'glo',
+  '9mobile': 'etisalat'
+};
+
+const DATA_SERVICE_IDS = {
+  mtn: 'mtn-data',
+  airtel: 'airtel-data',
+  glo: 'glo-data',
+  '9mobile': 'etisalat-data'
+};
+
+const CABLE_SERVICE_IDS = {
+  dstv: 'dstv',
+  gotv: 'gotv',
+  startime: 'startimes',
+  startimes: 'startimes',
+  showmax: 'showmax'
+};
+
+const INTERNET_SERVICE_IDS = {
+  smile: 'smile-direct',
+  spectranet: 'spectranet',
+  swift: 'swift',
+  ipnx: 'ipnx',
+  coollink: 'coollink'
+};
+
+const EDUCATION_SERVICE_IDS = {
+  waec: 'waec',
+  jamb: 'jamb',
+  neco: 'neco',
+  nabteb: 'nabteb'
+};
+
+// Maps a VTpass /pay or /requery body onto the adapter result shape
+const normalizeVendResponse = (data, reference) => {
+  const transaction = data?.content?.transactions || {};
+  const providerReference = data?.requestId || transaction.transactionId || reference;
+
+  if (data?.code === '000') {
+    if (['delivered', 'successful'].includes(transaction.status) || !transaction.status) {
+      return { status: 'success', providerReference, message: data.response_description, raw: data };
+    }
+    if (['failed', 'reversed'].includes(transaction.status)) {
+      return { status: 'failed', providerReference, message: data.response_description || 'Transaction failed', raw: data };
+    }
+    return { status: 'pending', providerReference, message: 'Transaction is processing', raw: data };
+  }
+
+  // 099 = transaction is processing. A body without a code tells us nothing,
+  // so it is treated the same way and settled by a requery.
+  if (data?.code === '099' || !data?.code) {
+    return { status: 'pending', providerReference, message: data.response_description || 'Transaction is processing', raw: data };
+  }
+
+  return { status: 'failed', providerReference, message: data?.response_description || 'Transaction failed', raw: data };
+};
+
+// Recharge PIN cards; VTpass sends them on the /pay body and again on
+// /requery once the PINs are delivered
+const rechargePinsFrom = (data) => (data?.cards || data?.content?.cards || [])
+  .map(card => ({ pin: String(card.Pin || card.pin), serial: String(card.Serial || card.serial) }));
+
+// 015 = the provider has no transaction with this request id. For a requery
+// that is not a failure: the original request may still be in flight, or may
+// never have arrived, and refunding could pay out twice.
+const UNKNOWN_REQUEST_ID_CODE = '015';
+
+const unsupported = (service) => {
+  const error = new Error(`Unsupported ${service} provider`);
+  error.errorCode = 'UNSUPPORTED_PROVIDER';
+  error.status = 400;
+  return error;
+};
+
+// VTpass-compatible adapter. The local simulator speaks the same protocol,
+// so the simulator adapter is this one pointed at the simulator's base URL.
+function createVtpassAdapter(config) {
+  const { name = 'vtpass', baseUrl, username, password, apiKey, secretKey, timeoutMs = 30000 } = config;
+
+  const post = async (path, payload, timeout = timeoutMs) => {
+    const response = await axios.post(`${baseUrl}${path}`, payload, {
+      auth: username ? { username, password } : undefined,
+      headers: {
+        'api-key': apiKey,
+        'secret-key': secretKey
+      },
+      timeout
+    });
+    return response.data;
+  };
+
+  const pay = async (payload) => {
+    const data = await post('/pay', payload);
+    return normalizeVendResponse(data, payload.request_id);
+  };
+
+  const verify = async (serviceID, billersCode, type) => {
+    const data = await post('/merchant-verify', { serviceID, billersCode, type }, 15000);
+    const content = data?.content || {};
+    if (data?.code !== '000' || content.error || content.WrongBillersCode) {
+      return { valid: false, message: content.error || 'Customer not found', raw: data };
+    }
+    return { valid: true, content, raw: data };
+  };
+
+  // Priced variations (plans, bouquets, exam products) of a service
+  const variations = async (serviceID) => {
+    const data = await post('/service-variations', { serviceID }, 15000);
+    const list = data?.content?.varations || data?.content?.variations || [];
+    return list.map(variation => ({
+      variation_id: variation.variation_code,
+      name: variation.name,
+      amount: parseFloat(variation.variation_amount)
+    }));
+  };
+
+  return {
+    name,
+
+    async purchaseAirtime({ network, phone, amount, reference }) {
+      const serviceID = AIRTIME_SERVICE_IDS[network];
+      if (!serviceID) throw unsupported('airtime');
+      return pay({ request_id: reference, serviceID, amount, phone });
+    },
+
+    async purchaseData({ network, phone, planCode, amount, reference }) {
+      const serviceID = DATA_SERVICE_IDS[network];
+      if (!serviceID) throw unsupported('data');
+      return pay({ request_id: reference, serviceID, billersCode: phone, variation_code: planCode, amount, phone });
+    },
+
+    async getCablePackages({ operator }) {
+      const serviceID = CABLE_SERVICE_IDS[operator];
+      if (!serviceID) throw unsupported('cable');
+      const packages = await variations(serviceID);
+      return packages.map(pkg => ({ ...pkg, duration: '30 days', description: pkg.name }));
+    },
+
+    async verifySmartCard({ operator, smartCardNumber }) {
+      const serviceID = CABLE_SERVICE_IDS[operator];
+      if (!serviceID) throw unsupported('cable');
+      const result = await verify(serviceID, smartCardNumber);
+      if (!result.valid) return { valid: false, message: result.message };
+      return {
+        valid: true,
+        customerName: result.content.Customer_Name || 'Verified Customer',
+        status: result.content.Status || 'active'
+      };
+    },
+
+    async purchaseCable({ operator, packageCode, smartCardNumber, phone, amount, reference }) {
+      const serviceID = CABLE_SERVICE_IDS[operator];
+      if (!serviceID) throw unsupported('cable');
+      return pay({
+        request_id: reference,
+        serviceID,
+        billersCode: smartCardNumber,
+        variation_code: packageCode,
+        amount,
+        phone,
+        subscription_type: 'change'
+      });
+    },
+
+    async verifyMeter({ serviceId, meterNumber, meterType }) {
+      const result = await verify(serviceId, meterNumber, meterType);
+      if (!result.valid) return { valid: false, message: result.message };
+      const content = result.content;
+      return {
+        valid: true,
+        customerName: content.Customer_Name || 'Verified Customer',
+        customerAddress: content.Address || content.Customer_Address || '',
+        accountNumber: content.Account_Number || content.Customer_Account_Number || null,
+        meterNumber: content.Meter_Number || meterNumber,
+        tariffClass: content.Tariff || content.Customer_Tariff || null
+      };
+    },
+
+    async purchaseElectricity({ serviceId, meterNumber, meterType, amount, phone, reference }) {
+      const result = await pay({
+        request_id: reference,
+        serviceID: serviceId,
+        billersCode: meterNumber,
+        variation_code: meterType,
+        amount,
+        phone
+      });
+      // VTpass returns the token as "Token : 1234-5678-..." on some discos
+      const rawToken = result.raw?.token || result.raw?.Token || result.raw?.purchased_code || result.raw?.mainToken;
+      return {
+        ...result,
+        details: {
+          token: rawToken ? String(rawToken).replace(/^token\s*:\s*/i, '').trim() : null,
+          units: result.raw?.units || result.raw?.Units || null,
+          tariffClass: result.raw?.tariff || result.raw?.Tariff || null
+        }
+      };
+    },
+
+    async getInternetPlans({ provider }) {
+      const serviceID = INTERNET_SERVICE_IDS[provider];
+      if (!serviceID) throw unsupported('internet');
+      return variations(serviceID);
+    },
+
+    async purchaseInternet({ provider, planCode, customerNumber, amount, phone, reference }) {
+      const serviceID = INTERNET_SERVICE_IDS[provider];
+      if (!serviceID) throw unsupported('internet');
+      return pay({
+        request_id: reference,
+        serviceID,
+        billersCode: customerNumber,
+        variation_code: planCode,
+        amount,
+        phone: phone || customerNumber
+      });
+    },
+
+    // Betting top-ups use the bookmaker code as serviceID; availability
+    // depends on the services enabled on the merchant account.
+    async fundBetting({ provider, customerId, amount, reference }) {
+      return pay({ request_id: reference, serviceID: provider, billersCode: customerId, amount });
+    },
+
+    // Print credit top-ups also use the print provider's code as serviceID;
+    // the credit code comes back as purchased_code
+    async purchasePrintRecharge({ provider, printerId, amount, phone, reference }) {
+      const result = await pay({ request_id: reference, serviceID: provider, billersCode: printerId, amount, phone });
+      return {
+        ...result,
+        details: {
+          creditCode: result.raw?.purchased_code || result.raw?.content?.transactions?.purchased_code || null
+        }
+      };
+    },
+
+    async getEducationProducts({ provider }) {
+      const serviceID = EDUCATION_SERVICE_IDS[provider];
+      if (!serviceID) throw unsupported('education');
+      return variations(serviceID);
+    },
+
+    async purchaseEducation({ provider, examType, candidateId, amount, phone, reference }) {
+      const serviceID = EDUCATION_SERVICE_IDS[provider];
+      if (!serviceID) throw unsupported('education');
+      const result = await pay({
+        request_id: reference,
+        serviceID,
+        billersCode: candidateId,
+        variation_code: examType,
+        amount,
+        phone
+      });
+      return {
+        ...result,
+        details: {
+          cards: result.raw?.cards || [],
+          pin: result.raw?.Pin || result.raw?.purchased_code || null
+        }
+      };
+    },
+
+    async generateRechargePins({ network, denomination, quantity, reference }) {
+      const serviceID = AIRTIME_SERVICE_IDS[network];
+      if (!serviceID) throw unsupported('recharge PIN');
+      const result = await pay({
+        request_id: reference,
+        serviceID: `${serviceID}-epin`,
+        variation_code: String(denomination),
+        quantity,
+        amount: denomination * quantity
+      });
+      return { ...result, details: { pins: rechargePinsFrom(result.raw) } };
+    },
+
+    async requery(reference) {
+      const data = await post('/requery', { request_id: reference }, 15000);
+      if (data?.code === UNKNOWN_REQUEST_ID_CODE) {
+        return {
+          status: 'pending',
+          unknownReference: true,
+          providerReference: reference,
+          message: data.response_description || 'Provider has no record of this transaction',
+          raw: data
+        };
+      }
+      return { ...normalizeVendResponse(data, reference), details: { pins: rechargePinsFrom(data) } };
+    }
+  };
+}
+
+module.exports = {
+  createVtpassAdapter,
+  normalizeVendResponse
+};
@@ -0,0 +1,204 @@
+const Transaction = require('../models/Transaction');
+const { getPayoutProvider } = require('./payouts');
+
+const WITHDRAWAL_LIMITS = {
+  MIN: 100,
+  MAX: 1000000
+};
+
+// Flat fee per withdrawal, by amount band
+const WITHDRAWAL_FEE_TIERS = [
+  { upTo: 5000, fee: 10 },
+  { upTo: 50000, fee: 25 },
+  { upTo: Infinity, fee: 50 }
+];
+
+const withdrawalError = (message, errorCode, status = 400) => {
+  const error = new Error(message);
+  error.errorCode = errorCode;
+  error.status = status;
+  return error;
+};
+
+// The configured payout provider, or WITHDRAWALS_UNAVAILABLE when there is
+// none (e.g. production without Paystack), before any money is held
+const payoutProvider = () => {
+  try {
+    return getPayoutProvider();
+  } catch (error) {
+    console.error('Payout provider unavailable:', error.message);
+    throw withdrawalError('Withdrawals are not available right now', 'WITHDRAWALS_UNAVAILABLE', 503);
+  }
+};
+
+const calculateWithdrawalFee = (amount) =>
+  WITHDRAWAL_FEE_TIERS.find(tier => amount <= tier.upTo).fee;
+
+// NUBAN account-name enquiry. Resolves to
+// { accountName, accountNumber, bankCode, bankName } or rejects with
+// INVALID_ACCOUNT_NUMBER, UNKNOWN_BANK or ACCOUNT_NOT_FOUND.
+async function resolveBankAccount(bankCode, accountNumber) {
+  const number = String(accountNumber || '').trim();
+  if (!/^\d{10}$/.test(number)) {
+    throw withdrawalError('Account number must be 10 digits', 'INVALID_ACCOUNT_NUMBER');
+  }
+
+  const provider = payoutProvider();
+  const banks = await provider.listBanks();
+  const bank = banks.find(b => b.code === String(bankCode));
+  if (!bank) {
+    throw withdrawalError('Select a valid bank', 'UNKNOWN_BANK');
+  }
+
+  const account = await provider.resolveAccount({ bankCode: bank.code, accountNumber: number });
+  if (!account) {
+    throw withdrawalError('We could not find an account with that number at this bank', 'ACCOUNT_NOT_FOUND', 404);
+  }
+
+  return { ...account, bankName: bank.name };
+}
+
+// Moves a held withdrawal and its fee to their final state for a payout result
+async function applyPayoutResult(wallet, transaction, feeTransaction, result) {
+  if (result.status === 'success') {
+    transaction.set('metadata.withdrawal.settledAt', new Date());
+    await transaction.complete();
+    if (feeTransaction?.status === 'pending') await feeTransaction.complete();
+  } else if (result.status === 'failed') {
+    const reason = result.message || 'Payout failed';
+    await wallet.releaseHold(transaction, reason);
+    if (feeTransaction?.status === 'pending') await wallet.releaseHold(feeTransaction, reason);
+  }
+  return transaction.status;
+}
+
+// Holds amount + fee, asks the payout provider to send the money and settles
+// or refunds on its answer. A payout the provider has not confirmed (including
+// a timeout, when the money may already have left) stays `pending` until
+// refreshWithdrawal() sees a final status.
+async function createWithdrawal({ wallet, amount, bankCode, accountNumber, narration }) {
+  if (!Number.isFinite(amount) || amount < WITHDRAWAL_LIMITS.MIN || amount > WITHDRAWAL_LIMITS.MAX) {
+    throw withdrawalError(
+      `Amount must be between ₦${WITHDRAWAL_LIMITS.MIN.toLocaleString()} and ₦${WITHDRAWAL_LIMITS.MAX.toLocaleString()}`,
+      'INVALID_AMOUNT'
+    );
+  }
+
+  const account = await resolveBankAccount(bankCode, accountNumber);
+  const fee = calculateWithdrawalFee(amount);
+
+  if (wallet.balance < amount + fee) {
+    throw withdrawalError(
+      `Insufficient balance. Available: ₦${wallet.balance.toLocaleString()}, Required: ₦${(amount + fee).toLocaleString()} (including ₦${fee} fee)`,
+      'INSUFFICIENT_BALANCE'
+    );
+  }
+
+  const reference = Transaction.generateReference('WDR');
+  const feeReference = `${reference}_FEE`;
+  const cleanNarration = narration ? String(narration).trim().slice(0, 100) : undefined;
+
+  const { transaction } = await wallet.hold(
+    amount,
+    `Withdrawal to ${account.accountName} - ${account.bankName} ${account.accountNumber}`,
+    reference,
+    {
+      category: 'withdrawal',
+      metadata: {
+        source: 'withdrawal',
+        withdrawal: {
+          bankCode: account.bankCode,
+          bankName: account.bankName,
+          accountNumber: account.accountNumber,
+          accountName: account.accountName,
+          narration: cleanNarration,
+          fee,
+          feeReference
+        }
+      }
+    }
+  );
+
+  let feeTransaction;
+  try {
+    ({ transaction: feeTransaction } = await wallet.hold(fee, `Withdrawal fee - ${reference}`, feeReference, {
+      category: 'fee',
+      relatedTransactionId: transaction._id
+    }));
+  } catch (error) {
+    await wallet.releaseHold(transaction, 'Unable to charge withdrawal fee');
+    throw error;
+  }
+
+  const provider = payoutProvider();
+  let result;
+  try {
+    result = await provider.initiatePayout({
+      reference,
+      amount,
+      bankCode: account.bankCode,
+      accountNumber: account.accountNumber,
+      accountName: account.accountName,
+      narration: cleanNarration || 'ConnectPay withdrawal'
+    });
+  } catch (error) {
+    console.error(`Withdrawal ${reference} payout error:`, error.message);
+    result = { status: 'pending', providerReference: reference, message: error.message };
+  }
+
+  transaction.relatedTransactionId = feeTransaction._id;
+  transaction.set('gateway', {
+    provider: provider.name,
+    gatewayReference: result.providerReference || reference
+  });
+  await transaction.save();
+
+  await applyPayoutResult(wallet, transaction, feeTransaction, result);
+
+  return { transaction, feeTransaction, account, fee, message: result.message };
+}
+
+// Asks the provider about a pending withdrawal and settles or refunds it
+async function refreshWithdrawal(wallet, transaction) {
+  if (transaction.status !== 'pending') return transaction.status;
+
+  const provider = payoutProvider();
+  const result = await provider.getPayoutStatus(transaction.gateway?.gatewayReference || transaction.reference);
+  const feeTransaction = await Transaction.findOne({ reference: transaction.metadata?.withdrawal?.feeReference });
+
+  return applyPayoutResult(wallet, transaction, feeTransaction, result);
+}
+
+// Shape returned by the withdrawal endpoints
+const withdrawalSummary = (transaction) => {
+  const details = transaction.metadata?.withdrawal || {};
+  return {
+    _id: transaction._id,
+    reference: transaction.reference,
+    amount: transaction.amount,
+    fee: details.fee || 0,
+    totalDebited: transaction.amount + (details.fee || 0),
+    status: transaction.status === 'completed' ? 'settled' : transaction.status,
+    bank: {
+      code: details.bankCode,
+      name: details.bankName,
+      accountNumber: details.accountNumber,
+      accountName: details.accountName
+    },
+    narration: details.narration,
+    failureReason: transaction.metadata?.failureReason,
+    createdAt: transaction.createdAt,
+    settledAt: details.settledAt,
+    failedAt: transaction.failedAt
+  };
+};
+
+module.exports = {
+  WITHDRAWAL_LIMITS,
+  payoutProvider,
+  calculateWithdrawalFee,
+  resolveBankAccount,
+  createWithdrawal,
+  refreshWithdrawal,
+  withdrawalSummary
+};
@@ -0,0 +1,254 @@
+// simulator/vtuSimulator.js - Deterministic VTpass-compatible simulator
+//
+// Run with `npm run simulator` and start the API with VTU_PROVIDER=simulator.
+//
+// Outcomes are scripted, never random:
+//   * POST /__control/scenarios { "outcomes": ["fail", "pending", "timeout", "success"] }
+//     queues outcomes for the next /pay calls (DELETE clears the queue).
+//   * Otherwise the last 4 digits of billersCode/phone decide:
+//       0000 -> fail, 1111 -> pending, 2222 -> timeout, anything else -> success.
+//     For /merchant-verify, 0000 means "customer not found".
+//   * POST /__control/transactions/:requestId { "status": "delivered" | "failed" }
+//     settles a pending transaction; /requery then reports the new status.
+const express = require('express');
+const crypto = require('crypto');
+
+const TIMEOUT_DELAY_MS = Number(process.env.VTU_SIMULATOR_TIMEOUT_DELAY_MS) || 30000;
+
+const SERVICE_VARIATIONS = {
+  dstv: [
+    { variation_code: 'dstv-padi', name: 'DStv Padi', variation_amount: '3600.00' },
+    { variation_code: 'dstv-yanga', name: 'DStv Yanga', variation_amount: '5100.00' },
+    { variation_code: 'dstv-confam', name: 'DStv Confam', variation_amount: '9300.00' },
+    { variation_code: 'dstv79', name: 'DStv Compact', variation_amount: '15700.00' },
+    { variation_code: 'dstv3', name: 'DStv Premium', variation_amount: '37000.00' }
+  ],
+  gotv: [
+    { variation_code: 'gotv-smallie', name: 'GOtv Smallie', variation_amount: '1575.00' },
+    { variation_code: 'gotv-jinja', name: 'GOtv Jinja', variation_amount: '3300.00' },
+    { variation_code: 'gotv-jolli', name: 'GOtv Jolli', variation_amount: '4850.00' },
+    { variation_code: 'gotv-max', name: 'GOtv Max', variation_amount: '7200.00' }
+  ],
+  startimes: [
+    { variation_code: 'nova', name: 'Nova', variation_amount: '1900.00' },
+    { variation_code: 'basic', name: 'Basic', variation_amount: '3700.00' },
+    { variation_code: 'smart', name: 'Smart', variation_amount: '4700.00' },
+    { variation_code: 'classic', name: 'Classic', variation_amount: '5500.00' }
+  ],
+  showmax: [
+    { variation_code: 'mobile_only', name: 'Showmax Mobile', variation_amount: '1600.00' },
+    { variation_code: 'full', name: 'Showmax Standard', variation_amount: '3500.00' },
+    { variation_code: 'pro', name: 'Showmax Pro', variation_amount: '6300.00' }
+  ],
+  spectranet: [
+    { variation_code: 'spec_1gb_month', name: '1GB Monthly', variation_amount: '2500.00' },
+    { variation_code: 'spec_5gb_month', name: '5GB Monthly', variation_amount: '8000.00' },
+    { variation_code: 'spec_10gb_month', name: '10GB Monthly', variation_amount: '15000.00' },
+    { variation_code: 'spec_20gb_month', name: '20GB Monthly', variation_amount: '25000.00' },
+    { variation_code: 'spec_unlimited', name: 'Unlimited Weekly', variation_amount: '5000.00' }
+  ],
+  'smile-direct': [
+    { variation_code: 'smile_2gb_month', name: '2GB Monthly', variation_amount: '3000.00' },
+    { variation_code: 'smile_6gb_month', name: '6GB Monthly', variation_amount: '8500.00' },
+    { variation_code: 'smile_12gb_month', name: '12GB Monthly', variation_amount: '15500.00' },
+    { variation_code: 'smile_25gb_month', name: '25GB Monthly', variation_amount: '28000.00' },
+    { variation_code: 'smile_unlimited_week', name: 'Unlimited Weekly', variation_amount: '4500.00' }
+  ],
+  waec: [
+    { variation_code: 'waecdirect', name: 'WAEC Result Checker PIN', variation_amount: '3900.00' }
+  ],
+  jamb: [
+    { variation_code: 'utme', name: 'UTME PIN', variation_amount: '6200.00' },
+    { variation_code: 'de', name: 'Direct Entry PIN', variation_amount: '6200.00' }
+  ],
+  neco: [
+    { variation_code: 'neco-result', name: 'NECO Result Checker Token', variation_amount: '1200.00' }
+  ],
+  nabteb: [
+    { variation_code: 'nabteb-result', name: 'NABTEB Result Checker PIN', variation_amount: '1000.00' }
+  ]
+};
+
+// Deterministic digits derived from the request id
+const digitsFrom = (seed, length) => {
+  let digits = '';
+  let counter = 0;
+  while (digits.length < length) {
+    digits += crypto.createHash('sha256').update(`${seed}:${counter++}`).digest('hex').replace(/[a-f]/g, '');
+  }
+  return digits.slice(0, length);
+};
+
+const outcomeForCode = (code) => {
+  const suffix = String(code || '').slice(-4);
+  if (suffix === '0000') return 'fail';
+  if (suffix === '1111') return 'pending';
+  if (suffix === '2222') return 'timeout';
+  return 'success';
+};
+
+const transactionBody = (record) => {
+  const code = record.status === 'failed' ? '016' : record.status === 'pending' ? '099' : '000';
+  return {
+    code,
+    response_description: record.status === 'failed' ? 'TRANSACTION FAILED' : record.status === 'pending' ? 'TRANSACTION PROCESSING' : 'TRANSACTION SUCCESSFUL',
+    requestId: record.requestId,
+    amount: record.amount,
+    transaction_date: { date: record.createdAt },
+    content: {
+      transactions: {
+        status: record.status,
+        product_name: record.serviceID,
+        unique_element: record.billersCode,
+        amount: record.amount,
+        transactionId: `SIM${digitsFrom(record.requestId, 14)}`
+      }
+    },
+    ...record.extras
+  };
+};
+
+// Service-specific fields VTpass adds on success
+const extrasFor = ({ request_id, serviceID, variation_code, amount, quantity }) => {
+  if (/-electric$/.test(serviceID)) {
+    if (variation_code !== 'prepaid') return { tariff: 'R2' };
+    const token = digitsFrom(request_id, 20).match(/.{4}/g).join('-');
+    return { token: `Token : ${token}`, units: (Number(amount) / 68).toFixed(1), tariff: 'R2' };
+  }
+  if (/-epin$/.test(serviceID)) {
+    const count = Number(quantity) || 1;
+    return {
+      cards: Array.from({ length: count }, (_, i) => ({
+        Serial: digitsFrom(`${request_id}:serial:${i}`, 12),
+        Pin: digitsFrom(`${request_id}:pin:${i}`, 15)
+      }))
+    };
+  }
+  if (['epins', 'printivo', 'campus_print', 'quickprint'].includes(serviceID)) {
+    return { purchased_code: `PC${digitsFrom(request_id, 8)}` };
+  }
+  if (['waec', 'neco', 'nabteb', 'jamb'].includes(serviceID)) {
+    return { purchased_code: `Pin : ${digitsFrom(request_id, 12)}`, Pin: digitsFrom(request_id, 12) };
+  }
+  return {};
+};
+
+function createSimulatorApp() {
+  const app = express();
+  app.use(express.json());
+
+  const scenarios = [];
+  const transactions = new Map();
+
+  // ---------- Control endpoints ----------
+  app.post('/__control/scenarios', (req, res) => {
+    const outcomes = Array.isArray(req.body.outcomes) ? req.body.outcomes : [];
+    scenarios.push(...outcomes);
+    res.json({ queued: scenarios.length });
+  });
+
+  app.delete('/__control/scenarios', (req, res) => {
+    scenarios.length = 0;
+    res.json({ queued: 0 });
+  });
+
+  app.get('/__control/transactions', (req, res) => {
+    res.json({ transactions: Array.from(transactions.values()) });
+  });
+
+  app.post('/__control/transactions/:requestId', (req, res) => {
+    const record = transactions.get(req.params.requestId);
+    if (!record) return res.status(404).json({ message: 'Unknown request_id' });
+    record.status = req.body.status === 'failed' ? 'failed' : 'delivered';
+    if (record.status === 'delivered') record.extras = extrasFor(record.payload);
+    res.json(transactionBody(record));
+  });
+
+  app.post('/__control/reset', (req, res) => {
+    scenarios.length = 0;
+    transactions.clear();
+    res.json({ reset: true });
+  });
+
+  // ---------- VTpass-compatible API ----------
+  app.post('/api/service-variations', (req, res) => {
+    const variations = SERVICE_VARIATIONS[req.body.serviceID];
+    if (!variations) {
+      return res.json({ response_description: '000', code: '011', content: { errors: 'Unknown service' } });
+    }
+    res.json({
+      response_description: '000',
+      code: '000',
+      content: { ServiceName: req.body.serviceID, serviceID: req.body.serviceID, varations: variations }
+    });
+  });
+
+  app.post('/api/merchant-verify', (req, res) => {
+    const { serviceID, billersCode, type } = req.body;
+    if (outcomeForCode(billersCode) === 'fail') {
+      return res.json({ code: '000', content: { error: 'This number is not valid for the selected service', WrongBillersCode: true } });
+    }
+    res.json({
+      code: '000',
+      content: {
+        Customer_Name: 'SIMULATED CUSTOMER',
+        Address: `${digitsFrom(billersCode, 2)} Simulator Close, Lagos`,
+        Meter_Number: /-electric$/.test(serviceID) ? billersCode : undefined,
+        Account_Number: type === 'postpaid' ? billersCode : undefined,
+        Customer_Tariff: /-electric$/.test(serviceID) ? 'R2' : undefined,
+        Status: 'ACTIVE'
+      }
+    });
+  });
+
+  app.post('/api/pay', (req, res) => {
+    const payload = req.body;
+    const { request_id: requestId } = payload;
+    if (!requestId) {
+      return res.json({ code: '011', response_description: 'INVALID ARGUMENTS' });
+    }
+
+    // Replays return the original result, as VTpass does for duplicate request ids
+    if (transactions.has(requestId)) {
+      return res.json(transactionBody(transactions.get(requestId)));
+    }
+
+    const outcome = scenarios.length ? scenarios.shift() : outcomeForCode(payload.billersCode || payload.phone);
+    const record = {
+      requestId,
+      payload,
+      serviceID: payload.serviceID,
+      billersCode: payload.billersCode || payload.phone,
+      amount: Number(payload.amount),
+      status: outcome === 'fail' ? 'failed' : outcome === 'success' ? 'delivered' : 'pending',
+      extras: outcome === 'success' ? extrasFor(payload) : {},
+      createdAt: new Date().toISOString()
+    };
+    transactions.set(requestId, record);
+
+    if (outcome === 'timeout') {
+      // Still recorded as pending so a later requery can settle it
+      return setTimeout(() => res.json(transactionBody(record)), TIMEOUT_DELAY_MS);
+    }
+    res.json(transactionBody(record));
+  });
+
+  app.post('/api/requery', (req, res) => {
+    const record = transactions.get(req.body.request_id);
+    if (!record) {
+      return res.json({ code: '015', response_description: 'INVALID REQUEST ID' });
+    }
+    res.json(transactionBody(record));
+  });
+
+  return app;
+}
+
+if (require.main === module) {
+  const port = process.env.VTU_SIMULATOR_PORT || 5055;
+  createSimulatorApp().listen(port, () => {
+    console.log(`VTU simulator listening on http://localhost:${port}/api`);
+  });
+}
+
+module.exports = { createSimulatorApp };
@@ -0,0 +1,44 @@
+const mongoose = require('mongoose');
+const { MongoMemoryReplSet } = require('mongodb-memory-server');
+
+// Every database test runs against a single-node in-memory replica set, since
+// multi-document transactions need one, as in production.
+//
+// mongod itself is not an npm package. On first run mongodb-memory-server
+// downloads the version pinned under config.mongodbMemoryServer in
+// package.json into node_modules/.cache/mongodb-memory-server. CI should cache
+// that directory; machines without access to fastdl.mongodb.org can instead
+// point MONGOMS_SYSTEM_BINARY at an installed mongod of the same version.
+let replSet;
+
+const startDatabase = async () => {
+  try {
+    replSet = await MongoMemoryReplSet.create({ replSet: { count: 1, storageEngine: 'wiredTiger' } });
+  } catch (error) {
+    error.message = `Could not start mongod for the tests (see tests/helpers/database.js): ${error.message}`;
+    throw error;
+  }
+  await mongoose.connect(replSet.getUri());
+  await Promise.all(mongoose.modelNames().map(name => mongoose.model(name).init()));
+};
+
+const stopDatabase = async () => {
+  await mongoose.disconnect();
+  await replSet?.stop();
+};
+
+// Unique indexes (references, idempotency keys) matter to the tests, so they
+// are rebuilt after every drop
+const clearDatabase = async () => {
+  await mongoose.connection.db.dropDatabase();
+  await Promise.all(mongoose.modelNames().map(name => mongoose.model(name).syncIndexes()));
+};
+
+// Registers the hooks for a test file that uses the database
+const useTestDatabase = () => {
+  beforeAll(startDatabase);
+  afterAll(stopDatabase);
+  afterEach(clearDatabase);
+};
+
+module.exports = { useTestDatabase };
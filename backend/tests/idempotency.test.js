@@ -0,0 +1,136 @@
+const axios = require('axios');
+const express = require('express');
+const mongoose = require('mongoose');
+const IdempotencyKey = require('../models/IdempotencyKey');
+const { idempotency, markSideEffects } = require('../middleware/idempotency');
+const { useTestDatabase } = require('./helpers/database');
+
+useTestDatabase();
+
+// A purchase-like route behind the middleware. `outcome` in the body picks
+// the response; every run is counted so replays can be told apart.
+let server;
+let baseUrl;
+let runs;
+const userId = new mongoose.Types.ObjectId().toString();
+
+beforeAll(async () => {
+  const app = express();
+  app.use(express.json());
+  app.use((req, res, next) => {
+    req.user = { userId };
+    next();
+  });
+  app.post('/purchase', idempotency, (req, res) => {
+    runs += 1;
+    if (req.body.outcome === 'wrong-pin') {
+      return res.status(400).json({ success: false, message: 'Invalid PIN', run: runs });
+    }
+    markSideEffects(res);
+    if (req.body.outcome === 'declined') {
+      return res.status(400).json({ success: false, message: 'Provider declined', run: runs });
+    }
+    res.json({ success: true, run: runs });
+  });
+
+  server = app.listen(0);
+  await new Promise(resolve => server.once('listening', resolve));
+  baseUrl = `http://127.0.0.1:${server.address().port}`;
+});
+
+afterAll(async () => {
+  await new Promise(resolve => server.close(resolve));
+});
+
+beforeEach(() => {
+  runs = 0;
+});
+
+const post = (body, key) => axios.post(`${baseUrl}/purchase`, body, {
+  headers: key ? { 'Idempotency-Key': key } : {},
+  validateStatus: () => true
+});
+
+// The stored response is written after the reply is sent
+const stored = async (key) => {
+  for (let attempt = 0; attempt < 50; attempt += 1) {
+    const record = await IdempotencyKey.findOne({ key });
+    if (!record || record.status === 'completed') return record;
+    await new Promise(resolve => setTimeout(resolve, 20));
+  }
+  throw new Error(`Idempotency key ${key} was never settled`);
+};
+
+describe('Idempotency middleware', () => {
+  test('a repeated request replays the first response without running again', async () => {
+    const first = await post({ amount: 100, pin: '1357' }, 'key-replay');
+    await stored('key-replay');
+    const second = await post({ amount: 100, pin: '1357' }, 'key-replay');
+
+    expect(first.data).toEqual({ success: true, run: 1 });
+    expect(second.status).toBe(200);
+    expect(second.data).toEqual({ success: true, run: 1 });
+    expect(second.headers['idempotent-replayed']).toBe('true');
+    expect(runs).toBe(1);
+  });
+
+  test('the PIN and biometric signature are not part of the request', async () => {
+    await post({ amount: 100, pin: '1357' }, 'key-secrets');
+    await stored('key-secrets');
+
+    const withBiometric = await post({ amount: 100, biometric: { challengeId: 'abc', signature: 'sig' } }, 'key-secrets');
+
+    expect(withBiometric.status).toBe(200);
+    expect(withBiometric.data).toEqual({ success: true, run: 1 });
+    expect(runs).toBe(1);
+  });
+
+  test('reusing a key for a different request is refused', async () => {
+    await post({ amount: 100 }, 'key-reused');
+    await stored('key-reused');
+
+    const other = await post({ amount: 200 }, 'key-reused');
+
+    expect(other.status).toBe(409);
+    expect(other.data.error_code).toBe('IDEMPOTENCY_KEY_REUSED');
+    expect(runs).toBe(1);
+  });
+
+  test('a rejection before any side effect releases the key for a retry', async () => {
+    const wrongPin = await post({ amount: 100, outcome: 'wrong-pin' }, 'key-retry');
+    expect(wrongPin.status).toBe(400);
+    await expect(stored('key-retry')).resolves.toBeNull();
+
+    const retry = await post({ amount: 100 }, 'key-retry');
+
+    expect(retry.data).toEqual({ success: true, run: 2 });
+  });
+
+  test('a rejection after a side effect is kept and replayed', async () => {
+    await post({ amount: 100, outcome: 'declined' }, 'key-declined');
+    await stored('key-declined');
+
+    const replay = await post({ amount: 100, outcome: 'declined' }, 'key-declined');
+
+    expect(replay.status).toBe(400);
+    expect(replay.data).toEqual({ success: false, message: 'Provider declined', run: 1 });
+    expect(runs).toBe(1);
+  });
+
+  test('parallel requests with one key run once', async () => {
+    const responses = await Promise.all(Array.from({ length: 5 }, () => post({ amount: 100 }, 'key-parallel')));
+
+    expect(runs).toBe(1);
+    responses
+      .filter(response => response.status !== 200)
+      .forEach(response => expect(response.data.error_code).toBe('REQUEST_IN_PROGRESS'));
+  });
+
+  test('requests without a key are not tracked', async () => {
+    await post({ amount: 100 });
+    await post({ amount: 100 });
+
+    expect(runs).toBe(2);
+    expect(await IdempotencyKey.countDocuments()).toBe(0);
+  });
+});
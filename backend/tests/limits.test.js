@@ -0,0 +1,95 @@
+// Cheap hashes keep user setup fast; the rounds don't change what is tested
+process.env.BCRYPT_SALT_ROUNDS = '4';
+
+const mongoose = require('mongoose');
+const User = require('../models/User');
+const Wallet = require('../models/Wallet');
+const Transaction = require('../models/Transaction');
+const { KYC_TIER_LIMITS } = require('../config/limits');
+const { useTestDatabase } = require('./helpers/database');
+
+useTestDatabase();
+
+// A wallet without an owner record is held to the tier 0 limits
+const fundedWallet = async (balance, fields = {}) => {
+  const wallet = await Wallet.create({ userId: new mongoose.Types.ObjectId(), ...fields });
+  await wallet.credit(balance, 'Opening balance', `OPEN_${wallet._id}`);
+  return wallet;
+};
+
+const spent = async (wallet) => Transaction.countDocuments({ walletId: wallet._id, type: 'debit' });
+
+describe('Spending limits', () => {
+  test('a debit over the per-transaction limit is refused and undone', async () => {
+    const wallet = await fundedWallet(1000000);
+
+    await expect(wallet.debit(KYC_TIER_LIMITS[0].perTransaction + 1, 'Too big', 'LIM_PER_TXN')).rejects.toMatchObject({
+      errorCode: 'LIMIT_EXCEEDED',
+      limit: { period: 'transaction', limit: KYC_TIER_LIMITS[0].perTransaction }
+    });
+
+    expect(await spent(wallet)).toBe(0);
+    expect((await Wallet.findById(wallet._id)).balance).toBe(1000000);
+  });
+
+  test('a higher KYC tier raises the limits', async () => {
+    const user = await User.create({
+      name: 'Ada Obi',
+      username: 'adaobi',
+      email: 'ada@example.com',
+      phone: '08031234567',
+      password: 'secret123',
+      kycLevel: 1
+    });
+    const wallet = await Wallet.findOne({ userId: user._id });
+    await wallet.credit(1000000, 'Opening balance', 'OPEN_TIER_1');
+
+    await expect(wallet.debit(150000, 'Tier 1 purchase', 'LIM_TIER_1')).resolves.toBeDefined();
+  });
+
+  test('the daily limit counts earlier debits and pending holds', async () => {
+    const wallet = await fundedWallet(1000000);
+    await wallet.debit(40000, 'First purchase', 'LIM_DAILY_1');
+    await wallet.hold(40000, 'Awaiting provider', 'LIM_DAILY_2');
+
+    const error = await wallet.debit(30000, 'Over the limit', 'LIM_DAILY_3').catch(e => e);
+
+    expect(error.errorCode).toBe('LIMIT_EXCEEDED');
+    expect(error.limit).toMatchObject({ period: 'daily', used: 80000, remaining: 20000, requested: 30000, source: 'kyc' });
+    await expect(wallet.debit(20000, 'Up to the limit', 'LIM_DAILY_4')).resolves.toBeDefined();
+  });
+
+  test("the wallet's own limit wins when it is lower than the tier's", async () => {
+    const wallet = await fundedWallet(1000000, { dailyLimit: 5000 });
+    await wallet.debit(4000, 'First purchase', 'LIM_WALLET_1');
+
+    await expect(wallet.debit(2000, 'Over the wallet limit', 'LIM_WALLET_2')).rejects.toMatchObject({
+      errorCode: 'LIMIT_EXCEEDED',
+      limit: { period: 'daily', limit: 5000, source: 'wallet' }
+    });
+  });
+
+  test('fees and admin adjustments do not count towards the limits', async () => {
+    const wallet = await fundedWallet(1000000);
+    await wallet.debit(45000, 'Correction', 'LIM_ADMIN', { metadata: { source: 'admin_adjustment' } });
+    await wallet.debit(45000, 'Transfer fee', 'LIM_FEE', { category: 'fee' });
+    await wallet.debit(50000, 'Purchase', 'LIM_SPEND_1');
+
+    await expect(wallet.debit(50000, 'Purchase', 'LIM_SPEND_2')).resolves.toBeDefined();
+    await expect(wallet.debit(1, 'Over the limit', 'LIM_SPEND_3')).rejects.toMatchObject({ errorCode: 'LIMIT_EXCEEDED' });
+  });
+
+  test('parallel debits never add up past the limit', async () => {
+    const wallet = await fundedWallet(1000000);
+
+    const results = await Promise.allSettled(Array.from({ length: 5 }, (_, index) =>
+      wallet.debit(30000, 'Purchase', `LIM_PARALLEL_${index}`)
+    ));
+
+    expect(results.filter(result => result.status === 'fulfilled')).toHaveLength(3);
+    results
+      .filter(result => result.status === 'rejected')
+      .forEach(result => expect(result.reason.errorCode).toBe('LIMIT_EXCEEDED'));
+    expect((await Wallet.findById(wallet._id)).balance).toBe(910000);
+  });
+});
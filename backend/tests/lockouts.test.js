@@ -0,0 +1,99 @@
+// Cheap hashes keep user setup fast; the rounds don't change what is tested
+process.env.BCRYPT_SALT_ROUNDS = '4';
+
+const User = require('../models/User');
+require('../models/Wallet');
+const PinAttempt = require('../models/PinAttempt');
+const { PIN_POLICY, verifyTransactionPin } = require('../services/pinService');
+const { OTP_MAX_ATTEMPTS, hashOtp, checkOtpAttempt } = require('../services/otpService');
+const { useTestDatabase } = require('./helpers/database');
+
+useTestDatabase();
+
+const createUser = (fields = {}) => User.create({
+  name: 'Ada Obi',
+  username: 'adaobi',
+  email: 'ada@example.com',
+  phone: '08031234567',
+  password: 'secret123',
+  pin: '2580',
+  isPinSetup: true,
+  ...fields
+});
+
+// Each check loads its own copy of the user, as separate requests do
+const pinCheck = async (userId, pin) => {
+  const user = await User.findById(userId).select('+pin');
+  return verifyTransactionPin(user, pin, { source: 'test' });
+};
+
+describe('Transaction PIN lockout', () => {
+  test('parallel wrong PINs get MAX_ATTEMPTS tries before the PIN locks', async () => {
+    const { _id } = await createUser();
+
+    const results = await Promise.allSettled(Array.from({ length: 10 }, () => pinCheck(_id, '1397')));
+
+    const codes = results.map(result => result.reason.errorCode);
+    expect(codes.filter(code => code === 'INVALID_PIN')).toHaveLength(PIN_POLICY.MAX_ATTEMPTS - 1);
+    expect(codes.filter(code => code === 'PIN_LOCKED')).toHaveLength(10 - (PIN_POLICY.MAX_ATTEMPTS - 1));
+    expect(await PinAttempt.countDocuments({ userId: _id })).toBe(PIN_POLICY.MAX_ATTEMPTS);
+
+    // The right PIN doesn't get through a lock either
+    await expect(pinCheck(_id, '2580')).rejects.toMatchObject({ errorCode: 'PIN_LOCKED' });
+  });
+
+  test('the right PIN clears earlier failures', async () => {
+    const { _id } = await createUser();
+    await expect(pinCheck(_id, '1397')).rejects.toMatchObject({ errorCode: 'INVALID_PIN', attemptsRemaining: 2 });
+
+    await expect(pinCheck(_id, '2580')).resolves.toBe(true);
+
+    await expect(pinCheck(_id, '1397')).rejects.toMatchObject({ errorCode: 'INVALID_PIN', attemptsRemaining: 2 });
+  });
+});
+
+// The forgot-password, forgot-PIN and login codes share checkOtpAttempt
+describe.each([
+  ['password reset', { hash: 'resetPasswordToken', expires: 'resetPasswordExpires', attempts: 'resetPasswordAttempts' }],
+  ['PIN reset', { hash: 'resetPinToken', expires: 'resetPinExpires', attempts: 'resetPinAttempts' }],
+  ['login', { hash: 'loginOtpToken', expires: 'loginOtpExpires', attempts: 'loginOtpAttempts' }]
+])('%s code attempts', (label, fields) => {
+  const userWithCode = (code, expiresInMs = 10 * 60 * 1000) => createUser({
+    [fields.hash]: hashOtp(code),
+    [fields.expires]: new Date(Date.now() + expiresInMs)
+  });
+
+  test('parallel guesses get OTP_MAX_ATTEMPTS tries in total', async () => {
+    const user = await userWithCode('482913');
+
+    const results = await Promise.all(Array.from({ length: 20 }, (_, index) =>
+      checkOtpAttempt(User, user, String(100000 + index), fields)
+    ));
+
+    expect(results.filter(result => result === 'OTP_INVALID')).toHaveLength(OTP_MAX_ATTEMPTS);
+    expect(results.filter(result => result === 'OTP_ATTEMPTS_EXCEEDED')).toHaveLength(20 - OTP_MAX_ATTEMPTS);
+
+    // Out of attempts, the right code is refused too
+    await expect(checkOtpAttempt(User, user, '482913', fields)).resolves.toBe('OTP_ATTEMPTS_EXCEEDED');
+  });
+
+  test('the right code within the limit is accepted', async () => {
+    const user = await userWithCode('482913');
+
+    await expect(checkOtpAttempt(User, user, '000000', fields)).resolves.toBe('OTP_INVALID');
+    await expect(checkOtpAttempt(User, user, '482913', fields)).resolves.toBeNull();
+  });
+
+  test('an expired code is refused', async () => {
+    const user = await userWithCode('482913', -1000);
+
+    await expect(checkOtpAttempt(User, user, '482913', fields)).resolves.toBe('OTP_EXPIRED');
+  });
+
+  test('without an issued code nothing is counted', async () => {
+    const user = await createUser();
+
+    await expect(checkOtpAttempt(User, user, '482913', fields)).resolves.toBe('OTP_INVALID');
+    expect((await User.findById(user._id))[fields.attempts]).toBe(0);
+  });
+});
@@ -0,0 +1,178 @@
+const axios = require('axios');
+const mongoose = require('mongoose');
+const Wallet = require('../models/Wallet');
+const Transaction = require('../models/Transaction');
+// Debits look up the owner's KYC tier for the spending limits
+require('../models/User');
+const { createSimulatorApp } = require('../simulator/vtuSimulator');
+const { getVtuProvider } = require('../services/vtu');
+const { settlePendingPurchase, sweepPendingPurchases } = require('../services/purchaseSettlementService');
+const { useTestDatabase } = require('./helpers/database');
+
+useTestDatabase();
+
+// The simulator adapter, pointed at a simulator started for this file
+let simulator;
+let controlUrl;
+
+beforeAll(async () => {
+  simulator = createSimulatorApp().listen(0);
+  await new Promise(resolve => simulator.once('listening', resolve));
+  controlUrl = `http://127.0.0.1:${simulator.address().port}/__control`;
+  process.env.VTU_PROVIDER = 'simulator';
+  process.env.VTU_SIMULATOR_URL = `http://127.0.0.1:${simulator.address().port}/api`;
+});
+
+afterAll(async () => {
+  await new Promise(resolve => simulator.close(resolve));
+});
+
+afterEach(async () => {
+  await axios.post(`${controlUrl}/reset`);
+});
+
+const fundedWallet = async (balance) => {
+  const wallet = await Wallet.create({ userId: new mongoose.Types.ObjectId() });
+  await wallet.credit(balance, 'Opening balance', `OPEN_${wallet._id}`);
+  return wallet;
+};
+
+const purchaseHold = async (wallet, reference, amount, options = {}) => {
+  const { transaction } = await wallet.hold(amount, 'Airtime purchase - awaiting provider', reference, {
+    gateway: { provider: getVtuProvider().name, gatewayReference: reference },
+    ...options
+  });
+  return transaction;
+};
+
+// An airtime vend the simulator leaves processing until settleAtProvider()
+const pendingVend = async (reference) => {
+  await axios.post(`${controlUrl}/scenarios`, { outcomes: ['pending'] });
+  const vend = await getVtuProvider().purchaseAirtime({ network: 'mtn', phone: '08031234567', amount: 500, reference });
+  expect(vend.status).toBe('pending');
+};
+
+const settleAtProvider = (reference, status) =>
+  axios.post(`${controlUrl}/transactions/${reference}`, { status });
+
+describe('Pending purchase settlement', () => {
+  test('completes a hold the provider delivered', async () => {
+    const wallet = await fundedWallet(1000);
+    const hold = await purchaseHold(wallet, 'PUR_DELIVERED', 500);
+    await pendingVend('PUR_DELIVERED');
+    await settleAtProvider('PUR_DELIVERED', 'delivered');
+
+    await expect(settlePendingPurchase(hold)).resolves.toBe('completed');
+
+    expect((await Transaction.findById(hold._id)).status).toBe('completed');
+    expect((await Wallet.findById(wallet._id)).balance).toBe(500);
+  });
+
+  test('refunds a hold the provider failed', async () => {
+    const wallet = await fundedWallet(1000);
+    const hold = await purchaseHold(wallet, 'PUR_FAILED', 500);
+    await pendingVend('PUR_FAILED');
+    await settleAtProvider('PUR_FAILED', 'failed');
+
+    await expect(settlePendingPurchase(hold)).resolves.toBe('failed');
+
+    expect((await Wallet.findById(wallet._id)).balance).toBe(1000);
+    expect(await Transaction.countDocuments({ relatedTransactionId: hold._id, category: 'refund' })).toBe(1);
+  });
+
+  test('leaves a hold pending while the provider is still processing', async () => {
+    const wallet = await fundedWallet(1000);
+    const hold = await purchaseHold(wallet, 'PUR_PROCESSING', 500);
+    await pendingVend('PUR_PROCESSING');
+
+    await expect(settlePendingPurchase(hold)).resolves.toBe('pending');
+
+    const stored = await Transaction.findById(hold._id);
+    expect(stored.status).toBe('pending');
+    expect(stored.gateway.lastCheckedAt).toBeInstanceOf(Date);
+    expect((await Wallet.findById(wallet._id)).balance).toBe(500);
+  });
+
+  test('never refunds a hold the provider has no record of', async () => {
+    const wallet = await fundedWallet(1000);
+    const hold = await purchaseHold(wallet, 'PUR_NEVER_SENT', 500);
+
+    await expect(settlePendingPurchase(hold)).resolves.toBe('pending');
+
+    expect((await Transaction.findById(hold._id)).status).toBe('pending');
+    expect((await Wallet.findById(wallet._id)).balance).toBe(500);
+  });
+
+  test('refuses to requery holds that are not VTU purchases through this provider', async () => {
+    const wallet = await fundedWallet(1000);
+    const withdrawal = await purchaseHold(wallet, 'WDR_HOLD', 200, { category: 'withdrawal' });
+    const otherProvider = await purchaseHold(wallet, 'PUR_OTHER', 200, {
+      gateway: { provider: 'vtpass', gatewayReference: 'PUR_OTHER' }
+    });
+
+    await expect(settlePendingPurchase(withdrawal)).rejects.toMatchObject({ errorCode: 'NOT_REQUERYABLE' });
+    await expect(settlePendingPurchase(otherProvider)).rejects.toMatchObject({ errorCode: 'NOT_REQUERYABLE' });
+    expect(await Transaction.countDocuments({ status: 'pending', type: 'debit' })).toBe(2);
+  });
+
+  test('records the delivered PINs before completing a recharge PIN order', async () => {
+    const wallet = await fundedWallet(1000);
+    const hold = await purchaseHold(wallet, 'RECHARGE_1_TEST', 200, {
+      metadata: { recharge: { network: 'mtn', cardType: 'airtime', denomination: 100, quantity: 2 } }
+    });
+    await axios.post(`${controlUrl}/scenarios`, { outcomes: ['pending'] });
+    await getVtuProvider().generateRechargePins({ network: 'mtn', denomination: 100, quantity: 2, reference: 'RECHARGE_1_TEST' });
+    await settleAtProvider('RECHARGE_1_TEST', 'delivered');
+
+    await expect(settlePendingPurchase(hold)).resolves.toBe('completed');
+
+    const stored = await Transaction.findById(hold._id);
+    expect(stored.description).toMatch(/^MTN AIRTIME Recharge - 2 card\(s\) x ₦100 = ₦200 \| PIN: \d+ \(Serial: \d+\) \| PIN: \d+ \(Serial: \d+\)$/);
+  });
+
+  test('keeps a recharge PIN order pending when the PINs it was for are unknown', async () => {
+    const wallet = await fundedWallet(1000);
+    const hold = await purchaseHold(wallet, 'RECHARGE_2_TEST', 200);
+    await axios.post(`${controlUrl}/scenarios`, { outcomes: ['pending'] });
+    await getVtuProvider().generateRechargePins({ network: 'mtn', denomination: 100, quantity: 2, reference: 'RECHARGE_2_TEST' });
+    await settleAtProvider('RECHARGE_2_TEST', 'delivered');
+
+    await expect(settlePendingPurchase(hold)).resolves.toBe('pending');
+    expect((await Transaction.findById(hold._id)).status).toBe('pending');
+  });
+
+  test('parallel requeries settle a hold once', async () => {
+    const wallet = await fundedWallet(1000);
+    const hold = await purchaseHold(wallet, 'PUR_RACE', 500);
+    await pendingVend('PUR_RACE');
+    await settleAtProvider('PUR_RACE', 'failed');
+
+    const statuses = await Promise.all(Array.from({ length: 5 }, async () =>
+      settlePendingPurchase(await Transaction.findById(hold._id))
+    ));
+
+    statuses.forEach(status => expect(status).toBe('failed'));
+    expect((await Wallet.findById(wallet._id)).balance).toBe(1000);
+    expect(await Transaction.countDocuments({ relatedTransactionId: hold._id, category: 'refund' })).toBe(1);
+  });
+
+  test('the sweep settles stale holds and skips recent ones', async () => {
+    const wallet = await fundedWallet(2000);
+    const delivered = await purchaseHold(wallet, 'PUR_SWEEP_OK', 500);
+    const failed = await purchaseHold(wallet, 'PUR_SWEEP_FAIL', 500);
+    await pendingVend('PUR_SWEEP_OK');
+    await pendingVend('PUR_SWEEP_FAIL');
+    await settleAtProvider('PUR_SWEEP_OK', 'delivered');
+    await settleAtProvider('PUR_SWEEP_FAIL', 'failed');
+
+    // Both holds are younger than the default minimum age
+    await expect(sweepPendingPurchases()).resolves.toMatchObject({ checked: 0 });
+
+    await expect(sweepPendingPurchases({ minAgeMs: 0 })).resolves.toEqual({
+      checked: 2, completed: 1, failed: 1, pending: 0, errors: 0
+    });
+    expect((await Transaction.findById(delivered._id)).status).toBe('completed');
+    expect((await Transaction.findById(failed._id)).status).toBe('failed');
+    expect((await Wallet.findById(wallet._id)).balance).toBe(1500);
+  });
+});
@@ -0,0 +1,85 @@
+const axios = require('axios');
+const { createSimulatorApp } = require('../simulator/vtuSimulator');
+const { createVtpassAdapter } = require('../services/vtu/vtpassAdapter');
+
+// The VTpass adapter against the simulator, which speaks the same protocol
+let simulator;
+let adapter;
+let controlUrl;
+
+beforeAll(async () => {
+  simulator = createSimulatorApp().listen(0);
+  await new Promise(resolve => simulator.once('listening', resolve));
+  const baseUrl = `http://127.0.0.1:${simulator.address().port}`;
+  controlUrl = `${baseUrl}/__control`;
+  adapter = createVtpassAdapter({ name: 'simulator', baseUrl: `${baseUrl}/api`, apiKey: 'test', secretKey: 'test' });
+});
+
+afterAll(async () => {
+  await new Promise(resolve => simulator.close(resolve));
+});
+
+afterEach(async () => {
+  await axios.post(`${controlUrl}/reset`);
+});
+
+const queueOutcome = (outcome) => axios.post(`${controlUrl}/scenarios`, { outcomes: [outcome] });
+
+describe('VTpass adapter', () => {
+  test('maps delivered, failed and processing vends', async () => {
+    await queueOutcome('success');
+    await expect(adapter.purchaseAirtime({ network: 'mtn', phone: '08031234567', amount: 100, reference: 'REF_OK' }))
+      .resolves.toMatchObject({ status: 'success', providerReference: 'REF_OK' });
+
+    await queueOutcome('fail');
+    await expect(adapter.purchaseAirtime({ network: 'mtn', phone: '08031234567', amount: 100, reference: 'REF_FAIL' }))
+      .resolves.toMatchObject({ status: 'failed' });
+
+    await queueOutcome('pending');
+    await expect(adapter.purchaseAirtime({ network: 'mtn', phone: '08031234567', amount: 100, reference: 'REF_PENDING' }))
+      .resolves.toMatchObject({ status: 'pending' });
+  });
+
+  test('a requery for an unknown reference is pending, never failed', async () => {
+    await expect(adapter.requery('REF_NEVER_SENT')).resolves.toMatchObject({
+      status: 'pending',
+      unknownReference: true,
+      providerReference: 'REF_NEVER_SENT'
+    });
+  });
+
+  test('a requery reports the final status once the provider settles', async () => {
+    await queueOutcome('pending');
+    await adapter.purchaseAirtime({ network: 'mtn', phone: '08031234567', amount: 100, reference: 'REF_LATER' });
+    await expect(adapter.requery('REF_LATER')).resolves.toMatchObject({ status: 'pending' });
+
+    await axios.post(`${controlUrl}/transactions/REF_LATER`, { status: 'failed' });
+    await expect(adapter.requery('REF_LATER')).resolves.toMatchObject({ status: 'failed' });
+  });
+
+  test('a requery returns the recharge PINs of a delivered PIN order', async () => {
+    await queueOutcome('pending');
+    const vend = await adapter.generateRechargePins({ network: 'mtn', denomination: 100, quantity: 3, reference: 'RECHARGE_PINS' });
+    expect(vend.details.pins).toEqual([]);
+
+    await axios.post(`${controlUrl}/transactions/RECHARGE_PINS`, { status: 'delivered' });
+    const result = await adapter.requery('RECHARGE_PINS');
+
+    expect(result.status).toBe('success');
+    expect(result.details.pins).toHaveLength(3);
+    result.details.pins.forEach(card => {
+      expect(card.pin).toMatch(/^\d+$/);
+      expect(card.serial).toMatch(/^\d+$/);
+    });
+  });
+
+  test('prices internet plans and exam products from the provider', async () => {
+    await expect(adapter.getInternetPlans({ provider: 'smile' })).resolves.toContainEqual({
+      variation_id: 'smile_2gb_month', name: '2GB Monthly', amount: 3000
+    });
+    await expect(adapter.getEducationProducts({ provider: 'waec' })).resolves.toContainEqual(
+      expect.objectContaining({ variation_id: 'waecdirect', amount: 3900 })
+    );
+    await expect(adapter.getInternetPlans({ provider: 'unknown' })).rejects.toMatchObject({ errorCode: 'UNSUPPORTED_PROVIDER' });
+  });
+});
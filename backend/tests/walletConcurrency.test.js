@@ -0,0 +1,79 @@
+const mongoose = require('mongoose');
+const Wallet = require('../models/Wallet');
+const Transaction = require('../models/Transaction');
+// Debits look up the owner's KYC tier for the spending limits
+require('../models/User');
+const { useTestDatabase } = require('./helpers/database');
+
+useTestDatabase();
+
+// Each purchase loads its own copy of the wallet, as separate requests do
+const fundedWallet = async (balance) => {
+  const wallet = await Wallet.create({ userId: new mongoose.Types.ObjectId() });
+  if (balance) await wallet.credit(balance, 'Opening balance', `OPEN_${wallet._id}`);
+  return wallet;
+};
+
+const purchase = async (walletId, amount, index) => {
+  const wallet = await Wallet.findById(walletId);
+  return wallet.hold(amount, `Airtime purchase ${index}`, `TEST_${walletId}_${index}`);
+};
+
+describe('Wallet concurrency', () => {
+  test('parallel purchases never take the balance below zero', async () => {
+    const wallet = await fundedWallet(1000);
+
+    const results = await Promise.allSettled(
+      Array.from({ length: 25 }, (_, index) => purchase(wallet._id, 100, index))
+    );
+
+    const succeeded = results.filter(r => r.status === 'fulfilled');
+    const rejected = results.filter(r => r.status === 'rejected');
+    expect(succeeded).toHaveLength(10);
+    rejected.forEach(r => expect(r.reason.errorCode).toBe('INSUFFICIENT_BALANCE'));
+
+    const after = await Wallet.findById(wallet._id);
+    expect(after.balance).toBe(0);
+
+    // Every ledger row saw a non-negative balance
+    const holds = await Transaction.find({ walletId: wallet._id, type: 'debit' });
+    expect(holds).toHaveLength(10);
+    holds.forEach(hold => expect(hold.newBalance).toBeGreaterThanOrEqual(0));
+  });
+
+  test('parallel purchases never exceed the daily spending limit', async () => {
+    // Tier 0 allows ₦50,000 per transaction and ₦100,000 a day
+    const wallet = await fundedWallet(500000);
+
+    const results = await Promise.allSettled(
+      Array.from({ length: 6 }, (_, index) => purchase(wallet._id, 40000, index))
+    );
+
+    const rejected = results.filter(r => r.status === 'rejected');
+    expect(results.filter(r => r.status === 'fulfilled')).toHaveLength(2);
+    rejected.forEach(r => expect(r.reason.errorCode).toBe('LIMIT_EXCEEDED'));
+
+    const after = await Wallet.findById(wallet._id);
+    expect(after.balance).toBe(420000);
+  });
+
+  test('parallel releases of one hold refund it exactly once', async () => {
+    const wallet = await fundedWallet(500);
+    const { transaction: hold } = await wallet.hold(200, 'Data purchase', `HOLD_${wallet._id}`);
+
+    const results = await Promise.allSettled(Array.from({ length: 5 }, async () => {
+      const copy = await Wallet.findById(wallet._id);
+      const holdCopy = await Transaction.findById(hold._id);
+      return copy.releaseHold(holdCopy, 'Provider failed');
+    }));
+
+    expect(results.filter(r => r.status === 'fulfilled')).toHaveLength(1);
+    results
+      .filter(r => r.status === 'rejected')
+      .forEach(r => expect(r.reason.errorCode).toBe('HOLD_NOT_PENDING'));
+
+    const after = await Wallet.findById(wallet._id);
+    expect(after.balance).toBe(500);
+    expect(await Transaction.countDocuments({ relatedTransactionId: hold._id, category: 'refund' })).toBe(1);
+  });
+});
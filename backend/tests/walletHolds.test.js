@@ -0,0 +1,89 @@
+const mongoose = require('mongoose');
+const Wallet = require('../models/Wallet');
+const Transaction = require('../models/Transaction');
+// Debits look up the owner's KYC tier for the spending limits
+require('../models/User');
+const { useTestDatabase } = require('./helpers/database');
+
+useTestDatabase();
+
+const fundedWallet = async (balance) => {
+  const wallet = await Wallet.create({ userId: new mongoose.Types.ObjectId() });
+  await wallet.credit(balance, 'Opening balance', `OPEN_${wallet._id}`);
+  return wallet;
+};
+
+describe('Wallet holds', () => {
+  test('a hold takes the funds at once and leaves a pending debit', async () => {
+    const wallet = await fundedWallet(1000);
+
+    const { transaction: hold } = await wallet.hold(300, 'Airtime purchase', `HOLD_${wallet._id}`);
+
+    expect(hold.status).toBe('pending');
+    expect(hold.type).toBe('debit');
+    expect(hold.category).toBe('payment');
+    expect((await Wallet.findById(wallet._id)).balance).toBe(700);
+  });
+
+  test('capturing a hold completes it without moving the balance again', async () => {
+    const wallet = await fundedWallet(1000);
+    const { transaction: hold } = await wallet.hold(300, 'Airtime purchase', `HOLD_${wallet._id}`);
+
+    hold.description = 'Airtime purchase - delivered';
+    await hold.complete();
+
+    const stored = await Transaction.findById(hold._id);
+    expect(stored.status).toBe('completed');
+    expect(stored.completedAt).toBeInstanceOf(Date);
+    expect(stored.description).toBe('Airtime purchase - delivered');
+    expect((await Wallet.findById(wallet._id)).balance).toBe(700);
+    expect(await Transaction.countDocuments({ relatedTransactionId: hold._id, category: 'refund' })).toBe(0);
+  });
+
+  test('releasing a hold fails it and refunds the wallet with a linked refund row', async () => {
+    const wallet = await fundedWallet(1000);
+    const { transaction: hold } = await wallet.hold(300, 'Airtime purchase', `HOLD_${wallet._id}`);
+
+    const refund = await wallet.releaseHold(hold, 'Provider rejected the number');
+
+    expect(hold.status).toBe('failed');
+    expect(hold.metadata.failureReason).toBe('Provider rejected the number');
+    expect(refund.transaction.reference).toBe(`${hold.reference}_REFUND`);
+    expect(refund.transaction.relatedTransactionId).toEqual(hold._id);
+    expect((await Wallet.findById(wallet._id)).balance).toBe(1000);
+  });
+
+  test('a captured hold cannot be released', async () => {
+    const wallet = await fundedWallet(1000);
+    const { transaction: hold } = await wallet.hold(300, 'Airtime purchase', `HOLD_${wallet._id}`);
+    const copy = await Transaction.findById(hold._id);
+    await hold.complete();
+
+    await expect(wallet.releaseHold(copy, 'Late failure')).rejects.toMatchObject({ errorCode: 'HOLD_NOT_PENDING' });
+
+    expect((await Transaction.findById(hold._id)).status).toBe('completed');
+    expect((await Wallet.findById(wallet._id)).balance).toBe(700);
+  });
+
+  test('a released hold cannot be captured', async () => {
+    const wallet = await fundedWallet(1000);
+    const { transaction: hold } = await wallet.hold(300, 'Airtime purchase', `HOLD_${wallet._id}`);
+    const copy = await Transaction.findById(hold._id);
+    await wallet.releaseHold(hold, 'Provider failed');
+
+    await expect(copy.complete()).rejects.toMatchObject({ errorCode: 'HOLD_NOT_PENDING' });
+
+    expect((await Transaction.findById(hold._id)).status).toBe('failed');
+    expect((await Wallet.findById(wallet._id)).balance).toBe(1000);
+  });
+
+  test('a hold larger than the balance is refused', async () => {
+    const wallet = await fundedWallet(100);
+
+    await expect(wallet.hold(300, 'Airtime purchase', `HOLD_${wallet._id}`))
+      .rejects.toMatchObject({ errorCode: 'INSUFFICIENT_BALANCE' });
+
+    expect((await Wallet.findById(wallet._id)).balance).toBe(100);
+    expect(await Transaction.countDocuments({ walletId: wallet._id, type: 'debit' })).toBe(0);
+  });
+});
@@ -0,0 +1,82 @@
+const mongoose = require('mongoose');
+const Wallet = require('../models/Wallet');
+const Transaction = require('../models/Transaction');
+// Debits look up the owner's KYC tier for the spending limits
+require('../models/User');
+const { createWithdrawal, refreshWithdrawal } = require('../services/withdrawalService');
+const { useTestDatabase } = require('./helpers/database');
+
+useTestDatabase();
+
+// The stub payout provider decides by account number: ...9999 is rejected,
+// ...8888 stays pending until requeried, anything else settles at once
+beforeAll(() => {
+  process.env.PAYOUT_PROVIDER = 'stub';
+});
+
+const fundedWallet = async (balance) => {
+  const wallet = await Wallet.create({ userId: new mongoose.Types.ObjectId() });
+  await wallet.credit(balance, 'Opening balance', `OPEN_${wallet._id}`);
+  return wallet;
+};
+
+const withdraw = (wallet, accountNumber, amount = 1000) =>
+  createWithdrawal({ wallet, amount, bankCode: '044', accountNumber });
+
+describe('Withdrawals', () => {
+  test('a settled payout completes the withdrawal and its fee', async () => {
+    const wallet = await fundedWallet(5000);
+
+    const { transaction, feeTransaction, fee } = await withdraw(wallet, '0123456789');
+
+    expect(fee).toBe(10);
+    expect(transaction.status).toBe('completed');
+    expect(transaction.category).toBe('withdrawal');
+    expect(transaction.gateway.provider).toBe('stub');
+    expect(transaction.metadata.withdrawal.settledAt).toBeInstanceOf(Date);
+    expect((await Transaction.findById(feeTransaction._id)).status).toBe('completed');
+    expect((await Wallet.findById(wallet._id)).balance).toBe(3990);
+  });
+
+  test('a rejected payout refunds the amount and the fee', async () => {
+    const wallet = await fundedWallet(5000);
+
+    const { transaction, feeTransaction } = await withdraw(wallet, '0123459999');
+
+    expect(transaction.status).toBe('failed');
+    expect(transaction.metadata.failureReason).toBe('Beneficiary bank rejected the transfer');
+    expect((await Transaction.findById(feeTransaction._id)).status).toBe('failed');
+    expect(await Transaction.countDocuments({ walletId: wallet._id, category: 'refund' })).toBe(2);
+    expect((await Wallet.findById(wallet._id)).balance).toBe(5000);
+  });
+
+  test('an unconfirmed payout stays held until a refresh settles it', async () => {
+    const wallet = await fundedWallet(5000);
+
+    const { transaction, feeTransaction } = await withdraw(wallet, '0123458888');
+    expect(transaction.status).toBe('pending');
+    expect((await Wallet.findById(wallet._id)).balance).toBe(3990);
+
+    await expect(refreshWithdrawal(wallet, transaction)).resolves.toBe('completed');
+    expect((await Transaction.findById(feeTransaction._id)).status).toBe('completed');
+    expect((await Wallet.findById(wallet._id)).balance).toBe(3990);
+  });
+
+  test('the fee counts towards the balance check but nothing is held when it does not fit', async () => {
+    const wallet = await fundedWallet(1005);
+
+    await expect(withdraw(wallet, '0123456789')).rejects.toMatchObject({ errorCode: 'INSUFFICIENT_BALANCE' });
+
+    expect(await Transaction.countDocuments({ walletId: wallet._id, type: 'debit' })).toBe(0);
+    expect((await Wallet.findById(wallet._id)).balance).toBe(1005);
+  });
+
+  test('an account the bank does not know is refused before any money is held', async () => {
+    const wallet = await fundedWallet(5000);
+
+    await expect(withdraw(wallet, '0123450000')).rejects.toMatchObject({ errorCode: 'ACCOUNT_NOT_FOUND' });
+    await expect(withdraw(wallet, '12345')).rejects.toMatchObject({ errorCode: 'INVALID_ACCOUNT_NUMBER' });
+
+    expect((await Wallet.findById(wallet._id)).balance).toBe(5000);
+  });
+});
@@ -1,6 +1,7 @@
 // app/BetFundingSuccessModal.tsx - Bet Funding Success Modal Component
 import React from 'react';
 import { View, Text, TouchableOpacity, Modal, StyleSheet } from 'react-native';
+import ReceiptActions from './ReceiptActions';
 
 const BetFundingSuccessModal = ({ 
   visible, 
@@ -82,6 +83,8 @@ const BetFundingSuccessModal = ({
 
           {/* Buttons */}
           <View style={styles.buttonContainer}>
+            <ReceiptActions reference={transaction?.reference} />
+
             <TouchableOpacity 
               style={[styles.button, styles.placeBetButton]} 
               onPress={onPlaceBet}
@@ -0,0 +1,75 @@
+import React, { useState } from 'react';
+import { Text, TouchableOpacity, StyleSheet, ActivityIndicator, Alert } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useBiometricConfirmation } from '@/hooks/useBiometricConfirmation';
+import type { BiometricAuthorization } from '@/types/api';
+
+interface BiometricConfirmButtonProps {
+  amount: number;
+  disabled?: boolean;
+  // Called with the signed challenge; send it as `biometric` instead of `pin`
+  onAuthorized: (biometric: BiometricAuthorization) => void;
+}
+
+// "Pay with Face ID / Fingerprint" under the PIN entry of purchase screens.
+// Renders nothing unless biometrics are enabled on this device; cancelling the
+// prompt or any error leaves the PIN entry as it was.
+const BiometricConfirmButton: React.FC<BiometricConfirmButtonProps> = ({ amount, disabled, onAuthorized }) => {
+  const { isEnabled, label, confirm } = useBiometricConfirmation();
+  const [isConfirming, setIsConfirming] = useState(false);
+
+  if (!isEnabled) return null;
+
+  const handlePress = async () => {
+    setIsConfirming(true);
+    try {
+      const biometric = await confirm(amount);
+      if (biometric) onAuthorized(biometric);
+    } catch (error) {
+      Alert.alert(
+        `${label} Unavailable`,
+        `${error instanceof Error ? error.message : 'Biometric confirmation failed.'} Please enter your PIN instead.`
+      );
+    } finally {
+      setIsConfirming(false);
+    }
+  };
+
+  const isDisabled = disabled || isConfirming || !amount;
+
+  return (
+    <TouchableOpacity
+      style={[styles.button, isDisabled && styles.buttonDisabled]}
+      onPress={handlePress}
+      disabled={isDisabled}
+    >
+      {isConfirming ? (
+        <ActivityIndicator color="#ff2b2b" />
+      ) : (
+        <>
+          <Ionicons name={label.startsWith('Face') ? 'scan-outline' : 'finger-print-outline'} size={20} color="#ff2b2b" />
+          <Text style={styles.buttonText}>Pay with {label}</Text>
+        </>
+      )}
+    </TouchableOpacity>
+  );
+};
+
+export default BiometricConfirmButton;
+
+const styles = StyleSheet.create({
+  button: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    marginTop: 12,
+    paddingVertical: 14,
+    borderRadius: 12,
+    borderWidth: 1.5,
+    borderColor: '#ff2b2b',
+    backgroundColor: '#fff',
+  },
+  buttonDisabled: { opacity: 0.5 },
+  buttonText: { color: '#ff2b2b', fontSize: 16, fontWeight: '600' },
+});
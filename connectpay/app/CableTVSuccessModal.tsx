@@ -9,9 +9,8 @@ import {
   Dimensions,
   Platform,
   StatusBar,
-  Share,
-  Alert,
 } from 'react-native';
+import ReceiptActions from './ReceiptActions';
 
 const { width, height } = Dimensions.get('window');
 
@@ -78,9 +77,8 @@ export default function CableTVSuccessModal({
     }
   }, [visible]);
 
-  const shareReceipt = async () => {
-    try {
-      const receiptText = `🎯 Cable TV Subscription Receipt
+  // Shared as text when the server has no receipt for this purchase
+  const buildReceiptText = () => `🎯 Cable TV Subscription Receipt
 
 📺 Service Provider: ${operatorName}
 📦 Package: ${packageName}
@@ -100,16 +98,6 @@ ${newBalance ? `💼 Updated Balance: ₦${((newBalance.total || newBalance.main
 
 Powered by Your App 🚀`;
 
-      await Share.share({
-        message: receiptText,
-        title: 'Cable TV Subscription Receipt',
-      });
-    } catch (error) {
-      console.error('Error sharing receipt:', error);
-      Alert.alert('Error', 'Unable to share receipt');
-    }
-  };
-
   if (!visible) return null;
 
   return (
@@ -221,12 +209,11 @@ Powered by Your App 🚀`;
 
           {/* Buttons */}
           <View style={styles.buttonContainer}>
-            <TouchableOpacity 
-              style={[styles.button, styles.shareButton]} 
-              onPress={shareReceipt}
-            >
-              <Text style={styles.shareText}>📤 Share Receipt</Text>
-            </TouchableOpacity>
+            <ReceiptActions
+              reference={transaction.reference}
+              fallbackText={buildReceiptText()}
+              title="Cable TV Subscription Receipt"
+            />
 
             <TouchableOpacity 
               style={[styles.button, styles.buyMoreButton]} 
@@ -0,0 +1,124 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { View, Text, TouchableOpacity, Modal, StyleSheet, ActivityIndicator } from 'react-native';
+import { WebView, type WebViewNavigation } from 'react-native-webview';
+import Ionicons from '@expo/vector-icons/Ionicons';
+
+interface CardCheckoutModalProps {
+  visible: boolean;
+  checkoutUrl: string | null;
+  callbackUrl: string | null;
+  /** The gateway redirected to callbackUrl; the payment still has to be verified */
+  onFinished: () => void;
+  onCancel: () => void;
+}
+
+// Hosts the gateway's checkout page. Card details are typed into the
+// gateway's page, never into the app.
+const CardCheckoutModal: React.FC<CardCheckoutModalProps> = ({
+  visible,
+  checkoutUrl,
+  callbackUrl,
+  onFinished,
+  onCancel,
+}) => {
+  const [loading, setLoading] = useState(true);
+  // Both navigation hooks can see the callback; report it once per checkout
+  const finishedRef = useRef(false);
+
+  useEffect(() => {
+    finishedRef.current = false;
+  }, [checkoutUrl]);
+
+  if (!checkoutUrl || !callbackUrl) return null;
+
+  const isCallback = (url: string) => url.startsWith(callbackUrl);
+
+  const finish = () => {
+    if (finishedRef.current) return;
+    finishedRef.current = true;
+    onFinished();
+  };
+
+  const handleNavigation = (request: WebViewNavigation): boolean => {
+    if (isCallback(request.url)) {
+      finish();
+      return false;
+    }
+    return true;
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      onRequestClose={onCancel}
+    >
+      <View style={styles.container}>
+        <View style={styles.header}>
+          <TouchableOpacity style={styles.closeButton} onPress={onCancel}>
+            <Ionicons name="close" size={24} color="#fff" />
+          </TouchableOpacity>
+          <Text style={styles.headerTitle}>Secure Card Payment</Text>
+          <Ionicons name="lock-closed" size={18} color="#fff" />
+        </View>
+
+        <WebView
+          source={{ uri: checkoutUrl }}
+          onShouldStartLoadWithRequest={handleNavigation}
+          // Android does not consult onShouldStartLoadWithRequest for redirects
+          onNavigationStateChange={(state) => {
+            if (isCallback(state.url)) finish();
+          }}
+          onLoadStart={() => setLoading(true)}
+          onLoadEnd={() => setLoading(false)}
+          startInLoadingState={false}
+        />
+
+        {loading && (
+          <View style={styles.loadingOverlay}>
+            <ActivityIndicator size="large" color="#ff3b30" />
+            <Text style={styles.loadingText}>Loading secure checkout...</Text>
+          </View>
+        )}
+      </View>
+    </Modal>
+  );
+};
+
+export default CardCheckoutModal;
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#fff',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    backgroundColor: '#ff3b30',
+    paddingTop: 50,
+    paddingBottom: 16,
+    paddingHorizontal: 16,
+  },
+  closeButton: {
+    padding: 4,
+  },
+  headerTitle: {
+    color: '#fff',
+    fontSize: 18,
+    fontWeight: '700',
+  },
+  loadingOverlay: {
+    ...StyleSheet.absoluteFillObject,
+    top: 100,
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: '#fff',
+  },
+  loadingText: {
+    marginTop: 12,
+    color: '#666',
+    fontSize: 14,
+  },
+});
@@ -1,5 +1,6 @@
 import React from 'react';
 import { View, Text, TouchableOpacity, Modal, StyleSheet } from 'react-native';
+import ReceiptActions from './ReceiptActions';
 
 interface SuccessModalProps {
   visible: boolean;
@@ -91,6 +92,8 @@ const DataSuccessModal: React.FC<SuccessModalProps> = ({
 
           {/* Buttons */}
           <View style={styles.buttonContainer}>
+            <ReceiptActions reference={transaction?.reference} />
+
             <TouchableOpacity 
               style={[styles.button, styles.buyMoreButton]} 
               onPress={onBuyMore}
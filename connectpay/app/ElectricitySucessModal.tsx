@@ -9,9 +9,8 @@ import {
   Dimensions,
   Platform,
   StatusBar,
-  Share,
-  Alert,
 } from 'react-native';
+import ReceiptActions from './ReceiptActions';
 
 const { width, height } = Dimensions.get('window');
 
@@ -80,9 +79,8 @@ export default function ElectricitySuccessModal({
     }
   }, [visible, fadeAnim, scaleAnim]);
 
-  const shareReceipt = async () => {
-    try {
-      const receiptText = `⚡ Electricity Bill Payment Receipt
+  // Shared as text when the server has no receipt for this purchase
+  const buildReceiptText = () => `⚡ Electricity Bill Payment Receipt
 
 🏢 Service Provider: ${providerName}
 ⚡ Meter Type: ${meterType}
@@ -103,16 +101,6 @@ ${newBalance ? `💼 Updated Balance: ₦${((newBalance.total || newBalance.main
 
 Powered by Your App 🚀`;
 
-      await Share.share({
-        message: receiptText,
-        title: 'Electricity Bill Payment Receipt',
-      });
-    } catch (error) {
-      console.error('Error sharing receipt:', error);
-      Alert.alert('Error', 'Unable to share receipt');
-    }
-  };
-
   if (!visible) return null;
 
   return (
@@ -231,12 +219,11 @@ Powered by Your App 🚀`;
 
           {/* Buttons */}
           <View style={styles.buttonContainer}>
-            <TouchableOpacity 
-              style={[styles.button, styles.shareButton]} 
-              onPress={shareReceipt}
-            >
-              <Text style={styles.shareText}>📤 Share Receipt</Text>
-            </TouchableOpacity>
+            <ReceiptActions
+              reference={transaction.reference}
+              fallbackText={buildReceiptText()}
+              title="Electricity Bill Payment Receipt"
+            />
 
             <TouchableOpacity 
               style={[styles.button, styles.buyMoreButton]} 
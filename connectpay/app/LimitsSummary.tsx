@@ -0,0 +1,90 @@
+import React from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import type { LimitWindow, WalletLimits } from '@/types/api';
+
+interface LimitsSummaryProps {
+  limits: WalletLimits | null;
+}
+
+const LimitBar: React.FC<{ label: string; window: LimitWindow }> = ({ label, window }) => {
+  const usedShare = window.limit > 0 ? Math.min(1, window.used / window.limit) : 1;
+
+  return (
+    <View style={styles.item}>
+      <View style={styles.itemHeader}>
+        <Text style={styles.itemLabel}>{label}</Text>
+        <Text style={styles.itemValue}>
+          ₦{window.remaining.toLocaleString()} left of ₦{window.limit.toLocaleString()}
+        </Text>
+      </View>
+      <View style={styles.track}>
+        <View style={[styles.fill, { width: `${usedShare * 100}%` }, usedShare >= 0.9 && styles.fillWarning]} />
+      </View>
+    </View>
+  );
+};
+
+// How much of the daily and monthly spending limits is left, shown on the
+// amount step of checkout flows so customers know before they pay.
+const LimitsSummary: React.FC<LimitsSummaryProps> = ({ limits }) => {
+  if (!limits) return null;
+
+  return (
+    <View style={styles.card}>
+      <LimitBar label="Next 24 hours" window={limits.daily} />
+      <LimitBar label="Next 30 days" window={limits.monthly} />
+      <Text style={styles.note}>
+        Up to ₦{limits.perTransaction.toLocaleString()} per transaction
+        {limits.nextTier ? ` • Verify your identity to raise your limits` : ''}
+      </Text>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  card: {
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    padding: 12,
+    marginVertical: 12,
+    borderWidth: 1,
+    borderColor: '#f0f0f0',
+  },
+  item: {
+    marginBottom: 10,
+  },
+  itemHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginBottom: 4,
+  },
+  itemLabel: {
+    color: '#666',
+    fontSize: 12,
+  },
+  itemValue: {
+    color: '#1a1a1a',
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  track: {
+    height: 6,
+    borderRadius: 3,
+    backgroundColor: '#f0f0f0',
+    overflow: 'hidden',
+  },
+  fill: {
+    height: 6,
+    borderRadius: 3,
+    backgroundColor: '#28a745',
+  },
+  fillWarning: {
+    backgroundColor: '#ff2b2b',
+  },
+  note: {
+    color: '#999',
+    fontSize: 11,
+  },
+});
+
+export default LimitsSummary;
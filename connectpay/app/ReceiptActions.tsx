@@ -0,0 +1,134 @@
+import React, { useState } from 'react';
+import { View, Text, TouchableOpacity, StyleSheet, ActivityIndicator, Alert, Platform, Share } from 'react-native';
+import * as FileSystem from 'expo-file-system';
+import * as Sharing from 'expo-sharing';
+import { api, isApiError } from '@/services/ApiService';
+
+interface ReceiptActionsProps {
+  /** Transaction reference the server renders the receipt for */
+  reference?: string | null;
+  /** Plain-text receipt shared when the server has no ledger row for the reference */
+  fallbackText?: string;
+  title?: string;
+}
+
+// Share or save the server-rendered PDF receipt for a transaction. Used by
+// every success modal and the transaction detail screen so customers can
+// forward the same proof of payment wherever they bought. Services that
+// don't post to the wallet ledger yet fall back to sharing fallbackText.
+const ReceiptActions: React.FC<ReceiptActionsProps> = ({ reference, fallbackText, title = 'Receipt' }) => {
+  const [busyAction, setBusyAction] = useState<'share' | 'save' | null>(null);
+
+  if (!reference && !fallbackText) return null;
+
+  const fileName = `ConnectPay-Receipt-${reference}.pdf`;
+
+  const showError = (error: unknown) => {
+    Alert.alert('Receipt Unavailable', isApiError(error) ? error.message : 'Unable to get your receipt. Please try again.');
+  };
+
+  const shareText = async () => {
+    try {
+      await Share.share({ message: fallbackText || '', title });
+    } catch (error) {
+      console.error('Error sharing receipt:', error);
+      Alert.alert('Error', 'Unable to share receipt');
+    }
+  };
+
+  const shareReceipt = async () => {
+    if (!reference) return shareText();
+
+    setBusyAction('share');
+    try {
+      const uri = await api.downloadReceipt(reference);
+      if (!(await Sharing.isAvailableAsync())) {
+        Alert.alert('Sharing Unavailable', 'Sharing is not supported on this device.');
+        return;
+      }
+      await Sharing.shareAsync(uri, { mimeType: 'application/pdf', UTI: 'com.adobe.pdf', dialogTitle: 'Share Receipt' });
+    } catch (error) {
+      if (fallbackText && isApiError(error) && error.code === 'NOT_FOUND') {
+        await shareText();
+        return;
+      }
+      showError(error);
+    } finally {
+      setBusyAction(null);
+    }
+  };
+
+  // Android saves into a folder the user picks; iOS saves through the share
+  // sheet's "Save to Files"
+  const saveReceipt = async () => {
+    if (!reference) return;
+    setBusyAction('save');
+    try {
+      const uri = await api.downloadReceipt(reference);
+
+      if (Platform.OS !== 'android') {
+        await Sharing.shareAsync(uri, { mimeType: 'application/pdf', UTI: 'com.adobe.pdf', dialogTitle: 'Save Receipt' });
+        return;
+      }
+
+      const { StorageAccessFramework } = FileSystem;
+      const permission = await StorageAccessFramework.requestDirectoryPermissionsAsync();
+      if (!permission.granted) return;
+
+      const contents = await FileSystem.readAsStringAsync(uri, { encoding: FileSystem.EncodingType.Base64 });
+      const savedUri = await StorageAccessFramework.createFileAsync(permission.directoryUri, fileName, 'application/pdf');
+      await FileSystem.writeAsStringAsync(savedUri, contents, { encoding: FileSystem.EncodingType.Base64 });
+      Alert.alert('Receipt Saved', `${fileName} has been saved.`);
+    } catch (error) {
+      showError(error);
+    } finally {
+      setBusyAction(null);
+    }
+  };
+
+  return (
+    <View style={styles.row}>
+      <TouchableOpacity style={[styles.button, styles.shareButton]} onPress={shareReceipt} disabled={busyAction !== null}>
+        {busyAction === 'share' ? <ActivityIndicator color="#fff" /> : <Text style={styles.shareText}>📤 Share Receipt</Text>}
+      </TouchableOpacity>
+      {reference ? (
+        <TouchableOpacity style={[styles.button, styles.saveButton]} onPress={saveReceipt} disabled={busyAction !== null}>
+          {busyAction === 'save' ? <ActivityIndicator color="#ff2b2b" /> : <Text style={styles.saveText}>💾 Save PDF</Text>}
+        </TouchableOpacity>
+      ) : null}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  row: {
+    flexDirection: 'row',
+    gap: 12,
+    width: '100%',
+  },
+  button: {
+    flex: 1,
+    paddingVertical: 14,
+    borderRadius: 12,
+    alignItems: 'center',
+  },
+  shareButton: {
+    backgroundColor: '#ff2b2b',
+  },
+  saveButton: {
+    borderWidth: 1,
+    borderColor: '#ff2b2b',
+  },
+  shareText: {
+    color: 'white',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  saveText: {
+    color: '#ff2b2b',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
+
+export default ReceiptActions;
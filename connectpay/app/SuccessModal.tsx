@@ -1,6 +1,7 @@
 // app/SuccessModal.tsx - Custom Success Modal Component
 import React from 'react';
 import { View, Text, TouchableOpacity, Modal, StyleSheet } from 'react-native';
+import ReceiptActions from './ReceiptActions';
 
 const SuccessModal = ({ 
   visible, 
@@ -74,6 +75,8 @@ const SuccessModal = ({
 
           {/* Buttons */}
           <View style={styles.buttonContainer}>
+            <ReceiptActions reference={transaction?.reference} />
+
             <TouchableOpacity 
               style={[styles.button, styles.buyMoreButton]} 
               onPress={onBuyMore}
@@ -0,0 +1,207 @@
+import React from 'react';
+import { View, Text, TouchableOpacity, Modal, StyleSheet } from 'react-native';
+import type { TransferReceipt } from '@/types/api';
+
+interface TransferReceiptModalProps {
+  visible: boolean;
+  onClose: () => void;
+  onSendAgain?: () => void;
+  receipt: TransferReceipt | null;
+}
+
+// Shown to the sender after a transfer and to either party when they open a
+// transfer from their history.
+const TransferReceiptModal: React.FC<TransferReceiptModalProps> = ({
+  visible,
+  onClose,
+  onSendAgain,
+  receipt,
+}) => {
+  if (!receipt) return null;
+
+  const isSent = receipt.direction === 'sent';
+  const counterpartyLabel = isSent ? 'Recipient:' : 'Sender:';
+  const counterpartyName = receipt.counterparty.name || 'ConnectPay user';
+
+  return (
+    <Modal
+      visible={visible}
+      transparent={true}
+      animationType="fade"
+      onRequestClose={onClose}
+    >
+      <View style={styles.overlay}>
+        <View style={styles.modalContainer}>
+          <View style={styles.iconContainer}>
+            <Text style={styles.successIcon}>{isSent ? '✅' : '💰'}</Text>
+          </View>
+
+          <Text style={styles.title}>{isSent ? 'Transfer Successful!' : 'Money Received'}</Text>
+          <Text style={styles.amount}>₦{receipt.amount.toLocaleString()}</Text>
+
+          <View style={styles.detailsContainer}>
+            <View style={styles.detailRow}>
+              <Text style={styles.detailLabel}>{counterpartyLabel}</Text>
+              <Text style={styles.detailValue}>{counterpartyName}</Text>
+            </View>
+
+            {receipt.counterparty.username ? (
+              <View style={styles.detailRow}>
+                <Text style={styles.detailLabel}>Username:</Text>
+                <Text style={styles.detailValue}>@{receipt.counterparty.username}</Text>
+              </View>
+            ) : null}
+
+            {receipt.narration ? (
+              <View style={styles.detailRow}>
+                <Text style={styles.detailLabel}>Narration:</Text>
+                <Text style={styles.detailValue}>{receipt.narration}</Text>
+              </View>
+            ) : null}
+
+            <View style={styles.detailRow}>
+              <Text style={styles.detailLabel}>Reference:</Text>
+              <Text style={styles.detailValue}>{receipt.reference}</Text>
+            </View>
+
+            <View style={styles.detailRow}>
+              <Text style={styles.detailLabel}>Date:</Text>
+              <Text style={styles.detailValue}>{new Date(receipt.createdAt).toLocaleString()}</Text>
+            </View>
+
+            <View style={styles.detailRow}>
+              <Text style={styles.detailLabel}>Status:</Text>
+              <Text style={styles.detailValue}>{receipt.status.toUpperCase()}</Text>
+            </View>
+
+            <View style={[styles.detailRow, styles.balanceRow]}>
+              <Text style={styles.detailLabel}>Balance After:</Text>
+              <Text style={[styles.detailValue, styles.balanceValue]}>₦{receipt.balanceAfter?.toLocaleString()}</Text>
+            </View>
+          </View>
+
+          <View style={styles.buttonContainer}>
+            {onSendAgain ? (
+              <TouchableOpacity style={[styles.button, styles.primaryButton]} onPress={onSendAgain}>
+                <Text style={styles.primaryText}>Send Another Transfer</Text>
+              </TouchableOpacity>
+            ) : null}
+
+            <TouchableOpacity style={[styles.button, styles.doneButton]} onPress={onClose}>
+              <Text style={styles.doneText}>Done</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 20,
+  },
+  modalContainer: {
+    backgroundColor: 'white',
+    borderRadius: 20,
+    padding: 24,
+    width: '100%',
+    maxWidth: 400,
+    alignItems: 'center',
+    elevation: 10,
+    shadowColor: '#000',
+    shadowOffset: {
+      width: 0,
+      height: 10,
+    },
+    shadowOpacity: 0.25,
+    shadowRadius: 20,
+  },
+  iconContainer: {
+    marginBottom: 16,
+  },
+  successIcon: {
+    fontSize: 48,
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    color: '#1a1a1a',
+    marginBottom: 8,
+    textAlign: 'center',
+  },
+  amount: {
+    fontSize: 28,
+    fontWeight: 'bold',
+    color: '#ff2b2b',
+    marginBottom: 20,
+  },
+  detailsContainer: {
+    width: '100%',
+    backgroundColor: '#f8f9fa',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 20,
+  },
+  detailRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingVertical: 6,
+  },
+  balanceRow: {
+    marginTop: 8,
+    paddingTop: 12,
+    borderTopWidth: 1,
+    borderTopColor: '#e9ecef',
+  },
+  detailLabel: {
+    fontSize: 14,
+    color: '#666',
+    flex: 1,
+  },
+  detailValue: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#1a1a1a',
+    flex: 1,
+    textAlign: 'right',
+  },
+  balanceValue: {
+    color: '#28a745',
+    fontSize: 16,
+  },
+  buttonContainer: {
+    width: '100%',
+    gap: 12,
+  },
+  button: {
+    paddingVertical: 14,
+    borderRadius: 12,
+    alignItems: 'center',
+  },
+  primaryButton: {
+    backgroundColor: '#ff2b2b',
+  },
+  doneButton: {
+    backgroundColor: '#f8f9fa',
+    borderWidth: 1,
+    borderColor: '#dee2e6',
+  },
+  primaryText: {
+    color: 'white',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  doneText: {
+    color: '#495057',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
+
+export default TransferReceiptModal;
@@ -1,20 +1,36 @@
 import React, { useState } from 'react';
-import { View, Text, TextInput, TouchableOpacity, StyleSheet, Alert, SafeAreaView, KeyboardAvoidingView, Platform } from 'react-native';
+import { View, Text, TextInput, TouchableOpacity, StyleSheet, Alert, SafeAreaView, KeyboardAvoidingView, Platform, ActivityIndicator } from 'react-native';
 import { useRouter } from 'expo-router';
+import { api } from '@/services/ApiService';
 
 export default function ForgotPasswordScreen() {
   const router = useRouter();
   const [emailOrPhone, setEmailOrPhone] = useState('');
+  const [loading, setLoading] = useState(false);
 
-  const handleReset = () => {
-    if (!emailOrPhone.trim()) {
+  const handleReset = async () => {
+    const value = emailOrPhone.trim();
+    if (!value) {
       Alert.alert('Error', 'Phone or Email is required.');
       return;
     }
 
-    // Handle password reset logic here
-    Alert.alert('Success', `Password reset link sent to ${emailOrPhone}`);
-    router.push('/auth/login'); // Navigate back to login
+    setLoading(true);
+    try {
+      const response = await api.requestPasswordReset(value);
+      router.push({
+        pathname: '/auth/reset-password',
+        params: {
+          emailOrPhone: value,
+          channel: response.channel,
+          expiresInMinutes: String(response.expiresInMinutes),
+        },
+      });
+    } catch (error: any) {
+      Alert.alert('Error', error.message || 'Unable to send reset code. Please try again.');
+    } finally {
+      setLoading(false);
+    }
   };
 
   return (
@@ -24,7 +40,7 @@ export default function ForgotPasswordScreen() {
         style={{ flex: 1, justifyContent: 'center' }}
       >
         <Text style={styles.title}>Forgot Password</Text>
-        <Text style={styles.subtitle}>Enter your phone number or email to reset your password.</Text>
+        <Text style={styles.subtitle}>Enter your phone number or email and we&apos;ll send you a reset code.</Text>
 
         <TextInput
           style={styles.input}
@@ -32,11 +48,28 @@ export default function ForgotPasswordScreen() {
           placeholderTextColor="#ccc"
           value={emailOrPhone}
           onChangeText={setEmailOrPhone}
+          autoCapitalize="none"
+          keyboardType="email-address"
+          editable={!loading}
         />
 
-        <TouchableOpacity style={styles.button} onPress={handleReset}>
-          <Text style={styles.buttonText}>Reset Password</Text>
+        <TouchableOpacity
+          style={[styles.button, loading && styles.buttonDisabled]}
+          onPress={handleReset}
+          disabled={loading}
+        >
+          {loading ? (
+            <ActivityIndicator color="#fff" />
+          ) : (
+            <Text style={styles.buttonText}>Send Reset Code</Text>
+          )}
         </TouchableOpacity>
+
+        <View style={styles.footer}>
+          <TouchableOpacity onPress={() => router.back()} disabled={loading}>
+            <Text style={styles.linkText}>Back to Login</Text>
+          </TouchableOpacity>
+        </View>
       </KeyboardAvoidingView>
     </SafeAreaView>
   );
@@ -48,5 +81,8 @@ const styles = StyleSheet.create({
   subtitle: { fontSize: 16, color: '#555', textAlign: 'center', marginBottom: 30 },
   input: { backgroundColor: '#fff', paddingVertical: 15, paddingHorizontal: 20, borderRadius: 12, fontSize: 16, marginBottom: 20, borderWidth: 1, borderColor: '#ccc' },
   button: { backgroundColor: '#ff2b2b', paddingVertical: 18, borderRadius: 14, alignItems: 'center', marginTop: 10 },
+  buttonDisabled: { opacity: 0.6 },
   buttonText: { color: '#fff', fontWeight: '700', fontSize: 18 },
+  footer: { alignItems: 'center', marginTop: 25 },
+  linkText: { color: '#ff2b2b', fontWeight: '600', fontSize: 16 },
 });
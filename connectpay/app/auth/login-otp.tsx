@@ -0,0 +1,162 @@
+import React, { useContext, useEffect, useState } from 'react';
+import { View, Text, TextInput, TouchableOpacity, StyleSheet, Alert, SafeAreaView, KeyboardAvoidingView, Platform, ActivityIndicator } from 'react-native';
+import { useRouter, useLocalSearchParams } from 'expo-router';
+import { api, isApiError } from '@/services/ApiService';
+import { AuthContext } from '../../contexts/AuthContext';
+
+const OTP_LENGTH = 6;
+const RESEND_COOLDOWN_SECONDS = 60;
+
+// Second step of a login from a device the account hasn't used before, when
+// the user has turned on login codes for new devices. /auth/login already
+// sent the code; the challenge token ties it to this login attempt.
+export default function LoginOtpScreen() {
+  const router = useRouter();
+  const { login, getDeviceInfo } = useContext(AuthContext);
+  const params = useLocalSearchParams<{
+    challengeToken?: string;
+    channel?: string;
+    destination?: string;
+    resendAfterSeconds?: string;
+  }>();
+
+  const [challengeToken, setChallengeToken] = useState(String(params.challengeToken || ''));
+  const [destination, setDestination] = useState(String(params.destination || ''));
+  const via = params.channel === 'phone' ? 'SMS' : 'email';
+
+  const [otp, setOtp] = useState('');
+  const [error, setError] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [resendIn, setResendIn] = useState(Number(params.resendAfterSeconds) || RESEND_COOLDOWN_SECONDS);
+
+  useEffect(() => {
+    if (resendIn <= 0) return;
+    const timer = setTimeout(() => setResendIn(resendIn - 1), 1000);
+    return () => clearTimeout(timer);
+  }, [resendIn]);
+
+  // The challenge is gone (expired, used or too many wrong codes): start over
+  const backToLogin = (message: string) => {
+    Alert.alert('Sign In Again', message, [{ text: 'OK', onPress: () => router.replace('/auth/login') }]);
+  };
+
+  const handleVerify = async () => {
+    if (!new RegExp(`^\\d{${OTP_LENGTH}}$`).test(otp)) {
+      setError(`Enter the ${OTP_LENGTH}-digit code we sent you`);
+      return;
+    }
+
+    setLoading(true);
+    setError('');
+    try {
+      const device = await getDeviceInfo();
+      const response = await api.verifyLoginOtp({ challengeToken, otp, ...device });
+      await login(response.token, response.refreshToken, response.deviceToken);
+      router.replace('/dashboard');
+    } catch (err) {
+      if (isApiError(err) && ['LOGIN_CHALLENGE_INVALID', 'OTP_EXPIRED', 'OTP_ATTEMPTS_EXCEEDED'].includes(err.serverCode ?? '')) {
+        backToLogin(err.message);
+        return;
+      }
+      setError(err instanceof Error ? err.message : 'Unable to verify the code. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleResend = async () => {
+    setError('');
+    try {
+      const response = await api.resendLoginOtp(challengeToken, await getDeviceInfo());
+      setChallengeToken(response.challengeToken);
+      setDestination(response.destination);
+      setResendIn(response.resendAfterSeconds || RESEND_COOLDOWN_SECONDS);
+      setOtp('');
+      Alert.alert('Code Sent', `A new code has been sent by ${via}.`);
+    } catch (err) {
+      if (isApiError(err) && err.serverCode === 'OTP_RESEND_TOO_SOON') {
+        const retryAfter = err.data?.retryAfterSeconds;
+        setResendIn(typeof retryAfter === 'number' && retryAfter > 0 ? retryAfter : RESEND_COOLDOWN_SECONDS);
+      } else if (isApiError(err) && err.serverCode === 'LOGIN_CHALLENGE_INVALID') {
+        backToLogin(err.message);
+      } else {
+        setError(err instanceof Error ? err.message : 'Unable to send a code. Please try again.');
+      }
+    }
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <KeyboardAvoidingView
+        behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+        style={{ flex: 1, justifyContent: 'center' }}
+      >
+        <Text style={styles.title}>Confirm It&apos;s You</Text>
+        <Text style={styles.subtitle}>
+          This device hasn&apos;t signed in to your account before. Enter the {OTP_LENGTH}-digit code sent by {via}
+          {destination ? ` to ${destination}` : ''}.
+        </Text>
+
+        <TextInput
+          style={[styles.input, styles.otpInput]}
+          placeholder="Login code"
+          placeholderTextColor="#ccc"
+          value={otp}
+          onChangeText={(text) => {
+            setOtp(text.replace(/\D/g, '').slice(0, OTP_LENGTH));
+            setError('');
+          }}
+          keyboardType="number-pad"
+          maxLength={OTP_LENGTH}
+          editable={!loading}
+          autoFocus
+        />
+
+        {error ? <Text style={styles.errorText}>{error}</Text> : null}
+
+        <TouchableOpacity
+          style={[styles.button, loading && styles.buttonDisabled]}
+          onPress={handleVerify}
+          disabled={loading}
+        >
+          {loading ? (
+            <ActivityIndicator color="#fff" />
+          ) : (
+            <Text style={styles.buttonText}>Sign In</Text>
+          )}
+        </TouchableOpacity>
+
+        <View style={styles.footer}>
+          {resendIn > 0 ? (
+            <Text style={styles.mutedText}>Resend code in {resendIn}s</Text>
+          ) : (
+            <TouchableOpacity onPress={handleResend} disabled={loading}>
+              <Text style={styles.linkText}>Resend code</Text>
+            </TouchableOpacity>
+          )}
+
+          <TouchableOpacity style={styles.cancelButton} onPress={() => router.replace('/auth/login')} disabled={loading}>
+            <Text style={styles.cancelText}>Cancel</Text>
+          </TouchableOpacity>
+        </View>
+      </KeyboardAvoidingView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: { flex: 1, backgroundColor: '#fff', paddingHorizontal: 30 },
+  title: { fontSize: 32, fontWeight: 'bold', color: '#ff2b2b', textAlign: 'center', marginBottom: 10 },
+  subtitle: { fontSize: 16, color: '#555', textAlign: 'center', marginBottom: 30 },
+  input: { backgroundColor: '#fff', paddingVertical: 15, paddingHorizontal: 20, borderRadius: 12, fontSize: 16, marginBottom: 20, borderWidth: 1, borderColor: '#ccc' },
+  otpInput: { textAlign: 'center', letterSpacing: 8, fontSize: 22, fontWeight: '600' },
+  errorText: { color: '#ff2b2b', fontSize: 14, textAlign: 'center', marginBottom: 10 },
+  button: { backgroundColor: '#ff2b2b', paddingVertical: 18, borderRadius: 14, alignItems: 'center', marginTop: 10 },
+  buttonDisabled: { opacity: 0.6 },
+  buttonText: { color: '#fff', fontWeight: '700', fontSize: 18 },
+  footer: { alignItems: 'center', marginTop: 25 },
+  mutedText: { color: '#999', fontSize: 15 },
+  linkText: { color: '#ff2b2b', fontWeight: '600', fontSize: 16 },
+  cancelButton: { marginTop: 20, padding: 8 },
+  cancelText: { color: '#666', fontSize: 15 },
+});
@@ -20,7 +20,7 @@ const API_BASE_URL = 'http://localhost:5000';
 
 export default function LoginScreen() {
   const router = useRouter();
-  const { login, user } = useContext(AuthContext);
+  const { login, user, getDeviceInfo } = useContext(AuthContext);
 
   // Refs for input focus management
   const emailRef = useRef(null);
@@ -132,17 +132,29 @@ export default function LoginScreen() {
     setLoading(true);
 
     try {
+      const deviceInfo = await getDeviceInfo();
       const response = await axios.post(
         `${API_BASE_URL}/api/auth/login`,
-        { emailOrPhone: emailOrPhone.trim(), password: password.trim() },
+        { emailOrPhone: emailOrPhone.trim(), password: password.trim(), ...deviceInfo },
         {
           headers: { 'Content-Type': 'application/json' },
           timeout: 10000,
         }
       );
 
-      if (response.data.token) {
-        await login(response.data.token);
+      if (response.data.requiresOtp) {
+        // New device and the user wants a code for those: finish on the code screen
+        router.push({
+          pathname: '/auth/login-otp',
+          params: {
+            challengeToken: response.data.challengeToken,
+            channel: response.data.channel,
+            destination: response.data.destination,
+            resendAfterSeconds: String(response.data.resendAfterSeconds),
+          },
+        });
+      } else if (response.data.token) {
+        await login(response.data.token, response.data.refreshToken, response.data.deviceToken);
         setSuccessMessage('Login successful! Redirecting...');
         setTimeout(() => {
           router.replace('/dashboard');
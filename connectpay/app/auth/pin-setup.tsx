@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useContext, useState } from 'react';
 import {
   View,
   Text,
@@ -12,6 +12,7 @@ import {
 } from 'react-native';
 import { useRouter, useLocalSearchParams } from 'expo-router';
 import AsyncStorage from '@react-native-async-storage/async-storage';
+import { AuthContext } from '../../contexts/AuthContext';
 
 // Your API base URL
 const API_BASE_URL = 'http://localhost:5000/api';
@@ -19,7 +20,8 @@ const API_BASE_URL = 'http://localhost:5000/api';
 
 export default function PinSetupScreen() {
   const router = useRouter();
-  const { userToken, userName } = useLocalSearchParams();
+  const { userToken, refreshToken, userName } = useLocalSearchParams();
+  const { login } = useContext(AuthContext);
 
   const [currentStep, setCurrentStep] = useState<1 | 2>(1); // 1: Create PIN, 2: Confirm PIN
   const [pin, setPin] = useState('');
@@ -105,9 +107,9 @@ export default function PinSetupScreen() {
       console.log('PIN setup response:', response);
 
       if (response.success) {
-        // Store PIN setup status and token locally
+        // Store PIN setup status locally and start the session
         await AsyncStorage.setItem('isPinSetup', 'true');
-        await AsyncStorage.setItem('userToken', userToken as string);
+        await login(userToken as string, refreshToken as string);
 
         // Navigate immediately without alert
         router.replace('/dashboard');
@@ -0,0 +1,163 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, TextInput, TouchableOpacity, StyleSheet, Alert, SafeAreaView, KeyboardAvoidingView, Platform, ActivityIndicator } from 'react-native';
+import { useRouter, useLocalSearchParams } from 'expo-router';
+import { api, isApiError } from '@/services/ApiService';
+
+const OTP_LENGTH = 6;
+const RESEND_COOLDOWN_SECONDS = 60;
+
+export default function ResetPasswordScreen() {
+  const router = useRouter();
+  const params = useLocalSearchParams<{ emailOrPhone: string; channel?: string; expiresInMinutes?: string }>();
+  const emailOrPhone = String(params.emailOrPhone || '');
+  const channelLabel = params.channel === 'sms' ? 'SMS' : 'email';
+
+  const [otp, setOtp] = useState('');
+  const [newPassword, setNewPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [error, setError] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [resendIn, setResendIn] = useState(RESEND_COOLDOWN_SECONDS);
+
+  useEffect(() => {
+    if (resendIn <= 0) return;
+    const timer = setTimeout(() => setResendIn(resendIn - 1), 1000);
+    return () => clearTimeout(timer);
+  }, [resendIn]);
+
+  const validate = (): string => {
+    if (!new RegExp(`^\\d{${OTP_LENGTH}}$`).test(otp)) return `Enter the ${OTP_LENGTH}-digit code we sent you`;
+    if (newPassword.length < 6) return 'Password must be at least 6 characters';
+    if (newPassword !== confirmPassword) return 'Passwords do not match';
+    return '';
+  };
+
+  const handleSubmit = async () => {
+    const validationError = validate();
+    setError(validationError);
+    if (validationError) return;
+
+    setLoading(true);
+    try {
+      const response = await api.resetPassword({ emailOrPhone, otp, newPassword });
+      Alert.alert('Password Reset', response.message || 'Your password has been reset.', [
+        { text: 'Log In', onPress: () => router.replace('/auth/login') },
+      ]);
+    } catch (err) {
+      if (isApiError(err) && err.serverCode === 'OTP_EXPIRED') {
+        setOtp('');
+      }
+      setError(err instanceof Error ? err.message : 'Unable to reset password. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleResend = async () => {
+    setError('');
+    try {
+      await api.requestPasswordReset(emailOrPhone);
+      setOtp('');
+      setResendIn(RESEND_COOLDOWN_SECONDS);
+      Alert.alert('Code Sent', `A new code has been sent by ${channelLabel}.`);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unable to resend code. Please try again.');
+    }
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <KeyboardAvoidingView
+        behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+        style={{ flex: 1, justifyContent: 'center' }}
+      >
+        <Text style={styles.title}>Reset Password</Text>
+        <Text style={styles.subtitle}>
+          Enter the code sent by {channelLabel} to {emailOrPhone}
+          {params.expiresInMinutes ? ` (valid for ${params.expiresInMinutes} minutes)` : ''} and choose a new password.
+        </Text>
+
+        <TextInput
+          style={[styles.input, styles.otpInput]}
+          placeholder="Reset code"
+          placeholderTextColor="#ccc"
+          value={otp}
+          onChangeText={(text) => {
+            setOtp(text.replace(/\D/g, '').slice(0, OTP_LENGTH));
+            setError('');
+          }}
+          keyboardType="number-pad"
+          maxLength={OTP_LENGTH}
+          editable={!loading}
+        />
+
+        <TextInput
+          style={styles.input}
+          placeholder="New password"
+          placeholderTextColor="#ccc"
+          value={newPassword}
+          onChangeText={(text) => {
+            setNewPassword(text);
+            setError('');
+          }}
+          secureTextEntry
+          autoCapitalize="none"
+          editable={!loading}
+        />
+
+        <TextInput
+          style={styles.input}
+          placeholder="Confirm new password"
+          placeholderTextColor="#ccc"
+          value={confirmPassword}
+          onChangeText={(text) => {
+            setConfirmPassword(text);
+            setError('');
+          }}
+          secureTextEntry
+          autoCapitalize="none"
+          editable={!loading}
+        />
+
+        {error ? <Text style={styles.errorText}>{error}</Text> : null}
+
+        <TouchableOpacity
+          style={[styles.button, loading && styles.buttonDisabled]}
+          onPress={handleSubmit}
+          disabled={loading}
+        >
+          {loading ? (
+            <ActivityIndicator color="#fff" />
+          ) : (
+            <Text style={styles.buttonText}>Reset Password</Text>
+          )}
+        </TouchableOpacity>
+
+        <View style={styles.footer}>
+          {resendIn > 0 ? (
+            <Text style={styles.mutedText}>Resend code in {resendIn}s</Text>
+          ) : (
+            <TouchableOpacity onPress={handleResend} disabled={loading}>
+              <Text style={styles.linkText}>Resend code</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+      </KeyboardAvoidingView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: { flex: 1, backgroundColor: '#fff', paddingHorizontal: 30 },
+  title: { fontSize: 32, fontWeight: 'bold', color: '#ff2b2b', textAlign: 'center', marginBottom: 10 },
+  subtitle: { fontSize: 16, color: '#555', textAlign: 'center', marginBottom: 30 },
+  input: { backgroundColor: '#fff', paddingVertical: 15, paddingHorizontal: 20, borderRadius: 12, fontSize: 16, marginBottom: 20, borderWidth: 1, borderColor: '#ccc' },
+  otpInput: { textAlign: 'center', letterSpacing: 8, fontSize: 22, fontWeight: '600' },
+  errorText: { color: '#ff2b2b', fontSize: 14, textAlign: 'center', marginBottom: 10 },
+  button: { backgroundColor: '#ff2b2b', paddingVertical: 18, borderRadius: 14, alignItems: 'center', marginTop: 10 },
+  buttonDisabled: { opacity: 0.6 },
+  buttonText: { color: '#fff', fontWeight: '700', fontSize: 18 },
+  footer: { alignItems: 'center', marginTop: 25 },
+  mutedText: { color: '#999', fontSize: 15 },
+  linkText: { color: '#ff2b2b', fontWeight: '600', fontSize: 16 },
+});
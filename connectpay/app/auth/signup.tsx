@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useContext, useState } from 'react';
 import {
   View,
   Text,
@@ -12,12 +12,14 @@ import {
 } from 'react-native';
 import { useRouter } from 'expo-router';
 import axios from 'axios';
+import { AuthContext } from '../../contexts/AuthContext';
 
 // ✅ Fixed API URL configuration
 const API_BASE_URL = process.env.EXPO_PUBLIC_API_URL || 'http://localhost:5000';
 
 export default function SignupScreen() {
   const router = useRouter();
+  const { getDeviceInfo, saveDeviceToken } = useContext(AuthContext);
 
   const [fullName, setFullName] = useState('');
   const [username, setUsername] = useState('');
@@ -61,21 +63,26 @@ export default function SignupScreen() {
       // ✅ Fixed API call - use base URL + endpoint
       const response = await axios.post(
         `${API_BASE_URL}/api/auth/register`,
-        data
+        { ...data, ...(await getDeviceInfo()) }
       );
 
-      // Extract token from response
-      const { token, user } = response.data;
+      // Extract tokens from response
+      const { token, refreshToken, deviceToken, user, verification } = response.data;
+      await saveDeviceToken(deviceToken);
 
       setMessage({ text: 'Registration successful! Setting up your account...', type: 'success' });
 
-      // Navigate to PIN setup with the token
+      // Verify the phone number and email, then on to PIN setup with the token
       setTimeout(() => {
         router.push({
-          pathname: './pin-setup',
+          pathname: './verify',
           params: { 
+            channels: 'phone,email',
             userToken: token,
-            userName: user.name 
+            refreshToken,
+            userName: user.name,
+            phoneDestination: verification?.phone?.destination,
+            emailDestination: verification?.email?.destination
           }
         });
       }, 1500);
@@ -0,0 +1,228 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { View, Text, TextInput, TouchableOpacity, StyleSheet, Alert, SafeAreaView, KeyboardAvoidingView, Platform, ActivityIndicator } from 'react-native';
+import { useRouter, useLocalSearchParams } from 'expo-router';
+import { api, isApiError } from '@/services/ApiService';
+import type { VerificationChannel } from '@/types/api';
+
+const OTP_LENGTH = 6;
+const RESEND_COOLDOWN_SECONDS = 60;
+
+const CHANNEL_COPY: Record<VerificationChannel, { title: string; via: string }> = {
+  phone: { title: 'Verify Your Phone', via: 'SMS' },
+  email: { title: 'Verify Your Email', via: 'email' },
+};
+
+// OTP entry for the email address and/or phone number. After signup it walks
+// through phone then email (codes were already sent by /auth/signup) and ends at
+// PIN setup; from elsewhere in the app it verifies the requested channel and
+// goes back.
+export default function VerifyContactScreen() {
+  const router = useRouter();
+  const params = useLocalSearchParams<{
+    channels?: string;
+    userToken?: string;
+    refreshToken?: string;
+    userName?: string;
+    phoneDestination?: string;
+    emailDestination?: string;
+  }>();
+  const fromSignup = Boolean(params.userToken);
+  const accessToken = params.userToken ? String(params.userToken) : undefined;
+  const channels = String(params.channels || 'phone')
+    .split(',')
+    .filter((channel): channel is VerificationChannel => channel === 'phone' || channel === 'email');
+
+  const [step, setStep] = useState(0);
+  const channel = channels[step] ?? 'phone';
+  const presetDestination = channel === 'phone' ? params.phoneDestination : params.emailDestination;
+
+  const [destination, setDestination] = useState('');
+  const [otp, setOtp] = useState('');
+  const [error, setError] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [resendIn, setResendIn] = useState(0);
+
+  useEffect(() => {
+    if (resendIn <= 0) return;
+    const timer = setTimeout(() => setResendIn(resendIn - 1), 1000);
+    return () => clearTimeout(timer);
+  }, [resendIn]);
+
+  const sendCode = useCallback(async () => {
+    setError('');
+    try {
+      const response = await api.sendVerificationCode(channel, accessToken);
+      setDestination(response.destination);
+      setResendIn(response.resendAfterSeconds || RESEND_COOLDOWN_SECONDS);
+      return true;
+    } catch (err) {
+      if (isApiError(err) && err.serverCode === 'OTP_RESEND_TOO_SOON') {
+        // A code is already on its way; just wait out the cooldown
+        const retryAfter = err.data?.retryAfterSeconds;
+        setResendIn(typeof retryAfter === 'number' && retryAfter > 0 ? retryAfter : RESEND_COOLDOWN_SECONDS);
+        return true;
+      }
+      setError(err instanceof Error ? err.message : 'Unable to send a code. Please try again.');
+      return false;
+    }
+  }, [channel, accessToken]);
+
+  // Each step starts with a code on its way: signup already sent one,
+  // otherwise request it now
+  useEffect(() => {
+    setOtp('');
+    setError('');
+    if (presetDestination) {
+      setDestination(String(presetDestination));
+      setResendIn(RESEND_COOLDOWN_SECONDS);
+    } else {
+      setDestination('');
+      sendCode();
+    }
+    // Only when the step changes; sendCode changes with it
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [step]);
+
+  const finish = () => {
+    if (fromSignup) {
+      router.replace({
+        pathname: '/auth/pin-setup',
+        params: { userToken: params.userToken, refreshToken: params.refreshToken, userName: params.userName },
+      });
+    } else if (router.canGoBack()) {
+      router.back();
+    } else {
+      router.replace('/dashboard');
+    }
+  };
+
+  const nextStep = () => {
+    if (step + 1 < channels.length) {
+      setStep(step + 1);
+    } else {
+      finish();
+    }
+  };
+
+  const handleVerify = async () => {
+    if (!new RegExp(`^\\d{${OTP_LENGTH}}$`).test(otp)) {
+      setError(`Enter the ${OTP_LENGTH}-digit code we sent you`);
+      return;
+    }
+
+    setLoading(true);
+    setError('');
+    try {
+      const response = await api.confirmVerificationCode(channel, otp, accessToken);
+      Alert.alert('Verified', response.message || 'Thanks for verifying.', [{ text: 'Continue', onPress: nextStep }]);
+    } catch (err) {
+      if (isApiError(err) && (err.serverCode === 'OTP_EXPIRED' || err.serverCode === 'OTP_ATTEMPTS_EXCEEDED')) {
+        setOtp('');
+      }
+      setError(err instanceof Error ? err.message : 'Unable to verify the code. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleResend = async () => {
+    if (await sendCode()) {
+      setOtp('');
+      Alert.alert('Code Sent', `A new code has been sent by ${CHANNEL_COPY[channel].via}.`);
+    }
+  };
+
+  const handleSkip = () => {
+    Alert.alert(
+      'Verify Later?',
+      channel === 'phone'
+        ? 'You can use ConnectPay now, but transfers and withdrawals stay locked until your phone number is verified.'
+        : 'You can verify your email address later from your profile.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Skip', onPress: nextStep },
+      ]
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <KeyboardAvoidingView
+        behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+        style={{ flex: 1, justifyContent: 'center' }}
+      >
+        {channels.length > 1 && (
+          <Text style={styles.stepText}>Step {step + 1} of {channels.length}</Text>
+        )}
+        <Text style={styles.title}>{CHANNEL_COPY[channel].title}</Text>
+        <Text style={styles.subtitle}>
+          {destination
+            ? `Enter the ${OTP_LENGTH}-digit code sent by ${CHANNEL_COPY[channel].via} to ${destination}.`
+            : `Enter the ${OTP_LENGTH}-digit code we sent by ${CHANNEL_COPY[channel].via}.`}
+          {channel === 'phone' ? ' You need a verified phone number to send money.' : ''}
+        </Text>
+
+        <TextInput
+          style={[styles.input, styles.otpInput]}
+          placeholder="Verification code"
+          placeholderTextColor="#ccc"
+          value={otp}
+          onChangeText={(text) => {
+            setOtp(text.replace(/\D/g, '').slice(0, OTP_LENGTH));
+            setError('');
+          }}
+          keyboardType="number-pad"
+          maxLength={OTP_LENGTH}
+          editable={!loading}
+          autoFocus
+        />
+
+        {error ? <Text style={styles.errorText}>{error}</Text> : null}
+
+        <TouchableOpacity
+          style={[styles.button, loading && styles.buttonDisabled]}
+          onPress={handleVerify}
+          disabled={loading}
+        >
+          {loading ? (
+            <ActivityIndicator color="#fff" />
+          ) : (
+            <Text style={styles.buttonText}>Verify</Text>
+          )}
+        </TouchableOpacity>
+
+        <View style={styles.footer}>
+          {resendIn > 0 ? (
+            <Text style={styles.mutedText}>Resend code in {resendIn}s</Text>
+          ) : (
+            <TouchableOpacity onPress={handleResend} disabled={loading}>
+              <Text style={styles.linkText}>Resend code</Text>
+            </TouchableOpacity>
+          )}
+
+          <TouchableOpacity style={styles.skipButton} onPress={fromSignup ? handleSkip : finish} disabled={loading}>
+            <Text style={styles.skipText}>{fromSignup ? 'Verify later' : 'Cancel'}</Text>
+          </TouchableOpacity>
+        </View>
+      </KeyboardAvoidingView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: { flex: 1, backgroundColor: '#fff', paddingHorizontal: 30 },
+  stepText: { fontSize: 14, color: '#999', textAlign: 'center', marginBottom: 8 },
+  title: { fontSize: 32, fontWeight: 'bold', color: '#ff2b2b', textAlign: 'center', marginBottom: 10 },
+  subtitle: { fontSize: 16, color: '#555', textAlign: 'center', marginBottom: 30 },
+  input: { backgroundColor: '#fff', paddingVertical: 15, paddingHorizontal: 20, borderRadius: 12, fontSize: 16, marginBottom: 20, borderWidth: 1, borderColor: '#ccc' },
+  otpInput: { textAlign: 'center', letterSpacing: 8, fontSize: 22, fontWeight: '600' },
+  errorText: { color: '#ff2b2b', fontSize: 14, textAlign: 'center', marginBottom: 10 },
+  button: { backgroundColor: '#ff2b2b', paddingVertical: 18, borderRadius: 14, alignItems: 'center', marginTop: 10 },
+  buttonDisabled: { opacity: 0.6 },
+  buttonText: { color: '#fff', fontWeight: '700', fontSize: 18 },
+  footer: { alignItems: 'center', marginTop: 25 },
+  mutedText: { color: '#999', fontSize: 15 },
+  linkText: { color: '#ff2b2b', fontWeight: '600', fontSize: 16 },
+  skipButton: { marginTop: 20, padding: 8 },
+  skipText: { color: '#666', fontSize: 15 },
+});
@@ -18,9 +18,10 @@ import {
 } from 'react-native';
 import * as Contacts from 'expo-contacts';
 import AsyncStorage from '@react-native-async-storage/async-storage';
-
-// Your Replit API base URL
-const API_BASE_URL = 'http://localhost:5000/api';
+import { api, isApiError, isPendingPurchase, PENDING_PURCHASE_NOTE } from '@/services/ApiService';
+import { useIdempotencyKey } from '@/hooks/useIdempotencyKey';
+import BiometricConfirmButton from './BiometricConfirmButton';
+import type { BiometricAuthorization } from '@/types/api';
 
 interface Contact {
   id: string;
@@ -38,7 +39,8 @@ interface UserBalance {
   main: number;
   bonus: number;
   total: number;
-  lastUpdated: number;
+  // ISO timestamp, as sent by /balance
+  lastUpdated: string;
 }
 
 interface PinStatus {
@@ -51,6 +53,7 @@ interface PinStatus {
 
 export default function BuyAirtime() {
   const [currentStep, setCurrentStep] = useState<1 | 2 | 3>(1);
+  const idempotencyKey = useIdempotencyKey(currentStep === 3);
   const [selectedNetwork, setSelectedNetwork] = useState<string | null>(null);
   const [phone, setPhone] = useState('');
   const [amount, setAmount] = useState('');
@@ -112,20 +115,6 @@ export default function BuyAirtime() {
     loadRecentNumbers();
     loadFormState();
 
-    // Debug function to check stored tokens
-    const debugTokenStorage = async () => {
-      console.log('🐛 DEBUG: Checking token storage...');
-      const tokenKeys = ['userToken', 'authToken', 'token', 'access_token'];
-
-      for (const key of tokenKeys) {
-        const value = await AsyncStorage.getItem(key);
-        console.log(`🐛 ${key}:`, value ? `"${value}"` : 'null');
-      }
-    };
-
-    // Call debug function
-    debugTokenStorage();
-
     // Add delay to ensure auth is ready
     setTimeout(() => {
       fetchUserBalance();
@@ -153,160 +142,11 @@ export default function BuyAirtime() {
     saveFormState();
   }, [phone, amount, selectedNetwork]);
 
-  // ---------- FIXED API Helper Functions ----------
-  const getAuthToken = async () => {
-    try {
-      // Try multiple possible token keys for compatibility
-      const tokenKeys = ['userToken', 'authToken', 'token', 'access_token'];
-
-      for (const key of tokenKeys) {
-        const token = await AsyncStorage.getItem(key);
-        console.log(`🔍 Checking storage key "${key}":`, token ? `Found (${token.length} chars)` : 'Not found');
-
-        if (token && token.trim() !== '' && token !== 'undefined' && token !== 'null') {
-          const cleanToken = token.trim();
-
-          // Basic JWT format validation (should have 3 parts separated by dots)
-          const tokenParts = cleanToken.split('.');
-          if (tokenParts.length === 3) {
-            console.log(`✅ Found valid JWT token with key: ${key}`);
-            console.log(`🔑 Token preview: ${cleanToken.substring(0, 30)}...`);
-            return cleanToken;
-          } else {
-            console.log(`⚠️ Token from "${key}" is not a valid JWT format (${tokenParts.length} parts)`);
-          }
-        }
-      }
-
-      // Log all storage contents for debugging
-      console.log('🔍 All AsyncStorage contents:');
-      const allKeys = await AsyncStorage.getAllKeys();
-      for (const key of allKeys) {
-        const value = await AsyncStorage.getItem(key);
-        console.log(`  ${key}: ${value ? `${value.substring(0, 50)}...` : 'null'}`);
-      }
-
-      console.log('❌ No valid JWT token found in any storage key');
-      throw new Error('No authentication token found');
-    } catch (error) {
-      console.error('❌ Error getting auth token:', error);
-      throw new Error('Authentication required');
-    }
-  };
-
-  // Replace your makeApiRequest function with this debug version temporarily
-// Replace your makeApiRequest function with this cleaner version
-const makeApiRequest = async (endpoint, options = {}) => {
-  console.log(`🔵 API Request: ${endpoint}`);
-  
-  try {
-    // Get authentication token
-    const token = await getAuthToken();
-    console.log('🔑 Token obtained for API request');
-
-    const requestConfig = {
-      method: 'GET',
-      ...options,
-      headers: {
-        'Authorization': `Bearer ${token}`,
-        'Content-Type': 'application/json',
-        'Accept': 'application/json',
-        ...options.headers,
-      },
-    };
-
-    const fullUrl = `${API_BASE_URL}${endpoint}`;
-    console.log('🌐 Request URL:', fullUrl);
-    console.log('📤 Method:', requestConfig.method);
-
-    if (requestConfig.body) {
-      console.log('📄 Request has body, length:', requestConfig.body.length);
-    }
-
-    const response = await fetch(fullUrl, requestConfig);
-    console.log('📊 Response status:', response.status, response.ok ? '✅' : '❌');
-
-    // Read response text
-    let responseText = '';
-    try {
-      responseText = await response.text();
-    } catch (textError) {
-      console.error('❌ Failed to read response text:', textError);
-      throw new Error('Unable to read server response');
-    }
-
-    // Parse JSON if response has content
-    let data = {};
-    if (responseText.trim()) {
-      try {
-        data = JSON.parse(responseText);
-        console.log('✅ JSON parsed, success:', data.success);
-      } catch (parseError) {
-        console.error('❌ JSON parse error:', parseError);
-        console.log('📄 Raw response preview:', responseText.substring(0, 200));
-        throw new Error(`Invalid JSON response from server. Status: ${response.status}`);
-      }
-    } else {
-      console.log('⚠️ Empty response received');
-    }
-
-    // Handle authentication errors
-    if (response.status === 401) {
-      console.error('❌ 401 Unauthorized - clearing tokens');
-      const tokenKeys = ['userToken', 'authToken', 'token', 'access_token'];
-      for (const key of tokenKeys) {
-        await AsyncStorage.removeItem(key);
-      }
-      throw new Error('Session expired. Please login again.');
-    }
-
-    // Handle other HTTP errors
-    if (!response.ok) {
-      const errorMessage = data?.message || data?.error || `HTTP ${response.status}: ${response.statusText}`;
-      console.error(`❌ API Error:`, errorMessage);
-      
-      // For specific endpoints, preserve the full error data
-      if (endpoint === '/purchase' && data && typeof data === 'object') {
-        const error = new Error(errorMessage);
-        (error as any).responseData = data;
-        (error as any).httpStatus = response.status;
-        throw error;
-      }
-      
-      throw new Error(errorMessage);
-    }
-
-    console.log('✅ API request successful');
-    return data;
-
-  } catch (error) {
-    console.error(`💥 API Error for ${endpoint}:`, error.message);
-
-    // Handle specific error types
-    if (error.name === 'TypeError' && error.message.includes('Network request failed')) {
-      throw new Error('Network connection failed. Please check your internet connection.');
-    }
-
-    // Re-throw auth errors and custom errors as-is
-    if (error.message.includes('Authentication') || 
-        error.message.includes('Session expired') ||
-        error.responseData) {
-      throw error;
-    }
-
-    // Generic error fallback
-    throw new Error(error.message || 'Request failed');
-  }
-};
-
   // ---------- PIN Functions ----------
   const checkPinStatus = async () => {
   try {
     console.log('🔄 Checking PIN status...');
-    const token = await getAuthToken();
-    console.log('🔑 Using token for PIN status:', token.substring(0, 30) + '...');
-    
-    const response = await makeApiRequest('/purchase/pin-status');
+    const response = await api.getPinStatus();
     console.log('✅ PIN status response:', JSON.stringify(response, null, 2));
     
     if (response.success) {
@@ -323,10 +163,10 @@ const fetchUserBalance = async () => {
   setIsLoadingBalance(true);
   try {
     console.log("🔄 Fetching balance from /balance");
-    const balanceData = await makeApiRequest("/balance");
+    const balanceData = await api.getBalance();
 
     if (balanceData.success && balanceData.balance) {
-      const balanceAmount = parseFloat(balanceData.balance.amount) || 0;
+      const balanceAmount = Number(balanceData.balance.amount) || 0;
       
       // Since you're not using bonus anymore, simplify the structure
       const realBalance = {
@@ -501,10 +341,10 @@ const networks = [
 // Add this enhanced debug version to your component
 // Replace your validatePinAndPurchase function with this clean version
 // Replace your validatePinAndPurchase function with this debug version
-const validatePinAndPurchase = async () => {
+const validatePinAndPurchase = async (biometric?: BiometricAuthorization) => {
   console.log('=== PAYMENT START ===');
   
-  if (!isPinValid) {
+  if (!biometric && !isPinValid) {
     console.log('❌ PIN invalid:', pin);
     setPinError('PIN must be exactly 4 digits');
     return;
@@ -524,16 +364,13 @@ const validatePinAndPurchase = async () => {
       pinProvided: !!pin
     });
 
-    const response = await makeApiRequest('/purchase', {
-      method: 'POST',
-      body: JSON.stringify({
-        type: 'airtime',
-        network: selectedNetwork,
-        phone: phone,
-        amount: amountNum,
-        pin: pin,
-      }),
-    });
+    const response = await api.purchase({
+      type: 'airtime',
+      network: selectedNetwork!,
+      phone: phone,
+      amount: amountNum,
+      ...(biometric ? { biometric } : { pin }),
+    }, idempotencyKey);
 
     console.log('📊 Purchase response:', response);
 
@@ -566,6 +403,11 @@ const validatePinAndPurchase = async () => {
       // Clear form
       await AsyncStorage.removeItem('airtimeFormState');
 
+      if (isPendingPurchase(response)) {
+        Alert.alert('Purchase Processing', `${response.message} ${PENDING_PURCHASE_NOTE}`);
+        return;
+      }
+
       // Prepare success data
       const networkName = networks.find(n => n.id === selectedNetwork)?.label || selectedNetwork?.toUpperCase();
       setSuccessData({
@@ -595,7 +437,10 @@ const validatePinAndPurchase = async () => {
     console.error('💥 Payment error:', error);
     
     // Handle different error types
-    if (error.message.includes('locked') || error.message.includes('attempts')) {
+    if (isApiError(error) && error.code === 'PIN_LOCKED') {
+      setPinError(error.message);
+      checkPinStatus();
+    } else if (error.message.includes('attempts')) {
       setPinError(error.message);
     } else if (error.message.includes('PIN')) {
       setPinError(error.message);
@@ -1056,7 +901,7 @@ const validatePinAndPurchase = async () => {
                   (!isPinValid || isValidatingPin || isProcessingPayment) && styles.proceedDisabled
                 ]}
                 disabled={!isPinValid || isValidatingPin || isProcessingPayment}
-                onPress={validatePinAndPurchase}
+                onPress={() => validatePinAndPurchase()}
               >
                 {isValidatingPin || isProcessingPayment ? (
                   <View style={styles.loadingRow}>
@@ -1071,6 +916,12 @@ const validatePinAndPurchase = async () => {
                   </Text>
                 )}
               </TouchableOpacity>
+
+              <BiometricConfirmButton
+                amount={amountNum}
+                disabled={isValidatingPin || isProcessingPayment}
+                onAuthorized={(biometric) => validatePinAndPurchase(biometric)}
+              />
             </>
           )}
 
@@ -16,9 +16,10 @@ import {
 import * as Contacts from 'expo-contacts';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import DataSuccessModal from './DataSuccessModal';
-
-// API base URL - update this to your actual API URL
-const API_BASE_URL = 'http://localhost:5000/api';
+import { api, isApiError, isPendingPurchase, PENDING_PURCHASE_NOTE } from '@/services/ApiService';
+import { useIdempotencyKey } from '@/hooks/useIdempotencyKey';
+import BiometricConfirmButton from './BiometricConfirmButton';
+import type { BiometricAuthorization, DataPurchaseRequest } from '@/types/api';
 
 // Interfaces (unchanged)
 interface Contact {
@@ -37,7 +38,8 @@ interface UserBalance {
   main: number;
   bonus: number;
   total: number;
-  lastUpdated: number;
+  // ISO timestamp, as sent by /balance
+  lastUpdated: string;
 }
 
 interface PinStatus {
@@ -59,6 +61,7 @@ interface DataPlan {
 
 export default function BuyData() {
   const [currentStep, setCurrentStep] = useState<1 | 2 | 3>(1);
+  const idempotencyKey = useIdempotencyKey(currentStep === 3);
   const [selectedNetwork, setSelectedNetwork] = useState<string | null>(null);
   const [selectedPlan, setSelectedPlan] = useState<DataPlan | null>(null);
   const [phone, setPhone] = useState('');
@@ -161,90 +164,11 @@ const canProceed = isPhoneValid &&
     }
   };
 
-  // Improved authentication token getter
-  const getAuthToken = async (): Promise<string> => {
-    try {
-      // Try to get token from common storage keys
-      const tokenKeys = [
-        'userToken', 'authToken', 'token', 'accessToken', 
-        'userData', 'authData', 'user'
-      ];
-      
-      for (const key of tokenKeys) {
-        try {
-          const item = await AsyncStorage.getItem(key);
-          if (item) {
-            // If it's a JSON string, parse it
-            try {
-              const parsed = JSON.parse(item);
-              if (parsed.token) return parsed.token;
-              if (parsed.accessToken) return parsed.accessToken;
-              if (parsed.authToken) return parsed.authToken;
-            } catch (e) {
-              // If it's not JSON, use it as is if it looks like a token
-              if (typeof item === 'string' && item.length > 20) {
-                return item;
-              }
-            }
-          }
-        } catch (error) {
-          console.log(`Error retrieving ${key}:`, error);
-        }
-      }
-      
-      throw new Error('No authentication token found');
-    } catch (error) {
-      console.error('Auth token retrieval error:', error);
-      setAuthError('Please login to continue');
-      throw new Error('Authentication required');
-    }
-  };
-
-  // Improved API request handler
-  const makeApiRequest = async (endpoint: string, options: any = {}) => {
-    try {
-      let token;
-      try {
-        token = await getAuthToken();
-        setAuthError(null);
-      } catch (authError) {
-        setAuthError('Please login to continue');
-        throw new Error('Authentication required');
-      }
-
-      const requestOptions = {
-        ...options,
-        headers: {
-          'Authorization': `Bearer ${token}`,
-          'Content-Type': 'application/json',
-          ...options.headers,
-        },
-      };
-
-      const response = await fetch(`${API_BASE_URL}${endpoint}`, requestOptions);
-      
-      if (!response.ok) {
-        if (response.status === 401) {
-          setAuthError('Session expired. Please login again.');
-          throw new Error('Authentication failed');
-        }
-        
-        const errorData = await response.json().catch(() => ({}));
-        throw new Error(errorData.message || `Request failed with status ${response.status}`);
-      }
-      
-      return await response.json();
-    } catch (error) {
-      console.error(`API request error for ${endpoint}:`, error);
-      throw error;
-    }
-  };
-
   // Fetch data plans
   const fetchDataPlans = async (network: string) => {
     setIsLoadingPlans(true);
     try {
-      const response = await makeApiRequest(`/data/plans/${network}`);
+      const response = await api.getDataPlans(network);
       
       if (response.success) {
         setDataPlans(response.plans || []);
@@ -263,7 +187,7 @@ const canProceed = isPhoneValid &&
   // Check PIN status
   const checkPinStatus = async () => {
     try {
-      const response = await makeApiRequest('/purchase/pin-status');
+      const response = await api.getPinStatus();
       
       if (response.success) {
         setPinStatus(response);
@@ -295,10 +219,10 @@ const canProceed = isPhoneValid &&
   setIsLoadingBalance(true);
   try {
     console.log("🔄 Fetching balance from /balance");
-    const balanceData = await makeApiRequest("/balance");
+    const balanceData = await api.getBalance();
 
     if (balanceData.success && balanceData.balance) {
-      const balanceAmount = parseFloat(balanceData.balance.amount) || 0;
+      const balanceAmount = Number(balanceData.balance.amount) || 0;
       
       // Use same structure as airtime component
       const realBalance = {
@@ -318,6 +242,9 @@ const canProceed = isPhoneValid &&
     }
   } catch (error) {
     console.error("❌ Balance fetch error:", error);
+    if (isApiError(error) && error.code === 'UNAUTHORIZED') {
+      setAuthError(error.message);
+    }
     
     // Try to use cached balance as fallback
     try {
@@ -342,8 +269,8 @@ const canProceed = isPhoneValid &&
 };
 
   // FIXED: Combined PIN validation and payment processing
-  const processPayment = async () => {
-    if (!isPinValid) {
+  const processPayment = async (biometric?: BiometricAuthorization) => {
+    if (!biometric && !isPinValid) {
       setPinError('PIN must be exactly 4 digits');
       return;
     }
@@ -353,22 +280,19 @@ const canProceed = isPhoneValid &&
 
     try {
       // FIXED: Send the correct data structure that matches the backend expectations
-      const purchaseData = {
+      const purchaseData: DataPurchaseRequest = {
         type: 'data',
-        network: selectedNetwork,
+        network: selectedNetwork!,
         phone: phone,
         planId: selectedPlan?.id, // FIXED: Send planId instead of plan object
         plan: selectedPlan?.name, // Also send plan name for backend processing
-        amount: selectedPlan?.amount,
-        pin: pin,
+        amount: selectedPlan!.amount,
+        ...(biometric ? { biometric } : { pin }),
       };
 
       console.log('Sending purchase data:', purchaseData); // Debug log
 
-      const response = await makeApiRequest('/purchase', {
-        method: 'POST',
-        body: JSON.stringify(purchaseData),
-      });
+      const response = await api.purchase(purchaseData, idempotencyKey);
 
       if (response.success) {
         // Save to recent numbers
@@ -394,6 +318,12 @@ const canProceed = isPhoneValid &&
   console.log('💰 Balance updated:', updatedBalance);
 }
 
+        if (isPendingPurchase(response)) {
+          await AsyncStorage.removeItem('dataFormState');
+          Alert.alert('Purchase Processing', `${response.message} ${PENDING_PURCHASE_NOTE}`);
+          return;
+        }
+
         // Show success
         setSuccessData({
           transaction: response.transaction,
@@ -426,10 +356,10 @@ const canProceed = isPhoneValid &&
       // Handle specific error types
       if (error.message?.includes('Invalid PIN')) {
         setPinError(error.message);
-      } else if (error.message?.includes('locked')) {
+      } else if (isApiError(error) && error.code === 'PIN_LOCKED') {
         setPinError(error.message);
         await checkPinStatus();
-      } else if (error.message?.includes('Authentication')) {
+      } else if (isApiError(error) && error.code === 'UNAUTHORIZED') {
         setAuthError(error.message);
       } else {
         Alert.alert('Error', error.message || 'Payment processing failed');
@@ -1072,7 +1002,7 @@ const canProceed = isPhoneValid &&
                   (!isPinValid || isProcessingPayment) && styles.proceedDisabled
                 ]}
                 disabled={!isPinValid || isProcessingPayment}
-                onPress={processPayment}
+                onPress={() => processPayment()}
               >
                 {isProcessingPayment ? (
                   <View style={styles.loadingRow}>
@@ -1087,6 +1017,12 @@ const canProceed = isPhoneValid &&
                   </Text>
                 )}
               </TouchableOpacity>
+
+              <BiometricConfirmButton
+                amount={selectedPlan?.amount ?? 0}
+                disabled={isProcessingPayment}
+                onAuthorized={(biometric) => processPayment(biometric)}
+              />
             </>
           )}
 
@@ -16,9 +16,10 @@ import {
 import * as Contacts from 'expo-contacts';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import CableTVSuccessModal from './CableTVSuccessModal';
-
-// API Configuration
-const API_BASE_URL = 'http://localhost:5000/api';
+import { api, isApiError, isPendingPurchase, PENDING_PURCHASE_NOTE } from '@/services/ApiService';
+import { useIdempotencyKey } from '@/hooks/useIdempotencyKey';
+import BiometricConfirmButton from './BiometricConfirmButton';
+import type { BiometricAuthorization } from '@/types/api';
 
 // Interfaces
 interface Contact {
@@ -37,7 +38,8 @@ interface UserBalance {
   main: number;
   bonus: number;
   total: number;
-  lastUpdated: number;
+  // ISO timestamp, as sent by /balance
+  lastUpdated: string;
 }
 
 interface PinStatus {
@@ -59,6 +61,7 @@ interface CablePackage {
 
 export default function BuyCableTV() {
   const [currentStep, setCurrentStep] = useState<1 | 2 | 3>(1);
+  const idempotencyKey = useIdempotencyKey(currentStep === 3);
   const [selectedOperator, setSelectedOperator] = useState<string | null>(null);
   const [selectedPackage, setSelectedPackage] = useState<CablePackage | null>(null);
   const [smartCardNumber, setSmartCardNumber] = useState('');
@@ -134,19 +137,6 @@ export default function BuyCableTV() {
     loadRecentNumbers();
     loadFormState();
 
-    // Debug function to check stored tokens (same as airtime)
-    const debugTokenStorage = async () => {
-      console.log('🐛 DEBUG: Checking token storage...');
-      const tokenKeys = ['userToken', 'authToken', 'token', 'access_token'];
-
-      for (const key of tokenKeys) {
-        const value = await AsyncStorage.getItem(key);
-        console.log(`🐛 ${key}:`, value ? `"${value}"` : 'null');
-      }
-    };
-
-    debugTokenStorage();
-
     // Add delay to ensure auth is ready
     setTimeout(() => {
       fetchUserBalance();
@@ -175,141 +165,16 @@ export default function BuyCableTV() {
     saveFormState();
   }, [phone, selectedOperator, selectedPackage, smartCardNumber]);
 
-  // ========== UNIFIED API FUNCTIONS (same as airtime) ==========
-  
-  const getAuthToken = async () => {
-    try {
-      const tokenKeys = ['userToken', 'authToken', 'token', 'access_token'];
-
-      for (const key of tokenKeys) {
-        const token = await AsyncStorage.getItem(key);
-        console.log(`🔍 Checking storage key "${key}":`, token ? `Found (${token.length} chars)` : 'Not found');
-
-        if (token && token.trim() !== '' && token !== 'undefined' && token !== 'null') {
-          const cleanToken = token.trim();
-          const tokenParts = cleanToken.split('.');
-          if (tokenParts.length === 3) {
-            console.log(`✅ Found valid JWT token with key: ${key}`);
-            return cleanToken;
-          } else {
-            console.log(`⚠️ Token from "${key}" is not a valid JWT format (${tokenParts.length} parts)`);
-          }
-        }
-      }
-
-      console.log('❌ No valid JWT token found in any storage key');
-      throw new Error('No authentication token found');
-    } catch (error) {
-      console.error('❌ Error getting auth token:', error);
-      throw new Error('Authentication required');
-    }
-  };
-
-  const makeApiRequest = async (endpoint, options = {}) => {
-    console.log(`🔵 API Request: ${endpoint}`);
-    
-    try {
-      const token = await getAuthToken();
-      console.log('🔑 Token obtained for API request');
-
-      const requestConfig = {
-        method: 'GET',
-        ...options,
-        headers: {
-          'Authorization': `Bearer ${token}`,
-          'Content-Type': 'application/json',
-          'Accept': 'application/json',
-          ...options.headers,
-        },
-      };
-
-      const fullUrl = `${API_BASE_URL}${endpoint}`;
-      console.log('🌐 Request URL:', fullUrl);
-      console.log('📤 Method:', requestConfig.method);
-
-      if (requestConfig.body) {
-        console.log('📄 Request has body, length:', requestConfig.body.length);
-      }
-
-      const response = await fetch(fullUrl, requestConfig);
-      console.log('📊 Response status:', response.status, response.ok ? '✅' : '❌');
-
-      let responseText = '';
-      try {
-        responseText = await response.text();
-      } catch (textError) {
-        console.error('❌ Failed to read response text:', textError);
-        throw new Error('Unable to read server response');
-      }
-
-      let data = {};
-      if (responseText.trim()) {
-        try {
-          data = JSON.parse(responseText);
-          console.log('✅ JSON parsed, success:', data.success);
-        } catch (parseError) {
-          console.error('❌ JSON parse error:', parseError);
-          console.log('📄 Raw response preview:', responseText.substring(0, 200));
-          throw new Error(`Invalid JSON response from server. Status: ${response.status}`);
-        }
-      } else {
-        console.log('⚠️ Empty response received');
-      }
-
-      // Handle authentication errors
-      if (response.status === 401) {
-        console.error('❌ 401 Unauthorized - clearing tokens');
-        const tokenKeys = ['userToken', 'authToken', 'token', 'access_token'];
-        for (const key of tokenKeys) {
-          await AsyncStorage.removeItem(key);
-        }
-        throw new Error('Session expired. Please login again.');
-      }
-
-      if (!response.ok) {
-        const errorMessage = data?.message || data?.error || `HTTP ${response.status}: ${response.statusText}`;
-        console.error(`❌ API Error:`, errorMessage);
-        
-        if (endpoint === '/purchase' && data && typeof data === 'object') {
-          const error = new Error(errorMessage);
-          (error as any).responseData = data;
-          (error as any).httpStatus = response.status;
-          throw error;
-        }
-        
-        throw new Error(errorMessage);
-      }
-
-      console.log('✅ API request successful');
-      return data;
-
-    } catch (error) {
-      console.error(`💥 API Error for ${endpoint}:`, error.message);
-
-      if (error.name === 'TypeError' && error.message.includes('Network request failed')) {
-        throw new Error('Network connection failed. Please check your internet connection.');
-      }
-
-      if (error.message.includes('Authentication') || 
-          error.message.includes('Session expired') ||
-          error.responseData) {
-        throw error;
-      }
-
-      throw new Error(error.message || 'Request failed');
-    }
-  };
-
   // ========== BALANCE FUNCTIONS (same as airtime) ==========
   
   const fetchUserBalance = async () => {
     setIsLoadingBalance(true);
     try {
       console.log("🔄 Fetching balance from /balance");
-      const balanceData = await makeApiRequest("/balance");
+      const balanceData = await api.getBalance();
 
       if (balanceData.success && balanceData.balance) {
-        const balanceAmount = parseFloat(balanceData.balance.amount) || 0;
+        const balanceAmount = Number(balanceData.balance.amount) || 0;
         
         const realBalance = {
           main: balanceAmount,
@@ -355,7 +220,7 @@ export default function BuyCableTV() {
   const checkPinStatus = async () => {
     try {
       console.log('🔄 Checking PIN status...');
-      const response = await makeApiRequest('/purchase/pin-status');
+      const response = await api.getPinStatus();
       console.log('✅ PIN status response:', JSON.stringify(response, null, 2));
       
       if (response.success) {
@@ -446,16 +311,16 @@ export default function BuyCableTV() {
   
   try {
     console.log(`Fetching cable packages for: ${operator}`);
-    const response = await makeApiRequest(`/cable/packages/${operator}`);
+    const response = await api.getCablePackages(operator);
 
     if (response.success && response.data) {
       const packages = response.data.map(pkg => ({
-        id: pkg.variation_id || pkg.id,
-        name: pkg.name || pkg.package_name,
-        amount: parseFloat(pkg.amount || pkg.price),
+        id: pkg.variation_id,
+        name: pkg.name,
+        amount: pkg.amount,
         duration: pkg.duration || '30 days',
         operator: operator,
-        description: pkg.description || pkg.details
+        description: pkg.description
       }));
 
       setCablePackages(packages);
@@ -467,9 +332,9 @@ export default function BuyCableTV() {
     console.error('Error fetching cable packages:', error);
     setCablePackages([]);
     
-    if (error.message.includes('login again')) {
+    if (isApiError(error) && error.code === 'UNAUTHORIZED') {
       Alert.alert('Session Expired', 'Please login again to continue.');
-    } else if (error.message.includes('Network')) {
+    } else if (isApiError(error) && (error.code === 'NETWORK' || error.code === 'TIMEOUT')) {
       Alert.alert('Network Error', 'Please check your connection and try again.');
     } else {
       Alert.alert('Error', `Failed to load ${operator.toUpperCase()} packages. Please try again.`);
@@ -497,12 +362,9 @@ export default function BuyCableTV() {
 
     try {
       console.log('🔄 Validating smart card...');
-      const response = await makeApiRequest('/cable/validate-smartcard', {
-        method: 'POST',
-        body: JSON.stringify({ 
-          smartCardNumber, 
-          operator: selectedOperator 
-        }),
+      const response = await api.validateSmartCard({
+        smartCardNumber,
+        operator: selectedOperator,
       });
 
       if (response && response.success) {
@@ -515,13 +377,13 @@ export default function BuyCableTV() {
     } catch (error: any) {
       console.error('❌ Smart card validation error:', error);
 
-      if (error.message.includes('login again')) {
+      if (isApiError(error) && error.code === 'UNAUTHORIZED') {
         return;
       }
 
-      if (error.message.includes('Invalid smart card')) {
+      if (isApiError(error) && error.serverCode === 'INVALID_SMARTCARD') {
         setCardError(error.message);
-      } else if (error.message.includes('Smart card not found')) {
+      } else if (isApiError(error) && error.serverCode === 'SMARTCARD_NOT_FOUND') {
         setCardError('Smart card number not found for this operator');
       }
     } finally {
@@ -605,10 +467,10 @@ export default function BuyCableTV() {
 
   // ========== UNIFIED PAYMENT PROCESSING ==========
   
-  const validatePinAndPurchase = async () => {
+  const validatePinAndPurchase = async (biometric?: BiometricAuthorization) => {
     console.log('=== CABLE TV PAYMENT START ===');
     
-    if (!isPinValid) {
+    if (!biometric && !isPinValid) {
       console.log('❌ PIN invalid:', pin);
       setPinError('PIN must be exactly 4 digits');
       return;
@@ -631,18 +493,15 @@ export default function BuyCableTV() {
       });
 
       // Use the same /purchase route as airtime
-      const response = await makeApiRequest('/purchase', {
-        method: 'POST',
-        body: JSON.stringify({
-          type: 'cable_tv',
-          operator: selectedOperator,
-          packageId: selectedPackage?.id,
-          smartCardNumber: smartCardNumber,
-          phone: phone,
-          amount: selectedPackage?.amount,
-          pin: pin,
-        }),
-      });
+      const response = await api.purchase({
+        type: 'cable_tv',
+        operator: selectedOperator!,
+        packageId: selectedPackage!.id,
+        smartCardNumber: smartCardNumber,
+        phone: phone,
+        amount: selectedPackage!.amount,
+        ...(biometric ? { biometric } : { pin }),
+      }, idempotencyKey);
 
       console.log('📊 Purchase response:', response);
 
@@ -674,6 +533,11 @@ export default function BuyCableTV() {
         // Clear form
         await AsyncStorage.removeItem('cableTvFormState');
 
+        if (isPendingPurchase(response)) {
+          Alert.alert('Purchase Processing', `${response.message} ${PENDING_PURCHASE_NOTE}`);
+          return;
+        }
+
         // Prepare success data
         const operatorName = operators.find(op => op.id === selectedOperator)?.label || selectedOperator?.toUpperCase();
         setSuccessData({
@@ -704,9 +568,10 @@ export default function BuyCableTV() {
     } catch (error) {
       console.error('💥 Cable TV payment error:', error);
       
-      if (error.message.includes('locked') || error.message.includes('attempts')) {
+      if (isApiError(error) && error.code === 'PIN_LOCKED') {
         setPinError(error.message);
-      } else if (error.message.includes('PIN')) {
+        checkPinStatus();
+      } else if (error.message.includes('attempts') || error.message.includes('PIN')) {
         setPinError(error.message);
       } else {
         Alert.alert('Payment Error', error.message || 'Unable to process payment. Please try again.');
@@ -1226,7 +1091,7 @@ export default function BuyCableTV() {
                   (!isPinValid || isValidatingPin || isProcessingPayment) && styles.proceedDisabled
                 ]}
                 disabled={!isPinValid || isValidatingPin || isProcessingPayment}
-                onPress={validatePinAndPurchase}
+                onPress={() => validatePinAndPurchase()}
               >
                 {isValidatingPin || isProcessingPayment ? (
                   <View style={styles.loadingRow}>
@@ -1241,6 +1106,12 @@ export default function BuyCableTV() {
                   </Text>
                 )}
               </TouchableOpacity>
+
+              <BiometricConfirmButton
+                amount={selectedPackage?.amount ?? 0}
+                disabled={isValidatingPin || isProcessingPayment}
+                onAuthorized={(biometric) => validatePinAndPurchase(biometric)}
+              />
             </>
           )}
 
@@ -0,0 +1,124 @@
+import React, { useState } from "react";
+import { View, Text, TextInput, TouchableOpacity, StyleSheet, SafeAreaView, ActivityIndicator } from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+import { useRouter } from "expo-router";
+import { api, isApiError } from "@/services/ApiService";
+
+const isFourDigits = (value: string) => /^\d{4}$/.test(value);
+
+export default function ChangePin() {
+  const router = useRouter();
+
+  const [currentPin, setCurrentPin] = useState("");
+  const [newPin, setNewPin] = useState("");
+  const [confirmPin, setConfirmPin] = useState("");
+  const [loading, setLoading] = useState(false);
+  const [message, setMessage] = useState("");
+  const [isError, setIsError] = useState(true);
+  const [isLocked, setIsLocked] = useState(false);
+
+  const handleChangePin = async () => {
+    setMessage("");
+
+    if (!isFourDigits(currentPin) || !isFourDigits(newPin)) {
+      setIsError(true);
+      setMessage("PINs must be exactly 4 digits");
+      return;
+    }
+    if (newPin !== confirmPin) {
+      setIsError(true);
+      setMessage("New PINs do not match");
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const response = await api.changePin({ currentPin, newPin, confirmPin });
+      setIsError(false);
+      setIsLocked(false);
+      setMessage(response.message || "Transaction PIN changed successfully");
+      setCurrentPin("");
+      setNewPin("");
+      setConfirmPin("");
+    } catch (error) {
+      setIsError(true);
+      setIsLocked(isApiError(error) && error.code === "PIN_LOCKED");
+      setMessage(error instanceof Error ? error.message : "Failed to change PIN");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()}>
+          <Ionicons name="arrow-back-outline" size={24} color="#ff2b2b" />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Change Transaction PIN</Text>
+        <View style={{ width: 24 }} />
+      </View>
+
+      <View style={styles.form}>
+        <TextInput
+          style={styles.input}
+          placeholder="Current PIN"
+          secureTextEntry
+          keyboardType="number-pad"
+          maxLength={4}
+          value={currentPin}
+          onChangeText={(text) => setCurrentPin(text.replace(/\D/g, ""))}
+        />
+        <TextInput
+          style={styles.input}
+          placeholder="New PIN"
+          secureTextEntry
+          keyboardType="number-pad"
+          maxLength={4}
+          value={newPin}
+          onChangeText={(text) => setNewPin(text.replace(/\D/g, ""))}
+        />
+        <TextInput
+          style={styles.input}
+          placeholder="Confirm New PIN"
+          secureTextEntry
+          keyboardType="number-pad"
+          maxLength={4}
+          value={confirmPin}
+          onChangeText={(text) => setConfirmPin(text.replace(/\D/g, ""))}
+        />
+
+        {message ? (
+          <Text style={[styles.messageText, { color: isError ? "red" : "green" }]}>{message}</Text>
+        ) : null}
+
+        <TouchableOpacity style={styles.saveButton} onPress={handleChangePin} disabled={loading}>
+          {loading ? (
+            <ActivityIndicator color="#fff" />
+          ) : (
+            <Text style={styles.saveButtonText}>Update PIN</Text>
+          )}
+        </TouchableOpacity>
+
+        <TouchableOpacity style={styles.linkButton} onPress={() => router.push("/forgot-pin")}>
+          <Text style={styles.linkText}>
+            {isLocked ? "PIN locked? Reset it with your password" : "Forgot your PIN?"}
+          </Text>
+        </TouchableOpacity>
+      </View>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: { flex: 1, backgroundColor: "#fafafa" },
+  header: { flexDirection: "row", justifyContent: "space-between", alignItems: "center", padding: 20, backgroundColor: "#fff" },
+  headerTitle: { fontSize: 20, fontWeight: "bold" },
+  form: { padding: 20 },
+  input: { borderWidth: 1, borderColor: "#ddd", borderRadius: 8, padding: 12, marginBottom: 15 },
+  saveButton: { backgroundColor: "#ff2b2b", padding: 15, borderRadius: 8, alignItems: "center" },
+  saveButtonText: { color: "#fff", fontWeight: "600" },
+  messageText: { marginBottom: 10, fontWeight: "500" },
+  linkButton: { alignItems: "center", marginTop: 20 },
+  linkText: { color: "#ff2b2b", fontWeight: "600" },
+});
@@ -25,7 +25,7 @@ const API_CONFIG = {
   ENDPOINTS: {
     PROFILE: '/auth/profile',  // ✅ FIXED: Changed from '/user/profile' to '/auth/profile'
     BALANCE: '/balance',       
-    TRANSACTIONS: '/transactions', 
+    TRANSACTIONS: '/transactions?limit=5',
   }
 };
 // ✅ NEW: TypeScript interfaces for better type safety
@@ -37,10 +37,14 @@ interface User {
   dateJoined?: string;
 }
 
+// Rows from GET /api/transactions (see HistoryTransaction in types/api)
 interface Transaction {
-  type: string;
+  reference: string;
+  direction: 'credit' | 'debit';
   amount: number;
-  date: string;
+  status: string;
+  service: { label: string };
+  createdAt: string;
 }
 
 interface MenuItemType {
@@ -82,6 +86,8 @@ export default function Dashboard() {
     { name: 'Cable TV', icon: 'tv-outline', route: '/cable-tv' },
     { name: 'Internet', icon: 'globe-outline', route: '/internet' },
     { name: 'Transfer', icon: 'send-outline', route: '/transfer' },
+    { name: 'Withdraw', icon: 'cash-outline', route: '/withdraw' },
+    { name: 'Transactions', icon: 'receipt-outline', route: '/transactions' },
     { name: 'Settings', icon: 'settings-outline', route: '/settings' },
     { name: 'Logout', icon: 'log-out-outline' },
   ];
@@ -467,6 +473,13 @@ export default function Dashboard() {
             <Ionicons name="send-outline" size={20} color="#ff2b2b" />
             <Text style={styles.actionText}>Transfer</Text>
           </TouchableOpacity>
+          <TouchableOpacity
+            style={styles.actionButton}
+            onPress={() => handleQuickAction('/withdraw')}
+          >
+            <Ionicons name="cash-outline" size={20} color="#ff2b2b" />
+            <Text style={styles.actionText}>Withdraw</Text>
+          </TouchableOpacity>
         </View>
 <View style={styles.needHelpContainer}>
           <TouchableOpacity
@@ -479,20 +492,29 @@ export default function Dashboard() {
         </View>
 
         <View style={styles.transactionsContainer}>
-          <Text style={styles.transactionsTitle}>Recent Transactions</Text>
+          <View style={styles.transactionsHeader}>
+            <Text style={styles.transactionsTitle}>Recent Transactions</Text>
+            <TouchableOpacity onPress={() => router.push('/transactions')}>
+              <Text style={styles.seeAllText}>See all</Text>
+            </TouchableOpacity>
+          </View>
           {transactions.length === 0 ? (
             <Text style={styles.noTransactions}>
               {isLoading ? 'Loading transactions...' : 'No recent transactions'}
             </Text>
           ) : (
             transactions.map((tx, index) => (
-              <View key={index} style={styles.transactionItem}>
-                <Text style={styles.transactionText}>{tx.type}</Text>
+              <TouchableOpacity
+                key={tx.reference || index}
+                style={styles.transactionItem}
+                onPress={() => router.push({ pathname: '/transaction-details', params: { reference: tx.reference } })}
+              >
+                <Text style={styles.transactionText}>{tx.service.label}</Text>
                 <Text style={styles.transactionAmount}>
-                  ₦{tx.amount.toLocaleString()}
+                  {tx.direction === 'credit' ? '+' : '-'}₦{tx.amount.toLocaleString()}
                 </Text>
-                <Text style={styles.transactionDate}>{tx.date}</Text>
-              </View>
+                <Text style={styles.transactionDate}>{new Date(tx.createdAt).toLocaleDateString()}</Text>
+              </TouchableOpacity>
             ))
           )}
         </View>
@@ -755,7 +777,9 @@ const styles = StyleSheet.create({
   },
   actionText: { color: '#333', marginTop: 8, fontWeight: '500', fontSize: 12, textAlign: 'center' },
   transactionsContainer: { marginTop: 20 },
+  transactionsHeader: { flexDirection: 'row', justifyContent: 'space-between', alignItems: 'baseline' },
   transactionsTitle: { fontSize: 20, fontWeight: 'bold', color: '#333', marginBottom: 10 },
+  seeAllText: { color: '#ff2b2b', fontWeight: '600' },
   transactionItem: {
     flexDirection: 'row',
     justifyContent: 'space-between',
@@ -0,0 +1,223 @@
+import React, { useCallback, useContext, useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  StyleSheet,
+  SafeAreaView,
+  ScrollView,
+  ActivityIndicator,
+  Alert,
+  RefreshControl,
+  Switch,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useRouter } from 'expo-router';
+import { api } from '@/services/ApiService';
+import { AuthContext } from '../contexts/AuthContext';
+import type { TrustedDevice } from '@/types/api';
+
+const formatDateTime = (value: string) =>
+  new Date(value).toLocaleString('en-NG', { day: 'numeric', month: 'short', year: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+const deviceDetails = (device: TrustedDevice) =>
+  [
+    device.isCurrent ? 'Active now' : `Last login ${formatDateTime(device.lastLoginAt)}`,
+    device.appVersion ? `App ${device.appVersion}` : null,
+    device.lastIpAddress ? `IP ${device.lastIpAddress}` : null,
+  ]
+    .filter(Boolean)
+    .join(' • ');
+
+// Every device signed in to the account, with login codes for new devices
+export default function DevicesScreen() {
+  const router = useRouter();
+  const { saveDeviceToken } = useContext(AuthContext);
+
+  const [devices, setDevices] = useState<TrustedDevice[]>([]);
+  const [requireOtp, setRequireOtp] = useState(false);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isRefreshing, setIsRefreshing] = useState(false);
+  const [isUpdating, setIsUpdating] = useState(false);
+  const [revokingId, setRevokingId] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    try {
+      const response = await api.getDevices();
+      setDevices(response.devices);
+      setRequireOtp(response.settings.requireLoginOtpOnNewDevice);
+    } catch (error) {
+      console.error('Error loading devices:', error);
+    } finally {
+      setIsLoading(false);
+      setIsRefreshing(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const handleToggle = async (value: boolean) => {
+    setIsUpdating(true);
+    try {
+      const response = await api.updateDeviceSettings({ requireLoginOtpOnNewDevice: value });
+      await saveDeviceToken(response.deviceToken);
+      setRequireOtp(response.settings.requireLoginOtpOnNewDevice);
+    } catch (error) {
+      Alert.alert('Error', error instanceof Error ? error.message : 'Unable to update login settings');
+    } finally {
+      setIsUpdating(false);
+    }
+  };
+
+  const handleRevoke = (device: TrustedDevice) => {
+    Alert.alert(
+      'Remove Device?',
+      `${device.deviceName || 'This device'} will be signed out. Signing in on it again will count as a new device.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Remove',
+          style: 'destructive',
+          onPress: async () => {
+            setRevokingId(device.id);
+            try {
+              await api.revokeDevice(device.id);
+              await load();
+            } catch (error) {
+              Alert.alert('Error', error instanceof Error ? error.message : 'Unable to remove device');
+            } finally {
+              setRevokingId(null);
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => (router.canGoBack() ? router.back() : router.replace('/profile'))}>
+          <Ionicons name="arrow-back-outline" size={24} color="#ff2b2b" />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Devices</Text>
+        <View style={{ width: 24 }} />
+      </View>
+
+      {isLoading ? (
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color="#ff2b2b" />
+        </View>
+      ) : (
+        <ScrollView
+          contentContainerStyle={styles.scrollContent}
+          refreshControl={
+            <RefreshControl
+              refreshing={isRefreshing}
+              onRefresh={() => {
+                setIsRefreshing(true);
+                load();
+              }}
+              colors={['#ff2b2b']}
+            />
+          }
+        >
+          <View style={styles.card}>
+            <View style={styles.row}>
+              <Ionicons name="key-outline" size={22} color="#ff2b2b" />
+              <View style={styles.rowText}>
+                <Text style={styles.rowTitle}>Require a code on new devices</Text>
+                <Text style={styles.rowSubtitle}>
+                  Signing in on a device you haven&apos;t used before needs a code sent to your phone or email
+                </Text>
+              </View>
+              {isUpdating ? (
+                <ActivityIndicator color="#ff2b2b" />
+              ) : (
+                <Switch
+                  value={requireOtp}
+                  onValueChange={handleToggle}
+                  trackColor={{ false: '#ccc', true: '#28a745' }}
+                  thumbColor="#fff"
+                />
+              )}
+            </View>
+          </View>
+
+          <Text style={styles.sectionTitle}>Signed-in devices</Text>
+          <View style={styles.card}>
+            {devices.length === 0 ? (
+              <Text style={styles.emptyText}>No devices yet.</Text>
+            ) : (
+              devices.map((device, index) => (
+                <View key={device.id} style={[styles.deviceRow, index > 0 && styles.deviceDivider]}>
+                  <Ionicons
+                    name={device.platform === 'web' ? 'desktop-outline' : 'phone-portrait-outline'}
+                    size={20}
+                    color="#666"
+                  />
+                  <View style={styles.rowText}>
+                    <View style={styles.titleRow}>
+                      <Text style={styles.rowTitle}>{device.deviceName || 'Unknown device'}</Text>
+                      {device.isCurrent && (
+                        <View style={styles.currentBadge}>
+                          <Text style={styles.currentBadgeText}>This device</Text>
+                        </View>
+                      )}
+                    </View>
+                    <Text style={styles.rowSubtitle}>{deviceDetails(device)}</Text>
+                    {!device.isSignedIn && !device.isCurrent && <Text style={styles.rowSubtitle}>Signed out</Text>}
+                  </View>
+                  {device.isCurrent ? null : revokingId === device.id ? (
+                    <ActivityIndicator color="#ff2b2b" />
+                  ) : (
+                    <TouchableOpacity onPress={() => handleRevoke(device)}>
+                      <Text style={styles.removeText}>Remove</Text>
+                    </TouchableOpacity>
+                  )}
+                </View>
+              ))
+            )}
+          </View>
+          <Text style={styles.note}>
+            We email you whenever a new device signs in. If you don&apos;t recognise a device, remove it and change your
+            password.
+          </Text>
+        </ScrollView>
+      )}
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: { flex: 1, backgroundColor: '#fafafa' },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    backgroundColor: '#fff',
+    borderBottomWidth: 1,
+    borderBottomColor: '#eee',
+  },
+  headerTitle: { fontSize: 18, fontWeight: '700', color: '#1a1a1a' },
+  loadingContainer: { flex: 1, justifyContent: 'center', alignItems: 'center' },
+  scrollContent: { padding: 20 },
+  card: { backgroundColor: '#fff', borderRadius: 12, padding: 16, borderWidth: 1, borderColor: '#eee' },
+  row: { flexDirection: 'row', alignItems: 'center', gap: 12 },
+  rowText: { flex: 1 },
+  titleRow: { flexDirection: 'row', alignItems: 'center', flexWrap: 'wrap', gap: 6 },
+  rowTitle: { fontSize: 15, fontWeight: '600', color: '#1a1a1a' },
+  rowSubtitle: { fontSize: 12, color: '#666', marginTop: 2 },
+  currentBadge: { backgroundColor: '#e8f5e9', borderRadius: 8, paddingHorizontal: 8, paddingVertical: 2 },
+  currentBadgeText: { fontSize: 11, fontWeight: '600', color: '#28a745' },
+  sectionTitle: { fontSize: 14, fontWeight: '700', color: '#666', marginTop: 24, marginBottom: 8, textTransform: 'uppercase' },
+  emptyText: { fontSize: 14, color: '#999', textAlign: 'center' },
+  deviceRow: { flexDirection: 'row', alignItems: 'center', gap: 12, paddingVertical: 10 },
+  deviceDivider: { borderTopWidth: 1, borderTopColor: '#f0f0f0' },
+  removeText: { color: '#ff2b2b', fontWeight: '600', fontSize: 14 },
+  note: { fontSize: 12, color: '#999', marginTop: 12, lineHeight: 18 },
+});
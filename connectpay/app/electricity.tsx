@@ -17,11 +17,15 @@ import {
   Dimensions,
   Linking,
   Animated,
-  Share,
   Image,
 } from 'react-native';
 import * as Contacts from 'expo-contacts';
 import AsyncStorage from '@react-native-async-storage/async-storage';
+import { api, isApiError, isPendingPurchase, PENDING_PURCHASE_NOTE } from '@/services/ApiService';
+import { useIdempotencyKey } from '@/hooks/useIdempotencyKey';
+import BiometricConfirmButton from './BiometricConfirmButton';
+import type { BiometricAuthorization, ElectricityPurchaseRequest } from '@/types/api';
+import ReceiptActions from './ReceiptActions';
 import * as Network from 'expo-network';
 import NetInfo from '@react-native-community/netinfo';
 import * as Haptics from 'expo-haptics';
@@ -46,9 +50,6 @@ const setupBackHandler = () => {
   return () => backHandler.remove(); // cleanup
 };
 
-// API Configuration
-const API_BASE_URL = 'http://localhost:5000/api';
-
 // Device dimensions
 const { width: screenWidth, height: screenHeight } = Dimensions.get('window');
 
@@ -118,6 +119,7 @@ interface TransactionData {
   customerName: string;
   token?: string;
   units?: string;
+  tariffClass?: string;
   responseMessage: string;
   createdAt: string;
 }
@@ -176,9 +178,8 @@ const ElectricitySuccessModal: React.FC<ElectricitySuccessModalProps> = ({
     }
   }, [visible, fadeAnim, scaleAnim]);
 
-  const shareReceipt = async () => {
-    try {
-      const receiptText = `⚡ Electricity Bill Payment Receipt
+  // Shared as text when the server has no receipt for this purchase
+  const buildReceiptText = () => `⚡ Electricity Bill Payment Receipt
 
 🏢 Service Provider: ${providerName}
 ⚡ Meter Type: ${meterType}
@@ -187,6 +188,10 @@ const ElectricitySuccessModal: React.FC<ElectricitySuccessModalProps> = ({
 ${customerAddress ? `🏠 Address: ${customerAddress}` : ''}
 📱 Phone: ${phone}
 
+${transaction.token ? `🔑 Token: ${transaction.token}` : ''}
+${transaction.units ? `🔋 Units: ${transaction.units} kWh` : ''}
+${transaction.tariffClass ? `🏷️ Tariff: ${transaction.tariffClass}` : ''}
+
 💰 Payment Amount: ₦${amount.toLocaleString()}
 💳 Service Fee: ₦${transaction.fee.toLocaleString()}
 💵 Total Charged: ₦${(amount + transaction.fee).toLocaleString()}
@@ -199,16 +204,6 @@ ${newBalance ? `💼 Updated Balance: ₦${newBalance.total.toLocaleString()}` :
 
 Powered by Your App 🚀`;
 
-      await Share.share({
-        message: receiptText,
-        title: 'Electricity Bill Payment Receipt',
-      });
-    } catch (error) {
-      console.error('Error sharing receipt:', error);
-      Alert.alert('Error', 'Unable to share receipt');
-    }
-  };
-
   if (!visible) return null;
 
   return (
@@ -248,6 +243,27 @@ Powered by Your App 🚀`;
           <Text style={styles.subtitle}>{providerName} Payment Completed</Text>
 
           <View style={styles.detailsContainer}>
+            {transaction.token && (
+              <View style={styles.detailRow}>
+                <Text style={styles.detailLabel}>Token:</Text>
+                <Text style={[styles.detailValue, styles.balanceValue]} selectable>{transaction.token}</Text>
+              </View>
+            )}
+
+            {transaction.units && (
+              <View style={styles.detailRow}>
+                <Text style={styles.detailLabel}>Units:</Text>
+                <Text style={styles.detailValue}>{transaction.units} kWh</Text>
+              </View>
+            )}
+
+            {transaction.tariffClass && (
+              <View style={styles.detailRow}>
+                <Text style={styles.detailLabel}>Tariff:</Text>
+                <Text style={styles.detailValue}>{transaction.tariffClass}</Text>
+              </View>
+            )}
+
             <View style={styles.detailRow}>
               <Text style={styles.detailLabel}>Meter Type:</Text>
               <Text style={styles.detailValue}>{meterType}</Text>
@@ -321,12 +337,11 @@ Powered by Your App 🚀`;
 
           {/* Buttons */}
           <View style={styles.buttonContainer}>
-            <TouchableOpacity 
-              style={[styles.button, styles.shareButton]} 
-              onPress={shareReceipt}
-            >
-              <Text style={styles.shareText}>📤 Share Receipt</Text>
-            </TouchableOpacity>
+            <ReceiptActions
+              reference={transaction.reference}
+              fallbackText={buildReceiptText()}
+              title="Electricity Bill Payment Receipt"
+            />
 
             <TouchableOpacity 
               style={[styles.button, styles.buyMoreButton]} 
@@ -352,6 +367,7 @@ Powered by Your App 🚀`;
 const BuyElectricity: React.FC<{ navigation?: any }> = ({ navigation }) => {
   // State Management
   const [currentStep, setCurrentStep] = useState<1 | 2 | 3>(1);
+  const idempotencyKey = useIdempotencyKey(currentStep === 3);
   const [selectedProvider, setSelectedProvider] = useState<string | null>(null);
   const [selectedMeterType, setSelectedMeterType] = useState<string | null>(null);
   const [meterNumber, setMeterNumber] = useState('');
@@ -550,114 +566,27 @@ const BuyElectricity: React.FC<{ navigation?: any }> = ({ navigation }) => {
     }
   };
 
-  // Auth and API Functions
-  const getAuthToken = async (): Promise<string> => {
-    try {
-      const possibleKeys = [
-        'userToken', 'authToken', 'token', 'accessToken',
-        'jwt', 'jwtToken', 'bearerToken', 'access_token',
-        'auth_token', 'user_token'
-      ];
-
-      for (const key of possibleKeys) {
-        const token = await AsyncStorage.getItem(key);
-        if (token && token.trim() && token !== 'null' && token !== 'undefined') {
-          const trimmedToken = token.trim();
-          if (trimmedToken.length > 10) {
-            return trimmedToken;
-          }
-        }
-      }
-
-      throw new Error('No authentication token found');
-    } catch (error) {
-      setAuthError('Authentication required - please login again');
-      throw new Error('Failed to retrieve authentication token');
-    }
-  };
-
-  const makeApiRequest = async (endpoint: string, options: any = {}): Promise<any> => {
-    // Check network connectivity
+  // Requests fail fast while offline instead of waiting for the fetch timeout
+  const ensureConnected = () => {
     if (!networkState.isConnected) {
       throw new Error('No internet connection available');
     }
+  };
 
-    let token: string;
-    try {
-      token = await getAuthToken();
-      setAuthError(null);
-    } catch (authError) {
-      setAuthError('Please login again to continue');
-      throw authError;
-    }
-
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), 30000);
-
-    try {
-      const requestOptions = {
-        ...options,
-        headers: {
-          'Authorization': `Bearer ${token}`,
-          'Content-Type': 'application/json',
-          'Accept': 'application/json',
-          'X-App-Version': '1.0.0',
-          'X-Platform': Platform.OS,
-          ...options.headers,
-        },
-        signal: controller.signal,
-      };
-
-      const response = await fetch(`${API_BASE_URL}${endpoint}`, requestOptions);
-
-      clearTimeout(timeoutId);
-
-      let data;
-      const responseText = await response.text();
-
-      if (responseText) {
-        try {
-          data = JSON.parse(responseText);
-        } catch (parseError) {
-          throw new Error(`Invalid response format from server. Status: ${response.status}`);
-        }
-      } else {
-        data = {};
-      }
-
-      if (!response.ok) {
-        if (response.status === 401) {
-          setAuthError('Session expired - please login again');
-          throw new Error('Session expired');
-        } else if (response.status === 403) {
-          throw new Error('Access denied. Please contact support.');
-        } else if (response.status === 429) {
-          throw new Error('Too many requests. Please wait a moment and try again.');
-        } else if (response.status >= 500) {
-          throw new Error('Server error. Please try again later.');
-        }
-
-        const errorMessage = data?.message || data?.error || `Request failed with status ${response.status}`;
-        throw new Error(errorMessage);
-      }
-
-      return data;
-    } catch (error) {
-      clearTimeout(timeoutId);
-
-      if (error.name === 'AbortError') {
-        throw new Error('Request timeout. Please check your connection and try again.');
-      }
-
-      throw error;
+  const handleSessionError = (error: unknown): boolean => {
+    if (isApiError(error) && error.code === 'UNAUTHORIZED') {
+      setAuthError(error.message);
+      return true;
     }
+    return false;
   };
 
   // Data Fetching Functions
   const fetchElectricityProviders = async () => {
     setIsLoadingProviders(true);
     try {
-      const response = await makeApiRequest('/electricity/providers');
+      ensureConnected();
+      const response = await api.getElectricityProviders();
 
       if (response.success && Array.isArray(response.data)) {
         setElectricityProviders(response.data);
@@ -699,12 +628,10 @@ const BuyElectricity: React.FC<{ navigation?: any }> = ({ navigation }) => {
 
     setIsLoadingBalance(true);
     try {
-      const balanceData = await makeApiRequest('/balance');
+      const balanceData = await api.getBalance();
 
       if (balanceData?.success) {
-        const balanceAmount = parseFloat(balanceData.balance?.amount) || 
-                             parseFloat(balanceData.balance?.totalBalance) || 
-                             parseFloat(balanceData.balance?.mainBalance) || 0;
+        const balanceAmount = Number(balanceData.balance?.amount) || 0;
         
         const balance: UserBalance = {
           main: balanceAmount,
@@ -720,6 +647,7 @@ const BuyElectricity: React.FC<{ navigation?: any }> = ({ navigation }) => {
       }
     } catch (error) {
       console.error('Balance fetch error:', error);
+      handleSessionError(error);
       // Try to load cached balance
       try {
         const cachedBalance = await AsyncStorage.getItem('userBalance');
@@ -736,15 +664,16 @@ const BuyElectricity: React.FC<{ navigation?: any }> = ({ navigation }) => {
 
   const checkPinStatus = async () => {
     try {
-      const response = await makeApiRequest('/purchase/pin-status');
+      ensureConnected();
+      const response = await api.getPinStatus();
 
       if (response?.success) {
         setPinStatus({
-          isPinSet: response.data?.isPinSet || false,
-          hasPinSet: response.data?.hasPinSet || false,
-          isLocked: response.data?.isLocked || false,
-          lockTimeRemaining: response.data?.lockTimeRemaining || 0,
-          attemptsRemaining: response.data?.attemptsRemaining || 3,
+          isPinSet: response.isPinSet || false,
+          hasPinSet: response.hasPinSet || false,
+          isLocked: response.isLocked || false,
+          lockTimeRemaining: response.lockTimeRemaining || 0,
+          attemptsRemaining: response.attemptsRemaining ?? 3,
         });
       }
     } catch (error) {
@@ -774,13 +703,11 @@ const BuyElectricity: React.FC<{ navigation?: any }> = ({ navigation }) => {
     setCustomerAccountNumber('');
 
     try {
-      const response = await makeApiRequest('/electricity/validate-meter', {
-        method: 'POST',
-        body: JSON.stringify({ 
-          meterNumber, 
-          provider: selectedProvider,
-          meterType: selectedMeterType
-        }),
+      ensureConnected();
+      const response = await api.validateMeter({
+        meterNumber,
+        provider: selectedProvider,
+        meterType: selectedMeterType
       });
 
       if (response?.success) {
@@ -799,8 +726,7 @@ const BuyElectricity: React.FC<{ navigation?: any }> = ({ navigation }) => {
       }
     } catch (error) {
       console.error('Meter validation error:', error);
-      if (error.message.includes('Session expired') || error.message.includes('Authentication')) {
-        setAuthError(error.message);
+      if (handleSessionError(error)) {
         return;
       }
       setMeterError(error.message || 'Unable to validate meter. Please check your details and try again.');
@@ -823,59 +749,50 @@ const BuyElectricity: React.FC<{ navigation?: any }> = ({ navigation }) => {
     setPinError('');
 
     try {
-      const response = await makeApiRequest('/purchase/validate-pin', {
-        method: 'POST',
-        body: JSON.stringify({ pin }),
-      });
+      ensureConnected();
+      const response = await api.validatePin(pin);
 
       if (response?.success) {
         await processPayment();
       } else {
         setPinError(response?.message || 'Invalid PIN. Please try again.');
-
-        // Update PIN status based on response
-        if (response?.data?.attemptsRemaining !== undefined) {
-          setPinStatus(prev => prev ? {
-            ...prev,
-            attemptsRemaining: response.data.attemptsRemaining,
-            isLocked: response.data.isLocked || false,
-            lockTimeRemaining: response.data.lockTimeRemaining || 0,
-          } : null);
-        }
       }
-    } catch (error) {
+    } catch (error: any) {
       console.error('PIN validation error:', error);
 
-      if (error.message.includes('Session expired') || error.message.includes('Authentication')) {
-        setAuthError(error.message);
+      if (handleSessionError(error)) {
         return;
       }
 
       setPinError(error.message || 'PIN validation failed. Please try again.');
+
+      // Attempts remaining / lock state changed on the server
+      if (isApiError(error) && (error.code === 'PIN_LOCKED' || error.code === 'VALIDATION')) {
+        checkPinStatus();
+      }
     } finally {
       setIsValidatingPin(false);
     }
   };
 
-  const processPayment = async () => {
+  const processPayment = async (biometric?: BiometricAuthorization) => {
     setIsProcessingPayment(true);
 
     try {
-      const purchasePayload = {
+      const purchasePayload: ElectricityPurchaseRequest = {
         type: 'electricity',
-        provider: selectedProvider,
-        meterType: selectedMeterType,
+        provider: selectedProvider!,
+        meterType: selectedMeterType!,
         meterNumber: meterNumber,
         amount: amountNum,
         phone: phone,
-        pin: pin,
+        ...(biometric ? { biometric } : { pin }),
         customerName: customerName,
+        customerAddress: customerAddress,
       };
 
-      const purchaseResult = await makeApiRequest('/purchase', {
-        method: 'POST',
-        body: JSON.stringify(purchasePayload),
-      });
+      ensureConnected();
+      const purchaseResult = await api.purchase(purchasePayload, idempotencyKey);
 
       if (purchaseResult?.success) {
         // Save transaction to recent numbers
@@ -883,7 +800,7 @@ const BuyElectricity: React.FC<{ navigation?: any }> = ({ navigation }) => {
 
         // Update balance locally
         if (userBalance) {
-          const deductedAmount = amountNum + (purchaseResult.data?.fee || 0);
+          const deductedAmount = amountNum + (Number(purchaseResult.transaction?.fee) || 0);
           const newBalance: UserBalance = {
             main: Math.max(0, (userBalance.main || userBalance.amount || 0) - deductedAmount),
             bonus: 0,
@@ -899,7 +816,7 @@ const BuyElectricity: React.FC<{ navigation?: any }> = ({ navigation }) => {
         }
 
         // Set transaction result
-        setTransactionResult(purchaseResult.data);
+        setTransactionResult(purchaseResult.transaction as unknown as TransactionData);
         setSelectedProviderName(
           electricityProviders.find(p => p.id === selectedProvider)?.name || 
           selectedProvider?.toUpperCase() || 'Unknown Provider'
@@ -908,6 +825,11 @@ const BuyElectricity: React.FC<{ navigation?: any }> = ({ navigation }) => {
         // Clear form state
         await AsyncStorage.removeItem('electricityFormState');
 
+        if (isPendingPurchase(purchaseResult)) {
+          Alert.alert('Purchase Processing', `${purchaseResult.message} ${PENDING_PURCHASE_NOTE}`);
+          return;
+        }
+
         // Success feedback
         if (Platform.OS === 'ios') {
           Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
@@ -923,8 +845,7 @@ const BuyElectricity: React.FC<{ navigation?: any }> = ({ navigation }) => {
     } catch (error) {
       console.error('Payment processing error:', error);
 
-      if (error.message.includes('Session expired') || error.message.includes('Authentication')) {
-        setAuthError(error.message);
+      if (handleSessionError(error)) {
         return;
       }
 
@@ -1860,6 +1781,12 @@ const BuyElectricity: React.FC<{ navigation?: any }> = ({ navigation }) => {
                   </Text>
                 )}
               </TouchableOpacity>
+
+              <BiometricConfirmButton
+                amount={amountNum}
+                disabled={isValidatingPin || isProcessingPayment}
+                onAuthorized={(biometric) => processPayment(biometric)}
+              />
             </>
           )}
 
@@ -0,0 +1,178 @@
+import React, { useState } from "react";
+import { View, Text, TextInput, TouchableOpacity, StyleSheet, SafeAreaView, ActivityIndicator, Alert } from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+import { useRouter } from "expo-router";
+import { api } from "@/services/ApiService";
+
+const OTP_LENGTH = 6;
+
+// Two steps: confirm the account password (which emails a code), then enter
+// the code together with the new PIN.
+export default function ForgotPin() {
+  const router = useRouter();
+
+  const [step, setStep] = useState<"password" | "reset">("password");
+  const [password, setPassword] = useState("");
+  const [otp, setOtp] = useState("");
+  const [newPin, setNewPin] = useState("");
+  const [confirmPin, setConfirmPin] = useState("");
+  const [loading, setLoading] = useState(false);
+  const [message, setMessage] = useState("");
+  const [isError, setIsError] = useState(true);
+
+  const showError = (text: string) => {
+    setIsError(true);
+    setMessage(text);
+  };
+
+  const handleRequestCode = async () => {
+    setMessage("");
+    if (!password) {
+      showError("Enter your account password");
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const response = await api.requestPinReset(password);
+      setPassword("");
+      setStep("reset");
+      setIsError(false);
+      setMessage(`${response.message} It expires in ${response.expiresInMinutes} minutes.`);
+    } catch (error) {
+      showError(error instanceof Error ? error.message : "Unable to send reset code");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleResetPin = async () => {
+    setMessage("");
+    if (!new RegExp(`^\\d{${OTP_LENGTH}}$`).test(otp)) {
+      showError(`Enter the ${OTP_LENGTH}-digit code from your email`);
+      return;
+    }
+    if (!/^\d{4}$/.test(newPin)) {
+      showError("PIN must be exactly 4 digits");
+      return;
+    }
+    if (newPin !== confirmPin) {
+      showError("PINs do not match");
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const response = await api.resetPin({ otp, newPin, confirmPin });
+      Alert.alert("PIN Reset", response.message || "Your transaction PIN has been reset.", [
+        { text: "OK", onPress: () => router.back() },
+      ]);
+    } catch (error) {
+      showError(error instanceof Error ? error.message : "Failed to reset PIN");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()}>
+          <Ionicons name="arrow-back-outline" size={24} color="#ff2b2b" />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Reset Transaction PIN</Text>
+        <View style={{ width: 24 }} />
+      </View>
+
+      <View style={styles.form}>
+        {step === "password" ? (
+          <>
+            <Text style={styles.helpText}>
+              Confirm your account password and we&apos;ll email you a code to set a new PIN.
+            </Text>
+            <TextInput
+              style={styles.input}
+              placeholder="Account Password"
+              secureTextEntry
+              autoCapitalize="none"
+              value={password}
+              onChangeText={setPassword}
+            />
+          </>
+        ) : (
+          <>
+            <TextInput
+              style={styles.input}
+              placeholder="Reset Code"
+              keyboardType="number-pad"
+              maxLength={OTP_LENGTH}
+              value={otp}
+              onChangeText={(text) => setOtp(text.replace(/\D/g, ""))}
+            />
+            <TextInput
+              style={styles.input}
+              placeholder="New PIN"
+              secureTextEntry
+              keyboardType="number-pad"
+              maxLength={4}
+              value={newPin}
+              onChangeText={(text) => setNewPin(text.replace(/\D/g, ""))}
+            />
+            <TextInput
+              style={styles.input}
+              placeholder="Confirm New PIN"
+              secureTextEntry
+              keyboardType="number-pad"
+              maxLength={4}
+              value={confirmPin}
+              onChangeText={(text) => setConfirmPin(text.replace(/\D/g, ""))}
+            />
+          </>
+        )}
+
+        {message ? (
+          <Text style={[styles.messageText, { color: isError ? "red" : "green" }]}>{message}</Text>
+        ) : null}
+
+        <TouchableOpacity
+          style={styles.saveButton}
+          onPress={step === "password" ? handleRequestCode : handleResetPin}
+          disabled={loading}
+        >
+          {loading ? (
+            <ActivityIndicator color="#fff" />
+          ) : (
+            <Text style={styles.saveButtonText}>{step === "password" ? "Send Code" : "Reset PIN"}</Text>
+          )}
+        </TouchableOpacity>
+
+        {step === "reset" ? (
+          <TouchableOpacity
+            style={styles.linkButton}
+            onPress={() => {
+              setStep("password");
+              setMessage("");
+            }}
+            disabled={loading}
+          >
+            <Text style={styles.linkText}>Didn&apos;t get a code? Send again</Text>
+          </TouchableOpacity>
+        ) : null}
+      </View>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: { flex: 1, backgroundColor: "#fafafa" },
+  header: { flexDirection: "row", justifyContent: "space-between", alignItems: "center", padding: 20, backgroundColor: "#fff" },
+  headerTitle: { fontSize: 20, fontWeight: "bold" },
+  form: { padding: 20 },
+  helpText: { color: "#666", marginBottom: 15, lineHeight: 20 },
+  input: { borderWidth: 1, borderColor: "#ddd", borderRadius: 8, padding: 12, marginBottom: 15 },
+  saveButton: { backgroundColor: "#ff2b2b", padding: 15, borderRadius: 8, alignItems: "center" },
+  saveButtonText: { color: "#fff", fontWeight: "600" },
+  messageText: { marginBottom: 10, fontWeight: "500" },
+  linkButton: { alignItems: "center", marginTop: 20 },
+  linkText: { color: "#ff2b2b", fontWeight: "600" },
+});
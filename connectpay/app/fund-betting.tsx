@@ -17,9 +17,10 @@ import {
 } from 'react-native';
 import * as Contacts from 'expo-contacts';
 import AsyncStorage from '@react-native-async-storage/async-storage';
-
-// Your Replit API base URL
-const API_BASE_URL = 'http://localhost:5000/api';
+import { api, isApiError, isPendingPurchase, PENDING_PURCHASE_NOTE } from '@/services/ApiService';
+import { useIdempotencyKey } from '@/hooks/useIdempotencyKey';
+import BiometricConfirmButton from './BiometricConfirmButton';
+import type { BiometricAuthorization } from '@/types/api';
 
 interface Contact {
   id: string;
@@ -38,7 +39,8 @@ interface UserBalance {
   main: number;
   bonus: number;
   total: number;
-  lastUpdated: number;
+  // ISO timestamp, as sent by /balance
+  lastUpdated: string;
 }
 
 interface PinStatus {
@@ -51,6 +53,7 @@ interface PinStatus {
 
 export default function FundBetting() {
   const [currentStep, setCurrentStep] = useState<1 | 2 | 3>(1);
+  const idempotencyKey = useIdempotencyKey(currentStep === 3);
   const [selectedProvider, setSelectedProvider] = useState<string | null>(null);
   const [customerId, setCustomerId] = useState('');
   const [customerName, setCustomerName] = useState('');
@@ -88,20 +91,6 @@ export default function FundBetting() {
     loadRecentBetting();
     loadFormState();
 
-    // Debug function to check stored tokens
-    const debugTokenStorage = async () => {
-      console.log('DEBUG: Checking token storage...');
-      const tokenKeys = ['userToken', 'authToken', 'token', 'access_token'];
-
-      for (const key of tokenKeys) {
-        const value = await AsyncStorage.getItem(key);
-        console.log(`${key}:`, value ? `"${value}"` : 'null');
-      }
-    };
-
-    // Call debug function
-    debugTokenStorage();
-
     // Add delay to ensure auth is ready
     setTimeout(() => {
       fetchUserBalance();
@@ -130,124 +119,11 @@ export default function FundBetting() {
     saveFormState();
   }, [customerId, customerName, amount, selectedProvider]);
 
-  // ---------- API Helper Functions ----------
-  const getAuthToken = async () => {
-    try {
-      const tokenKeys = ['userToken', 'authToken', 'token', 'access_token'];
-
-      for (const key of tokenKeys) {
-        const token = await AsyncStorage.getItem(key);
-        console.log(`Checking storage key "${key}":`, token ? `Found (${token.length} chars)` : 'Not found');
-
-        if (token && token.trim() !== '' && token !== 'undefined' && token !== 'null') {
-          const cleanToken = token.trim();
-          const tokenParts = cleanToken.split('.');
-          if (tokenParts.length === 3) {
-            console.log(`Found valid JWT token with key: ${key}`);
-            return cleanToken;
-          }
-        }
-      }
-
-      console.log('No valid JWT token found in any storage key');
-      throw new Error('No authentication token found');
-    } catch (error) {
-      console.error('Error getting auth token:', error);
-      throw new Error('Authentication required');
-    }
-  };
-
-  const makeApiRequest = async (endpoint, options = {}) => {
-    console.log(`API Request: ${endpoint}`);
-    
-    try {
-      const token = await getAuthToken();
-      console.log('Token obtained for API request');
-
-      const requestConfig = {
-        method: 'GET',
-        ...options,
-        headers: {
-          'Authorization': `Bearer ${token}`,
-          'Content-Type': 'application/json',
-          'Accept': 'application/json',
-          ...options.headers,
-        },
-      };
-
-      const fullUrl = `${API_BASE_URL}${endpoint}`;
-      console.log('Request URL:', fullUrl);
-
-      const response = await fetch(fullUrl, requestConfig);
-      console.log('Response status:', response.status, response.ok ? 'OK' : 'ERROR');
-
-      let responseText = '';
-      try {
-        responseText = await response.text();
-      } catch (textError) {
-        console.error('Failed to read response text:', textError);
-        throw new Error('Unable to read server response');
-      }
-
-      let data = {};
-      if (responseText.trim()) {
-        try {
-          data = JSON.parse(responseText);
-          console.log('JSON parsed, success:', data.success);
-        } catch (parseError) {
-          console.error('JSON parse error:', parseError);
-          throw new Error(`Invalid JSON response from server. Status: ${response.status}`);
-        }
-      }
-
-      if (response.status === 401) {
-        console.error('401 Unauthorized - clearing tokens');
-        const tokenKeys = ['userToken', 'authToken', 'token', 'access_token'];
-        for (const key of tokenKeys) {
-          await AsyncStorage.removeItem(key);
-        }
-        throw new Error('Session expired. Please login again.');
-      }
-
-      if (!response.ok) {
-        const errorMessage = data?.message || data?.error || `HTTP ${response.status}: ${response.statusText}`;
-        console.error(`API Error:`, errorMessage);
-        
-        if (endpoint === '/purchase' && data && typeof data === 'object') {
-          const error = new Error(errorMessage);
-          (error as any).responseData = data;
-          (error as any).httpStatus = response.status;
-          throw error;
-        }
-        
-        throw new Error(errorMessage);
-      }
-
-      console.log('API request successful');
-      return data;
-
-    } catch (error) {
-      console.error(`API Error for ${endpoint}:`, error.message);
-
-      if (error.name === 'TypeError' && error.message.includes('Network request failed')) {
-        throw new Error('Network connection failed. Please check your internet connection.');
-      }
-
-      if (error.message.includes('Authentication') || 
-          error.message.includes('Session expired') ||
-          error.responseData) {
-        throw error;
-      }
-
-      throw new Error(error.message || 'Request failed');
-    }
-  };
-
   // ---------- PIN Functions ----------
   const checkPinStatus = async () => {
     try {
       console.log('Checking PIN status...');
-      const response = await makeApiRequest('/purchase/pin-status');
+      const response = await api.getPinStatus();
       console.log('PIN status response:', JSON.stringify(response, null, 2));
       
       if (response.success) {
@@ -264,10 +140,10 @@ export default function FundBetting() {
     setIsLoadingBalance(true);
     try {
       console.log("Fetching balance from /balance");
-      const balanceData = await makeApiRequest("/balance");
+      const balanceData = await api.getBalance();
 
       if (balanceData.success && balanceData.balance) {
-        const balanceAmount = parseFloat(balanceData.balance.amount) || 0;
+        const balanceAmount = Number(balanceData.balance.amount) || 0;
         
         const realBalance = {
           main: balanceAmount,
@@ -430,10 +306,10 @@ export default function FundBetting() {
     setAmount(quickAmount.toString());
   };
 
-  const validatePinAndPurchase = async () => {
+  const validatePinAndPurchase = async (biometric?: BiometricAuthorization) => {
     console.log('=== BETTING PAYMENT START ===');
     
-    if (!isPinValid) {
+    if (!biometric && !isPinValid) {
       console.log('PIN invalid:', pin);
       setPinError('PIN must be exactly 4 digits');
       return;
@@ -454,17 +330,14 @@ export default function FundBetting() {
         pinProvided: !!pin
       });
 
-      const response = await makeApiRequest('/purchase', {
-        method: 'POST',
-        body: JSON.stringify({
-          type: 'fund_betting',
-          provider: selectedProvider,
-          customerId: customerId,
-          customerName: customerName,
-          amount: amountNum,
-          pin: pin,
-        }),
-      });
+      const response = await api.purchase({
+        type: 'fund_betting',
+        provider: selectedProvider!,
+        customerId: customerId,
+        customerName: customerName,
+        amount: amountNum,
+        ...(biometric ? { biometric } : { pin }),
+      }, idempotencyKey);
 
       console.log('Betting fund response:', response);
 
@@ -497,6 +370,11 @@ export default function FundBetting() {
         // Clear form
         await AsyncStorage.removeItem('bettingFormState');
 
+        if (isPendingPurchase(response)) {
+          Alert.alert('Purchase Processing', `${response.message} ${PENDING_PURCHASE_NOTE}`);
+          return;
+        }
+
         // Prepare success data
         const providerName = providers.find(p => p.id === selectedProvider)?.label || selectedProvider?.toUpperCase();
         setSuccessData({
@@ -525,9 +403,10 @@ export default function FundBetting() {
     } catch (error) {
       console.error('Betting fund error:', error);
       
-      if (error.message.includes('locked') || error.message.includes('attempts')) {
+      if (isApiError(error) && error.code === 'PIN_LOCKED') {
         setPinError(error.message);
-      } else if (error.message.includes('PIN')) {
+        checkPinStatus();
+      } else if (error.message.includes('attempts') || error.message.includes('PIN')) {
         setPinError(error.message);
       } else {
         Alert.alert('Payment Error', error.message || 'Unable to process payment. Please try again.');
@@ -996,7 +875,7 @@ export default function FundBetting() {
                   (!isPinValid || isValidatingPin || isProcessingPayment) && styles.proceedDisabled
                 ]}
                 disabled={!isPinValid || isValidatingPin || isProcessingPayment}
-                onPress={validatePinAndPurchase}
+                onPress={() => validatePinAndPurchase()}
               >
                 {isValidatingPin || isProcessingPayment ? (
                   <View style={styles.loadingRow}>
@@ -1011,6 +890,12 @@ export default function FundBetting() {
                   </Text>
                 )}
               </TouchableOpacity>
+
+              <BiometricConfirmButton
+                amount={amountNum}
+                disabled={isValidatingPin || isProcessingPayment}
+                onAuthorized={(biometric) => validatePinAndPurchase(biometric)}
+              />
             </>
           )}
 
@@ -3,6 +3,10 @@ import {
   View, Text, TextInput, TouchableOpacity, StyleSheet, ActivityIndicator, ScrollView, Alert 
 } from 'react-native';
 import Ionicons from '@expo/vector-icons/Ionicons';
+import { api } from '@/services/ApiService';
+import { useIdempotencyKey } from '@/hooks/useIdempotencyKey';
+import CardCheckoutModal from './CardCheckoutModal';
+import type { CardPayment } from '@/types/api';
 
 // ✅ IMPROVED: Better TypeScript interfaces
 type PaymentMethod = 'palmpay' | 'wema' | 'sterling' | 'manual' | 'card';
@@ -11,14 +15,15 @@ interface BankData {
   bankName: string;
   accountName: string;
   accountNumber: string;
-  reference?: string;
 }
 
-interface CardInfo {
-  cardNumber: string;
-  expiry: string;
-  cvv: string;
-}
+// Methods backed by a reserved virtual account; transfers to it are credited
+// by the server when the bank's webhook arrives
+const VIRTUAL_ACCOUNT_METHODS = ['palmpay', 'wema', 'sterling'] as const;
+type VirtualAccountMethod = typeof VIRTUAL_ACCOUNT_METHODS[number];
+
+const isVirtualAccountMethod = (method: PaymentMethod): method is VirtualAccountMethod =>
+  (VIRTUAL_ACCOUNT_METHODS as readonly string[]).includes(method);
 
 interface FundWalletProps {
   onClose?: () => void;
@@ -27,17 +32,6 @@ interface FundWalletProps {
   currentBalance?: number;
 }
 
-// ✅ NEW: API Configuration - centralized and easily configurable
-const API_CONFIG = {
-  BASE_URL: 'https://your-backend.com/api', // Replace with actual API URL
-  ENDPOINTS: {
-    PAYMENT_METHODS: '/payment-methods',
-    CREATE_ACCOUNT: '/create-account',
-    PAY_CARD: '/pay-card',
-    FUND_WALLET: '/fund-wallet'
-  }
-};
-
 // ✅ NEW: Payment method configurations
 const PAYMENT_METHODS = [
   { id: 'palmpay', label: 'PALMPAY', icon: 'card-outline' },
@@ -50,7 +44,6 @@ const PAYMENT_METHODS = [
 const FundWallet: React.FC<FundWalletProps> = ({ 
   onClose, 
   onSuccess, 
-  token, 
   currentBalance = 0 
 }) => {
   // ✅ IMPROVED: Better state management with proper typing
@@ -59,7 +52,8 @@ const FundWallet: React.FC<FundWalletProps> = ({
   const [loading, setLoading] = useState(false);
   const [fetchingPaymentInfo, setFetchingPaymentInfo] = useState(false);
   const [bankData, setBankData] = useState<BankData | null>(null);
-  const [cardInfo, setCardInfo] = useState<CardInfo>({ cardNumber: '', expiry: '', cvv: '' });
+  const [checkout, setCheckout] = useState<CardPayment | null>(null);
+  const [verifyingCard, setVerifyingCard] = useState(false);
   const [error, setError] = useState('');
   const [success, setSuccess] = useState('');
 
@@ -69,106 +63,36 @@ const FundWallet: React.FC<FundWalletProps> = ({
     return value.trim() !== '' && !isNaN(numericAmount) && numericAmount > 0 && numericAmount <= 1000000;
   };
 
-  const validateCardNumber = (cardNumber: string): boolean => {
-    const cleaned = cardNumber.replace(/\s/g, '');
-    return /^\d{13,19}$/.test(cleaned);
-  };
-
-  const validateExpiry = (expiry: string): boolean => {
-    const regex = /^(0[1-9]|1[0-2])\/\d{2}$/;
-    if (!regex.test(expiry)) return false;
-
-    const [month, year] = expiry.split('/');
-    const currentYear = new Date().getFullYear() % 100;
-    const currentMonth = new Date().getMonth() + 1;
-    const expYear = parseInt(year);
-    const expMonth = parseInt(month);
-
-    if (expYear < currentYear) return false;
-    if (expYear === currentYear && expMonth < currentMonth) return false;
-
-    return true;
-  };
-
-  const validateCVV = (cvv: string): boolean => {
-    return /^\d{3,4}$/.test(cvv);
-  };
-
-  // ✅ IMPROVED: Better API error handling
-  const makeAPICall = async (url: string, options: RequestInit) => {
-    try {
-      const response = await fetch(url, {
-        ...options,
-        headers: {
-          'Content-Type': 'application/json',
-          ...(token && { Authorization: `Bearer ${token}` }),
-          ...options.headers,
-        },
-      });
-
-      if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`);
-      }
+  // A double tap on the same amount starts one checkout, not two
+  const cardPaymentKey = useIdempotencyKey(paymentMethod === 'card' && validateAmount(amount) && !checkout);
 
-      const data = await response.json();
-      return data;
-    } catch (error) {
-      console.error('API call failed:', error);
-      throw error;
-    }
-  };
-
-  // ✅ IMPROVED: Fetch dynamic payment method info with better error handling
+  // Load (reserving on first use) the user's account at the selected bank
   useEffect(() => {
-    const fetchPaymentMethodInfo = async () => {
-      if (!['wema', 'sterling', 'palmpay'].includes(paymentMethod)) {
+    const fetchVirtualAccount = async () => {
+      if (!isVirtualAccountMethod(paymentMethod)) {
         setBankData(null);
         return;
       }
 
       setFetchingPaymentInfo(true);
       try {
-        const data = await makeAPICall(`${API_CONFIG.BASE_URL}${API_CONFIG.ENDPOINTS.PAYMENT_METHODS}`, {
-          method: 'GET',
+        const { account } = await api.getVirtualAccount(paymentMethod);
+        setBankData({
+          bankName: account.bankName,
+          accountName: account.accountName,
+          accountNumber: account.accountNumber,
         });
-
-        const methodInfo = data.find((m: any) => m.method === paymentMethod);
-        if (methodInfo) {
-          setBankData({
-            bankName: methodInfo.bankName,
-            accountName: methodInfo.accountName,
-            accountNumber: methodInfo.accountNumber,
-            reference: methodInfo.reference,
-          });
-        } else {
-          setBankData(null);
-        }
-      } catch (error) {
-        console.log('Error fetching payment methods:', error);
+      } catch (error: any) {
+        console.log('Error fetching virtual account:', error);
         setBankData(null);
+        setError(error?.message || 'Unable to load your funding account. Please try again.');
       } finally {
         setFetchingPaymentInfo(false);
       }
     };
 
-    fetchPaymentMethodInfo();
-  }, [paymentMethod, token]);
-
-  // ✅ NEW: Format card number with spaces for better UX
-  const formatCardNumber = (text: string): string => {
-    const cleaned = text.replace(/\s/g, '');
-    const match = cleaned.match(/.{1,4}/g);
-    return match ? match.join(' ').substr(0, 19) : cleaned;
-  };
-
-  // ✅ NEW: Format expiry date
-  const formatExpiry = (text: string): string => {
-    const cleaned = text.replace(/\D/g, '');
-    if (cleaned.length >= 2) {
-      return cleaned.substring(0, 2) + '/' + cleaned.substring(2, 4);
-    }
-    return cleaned;
-  };
+    fetchVirtualAccount();
+  }, [paymentMethod]);
 
   // ✅ IMPROVED: Enhanced validation and error handling
   const handleFundWallet = async () => {
@@ -184,84 +108,16 @@ const FundWallet: React.FC<FundWalletProps> = ({
       return;
     }
 
-    // Validate card info if card payment
-    if (paymentMethod === 'card') {
-      if (!validateCardNumber(cardInfo.cardNumber)) {
-        setError('Please enter a valid card number');
-        return;
-      }
-      if (!validateExpiry(cardInfo.expiry)) {
-        setError('Please enter a valid expiry date (MM/YY)');
-        return;
-      }
-      if (!validateCVV(cardInfo.cvv)) {
-        setError('Please enter a valid CVV (3-4 digits)');
-        return;
-      }
-    }
-
     setLoading(true);
 
     try {
-      if (['wema', 'sterling', 'palmpay'].includes(paymentMethod)) {
-        // ✅ IMPROVED: Create virtual account with better data handling
-        const response = await makeAPICall(`${API_CONFIG.BASE_URL}${API_CONFIG.ENDPOINTS.CREATE_ACCOUNT}`, {
-          method: 'POST',
-          body: JSON.stringify({
-            bank: paymentMethod.toUpperCase(),
-            amount: numericAmount,
-            customer_email: 'user@example.com', // ✅ TODO: Replace with real user email from props/context
-            customer_name: 'John Doe',          // ✅ TODO: Replace with real user name from props/context
-          }),
-        });
-
-        if (response.status === 'success' || response.success) {
-          const accountData = {
-            bankName: response.data.bank_name || `${paymentMethod.toUpperCase()} Bank`,
-            accountName: response.data.account_name,
-            accountNumber: response.data.account_number,
-            reference: response.data.reference,
-          };
-
-          setBankData(accountData);
-          setSuccess(`Virtual account created! Transfer ₦${numericAmount.toLocaleString()} to account: ${response.data.account_number}`);
-
-          // ✅ NEW: Auto-close after successful account creation (optional)
-          setTimeout(() => {
-            if (onSuccess) onSuccess();
-          }, 3000);
-
+      if (paymentMethod === 'card') {
+        // Card details are entered on the gateway's hosted page, not here
+        const { payment } = await api.initializeCardPayment(numericAmount, cardPaymentKey);
+        if (payment.status === 'pending' && payment.authorizationUrl) {
+          setCheckout(payment);
         } else {
-          setError(response.message || 'Failed to create virtual account. Please try again.');
-        }
-
-      } else if (paymentMethod === 'card') {
-        // ✅ IMPROVED: Process card payment with better validation
-        const [expiry_month, expiry_year] = cardInfo.expiry.split('/');
-        const cleanedCardNumber = cardInfo.cardNumber.replace(/\s/g, '');
-
-        const response = await makeAPICall(`${API_CONFIG.BASE_URL}${API_CONFIG.ENDPOINTS.PAY_CARD}`, {
-          method: 'POST',
-          body: JSON.stringify({
-            amount: numericAmount,
-            card_number: cleanedCardNumber,
-            cvv: cardInfo.cvv,
-            expiry_month,
-            expiry_year: `20${expiry_year}`, // Convert YY to YYYY
-            email: 'user@example.com', // ✅ TODO: Replace with real user email
-          }),
-        });
-
-        if (response.status === 'success' || response.success) {
-          setSuccess(`Wallet funded successfully with ₦${numericAmount.toLocaleString()}! Card ending in ${cleanedCardNumber.slice(-4)}`);
-
-          // ✅ NEW: Show success and auto-close
-          setTimeout(() => {
-            if (onSuccess) onSuccess();
-          }, 2000);
-
-        } else {
-          setError(response.message || 'Card payment failed. Please check your card details and try again.');
+          await confirmCardPayment(payment.reference);
         }
 
       } else if (paymentMethod === 'manual') {
@@ -278,17 +134,55 @@ const FundWallet: React.FC<FundWalletProps> = ({
 
     } catch (error: any) {
       console.error('Fund wallet error:', error);
-      setError('Network error occurred. Please check your connection and try again.');
+      setError(error?.message || 'Network error occurred. Please check your connection and try again.');
     } finally {
       setLoading(false);
-      // ✅ IMPROVED: Clear form only on success
-      if (!error) {
+    }
+  };
+
+  // The wallet is only credited once the server has verified the charge with
+  // the gateway, whatever the checkout page showed
+  const confirmCardPayment = async (
+    reference: string,
+    pendingMessage = 'Payment submitted. Your wallet will be credited as soon as your bank confirms it.'
+  ) => {
+    setVerifyingCard(true);
+    try {
+      const { payment, message } = await api.verifyCardPayment(reference);
+
+      if (payment.status === 'success') {
+        const last4 = payment.card?.last4 ? ` Card ending in ${payment.card.last4}` : '';
+        setSuccess(`Wallet funded successfully with ₦${payment.amount.toLocaleString()}!${last4}`);
         setAmount('');
-        setCardInfo({ cardNumber: '', expiry: '', cvv: '' });
+        setTimeout(() => {
+          if (onSuccess) onSuccess();
+        }, 2000);
+      } else if (payment.status === 'failed') {
+        setError(payment.failureReason || message || 'Card payment failed. Please try again.');
+      } else {
+        setSuccess(pendingMessage);
       }
+    } catch (error: any) {
+      console.error('Card payment verify error:', error);
+      setError(error?.message || 'Unable to confirm your payment. Pull to refresh your balance shortly.');
+    } finally {
+      setVerifyingCard(false);
     }
   };
 
+  const handleCheckoutFinished = () => {
+    const reference = checkout?.reference;
+    setCheckout(null);
+    if (reference) confirmCardPayment(reference);
+  };
+
+  // Closing the page early may still leave a completed charge behind, so check
+  const handleCheckoutCancelled = () => {
+    const reference = checkout?.reference;
+    setCheckout(null);
+    if (reference) confirmCardPayment(reference, 'Card payment was not completed.');
+  };
+
   // ✅ NEW: Quick amount buttons for better UX
   const quickAmounts = [500, 1000, 2000, 5000, 10000];
 
@@ -378,7 +272,7 @@ const FundWallet: React.FC<FundWalletProps> = ({
       </View>
 
       {/* ✅ IMPROVED: Bank account display with loading state */}
-      {['wema', 'sterling', 'palmpay'].includes(paymentMethod) && (
+      {isVirtualAccountMethod(paymentMethod) && (
         <View style={styles.bankCard}>
           {fetchingPaymentInfo ? (
             <View style={styles.bankCardLoading}>
@@ -391,11 +285,8 @@ const FundWallet: React.FC<FundWalletProps> = ({
               <Text style={styles.bankCardText}>Bank: {bankData.bankName}</Text>
               <Text style={styles.bankCardText}>Account Name: {bankData.accountName}</Text>
               <Text style={styles.bankCardText}>Account Number: {bankData.accountNumber}</Text>
-              {bankData.reference && (
-                <Text style={styles.bankCardText}>Reference: {bankData.reference}</Text>
-              )}
               <Text style={styles.bankCardNote}>
-                Transfer exactly ₦{amount ? Number(amount).toLocaleString() : '0'} to this account
+                This account is yours. Transfer any amount to it and your wallet is credited automatically.
               </Text>
             </>
           ) : (
@@ -404,72 +295,51 @@ const FundWallet: React.FC<FundWalletProps> = ({
         </View>
       )}
 
-      {/* ✅ IMPROVED: Card input with better formatting and validation */}
       {paymentMethod === 'card' && (
         <View style={styles.cardContainer}>
-          <Text style={styles.cardLabel}>Enter Card Details</Text>
-          <TextInput
-            style={[styles.input, error && error.includes('card') && styles.inputError]}
-            placeholder="1234 5678 9012 3456"
-            value={cardInfo.cardNumber}
-            keyboardType="numeric"
-            maxLength={19}
-            onChangeText={(text) => {
-              const formatted = formatCardNumber(text);
-              setCardInfo({...cardInfo, cardNumber: formatted});
-              setError('');
-            }}
-          />
-          <View style={styles.cardRow}>
-            <TextInput
-              style={[styles.inputHalf, error && error.includes('expiry') && styles.inputError]}
-              placeholder="MM/YY"
-              value={cardInfo.expiry}
-              keyboardType="numeric"
-              maxLength={5}
-              onChangeText={(text) => {
-                const formatted = formatExpiry(text);
-                setCardInfo({...cardInfo, expiry: formatted});
-                setError('');
-              }}
-            />
-            <TextInput
-              style={[styles.inputHalf, error && error.includes('CVV') && styles.inputError]}
-              placeholder="CVV"
-              value={cardInfo.cvv}
-              keyboardType="numeric"
-              maxLength={4}
-              secureTextEntry
-              onChangeText={(text) => {
-                const numericText = text.replace(/[^0-9]/g, '');
-                setCardInfo({...cardInfo, cvv: numericText});
-                setError('');
-              }}
-            />
-          </View>
+          <Text style={styles.cardLabel}>Pay with Debit Card</Text>
+          <Text style={styles.cardNote}>
+            You will enter your card details on a secure page hosted by our payment partner. ConnectPay never sees your card number or CVV.
+          </Text>
+          {verifyingCard && (
+            <View style={styles.verifyingRow}>
+              <ActivityIndicator color="#ff3b30" size="small" />
+              <Text style={styles.verifyingText}>Confirming your payment...</Text>
+            </View>
+          )}
         </View>
       )}
 
-      {/* ✅ IMPROVED: Fund button with better states */}
-      <TouchableOpacity 
-        style={[styles.fundButton, loading && styles.fundButtonLoading]} 
-        onPress={handleFundWallet} 
-        disabled={loading || !amount}
-      >
-        {loading ? (
-          <ActivityIndicator color="#fff" size="small" />
-        ) : (
-          <Ionicons name="add-circle-outline" size={20} color="#fff" />
-        )}
-        <Text style={styles.fundButtonText}>
-          {loading ? 'Processing...' : `Fund Wallet${amount ? ` (₦${Number(amount).toLocaleString()})` : ''}`}
-        </Text>
-      </TouchableOpacity>
+      {/* Reserved accounts need no button: the transfer itself funds the wallet */}
+      {!isVirtualAccountMethod(paymentMethod) && (
+        <TouchableOpacity 
+          style={[styles.fundButton, (loading || verifyingCard) && styles.fundButtonLoading]} 
+          onPress={handleFundWallet} 
+          disabled={loading || verifyingCard || !amount}
+        >
+          {loading ? (
+            <ActivityIndicator color="#fff" size="small" />
+          ) : (
+            <Ionicons name="add-circle-outline" size={20} color="#fff" />
+          )}
+          <Text style={styles.fundButtonText}>
+            {loading ? 'Processing...' : `Fund Wallet${amount ? ` (₦${Number(amount).toLocaleString()})` : ''}`}
+          </Text>
+        </TouchableOpacity>
+      )}
 
       {/* ✅ NEW: Help text */}
       <Text style={styles.helpText}>
         Your wallet will be credited automatically after successful payment verification.
       </Text>
+
+      <CardCheckoutModal
+        visible={!!checkout}
+        checkoutUrl={checkout?.authorizationUrl ?? null}
+        callbackUrl={checkout?.callbackUrl ?? null}
+        onFinished={handleCheckoutFinished}
+        onCancel={handleCheckoutCancelled}
+      />
     </ScrollView>
   );
 };
@@ -567,19 +437,6 @@ const styles = StyleSheet.create({
     borderColor: '#ff3b30',
     borderWidth: 2,
   },
-  inputHalf: {
-    flex: 1,
-    marginTop: 10,
-    marginBottom: 10,
-    marginHorizontal: 4,
-    borderWidth: 1, 
-    borderColor: '#ddd', 
-    borderRadius: 12, 
-    padding: 16, 
-    backgroundColor: '#fff', 
-    fontSize: 16, 
-    color: '#333'
-  },
   errorText: { 
     color: '#ff3b30', 
     marginTop: 5, 
@@ -684,9 +541,20 @@ const styles = StyleSheet.create({
     color: '#333',
     marginBottom: 10,
   },
-  cardRow: {
+  cardNote: {
+    fontSize: 14,
+    color: '#666',
+    lineHeight: 20,
+  },
+  verifyingRow: {
     flexDirection: 'row',
-    gap: 8,
+    alignItems: 'center',
+    marginTop: 12,
+  },
+  verifyingText: {
+    marginLeft: 8,
+    fontSize: 14,
+    color: '#333',
   },
   fundButton: { 
     flexDirection: 'row', 
@@ -17,9 +17,10 @@ import {
 } from 'react-native';
 import * as Contacts from 'expo-contacts';
 import AsyncStorage from '@react-native-async-storage/async-storage';
-
-// Your Replit API base URL
-const API_BASE_URL = 'http://localhost:5000/api';
+import { api, isApiError, isPendingPurchase, PENDING_PURCHASE_NOTE } from '@/services/ApiService';
+import { useIdempotencyKey } from '@/hooks/useIdempotencyKey';
+import BiometricConfirmButton from './BiometricConfirmButton';
+import type { BiometricAuthorization } from '@/types/api';
 
 interface Contact {
   id: string;
@@ -37,7 +38,8 @@ interface UserBalance {
   main: number;
   bonus: number;
   total: number;
-  lastUpdated: number;
+  // ISO timestamp, as sent by /balance
+  lastUpdated: string;
 }
 
 interface PinStatus {
@@ -67,6 +69,7 @@ interface InternetProvider {
 
 export default function BuyInternet() {
   const [currentStep, setCurrentStep] = useState<1 | 2 | 3>(1);
+  const idempotencyKey = useIdempotencyKey(currentStep === 3);
   const [selectedProvider, setSelectedProvider] = useState<string | null>(null);
   const [selectedPlan, setSelectedPlan] = useState<InternetPlan | null>(null);
   const [customerNumber, setCustomerNumber] = useState('');
@@ -131,18 +134,6 @@ export default function BuyInternet() {
     loadRecentNumbers();
     loadFormState();
 
-    const debugTokenStorage = async () => {
-      console.log('🐛 DEBUG: Checking token storage...');
-      const tokenKeys = ['userToken', 'authToken', 'token', 'access_token'];
-
-      for (const key of tokenKeys) {
-        const value = await AsyncStorage.getItem(key);
-        console.log(`🐛 ${key}:`, value ? `"${value}"` : 'null');
-      }
-    };
-
-    debugTokenStorage();
-
     setTimeout(() => {
       fetchUserBalance();
       checkPinStatus();
@@ -170,139 +161,11 @@ export default function BuyInternet() {
     saveFormState();
   }, [customerNumber, selectedProvider, selectedPlan]);
 
-  // ---------- API Helper Functions ----------
-  const getAuthToken = async () => {
-    try {
-      const tokenKeys = ['userToken', 'authToken', 'token', 'access_token'];
-
-      for (const key of tokenKeys) {
-        const token = await AsyncStorage.getItem(key);
-        console.log(`🔍 Checking storage key "${key}":`, token ? `Found (${token.length} chars)` : 'Not found');
-
-        if (token && token.trim() !== '' && token !== 'undefined' && token !== 'null') {
-          const cleanToken = token.trim();
-
-          const tokenParts = cleanToken.split('.');
-          if (tokenParts.length === 3) {
-            console.log(`✅ Found valid JWT token with key: ${key}`);
-            console.log(`🔑 Token preview: ${cleanToken.substring(0, 30)}...`);
-            return cleanToken;
-          } else {
-            console.log(`⚠️ Token from "${key}" is not a valid JWT format (${tokenParts.length} parts)`);
-          }
-        }
-      }
-
-      console.log('❌ No valid JWT token found in any storage key');
-      throw new Error('No authentication token found');
-    } catch (error) {
-      console.error('❌ Error getting auth token:', error);
-      throw new Error('Authentication required');
-    }
-  };
-
-  const makeApiRequest = async (endpoint, options = {}) => {
-    console.log(`🔵 API Request: ${endpoint}`);
-    
-    try {
-      const token = await getAuthToken();
-      console.log('🔑 Token obtained for API request');
-
-      const requestConfig = {
-        method: 'GET',
-        ...options,
-        headers: {
-          'Authorization': `Bearer ${token}`,
-          'Content-Type': 'application/json',
-          'Accept': 'application/json',
-          ...options.headers,
-        },
-      };
-
-      const fullUrl = `${API_BASE_URL}${endpoint}`;
-      console.log('🌐 Request URL:', fullUrl);
-      console.log('📤 Method:', requestConfig.method);
-
-      if (requestConfig.body) {
-        console.log('📄 Request has body, length:', requestConfig.body.length);
-      }
-
-      const response = await fetch(fullUrl, requestConfig);
-      console.log('📊 Response status:', response.status, response.ok ? '✅' : '❌');
-
-      let responseText = '';
-      try {
-        responseText = await response.text();
-      } catch (textError) {
-        console.error('❌ Failed to read response text:', textError);
-        throw new Error('Unable to read server response');
-      }
-
-      let data = {};
-      if (responseText.trim()) {
-        try {
-          data = JSON.parse(responseText);
-          console.log('✅ JSON parsed, success:', data.success);
-        } catch (parseError) {
-          console.error('❌ JSON parse error:', parseError);
-          console.log('📄 Raw response preview:', responseText.substring(0, 200));
-          throw new Error(`Invalid JSON response from server. Status: ${response.status}`);
-        }
-      } else {
-        console.log('⚠️ Empty response received');
-      }
-
-      if (response.status === 401) {
-        console.error('❌ 401 Unauthorized - clearing tokens');
-        const tokenKeys = ['userToken', 'authToken', 'token', 'access_token'];
-        for (const key of tokenKeys) {
-          await AsyncStorage.removeItem(key);
-        }
-        throw new Error('Session expired. Please login again.');
-      }
-
-      if (!response.ok) {
-        const errorMessage = data?.message || data?.error || `HTTP ${response.status}: ${response.statusText}`;
-        console.error(`❌ API Error:`, errorMessage);
-        
-        if (endpoint === '/purchase' && data && typeof data === 'object') {
-          const error = new Error(errorMessage);
-          (error as any).responseData = data;
-          (error as any).httpStatus = response.status;
-          throw error;
-        }
-        
-        throw new Error(errorMessage);
-      }
-
-      console.log('✅ API request successful');
-      return data;
-
-    } catch (error) {
-      console.error(`💥 API Error for ${endpoint}:`, error.message);
-
-      if (error.name === 'TypeError' && error.message.includes('Network request failed')) {
-        throw new Error('Network connection failed. Please check your internet connection.');
-      }
-
-      if (error.message.includes('Authentication') || 
-          error.message.includes('Session expired') ||
-          error.responseData) {
-        throw error;
-      }
-
-      throw new Error(error.message || 'Request failed');
-    }
-  };
-
   // ---------- PIN Functions ----------
   const checkPinStatus = async () => {
     try {
       console.log('🔄 Checking PIN status...');
-      const token = await getAuthToken();
-      console.log('🔑 Using token for PIN status:', token.substring(0, 30) + '...');
-      
-      const response = await makeApiRequest('/purchase/pin-status');
+      const response = await api.getPinStatus();
       console.log('✅ PIN status response:', JSON.stringify(response, null, 2));
       
       if (response.success) {
@@ -319,10 +182,10 @@ export default function BuyInternet() {
     setIsLoadingBalance(true);
     try {
       console.log("🔄 Fetching balance from /balance");
-      const balanceData = await makeApiRequest("/balance");
+      const balanceData = await api.getBalance();
 
       if (balanceData.success && balanceData.balance) {
-        const balanceAmount = parseFloat(balanceData.balance.amount) || 0;
+        const balanceAmount = Number(balanceData.balance.amount) || 0;
         
         const realBalance = {
           main: balanceAmount,
@@ -509,10 +372,10 @@ export default function BuyInternet() {
   };
 
   // ---------- Purchase Processing ----------
-  const validatePinAndPurchase = async () => {
+  const validatePinAndPurchase = async (biometric?: BiometricAuthorization) => {
     console.log('=== INTERNET PAYMENT START ===');
     
-    if (!isPinValid) {
+    if (!biometric && !isPinValid) {
       console.log('❌ PIN invalid:', pin);
       setPinError('PIN must be exactly 4 digits');
       return;
@@ -534,18 +397,16 @@ export default function BuyInternet() {
         pinProvided: !!pin
       });
 
-      const response = await makeApiRequest('/purchase', {
-        method: 'POST',
-        body: JSON.stringify({
-          type: 'internet',
-          provider: selectedProvider,
-          plan: selectedPlan?.name,
-          planType: 'monthly',
-          customerNumber: customerNumber,
-          amount: amount,
-          pin: pin,
-        }),
-      });
+      const response = await api.purchase({
+        type: 'internet',
+        provider: selectedProvider!,
+        planId: selectedPlan!.id,
+        plan: selectedPlan!.name,
+        planType: 'monthly',
+        customerNumber: customerNumber,
+        amount: amount,
+        ...(biometric ? { biometric } : { pin }),
+      }, idempotencyKey);
 
       console.log('📊 Internet purchase response:', response);
 
@@ -575,6 +436,11 @@ export default function BuyInternet() {
 
         await AsyncStorage.removeItem('internetFormState');
 
+        if (isPendingPurchase(response)) {
+          Alert.alert('Purchase Processing', `${response.message} ${PENDING_PURCHASE_NOTE}`);
+          return;
+        }
+
         const providerName = internetProviders.find(p => p.id === selectedProvider)?.label || selectedProvider?.toUpperCase();
         setSuccessData({
           transaction: response.transaction || {},
@@ -602,9 +468,10 @@ export default function BuyInternet() {
     } catch (error) {
       console.error('💥 Internet payment error:', error);
       
-      if (error.message.includes('locked') || error.message.includes('attempts')) {
+      if (isApiError(error) && error.code === 'PIN_LOCKED') {
         setPinError(error.message);
-      } else if (error.message.includes('PIN')) {
+        checkPinStatus();
+      } else if (error.message.includes('attempts') || error.message.includes('PIN')) {
         setPinError(error.message);
       } else {
         Alert.alert('Payment Error', error.message || 'Unable to process payment. Please try again.');
@@ -1074,7 +941,7 @@ export default function BuyInternet() {
                   (!isPinValid || isValidatingPin || isProcessingPayment) && styles.proceedDisabled
                 ]}
                 disabled={!isPinValid || isValidatingPin || isProcessingPayment}
-                onPress={validatePinAndPurchase}
+                onPress={() => validatePinAndPurchase()}
               >
                 {isValidatingPin || isProcessingPayment ? (
                   <View style={styles.loadingRow}>
@@ -1089,6 +956,12 @@ export default function BuyInternet() {
                   </Text>
                 )}
               </TouchableOpacity>
+
+              <BiometricConfirmButton
+                amount={amount}
+                disabled={isValidatingPin || isProcessingPayment}
+                onAuthorized={(biometric) => validatePinAndPurchase(biometric)}
+              />
             </>
           )}
 
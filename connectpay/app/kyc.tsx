@@ -0,0 +1,465 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  SafeAreaView,
+  ScrollView,
+  ActivityIndicator,
+  Alert,
+  Image,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useRouter } from 'expo-router';
+import * as ImagePicker from 'expo-image-picker';
+import { api, isApiError } from '@/services/ApiService';
+import type {
+  KycDocumentUpload,
+  KycIdType,
+  KycProofType,
+  KycStatus,
+  KycSubmissionResponse,
+  KycTierLimits,
+  KycTierStatus,
+} from '@/types/api';
+
+const ID_TYPES: { key: KycIdType; label: string }[] = [
+  { key: 'national_id', label: 'National ID' },
+  { key: 'drivers_license', label: "Driver's Licence" },
+  { key: 'voters_card', label: "Voter's Card" },
+  { key: 'passport', label: 'Passport' },
+];
+
+const PROOF_TYPES: { key: KycProofType; label: string }[] = [
+  { key: 'utility_bill', label: 'Utility Bill' },
+  { key: 'bank_statement', label: 'Bank Statement' },
+  { key: 'tenancy_agreement', label: 'Tenancy Agreement' },
+];
+
+const TIER_STATUS: Record<KycTierStatus, { label: string; color: string; icon: keyof typeof Ionicons.glyphMap }> = {
+  verified: { label: 'Verified', color: '#28a745', icon: 'checkmark-circle' },
+  pending_review: { label: 'Under Review', color: '#ff9500', icon: 'time-outline' },
+  available: { label: 'Available', color: '#ff2b2b', icon: 'arrow-up-circle-outline' },
+  locked: { label: 'Locked', color: '#999', icon: 'lock-closed-outline' },
+};
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// The server accepts photos up to 2MB
+const MAX_UPLOAD_BYTES = 2 * 1024 * 1024;
+
+type PickedImage = KycDocumentUpload & { uri: string };
+
+const formatNaira = (amount: number) => `₦${amount.toLocaleString()}`;
+
+// Account verification: current tier and limits, then the form for the next
+// tier. Tier 1 is BVN/NIN, tier 2 an ID photo and selfie, tier 3 proof of address.
+export default function KycScreen() {
+  const router = useRouter();
+
+  const [kyc, setKyc] = useState<KycStatus | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [loadError, setLoadError] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [formError, setFormError] = useState('');
+
+  // Tier 1
+  const [identityType, setIdentityType] = useState<'bvn' | 'nin'>('bvn');
+  const [identityNumber, setIdentityNumber] = useState('');
+  const [dateOfBirth, setDateOfBirth] = useState('');
+
+  // Tier 2
+  const [idType, setIdType] = useState<KycIdType>('national_id');
+  const [idNumber, setIdNumber] = useState('');
+  const [idExpiryDate, setIdExpiryDate] = useState('');
+  const [idFront, setIdFront] = useState<PickedImage | null>(null);
+  const [idBack, setIdBack] = useState<PickedImage | null>(null);
+  const [selfie, setSelfie] = useState<PickedImage | null>(null);
+
+  // Tier 3
+  const [street, setStreet] = useState('');
+  const [city, setCity] = useState('');
+  const [state, setState] = useState('');
+  const [proofType, setProofType] = useState<KycProofType>('utility_bill');
+  const [proof, setProof] = useState<PickedImage | null>(null);
+
+  const loadStatus = useCallback(async () => {
+    try {
+      const response = await api.getKycStatus();
+      setKyc(response.kyc);
+      setLoadError('');
+    } catch (error) {
+      setLoadError(isApiError(error) ? error.message : 'Unable to load your verification status');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadStatus();
+  }, [loadStatus]);
+
+  const pickImage = async (source: 'camera' | 'library', onPicked: (image: PickedImage) => void, selfieCamera = false) => {
+    const permission = source === 'camera'
+      ? await ImagePicker.requestCameraPermissionsAsync()
+      : await ImagePicker.requestMediaLibraryPermissionsAsync();
+    if (!permission.granted) {
+      Alert.alert('Permission Needed', `Allow ConnectPay to use your ${source === 'camera' ? 'camera' : 'photos'} to upload documents.`);
+      return;
+    }
+
+    const options: ImagePicker.ImagePickerOptions = {
+      mediaTypes: ['images'],
+      quality: 0.5,
+      base64: true,
+      cameraType: selfieCamera ? ImagePicker.CameraType.front : ImagePicker.CameraType.back,
+    };
+    const result = source === 'camera'
+      ? await ImagePicker.launchCameraAsync(options)
+      : await ImagePicker.launchImageLibraryAsync(options);
+    if (result.canceled || !result.assets[0]?.base64) return;
+
+    const asset = result.assets[0];
+    const base64 = asset.base64!;
+    if ((base64.length * 3) / 4 > MAX_UPLOAD_BYTES) {
+      Alert.alert('Photo Too Large', 'Please choose a photo smaller than 2MB.');
+      return;
+    }
+    onPicked({
+      uri: asset.uri,
+      data: base64,
+      contentType: base64.startsWith('iVBOR') ? 'image/png' : 'image/jpeg',
+    });
+  };
+
+  const choosePhoto = (onPicked: (image: PickedImage) => void) => {
+    Alert.alert('Add Photo', undefined, [
+      { text: 'Take Photo', onPress: () => pickImage('camera', onPicked) },
+      { text: 'Choose from Library', onPress: () => pickImage('library', onPicked) },
+      { text: 'Cancel', style: 'cancel' },
+    ]);
+  };
+
+  const submitTier = async (tier: number) => {
+    setFormError('');
+
+    let request: Promise<KycSubmissionResponse>;
+    if (tier === 1) {
+      if (!/^\d{11}$/.test(identityNumber)) return setFormError(`Enter your 11-digit ${identityType.toUpperCase()}`);
+      if (!DATE_PATTERN.test(dateOfBirth)) return setFormError('Enter your date of birth as YYYY-MM-DD');
+      request = api.submitKycTier(
+        1,
+        identityType === 'bvn' ? { bvn: identityNumber, dateOfBirth } : { nin: identityNumber, dateOfBirth }
+      );
+    } else if (tier === 2) {
+      if (idNumber.trim().length < 5) return setFormError('Enter the ID number as printed on the document');
+      if (idExpiryDate && !DATE_PATTERN.test(idExpiryDate)) return setFormError('Enter the expiry date as YYYY-MM-DD');
+      if (!idFront) return setFormError('Add a photo of the front of your ID');
+      if (!selfie) return setFormError('Take a selfie');
+      request = api.submitKycTier(2, {
+        idType,
+        idNumber: idNumber.trim(),
+        idExpiryDate: idExpiryDate || undefined,
+        idFront: { data: idFront.data, contentType: idFront.contentType },
+        idBack: idBack ? { data: idBack.data, contentType: idBack.contentType } : undefined,
+        selfie: { data: selfie.data, contentType: selfie.contentType },
+      });
+    } else {
+      if (street.trim().length < 5 || !city.trim() || !state.trim()) return setFormError('Enter your street address, city and state');
+      if (!proof) return setFormError('Add a photo of your proof of address');
+      request = api.submitKycTier(3, {
+        address: { street: street.trim(), city: city.trim(), state: state.trim() },
+        proofType,
+        proof: { data: proof.data, contentType: proof.contentType },
+      });
+    }
+
+    setIsSubmitting(true);
+    try {
+      const response = await request;
+      setKyc(response.kyc);
+      Alert.alert(response.kyc.kycLevel >= tier ? 'Verified' : 'Submitted', response.message || 'Thanks for verifying your account.');
+    } catch (error) {
+      setFormError(isApiError(error) ? error.message : 'Unable to submit your details. Please try again.');
+      // A rejected submission still reports the current KYC status
+      if (isApiError(error) && typeof error.data?.kyc === 'object' && error.data.kyc) setKyc(error.data.kyc as KycStatus);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const renderLimits = (limits: KycTierLimits, onBrand = false) => (
+    <View style={styles.limitsRow}>
+      {[
+        { label: 'per transaction', value: limits.perTransaction },
+        { label: 'per day', value: limits.daily },
+        { label: 'per month', value: limits.monthly },
+      ].map((item) => (
+        <View key={item.label} style={styles.limitItem}>
+          <Text style={[styles.limitValue, onBrand && styles.onBrandValue]}>{formatNaira(item.value)}</Text>
+          <Text style={[styles.limitLabel, onBrand && styles.onBrandLabel]}>{item.label}</Text>
+        </View>
+      ))}
+    </View>
+  );
+
+  const renderPhotoSlot = (label: string, image: PickedImage | null, onPress: () => void) => (
+    <TouchableOpacity style={styles.photoSlot} onPress={onPress}>
+      {image ? (
+        <Image source={{ uri: image.uri }} style={styles.photoPreview} />
+      ) : (
+        <Ionicons name="camera-outline" size={28} color="#ff2b2b" />
+      )}
+      <Text style={styles.photoLabel}>{image ? `${label} ✓` : label}</Text>
+    </TouchableOpacity>
+  );
+
+  const renderChips = <T extends string>(options: { key: T; label: string }[], selected: T, onSelect: (key: T) => void) => (
+    <View style={styles.chips}>
+      {options.map((option) => {
+        const isActive = option.key === selected;
+        return (
+          <TouchableOpacity
+            key={option.key}
+            style={[styles.chip, isActive && styles.chipActive]}
+            onPress={() => onSelect(option.key)}
+          >
+            <Text style={[styles.chipText, isActive && styles.chipTextActive]}>{option.label}</Text>
+          </TouchableOpacity>
+        );
+      })}
+    </View>
+  );
+
+  const renderForm = (tier: number) => {
+    if (tier === 1) {
+      return (
+        <>
+          {renderChips(
+            [{ key: 'bvn', label: 'BVN' }, { key: 'nin', label: 'NIN' }],
+            identityType,
+            setIdentityType
+          )}
+          <Text style={styles.label}>{identityType.toUpperCase()}</Text>
+          <TextInput
+            style={styles.input}
+            placeholder="11 digits"
+            keyboardType="number-pad"
+            maxLength={11}
+            value={identityNumber}
+            onChangeText={(text) => setIdentityNumber(text.replace(/[^\d]/g, ''))}
+          />
+          <Text style={styles.helpText}>
+            {identityType === 'bvn' ? 'Dial *565*0# on your registered line to get your BVN.' : 'Dial *346# to get your NIN.'}
+          </Text>
+          <Text style={styles.label}>Date of Birth</Text>
+          <TextInput
+            style={styles.input}
+            placeholder="YYYY-MM-DD"
+            keyboardType="numbers-and-punctuation"
+            maxLength={10}
+            value={dateOfBirth}
+            onChangeText={setDateOfBirth}
+          />
+        </>
+      );
+    }
+
+    if (tier === 2) {
+      return (
+        <>
+          <Text style={styles.label}>ID Type</Text>
+          {renderChips(ID_TYPES, idType, setIdType)}
+          <Text style={styles.label}>ID Number</Text>
+          <TextInput
+            style={styles.input}
+            placeholder="As printed on the document"
+            autoCapitalize="characters"
+            maxLength={20}
+            value={idNumber}
+            onChangeText={setIdNumber}
+          />
+          <Text style={styles.label}>Expiry Date (if any)</Text>
+          <TextInput
+            style={styles.input}
+            placeholder="YYYY-MM-DD"
+            keyboardType="numbers-and-punctuation"
+            maxLength={10}
+            value={idExpiryDate}
+            onChangeText={setIdExpiryDate}
+          />
+          <View style={styles.photoRow}>
+            {renderPhotoSlot('ID Front', idFront, () => choosePhoto(setIdFront))}
+            {renderPhotoSlot('ID Back', idBack, () => choosePhoto(setIdBack))}
+            {renderPhotoSlot('Selfie', selfie, () => pickImage('camera', setSelfie, true))}
+          </View>
+          <Text style={styles.helpText}>Take the selfie in good light, facing the camera, without glasses or a cap.</Text>
+        </>
+      );
+    }
+
+    return (
+      <>
+        <Text style={styles.label}>Street Address</Text>
+        <TextInput style={styles.input} placeholder="House number and street" value={street} onChangeText={setStreet} />
+        <View style={styles.twoColumns}>
+          <View style={styles.column}>
+            <Text style={styles.label}>City</Text>
+            <TextInput style={styles.input} value={city} onChangeText={setCity} />
+          </View>
+          <View style={styles.column}>
+            <Text style={styles.label}>State</Text>
+            <TextInput style={styles.input} value={state} onChangeText={setState} />
+          </View>
+        </View>
+        <Text style={styles.label}>Proof of Address</Text>
+        {renderChips(PROOF_TYPES, proofType, setProofType)}
+        <View style={styles.photoRow}>
+          {renderPhotoSlot('Document', proof, () => choosePhoto(setProof))}
+        </View>
+        <Text style={styles.helpText}>Must show your name and this address, dated within the last 3 months.</Text>
+      </>
+    );
+  };
+
+  const nextTier = kyc?.tiers.find((tier) => tier.status === 'available');
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()}>
+          <Ionicons name="arrow-back-outline" size={24} color="#ff2b2b" />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Account Verification</Text>
+        <View style={{ width: 24 }} />
+      </View>
+
+      {isLoading ? (
+        <ActivityIndicator style={styles.loader} color="#ff2b2b" size="large" />
+      ) : !kyc ? (
+        <View style={styles.empty}>
+          <Text style={styles.errorText}>{loadError}</Text>
+          <TouchableOpacity style={styles.secondaryButton} onPress={loadStatus}>
+            <Text style={styles.secondaryButtonText}>Try Again</Text>
+          </TouchableOpacity>
+        </View>
+      ) : (
+        <ScrollView contentContainerStyle={styles.content} keyboardShouldPersistTaps="handled">
+          <View style={styles.currentCard}>
+            <Text style={styles.currentLabel}>Current Level</Text>
+            <Text style={styles.currentTier}>{kyc.kycLevel === 0 ? 'Unverified' : `Tier ${kyc.kycLevel}`}</Text>
+            {renderLimits(kyc.limits, true)}
+          </View>
+
+          {kyc.pendingSubmission ? (
+            <View style={[styles.banner, styles.pendingBanner]}>
+              <Ionicons name="time-outline" size={20} color="#ff9500" />
+              <Text style={styles.bannerText}>
+                Your Tier {kyc.pendingSubmission.tier} details are being reviewed. We will email you once they are checked.
+              </Text>
+            </View>
+          ) : null}
+
+          {kyc.lastRejection ? (
+            <View style={[styles.banner, styles.rejectedBanner]}>
+              <Ionicons name="alert-circle-outline" size={20} color="#ff2b2b" />
+              <Text style={styles.bannerText}>
+                Your last Tier {kyc.lastRejection.tier} submission was not approved
+                {kyc.lastRejection.reason ? `: ${kyc.lastRejection.reason}` : ''}. You can try again below.
+              </Text>
+            </View>
+          ) : null}
+
+          {kyc.tiers.map((tier) => {
+            const status = TIER_STATUS[tier.status];
+            const isNext = tier.level === nextTier?.level;
+
+            return (
+              <View key={tier.level} style={[styles.tierCard, isNext && styles.tierCardActive]}>
+                <View style={styles.tierHeader}>
+                  <Text style={styles.tierName}>{tier.name}</Text>
+                  <View style={styles.tierStatus}>
+                    <Ionicons name={status.icon} size={16} color={status.color} />
+                    <Text style={[styles.tierStatusText, { color: status.color }]}>{status.label}</Text>
+                  </View>
+                </View>
+                {renderLimits(tier.limits)}
+                <Text style={styles.requirements}>Needs: {tier.requirements.join(' • ')}</Text>
+
+                {isNext ? (
+                  <View style={styles.form}>
+                    {renderForm(tier.level)}
+                    {formError ? <Text style={styles.errorText}>{formError}</Text> : null}
+                    <TouchableOpacity
+                      style={[styles.primaryButton, isSubmitting && styles.buttonDisabled]}
+                      onPress={() => submitTier(tier.level)}
+                      disabled={isSubmitting}
+                    >
+                      {isSubmitting ? (
+                        <ActivityIndicator color="#fff" />
+                      ) : (
+                        <Text style={styles.primaryButtonText}>Verify for {tier.name}</Text>
+                      )}
+                    </TouchableOpacity>
+                  </View>
+                ) : null}
+              </View>
+            );
+          })}
+        </ScrollView>
+      )}
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: { flex: 1, backgroundColor: '#fafafa' },
+  header: { flexDirection: 'row', justifyContent: 'space-between', alignItems: 'center', padding: 20, backgroundColor: '#fff' },
+  headerTitle: { fontSize: 20, fontWeight: 'bold' },
+  loader: { marginTop: 40 },
+  empty: { alignItems: 'center', marginTop: 60, paddingHorizontal: 24 },
+  content: { padding: 16, paddingBottom: 40 },
+  currentCard: { backgroundColor: '#ff2b2b', borderRadius: 12, padding: 16, marginBottom: 16 },
+  currentLabel: { color: '#ffe0e0', fontSize: 13 },
+  currentTier: { color: '#fff', fontSize: 24, fontWeight: 'bold', marginBottom: 8 },
+  limitsRow: { flexDirection: 'row', justifyContent: 'space-between', marginTop: 8 },
+  limitItem: { flex: 1 },
+  limitValue: { fontWeight: 'bold', color: '#1a1a1a' },
+  limitLabel: { fontSize: 11, color: '#666', marginTop: 2 },
+  onBrandValue: { color: '#fff' },
+  onBrandLabel: { color: '#ffe0e0' },
+  banner: { flexDirection: 'row', alignItems: 'flex-start', gap: 8, padding: 12, borderRadius: 8, marginBottom: 16 },
+  pendingBanner: { backgroundColor: '#fff6e5' },
+  rejectedBanner: { backgroundColor: '#fff3f3' },
+  bannerText: { flex: 1, color: '#333', fontSize: 13 },
+  tierCard: { backgroundColor: '#fff', borderRadius: 12, padding: 16, marginBottom: 12, borderWidth: 1, borderColor: '#f0f0f0' },
+  tierCardActive: { borderColor: '#ff2b2b' },
+  tierHeader: { flexDirection: 'row', justifyContent: 'space-between', alignItems: 'center' },
+  tierName: { fontSize: 16, fontWeight: 'bold', color: '#1a1a1a' },
+  tierStatus: { flexDirection: 'row', alignItems: 'center', gap: 4 },
+  tierStatusText: { fontSize: 12, fontWeight: '600' },
+  requirements: { color: '#666', fontSize: 12, marginTop: 10 },
+  form: { marginTop: 16, borderTopWidth: 1, borderTopColor: '#f0f0f0', paddingTop: 8 },
+  label: { color: '#333', fontWeight: '600', marginTop: 12, marginBottom: 6 },
+  input: { borderWidth: 1, borderColor: '#ddd', borderRadius: 8, padding: 12, backgroundColor: '#fff' },
+  helpText: { color: '#999', fontSize: 12, marginTop: 6 },
+  chips: { flexDirection: 'row', flexWrap: 'wrap', gap: 8, marginTop: 8 },
+  chip: { borderWidth: 1, borderColor: '#ddd', borderRadius: 16, paddingVertical: 6, paddingHorizontal: 14, backgroundColor: '#fff' },
+  chipActive: { backgroundColor: '#ff2b2b', borderColor: '#ff2b2b' },
+  chipText: { color: '#333', fontSize: 13 },
+  chipTextActive: { color: '#fff', fontWeight: '600' },
+  twoColumns: { flexDirection: 'row', gap: 12 },
+  column: { flex: 1 },
+  photoRow: { flexDirection: 'row', gap: 12, marginTop: 16 },
+  photoSlot: { flex: 1, height: 110, borderWidth: 1, borderStyle: 'dashed', borderColor: '#ff2b2b', borderRadius: 8, alignItems: 'center', justifyContent: 'center', overflow: 'hidden' },
+  photoPreview: { position: 'absolute', width: '100%', height: '100%', opacity: 0.6 },
+  photoLabel: { color: '#333', fontSize: 12, fontWeight: '600', marginTop: 6 },
+  errorText: { color: '#ff2b2b', marginTop: 12, textAlign: 'center' },
+  primaryButton: { backgroundColor: '#ff2b2b', paddingVertical: 14, borderRadius: 12, alignItems: 'center', marginTop: 16 },
+  primaryButtonText: { color: '#fff', fontSize: 16, fontWeight: '600' },
+  secondaryButton: { borderWidth: 1, borderColor: '#ff2b2b', paddingVertical: 10, paddingHorizontal: 24, borderRadius: 8, marginTop: 16 },
+  secondaryButtonText: { color: '#ff2b2b', fontWeight: '600' },
+  buttonDisabled: { opacity: 0.5 },
+});
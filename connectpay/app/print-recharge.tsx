@@ -14,8 +14,9 @@ import {
 } from 'react-native';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import { useFocusEffect } from '@react-navigation/native';
-
-const API_BASE_URL = 'http://localhost:5000/api';
+import { api, isApiError, isPendingPurchase, PENDING_PURCHASE_NOTE } from '@/services/ApiService';
+import { useIdempotencyKey } from '@/hooks/useIdempotencyKey';
+import type { RechargeGenerateRequest } from '@/types/api';
 
 interface UserBalance {
   total: number;
@@ -49,176 +50,10 @@ interface PinStatus {
   attemptsRemaining: number;
 }
 
-// Enhanced API service with better error handling
-class ApiService {
-  private static instance: ApiService;
-  private authToken: string | null = null;
-
-  static getInstance(): ApiService {
-    if (!ApiService.instance) {
-      ApiService.instance = new ApiService();
-    }
-    return ApiService.instance;
-  }
-
-  private async getAuthToken(): Promise<string> {
-    if (this.authToken) return this.authToken;
-
-    try {
-      const tokenKeys = ['userToken', 'authToken', 'token', 'access_token'];
-
-      for (const key of tokenKeys) {
-        const token = await AsyncStorage.getItem(key);
-        console.log(`Checking storage key "${key}":`, token ? `Found (${token.length} chars)` : 'Not found');
-
-        if (token && token.trim() !== '' && token !== 'undefined' && token !== 'null') {
-          const cleanToken = token.trim();
-          const tokenParts = cleanToken.split('.');
-          if (tokenParts.length === 3) {
-            console.log(`Found valid JWT token with key: ${key}`);
-            this.authToken = cleanToken;
-            return cleanToken;
-          }
-        }
-      }
-
-      console.log('No valid JWT token found in any storage key');
-      throw new Error('No authentication token found');
-    } catch (error) {
-      console.error('Error getting auth token:', error);
-      throw new Error('Authentication required');
-    }
-  }
-
-  private async makeRequest(endpoint: string, options: RequestInit = {}, retryCount = 0): Promise<any> {
-    console.log(`API Request: ${endpoint}`);
-    
-    try {
-      const token = await this.getAuthToken();
-      console.log('Token obtained for API request');
-
-      const controller = new AbortController();
-      const timeoutId = setTimeout(() => controller.abort(), 30000);
-
-      const requestConfig = {
-        method: 'GET',
-        ...options,
-        signal: controller.signal,
-        headers: {
-          'Authorization': `Bearer ${token}`,
-          'Content-Type': 'application/json',
-          'Accept': 'application/json',
-          ...options.headers,
-        },
-      };
-
-      const fullUrl = `${API_BASE_URL}${endpoint}`;
-      console.log('Request URL:', fullUrl);
-      console.log('Request config:', { ...requestConfig, headers: { ...requestConfig.headers, Authorization: 'Bearer [TOKEN]' } });
-
-      const response = await fetch(fullUrl, requestConfig);
-      clearTimeout(timeoutId);
-
-      console.log('Response status:', response.status, response.ok ? 'Success' : 'Error');
-
-      let responseText = '';
-      try {
-        responseText = await response.text();
-        console.log('Response text length:', responseText.length);
-      } catch (textError) {
-        console.error('Failed to read response text:', textError);
-        throw new Error('Unable to read server response');
-      }
-
-      let data = {};
-      if (responseText.trim()) {
-        try {
-          data = JSON.parse(responseText);
-          console.log('JSON parsed successfully, response data:', data);
-        } catch (parseError) {
-          console.error('JSON parse error:', parseError);
-          console.log('Raw response preview:', responseText.substring(0, 200));
-          throw new Error(`Invalid JSON response from server. Status: ${response.status}`);
-        }
-      }
-
-      if (response.status === 401) {
-        console.error('401 Unauthorized - clearing tokens');
-        const tokenKeys = ['userToken', 'authToken', 'token', 'access_token'];
-        for (const key of tokenKeys) {
-          await AsyncStorage.removeItem(key);
-        }
-        this.authToken = null;
-        throw new Error('Session expired. Please login again.');
-      }
-
-      if (!response.ok) {
-        const errorMessage = data?.message || data?.error || `HTTP ${response.status}: ${response.statusText}`;
-        console.error('API Error:', errorMessage);
-        
-        if (endpoint.includes('/recharge/generate') && data && typeof data === 'object') {
-          const error = new Error(errorMessage);
-          (error as any).responseData = data;
-          (error as any).httpStatus = response.status;
-          throw error;
-        }
-        
-        throw new Error(errorMessage);
-      }
-
-      console.log('API request successful');
-      return data;
-
-    } catch (error: any) {
-      console.error(`API Error for ${endpoint}:`, error.message);
-
-      if (retryCount < 2 && (error.name === 'AbortError' || error.message.includes('network'))) {
-        console.log(`Retrying request (attempt ${retryCount + 1})`);
-        await new Promise(resolve => setTimeout(resolve, 1000 * (retryCount + 1)));
-        return this.makeRequest(endpoint, options, retryCount + 1);
-      }
-
-      if (error.name === 'TypeError' && error.message.includes('Network request failed')) {
-        throw new Error('Network connection failed. Please check your internet connection.');
-      }
-
-      if (error.message.includes('Authentication') || 
-          error.message.includes('Session expired') ||
-          error.responseData) {
-        throw error;
-      }
-
-      throw error;
-    }
-  }
-
-  async generatePins(data: any): Promise<any> {
-    return this.makeRequest('/recharge/generate', {
-      method: 'POST',
-      body: JSON.stringify(data),
-    });
-  }
-
-  async getHistory(): Promise<any> {
-    return this.makeRequest('/recharge/history');
-  }
-
-  async getBalance(): Promise<any> {
-    return this.makeRequest('/balance');
-  }
-
-  async checkPinStatus(): Promise<any> {
-    return this.makeRequest('/purchase/pin-status');
-  }
-
-  clearAuth(): void {
-    this.authToken = null;
-  }
-}
-
 export default function PrintRecharge() {
   const [activeTab, setActiveTab] = useState<'generate' | 'history'>('generate');
   const [currentStep, setCurrentStep] = useState<1 | 2 | 3 | 4>(1);
+  const idempotencyKey = useIdempotencyKey(currentStep === 3);
   const [selectedNetwork, setSelectedNetwork] = useState<string | null>(null);
   const [cardType, setCardType] = useState<'airtime' | 'data'>('airtime');
   const [denomination, setDenomination] = useState<number | null>(null);
@@ -340,10 +175,10 @@ export default function PrintRecharge() {
     try {
       console.log("Fetching balance from /balance");
       setAuthError(null);
-      const balanceData = await ApiService.getInstance().getBalance();
+      const balanceData = await api.getBalance();
 
       if (balanceData.success && balanceData.balance) {
-        const balanceAmount = parseFloat(balanceData.balance.amount) || 0;
+        const balanceAmount = Number(balanceData.balance.amount) || 0;
         
         const realBalance: UserBalance = {
           main: balanceAmount,
@@ -364,9 +199,8 @@ export default function PrintRecharge() {
       }
     } catch (error: any) {
       console.error('Balance fetch error:', error);
-      if (error.message.includes('Authentication') || error.message.includes('token')) {
+      if (isApiError(error) && error.code === 'UNAUTHORIZED') {
         setAuthError('Session expired. Please login again.');
-        ApiService.getInstance().clearAuth();
       }
 
       try {
@@ -393,7 +227,7 @@ export default function PrintRecharge() {
   const checkPinStatusAPI = useCallback(async () => {
     try {
       console.log('Checking PIN status...');
-      const response = await ApiService.getInstance().checkPinStatus();
+      const response = await api.getPinStatus();
       console.log('PIN status response:', response);
       
       if (response.success) {
@@ -403,9 +237,8 @@ export default function PrintRecharge() {
       }
     } catch (error: any) {
       console.error('Error checking PIN status:', error);
-      if (error.message.includes('Authentication') || error.message.includes('token')) {
+      if (isApiError(error) && error.code === 'UNAUTHORIZED') {
         setAuthError('Session expired. Please login again.');
-        ApiService.getInstance().clearAuth();
       }
     }
   }, []);
@@ -414,15 +247,14 @@ export default function PrintRecharge() {
     setIsLoading(true);
     try {
       setAuthError(null);
-      const response = await ApiService.getInstance().getHistory();
+      const response = await api.getRechargeHistory();
       if (response.success) {
         setTransactions(response.data?.transactions || []);
       }
     } catch (error: any) {
       console.error('History load error:', error);
-      if (error.message.includes('Authentication') || error.message.includes('token')) {
+      if (isApiError(error) && error.code === 'UNAUTHORIZED') {
         setAuthError('Session expired. Please login again.');
-        ApiService.getInstance().clearAuth();
       }
     } finally {
       setIsLoading(false);
@@ -485,10 +317,10 @@ export default function PrintRecharge() {
     setPinError('');
 
     try {
-      const requestData = {
-        network: selectedNetwork,
+      const requestData: RechargeGenerateRequest = {
+        network: selectedNetwork!,
         type: cardType,
-        denomination,
+        denomination: denomination!,
         quantity: qty,
         pin,
       };
@@ -498,149 +330,43 @@ export default function PrintRecharge() {
         pin: '****' // Hide PIN in logs
       });
 
-      // Add timeout wrapper
-      const timeoutPromise = new Promise((_, reject) =>
-        setTimeout(() => reject(new Error('Request timeout after 30 seconds')), 30000)
-      );
-
-      const apiPromise = ApiService.getInstance().generatePins(requestData);
-      
-      const response = await Promise.race([apiPromise, timeoutPromise]) as any;
+      const response = await api.generateRechargePins(requestData, idempotencyKey);
       
       console.log('📊 Raw response received:', response);
-      console.log('📊 Response type:', typeof response);
-      console.log('📊 Response keys:', response ? Object.keys(response) : 'no keys');
 
-      // Handle different response formats
-      if (response && response.success === true) {
-        console.log('🎉 PIN generation marked as successful!');
-        
-        // Extract and store generated PINs - check multiple possible response structures
-        let pins = [];
-        
-        // Try different possible response structures
-        if (response.pins && Array.isArray(response.pins)) {
-          pins = response.pins;
-        } else if (response.data?.pins && Array.isArray(response.data.pins)) {
-          pins = response.data.pins;
-        } else if (response.transaction?.pins && Array.isArray(response.transaction.pins)) {
-          pins = response.transaction.pins;
-        } else if (response.result?.pins && Array.isArray(response.result.pins)) {
-          pins = response.result.pins;
-        } else if (response.recharge?.pins && Array.isArray(response.recharge.pins)) {
-          pins = response.recharge.pins;
-        } else {
-          // Log the full response structure to help debug
-          console.log('🔍 Full response structure for PIN extraction:', JSON.stringify(response, null, 2));
-          
-          // Try to find pins anywhere in the response object
-          const findPins = (obj) => {
-            if (Array.isArray(obj)) {
-              // Check if this array contains pin-like objects
-              if (obj.length > 0 && obj[0] && (obj[0].pin || obj[0].serial)) {
-                return obj;
-              }
-            }
-            if (obj && typeof obj === 'object') {
-              for (const key in obj) {
-                if (key.toLowerCase().includes('pin') && Array.isArray(obj[key])) {
-                  return obj[key];
-                }
-                const result = findPins(obj[key]);
-                if (result && Array.isArray(result) && result.length > 0) {
-                  return result;
-                }
-              }
-            }
-            return null;
+      if (response.success === true && isPendingPurchase(response)) {
+        // The PINs arrive once the provider confirms; they appear in the recharge history
+        Alert.alert('PINs Being Generated', `${response.message} ${PENDING_PURCHASE_NOTE}`);
+      } else if (response.success === true) {
+        const pins = response.transaction?.pins ?? [];
+        console.log('🎉 PIN generation successful,', pins.length, 'PINs received');
+
+        setGeneratedPins(pins);
+
+        if (response.newBalance) {
+          console.log('💰 Updating balance from response:', response.newBalance);
+          const balanceAmount = response.newBalance.amount || 0;
+
+          const updatedBalance: UserBalance = {
+            main: balanceAmount,
+            bonus: 0,
+            total: balanceAmount,
+            amount: balanceAmount,
+            mainBalance: balanceAmount,
+            bonusBalance: 0,
+            currency: response.newBalance.currency || "NGN",
+            lastUpdated: response.newBalance.lastUpdated || new Date().toISOString(),
           };
-          
-          const foundPins = findPins(response);
-          if (foundPins && foundPins.length > 0) {
-            pins = foundPins;
-          }
-        }
 
-        console.log('🎉 Extracted PINs:', pins);
-        console.log('🎉 PINs count:', pins.length);
-        
-        // Validate PIN structure and ensure we have the PINs even if backend fails later
-        if (pins.length > 0) {
-          pins.forEach((pin, index) => {
-            console.log(`PIN ${index + 1}:`, pin);
-          });
-          
-          // Store PINs immediately in case of later errors
-          setGeneratedPins(pins);
-          
-          // Update balance if provided
-          if (response.newBalance) {
-            console.log('💰 Updating balance from response:', response.newBalance);
-            const balanceAmount = response.newBalance.amount || 
-                                 response.newBalance.totalBalance || 
-                                 response.newBalance.mainBalance || 0;
-            
-            const updatedBalance: UserBalance = {
-              main: balanceAmount,
-              bonus: 0,
-              total: balanceAmount,
-              amount: balanceAmount,
-              mainBalance: balanceAmount,
-              bonusBalance: 0,
-              currency: response.newBalance.currency || "NGN",
-              lastUpdated: response.newBalance.lastUpdated || new Date().toISOString(),
-            };
-
-            setUserBalance(updatedBalance);
-            await AsyncStorage.setItem("userBalance", JSON.stringify(updatedBalance));
-            console.log('✅ Balance updated successfully:', updatedBalance);
-          }
-          
-          setCurrentStep(4); // Move to success step
-          console.log('🎉 Moving to PIN display step with', pins.length, 'PINs');
-        } else {
-          console.warn('⚠️ No PINs found in response');
-          // Still show success but with warning
-          setGeneratedPins([]);
-          setCurrentStep(4);
+          setUserBalance(updatedBalance);
+          await AsyncStorage.setItem("userBalance", JSON.stringify(updatedBalance));
+          console.log('✅ Balance updated successfully:', updatedBalance);
         }
-      } else if (response && response.success === false) {
-        console.log('❌ Server returned failure:', response.message || response.error);
-        const errorMsg = response.message || response.error || 'Failed to generate PINs';
-        setPinError(errorMsg);
+
+        setCurrentStep(4); // Move to success step
       } else {
-        console.log('⚠️ Unexpected response format:', response);
-        
-        // Try to extract PINs even from unexpected response format
-        let pins = [];
-        const findPins = (obj) => {
-          if (Array.isArray(obj)) {
-            if (obj.length > 0 && obj[0] && (obj[0].pin || obj[0].serial)) {
-              return obj;
-            }
-          }
-          if (obj && typeof obj === 'object') {
-            for (const key in obj) {
-              if (key.toLowerCase().includes('pin') && Array.isArray(obj[key])) {
-                return obj[key];
-              }
-              const result = findPins(obj[key]);
-              if (result && Array.isArray(result) && result.length > 0) {
-                return result;
-              }
-            }
-          }
-          return null;
-        };
-        
-        const foundPins = findPins(response);
-        if (foundPins && foundPins.length > 0) {
-          console.log('🎉 Found PINs in unexpected response format:', foundPins);
-          setGeneratedPins(foundPins);
-          setCurrentStep(4);
-        } else {
-          setPinError('Unexpected server response format');
-        }
+        console.log('❌ Server returned failure:', response.message);
+        setPinError(response.message || 'Failed to generate PINs');
       }
     } catch (error: any) {
       console.error('💥 PIN generation error caught:', error);
@@ -649,8 +375,8 @@ export default function PrintRecharge() {
       console.error('💥 Error stack:', error.stack);
       
       // Check if this might be a partial success (PINs generated but transaction failed)
-      if (error.responseData) {
-        console.log('🔍 Checking error response data for PINs:', error.responseData);
+      if (isApiError(error) && error.data) {
+        console.log('🔍 Checking error response data for PINs:', error.data);
         
         // Try to extract PINs from error response
         let pins = [];
@@ -674,7 +400,7 @@ export default function PrintRecharge() {
           return null;
         };
         
-        const foundPins = findPins(error.responseData);
+        const foundPins = findPins(error.data);
         if (foundPins && foundPins.length > 0) {
           console.log('🎉 Found PINs in error response! Partial success scenario:', foundPins);
           setGeneratedPins(foundPins);
@@ -698,8 +424,9 @@ export default function PrintRecharge() {
       }
       
       // Categorize errors
-      if (errorMessage.includes('timeout')) {
-        setPinError('Request timed out. Please check your connection and try again.');
+      if (isApiError(error) && error.code === 'TIMEOUT') {
+        // The server may still have generated the PINs; a retry with the same key replays that result
+        setPinError('Request timed out. Check your recharge history before trying again.');
       } else if (errorMessage.includes('locked') || errorMessage.includes('attempts')) {
         setPinError(errorMessage);
       } else if (errorMessage.includes('PIN')) {
@@ -708,9 +435,8 @@ export default function PrintRecharge() {
         setPinError('Insufficient balance for this transaction');
       } else if (errorMessage.includes('network') || errorMessage.includes('server') || errorMessage.includes('fetch')) {
         setPinError('Network error. Please check your connection and try again');
-      } else if (errorMessage.includes('Authentication') || errorMessage.includes('token')) {
+      } else if (isApiError(error) && error.code === 'UNAUTHORIZED') {
         setAuthError('Session expired. Please login again.');
-        ApiService.getInstance().clearAuth();
         setPinError('Session expired. Please login again.');
       } else if (errorMessage.includes('description') || errorMessage.includes('exceed') || errorMessage.includes('500 characters')) {
         // Handle the specific error you're encountering - PINs were likely generated
@@ -734,7 +460,7 @@ export default function PrintRecharge() {
       setIsValidatingPin(false);
       console.log('=== RECHARGE PIN GENERATION END ===');
     }
-  }, [isPinValid, quantity, selectedNetwork, denomination, cardType, pin, totalAmount, hasEnoughBalance, userBalance, fetchUserBalance, activeTab, loadTransactionHistory, getBalanceAmount]);
+  }, [isPinValid, quantity, selectedNetwork, denomination, cardType, pin, totalAmount, hasEnoughBalance, userBalance, fetchUserBalance, activeTab, loadTransactionHistory, getBalanceAmount, idempotencyKey]);
 
   // Input handlers
   const handleQuantityChange = useCallback((text: string) => {
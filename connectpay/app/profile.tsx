@@ -313,6 +313,42 @@ const handleSaveProfile = async () => {
             <Ionicons name="chevron-forward-outline" size={16} color="#666" />
           </TouchableOpacity>
 
+          <TouchableOpacity style={styles.optionItem} onPress={() => router.push('/change-pin')}>
+            <Ionicons name="keypad-outline" size={20} color="#ff2b2b" />
+            <Text style={styles.optionText}>Change Transaction PIN</Text>
+            <Ionicons name="chevron-forward-outline" size={16} color="#666" />
+          </TouchableOpacity>
+
+          <TouchableOpacity style={styles.optionItem} onPress={() => router.push('/forgot-pin')}>
+            <Ionicons name="key-outline" size={20} color="#ff2b2b" />
+            <Text style={styles.optionText}>Forgot Transaction PIN</Text>
+            <Ionicons name="chevron-forward-outline" size={16} color="#666" />
+          </TouchableOpacity>
+
+          <TouchableOpacity style={styles.optionItem} onPress={() => router.push('/security-settings')}>
+            <Ionicons name="finger-print-outline" size={20} color="#ff2b2b" />
+            <Text style={styles.optionText}>Security & Biometrics</Text>
+            <Ionicons name="chevron-forward-outline" size={16} color="#666" />
+          </TouchableOpacity>
+
+          <TouchableOpacity style={styles.optionItem} onPress={() => router.push('/devices')}>
+            <Ionicons name="phone-portrait-outline" size={20} color="#ff2b2b" />
+            <Text style={styles.optionText}>Devices & Login Alerts</Text>
+            <Ionicons name="chevron-forward-outline" size={16} color="#666" />
+          </TouchableOpacity>
+
+          <TouchableOpacity style={styles.optionItem} onPress={() => router.push('/kyc')}>
+            <Ionicons name="shield-checkmark-outline" size={20} color="#ff2b2b" />
+            <Text style={styles.optionText}>Account Verification & Limits</Text>
+            <Ionicons name="chevron-forward-outline" size={16} color="#666" />
+          </TouchableOpacity>
+
+          <TouchableOpacity style={styles.optionItem} onPress={() => router.push('/statement')}>
+            <Ionicons name="document-text-outline" size={20} color="#ff2b2b" />
+            <Text style={styles.optionText}>Account Statement</Text>
+            <Ionicons name="chevron-forward-outline" size={16} color="#666" />
+          </TouchableOpacity>
+
           <TouchableOpacity style={styles.optionItem} onPress={() => router.push('/privacy-settings')}>
             <Ionicons name="shield-outline" size={20} color="#ff2b2b" />
             <Text style={styles.optionText}>Privacy Settings</Text>
@@ -0,0 +1,327 @@
+import React, { useCallback, useContext, useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  SafeAreaView,
+  ScrollView,
+  ActivityIndicator,
+  Alert,
+  Modal,
+  Switch,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useRouter } from 'expo-router';
+import { api, isApiError } from '@/services/ApiService';
+import {
+  disableBiometrics,
+  enableBiometrics,
+  forgetLocalKey,
+  getBiometricSupport,
+  isBiometricEnabled,
+  type BiometricSupport,
+} from '@/services/BiometricService';
+import type { BiometricDevice } from '@/types/api';
+import { AuthContext } from '../contexts/AuthContext';
+
+const formatDate = (value: string | null) =>
+  value ? new Date(value).toLocaleDateString('en-NG', { day: 'numeric', month: 'short', year: 'numeric' }) : 'Never';
+
+// Biometric confirmation for this device, and every device enrolled for it
+export default function SecuritySettingsScreen() {
+  const router = useRouter();
+  const { getDeviceInfo } = useContext(AuthContext);
+
+  const [support, setSupport] = useState<BiometricSupport>({ available: false, label: 'Biometrics' });
+  const [isEnabled, setIsEnabled] = useState(false);
+  const [devices, setDevices] = useState<BiometricDevice[]>([]);
+  const [deviceId, setDeviceId] = useState('');
+  const [isLoading, setIsLoading] = useState(true);
+  const [isUpdating, setIsUpdating] = useState(false);
+  const [revokingId, setRevokingId] = useState<string | null>(null);
+
+  const [showPinModal, setShowPinModal] = useState(false);
+  const [pin, setPin] = useState('');
+  const [pinError, setPinError] = useState('');
+
+  const load = useCallback(async () => {
+    try {
+      const [deviceSupport, localKey, response, info] = await Promise.all([
+        getBiometricSupport(),
+        isBiometricEnabled(),
+        api.getBiometricDevices(),
+        getDeviceInfo(),
+      ]);
+      const enrolledHere = response.devices.some((device) => device.deviceId === info.deviceId);
+
+      // Revoked elsewhere (or never enrolled for this account): drop the stale key
+      if (localKey && !enrolledHere) await forgetLocalKey();
+
+      setSupport(deviceSupport);
+      setDeviceId(info.deviceId);
+      setDevices(response.devices);
+      setIsEnabled(localKey && enrolledHere);
+    } catch (error) {
+      console.error('Error loading security settings:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [getDeviceInfo]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const closePinModal = () => {
+    setShowPinModal(false);
+    setPin('');
+    setPinError('');
+  };
+
+  const handleEnable = async () => {
+    if (!/^\d{4}$/.test(pin)) {
+      setPinError('PIN must be exactly 4 digits');
+      return;
+    }
+
+    setIsUpdating(true);
+    setPinError('');
+    try {
+      const info = await getDeviceInfo();
+      if (await enableBiometrics(pin, info)) {
+        closePinModal();
+        await load();
+        Alert.alert('Biometrics Enabled', `You can now confirm purchases with ${support.label}. Your PIN still works too.`);
+      }
+    } catch (error) {
+      if (isApiError(error) && (error.serverCode === 'INVALID_PIN' || error.code === 'PIN_LOCKED')) {
+        setPin('');
+      }
+      setPinError(error instanceof Error ? error.message : 'Unable to enable biometrics');
+    } finally {
+      setIsUpdating(false);
+    }
+  };
+
+  const handleToggle = (value: boolean) => {
+    if (value) {
+      setShowPinModal(true);
+      return;
+    }
+
+    Alert.alert('Turn Off Biometrics?', 'You will confirm purchases with your PIN on this device.', [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Turn Off',
+        style: 'destructive',
+        onPress: async () => {
+          setIsUpdating(true);
+          try {
+            await disableBiometrics(deviceId, devices);
+            await load();
+          } catch (error) {
+            Alert.alert('Error', error instanceof Error ? error.message : 'Unable to turn off biometrics');
+          } finally {
+            setIsUpdating(false);
+          }
+        },
+      },
+    ]);
+  };
+
+  const handleRevoke = (device: BiometricDevice) => {
+    Alert.alert(
+      'Remove Device?',
+      `${device.deviceName || 'This device'} will no longer be able to confirm purchases with biometrics.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Remove',
+          style: 'destructive',
+          onPress: async () => {
+            setRevokingId(device.id);
+            try {
+              if (device.deviceId === deviceId) {
+                await disableBiometrics(deviceId, devices);
+              } else {
+                await api.revokeBiometricDevice(device.id);
+              }
+              await load();
+            } catch (error) {
+              Alert.alert('Error', error instanceof Error ? error.message : 'Unable to remove device');
+            } finally {
+              setRevokingId(null);
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => (router.canGoBack() ? router.back() : router.replace('/profile'))}>
+          <Ionicons name="arrow-back-outline" size={24} color="#ff2b2b" />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Security</Text>
+        <View style={{ width: 24 }} />
+      </View>
+
+      {isLoading ? (
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color="#ff2b2b" />
+        </View>
+      ) : (
+        <ScrollView contentContainerStyle={styles.scrollContent}>
+          <View style={styles.card}>
+            <View style={styles.row}>
+              <Ionicons name="finger-print-outline" size={22} color="#ff2b2b" />
+              <View style={styles.rowText}>
+                <Text style={styles.rowTitle}>Pay with {support.label}</Text>
+                <Text style={styles.rowSubtitle}>
+                  {support.available
+                    ? 'Confirm purchases on this device without typing your PIN'
+                    : 'Set up fingerprint or face unlock in your device settings to use this'}
+                </Text>
+              </View>
+              {isUpdating ? (
+                <ActivityIndicator color="#ff2b2b" />
+              ) : (
+                <Switch
+                  value={isEnabled}
+                  onValueChange={handleToggle}
+                  disabled={!support.available && !isEnabled}
+                  trackColor={{ false: '#ccc', true: '#28a745' }}
+                  thumbColor="#fff"
+                />
+              )}
+            </View>
+          </View>
+
+          <Text style={styles.sectionTitle}>Devices using biometrics</Text>
+          <View style={styles.card}>
+            {devices.length === 0 ? (
+              <Text style={styles.emptyText}>No devices are enrolled.</Text>
+            ) : (
+              devices.map((device, index) => (
+                <View key={device.id} style={[styles.deviceRow, index > 0 && styles.deviceDivider]}>
+                  <Ionicons
+                    name={device.platform === 'web' ? 'desktop-outline' : 'phone-portrait-outline'}
+                    size={20}
+                    color="#666"
+                  />
+                  <View style={styles.rowText}>
+                    <Text style={styles.rowTitle}>
+                      {device.deviceName || 'Unknown device'}
+                      {device.deviceId === deviceId ? ' (this device)' : ''}
+                    </Text>
+                    <Text style={styles.rowSubtitle}>
+                      Enrolled {formatDate(device.enrolledAt)} • Last used {formatDate(device.lastUsedAt)}
+                    </Text>
+                  </View>
+                  {revokingId === device.id ? (
+                    <ActivityIndicator color="#ff2b2b" />
+                  ) : (
+                    <TouchableOpacity onPress={() => handleRevoke(device)}>
+                      <Text style={styles.removeText}>Remove</Text>
+                    </TouchableOpacity>
+                  )}
+                </View>
+              ))
+            )}
+          </View>
+          <Text style={styles.note}>
+            Resetting your transaction PIN removes every device. Your PIN always works as a fallback.
+          </Text>
+        </ScrollView>
+      )}
+
+      <Modal visible={showPinModal} transparent animationType="fade" onRequestClose={closePinModal}>
+        <View style={styles.modalOverlay}>
+          <View style={styles.modalCard}>
+            <Text style={styles.modalTitle}>Enter Your PIN</Text>
+            <Text style={styles.modalSubtitle}>Confirm your transaction PIN to enable {support.label}.</Text>
+            <TextInput
+              style={[styles.pinInput, pinError ? styles.pinInputError : null]}
+              value={pin}
+              onChangeText={(text) => {
+                setPin(text.replace(/\D/g, '').slice(0, 4));
+                setPinError('');
+              }}
+              keyboardType="number-pad"
+              secureTextEntry
+              maxLength={4}
+              autoFocus
+              editable={!isUpdating}
+            />
+            {pinError ? <Text style={styles.errorText}>{pinError}</Text> : null}
+            <View style={styles.modalActions}>
+              <TouchableOpacity style={styles.modalCancel} onPress={closePinModal} disabled={isUpdating}>
+                <Text style={styles.modalCancelText}>Cancel</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={[styles.modalConfirm, (pin.length !== 4 || isUpdating) && styles.modalConfirmDisabled]}
+                onPress={handleEnable}
+                disabled={pin.length !== 4 || isUpdating}
+              >
+                {isUpdating ? <ActivityIndicator color="#fff" /> : <Text style={styles.modalConfirmText}>Enable</Text>}
+              </TouchableOpacity>
+            </View>
+          </View>
+        </View>
+      </Modal>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: { flex: 1, backgroundColor: '#fafafa' },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    backgroundColor: '#fff',
+    borderBottomWidth: 1,
+    borderBottomColor: '#eee',
+  },
+  headerTitle: { fontSize: 18, fontWeight: '700', color: '#1a1a1a' },
+  loadingContainer: { flex: 1, justifyContent: 'center', alignItems: 'center' },
+  scrollContent: { padding: 20 },
+  card: { backgroundColor: '#fff', borderRadius: 12, padding: 16, borderWidth: 1, borderColor: '#eee' },
+  row: { flexDirection: 'row', alignItems: 'center', gap: 12 },
+  rowText: { flex: 1 },
+  rowTitle: { fontSize: 15, fontWeight: '600', color: '#1a1a1a' },
+  rowSubtitle: { fontSize: 12, color: '#666', marginTop: 2 },
+  sectionTitle: { fontSize: 14, fontWeight: '700', color: '#666', marginTop: 24, marginBottom: 8, textTransform: 'uppercase' },
+  emptyText: { fontSize: 14, color: '#999', textAlign: 'center' },
+  deviceRow: { flexDirection: 'row', alignItems: 'center', gap: 12, paddingVertical: 10 },
+  deviceDivider: { borderTopWidth: 1, borderTopColor: '#f0f0f0' },
+  removeText: { color: '#ff2b2b', fontWeight: '600', fontSize: 14 },
+  note: { fontSize: 12, color: '#999', marginTop: 12, lineHeight: 18 },
+  modalOverlay: { flex: 1, backgroundColor: 'rgba(0,0,0,0.4)', justifyContent: 'center', padding: 30 },
+  modalCard: { backgroundColor: '#fff', borderRadius: 16, padding: 24 },
+  modalTitle: { fontSize: 18, fontWeight: '700', color: '#1a1a1a', textAlign: 'center' },
+  modalSubtitle: { fontSize: 14, color: '#666', textAlign: 'center', marginTop: 6, marginBottom: 20 },
+  pinInput: {
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 12,
+    paddingVertical: 14,
+    fontSize: 22,
+    letterSpacing: 12,
+    textAlign: 'center',
+  },
+  pinInputError: { borderColor: '#ff2b2b' },
+  errorText: { color: '#ff2b2b', fontSize: 13, textAlign: 'center', marginTop: 8 },
+  modalActions: { flexDirection: 'row', gap: 12, marginTop: 20 },
+  modalCancel: { flex: 1, paddingVertical: 14, borderRadius: 12, borderWidth: 1, borderColor: '#ddd', alignItems: 'center' },
+  modalCancelText: { color: '#666', fontWeight: '600', fontSize: 15 },
+  modalConfirm: { flex: 1, paddingVertical: 14, borderRadius: 12, backgroundColor: '#ff2b2b', alignItems: 'center' },
+  modalConfirmDisabled: { opacity: 0.6 },
+  modalConfirmText: { color: '#fff', fontWeight: '700', fontSize: 15 },
+});
@@ -0,0 +1,293 @@
+import React, { useEffect, useRef, useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  SafeAreaView,
+  ScrollView,
+  ActivityIndicator,
+  Alert,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useRouter } from 'expo-router';
+import * as Sharing from 'expo-sharing';
+import { api, isApiError } from '@/services/ApiService';
+import type { Statement, StatementFormat } from '@/types/api';
+
+type PresetKey = 'thisMonth' | 'lastMonth' | 'last3Months' | 'custom';
+
+const PRESETS: { key: PresetKey; label: string }[] = [
+  { key: 'thisMonth', label: 'This Month' },
+  { key: 'lastMonth', label: 'Last Month' },
+  { key: 'last3Months', label: 'Last 3 Months' },
+  { key: 'custom', label: 'Custom' },
+];
+
+const FORMATS: { key: StatementFormat; label: string; mimeType: string; UTI: string }[] = [
+  { key: 'pdf', label: 'PDF', mimeType: 'application/pdf', UTI: 'com.adobe.pdf' },
+  { key: 'csv', label: 'CSV', mimeType: 'text/csv', UTI: 'public.comma-separated-values-text' },
+];
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const pad = (value: number) => String(value).padStart(2, '0');
+const toDateString = (date: Date) => `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+
+const presetPeriod = (key: Exclude<PresetKey, 'custom'>) => {
+  const today = new Date();
+  const year = today.getFullYear();
+  const month = today.getMonth();
+
+  switch (key) {
+    case 'thisMonth':
+      return { from: toDateString(new Date(year, month, 1)), to: toDateString(today) };
+    case 'lastMonth':
+      return { from: toDateString(new Date(year, month - 1, 1)), to: toDateString(new Date(year, month, 0)) };
+    case 'last3Months':
+      return { from: toDateString(new Date(year, month - 2, 1)), to: toDateString(today) };
+  }
+};
+
+const formatNaira = (amount: number) =>
+  `₦${amount.toLocaleString('en-NG', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+// Account statement for a chosen period: a summary in-app, then the full
+// statement as a PDF or CSV to share, save or have emailed.
+export default function StatementScreen() {
+  const router = useRouter();
+
+  const [preset, setPreset] = useState<PresetKey>('thisMonth');
+  const [customFrom, setCustomFrom] = useState('');
+  const [customTo, setCustomTo] = useState('');
+  const [format, setFormat] = useState<StatementFormat>('pdf');
+
+  const [statement, setStatement] = useState<Statement | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState('');
+  const [busyAction, setBusyAction] = useState<'download' | 'email' | null>(null);
+
+  // Summaries for a period the user has already moved away from are dropped
+  const requestId = useRef(0);
+
+  const period = preset === 'custom' ? { from: customFrom.trim(), to: customTo.trim() } : presetPeriod(preset);
+  const isPeriodValid = DATE_PATTERN.test(period.from) && DATE_PATTERN.test(period.to) && period.from <= period.to;
+
+  useEffect(() => {
+    const id = ++requestId.current;
+    setStatement(null);
+    setError('');
+    if (!isPeriodValid) return;
+
+    setIsLoading(true);
+    api.getStatement(period.from, period.to)
+      .then((response) => {
+        if (id === requestId.current) setStatement(response.statement);
+      })
+      .catch((loadError) => {
+        if (id === requestId.current) {
+          setError(isApiError(loadError) ? loadError.message : 'Unable to load your statement');
+        }
+      })
+      .finally(() => {
+        if (id === requestId.current) setIsLoading(false);
+      });
+  }, [period.from, period.to, isPeriodValid]);
+
+  const handleDownload = async () => {
+    const selected = FORMATS.find((f) => f.key === format)!;
+    setBusyAction('download');
+    try {
+      const uri = await api.downloadStatement(period.from, period.to, format);
+      if (!(await Sharing.isAvailableAsync())) {
+        Alert.alert('Sharing Unavailable', 'Sharing is not supported on this device.');
+        return;
+      }
+      await Sharing.shareAsync(uri, { mimeType: selected.mimeType, UTI: selected.UTI, dialogTitle: 'Account Statement' });
+    } catch (downloadError) {
+      Alert.alert('Statement Unavailable', isApiError(downloadError) ? downloadError.message : 'Unable to download your statement. Please try again.');
+    } finally {
+      setBusyAction(null);
+    }
+  };
+
+  const handleEmail = async () => {
+    setBusyAction('email');
+    try {
+      const response = await api.emailStatement(period.from, period.to, format);
+      Alert.alert('Statement Sent', response.message || 'Your statement is on its way to your email.');
+    } catch (emailError) {
+      Alert.alert('Statement Not Sent', isApiError(emailError) ? emailError.message : 'Unable to email your statement. Please try again.');
+    } finally {
+      setBusyAction(null);
+    }
+  };
+
+  const canExport = isPeriodValid && !error && busyAction === null;
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()}>
+          <Ionicons name="arrow-back-outline" size={24} color="#ff2b2b" />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Account Statement</Text>
+        <View style={{ width: 24 }} />
+      </View>
+
+      <ScrollView contentContainerStyle={styles.content}>
+        <Text style={styles.sectionTitle}>Period</Text>
+        <View style={styles.chips}>
+          {PRESETS.map((item) => {
+            const isActive = item.key === preset;
+            return (
+              <TouchableOpacity
+                key={item.key}
+                style={[styles.chip, isActive && styles.chipActive]}
+                onPress={() => setPreset(item.key)}
+              >
+                <Text style={[styles.chipText, isActive && styles.chipTextActive]}>{item.label}</Text>
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+
+        {preset === 'custom' ? (
+          <View style={styles.dateRow}>
+            <View style={styles.dateField}>
+              <Text style={styles.label}>From</Text>
+              <TextInput
+                style={styles.input}
+                placeholder="YYYY-MM-DD"
+                value={customFrom}
+                onChangeText={setCustomFrom}
+                keyboardType="numbers-and-punctuation"
+                maxLength={10}
+              />
+            </View>
+            <View style={styles.dateField}>
+              <Text style={styles.label}>To</Text>
+              <TextInput
+                style={styles.input}
+                placeholder="YYYY-MM-DD"
+                value={customTo}
+                onChangeText={setCustomTo}
+                keyboardType="numbers-and-punctuation"
+                maxLength={10}
+              />
+            </View>
+          </View>
+        ) : (
+          <Text style={styles.periodText}>{period.from} to {period.to}</Text>
+        )}
+
+        <View style={styles.summaryCard}>
+          {isLoading ? (
+            <ActivityIndicator color="#ff2b2b" />
+          ) : error ? (
+            <Text style={styles.errorText}>{error}</Text>
+          ) : statement ? (
+            <>
+              <View style={styles.summaryRow}>
+                <Text style={styles.summaryLabel}>Opening Balance</Text>
+                <Text style={styles.summaryValue}>{formatNaira(statement.openingBalance)}</Text>
+              </View>
+              <View style={styles.summaryRow}>
+                <Text style={styles.summaryLabel}>Money In</Text>
+                <Text style={[styles.summaryValue, styles.creditText]}>+{formatNaira(statement.totals.credits)}</Text>
+              </View>
+              <View style={styles.summaryRow}>
+                <Text style={styles.summaryLabel}>Money Out</Text>
+                <Text style={styles.summaryValue}>-{formatNaira(statement.totals.debits)}</Text>
+              </View>
+              <View style={[styles.summaryRow, styles.summaryTotal]}>
+                <Text style={styles.summaryLabel}>Closing Balance</Text>
+                <Text style={styles.summaryValueBold}>{formatNaira(statement.closingBalance)}</Text>
+              </View>
+              <Text style={styles.summaryNote}>
+                {statement.totals.count} {statement.totals.count === 1 ? 'transaction' : 'transactions'} in this period
+              </Text>
+            </>
+          ) : (
+            <Text style={styles.summaryNote}>Enter both dates as YYYY-MM-DD to see your statement.</Text>
+          )}
+        </View>
+
+        <Text style={styles.sectionTitle}>Format</Text>
+        <View style={styles.formatRow}>
+          {FORMATS.map((item) => {
+            const isActive = item.key === format;
+            return (
+              <TouchableOpacity
+                key={item.key}
+                style={[styles.formatOption, isActive && styles.chipActive]}
+                onPress={() => setFormat(item.key)}
+              >
+                <Text style={[styles.chipText, isActive && styles.chipTextActive]}>{item.label}</Text>
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+
+        <TouchableOpacity
+          style={[styles.primaryButton, !canExport && styles.buttonDisabled]}
+          onPress={handleDownload}
+          disabled={!canExport}
+        >
+          {busyAction === 'download' ? (
+            <ActivityIndicator color="#fff" />
+          ) : (
+            <Text style={styles.primaryButtonText}>Download & Share</Text>
+          )}
+        </TouchableOpacity>
+
+        <TouchableOpacity
+          style={[styles.secondaryButton, !canExport && styles.buttonDisabled]}
+          onPress={handleEmail}
+          disabled={!canExport}
+        >
+          {busyAction === 'email' ? (
+            <ActivityIndicator color="#ff2b2b" />
+          ) : (
+            <Text style={styles.secondaryButtonText}>Email Me</Text>
+          )}
+        </TouchableOpacity>
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: { flex: 1, backgroundColor: '#fafafa' },
+  header: { flexDirection: 'row', justifyContent: 'space-between', alignItems: 'center', padding: 20, backgroundColor: '#fff' },
+  headerTitle: { fontSize: 20, fontWeight: 'bold' },
+  content: { padding: 16, paddingBottom: 40 },
+  sectionTitle: { fontSize: 16, fontWeight: 'bold', color: '#333', marginTop: 8, marginBottom: 12 },
+  chips: { flexDirection: 'row', flexWrap: 'wrap', gap: 8 },
+  chip: { borderWidth: 1, borderColor: '#ddd', borderRadius: 16, paddingVertical: 6, paddingHorizontal: 14, backgroundColor: '#fff' },
+  chipActive: { backgroundColor: '#ff2b2b', borderColor: '#ff2b2b' },
+  chipText: { color: '#333', fontSize: 13 },
+  chipTextActive: { color: '#fff', fontWeight: '600' },
+  dateRow: { flexDirection: 'row', gap: 12, marginTop: 16 },
+  dateField: { flex: 1 },
+  label: { color: '#666', fontSize: 13, marginBottom: 6 },
+  input: { borderWidth: 1, borderColor: '#ddd', borderRadius: 8, padding: 12, backgroundColor: '#fff' },
+  periodText: { color: '#666', marginTop: 12 },
+  summaryCard: { backgroundColor: '#fff', borderRadius: 12, padding: 16, marginVertical: 20, minHeight: 80, justifyContent: 'center' },
+  summaryRow: { flexDirection: 'row', justifyContent: 'space-between', paddingVertical: 6 },
+  summaryTotal: { borderTopWidth: 1, borderTopColor: '#f0f0f0', marginTop: 6, paddingTop: 10 },
+  summaryLabel: { color: '#666' },
+  summaryValue: { color: '#1a1a1a', fontWeight: '600' },
+  summaryValueBold: { color: '#1a1a1a', fontWeight: 'bold', fontSize: 16 },
+  creditText: { color: '#28a745' },
+  summaryNote: { color: '#999', fontSize: 12, textAlign: 'center', marginTop: 8 },
+  errorText: { color: '#ff2b2b', textAlign: 'center' },
+  formatRow: { flexDirection: 'row', gap: 12, marginBottom: 24 },
+  formatOption: { flex: 1, alignItems: 'center', borderWidth: 1, borderColor: '#ddd', borderRadius: 8, paddingVertical: 12, backgroundColor: '#fff' },
+  primaryButton: { backgroundColor: '#ff2b2b', paddingVertical: 14, borderRadius: 12, alignItems: 'center', marginBottom: 12 },
+  primaryButtonText: { color: '#fff', fontSize: 16, fontWeight: '600' },
+  secondaryButton: { borderWidth: 1, borderColor: '#ff2b2b', paddingVertical: 14, borderRadius: 12, alignItems: 'center' },
+  secondaryButtonText: { color: '#ff2b2b', fontSize: 16, fontWeight: '600' },
+  buttonDisabled: { opacity: 0.5 },
+});
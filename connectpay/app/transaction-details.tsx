@@ -0,0 +1,318 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  SafeAreaView,
+  ScrollView,
+  ActivityIndicator,
+  Alert,
+  Modal,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { useLocalSearchParams, useRouter } from 'expo-router';
+import { api, isApiError } from '@/services/ApiService';
+import { SERVICE_ICONS, STATUS_COLORS } from '@/constants/History';
+import type { HistoryTransactionDetail } from '@/types/api';
+import ReceiptActions from './ReceiptActions';
+
+// Where "Repeat" goes for each service. The purchase screens restore their
+// last form from AsyncStorage on mount, so repeating writes that form first.
+const REPEAT_TARGETS: Record<string, {
+  route: string;
+  formKey?: string;
+  form?: (tx: HistoryTransactionDetail) => Record<string, unknown>;
+}> = {
+  airtime: {
+    route: '/buy-airtime',
+    formKey: 'airtimeFormState',
+    form: (tx) => ({ phone: tx.details.recipient.phone, amount: String(tx.amount), selectedNetwork: tx.service.provider }),
+  },
+  data: {
+    route: '/buy-data',
+    formKey: 'dataFormState',
+    form: (tx) => ({ phone: tx.details.recipient.phone, selectedNetwork: tx.service.provider, selectedPlan: null }),
+  },
+  electricity: {
+    route: '/electricity',
+    formKey: 'electricityFormState',
+    form: (tx) => ({
+      phone: tx.details.recipient.phone,
+      selectedProvider: tx.service.provider,
+      selectedMeterType: tx.details.recipient.meterType,
+      meterNumber: tx.details.recipient.meterNumber,
+      amount: String(tx.amount),
+    }),
+  },
+  betting: {
+    route: '/fund-betting',
+    formKey: 'bettingFormState',
+    form: (tx) => ({
+      customerId: tx.details.recipient.customerId,
+      customerName: tx.details.recipient.customerName,
+      amount: String(tx.amount),
+      selectedProvider: tx.service.provider?.toLowerCase(),
+    }),
+  },
+  cable_tv: { route: '/cable-tv' },
+  internet: { route: '/internet' },
+  print_recharge: { route: '/print-recharge' },
+  transfer: { route: '/transfer' },
+  withdrawal: { route: '/withdraw' },
+};
+
+// One transaction from history: what it was for, what the provider sent back
+// (tokens, PINs), and actions to repeat it, report it or share its receipt.
+export default function TransactionDetails() {
+  const router = useRouter();
+  const { reference } = useLocalSearchParams<{ reference: string }>();
+
+  const [transaction, setTransaction] = useState<HistoryTransactionDetail | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState('');
+
+  const [showReport, setShowReport] = useState(false);
+  const [issueMessage, setIssueMessage] = useState('');
+  const [isReporting, setIsReporting] = useState(false);
+
+  const loadTransaction = useCallback(async () => {
+    if (!reference) return;
+    setIsLoading(true);
+    try {
+      const response = await api.getTransaction(reference);
+      setTransaction(response.transaction);
+      setError('');
+    } catch (loadError) {
+      setError(isApiError(loadError) ? loadError.message : 'Unable to load this transaction');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [reference]);
+
+  useEffect(() => {
+    loadTransaction();
+  }, [loadTransaction]);
+
+  const handleRepeat = async () => {
+    if (!transaction) return;
+    const target = REPEAT_TARGETS[transaction.service.type];
+    if (!target) return;
+
+    if (target.formKey && target.form) {
+      try {
+        await AsyncStorage.setItem(target.formKey, JSON.stringify(target.form(transaction)));
+      } catch (storageError) {
+        console.log('Error saving repeat form state:', storageError);
+      }
+    }
+    router.push(target.route);
+  };
+
+  const handleReport = async () => {
+    if (!transaction) return;
+    setIsReporting(true);
+    try {
+      const response = await api.reportTransactionIssue(transaction.reference, issueMessage.trim());
+      setTransaction(response.transaction);
+      setShowReport(false);
+      setIssueMessage('');
+      Alert.alert('Issue Reported', response.message);
+    } catch (reportError) {
+      Alert.alert('Report Failed', isApiError(reportError) ? reportError.message : 'Unable to send your report');
+    } finally {
+      setIsReporting(false);
+    }
+  };
+
+  const renderRow = (label: string, value?: string | null) => (value ? (
+    <View style={styles.detailRow} key={label}>
+      <Text style={styles.detailLabel}>{label}</Text>
+      <Text style={styles.detailValue} selectable={true}>{value}</Text>
+    </View>
+  ) : null);
+
+  const renderBody = () => {
+    if (!transaction) return null;
+    const { details, service } = transaction;
+    const isCredit = transaction.direction === 'credit';
+    const canRepeat = !isCredit && Boolean(REPEAT_TARGETS[service.type]);
+
+    return (
+      <>
+        <View style={styles.summaryCard}>
+          <View style={styles.iconCircle}>
+            <Ionicons name={SERVICE_ICONS[service.type] || 'wallet-outline'} size={28} color="#ff2b2b" />
+          </View>
+          <Text style={styles.serviceLabel}>{service.label}</Text>
+          <Text style={[styles.amount, isCredit && styles.creditAmount]}>
+            {isCredit ? '+' : '-'}₦{transaction.amount.toLocaleString()}
+          </Text>
+          <Text style={[styles.status, { color: STATUS_COLORS[transaction.status] || '#666' }]}>
+            {transaction.status.toUpperCase()}
+          </Text>
+          {transaction.failureReason ? <Text style={styles.failureText}>{transaction.failureReason}</Text> : null}
+        </View>
+
+        {details.token ? (
+          <View style={styles.valueCard}>
+            <Text style={styles.valueCardLabel}>Electricity Token</Text>
+            <Text style={styles.token} selectable={true}>{details.token}</Text>
+            {details.units ? <Text style={styles.helpText}>{details.units} units</Text> : null}
+          </View>
+        ) : null}
+
+        {details.pins?.length ? (
+          <View style={styles.valueCard}>
+            <Text style={styles.valueCardLabel}>Recharge PINs</Text>
+            {details.pins.map((pin) => (
+              <View key={pin.serial} style={styles.pinRow}>
+                <Text style={styles.pin} selectable={true}>{pin.pin}</Text>
+                <Text style={styles.serial}>Serial: {pin.serial}</Text>
+              </View>
+            ))}
+          </View>
+        ) : null}
+
+        <View style={styles.detailsCard}>
+          {renderRow('Reference', transaction.reference)}
+          {renderRow('Date', new Date(transaction.createdAt).toLocaleString())}
+          {renderRow('Description', transaction.description)}
+          {renderRow('Provider', service.provider?.toUpperCase())}
+          {renderRow('Plan', service.plan)}
+          {renderRow(isCredit ? 'From' : 'To', service.counterparty?.name)}
+          {renderRow('Phone', details.recipient.phone)}
+          {renderRow('Meter Number', details.recipient.meterNumber)}
+          {renderRow('Meter Type', details.recipient.meterType)}
+          {renderRow('Smartcard', details.recipient.smartCardNumber)}
+          {renderRow('Customer ID', details.recipient.customerId)}
+          {renderRow('Customer Name', details.recipient.customerName)}
+          {renderRow('Address', details.recipient.address)}
+          {!details.recipient.phone && !details.recipient.meterNumber && !details.recipient.customerId
+            ? renderRow('Account', service.counterparty?.identifier)
+            : null}
+          {renderRow('Narration', details.narration)}
+          {renderRow('Provider Reference', details.provider.reference)}
+          {renderRow('Provider Response', details.provider.message)}
+          {renderRow('Balance After', `₦${transaction.balanceAfter.toLocaleString()}`)}
+        </View>
+
+        {details.issue ? (
+          <View style={styles.issueCard}>
+            <Text style={styles.valueCardLabel}>Issue reported {new Date(details.issue.reportedAt).toLocaleDateString()}</Text>
+            <Text style={styles.helpText}>{details.issue.message}</Text>
+          </View>
+        ) : null}
+
+        <View style={styles.actions}>
+          {canRepeat ? (
+            <TouchableOpacity style={styles.primaryButton} onPress={handleRepeat}>
+              <Text style={styles.primaryButtonText}>🔁 Repeat</Text>
+            </TouchableOpacity>
+          ) : null}
+          <View style={styles.receiptActions}>
+            <ReceiptActions reference={transaction.reference} />
+          </View>
+          {!details.issue ? (
+            <TouchableOpacity style={styles.secondaryButton} onPress={() => setShowReport(true)}>
+              <Text style={styles.secondaryButtonText}>⚠️ Report an Issue</Text>
+            </TouchableOpacity>
+          ) : null}
+        </View>
+      </>
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()}>
+          <Ionicons name="arrow-back-outline" size={24} color="#ff2b2b" />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Transaction Details</Text>
+        <View style={{ width: 24 }} />
+      </View>
+
+      {isLoading ? (
+        <ActivityIndicator style={styles.loader} color="#ff2b2b" size="large" />
+      ) : error ? (
+        <View style={styles.content}>
+          <Text style={styles.helpText}>{error}</Text>
+          <TouchableOpacity style={styles.secondaryButton} onPress={loadTransaction}>
+            <Text style={styles.secondaryButtonText}>Try Again</Text>
+          </TouchableOpacity>
+        </View>
+      ) : (
+        <ScrollView contentContainerStyle={styles.content}>{renderBody()}</ScrollView>
+      )}
+
+      <Modal visible={showReport} transparent={true} animationType="fade" onRequestClose={() => setShowReport(false)}>
+        <View style={styles.overlay}>
+          <View style={styles.modalCard}>
+            <Text style={styles.modalTitle}>Report an Issue</Text>
+            <Text style={styles.helpText}>Tell us what went wrong. Support will contact you about {reference}.</Text>
+            <TextInput
+              style={[styles.input, styles.issueInput]}
+              placeholder="e.g. I was debited but did not receive the airtime"
+              value={issueMessage}
+              onChangeText={setIssueMessage}
+              multiline={true}
+              maxLength={1000}
+            />
+            <TouchableOpacity
+              style={[styles.primaryButton, (issueMessage.trim().length < 10 || isReporting) && styles.buttonDisabled]}
+              onPress={handleReport}
+              disabled={issueMessage.trim().length < 10 || isReporting}
+            >
+              {isReporting ? <ActivityIndicator color="#fff" /> : <Text style={styles.primaryButtonText}>Send Report</Text>}
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.secondaryButton} onPress={() => setShowReport(false)} disabled={isReporting}>
+              <Text style={styles.secondaryButtonText}>Cancel</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </Modal>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: { flex: 1, backgroundColor: '#fafafa' },
+  header: { flexDirection: 'row', justifyContent: 'space-between', alignItems: 'center', padding: 20, backgroundColor: '#fff' },
+  headerTitle: { fontSize: 20, fontWeight: 'bold' },
+  loader: { marginTop: 40 },
+  content: { padding: 20, paddingBottom: 40 },
+  summaryCard: { backgroundColor: '#fff', borderRadius: 12, padding: 20, alignItems: 'center', marginBottom: 16 },
+  iconCircle: { width: 56, height: 56, borderRadius: 28, backgroundColor: '#fff3f3', alignItems: 'center', justifyContent: 'center', marginBottom: 10 },
+  serviceLabel: { color: '#666', fontWeight: '600' },
+  amount: { fontSize: 28, fontWeight: 'bold', color: '#1a1a1a', marginVertical: 6 },
+  creditAmount: { color: '#28a745' },
+  status: { fontWeight: 'bold', fontSize: 13 },
+  failureText: { color: '#ff2b2b', marginTop: 8, textAlign: 'center' },
+  valueCard: { backgroundColor: '#fff', borderRadius: 12, padding: 16, marginBottom: 16, borderWidth: 1, borderColor: '#ffd6d6' },
+  valueCardLabel: { fontWeight: 'bold', color: '#333', marginBottom: 8 },
+  token: { fontSize: 20, fontWeight: 'bold', letterSpacing: 2, color: '#1a1a1a', textAlign: 'center' },
+  pinRow: { flexDirection: 'row', justifyContent: 'space-between', paddingVertical: 6, borderBottomWidth: 1, borderBottomColor: '#f0f0f0' },
+  pin: { fontWeight: 'bold', letterSpacing: 1, color: '#1a1a1a' },
+  serial: { color: '#666', fontSize: 12 },
+  detailsCard: { backgroundColor: '#fff', borderRadius: 12, padding: 16, marginBottom: 16 },
+  detailRow: { flexDirection: 'row', justifyContent: 'space-between', paddingVertical: 6 },
+  detailLabel: { color: '#666', marginRight: 12 },
+  detailValue: { fontWeight: '600', color: '#1a1a1a', flexShrink: 1, textAlign: 'right' },
+  issueCard: { backgroundColor: '#fff8e6', borderRadius: 12, padding: 16, marginBottom: 16 },
+  actions: { gap: 10 },
+  receiptActions: { marginTop: 10 },
+  primaryButton: { backgroundColor: '#ff2b2b', padding: 15, borderRadius: 8, alignItems: 'center', marginTop: 10, alignSelf: 'stretch' },
+  primaryButtonText: { color: '#fff', fontWeight: '600' },
+  secondaryButton: { borderWidth: 1, borderColor: '#ff2b2b', padding: 15, borderRadius: 8, alignItems: 'center', marginTop: 10, alignSelf: 'stretch' },
+  secondaryButtonText: { color: '#ff2b2b', fontWeight: '600' },
+  buttonDisabled: { opacity: 0.5 },
+  helpText: { color: '#666', marginBottom: 10, lineHeight: 20 },
+  overlay: { flex: 1, backgroundColor: 'rgba(0, 0, 0, 0.5)', justifyContent: 'center', padding: 20 },
+  modalCard: { backgroundColor: '#fff', borderRadius: 20, padding: 24 },
+  modalTitle: { fontSize: 18, fontWeight: 'bold', marginBottom: 8 },
+  input: { borderWidth: 1, borderColor: '#ddd', borderRadius: 8, padding: 12, marginBottom: 10, backgroundColor: '#fff' },
+  issueInput: { minHeight: 100, textAlignVertical: 'top' },
+});
@@ -0,0 +1,224 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  SafeAreaView,
+  ScrollView,
+  FlatList,
+  ActivityIndicator,
+  RefreshControl,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useRouter } from 'expo-router';
+import { api, isApiError } from '@/services/ApiService';
+import { HISTORY_FILTERS, SERVICE_ICONS, STATUS_COLORS } from '@/constants/History';
+import type { HistoryServiceType, HistoryTransaction } from '@/types/api';
+
+const PAGE_SIZE = 20;
+
+// Every wallet movement in one list: filter by service, search by reference
+// or recipient, pull to refresh and scroll for older pages.
+export default function Transactions() {
+  const router = useRouter();
+
+  const [serviceType, setServiceType] = useState<HistoryServiceType | null>(null);
+  const [search, setSearch] = useState('');
+  const [query, setQuery] = useState('');
+
+  const [transactions, setTransactions] = useState<HistoryTransaction[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isRefreshing, setIsRefreshing] = useState(false);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const [error, setError] = useState('');
+
+  // Responses for an older filter or search are dropped when they arrive late
+  const requestId = useRef(0);
+
+  // Search once typing pauses; the server needs at least 3 characters
+  useEffect(() => {
+    const trimmed = search.trim();
+    const timer = setTimeout(() => setQuery(trimmed.length >= 3 ? trimmed : ''), 400);
+    return () => clearTimeout(timer);
+  }, [search]);
+
+  const loadPage = useCallback(async (cursor?: string) => {
+    const id = ++requestId.current;
+    try {
+      const response = await api.getTransactions({
+        serviceType: serviceType ? [serviceType] : undefined,
+        q: query || undefined,
+        cursor,
+        limit: PAGE_SIZE,
+      });
+      if (id !== requestId.current) return;
+
+      setTransactions((current) => (cursor ? [...current, ...response.transactions] : response.transactions));
+      setNextCursor(response.pageInfo.nextCursor);
+      setError('');
+    } catch (loadError) {
+      if (id !== requestId.current) return;
+      setError(isApiError(loadError) ? loadError.message : 'Unable to load transactions');
+    }
+  }, [serviceType, query]);
+
+  useEffect(() => {
+    setIsLoading(true);
+    setNextCursor(null);
+    loadPage().finally(() => setIsLoading(false));
+  }, [loadPage]);
+
+  const handleRefresh = async () => {
+    setIsRefreshing(true);
+    await loadPage();
+    setIsRefreshing(false);
+  };
+
+  const handleEndReached = async () => {
+    if (!nextCursor || isLoadingMore || isLoading) return;
+    setIsLoadingMore(true);
+    await loadPage(nextCursor);
+    setIsLoadingMore(false);
+  };
+
+  const renderItem = ({ item }: { item: HistoryTransaction }) => {
+    const isCredit = item.direction === 'credit';
+    const counterparty = item.service.counterparty;
+
+    return (
+      <TouchableOpacity
+        style={styles.row}
+        onPress={() => router.push({ pathname: '/transaction-details', params: { reference: item.reference } })}
+      >
+        <View style={styles.iconCircle}>
+          <Ionicons name={SERVICE_ICONS[item.service.type] || 'wallet-outline'} size={20} color="#ff2b2b" />
+        </View>
+        <View style={styles.rowBody}>
+          <Text style={styles.rowTitle} numberOfLines={1}>
+            {item.service.label}{item.service.provider ? ` • ${item.service.provider.toUpperCase()}` : ''}
+          </Text>
+          <Text style={styles.rowSubtitle} numberOfLines={1}>
+            {counterparty ? counterparty.name || counterparty.identifier : item.description}
+          </Text>
+          <Text style={styles.rowDate}>{new Date(item.createdAt).toLocaleString()}</Text>
+        </View>
+        <View style={styles.rowRight}>
+          <Text style={[styles.rowAmount, isCredit && styles.creditAmount]}>
+            {isCredit ? '+' : '-'}₦{item.amount.toLocaleString()}
+          </Text>
+          <Text style={[styles.rowStatus, { color: STATUS_COLORS[item.status] || '#666' }]}>
+            {item.status.toUpperCase()}
+          </Text>
+        </View>
+      </TouchableOpacity>
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()}>
+          <Ionicons name="arrow-back-outline" size={24} color="#ff2b2b" />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Transactions</Text>
+        <View style={{ width: 24 }} />
+      </View>
+
+      <View style={styles.searchBox}>
+        <Ionicons name="search-outline" size={18} color="#999" />
+        <TextInput
+          style={styles.searchInput}
+          placeholder="Reference, phone, meter or smartcard"
+          value={search}
+          onChangeText={setSearch}
+          autoCapitalize="none"
+          autoCorrect={false}
+        />
+        {search ? (
+          <TouchableOpacity onPress={() => setSearch('')}>
+            <Ionicons name="close-circle" size={18} color="#999" />
+          </TouchableOpacity>
+        ) : null}
+      </View>
+
+      <View>
+        <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.chips}>
+          {HISTORY_FILTERS.map((filter) => {
+            const isActive = filter.type === serviceType;
+            return (
+              <TouchableOpacity
+                key={filter.label}
+                style={[styles.chip, isActive && styles.chipActive]}
+                onPress={() => setServiceType(filter.type)}
+              >
+                <Text style={[styles.chipText, isActive && styles.chipTextActive]}>{filter.label}</Text>
+              </TouchableOpacity>
+            );
+          })}
+        </ScrollView>
+      </View>
+
+      {isLoading ? (
+        <ActivityIndicator style={styles.loader} color="#ff2b2b" size="large" />
+      ) : (
+        <FlatList
+          data={transactions}
+          keyExtractor={(item) => item._id}
+          renderItem={renderItem}
+          contentContainerStyle={styles.list}
+          refreshControl={<RefreshControl refreshing={isRefreshing} onRefresh={handleRefresh} tintColor="#ff2b2b" />}
+          onEndReached={handleEndReached}
+          onEndReachedThreshold={0.4}
+          ListEmptyComponent={
+            <View style={styles.empty}>
+              <Text style={styles.emptyIcon}>🧾</Text>
+              <Text style={styles.emptyText}>
+                {error || (query || serviceType ? 'No transactions match your filters' : 'No transactions yet')}
+              </Text>
+              {error ? (
+                <TouchableOpacity style={styles.secondaryButton} onPress={handleRefresh}>
+                  <Text style={styles.secondaryButtonText}>Try Again</Text>
+                </TouchableOpacity>
+              ) : null}
+            </View>
+          }
+          ListFooterComponent={isLoadingMore ? <ActivityIndicator style={styles.footerLoader} color="#ff2b2b" /> : null}
+        />
+      )}
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: { flex: 1, backgroundColor: '#fafafa' },
+  header: { flexDirection: 'row', justifyContent: 'space-between', alignItems: 'center', padding: 20, backgroundColor: '#fff' },
+  headerTitle: { fontSize: 20, fontWeight: 'bold' },
+  searchBox: { flexDirection: 'row', alignItems: 'center', borderWidth: 1, borderColor: '#ddd', borderRadius: 8, paddingHorizontal: 12, margin: 16, marginBottom: 8, backgroundColor: '#fff' },
+  searchInput: { flex: 1, paddingVertical: 10, marginHorizontal: 8 },
+  chips: { paddingHorizontal: 16, paddingVertical: 8 },
+  chip: { borderWidth: 1, borderColor: '#ddd', borderRadius: 16, paddingVertical: 6, paddingHorizontal: 14, marginRight: 8, backgroundColor: '#fff' },
+  chipActive: { backgroundColor: '#ff2b2b', borderColor: '#ff2b2b' },
+  chipText: { color: '#333', fontSize: 13 },
+  chipTextActive: { color: '#fff', fontWeight: '600' },
+  loader: { marginTop: 40 },
+  list: { paddingHorizontal: 16, paddingBottom: 40, flexGrow: 1 },
+  row: { flexDirection: 'row', alignItems: 'center', backgroundColor: '#fff', borderRadius: 12, padding: 12, marginBottom: 8 },
+  iconCircle: { width: 40, height: 40, borderRadius: 20, backgroundColor: '#fff3f3', alignItems: 'center', justifyContent: 'center' },
+  rowBody: { flex: 1, marginHorizontal: 12 },
+  rowTitle: { fontWeight: '600', color: '#1a1a1a' },
+  rowSubtitle: { color: '#666', fontSize: 13, marginTop: 2 },
+  rowDate: { color: '#999', fontSize: 11, marginTop: 2 },
+  rowRight: { alignItems: 'flex-end' },
+  rowAmount: { fontWeight: 'bold', color: '#1a1a1a' },
+  creditAmount: { color: '#28a745' },
+  rowStatus: { fontSize: 11, fontWeight: '600', marginTop: 4 },
+  empty: { alignItems: 'center', marginTop: 60 },
+  emptyIcon: { fontSize: 40, marginBottom: 10 },
+  emptyText: { color: '#666', textAlign: 'center', marginBottom: 16 },
+  footerLoader: { marginVertical: 16 },
+  secondaryButton: { borderWidth: 1, borderColor: '#ff2b2b', paddingVertical: 10, paddingHorizontal: 24, borderRadius: 8 },
+  secondaryButtonText: { color: '#ff2b2b', fontWeight: '600' },
+});
@@ -1,16 +1,418 @@
-import React from 'react';
-import { View, Text, StyleSheet, SafeAreaView } from 'react-native';
+import React, { useContext, useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  SafeAreaView,
+  ScrollView,
+  ActivityIndicator,
+  Alert,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useRouter } from 'expo-router';
+import { api, isApiError } from '@/services/ApiService';
+import { useIdempotencyKey } from '@/hooks/useIdempotencyKey';
+import { limitErrorFor, useWalletLimits } from '@/hooks/useWalletLimits';
+import { AuthContext } from '../contexts/AuthContext';
+import TransferReceiptModal from './TransferReceiptModal';
+import LimitsSummary from './LimitsSummary';
+import type { PinStatusResponse, TransferReceipt, TransferRecipient } from '@/types/api';
 
+const MAX_TRANSFER_AMOUNT = 500000;
+const QUICK_AMOUNTS = [1000, 2000, 5000, 10000];
+
+// Three steps: find and confirm the recipient, enter the amount, then confirm with the PIN
 export default function Transfer() {
+  const router = useRouter();
+  const { refreshBalance } = useContext(AuthContext);
+
+  const [currentStep, setCurrentStep] = useState<1 | 2 | 3>(1);
+  const idempotencyKey = useIdempotencyKey(currentStep === 3);
+
+  const [query, setQuery] = useState('');
+  const [recipient, setRecipient] = useState<TransferRecipient | null>(null);
+  const [isLookingUp, setIsLookingUp] = useState(false);
+  const [lookupError, setLookupError] = useState('');
+
+  const [amount, setAmount] = useState('');
+  const [narration, setNarration] = useState('');
+  const [balance, setBalance] = useState<number | null>(null);
+  const { limits, refresh: refreshLimits } = useWalletLimits();
+
+  const [pin, setPin] = useState('');
+  const [pinError, setPinError] = useState('');
+  const [pinStatus, setPinStatus] = useState<PinStatusResponse | null>(null);
+  const [isSending, setIsSending] = useState(false);
+
+  const [receipt, setReceipt] = useState<TransferReceipt | null>(null);
+
+  const numericAmount = Number(amount) || 0;
+  const amountError =
+    numericAmount > MAX_TRANSFER_AMOUNT
+      ? `Maximum transfer is ₦${MAX_TRANSFER_AMOUNT.toLocaleString()}`
+      : balance !== null && numericAmount > balance
+        ? 'Insufficient wallet balance'
+        : limitErrorFor(limits, numericAmount);
+
+  useEffect(() => {
+    fetchBalance();
+  }, []);
+
+  useEffect(() => {
+    if (currentStep === 3) {
+      setPin('');
+      setPinError('');
+      checkPinStatus();
+    }
+  }, [currentStep]);
+
+  const fetchBalance = async () => {
+    try {
+      const response = await api.getBalance();
+      if (response.success && response.balance) {
+        setBalance(Number(response.balance.amount) || 0);
+      }
+    } catch (error) {
+      console.error('❌ Balance fetch error:', error);
+    }
+  };
+
+  const checkPinStatus = async () => {
+    try {
+      const response = await api.getPinStatus();
+      setPinStatus(response);
+    } catch (error) {
+      console.error('Error checking PIN status:', error);
+      setPinStatus(null);
+    }
+  };
+
+  const handleLookup = async () => {
+    const trimmed = query.trim();
+    setLookupError('');
+    setRecipient(null);
+
+    if (!trimmed) {
+      setLookupError('Enter a username, phone number or email');
+      return;
+    }
+
+    setIsLookingUp(true);
+    try {
+      const response = await api.lookupRecipient(trimmed);
+      setRecipient(response.recipient);
+    } catch (error) {
+      setLookupError(error instanceof Error ? error.message : 'Unable to find recipient');
+    } finally {
+      setIsLookingUp(false);
+    }
+  };
+
+  const handleSend = async () => {
+    if (!recipient || pin.length !== 4) {
+      setPinError('Enter your 4-digit transaction PIN');
+      return;
+    }
+
+    setIsSending(true);
+    setPinError('');
+    try {
+      const response = await api.transfer(
+        {
+          recipient: `@${recipient.username}`,
+          amount: numericAmount,
+          description: narration.trim() || undefined,
+          pin,
+        },
+        idempotencyKey
+      );
+
+      setBalance(response.transfer.newBalance);
+      setReceipt(response.receipt);
+      refreshBalance();
+      refreshLimits();
+    } catch (error) {
+      if (isApiError(error) && (error.serverCode === 'INVALID_PIN' || error.code === 'PIN_LOCKED')) {
+        setPin('');
+        setPinError(error.message);
+        await checkPinStatus();
+      } else if (isApiError(error) && error.serverCode === 'PHONE_NOT_VERIFIED') {
+        Alert.alert('Verify Your Phone', error.message, [
+          { text: 'Not Now', style: 'cancel' },
+          { text: 'Verify Now', onPress: () => router.push({ pathname: '/auth/verify', params: { channels: 'phone' } }) },
+        ]);
+      } else {
+        setPinError(error instanceof Error ? error.message : 'Transfer failed');
+        if (isApiError(error) && error.serverCode === 'LIMIT_EXCEEDED') refreshLimits();
+      }
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  const resetFlow = () => {
+    setReceipt(null);
+    setRecipient(null);
+    setQuery('');
+    setAmount('');
+    setNarration('');
+    setPin('');
+    setCurrentStep(1);
+  };
+
+  const handleBack = () => {
+    if (currentStep === 1) {
+      router.back();
+    } else {
+      setCurrentStep((currentStep - 1) as 1 | 2);
+    }
+  };
+
   return (
     <SafeAreaView style={styles.container}>
-      <Text style={styles.title}>Transfer</Text>
-      <Text>Page under construction</Text>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={handleBack}>
+          <Ionicons name="arrow-back-outline" size={24} color="#ff2b2b" />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Transfer</Text>
+        <Text style={styles.stepText}>Step {currentStep} of 3</Text>
+      </View>
+
+      <ScrollView contentContainerStyle={styles.content} keyboardShouldPersistTaps="handled">
+        {/* STEP 1: RECIPIENT */}
+        {currentStep === 1 && (
+          <>
+            <Text style={styles.label}>Send to</Text>
+            <View style={styles.lookupRow}>
+              <TextInput
+                style={[styles.input, styles.lookupInput]}
+                placeholder="Username, phone or email"
+                autoCapitalize="none"
+                autoCorrect={false}
+                value={query}
+                onChangeText={(text) => {
+                  setQuery(text);
+                  setRecipient(null);
+                  setLookupError('');
+                }}
+                onSubmitEditing={handleLookup}
+              />
+              <TouchableOpacity style={styles.lookupButton} onPress={handleLookup} disabled={isLookingUp}>
+                {isLookingUp ? (
+                  <ActivityIndicator color="#fff" />
+                ) : (
+                  <Ionicons name="search-outline" size={20} color="#fff" />
+                )}
+              </TouchableOpacity>
+            </View>
+
+            {lookupError ? <Text style={styles.errorText}>{lookupError}</Text> : null}
+
+            {recipient && (
+              <View style={styles.recipientCard}>
+                <Ionicons name="person-circle-outline" size={44} color="#ff2b2b" />
+                <View style={styles.recipientInfo}>
+                  <Text style={styles.recipientName}>{recipient.name}</Text>
+                  <Text style={styles.recipientMeta}>
+                    @{recipient.username}
+                    {recipient.phone ? ` • ${recipient.phone}` : ''}
+                  </Text>
+                </View>
+              </View>
+            )}
+
+            {recipient && (
+              <Text style={styles.helpText}>
+                Make sure this is the person you want to pay. Transfers can&apos;t be reversed.
+              </Text>
+            )}
+
+            <TouchableOpacity
+              style={[styles.primaryButton, !recipient && styles.buttonDisabled]}
+              onPress={() => setCurrentStep(2)}
+              disabled={!recipient}
+            >
+              <Text style={styles.primaryButtonText}>
+                {recipient ? `Continue to pay ${recipient.name.split(' ')[0]}` : 'Find Recipient'}
+              </Text>
+            </TouchableOpacity>
+          </>
+        )}
+
+        {/* STEP 2: AMOUNT */}
+        {currentStep === 2 && recipient && (
+          <>
+            <Text style={styles.label}>Amount</Text>
+            <TextInput
+              style={[styles.input, styles.amountInput]}
+              placeholder="₦0"
+              keyboardType="numeric"
+              value={amount}
+              onChangeText={(text) => setAmount(text.replace(/[^\d]/g, ''))}
+            />
+            {balance !== null && (
+              <Text style={styles.helpText}>Wallet balance: ₦{balance.toLocaleString()}</Text>
+            )}
+            {amountError ? <Text style={styles.errorText}>{amountError}</Text> : null}
+            <LimitsSummary limits={limits} />
+
+            <View style={styles.quickAmounts}>
+              {QUICK_AMOUNTS.map((value) => (
+                <TouchableOpacity key={value} style={styles.quickAmount} onPress={() => setAmount(String(value))}>
+                  <Text style={styles.quickAmountText}>₦{value.toLocaleString()}</Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+
+            <Text style={styles.label}>Narration (optional)</Text>
+            <TextInput
+              style={styles.input}
+              placeholder="What's it for?"
+              maxLength={100}
+              value={narration}
+              onChangeText={setNarration}
+            />
+
+            <TouchableOpacity
+              style={[styles.primaryButton, (!numericAmount || amountError) && styles.buttonDisabled]}
+              onPress={() => setCurrentStep(3)}
+              disabled={!numericAmount || !!amountError}
+            >
+              <Text style={styles.primaryButtonText}>Review Transfer</Text>
+            </TouchableOpacity>
+          </>
+        )}
+
+        {/* STEP 3: CONFIRM WITH PIN */}
+        {currentStep === 3 && recipient && (
+          <>
+            <View style={styles.summaryCard}>
+              <Text style={styles.summaryTitle}>Confirm Transfer</Text>
+              <View style={styles.summaryRow}>
+                <Text style={styles.summaryLabel}>To:</Text>
+                <Text style={styles.summaryValue}>{recipient.name}</Text>
+              </View>
+              <View style={styles.summaryRow}>
+                <Text style={styles.summaryLabel}>Username:</Text>
+                <Text style={styles.summaryValue}>@{recipient.username}</Text>
+              </View>
+              {narration.trim() ? (
+                <View style={styles.summaryRow}>
+                  <Text style={styles.summaryLabel}>Narration:</Text>
+                  <Text style={styles.summaryValue}>{narration.trim()}</Text>
+                </View>
+              ) : null}
+              <View style={styles.summaryRow}>
+                <Text style={styles.summaryLabel}>Amount:</Text>
+                <Text style={[styles.summaryValue, styles.summaryAmount]}>₦{numericAmount.toLocaleString()}</Text>
+              </View>
+            </View>
+
+            {pinStatus?.isLocked ? (
+              <View style={styles.lockedCard}>
+                <Text style={styles.lockedTitle}>🔒 PIN Locked</Text>
+                <Text style={styles.lockedText}>
+                  Too many failed PIN attempts. Please try again in {pinStatus.lockTimeRemaining} minutes.
+                </Text>
+                <TouchableOpacity onPress={() => router.push('/forgot-pin')}>
+                  <Text style={styles.linkText}>Reset your PIN</Text>
+                </TouchableOpacity>
+              </View>
+            ) : pinStatus && !pinStatus.isPinSet ? (
+              <View style={styles.lockedCard}>
+                <Text style={styles.lockedTitle}>📱 PIN Required</Text>
+                <Text style={styles.lockedText}>
+                  You need to set up a 4-digit transaction PIN before sending money.
+                </Text>
+              </View>
+            ) : (
+              <>
+                <Text style={styles.label}>Enter your 4-digit PIN</Text>
+                {pinStatus && pinStatus.attemptsRemaining < 3 && (
+                  <Text style={styles.warningText}>⚠️ {pinStatus.attemptsRemaining} attempts remaining</Text>
+                )}
+                <TextInput
+                  style={[styles.input, styles.pinInput, pinError ? styles.inputError : null]}
+                  value={pin}
+                  onChangeText={(text) => {
+                    setPin(text.replace(/\D/g, '').substring(0, 4));
+                    setPinError('');
+                  }}
+                  keyboardType="numeric"
+                  secureTextEntry={true}
+                  placeholder="****"
+                  maxLength={4}
+                  autoFocus={true}
+                />
+                {pinError ? <Text style={styles.errorText}>{pinError}</Text> : null}
+
+                <TouchableOpacity
+                  style={[styles.primaryButton, (pin.length !== 4 || isSending) && styles.buttonDisabled]}
+                  onPress={handleSend}
+                  disabled={pin.length !== 4 || isSending}
+                >
+                  {isSending ? (
+                    <ActivityIndicator color="#fff" />
+                  ) : (
+                    <Text style={styles.primaryButtonText}>Send ₦{numericAmount.toLocaleString()}</Text>
+                  )}
+                </TouchableOpacity>
+              </>
+            )}
+          </>
+        )}
+      </ScrollView>
+
+      <TransferReceiptModal
+        visible={!!receipt}
+        receipt={receipt}
+        onSendAgain={resetFlow}
+        onClose={() => {
+          setReceipt(null);
+          router.replace('/dashboard');
+        }}
+      />
     </SafeAreaView>
   );
 }
 
 const styles = StyleSheet.create({
-  container: { flex: 1, justifyContent: 'center', alignItems: 'center' },
-  title: { fontSize: 24, fontWeight: 'bold', marginBottom: 10 },
+  container: { flex: 1, backgroundColor: '#fafafa' },
+  header: { flexDirection: 'row', justifyContent: 'space-between', alignItems: 'center', padding: 20, backgroundColor: '#fff' },
+  headerTitle: { fontSize: 20, fontWeight: 'bold' },
+  stepText: { color: '#666', fontSize: 12 },
+  content: { padding: 20, paddingBottom: 40 },
+  label: { fontSize: 14, fontWeight: '600', color: '#333', marginBottom: 8, marginTop: 10 },
+  input: { borderWidth: 1, borderColor: '#ddd', borderRadius: 8, padding: 12, marginBottom: 10, backgroundColor: '#fff' },
+  inputError: { borderColor: '#ff2b2b' },
+  lookupRow: { flexDirection: 'row', alignItems: 'flex-start', gap: 10 },
+  lookupInput: { flex: 1 },
+  lookupButton: { backgroundColor: '#ff2b2b', borderRadius: 8, padding: 14, alignItems: 'center', justifyContent: 'center' },
+  recipientCard: { flexDirection: 'row', alignItems: 'center', backgroundColor: '#fff', borderRadius: 12, padding: 16, marginVertical: 10, borderWidth: 1, borderColor: '#f1d4d4' },
+  recipientInfo: { marginLeft: 12, flex: 1 },
+  recipientName: { fontSize: 16, fontWeight: 'bold', color: '#1a1a1a' },
+  recipientMeta: { color: '#666', marginTop: 2 },
+  amountInput: { fontSize: 24, fontWeight: 'bold' },
+  quickAmounts: { flexDirection: 'row', flexWrap: 'wrap', gap: 10, marginVertical: 10 },
+  quickAmount: { borderWidth: 1, borderColor: '#ff2b2b', borderRadius: 20, paddingVertical: 8, paddingHorizontal: 14 },
+  quickAmountText: { color: '#ff2b2b', fontWeight: '600' },
+  summaryCard: { backgroundColor: '#fff', borderRadius: 12, padding: 16, marginBottom: 20 },
+  summaryTitle: { fontSize: 16, fontWeight: 'bold', marginBottom: 10 },
+  summaryRow: { flexDirection: 'row', justifyContent: 'space-between', paddingVertical: 6 },
+  summaryLabel: { color: '#666' },
+  summaryValue: { fontWeight: '600', color: '#1a1a1a', flexShrink: 1, textAlign: 'right' },
+  summaryAmount: { color: '#ff2b2b', fontSize: 16 },
+  pinInput: { fontSize: 24, textAlign: 'center', letterSpacing: 12 },
+  lockedCard: { backgroundColor: '#fff3f3', borderRadius: 12, padding: 16, alignItems: 'center' },
+  lockedTitle: { fontSize: 16, fontWeight: 'bold', marginBottom: 6 },
+  lockedText: { color: '#666', textAlign: 'center', marginBottom: 10 },
+  primaryButton: { backgroundColor: '#ff2b2b', padding: 15, borderRadius: 8, alignItems: 'center', marginTop: 20 },
+  primaryButtonText: { color: '#fff', fontWeight: '600' },
+  buttonDisabled: { opacity: 0.5 },
+  helpText: { color: '#666', marginBottom: 10, lineHeight: 20 },
+  warningText: { color: '#e67e22', marginBottom: 8 },
+  errorText: { color: 'red', marginBottom: 10, fontWeight: '500' },
+  linkText: { color: '#ff2b2b', fontWeight: '600' },
 });
@@ -0,0 +1,510 @@
+import React, { useContext, useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  SafeAreaView,
+  ScrollView,
+  ActivityIndicator,
+  Alert,
+  Modal,
+  FlatList,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useRouter } from 'expo-router';
+import { api, isApiError } from '@/services/ApiService';
+import { useIdempotencyKey } from '@/hooks/useIdempotencyKey';
+import { limitErrorFor, useWalletLimits } from '@/hooks/useWalletLimits';
+import { AuthContext } from '../contexts/AuthContext';
+import LimitsSummary from './LimitsSummary';
+import type { Bank, PinStatusResponse, ResolvedBankAccount, Withdrawal, WithdrawalFeeResponse } from '@/types/api';
+
+// Three steps: choose the bank account (its name is looked up), enter the
+// amount and see the fee, then confirm with the PIN.
+export default function Withdraw() {
+  const router = useRouter();
+  const { refreshBalance } = useContext(AuthContext);
+
+  const [currentStep, setCurrentStep] = useState<1 | 2 | 3>(1);
+  const idempotencyKey = useIdempotencyKey(currentStep === 3);
+
+  const [banks, setBanks] = useState<Bank[]>([]);
+  const [bankSearch, setBankSearch] = useState('');
+  const [showBankPicker, setShowBankPicker] = useState(false);
+  const [selectedBank, setSelectedBank] = useState<Bank | null>(null);
+  const [accountNumber, setAccountNumber] = useState('');
+  const [account, setAccount] = useState<ResolvedBankAccount | null>(null);
+  const [isResolving, setIsResolving] = useState(false);
+  const [accountError, setAccountError] = useState('');
+
+  const [amount, setAmount] = useState('');
+  const [narration, setNarration] = useState('');
+  const [quote, setQuote] = useState<WithdrawalFeeResponse | null>(null);
+  const [amountError, setAmountError] = useState('');
+  const [balance, setBalance] = useState<number | null>(null);
+  const { limits, refresh: refreshLimits } = useWalletLimits();
+
+  const [pin, setPin] = useState('');
+  const [pinError, setPinError] = useState('');
+  const [pinStatus, setPinStatus] = useState<PinStatusResponse | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const [withdrawal, setWithdrawal] = useState<Withdrawal | null>(null);
+  const [isCheckingStatus, setIsCheckingStatus] = useState(false);
+
+  const numericAmount = Number(amount) || 0;
+
+  useEffect(() => {
+    loadBanks();
+    fetchBalance();
+  }, []);
+
+  useEffect(() => {
+    if (currentStep === 3) {
+      setPin('');
+      setPinError('');
+      checkPinStatus();
+    }
+  }, [currentStep]);
+
+  // Look the account name up as soon as we have a bank and 10 digits
+  useEffect(() => {
+    setAccount(null);
+    setAccountError('');
+    if (selectedBank && /^\d{10}$/.test(accountNumber)) {
+      resolveAccount(selectedBank.code, accountNumber);
+    }
+  }, [selectedBank, accountNumber]);
+
+  const loadBanks = async () => {
+    try {
+      const response = await api.getBanks();
+      setBanks(response.data);
+    } catch (error) {
+      setAccountError(error instanceof Error ? error.message : 'Unable to load banks');
+    }
+  };
+
+  const fetchBalance = async () => {
+    try {
+      const response = await api.getBalance();
+      if (response.success && response.balance) {
+        setBalance(Number(response.balance.amount) || 0);
+      }
+    } catch (error) {
+      console.error('❌ Balance fetch error:', error);
+    }
+  };
+
+  const checkPinStatus = async () => {
+    try {
+      setPinStatus(await api.getPinStatus());
+    } catch (error) {
+      console.error('Error checking PIN status:', error);
+      setPinStatus(null);
+    }
+  };
+
+  const resolveAccount = async (bankCode: string, number: string) => {
+    setIsResolving(true);
+    try {
+      const response = await api.resolveBankAccount(bankCode, number);
+      setAccount(response.data);
+    } catch (error) {
+      setAccountError(error instanceof Error ? error.message : 'Unable to verify account');
+    } finally {
+      setIsResolving(false);
+    }
+  };
+
+  const handleReview = async () => {
+    setAmountError('');
+    try {
+      const response = await api.getWithdrawalFee(numericAmount);
+      if (numericAmount < response.limits.min || numericAmount > response.limits.max) {
+        setAmountError(
+          `Amount must be between ₦${response.limits.min.toLocaleString()} and ₦${response.limits.max.toLocaleString()}`
+        );
+        return;
+      }
+      const limitError = limitErrorFor(limits, numericAmount);
+      if (limitError) {
+        setAmountError(limitError);
+        return;
+      }
+      if (balance !== null && response.totalDebit > balance) {
+        setAmountError(`Insufficient balance. You need ₦${response.totalDebit.toLocaleString()} including the fee.`);
+        return;
+      }
+      setQuote(response);
+      setCurrentStep(3);
+    } catch (error) {
+      setAmountError(error instanceof Error ? error.message : 'Unable to calculate fee');
+    }
+  };
+
+  const handleWithdraw = async () => {
+    if (!selectedBank || !account || pin.length !== 4) return;
+
+    setIsSubmitting(true);
+    setPinError('');
+    try {
+      const response = await api.withdraw(
+        {
+          bankCode: selectedBank.code,
+          accountNumber: account.accountNumber,
+          amount: numericAmount,
+          narration: narration.trim() || undefined,
+          pin,
+        },
+        idempotencyKey
+      );
+      setWithdrawal(response.withdrawal);
+      refreshBalance();
+      refreshLimits();
+    } catch (error) {
+      if (isApiError(error) && (error.serverCode === 'INVALID_PIN' || error.code === 'PIN_LOCKED')) {
+        setPin('');
+        setPinError(error.message);
+        await checkPinStatus();
+      } else if (isApiError(error) && typeof error.data?.withdrawal === 'object' && error.data.withdrawal) {
+        // The payout was attempted and failed; the wallet has been refunded
+        setWithdrawal(error.data.withdrawal as Withdrawal);
+        refreshBalance();
+      } else if (isApiError(error) && error.serverCode === 'PHONE_NOT_VERIFIED') {
+        Alert.alert('Verify Your Phone', error.message, [
+          { text: 'Not Now', style: 'cancel' },
+          { text: 'Verify Now', onPress: () => router.push({ pathname: '/auth/verify', params: { channels: 'phone' } }) },
+        ]);
+      } else {
+        setPinError(error instanceof Error ? error.message : 'Withdrawal failed');
+        if (isApiError(error) && error.serverCode === 'LIMIT_EXCEEDED') refreshLimits();
+      }
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const checkStatus = async () => {
+    if (!withdrawal) return;
+    setIsCheckingStatus(true);
+    try {
+      const response = await api.getWithdrawal(withdrawal.reference);
+      setWithdrawal(response.withdrawal);
+      if (response.withdrawal.status !== 'pending') refreshBalance();
+    } catch (error) {
+      console.error('Withdrawal status error:', error);
+    } finally {
+      setIsCheckingStatus(false);
+    }
+  };
+
+  const handleBack = () => {
+    if (withdrawal || currentStep === 1) {
+      router.back();
+    } else {
+      setCurrentStep((currentStep - 1) as 1 | 2);
+    }
+  };
+
+  const filteredBanks = banks.filter((bank) => bank.name.toLowerCase().includes(bankSearch.trim().toLowerCase()));
+
+  const statusCopy: Record<Withdrawal['status'], { icon: string; title: string; text: string }> = {
+    settled: { icon: '✅', title: 'Withdrawal Successful', text: 'The money has been sent to the bank account.' },
+    pending: { icon: '⏳', title: 'Withdrawal Processing', text: 'The bank has not confirmed this payout yet.' },
+    failed: { icon: '❌', title: 'Withdrawal Failed', text: 'Your wallet has been refunded, including the fee.' },
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={handleBack}>
+          <Ionicons name="arrow-back-outline" size={24} color="#ff2b2b" />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Withdraw to Bank</Text>
+        <Text style={styles.stepText}>{withdrawal ? '' : `Step ${currentStep} of 3`}</Text>
+      </View>
+
+      <ScrollView contentContainerStyle={styles.content} keyboardShouldPersistTaps="handled">
+        {withdrawal ? (
+          <View style={styles.resultCard}>
+            <Text style={styles.resultIcon}>{statusCopy[withdrawal.status].icon}</Text>
+            <Text style={styles.resultTitle}>{statusCopy[withdrawal.status].title}</Text>
+            <Text style={styles.helpText}>{withdrawal.failureReason || statusCopy[withdrawal.status].text}</Text>
+
+            <View style={styles.summaryCard}>
+              <View style={styles.summaryRow}>
+                <Text style={styles.summaryLabel}>Amount:</Text>
+                <Text style={styles.summaryValue}>₦{withdrawal.amount.toLocaleString()}</Text>
+              </View>
+              <View style={styles.summaryRow}>
+                <Text style={styles.summaryLabel}>Fee:</Text>
+                <Text style={styles.summaryValue}>₦{withdrawal.fee.toLocaleString()}</Text>
+              </View>
+              <View style={styles.summaryRow}>
+                <Text style={styles.summaryLabel}>To:</Text>
+                <Text style={styles.summaryValue}>{withdrawal.bank.accountName}</Text>
+              </View>
+              <View style={styles.summaryRow}>
+                <Text style={styles.summaryLabel}>Bank:</Text>
+                <Text style={styles.summaryValue}>{withdrawal.bank.name} • {withdrawal.bank.accountNumber}</Text>
+              </View>
+              <View style={styles.summaryRow}>
+                <Text style={styles.summaryLabel}>Reference:</Text>
+                <Text style={styles.summaryValue}>{withdrawal.reference}</Text>
+              </View>
+            </View>
+
+            {withdrawal.status === 'pending' && (
+              <TouchableOpacity style={styles.secondaryButton} onPress={checkStatus} disabled={isCheckingStatus}>
+                {isCheckingStatus ? (
+                  <ActivityIndicator color="#ff2b2b" />
+                ) : (
+                  <Text style={styles.secondaryButtonText}>🔄 Check Status</Text>
+                )}
+              </TouchableOpacity>
+            )}
+
+            <TouchableOpacity style={styles.primaryButton} onPress={() => router.replace('/dashboard')}>
+              <Text style={styles.primaryButtonText}>Done</Text>
+            </TouchableOpacity>
+          </View>
+        ) : (
+          <>
+            {/* STEP 1: BANK ACCOUNT */}
+            {currentStep === 1 && (
+              <>
+                <Text style={styles.label}>Bank</Text>
+                <TouchableOpacity style={[styles.input, styles.pickerInput]} onPress={() => setShowBankPicker(true)}>
+                  <Text style={selectedBank ? styles.pickerText : styles.placeholderText}>
+                    {selectedBank ? selectedBank.name : 'Select bank'}
+                  </Text>
+                  <Ionicons name="chevron-down-outline" size={18} color="#666" />
+                </TouchableOpacity>
+
+                <Text style={styles.label}>Account Number</Text>
+                <TextInput
+                  style={styles.input}
+                  placeholder="10-digit account number"
+                  keyboardType="number-pad"
+                  maxLength={10}
+                  value={accountNumber}
+                  onChangeText={(text) => setAccountNumber(text.replace(/\D/g, ''))}
+                />
+
+                {isResolving && (
+                  <View style={styles.resolvingRow}>
+                    <ActivityIndicator color="#ff2b2b" size="small" />
+                    <Text style={styles.helpText}> Verifying account...</Text>
+                  </View>
+                )}
+                {accountError ? <Text style={styles.errorText}>{accountError}</Text> : null}
+                {account && (
+                  <View style={styles.accountCard}>
+                    <Ionicons name="checkmark-circle" size={22} color="#28a745" />
+                    <Text style={styles.accountName}>{account.accountName}</Text>
+                  </View>
+                )}
+
+                <TouchableOpacity
+                  style={[styles.primaryButton, !account && styles.buttonDisabled]}
+                  onPress={() => setCurrentStep(2)}
+                  disabled={!account}
+                >
+                  <Text style={styles.primaryButtonText}>Continue</Text>
+                </TouchableOpacity>
+              </>
+            )}
+
+            {/* STEP 2: AMOUNT */}
+            {currentStep === 2 && account && (
+              <>
+                <Text style={styles.label}>Amount</Text>
+                <TextInput
+                  style={[styles.input, styles.amountInput]}
+                  placeholder="₦0"
+                  keyboardType="numeric"
+                  value={amount}
+                  onChangeText={(text) => {
+                    setAmount(text.replace(/[^\d]/g, ''));
+                    setAmountError('');
+                  }}
+                />
+                {balance !== null && (
+                  <Text style={styles.helpText}>Wallet balance: ₦{balance.toLocaleString()}</Text>
+                )}
+                {amountError ? <Text style={styles.errorText}>{amountError}</Text> : null}
+                <LimitsSummary limits={limits} />
+
+                <Text style={styles.label}>Narration (optional)</Text>
+                <TextInput
+                  style={styles.input}
+                  placeholder="Shown on the recipient's statement"
+                  maxLength={100}
+                  value={narration}
+                  onChangeText={setNarration}
+                />
+
+                <TouchableOpacity
+                  style={[styles.primaryButton, !numericAmount && styles.buttonDisabled]}
+                  onPress={handleReview}
+                  disabled={!numericAmount}
+                >
+                  <Text style={styles.primaryButtonText}>Review Withdrawal</Text>
+                </TouchableOpacity>
+              </>
+            )}
+
+            {/* STEP 3: CONFIRM WITH PIN */}
+            {currentStep === 3 && account && quote && (
+              <>
+                <View style={styles.summaryCard}>
+                  <Text style={styles.summaryTitle}>Confirm Withdrawal</Text>
+                  <View style={styles.summaryRow}>
+                    <Text style={styles.summaryLabel}>To:</Text>
+                    <Text style={styles.summaryValue}>{account.accountName}</Text>
+                  </View>
+                  <View style={styles.summaryRow}>
+                    <Text style={styles.summaryLabel}>Bank:</Text>
+                    <Text style={styles.summaryValue}>{account.bankName} • {account.accountNumber}</Text>
+                  </View>
+                  <View style={styles.summaryRow}>
+                    <Text style={styles.summaryLabel}>Amount:</Text>
+                    <Text style={styles.summaryValue}>₦{quote.amount.toLocaleString()}</Text>
+                  </View>
+                  <View style={styles.summaryRow}>
+                    <Text style={styles.summaryLabel}>Fee:</Text>
+                    <Text style={styles.summaryValue}>₦{quote.fee.toLocaleString()}</Text>
+                  </View>
+                  <View style={styles.summaryRow}>
+                    <Text style={styles.summaryLabel}>Total:</Text>
+                    <Text style={[styles.summaryValue, styles.summaryAmount]}>₦{quote.totalDebit.toLocaleString()}</Text>
+                  </View>
+                </View>
+
+                {pinStatus?.isLocked ? (
+                  <View style={styles.lockedCard}>
+                    <Text style={styles.lockedTitle}>🔒 PIN Locked</Text>
+                    <Text style={styles.helpText}>
+                      Too many failed PIN attempts. Please try again in {pinStatus.lockTimeRemaining} minutes.
+                    </Text>
+                  </View>
+                ) : (
+                  <>
+                    <Text style={styles.label}>Enter your 4-digit PIN</Text>
+                    {pinStatus && pinStatus.attemptsRemaining < 3 && (
+                      <Text style={styles.warningText}>⚠️ {pinStatus.attemptsRemaining} attempts remaining</Text>
+                    )}
+                    <TextInput
+                      style={[styles.input, styles.pinInput, pinError ? styles.inputError : null]}
+                      value={pin}
+                      onChangeText={(text) => {
+                        setPin(text.replace(/\D/g, '').substring(0, 4));
+                        setPinError('');
+                      }}
+                      keyboardType="numeric"
+                      secureTextEntry={true}
+                      placeholder="****"
+                      maxLength={4}
+                      autoFocus={true}
+                    />
+                    {pinError ? <Text style={styles.errorText}>{pinError}</Text> : null}
+
+                    <TouchableOpacity
+                      style={[styles.primaryButton, (pin.length !== 4 || isSubmitting) && styles.buttonDisabled]}
+                      onPress={handleWithdraw}
+                      disabled={pin.length !== 4 || isSubmitting}
+                    >
+                      {isSubmitting ? (
+                        <ActivityIndicator color="#fff" />
+                      ) : (
+                        <Text style={styles.primaryButtonText}>Withdraw ₦{quote.amount.toLocaleString()}</Text>
+                      )}
+                    </TouchableOpacity>
+                  </>
+                )}
+              </>
+            )}
+          </>
+        )}
+      </ScrollView>
+
+      <Modal visible={showBankPicker} animationType="slide" onRequestClose={() => setShowBankPicker(false)}>
+        <SafeAreaView style={styles.container}>
+          <View style={styles.header}>
+            <TouchableOpacity onPress={() => setShowBankPicker(false)}>
+              <Ionicons name="close-outline" size={26} color="#ff2b2b" />
+            </TouchableOpacity>
+            <Text style={styles.headerTitle}>Select Bank</Text>
+            <View style={{ width: 26 }} />
+          </View>
+          <TextInput
+            style={[styles.input, styles.bankSearch]}
+            placeholder="Search banks"
+            value={bankSearch}
+            onChangeText={setBankSearch}
+          />
+          <FlatList
+            data={filteredBanks}
+            keyExtractor={(bank) => bank.code}
+            renderItem={({ item }) => (
+              <TouchableOpacity
+                style={styles.bankItem}
+                onPress={() => {
+                  setSelectedBank(item);
+                  setShowBankPicker(false);
+                  setBankSearch('');
+                }}
+              >
+                <Text style={styles.pickerText}>{item.name}</Text>
+                {selectedBank?.code === item.code && <Ionicons name="checkmark" size={18} color="#ff2b2b" />}
+              </TouchableOpacity>
+            )}
+          />
+        </SafeAreaView>
+      </Modal>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: { flex: 1, backgroundColor: '#fafafa' },
+  header: { flexDirection: 'row', justifyContent: 'space-between', alignItems: 'center', padding: 20, backgroundColor: '#fff' },
+  headerTitle: { fontSize: 20, fontWeight: 'bold' },
+  stepText: { color: '#666', fontSize: 12 },
+  content: { padding: 20, paddingBottom: 40 },
+  label: { fontSize: 14, fontWeight: '600', color: '#333', marginBottom: 8, marginTop: 10 },
+  input: { borderWidth: 1, borderColor: '#ddd', borderRadius: 8, padding: 12, marginBottom: 10, backgroundColor: '#fff' },
+  inputError: { borderColor: '#ff2b2b' },
+  pickerInput: { flexDirection: 'row', justifyContent: 'space-between', alignItems: 'center' },
+  pickerText: { color: '#1a1a1a', fontSize: 15 },
+  placeholderText: { color: '#999', fontSize: 15 },
+  resolvingRow: { flexDirection: 'row', alignItems: 'center' },
+  accountCard: { flexDirection: 'row', alignItems: 'center', backgroundColor: '#eefaf1', borderRadius: 8, padding: 12, marginBottom: 10 },
+  accountName: { marginLeft: 8, fontWeight: 'bold', color: '#1a1a1a' },
+  amountInput: { fontSize: 24, fontWeight: 'bold' },
+  summaryCard: { backgroundColor: '#fff', borderRadius: 12, padding: 16, marginBottom: 20, width: '100%' },
+  summaryTitle: { fontSize: 16, fontWeight: 'bold', marginBottom: 10 },
+  summaryRow: { flexDirection: 'row', justifyContent: 'space-between', paddingVertical: 6 },
+  summaryLabel: { color: '#666' },
+  summaryValue: { fontWeight: '600', color: '#1a1a1a', flexShrink: 1, textAlign: 'right' },
+  summaryAmount: { color: '#ff2b2b', fontSize: 16 },
+  pinInput: { fontSize: 24, textAlign: 'center', letterSpacing: 12 },
+  lockedCard: { backgroundColor: '#fff3f3', borderRadius: 12, padding: 16, alignItems: 'center' },
+  lockedTitle: { fontSize: 16, fontWeight: 'bold', marginBottom: 6 },
+  resultCard: { alignItems: 'center' },
+  resultIcon: { fontSize: 48, marginBottom: 12 },
+  resultTitle: { fontSize: 22, fontWeight: 'bold', marginBottom: 8 },
+  primaryButton: { backgroundColor: '#ff2b2b', padding: 15, borderRadius: 8, alignItems: 'center', marginTop: 20, alignSelf: 'stretch' },
+  primaryButtonText: { color: '#fff', fontWeight: '600' },
+  secondaryButton: { borderWidth: 1, borderColor: '#ff2b2b', padding: 15, borderRadius: 8, alignItems: 'center', alignSelf: 'stretch' },
+  secondaryButtonText: { color: '#ff2b2b', fontWeight: '600' },
+  buttonDisabled: { opacity: 0.5 },
+  helpText: { color: '#666', marginBottom: 10, lineHeight: 20, textAlign: 'center' },
+  warningText: { color: '#e67e22', marginBottom: 8 },
+  errorText: { color: 'red', marginBottom: 10, fontWeight: '500' },
+  bankSearch: { marginHorizontal: 20, marginTop: 10 },
+  bankItem: { flexDirection: 'row', justifyContent: 'space-between', paddingVertical: 14, paddingHorizontal: 20, borderBottomWidth: 1, borderBottomColor: '#eee' },
+});
@@ -0,0 +1,38 @@
+/**
+ * Backend connection settings per environment.
+ * Select an environment with EXPO_PUBLIC_APP_ENV, or point the app at any host with EXPO_PUBLIC_API_URL
+ * (for example in `.env.development.local`).
+ */
+
+type AppEnvironment = 'development' | 'staging' | 'production';
+
+const environments: Record<AppEnvironment, { apiUrl: string; timeoutMs: number }> = {
+  development: {
+    apiUrl: 'http://localhost:5000',
+    timeoutMs: 30000,
+  },
+  staging: {
+    apiUrl: process.env.EXPO_PUBLIC_STAGING_API_URL || 'http://localhost:5000',
+    timeoutMs: 30000,
+  },
+  production: {
+    apiUrl: process.env.EXPO_PUBLIC_PRODUCTION_API_URL || 'http://localhost:5000',
+    timeoutMs: 20000,
+  },
+};
+
+// Purchases wait on the VTU provider, which the server gives up to 60 seconds
+// (PROVIDER_TIMEOUT_MS in backend/routes/purchase.js) before answering that the
+// purchase is pending. Waiting longer than that lets the app hear the answer
+// instead of reporting a timeout for a purchase that may have gone through.
+const VEND_TIMEOUT_MS = 90000;
+
+const appEnv = (process.env.EXPO_PUBLIC_APP_ENV as AppEnvironment) || (__DEV__ ? 'development' : 'production');
+const current = environments[appEnv] || environments.development;
+
+export const ApiConfig = {
+  environment: appEnv,
+  baseUrl: `${(process.env.EXPO_PUBLIC_API_URL || current.apiUrl).replace(/\/+$/, '')}/api`,
+  timeoutMs: current.timeoutMs,
+  vendTimeoutMs: VEND_TIMEOUT_MS,
+};
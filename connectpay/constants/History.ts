@@ -0,0 +1,41 @@
+import type { Ionicons } from '@expo/vector-icons';
+import type { HistoryServiceType } from '@/types/api';
+
+// Filter chips on the history screen; null is "All"
+export const HISTORY_FILTERS: { type: HistoryServiceType | null; label: string }[] = [
+  { type: null, label: 'All' },
+  { type: 'airtime', label: 'Airtime' },
+  { type: 'data', label: 'Data' },
+  { type: 'electricity', label: 'Electricity' },
+  { type: 'cable_tv', label: 'Cable TV' },
+  { type: 'internet', label: 'Internet' },
+  { type: 'betting', label: 'Betting' },
+  { type: 'print_recharge', label: 'Recharge Cards' },
+  { type: 'education', label: 'Education' },
+  { type: 'transfer', label: 'Transfers' },
+  { type: 'withdrawal', label: 'Withdrawals' },
+  { type: 'funding', label: 'Funding' },
+];
+
+export const SERVICE_ICONS: Record<string, keyof typeof Ionicons.glyphMap> = {
+  airtime: 'call-outline',
+  data: 'wifi-outline',
+  electricity: 'flash-outline',
+  cable_tv: 'tv-outline',
+  internet: 'globe-outline',
+  betting: 'football-outline',
+  print_recharge: 'print-outline',
+  education: 'school-outline',
+  transfer: 'send-outline',
+  withdrawal: 'cash-outline',
+  funding: 'add-circle-outline',
+  fee: 'receipt-outline',
+  adjustment: 'construct-outline',
+};
+
+export const STATUS_COLORS: Record<string, string> = {
+  completed: '#28a745',
+  pending: '#e67e22',
+  failed: '#ff2b2b',
+  cancelled: '#999',
+};
@@ -1,19 +1,12 @@
-import React, { createContext, useState, useEffect } from 'react';
+import React, { createContext, useState, useEffect, useRef } from 'react';
 import { Platform, Alert } from 'react-native';
 import * as SecureStore from 'expo-secure-store';
+import * as Crypto from 'expo-crypto';
+import Constants from 'expo-constants';
+import { api } from '../services/ApiService';
 
 const AuthContext = createContext();
 
-// API Configuration
-const API_CONFIG = {
-  BASE_URL: 'http://localhost:5000/api',
-  ENDPOINTS: {
-    PROFILE: '/auth/profile',
-    BALANCE: '/balance',
-    TRANSACTIONS: '/transactions',
-  }
-};
-
 // Storage helper that works on both mobile and web
 const storage = {
   async getItem(key) {
@@ -41,14 +34,52 @@ const storage = {
   }
 };
 
+const TOKEN_KEY = 'userToken';
+const REFRESH_TOKEN_KEY = 'refreshToken';
+const DEVICE_ID_KEY = 'deviceId';
+const DEVICE_TOKEN_KEY = 'deviceToken';
+
+// Sent with login/signup so the server keeps one session per device. The
+// device token comes from the last login and is what lets the server
+// recognise this device; it's kept across logouts.
+const getDeviceInfo = async () => {
+  let deviceId = await storage.getItem(DEVICE_ID_KEY);
+  if (!deviceId) {
+    deviceId = Crypto.randomUUID();
+    await storage.setItem(DEVICE_ID_KEY, deviceId);
+  }
+  const deviceToken = await storage.getItem(DEVICE_TOKEN_KEY);
+  return {
+    deviceId,
+    ...(deviceToken ? { deviceToken } : {}),
+    deviceName: `${Platform.OS} ${Platform.Version ?? ''}`.trim(),
+    platform: Platform.OS,
+    appVersion: Constants.expoConfig?.version,
+  };
+};
+
+const saveDeviceToken = async (deviceToken) => {
+  if (deviceToken) {
+    await storage.setItem(DEVICE_TOKEN_KEY, deviceToken);
+  }
+};
+
 const AuthProvider = ({ children }) => {
   const [user, setUser] = useState(null);
   const [balance, setBalance] = useState(null);
   const [token, setToken] = useState(null);
   const [loading, setLoading] = useState(true);
+  const tokenRef = useRef(null);
+  const refreshTokenRef = useRef(null);
 
   // Load token when app starts
   useEffect(() => {
+    api.configureSession({
+      getToken: () => tokenRef.current,
+      // The session is already gone on the server, so only clear it locally
+      onUnauthorized: () => logout({ revoke: false }),
+      refreshSession,
+    });
     loadToken();
   }, []);
 
@@ -62,8 +93,10 @@ const AuthProvider = ({ children }) => {
 
   const loadToken = async () => {
     try {
-      const savedToken = await storage.getItem('userToken');
+      const savedToken = await storage.getItem(TOKEN_KEY);
+      refreshTokenRef.current = await storage.getItem(REFRESH_TOKEN_KEY);
       if (savedToken) {
+        tokenRef.current = savedToken;
         setToken(savedToken);
         console.log('✅ Token loaded from storage');
       } else {
@@ -85,56 +118,28 @@ const AuthProvider = ({ children }) => {
         return;
       }
 
-      const response = await fetch(
-        `${API_CONFIG.BASE_URL}${API_CONFIG.ENDPOINTS.PROFILE}`,
-        {
-          method: 'GET',
-          headers: {
-            'Authorization': `Bearer ${token}`,
-            'Content-Type': 'application/json'
-          }
-        }
-      );
-
-      console.log('Profile fetch response status:', response.status);
-
-      if (!response.ok) {
-        if (response.status === 401) {
-          console.log('❌ Token expired, logging out');
-          await logout();
-          return;
-        }
-        throw new Error(`HTTP error! status: ${response.status}`);
-      }
+      // A 401 here logs out through the session handlers set up above
+      const data = await api.request('/auth/profile');
+      console.log('Profile API Response:', data);
+
+      if (data.success && data.user) {
+        const userData = {
+          id: data.user.id || data.user._id,
+          name: data.user.name || data.user.username || 'User',
+          email: data.user.email || '',
+          phone: data.user.phone || '',
+          username: data.user.username || '',
+          dateJoined: data.user.createdAt || data.user.dateJoined || new Date().toISOString(),
+          isPinSetup: data.user.isPinSetup || false,
+          isEmailVerified: data.user.isEmailVerified || false,
+          isPhoneVerified: data.user.isPhoneVerified || false,
+          lastLogin: data.user.lastLogin,
+        };
 
-      const contentType = response.headers.get('content-type');
-      if (contentType && contentType.includes('application/json')) {
-        const data = await response.json();
-        console.log('Profile API Response:', data);
-
-        if (data.success && data.user) {
-          const userData = {
-            id: data.user.id || data.user._id,
-            name: data.user.name || data.user.username || 'User',
-            email: data.user.email || '',
-            phone: data.user.phone || '',
-            username: data.user.username || '',
-            dateJoined: data.user.createdAt || data.user.dateJoined || new Date().toISOString(),
-            isPinSetup: data.user.isPinSetup || false,
-            isEmailVerified: data.user.isEmailVerified || false,
-            isPhoneVerified: data.user.isPhoneVerified || false,
-            lastLogin: data.user.lastLogin,
-          };
-
-          setUser(userData);
-          console.log('✅ User profile loaded:', userData.name);
-        } else {
-          console.log('❌ Profile fetch unsuccessful:', data.message);
-        }
+        setUser(userData);
+        console.log('✅ User profile loaded:', userData.name);
       } else {
-        const text = await response.text();
-        console.log('❌ Non-JSON response:', text);
-        throw new Error('Invalid response format');
+        console.log('❌ Profile fetch unsuccessful:', data.message);
       }
     } catch (error) {
       console.log('❌ Error fetching profile:', error);
@@ -150,29 +155,7 @@ const AuthProvider = ({ children }) => {
         return;
       }
 
-      const response = await fetch(
-        `${API_CONFIG.BASE_URL}${API_CONFIG.ENDPOINTS.BALANCE}`,
-        {
-          method: 'GET',
-          headers: {
-            'Authorization': `Bearer ${token}`,
-            'Content-Type': 'application/json'
-          }
-        }
-      );
-
-      console.log('Balance fetch response status:', response.status);
-
-      if (!response.ok) {
-        if (response.status === 401) {
-          console.log('❌ Token expired, logging out');
-          await logout();
-          return;
-        }
-        throw new Error(`HTTP error! status: ${response.status}`);
-      }
-
-      const data = await response.json();
+      const data = await api.getBalance();
       console.log('Balance API Response:', data);
 
       if (data.success && data.balance) {
@@ -205,23 +188,7 @@ const AuthProvider = ({ children }) => {
         return false;
       }
 
-      const response = await fetch(
-        `${API_CONFIG.BASE_URL}${API_CONFIG.ENDPOINTS.PROFILE}`,
-        {
-          method: 'PUT',
-          headers: {
-            'Authorization': `Bearer ${token}`,
-            'Content-Type': 'application/json'
-          },
-          body: JSON.stringify(updatedData)
-        }
-      );
-
-      if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`);
-      }
-
-      const data = await response.json();
+      const data = await api.request('/auth/profile', { method: 'PUT', body: updatedData });
 
       if (data.success) {
         const userData = {
@@ -246,9 +213,19 @@ const AuthProvider = ({ children }) => {
     }
   };
 
-  const login = async (newToken) => {
+  const saveTokens = async (newToken, newRefreshToken) => {
+    await storage.setItem(TOKEN_KEY, newToken);
+    if (newRefreshToken) {
+      await storage.setItem(REFRESH_TOKEN_KEY, newRefreshToken);
+    }
+    tokenRef.current = newToken;
+    refreshTokenRef.current = newRefreshToken || null;
+  };
+
+  const login = async (newToken, newRefreshToken, deviceToken) => {
     try {
-      await storage.setItem('userToken', newToken);
+      await saveTokens(newToken, newRefreshToken);
+      await saveDeviceToken(deviceToken);
       setToken(newToken);
       console.log('✅ Login successful, token saved');
     } catch (error) {
@@ -256,9 +233,36 @@ const AuthProvider = ({ children }) => {
     }
   };
 
-  const logout = async () => {
+  // Called by ApiService when the access token is rejected. Swaps the refresh
+  // token for a new pair without touching app state, so the user stays signed in.
+  const refreshSession = async () => {
+    const currentRefreshToken = refreshTokenRef.current;
+    if (!currentRefreshToken) return false;
+
     try {
-      await storage.removeItem('userToken');
+      const data = await api.refreshSession(currentRefreshToken);
+      await saveTokens(data.token, data.refreshToken);
+      console.log('✅ Session refreshed');
+      return true;
+    } catch (error) {
+      console.log('❌ Session refresh failed:', error.message);
+      return false;
+    }
+  };
+
+  const logout = async ({ revoke = true, allDevices = false } = {}) => {
+    const currentToken = tokenRef.current;
+    try {
+      if (revoke && currentToken) {
+        // Best effort: the local session is cleared even if this fails
+        await api.logout(currentToken, allDevices).catch((error) => {
+          console.log('❌ Server logout failed:', error.message);
+        });
+      }
+      await storage.removeItem(TOKEN_KEY);
+      await storage.removeItem(REFRESH_TOKEN_KEY);
+      tokenRef.current = null;
+      refreshTokenRef.current = null;
       setToken(null);
       setUser(null);
       setBalance(null);
@@ -314,6 +318,8 @@ const AuthProvider = ({ children }) => {
     token,
     login,
     logout,
+    getDeviceInfo,
+    saveDeviceToken,
     loading,
     updateProfile,
     refreshProfile,
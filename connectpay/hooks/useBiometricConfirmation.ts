@@ -0,0 +1,54 @@
+import { useCallback, useContext, useEffect, useState } from 'react';
+import { isApiError } from '@/services/ApiService';
+import {
+  confirmWithBiometrics,
+  forgetLocalKey,
+  getBiometricSupport,
+  isBiometricEnabled,
+} from '@/services/BiometricService';
+import type { BiometricAuthorization } from '@/types/api';
+import { AuthContext } from '../contexts/AuthContext';
+
+/**
+ * Whether purchases on this device can be confirmed with biometrics, and
+ * `confirm(amount)` to prompt and sign the server's challenge. `confirm`
+ * resolves to null when the user picks the PIN instead; if the backend no
+ * longer has this device enrolled the local key is dropped and the option
+ * disappears.
+ */
+export function useBiometricConfirmation() {
+  const { getDeviceInfo } = useContext(AuthContext);
+  const [isEnabled, setIsEnabled] = useState(false);
+  const [label, setLabel] = useState('Biometrics');
+
+  useEffect(() => {
+    let cancelled = false;
+    (async () => {
+      const [support, enabled] = await Promise.all([getBiometricSupport(), isBiometricEnabled()]);
+      if (cancelled) return;
+      setLabel(support.label);
+      setIsEnabled(support.available && enabled);
+    })().catch((error) => console.error('Error checking biometrics:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const confirm = useCallback(async (amount: number): Promise<BiometricAuthorization | null> => {
+    const { deviceId } = await getDeviceInfo();
+    try {
+      return await confirmWithBiometrics(
+        { deviceId, action: 'purchase', amount },
+        `Confirm payment of ₦${amount.toLocaleString()}`
+      );
+    } catch (error) {
+      if (isApiError(error) && error.serverCode === 'BIOMETRIC_NOT_ENROLLED') {
+        await forgetLocalKey();
+        setIsEnabled(false);
+      }
+      throw error;
+    }
+  }, [getDeviceInfo]);
+
+  return { isEnabled, label, confirm };
+}
@@ -0,0 +1,21 @@
+import { useRef } from 'react';
+
+export const createIdempotencyKey = () =>
+  `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}-${Math.random().toString(36).slice(2, 10)}`;
+
+/**
+ * Returns one Idempotency-Key per visit to a confirm step. The key is kept
+ * for retries and double taps while `active` stays true, and a new one is
+ * generated the next time the step is entered.
+ */
+export function useIdempotencyKey(active: boolean): string | undefined {
+  const keyRef = useRef<string | undefined>(undefined);
+  const wasActiveRef = useRef(false);
+
+  if (active && !wasActiveRef.current) {
+    keyRef.current = createIdempotencyKey();
+  }
+  wasActiveRef.current = active;
+
+  return active ? keyRef.current : undefined;
+}
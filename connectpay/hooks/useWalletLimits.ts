@@ -0,0 +1,46 @@
+import { useCallback, useEffect, useState } from 'react';
+import { api } from '@/services/ApiService';
+import type { WalletLimits } from '@/types/api';
+
+/**
+ * Explains why `amount` would be refused by the server's spending limits,
+ * or returns '' when it fits. Checked per transaction first, then against
+ * what is left of the rolling daily and monthly limits.
+ */
+export function limitErrorFor(limits: WalletLimits | null, amount: number): string {
+  if (!limits || !amount) return '';
+
+  if (amount > limits.perTransaction) {
+    return `Your limit per transaction is ₦${limits.perTransaction.toLocaleString()}`;
+  }
+  if (amount > limits.daily.remaining) {
+    return `You can spend ₦${limits.daily.remaining.toLocaleString()} more in the next 24 hours`;
+  }
+  if (amount > limits.monthly.remaining) {
+    return `You can spend ₦${limits.monthly.remaining.toLocaleString()} more in the next 30 days`;
+  }
+  return '';
+}
+
+/**
+ * Loads the user's spending limits and current usage so checkout screens can
+ * warn before the server refuses. Call `refresh` after a successful debit.
+ */
+export function useWalletLimits() {
+  const [limits, setLimits] = useState<WalletLimits | null>(null);
+
+  const refresh = useCallback(async () => {
+    try {
+      const response = await api.getWalletLimits();
+      setLimits(response.limits);
+    } catch (error) {
+      console.error('Error loading wallet limits:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  return { limits, refresh };
+}
@@ -0,0 +1,599 @@
+import * as FileSystem from 'expo-file-system';
+import { ApiConfig } from '@/constants/Api';
+import type {
+  ApiResponse,
+  BalanceResponse,
+  BanksResponse,
+  BiometricChallengeRequest,
+  BiometricChallengeResponse,
+  BiometricDeviceResponse,
+  BiometricDevicesResponse,
+  CardPaymentResponse,
+  CablePackagesResponse,
+  ChangePinRequest,
+  ConfirmVerificationResponse,
+  DataPlansResponse,
+  DeviceSettings,
+  DeviceSettingsResponse,
+  ElectricityProvidersResponse,
+  EnrollBiometricRequest,
+  ForgotPasswordResponse,
+  ForgotPinResponse,
+  HistoryTransactionResponse,
+  InitializeCardPaymentResponse,
+  KycStatusResponse,
+  KycSubmissionResponse,
+  KycTier1Request,
+  KycTier2Request,
+  KycTier3Request,
+  LoginDeviceInfo,
+  LoginOtpChallengeResponse,
+  MeterValidationRequest,
+  MeterValidationResponse,
+  PinStatusResponse,
+  PurchaseRequest,
+  PurchaseResponse,
+  RechargeGenerateRequest,
+  RechargeGenerateResponse,
+  RechargeHistoryResponse,
+  RecipientLookupResponse,
+  ResolveAccountResponse,
+  RefreshSessionResponse,
+  ResetPasswordRequest,
+  ResetPinRequest,
+  SendVerificationCodeResponse,
+  SmartCardValidationRequest,
+  SmartCardValidationResponse,
+  StatementFormat,
+  StatementResponse,
+  TransactionHistoryParams,
+  TransactionHistoryResponse,
+  TransactionReceiptResponse,
+  TransferReceiptResponse,
+  TransferRequest,
+  TransferResponse,
+  TrustedDevicesResponse,
+  VerificationChannel,
+  VerifyLoginOtpRequest,
+  VerifyLoginOtpResponse,
+  VirtualAccountBank,
+  VirtualAccountResponse,
+  VirtualAccountsResponse,
+  WalletLimitsResponse,
+  WithdrawalFeeResponse,
+  WithdrawalRequest,
+  WithdrawalResponse,
+} from '@/types/api';
+
+export type ApiErrorCode =
+  | 'NETWORK'
+  | 'TIMEOUT'
+  | 'UNAUTHORIZED'
+  | 'FORBIDDEN'
+  | 'PIN_LOCKED'
+  | 'VALIDATION'
+  | 'NOT_FOUND'
+  | 'CONFLICT'
+  | 'RATE_LIMITED'
+  | 'SERVER'
+  | 'INVALID_RESPONSE';
+
+// A parsed JSON response body, before it is known to be the expected type
+export type ResponseBody = { message?: unknown; error?: unknown; error_code?: unknown; [key: string]: unknown };
+
+// Thrown for every failed request so screens can switch on `code`
+// instead of matching on message text.
+export class ApiError extends Error {
+  code: ApiErrorCode;
+  status: number;
+  serverCode?: string;
+  data?: ResponseBody;
+
+  constructor(code: ApiErrorCode, message: string, status = 0, data?: ResponseBody) {
+    super(message);
+    this.name = 'ApiError';
+    this.code = code;
+    this.status = status;
+    this.data = data;
+    this.serverCode = typeof data?.error_code === 'string' ? data.error_code : undefined;
+  }
+}
+
+export const isApiError = (error: unknown): error is ApiError => error instanceof ApiError;
+
+// A purchase the provider accepted but hasn't confirmed yet (HTTP 202). The
+// server settles it shortly and refunds the wallet if it fails, so screens
+// show it as processing rather than successful.
+export const isPendingPurchase = (response: { transaction?: { status?: string } }): boolean =>
+  response.transaction?.status === 'pending';
+
+export const PENDING_PURCHASE_NOTE =
+  'Check your transaction history for the final status. If it does not go through, your wallet is refunded automatically.';
+
+const codeForStatus = (status: number): ApiErrorCode => {
+  if (status === 401) return 'UNAUTHORIZED';
+  if (status === 403) return 'FORBIDDEN';
+  if (status === 404) return 'NOT_FOUND';
+  if (status === 408) return 'TIMEOUT';
+  if (status === 409) return 'CONFLICT';
+  if (status === 423) return 'PIN_LOCKED';
+  if (status === 429) return 'RATE_LIMITED';
+  if (status >= 500) return 'SERVER';
+  return 'VALIDATION';
+};
+
+const idempotencyHeaders = (key?: string): Record<string, string> =>
+  key ? { 'Idempotency-Key': key } : {};
+
+interface RequestOptions {
+  method?: 'GET' | 'POST' | 'PUT' | 'DELETE';
+  body?: unknown;
+  headers?: Record<string, string>;
+  timeoutMs?: number;
+  auth?: boolean;
+}
+
+interface SessionHandlers {
+  getToken: () => string | null;
+  onUnauthorized: () => void | Promise<void>;
+  // Swaps the refresh token for a new access token; resolves false when the
+  // session can't be renewed and the user has to log in again.
+  refreshSession?: () => Promise<boolean>;
+}
+
+class ApiService {
+  private static instance: ApiService;
+  private session: SessionHandlers = {
+    getToken: () => null,
+    onUnauthorized: () => {},
+  };
+  private refreshInFlight: Promise<boolean> | null = null;
+
+  static getInstance(): ApiService {
+    if (!ApiService.instance) {
+      ApiService.instance = new ApiService();
+    }
+    return ApiService.instance;
+  }
+
+  // Wired up by AuthProvider so that every request uses the current session.
+  // A 401 from any endpoint first tries to refresh the session and only logs
+  // the user out when that fails.
+  configureSession(handlers: SessionHandlers): void {
+    this.session = handlers;
+  }
+
+  request<T extends ApiResponse = ApiResponse>(endpoint: string, options: RequestOptions = {}): Promise<T> {
+    return this.send<T>(endpoint, options, true);
+  }
+
+  // Concurrent 401s share one refresh so the rotated refresh token is only used once
+  private refreshSessionOnce(): Promise<boolean> {
+    const { refreshSession } = this.session;
+    if (!refreshSession) return Promise.resolve(false);
+
+    if (!this.refreshInFlight) {
+      this.refreshInFlight = refreshSession()
+        .catch(() => false)
+        .finally(() => {
+          this.refreshInFlight = null;
+        });
+    }
+    return this.refreshInFlight;
+  }
+
+  private async send<T extends ApiResponse>(endpoint: string, options: RequestOptions, allowRefresh: boolean): Promise<T> {
+    const { method = 'GET', body, headers = {}, timeoutMs = ApiConfig.timeoutMs, auth = true } = options;
+
+    const requestHeaders: Record<string, string> = {
+      'Content-Type': 'application/json',
+      'Accept': 'application/json',
+      ...headers,
+    };
+
+    if (auth) {
+      const token = this.session.getToken();
+      if (!token) {
+        throw new ApiError('UNAUTHORIZED', 'Authentication required. Please login again.', 401);
+      }
+      requestHeaders['Authorization'] = `Bearer ${token}`;
+    }
+
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), timeoutMs);
+
+    let response: Response;
+    try {
+      response = await fetch(`${ApiConfig.baseUrl}${endpoint}`, {
+        method,
+        headers: requestHeaders,
+        body: body === undefined ? undefined : JSON.stringify(body),
+        signal: controller.signal,
+      });
+    } catch (error: unknown) {
+      if (error instanceof Error && error.name === 'AbortError') {
+        throw new ApiError('TIMEOUT', 'Request timed out. Please check your connection and try again.');
+      }
+      throw new ApiError('NETWORK', 'Network connection failed. Please check your internet connection.');
+    } finally {
+      clearTimeout(timeoutId);
+    }
+
+    const responseText = await response.text();
+    let data: unknown = {};
+    if (responseText.trim()) {
+      try {
+        data = JSON.parse(responseText);
+      } catch {
+        throw new ApiError('INVALID_RESPONSE', `Invalid response from server. Status: ${response.status}`, response.status);
+      }
+    }
+    // Only objects carry a message or error code worth reading
+    const responseBody = (data !== null && typeof data === 'object' ? data : {}) as ResponseBody;
+
+    if (response.status === 401 && auth) {
+      if (allowRefresh && (await this.refreshSessionOnce())) {
+        return this.send<T>(endpoint, options, false);
+      }
+      console.log(`API ${endpoint}: session rejected, logging out`);
+      await this.session.onUnauthorized();
+      throw new ApiError('UNAUTHORIZED', 'Session expired. Please login again.', 401, responseBody);
+    }
+
+    if (!response.ok) {
+      const message = typeof responseBody.message === 'string' ? responseBody.message
+        : typeof responseBody.error === 'string' ? responseBody.error
+        : `Request failed with status ${response.status}`;
+      throw new ApiError(codeForStatus(response.status), message, response.status, responseBody);
+    }
+
+    return data as T;
+  }
+
+  // Saves a binary response such as a PDF to fileUri, with the same session
+  // handling as request(). Resolves to the local file URI.
+  async download(endpoint: string, fileUri: string, allowRefresh = true): Promise<string> {
+    const token = this.session.getToken();
+    if (!token) {
+      throw new ApiError('UNAUTHORIZED', 'Authentication required. Please login again.', 401);
+    }
+
+    let result: FileSystem.FileSystemDownloadResult;
+    try {
+      result = await FileSystem.downloadAsync(`${ApiConfig.baseUrl}${endpoint}`, fileUri, {
+        headers: { Authorization: `Bearer ${token}` },
+      });
+    } catch {
+      throw new ApiError('NETWORK', 'Network connection failed. Please check your internet connection.');
+    }
+
+    if (result.status === 200) return result.uri;
+
+    // The error body was written to the file; don't leave it behind
+    await FileSystem.deleteAsync(fileUri, { idempotent: true });
+
+    if (result.status === 401) {
+      if (allowRefresh && (await this.refreshSessionOnce())) {
+        return this.download(endpoint, fileUri, false);
+      }
+      await this.session.onUnauthorized();
+      throw new ApiError('UNAUTHORIZED', 'Session expired. Please login again.', 401);
+    }
+    throw new ApiError(codeForStatus(result.status), `Download failed with status ${result.status}`, result.status);
+  }
+
+  // ---------- Sessions ----------
+  refreshSession(refreshToken: string): Promise<RefreshSessionResponse> {
+    return this.request<RefreshSessionResponse>('/auth/refresh', {
+      method: 'POST',
+      body: { refreshToken },
+      auth: false,
+    });
+  }
+
+  // Revokes the session behind accessToken (or every session with allDevices).
+  // Sent without session handling so a rejected token can't re-trigger logout.
+  logout(accessToken: string, allDevices = false): Promise<ApiResponse> {
+    return this.request('/auth/logout', {
+      method: 'POST',
+      body: { allDevices },
+      headers: { Authorization: `Bearer ${accessToken}` },
+      auth: false,
+    });
+  }
+
+  // ---------- Password reset ----------
+  requestPasswordReset(emailOrPhone: string): Promise<ForgotPasswordResponse> {
+    return this.request<ForgotPasswordResponse>('/auth/forgot-password', {
+      method: 'POST',
+      body: { emailOrPhone },
+      auth: false,
+    });
+  }
+
+  resetPassword(payload: ResetPasswordRequest): Promise<ApiResponse> {
+    return this.request('/auth/reset-password', { method: 'POST', body: payload, auth: false });
+  }
+
+  // ---------- Email and phone verification ----------
+  // Right after signup there is no stored session yet, so the signup flow
+  // passes its access token explicitly.
+  private verificationAuth(accessToken?: string): Partial<RequestOptions> {
+    return accessToken ? { headers: { Authorization: `Bearer ${accessToken}` }, auth: false } : {};
+  }
+
+  sendVerificationCode(channel: VerificationChannel, accessToken?: string): Promise<SendVerificationCodeResponse> {
+    return this.request<SendVerificationCodeResponse>(`/auth/verify/${channel}/send`, {
+      method: 'POST',
+      ...this.verificationAuth(accessToken),
+    });
+  }
+
+  confirmVerificationCode(channel: VerificationChannel, otp: string, accessToken?: string): Promise<ConfirmVerificationResponse> {
+    return this.request<ConfirmVerificationResponse>(`/auth/verify/${channel}/confirm`, {
+      method: 'POST',
+      body: { otp },
+      ...this.verificationAuth(accessToken),
+    });
+  }
+
+  // ---------- Wallet ----------
+  getBalance(): Promise<BalanceResponse> {
+    return this.request<BalanceResponse>('/balance');
+  }
+
+  getWalletLimits(): Promise<WalletLimitsResponse> {
+    return this.request<WalletLimitsResponse>('/wallet/limits');
+  }
+
+  // ---------- Wallet funding ----------
+  getVirtualAccounts(): Promise<VirtualAccountsResponse> {
+    return this.request<VirtualAccountsResponse>('/virtual-accounts');
+  }
+
+  // Reserves the account on first use; later calls return the same account
+  getVirtualAccount(bank: VirtualAccountBank): Promise<VirtualAccountResponse> {
+    return this.request<VirtualAccountResponse>('/virtual-accounts', { method: 'POST', body: { bank } });
+  }
+
+  initializeCardPayment(amount: number, idempotencyKey?: string): Promise<InitializeCardPaymentResponse> {
+    return this.request<InitializeCardPaymentResponse>('/card-payments/initialize', {
+      method: 'POST',
+      body: { amount },
+      headers: idempotencyHeaders(idempotencyKey),
+    });
+  }
+
+  // Verifies with the gateway; the wallet is credited on the first successful verify
+  verifyCardPayment(reference: string): Promise<CardPaymentResponse> {
+    return this.request<CardPaymentResponse>(`/card-payments/${encodeURIComponent(reference)}`);
+  }
+
+  // ---------- Transaction history ----------
+  getTransactions(params: TransactionHistoryParams = {}): Promise<TransactionHistoryResponse> {
+    const query = Object.entries(params)
+      .filter(([, value]) => value !== undefined && value !== '' && !(Array.isArray(value) && value.length === 0))
+      .map(([key, value]) => `${key}=${encodeURIComponent(Array.isArray(value) ? value.join(',') : String(value))}`)
+      .join('&');
+    return this.request<TransactionHistoryResponse>(query ? `/transactions?${query}` : '/transactions');
+  }
+
+  getTransaction(reference: string): Promise<HistoryTransactionResponse> {
+    return this.request<HistoryTransactionResponse>(`/transactions/${encodeURIComponent(reference)}`);
+  }
+
+  getReceipt(reference: string): Promise<TransactionReceiptResponse> {
+    return this.request<TransactionReceiptResponse>(`/transactions/${encodeURIComponent(reference)}/receipt`);
+  }
+
+  // Downloads the branded PDF receipt to the cache directory for sharing or saving
+  downloadReceipt(reference: string): Promise<string> {
+    const fileUri = `${FileSystem.cacheDirectory}ConnectPay-Receipt-${reference.replace(/[^\w-]/g, '_')}.pdf`;
+    return this.download(`/transactions/${encodeURIComponent(reference)}/receipt?format=pdf`, fileUri);
+  }
+
+  reportTransactionIssue(reference: string, message: string): Promise<HistoryTransactionResponse> {
+    return this.request<HistoryTransactionResponse>(`/transactions/${encodeURIComponent(reference)}/report`, {
+      method: 'POST',
+      body: { message },
+    });
+  }
+
+  // ---------- Statements ----------
+  getStatement(from: string, to: string): Promise<StatementResponse> {
+    return this.request<StatementResponse>(`/statements?from=${encodeURIComponent(from)}&to=${encodeURIComponent(to)}`);
+  }
+
+  // Downloads the statement file to the cache directory for sharing or saving
+  downloadStatement(from: string, to: string, format: StatementFormat): Promise<string> {
+    const fileUri = `${FileSystem.cacheDirectory}ConnectPay-Statement-${from}-to-${to}.${format}`;
+    return this.download(
+      `/statements?from=${encodeURIComponent(from)}&to=${encodeURIComponent(to)}&format=${format}`,
+      fileUri
+    );
+  }
+
+  emailStatement(from: string, to: string, format: StatementFormat): Promise<ApiResponse> {
+    return this.request<ApiResponse>('/statements/email', {
+      method: 'POST',
+      body: { from, to, format },
+    });
+  }
+
+  // ---------- KYC ----------
+  getKycStatus(): Promise<KycStatusResponse> {
+    return this.request<KycStatusResponse>('/kyc');
+  }
+
+  submitKycTier(tier: 1, body: KycTier1Request): Promise<KycSubmissionResponse>;
+  submitKycTier(tier: 2, body: KycTier2Request): Promise<KycSubmissionResponse>;
+  submitKycTier(tier: 3, body: KycTier3Request): Promise<KycSubmissionResponse>;
+  submitKycTier(tier: number, body: KycTier1Request | KycTier2Request | KycTier3Request): Promise<KycSubmissionResponse> {
+    // Photos make these bodies several megabytes, so allow for slow uploads
+    return this.request<KycSubmissionResponse>(`/kyc/tier/${tier}`, {
+      method: 'POST',
+      body,
+      timeoutMs: 90000,
+    });
+  }
+
+  // ---------- Transfers ----------
+  lookupRecipient(query: string): Promise<RecipientLookupResponse> {
+    return this.request<RecipientLookupResponse>(`/wallet/recipient?query=${encodeURIComponent(query)}`);
+  }
+
+  transfer(payload: TransferRequest, idempotencyKey?: string): Promise<TransferResponse> {
+    return this.request<TransferResponse>('/wallet/transfer', {
+      method: 'POST',
+      body: payload,
+      headers: idempotencyHeaders(idempotencyKey),
+    });
+  }
+
+  getTransferReceipt(reference: string): Promise<TransferReceiptResponse> {
+    return this.request<TransferReceiptResponse>(`/wallet/transfers/${encodeURIComponent(reference)}`);
+  }
+
+  // ---------- Withdrawals ----------
+  getBanks(): Promise<BanksResponse> {
+    return this.request<BanksResponse>('/withdrawals/banks');
+  }
+
+  resolveBankAccount(bankCode: string, accountNumber: string): Promise<ResolveAccountResponse> {
+    return this.request<ResolveAccountResponse>('/withdrawals/resolve-account', {
+      method: 'POST',
+      body: { bankCode, accountNumber },
+    });
+  }
+
+  getWithdrawalFee(amount: number): Promise<WithdrawalFeeResponse> {
+    return this.request<WithdrawalFeeResponse>(`/withdrawals/fee?amount=${amount}`);
+  }
+
+  withdraw(payload: WithdrawalRequest, idempotencyKey?: string): Promise<WithdrawalResponse> {
+    return this.request<WithdrawalResponse>('/withdrawals', {
+      method: 'POST',
+      body: payload,
+      headers: idempotencyHeaders(idempotencyKey),
+    });
+  }
+
+  // Pending withdrawals are requeried with the payout provider on every call
+  getWithdrawal(reference: string): Promise<WithdrawalResponse> {
+    return this.request<WithdrawalResponse>(`/withdrawals/${encodeURIComponent(reference)}`);
+  }
+
+  // ---------- Transaction PIN ----------
+  getPinStatus(): Promise<PinStatusResponse> {
+    return this.request<PinStatusResponse>('/purchase/pin-status');
+  }
+
+  validatePin(pin: string): Promise<ApiResponse> {
+    return this.request('/purchase/validate-pin', { method: 'POST', body: { pin } });
+  }
+
+  changePin(payload: ChangePinRequest): Promise<ApiResponse> {
+    return this.request('/auth/change-pin', { method: 'PUT', body: payload });
+  }
+
+  // Step 1 of forgot-PIN: confirms the account password and emails a code
+  requestPinReset(password: string): Promise<ForgotPinResponse> {
+    return this.request<ForgotPinResponse>('/auth/forgot-pin', { method: 'POST', body: { password } });
+  }
+
+  resetPin(payload: ResetPinRequest): Promise<ApiResponse> {
+    return this.request('/auth/reset-pin', { method: 'POST', body: payload });
+  }
+
+  // ---------- Devices and login alerts ----------
+  // The login code steps run before there is a session
+  verifyLoginOtp(payload: VerifyLoginOtpRequest): Promise<VerifyLoginOtpResponse> {
+    return this.request<VerifyLoginOtpResponse>('/auth/login/verify-otp', { method: 'POST', body: payload, auth: false });
+  }
+
+  resendLoginOtp(challengeToken: string, device: LoginDeviceInfo): Promise<LoginOtpChallengeResponse> {
+    return this.request<LoginOtpChallengeResponse>('/auth/login/resend-otp', {
+      method: 'POST',
+      body: { challengeToken, ...device },
+      auth: false,
+    });
+  }
+
+  getDevices(): Promise<TrustedDevicesResponse> {
+    return this.request<TrustedDevicesResponse>('/devices');
+  }
+
+  revokeDevice(id: string): Promise<ApiResponse> {
+    return this.request(`/devices/${encodeURIComponent(id)}/revoke`, { method: 'POST' });
+  }
+
+  updateDeviceSettings(settings: DeviceSettings): Promise<DeviceSettingsResponse> {
+    return this.request<DeviceSettingsResponse>('/devices/settings', { method: 'PUT', body: settings });
+  }
+
+  // ---------- Biometric confirmation ----------
+  getBiometricDevices(): Promise<BiometricDevicesResponse> {
+    return this.request<BiometricDevicesResponse>('/biometrics/devices');
+  }
+
+  enrollBiometricDevice(payload: EnrollBiometricRequest): Promise<BiometricDeviceResponse> {
+    return this.request<BiometricDeviceResponse>('/biometrics/enroll', { method: 'POST', body: payload });
+  }
+
+  revokeBiometricDevice(id: string): Promise<BiometricDeviceResponse> {
+    return this.request<BiometricDeviceResponse>(`/biometrics/devices/${encodeURIComponent(id)}/revoke`, { method: 'POST' });
+  }
+
+  getBiometricChallenge(payload: BiometricChallengeRequest): Promise<BiometricChallengeResponse> {
+    return this.request<BiometricChallengeResponse>('/biometrics/challenge', { method: 'POST', body: payload });
+  }
+
+  // ---------- Purchases ----------
+  // Pass the same idempotencyKey when retrying so the server replays instead of charging twice
+  purchase(payload: PurchaseRequest, idempotencyKey?: string): Promise<PurchaseResponse> {
+    return this.request<PurchaseResponse>('/purchase', {
+      method: 'POST',
+      body: payload,
+      headers: idempotencyHeaders(idempotencyKey),
+      timeoutMs: ApiConfig.vendTimeoutMs,
+    });
+  }
+
+  getDataPlans(network: string): Promise<DataPlansResponse> {
+    return this.request<DataPlansResponse>(`/data/plans/${network}`);
+  }
+
+  getCablePackages(operator: string): Promise<CablePackagesResponse> {
+    return this.request<CablePackagesResponse>(`/cable/packages/${operator}`);
+  }
+
+  validateSmartCard(payload: SmartCardValidationRequest): Promise<SmartCardValidationResponse> {
+    return this.request<SmartCardValidationResponse>('/cable/validate-smartcard', { method: 'POST', body: payload });
+  }
+
+  getElectricityProviders(): Promise<ElectricityProvidersResponse> {
+    return this.request<ElectricityProvidersResponse>('/electricity/providers');
+  }
+
+  validateMeter(payload: MeterValidationRequest): Promise<MeterValidationResponse> {
+    return this.request<MeterValidationResponse>('/electricity/validate-meter', { method: 'POST', body: payload });
+  }
+
+  // ---------- Recharge PINs ----------
+  generateRechargePins(payload: RechargeGenerateRequest, idempotencyKey?: string): Promise<RechargeGenerateResponse> {
+    return this.request<RechargeGenerateResponse>('/recharge/generate', {
+      method: 'POST',
+      body: payload,
+      headers: idempotencyHeaders(idempotencyKey),
+      timeoutMs: ApiConfig.vendTimeoutMs,
+    });
+  }
+
+  getRechargeHistory(): Promise<RechargeHistoryResponse> {
+    return this.request<RechargeHistoryResponse>('/recharge/history');
+  }
+}
+
+export const api = ApiService.getInstance();
+
+export default ApiService;
@@ -0,0 +1,149 @@
+import { Platform } from 'react-native';
+import * as Crypto from 'expo-crypto';
+import * as LocalAuthentication from 'expo-local-authentication';
+import * as SecureStore from 'expo-secure-store';
+import nacl from 'tweetnacl';
+import { api } from '@/services/ApiService';
+import type { BiometricAuthorization, BiometricChallengeRequest, BiometricDevice } from '@/types/api';
+
+// Biometric confirmation for purchases. Enabling it generates an Ed25519 key
+// pair on this device: the public key is enrolled with the backend (which
+// asks for the PIN once), the private key seed stays in the secure store
+// behind the OS biometric check (requireAuthentication), so the keychain or
+// keystore itself refuses to hand it over without a biometric match. Any
+// failure leaves the PIN as the way to pay.
+
+const KEY_SEED_KEY = 'biometricKeySeed';
+// Reading the seed prompts, so whether it exists is tracked separately
+const ENABLED_KEY = 'biometricEnabled';
+
+const secureStoreOptions: SecureStore.SecureStoreOptions = {
+  keychainAccessible: SecureStore.WHEN_PASSCODE_SET_THIS_DEVICE_ONLY,
+};
+
+const seedStoreOptions = (authenticationPrompt: string): SecureStore.SecureStoreOptions => ({
+  ...secureStoreOptions,
+  requireAuthentication: true,
+  authenticationPrompt,
+});
+
+export interface BiometricSupport {
+  available: boolean;
+  // e.g. "Face ID" or "Fingerprint", for button labels
+  label: string;
+}
+
+export type DeviceInfo = { deviceId: string; deviceName?: string; platform?: string };
+
+const toBase64 = (bytes: Uint8Array) => {
+  let binary = '';
+  bytes.forEach((byte) => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary);
+};
+
+const fromBase64 = (value: string) => Uint8Array.from(atob(value), (char) => char.charCodeAt(0));
+
+const keyPairFromSeed = (seed: string) => nacl.sign.keyPair.fromSeed(fromBase64(seed));
+
+export async function getBiometricSupport(): Promise<BiometricSupport> {
+  if (Platform.OS === 'web') return { available: false, label: 'Biometrics' };
+
+  const [hasHardware, isEnrolled, types] = await Promise.all([
+    LocalAuthentication.hasHardwareAsync(),
+    LocalAuthentication.isEnrolledAsync(),
+    LocalAuthentication.supportedAuthenticationTypesAsync(),
+  ]);
+
+  let label = 'Biometrics';
+  if (types.includes(LocalAuthentication.AuthenticationType.FACIAL_RECOGNITION)) {
+    label = Platform.OS === 'ios' ? 'Face ID' : 'Face Unlock';
+  } else if (types.includes(LocalAuthentication.AuthenticationType.FINGERPRINT)) {
+    label = Platform.OS === 'ios' ? 'Touch ID' : 'Fingerprint';
+  }
+
+  return { available: hasHardware && isEnrolled, label };
+}
+
+// Whether this device holds an enrolled key
+export async function isBiometricEnabled(): Promise<boolean> {
+  if (Platform.OS === 'web') return false;
+  return (await SecureStore.getItemAsync(ENABLED_KEY, secureStoreOptions)) === 'true';
+}
+
+const prompt = async (promptMessage: string) => {
+  const result = await LocalAuthentication.authenticateAsync({
+    promptMessage,
+    cancelLabel: 'Use PIN',
+    // The PIN is the fallback, not the device passcode
+    disableDeviceFallback: true,
+  });
+  return result.success;
+};
+
+// Confirms the user can pass the prompt, then enrolls a new key for this
+// device. Resolves to false if the prompt was cancelled.
+export async function enableBiometrics(pin: string, device: DeviceInfo): Promise<boolean> {
+  if (!SecureStore.canUseBiometricAuthentication()) return false;
+  if (!(await prompt('Enable biometric confirmation'))) return false;
+
+  const seed = Crypto.getRandomBytes(32);
+  const { publicKey } = nacl.sign.keyPair.fromSeed(seed);
+
+  // Stored before enrolling, so a cancelled Android prompt leaves nothing enrolled
+  try {
+    await SecureStore.setItemAsync(KEY_SEED_KEY, toBase64(seed), seedStoreOptions('Enable biometric confirmation'));
+  } catch {
+    return false;
+  }
+
+  try {
+    const { deviceId, deviceName, platform } = device;
+    await api.enrollBiometricDevice({ deviceId, deviceName, platform, publicKey: toBase64(publicKey), pin });
+  } catch (error) {
+    await SecureStore.deleteItemAsync(KEY_SEED_KEY, secureStoreOptions);
+    throw error;
+  }
+  await SecureStore.setItemAsync(ENABLED_KEY, 'true', secureStoreOptions);
+  return true;
+}
+
+// Forgets the local key and revokes this device's enrollment if it still exists
+export async function disableBiometrics(deviceId: string, devices?: BiometricDevice[]): Promise<void> {
+  await forgetLocalKey();
+
+  const enrolled = devices ?? (await api.getBiometricDevices()).devices;
+  const current = enrolled.find((device) => device.deviceId === deviceId);
+  if (current) await api.revokeBiometricDevice(current.id);
+}
+
+// Drops the local key when the backend no longer has this device enrolled,
+// e.g. after it was revoked from another device or the PIN was reset
+export async function forgetLocalKey(): Promise<void> {
+  await SecureStore.deleteItemAsync(ENABLED_KEY, secureStoreOptions);
+  await SecureStore.deleteItemAsync(KEY_SEED_KEY, secureStoreOptions);
+}
+
+// Unlocks the key with the OS biometric prompt and signs a fresh challenge for
+// this transaction. Resolves to null when biometrics aren't set up here, the
+// user chose the PIN, or the key was invalidated (e.g. biometrics changed).
+export async function confirmWithBiometrics(
+  request: BiometricChallengeRequest,
+  promptMessage: string
+): Promise<BiometricAuthorization | null> {
+  if (!(await isBiometricEnabled())) return null;
+
+  let seed: string | null;
+  try {
+    seed = await SecureStore.getItemAsync(KEY_SEED_KEY, seedStoreOptions(promptMessage));
+  } catch {
+    return null;
+  }
+  if (!seed) return null;
+
+  const challenge = await api.getBiometricChallenge(request);
+  const signature = nacl.sign.detached(new TextEncoder().encode(challenge.payload), keyPairFromSeed(seed).secretKey);
+
+  return { challengeId: challenge.challengeId, signature: toBase64(signature) };
+}
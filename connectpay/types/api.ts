@@ -0,0 +1,814 @@
+// Request/response shapes for the ConnectPay backend (backend/routes/*).
+// Keep these in sync with the JSON the routes actually send.
+
+export type NetworkCode = 'mtn' | 'airtel' | 'glo' | '9mobile';
+
+export interface ApiResponse {
+  success: boolean;
+  message?: string;
+  error?: string;
+  error_code?: string;
+}
+
+// ---------- Sessions ----------
+// Returned by /auth/login, /auth/signup and /auth/refresh. `token` is the
+// short-lived access token; `refreshToken` is rotated on every refresh.
+export interface SessionTokens {
+  token: string;
+  refreshToken: string;
+  expiresIn: number;
+  sessionId: string;
+}
+
+export interface RefreshSessionResponse extends ApiResponse, SessionTokens {}
+
+// ---------- Password reset ----------
+export interface ForgotPasswordResponse extends ApiResponse {
+  channel: 'email' | 'sms';
+  expiresInMinutes: number;
+}
+
+export interface ResetPasswordRequest {
+  emailOrPhone: string;
+  otp: string;
+  newPassword: string;
+}
+
+// ---------- Email and phone verification ----------
+// Codes are sent at signup and on request; transfers and withdrawals fail
+// with error_code PHONE_NOT_VERIFIED until the phone number is verified.
+export type VerificationChannel = 'email' | 'phone';
+
+export interface VerificationCodeSent {
+  channel: VerificationChannel;
+  destination: string;
+  expiresInMinutes: number;
+  resendAfterSeconds: number;
+}
+
+export interface SendVerificationCodeResponse extends ApiResponse, VerificationCodeSent {}
+
+export interface VerificationState {
+  isEmailVerified: boolean;
+  isPhoneVerified: boolean;
+}
+
+export interface ConfirmVerificationResponse extends ApiResponse, VerificationState {}
+
+// ---------- Devices and login alerts ----------
+// /auth/login answers 202 with this instead of tokens when the user requires
+// a code for new devices and this device isn't one they've used before
+export interface LoginOtpChallenge {
+  requiresOtp: true;
+  challengeToken: string;
+  channel: VerificationChannel;
+  destination: string;
+  expiresInMinutes: number;
+  resendAfterSeconds: number;
+}
+
+export interface LoginOtpChallengeResponse extends ApiResponse, LoginOtpChallenge {}
+
+// Device fields from AuthContext.getDeviceInfo, sent with every login
+export interface LoginDeviceInfo {
+  deviceId: string;
+  deviceToken?: string;
+  deviceName?: string;
+  platform?: string;
+  appVersion?: string;
+}
+
+export interface VerifyLoginOtpRequest extends LoginDeviceInfo {
+  challengeToken: string;
+  otp: string;
+}
+
+export interface VerifyLoginOtpResponse extends ApiResponse, SessionTokens {
+  // Sent back with later logins so the server recognises this device
+  deviceToken: string;
+}
+
+export interface TrustedDevice {
+  id: string;
+  deviceId: string;
+  deviceName?: string;
+  platform?: string;
+  appVersion?: string;
+  lastIpAddress?: string;
+  firstSeenAt: string;
+  lastLoginAt: string;
+  // The device making this request
+  isCurrent: boolean;
+  // Has a session that hasn't been revoked or expired
+  isSignedIn: boolean;
+}
+
+export interface DeviceSettings {
+  requireLoginOtpOnNewDevice: boolean;
+}
+
+export interface TrustedDevicesResponse extends ApiResponse {
+  devices: TrustedDevice[];
+  settings: DeviceSettings;
+}
+
+export interface DeviceSettingsResponse extends ApiResponse {
+  settings: DeviceSettings;
+  // Issued when login codes are turned on; this device keeps signing in without one
+  deviceToken?: string;
+}
+
+// ---------- Transaction PIN management ----------
+export interface ChangePinRequest {
+  currentPin: string;
+  newPin: string;
+  confirmPin: string;
+}
+
+export interface ForgotPinResponse extends ApiResponse {
+  channel: 'email';
+  expiresInMinutes: number;
+}
+
+export interface ResetPinRequest {
+  otp: string;
+  newPin: string;
+  confirmPin: string;
+}
+
+// ---------- Wallet ----------
+export interface BalanceResponse extends ApiResponse {
+  balance: {
+    amount: number;
+    currency: string;
+    lastUpdated: string;
+  };
+}
+
+// ---------- Spending limits ----------
+export interface LimitWindow {
+  limit: number;
+  used: number;
+  remaining: number;
+  /** Whether the KYC tier or the wallet's own cap sets this limit */
+  source: 'kyc' | 'wallet';
+}
+
+export interface WalletLimits {
+  kycLevel: number;
+  perTransaction: number;
+  /** Rolling 24 hours */
+  daily: LimitWindow;
+  /** Rolling 30 days */
+  monthly: LimitWindow;
+  nextTier: { kycLevel: number; perTransaction: number; daily: number; monthly: number } | null;
+}
+
+export interface WalletLimitsResponse extends ApiResponse {
+  limits: WalletLimits;
+}
+
+/** Body of a LIMIT_EXCEEDED error */
+export interface LimitExceededDetails {
+  limit: Partial<LimitWindow> & { period: 'transaction' | 'daily' | 'monthly'; requested: number };
+  usage: WalletLimits;
+}
+
+// ---------- KYC ----------
+export type KycTierStatus = 'verified' | 'pending_review' | 'available' | 'locked';
+export type KycIdType = 'national_id' | 'drivers_license' | 'voters_card' | 'passport';
+export type KycProofType = 'utility_bill' | 'bank_statement' | 'tenancy_agreement';
+
+export interface KycTierLimits {
+  perTransaction: number;
+  daily: number;
+  monthly: number;
+}
+
+export interface KycTier {
+  level: number;
+  name: string;
+  requirements: string[];
+  limits: KycTierLimits;
+  status: KycTierStatus;
+}
+
+export interface KycSubmission {
+  _id: string;
+  reference: string;
+  tier: number;
+  status: 'pending_review' | 'approved' | 'rejected';
+  /** BVN, NIN and ID numbers come back masked */
+  details: {
+    bvn?: string;
+    nin?: string;
+    idType?: KycIdType;
+    idNumber?: string;
+    idExpiryDate?: string;
+    address?: { street: string; city: string; state: string };
+    proofType?: KycProofType;
+  };
+  documents: { _id: string; kind: string; contentType: string; size: number }[];
+  rejectionReason?: string;
+  createdAt: string;
+  decidedAt?: string;
+}
+
+export interface KycStatus {
+  kycLevel: number;
+  limits: KycTierLimits;
+  tiers: KycTier[];
+  pendingSubmission: KycSubmission | null;
+  lastRejection: { tier: number; reason?: string; decidedAt: string } | null;
+}
+
+export interface KycStatusResponse extends ApiResponse {
+  kyc: KycStatus;
+}
+
+/** A photo or PDF sent base64-encoded */
+export interface KycDocumentUpload {
+  data: string;
+  contentType: 'image/jpeg' | 'image/png' | 'application/pdf';
+}
+
+export interface KycTier1Request {
+  bvn?: string;
+  nin?: string;
+  dateOfBirth: string;
+}
+
+export interface KycTier2Request {
+  idType: KycIdType;
+  idNumber: string;
+  idExpiryDate?: string;
+  idFront: KycDocumentUpload;
+  idBack?: KycDocumentUpload;
+  selfie: KycDocumentUpload;
+}
+
+export interface KycTier3Request {
+  address: { street: string; city: string; state: string };
+  proofType: KycProofType;
+  proof: KycDocumentUpload;
+}
+
+export interface KycSubmissionResponse extends ApiResponse {
+  submission: KycSubmission;
+  kyc: KycStatus;
+}
+
+// ---------- Transfers ----------
+export interface TransferRecipient {
+  id: string;
+  name: string;
+  username: string;
+  phone?: string; // masked
+}
+
+export interface RecipientLookupResponse extends ApiResponse {
+  recipient: TransferRecipient;
+}
+
+export interface TransferRequest {
+  recipient: string; // username, phone or email
+  amount: number;
+  description?: string;
+  pin: string;
+}
+
+export interface TransferReceipt {
+  reference: string;
+  direction: 'sent' | 'received';
+  amount: number;
+  narration?: string;
+  status: string;
+  counterparty: { name?: string; username?: string };
+  transactionId: string;
+  relatedTransactionId?: string;
+  balanceAfter: number;
+  createdAt: string;
+}
+
+export interface TransferResponse extends ApiResponse {
+  transfer: {
+    amount: number;
+    recipient: { name: string; username: string; email: string };
+    reference: string;
+    newBalance: number;
+    formattedBalance: string;
+  };
+  receipt: TransferReceipt;
+}
+
+export interface TransferReceiptResponse extends ApiResponse {
+  receipt: TransferReceipt;
+}
+
+// ---------- Withdrawals ----------
+export interface Bank {
+  code: string;
+  name: string;
+}
+
+export interface BanksResponse extends ApiResponse {
+  data: Bank[];
+  count: number;
+}
+
+export interface ResolvedBankAccount {
+  accountName: string;
+  accountNumber: string;
+  bankCode: string;
+  bankName: string;
+}
+
+export interface ResolveAccountResponse extends ApiResponse {
+  data: ResolvedBankAccount;
+}
+
+export interface WithdrawalFeeResponse extends ApiResponse {
+  amount: number;
+  fee: number;
+  totalDebit: number;
+  limits: { min: number; max: number };
+}
+
+export interface WithdrawalRequest {
+  bankCode: string;
+  accountNumber: string;
+  amount: number;
+  narration?: string;
+  pin: string;
+}
+
+export interface Withdrawal {
+  _id: string;
+  reference: string;
+  amount: number;
+  fee: number;
+  totalDebited: number;
+  status: 'pending' | 'settled' | 'failed';
+  bank: { code: string; name: string; accountNumber: string; accountName: string };
+  narration?: string;
+  failureReason?: string;
+  createdAt: string;
+  settledAt?: string;
+  failedAt?: string;
+}
+
+export interface WithdrawalResponse extends ApiResponse {
+  withdrawal: Withdrawal;
+  newBalance?: { mainBalance: number; bonusBalance: number; totalBalance: number };
+}
+
+// ---------- Virtual accounts ----------
+export type VirtualAccountBank = 'palmpay' | 'wema' | 'sterling' | 'titan';
+
+export interface VirtualAccount {
+  bank: VirtualAccountBank;
+  bankName: string;
+  accountNumber: string;
+  accountName: string;
+  lastPaymentAt?: string;
+}
+
+export interface VirtualAccountsResponse extends ApiResponse {
+  accounts: VirtualAccount[];
+  supportedBanks: { bank: VirtualAccountBank; bankName: string }[];
+}
+
+export interface VirtualAccountResponse extends ApiResponse {
+  account: VirtualAccount;
+}
+
+// ---------- Card payments ----------
+export type CardPaymentStatus = 'pending' | 'success' | 'failed';
+
+export interface CardPayment {
+  reference: string;
+  amount: number;
+  status: CardPaymentStatus;
+  /** Hosted checkout page; only present while the payment is pending */
+  authorizationUrl?: string;
+  /** The checkout redirects here when the customer is done */
+  callbackUrl: string;
+  card?: { last4?: string; brand?: string; bank?: string };
+  failureReason?: string;
+  createdAt: string;
+  paidAt?: string;
+}
+
+export interface InitializeCardPaymentResponse extends ApiResponse {
+  payment: CardPayment;
+  limits: { min: number; max: number };
+}
+
+export interface CardPaymentResponse extends ApiResponse {
+  payment: CardPayment;
+  newBalance?: { mainBalance: number; bonusBalance: number; totalBalance: number };
+}
+
+// ---------- Transaction history ----------
+export type HistoryServiceType =
+  | 'airtime' | 'data' | 'electricity' | 'cable_tv' | 'education' | 'internet' | 'print_recharge'
+  | 'betting' | 'transfer' | 'withdrawal' | 'funding' | 'fee' | 'adjustment' | 'wallet';
+
+export type HistoryStatus = 'pending' | 'completed' | 'failed' | 'cancelled';
+
+export interface HistoryTransaction {
+  _id: string;
+  reference: string;
+  type: 'credit' | 'debit' | 'transfer_in' | 'transfer_out';
+  direction: 'credit' | 'debit';
+  category: string;
+  status: HistoryStatus;
+  amount: number;
+  description: string;
+  balanceBefore: number;
+  balanceAfter: number;
+  service: {
+    type: HistoryServiceType;
+    label: string;
+    provider?: string;
+    plan?: string;
+    /** Phone, meter, smartcard, bank account or user the money went to or came from */
+    counterparty: { name?: string; identifier: string } | null;
+  };
+  failureReason?: string;
+  createdAt: string;
+  completedAt?: string;
+  failedAt?: string;
+}
+
+/** List filters accept several values, e.g. serviceType: ['airtime', 'data'] */
+export interface TransactionHistoryParams {
+  serviceType?: HistoryServiceType[];
+  category?: string[];
+  status?: HistoryStatus[];
+  /** ISO dates; a bare `to` date includes the whole day */
+  from?: string;
+  to?: string;
+  minAmount?: number;
+  maxAmount?: number;
+  /** Reference, phone, meter, smartcard or customer number; at least 3 characters */
+  q?: string;
+  cursor?: string;
+  limit?: number;
+}
+
+export interface TransactionHistoryResponse extends ApiResponse {
+  transactions: HistoryTransaction[];
+  pageInfo: { nextCursor: string | null; hasMore: boolean; limit: number };
+}
+
+export interface RechargePinCode {
+  pin: string;
+  serial: string;
+}
+
+export interface HistoryTransactionDetail extends HistoryTransaction {
+  details: {
+    recipient: {
+      phone?: string;
+      meterNumber?: string;
+      meterType?: 'prepaid' | 'postpaid';
+      smartCardNumber?: string;
+      customerId?: string;
+      customerName?: string;
+      address?: string;
+    };
+    provider: { name?: string; reference?: string; message?: string };
+    /** Electricity token and units, for prepaid meters */
+    token?: string;
+    units?: string;
+    /** Recharge card PINs */
+    pins?: RechargePinCode[];
+    narration?: string;
+    issue?: { message: string; reportedAt: string };
+  };
+}
+
+export interface HistoryTransactionResponse extends ApiResponse {
+  transaction: HistoryTransactionDetail;
+}
+
+export interface TransactionReceipt {
+  reference: string;
+  title: string;
+  status: HistoryStatus;
+  statusTitle: string;
+  direction: 'credit' | 'debit';
+  amount: number;
+  formattedAmount: string;
+  customer?: { name: string; email?: string };
+  /** Label/value pairs in display order */
+  rows: { label: string; value: string }[];
+  /** Electricity token or recharge PINs, shown prominently */
+  highlight: { label: string; values: string[] } | null;
+  issuedAt: string;
+}
+
+export interface TransactionReceiptResponse extends ApiResponse {
+  receipt: TransactionReceipt;
+}
+
+// ---------- Statements ----------
+export type StatementFormat = 'pdf' | 'csv';
+
+export interface StatementLine {
+  date: string;
+  reference: string;
+  description: string;
+  category: string;
+  status: HistoryStatus;
+  debit: number;
+  credit: number;
+  /** Wallet balance after this line */
+  balance: number;
+}
+
+export interface Statement {
+  account: { name: string; username: string; email?: string; walletId: string; currency: string };
+  period: { from: string; to: string };
+  openingBalance: number;
+  closingBalance: number;
+  lines: StatementLine[];
+  totals: {
+    credits: number;
+    debits: number;
+    count: number;
+    byCategory: { category: string; label: string; credits: number; debits: number; count: number }[];
+  };
+  generatedAt: string;
+}
+
+export interface StatementResponse extends ApiResponse {
+  statement: Statement;
+}
+
+// ---------- Transaction PIN ----------
+export interface PinStatusResponse extends ApiResponse {
+  isPinSet: boolean;
+  hasPinSet: boolean;
+  isLocked: boolean;
+  lockTimeRemaining: number;
+  attemptsRemaining: number;
+}
+
+// ---------- Biometric confirmation ----------
+// Enrolled devices can sign a one-time challenge instead of sending the PIN
+export interface BiometricDevice {
+  id: string;
+  deviceId: string;
+  deviceName?: string;
+  platform?: string;
+  enrolledAt: string;
+  lastUsedAt: string | null;
+}
+
+export interface BiometricDevicesResponse extends ApiResponse {
+  devices: BiometricDevice[];
+}
+
+export interface BiometricDeviceResponse extends ApiResponse {
+  device: BiometricDevice;
+}
+
+export interface EnrollBiometricRequest {
+  deviceId: string;
+  deviceName?: string;
+  platform?: string;
+  publicKey: string;
+  pin: string;
+}
+
+export interface BiometricChallengeRequest {
+  deviceId: string;
+  action: 'purchase';
+  amount: number;
+}
+
+export interface BiometricChallengeResponse extends ApiResponse {
+  challengeId: string;
+  // The exact string to sign
+  payload: string;
+  expiresAt: string;
+}
+
+export interface BiometricAuthorization {
+  challengeId: string;
+  signature: string;
+}
+
+// ---------- Purchases ----------
+// Authorized with the PIN or, on an enrolled device, a signed challenge
+interface PurchaseBase {
+  amount: number;
+  pin?: string;
+  biometric?: BiometricAuthorization;
+}
+
+export interface AirtimePurchaseRequest extends PurchaseBase {
+  type: 'airtime';
+  network: string;
+  phone: string;
+}
+
+export interface DataPurchaseRequest extends PurchaseBase {
+  type: 'data';
+  network: string;
+  phone: string;
+  planId?: string;
+  plan?: string;
+}
+
+export interface ElectricityPurchaseRequest extends PurchaseBase {
+  type: 'electricity';
+  provider: string;
+  meterNumber: string;
+  meterType: string;
+  phone?: string;
+  customerName?: string;
+  customerAddress?: string;
+}
+
+export interface CableTvPurchaseRequest extends PurchaseBase {
+  type: 'cable_tv';
+  operator: string;
+  packageId: string;
+  smartCardNumber: string;
+  phone: string;
+}
+
+export interface InternetPurchaseRequest extends PurchaseBase {
+  type: 'internet';
+  provider: string;
+  planId?: string;
+  plan: string;
+  planType?: 'monthly' | 'weekly' | 'daily' | 'yearly';
+  customerNumber: string;
+}
+
+export interface BettingPurchaseRequest extends PurchaseBase {
+  type: 'fund_betting';
+  provider: string;
+  customerId: string;
+  customerName?: string;
+}
+
+export type PurchaseRequest =
+  | AirtimePurchaseRequest
+  | DataPurchaseRequest
+  | ElectricityPurchaseRequest
+  | CableTvPurchaseRequest
+  | InternetPurchaseRequest
+  | BettingPurchaseRequest;
+
+export interface PurchaseTransaction {
+  _id: string;
+  type: string;
+  amount: number;
+  status: 'completed' | 'failed' | 'pending';
+  reference: string;
+  responseMessage: string;
+  timestamp: string;
+  serviceType?: string;
+  [detail: string]: unknown;
+}
+
+export interface PurchaseResponse extends ApiResponse {
+  transaction: PurchaseTransaction;
+  newBalance?: {
+    mainBalance: number;
+    bonusBalance: number;
+    totalBalance: number;
+    amount?: number;
+    currency?: string;
+    lastUpdated?: string;
+  };
+}
+
+// ---------- Data plans ----------
+export interface DataPlan {
+  id: string;
+  name: string;
+  amount: number;
+  validity: string;
+  dataSize: string;
+  network: string;
+  description?: string;
+  category?: 'daily' | 'weekly' | 'monthly';
+  popular?: boolean;
+}
+
+export interface DataPlansResponse extends ApiResponse {
+  plans: DataPlan[];
+  plansByCategory: Record<'daily' | 'weekly' | 'monthly', DataPlan[]>;
+}
+
+// ---------- Cable TV ----------
+export interface CablePackage {
+  variation_id: string;
+  name: string;
+  amount: number;
+  duration: string;
+  description: string;
+}
+
+export interface CablePackagesResponse extends ApiResponse {
+  data: CablePackage[];
+  operator: string;
+  count: number;
+  cached?: boolean;
+}
+
+export interface SmartCardValidationRequest {
+  smartCardNumber: string;
+  operator: string;
+}
+
+export interface SmartCardValidationResponse extends ApiResponse {
+  customerName: string;
+  smartCardNumber: string;
+  operator: string;
+  status: string;
+}
+
+// ---------- Electricity ----------
+export interface ElectricityProvider {
+  id: string;
+  name: string;
+  fullName: string;
+  acronym: string;
+  isActive: boolean;
+  minAmount: number;
+  maxAmount: number;
+  fee: number;
+  meterTypes?: ('prepaid' | 'postpaid')[];
+}
+
+export interface ElectricityProvidersResponse extends ApiResponse {
+  data: ElectricityProvider[];
+}
+
+export interface MeterValidationRequest {
+  meterNumber: string;
+  provider: string;
+  meterType: string;
+}
+
+export interface MeterValidationResponse extends ApiResponse {
+  data: {
+    customerName: string;
+    customerAddress?: string;
+    accountNumber?: string | null;
+    meterNumber: string;
+    meterType: string;
+    provider: string;
+    tariffClass?: string | null;
+  };
+}
+
+// ---------- Recharge PINs ----------
+export interface RechargePin {
+  pin: string;
+  serial: string;
+}
+
+export interface RechargeGenerateRequest {
+  network: string;
+  type: 'airtime' | 'data';
+  denomination: number;
+  quantity: number;
+  pin: string;
+}
+
+export interface RechargeTransaction {
+  _id: string;
+  network: string;
+  type: string;
+  amount: number;
+  quantity: number;
+  denomination: number;
+  pins: RechargePin[];
+  status: string;
+  createdAt: string;
+  balanceAfter: number;
+  reference?: string;
+}
+
+export interface RechargeGenerateResponse extends ApiResponse {
+  transaction: RechargeTransaction;
+  newBalance: {
+    amount: number;
+    currency: string;
+    lastUpdated: string;
+  };
+}
+
+export interface RechargeHistoryResponse extends ApiResponse {
+  data: {
+    transactions: RechargeTransaction[];
+  };
+}